@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "coupon_type" AS ENUM ('percentage', 'fixed_amount', 'free_photos');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "coupon_redemption_id" UUID,
+ADD COLUMN     "discount_amount" DECIMAL(10,2),
+ADD COLUMN     "snap_coupon_code" VARCHAR(40),
+ADD COLUMN     "subtotal_before_discount" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "coupons" (
+    "id" UUID NOT NULL,
+    "code" VARCHAR(40) NOT NULL,
+    "type" "coupon_type" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "currency" VARCHAR(3),
+    "event_id" UUID,
+    "starts_at" TIMESTAMPTZ,
+    "ends_at" TIMESTAMPTZ,
+    "max_uses" INTEGER,
+    "max_uses_per_customer" INTEGER,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by_id" UUID,
+
+    CONSTRAINT "coupons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "coupon_redemptions" (
+    "id" UUID NOT NULL,
+    "coupon_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "discount_amount" DECIMAL(10,2) NOT NULL,
+    "redeemed_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "coupon_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupons_code_key" ON "coupons"("code");
+
+-- CreateIndex
+CREATE INDEX "coupons_event_id_idx" ON "coupons"("event_id");
+
+-- CreateIndex
+CREATE INDEX "coupons_created_by_id_idx" ON "coupons"("created_by_id");
+
+-- CreateIndex
+CREATE INDEX "coupon_redemptions_coupon_id_idx" ON "coupon_redemptions"("coupon_id");
+
+-- CreateIndex
+CREATE INDEX "coupon_redemptions_coupon_id_user_id_idx" ON "coupon_redemptions"("coupon_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "orders_coupon_redemption_id_idx" ON "orders"("coupon_redemption_id");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_coupon_redemption_id_fkey" FOREIGN KEY ("coupon_redemption_id") REFERENCES "coupon_redemptions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_coupon_id_fkey" FOREIGN KEY ("coupon_id") REFERENCES "coupons"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "is_bib_package" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "orders_event_id_bib_number_idx" ON "orders"("event_id", "bib_number");
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "payment_attempt_status" AS ENUM ('created', 'succeeded', 'failed', 'expired');
+
+-- CreateTable
+CREATE TABLE "payment_attempts" (
+    "id" UUID NOT NULL,
+    "order_id" UUID NOT NULL,
+    "provider" VARCHAR(30) NOT NULL,
+    "provider_session_id" VARCHAR(255) NOT NULL,
+    "idempotency_key" VARCHAR(255) NOT NULL,
+    "status" "payment_attempt_status" NOT NULL DEFAULT 'created',
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "checkout_url" TEXT NOT NULL,
+    "expires_at" TIMESTAMPTZ,
+    "failure_reason" VARCHAR(255),
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMPTZ,
+
+    CONSTRAINT "payment_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_webhook_events" (
+    "id" UUID NOT NULL,
+    "provider" VARCHAR(30) NOT NULL,
+    "provider_event_id" VARCHAR(255) NOT NULL,
+    "type" VARCHAR(50) NOT NULL,
+    "payment_attempt_id" UUID,
+    "payload" JSONB NOT NULL,
+    "received_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_attempts_idempotency_key_key" ON "payment_attempts"("idempotency_key");
+
+-- CreateIndex
+CREATE INDEX "payment_attempts_order_id_created_at_idx" ON "payment_attempts"("order_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_attempts_provider_provider_session_id_key" ON "payment_attempts"("provider", "provider_session_id");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_payment_attempt_id_idx" ON "payment_webhook_events"("payment_attempt_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_events_provider_provider_event_id_key" ON "payment_webhook_events"("provider", "provider_event_id");
+
+-- AddForeignKey
+ALTER TABLE "payment_attempts" ADD CONSTRAINT "payment_attempts_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_webhook_events" ADD CONSTRAINT "payment_webhook_events_payment_attempt_id_fkey" FOREIGN KEY ("payment_attempt_id") REFERENCES "payment_attempts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
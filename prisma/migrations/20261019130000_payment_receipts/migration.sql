@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "payment_receipt_status" AS ENUM ('pending', 'approved', 'rejected', 'superseded');
+
+-- CreateTable
+CREATE TABLE "payment_receipts" (
+    "id" UUID NOT NULL,
+    "order_id" UUID NOT NULL,
+    "storage_key" VARCHAR(500) NOT NULL,
+    "file_size" BIGINT,
+    "mime_type" VARCHAR(50),
+    "status" "payment_receipt_status" NOT NULL DEFAULT 'pending',
+    "rejection_reason" VARCHAR(500),
+    "submitted_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "submitted_by_id" UUID NOT NULL,
+    "reviewed_at" TIMESTAMPTZ,
+    "reviewed_by_id" UUID,
+
+    CONSTRAINT "payment_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_receipts_storage_key_key" ON "payment_receipts"("storage_key");
+
+-- CreateIndex
+CREATE INDEX "payment_receipts_order_id_idx" ON "payment_receipts"("order_id");
+
+-- CreateIndex
+CREATE INDEX "payment_receipts_status_submitted_at_idx" ON "payment_receipts"("status", "submitted_at");
+
+-- CreateIndex
+CREATE INDEX "payment_receipts_submitted_by_id_idx" ON "payment_receipts"("submitted_by_id");
+
+-- CreateIndex
+CREATE INDEX "payment_receipts_reviewed_by_id_idx" ON "payment_receipts"("reviewed_by_id");
+
+-- AddForeignKey
+ALTER TABLE "payment_receipts" ADD CONSTRAINT "payment_receipts_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_receipts" ADD CONSTRAINT "payment_receipts_submitted_by_id_fkey" FOREIGN KEY ("submitted_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_receipts" ADD CONSTRAINT "payment_receipts_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterEnum
+ALTER TYPE "order_status" ADD VALUE 'refunded';
+
+-- CreateEnum
+CREATE TYPE "order_refund_kind" AS ENUM ('full', 'items');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "refunded_at" TIMESTAMPTZ;
+
+-- CreateTable
+CREATE TABLE "order_refunds" (
+    "id" UUID NOT NULL,
+    "order_id" UUID NOT NULL,
+    "kind" "order_refund_kind" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" VARCHAR(3),
+    "reason" VARCHAR(500) NOT NULL,
+    "photo_ids" UUID[],
+    "refunded_by_id" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_refunds_order_id_idx" ON "order_refunds"("order_id");
+
+-- CreateIndex
+CREATE INDEX "order_refunds_refunded_by_id_idx" ON "order_refunds"("refunded_by_id");
+
+-- AddForeignKey
+ALTER TABLE "order_refunds" ADD CONSTRAINT "order_refunds_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_refunds" ADD CONSTRAINT "order_refunds_refunded_by_id_fkey" FOREIGN KEY ("refunded_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "fiscal_year" INTEGER NOT NULL,
+    "last_value" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("fiscal_year")
+);
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" UUID NOT NULL,
+    "order_id" UUID NOT NULL,
+    "fiscal_year" INTEGER NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "number" VARCHAR(20) NOT NULL,
+    "currency" VARCHAR(3),
+    "total" DECIMAL(10,2) NOT NULL,
+    "storage_key" VARCHAR(500),
+    "issued_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_order_id_key" ON "invoices"("order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_number_key" ON "invoices"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_storage_key_key" ON "invoices"("storage_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_fiscal_year_sequence_key" ON "invoices"("fiscal_year", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "snap_base_currency" VARCHAR(3),
+ADD COLUMN     "snap_fx_rate" DECIMAL(18,8);
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" UUID NOT NULL,
+    "base_currency" VARCHAR(3) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_by_id" UUID,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_updated_by_id_idx" ON "exchange_rates"("updated_by_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_base_currency_currency_key" ON "exchange_rates"("base_currency", "currency");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_updated_by_id_fkey" FOREIGN KEY ("updated_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: every order so far was priced in USD, the default base currency
+UPDATE "orders" SET "snap_base_currency" = 'USD', "snap_fx_rate" = 1 WHERE "snap_currency" = 'USD';
@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "upload_session_status" AS ENUM ('open', 'completed', 'aborted');
+
+-- CreateEnum
+CREATE TYPE "upload_session_item_status" AS ENUM ('pending', 'uploading', 'completed', 'duplicate', 'aborted');
+
+-- CreateTable
+CREATE TABLE "upload_sessions" (
+    "id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "status" "upload_session_status" NOT NULL DEFAULT 'open',
+    "part_size" INTEGER NOT NULL,
+    "photo_category_id" INTEGER,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMPTZ,
+    "aborted_at" TIMESTAMPTZ,
+    "created_by_id" UUID,
+
+    CONSTRAINT "upload_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "upload_session_items" (
+    "id" UUID NOT NULL,
+    "session_id" UUID NOT NULL,
+    "file_name" VARCHAR(255) NOT NULL,
+    "file_size" BIGINT NOT NULL,
+    "content_type" VARCHAR(50) NOT NULL,
+    "object_key" VARCHAR(500) NOT NULL,
+    "upload_id" VARCHAR(255),
+    "total_parts" INTEGER NOT NULL,
+    "completed_parts" JSONB NOT NULL DEFAULT '[]',
+    "status" "upload_session_item_status" NOT NULL DEFAULT 'pending',
+    "completed_at" TIMESTAMPTZ,
+
+    CONSTRAINT "upload_session_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_event_id_status_idx" ON "upload_sessions"("event_id", "status");
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_created_by_id_idx" ON "upload_sessions"("created_by_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_session_items_object_key_key" ON "upload_session_items"("object_key");
+
+-- CreateIndex
+CREATE INDEX "upload_session_items_session_id_status_idx" ON "upload_session_items"("session_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "upload_session_items_session_id_file_name_key" ON "upload_session_items"("session_id", "file_name");
+
+-- AddForeignKey
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "upload_session_items" ADD CONSTRAINT "upload_session_items_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "upload_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
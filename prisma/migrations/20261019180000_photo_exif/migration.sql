@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "photo_exif" (
+    "photo_id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "camera_make" VARCHAR(100),
+    "camera_model" VARCHAR(100),
+    "camera_serial" VARCHAR(100),
+    "camera_body" VARCHAR(250),
+    "lens_model" VARCHAR(150),
+    "orientation" INTEGER,
+    "gps_latitude" DOUBLE PRECISION,
+    "gps_longitude" DOUBLE PRECISION,
+    "gps_altitude" DOUBLE PRECISION,
+    "original_captured_at" TIMESTAMPTZ,
+    "extracted_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "photo_exif_pkey" PRIMARY KEY ("photo_id")
+);
+
+-- CreateTable
+CREATE TABLE "camera_clock_offsets" (
+    "id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "camera_body" VARCHAR(250) NOT NULL,
+    "offset_seconds" INTEGER NOT NULL,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_by_id" UUID,
+
+    CONSTRAINT "camera_clock_offsets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "photo_exif_event_id_camera_body_idx" ON "photo_exif"("event_id", "camera_body");
+
+-- CreateIndex
+CREATE INDEX "camera_clock_offsets_updated_by_id_idx" ON "camera_clock_offsets"("updated_by_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "camera_clock_offsets_event_id_camera_body_key" ON "camera_clock_offsets"("event_id", "camera_body");
+
+-- CreateIndex
+CREATE INDEX "photos_captured_at_idx" ON "photos"("captured_at");
+
+-- AddForeignKey
+ALTER TABLE "photo_exif" ADD CONSTRAINT "photo_exif_photo_id_fkey" FOREIGN KEY ("photo_id") REFERENCES "photos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "photo_exif" ADD CONSTRAINT "photo_exif_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "camera_clock_offsets" ADD CONSTRAINT "camera_clock_offsets_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "camera_clock_offsets" ADD CONSTRAINT "camera_clock_offsets_updated_by_id_fkey" FOREIGN KEY ("updated_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "participants" (
+    "id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "bib" VARCHAR(20) NOT NULL,
+    "full_name" VARCHAR(200) NOT NULL,
+    "email" VARCHAR(255),
+    "phone" VARCHAR(20),
+    "participant_category_id" INTEGER,
+    "team" VARCHAR(150),
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "imported_by_id" UUID,
+
+    CONSTRAINT "participants_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "snap_participant_name" VARCHAR(200),
+ADD COLUMN "snap_participant_team" VARCHAR(150);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "participants_event_id_bib_key" ON "participants"("event_id", "bib");
+
+-- CreateIndex
+CREATE INDEX "participants_participant_category_id_idx" ON "participants"("participant_category_id");
+
+-- CreateIndex
+CREATE INDEX "participants_imported_by_id_idx" ON "participants"("imported_by_id");
+
+-- AddForeignKey
+ALTER TABLE "participants" ADD CONSTRAINT "participants_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "participants" ADD CONSTRAINT "participants_participant_category_id_fkey" FOREIGN KEY ("participant_category_id") REFERENCES "participant_categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "participants" ADD CONSTRAINT "participants_imported_by_id_fkey" FOREIGN KEY ("imported_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
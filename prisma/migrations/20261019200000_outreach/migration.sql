@@ -0,0 +1,100 @@
+-- CreateEnum
+CREATE TYPE "outreach_channel" AS ENUM ('email', 'whatsapp');
+
+-- CreateEnum
+CREATE TYPE "outreach_campaign_status" AS ENUM ('sending', 'completed', 'cancelled');
+
+-- CreateEnum
+CREATE TYPE "outreach_message_status" AS ENUM ('queued', 'sent', 'failed', 'opted_out', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "outreach_campaigns" (
+    "id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "channel" "outreach_channel" NOT NULL,
+    "status" "outreach_campaign_status" NOT NULL DEFAULT 'sending',
+    "expires_in_days" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMPTZ,
+    "cancelled_at" TIMESTAMPTZ,
+    "created_by_id" UUID NOT NULL,
+
+    CONSTRAINT "outreach_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_messages" (
+    "id" UUID NOT NULL,
+    "campaign_id" UUID NOT NULL,
+    "participant_id" UUID,
+    "recipient_name" VARCHAR(200) NOT NULL,
+    "recipient" VARCHAR(255) NOT NULL,
+    "photo_ids" UUID[],
+    "preview_link_id" UUID,
+    "status" "outreach_message_status" NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" VARCHAR(500),
+    "provider_message_id" VARCHAR(255),
+    "opt_out_token" VARCHAR(64) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sent_at" TIMESTAMPTZ,
+    "opted_out_at" TIMESTAMPTZ,
+
+    CONSTRAINT "outreach_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_opt_outs" (
+    "id" UUID NOT NULL,
+    "channel" "outreach_channel" NOT NULL,
+    "address" VARCHAR(255) NOT NULL,
+    "message_id" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outreach_opt_outs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outreach_campaigns_event_id_idx" ON "outreach_campaigns"("event_id");
+
+-- CreateIndex
+CREATE INDEX "outreach_campaigns_created_by_id_idx" ON "outreach_campaigns"("created_by_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_messages_preview_link_id_key" ON "outreach_messages"("preview_link_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_messages_opt_out_token_key" ON "outreach_messages"("opt_out_token");
+
+-- CreateIndex
+CREATE INDEX "outreach_messages_campaign_id_status_idx" ON "outreach_messages"("campaign_id", "status");
+
+-- CreateIndex
+CREATE INDEX "outreach_messages_participant_id_idx" ON "outreach_messages"("participant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_messages_campaign_id_participant_id_key" ON "outreach_messages"("campaign_id", "participant_id");
+
+-- CreateIndex
+CREATE INDEX "outreach_opt_outs_message_id_idx" ON "outreach_opt_outs"("message_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_opt_outs_channel_address_key" ON "outreach_opt_outs"("channel", "address");
+
+-- AddForeignKey
+ALTER TABLE "outreach_campaigns" ADD CONSTRAINT "outreach_campaigns_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_campaigns" ADD CONSTRAINT "outreach_campaigns_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_messages" ADD CONSTRAINT "outreach_messages_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "outreach_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_messages" ADD CONSTRAINT "outreach_messages_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_messages" ADD CONSTRAINT "outreach_messages_preview_link_id_fkey" FOREIGN KEY ("preview_link_id") REFERENCES "preview_links"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_opt_outs" ADD CONSTRAINT "outreach_opt_outs_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "outreach_messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "checkpoints" (
+    "id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "tolerance_seconds" INTEGER NOT NULL DEFAULT 300,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timing_splits" (
+    "id" UUID NOT NULL,
+    "checkpoint_id" UUID NOT NULL,
+    "bib" VARCHAR(20) NOT NULL,
+    "passed_at" TIMESTAMPTZ NOT NULL,
+    "imported_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "imported_by_id" UUID,
+
+    CONSTRAINT "timing_splits_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "photos" ADD COLUMN "checkpoint_id" UUID;
+
+-- AlterTable
+ALTER TABLE "upload_sessions" ADD COLUMN "checkpoint_id" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkpoints_event_id_name_key" ON "checkpoints"("event_id", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timing_splits_checkpoint_id_bib_key" ON "timing_splits"("checkpoint_id", "bib");
+
+-- CreateIndex
+CREATE INDEX "timing_splits_imported_by_id_idx" ON "timing_splits"("imported_by_id");
+
+-- CreateIndex
+CREATE INDEX "photos_checkpoint_id_idx" ON "photos"("checkpoint_id");
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_checkpoint_id_idx" ON "upload_sessions"("checkpoint_id");
+
+-- AddForeignKey
+ALTER TABLE "checkpoints" ADD CONSTRAINT "checkpoints_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timing_splits" ADD CONSTRAINT "timing_splits_checkpoint_id_fkey" FOREIGN KEY ("checkpoint_id") REFERENCES "checkpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timing_splits" ADD CONSTRAINT "timing_splits_imported_by_id_fkey" FOREIGN KEY ("imported_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "photos" ADD CONSTRAINT "photos_checkpoint_id_fkey" FOREIGN KEY ("checkpoint_id") REFERENCES "checkpoints"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_checkpoint_id_fkey" FOREIGN KEY ("checkpoint_id") REFERENCES "checkpoints"("id") ON DELETE SET NULL ON UPDATE CASCADE;
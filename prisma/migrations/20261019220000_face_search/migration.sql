@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "selfie_search_status" AS ENUM ('pending', 'matched', 'purged');
+
+-- CreateTable
+CREATE TABLE "photo_face_embeddings" (
+    "id" UUID NOT NULL,
+    "photo_id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "detection_id" UUID,
+    "bbox" JSONB NOT NULL,
+    "confidence" DECIMAL(4,3) NOT NULL,
+    "embedding" vector(512) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "photo_face_embeddings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "selfie_searches" (
+    "id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "token" VARCHAR(64) NOT NULL,
+    "object_key" VARCHAR(500) NOT NULL,
+    "content_type" VARCHAR(50) NOT NULL,
+    "status" "selfie_search_status" NOT NULL DEFAULT 'pending',
+    "matches" JSONB,
+    "consented_at" TIMESTAMPTZ NOT NULL,
+    "expires_at" TIMESTAMPTZ NOT NULL,
+    "matched_at" TIMESTAMPTZ,
+    "purged_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "selfie_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "photo_face_embeddings_photo_id_idx" ON "photo_face_embeddings"("photo_id");
+
+-- CreateIndex
+CREATE INDEX "photo_face_embeddings_event_id_idx" ON "photo_face_embeddings"("event_id");
+
+-- CreateIndex
+CREATE INDEX "photo_face_embeddings_detection_id_idx" ON "photo_face_embeddings"("detection_id");
+
+-- CreateIndex
+CREATE INDEX "photo_face_embeddings_embedding_idx" ON "photo_face_embeddings" USING hnsw ("embedding" vector_cosine_ops);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "selfie_searches_token_key" ON "selfie_searches"("token");
+
+-- CreateIndex
+CREATE INDEX "selfie_searches_event_id_idx" ON "selfie_searches"("event_id");
+
+-- CreateIndex
+CREATE INDEX "selfie_searches_status_expires_at_idx" ON "selfie_searches"("status", "expires_at");
+
+-- AddForeignKey
+ALTER TABLE "photo_face_embeddings" ADD CONSTRAINT "photo_face_embeddings_photo_id_fkey" FOREIGN KEY ("photo_id") REFERENCES "photos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "photo_face_embeddings" ADD CONSTRAINT "photo_face_embeddings_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "photo_face_embeddings" ADD CONSTRAINT "photo_face_embeddings_detection_id_fkey" FOREIGN KEY ("detection_id") REFERENCES "photo_detections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "selfie_searches" ADD CONSTRAINT "selfie_searches_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
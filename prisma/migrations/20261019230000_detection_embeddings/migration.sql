@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "photo_detection_embeddings" (
+    "id" UUID NOT NULL,
+    "detection_id" UUID NOT NULL,
+    "photo_id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "class_name" TEXT NOT NULL,
+    "embedding" vector(1024) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "photo_detection_embeddings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "photo_detection_embeddings_detection_id_key" ON "photo_detection_embeddings"("detection_id");
+
+-- CreateIndex
+CREATE INDEX "photo_detection_embeddings_photo_id_idx" ON "photo_detection_embeddings"("photo_id");
+
+-- CreateIndex
+CREATE INDEX "photo_detection_embeddings_event_id_idx" ON "photo_detection_embeddings"("event_id");
+
+-- CreateIndex
+CREATE INDEX "photo_detection_embeddings_embedding_idx" ON "photo_detection_embeddings" USING hnsw ("embedding" vector_cosine_ops);
+
+-- AddForeignKey
+ALTER TABLE "photo_detection_embeddings" ADD CONSTRAINT "photo_detection_embeddings_detection_id_fkey" FOREIGN KEY ("detection_id") REFERENCES "photo_detections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "photo_detection_embeddings" ADD CONSTRAINT "photo_detection_embeddings_photo_id_fkey" FOREIGN KEY ("photo_id") REFERENCES "photos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "photo_detection_embeddings" ADD CONSTRAINT "photo_detection_embeddings_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "bib_range_max" INTEGER,
+ADD COLUMN     "bib_range_min" INTEGER;
+
+-- AlterTable
+ALTER TABLE "photo_bibs" ADD COLUMN     "detection_id" UUID;
+
+-- CreateTable
+CREATE TABLE "photo_bib_readings" (
+    "id" UUID NOT NULL,
+    "photo_bib_id" UUID NOT NULL,
+    "digits" TEXT NOT NULL,
+    "confidence" DECIMAL(4,3),
+    "confidence_per_digit" JSONB,
+    "status" "BibReadingStatus",
+    "rejection_reason" TEXT,
+    "raw_ocr_text" TEXT,
+    "bbox_source" JSONB,
+    "preprocessing_applied" JSONB,
+    "processing_ms" DOUBLE PRECISION,
+    "crop_path" VARCHAR(255),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "photo_bib_readings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "photo_bib_readings_photo_bib_id_idx" ON "photo_bib_readings"("photo_bib_id");
+
+-- AddForeignKey
+ALTER TABLE "photo_bibs" ADD CONSTRAINT "photo_bibs_detection_id_fkey" FOREIGN KEY ("detection_id") REFERENCES "photo_detections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "photo_bib_readings" ADD CONSTRAINT "photo_bib_readings_photo_bib_id_fkey" FOREIGN KEY ("photo_bib_id") REFERENCES "photo_bibs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: AI bibs stored before reconciliation are their own single reading
+INSERT INTO "photo_bib_readings" (
+    "id", "photo_bib_id", "digits", "confidence", "confidence_per_digit", "status",
+    "rejection_reason", "raw_ocr_text", "bbox_source", "preprocessing_applied",
+    "processing_ms", "crop_path", "created_at"
+)
+SELECT gen_random_uuid(), "id", "digits", "confidence", "confidence_per_digit", "status",
+       "rejection_reason", "raw_ocr_text", "bbox_source", "preprocessing_applied",
+       "processing_ms", "crop_path", "created_at"
+FROM "photo_bibs"
+WHERE "source" = 'ai';
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "AttributeSource" ADD VALUE 'burst';
+
+-- AlterTable
+ALTER TABLE "photos" ADD COLUMN     "burst_id" UUID;
+
+-- AlterTable
+ALTER TABLE "photo_bibs" ADD COLUMN     "propagated_from_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "photos_burst_id_idx" ON "photos"("burst_id");
+
+-- AddForeignKey
+ALTER TABLE "photo_bibs" ADD CONSTRAINT "photo_bibs_propagated_from_id_fkey" FOREIGN KEY ("propagated_from_id") REFERENCES "photo_bibs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
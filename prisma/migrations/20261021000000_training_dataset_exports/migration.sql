@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "training_dataset_exports" (
+    "id" UUID NOT NULL,
+    "version" SERIAL NOT NULL,
+    "event_id" UUID,
+    "labelled_from" TIMESTAMPTZ,
+    "labelled_to" TIMESTAMPTZ,
+    "bib_labels" INTEGER NOT NULL,
+    "color_labels" INTEGER NOT NULL,
+    "model_versions" JSONB NOT NULL,
+    "ocr_key" VARCHAR(500) NOT NULL,
+    "detections_key" VARCHAR(500) NOT NULL,
+    "created_by_id" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "training_dataset_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "training_dataset_exports_version_key" ON "training_dataset_exports"("version");
+
+-- CreateIndex
+CREATE INDEX "training_dataset_exports_event_id_idx" ON "training_dataset_exports"("event_id");
+
+-- AddForeignKey
+ALTER TABLE "training_dataset_exports" ADD CONSTRAINT "training_dataset_exports_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "training_dataset_exports" ADD CONSTRAINT "training_dataset_exports_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
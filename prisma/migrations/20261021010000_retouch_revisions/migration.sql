@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "photo_retouch_revisions" (
+    "id" UUID NOT NULL,
+    "photo_id" UUID NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "storage_key" VARCHAR(500) NOT NULL,
+    "public_slug" VARCHAR(30) NOT NULL,
+    "file_size" BIGINT NOT NULL,
+    "note" VARCHAR(500),
+    "created_by_id" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "superseded_at" TIMESTAMPTZ,
+    "purged_at" TIMESTAMPTZ,
+
+    CONSTRAINT "photo_retouch_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "photo_retouch_revisions_storage_key_key" ON "photo_retouch_revisions"("storage_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "photo_retouch_revisions_public_slug_key" ON "photo_retouch_revisions"("public_slug");
+
+-- CreateIndex
+CREATE INDEX "photo_retouch_revisions_created_by_id_idx" ON "photo_retouch_revisions"("created_by_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "photo_retouch_revisions_photo_id_revision_key" ON "photo_retouch_revisions"("photo_id", "revision");
+
+-- AddForeignKey
+ALTER TABLE "photo_retouch_revisions" ADD CONSTRAINT "photo_retouch_revisions_photo_id_fkey" FOREIGN KEY ("photo_id") REFERENCES "photos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "photo_retouch_revisions" ADD CONSTRAINT "photo_retouch_revisions_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: the retouched file each photo already has becomes its first, active revision
+INSERT INTO "photo_retouch_revisions" (
+    "id", "photo_id", "revision", "storage_key", "public_slug", "file_size", "created_by_id",
+    "created_at"
+)
+SELECT gen_random_uuid(), "id", 1, "retouched_storage_key", "retouched_public_slug",
+       "retouched_file_size", "retouched_by_id", COALESCE("retouched_at", CURRENT_TIMESTAMP)
+FROM "photos"
+WHERE "retouched_storage_key" IS NOT NULL
+  AND "retouched_public_slug" IS NOT NULL
+  AND "retouched_file_size" IS NOT NULL;
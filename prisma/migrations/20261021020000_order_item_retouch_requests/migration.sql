@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "retouch_request_status" AS ENUM ('requested', 'awaiting_approval', 'revision_requested', 'approved');
+
+-- CreateTable
+CREATE TABLE "order_item_retouch_requests" (
+    "id" UUID NOT NULL,
+    "order_item_id" UUID NOT NULL,
+    "instructions" VARCHAR(1000) NOT NULL,
+    "price" DECIMAL(10,2),
+    "status" "retouch_request_status" NOT NULL DEFAULT 'requested',
+    "revisions_requested" INTEGER NOT NULL DEFAULT 0,
+    "revision_feedback" VARCHAR(1000),
+    "retouch_revision_id" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "approved_at" TIMESTAMPTZ,
+
+    CONSTRAINT "order_item_retouch_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_item_retouch_requests_order_item_id_key" ON "order_item_retouch_requests"("order_item_id");
+
+-- CreateIndex
+CREATE INDEX "order_item_retouch_requests_status_idx" ON "order_item_retouch_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "order_item_retouch_requests_retouch_revision_id_idx" ON "order_item_retouch_requests"("retouch_revision_id");
+
+-- AddForeignKey
+ALTER TABLE "order_item_retouch_requests" ADD CONSTRAINT "order_item_retouch_requests_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_item_retouch_requests" ADD CONSTRAINT "order_item_retouch_requests_retouch_revision_id_fkey" FOREIGN KEY ("retouch_revision_id") REFERENCES "photo_retouch_revisions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "retouch_claim_expires_at" TIMESTAMPTZ,
+ADD COLUMN     "retouch_claimed_at" TIMESTAMPTZ,
+ADD COLUMN     "retouch_claimed_by_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "order_items_retouch_claimed_by_id_idx" ON "order_items"("retouch_claimed_by_id");
+
+-- CreateIndex
+CREATE INDEX "orders_status_paid_at_idx" ON "orders"("status", "paid_at");
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_retouch_claimed_by_id_fkey" FOREIGN KEY ("retouch_claimed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "photos" ADD COLUMN     "reviewed_by_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "photos_reviewed_by_id_reviewed_at_idx" ON "photos"("reviewed_by_id", "reviewed_at");
+
+-- CreateIndex
+CREATE INDEX "corrections_reviewer_id_corrected_at_idx" ON "corrections"("reviewer_id", "corrected_at");
+
+-- AddForeignKey
+ALTER TABLE "photos" ADD CONSTRAINT "photos_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: photos reviewed before the reviewer was recorded go to whoever corrected them last
+UPDATE "photos" p
+SET "reviewed_by_id" = (
+    SELECT c."reviewer_id"
+    FROM "corrections" c
+    WHERE c."photo_id" = p."id"
+    ORDER BY c."corrected_at" DESC
+    LIMIT 1
+)
+WHERE p."reviewed_at" IS NOT NULL
+  AND p."reviewed_by_id" IS NULL;
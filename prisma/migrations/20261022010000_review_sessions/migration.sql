@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "photo_bibs" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "photo_colors" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "photos" ADD COLUMN     "review_session_id" UUID;
+
+-- CreateTable
+CREATE TABLE "review_sessions" (
+    "id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "reviewer_id" UUID NOT NULL,
+    "lease_expires_at" TIMESTAMPTZ NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMPTZ,
+
+    CONSTRAINT "review_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_sessions_event_id_reviewer_id_idx" ON "review_sessions"("event_id", "reviewer_id");
+
+-- CreateIndex
+CREATE INDEX "review_sessions_reviewer_id_idx" ON "review_sessions"("reviewer_id");
+
+-- CreateIndex
+CREATE INDEX "photos_review_session_id_idx" ON "photos"("review_session_id");
+
+-- AddForeignKey
+ALTER TABLE "photos" ADD CONSTRAINT "photos_review_session_id_fkey" FOREIGN KEY ("review_session_id") REFERENCES "review_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_sessions" ADD CONSTRAINT "review_sessions_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_sessions" ADD CONSTRAINT "review_sessions_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- Drop duplicate live burst suggestions left by concurrent jobs, keeping the oldest
+DELETE FROM "photo_bibs" dup
+USING "photo_bibs" kept
+WHERE dup."source" = 'burst'
+  AND kept."source" = 'burst'
+  AND dup."deleted_at" IS NULL
+  AND kept."deleted_at" IS NULL
+  AND dup."photo_id" = kept."photo_id"
+  AND dup."digits" = kept."digits"
+  AND (dup."created_at", dup."id") > (kept."created_at", kept."id");
+
+-- Unique partial index: one live burst suggestion per photo and digits
+CREATE UNIQUE INDEX "photo_bibs_burst_photo_id_digits_key" ON "photo_bibs" ("photo_id", "digits") WHERE "source" = 'burst' AND "deleted_at" IS NULL;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "upload_session_item_status" ADD VALUE 'assembled' AFTER 'uploading';
+
+-- AlterTable
+ALTER TABLE "upload_session_items" ADD COLUMN     "claimed_until" TIMESTAMPTZ;
@@ -18,11 +18,15 @@ import { DeliveriesModule } from './modules/deliveries/deliveries.module'
 import { EventAssetsModule } from './modules/event-assets/event-assets.module'
 import { EventTypesModule } from './modules/event-types/event-types.module'
 import { EventsModule } from './modules/events/events.module'
+import { FaceSearchModule } from './modules/face-search/face-search.module'
+import { InvoicesModule } from './modules/invoices/invoices.module'
 import { LocationsModule } from './modules/locations/locations.module'
 import { NotificationsModule } from './modules/notifications/notifications.module'
 import { OperatorModule } from './modules/operator/operator.module'
 import { OrdersModule } from './modules/orders/orders.module'
+import { OutreachModule } from './modules/outreach/outreach.module'
 import { ParticipantCategoriesModule } from './modules/participant-categories/participant-categories.module'
+import { ParticipantsModule } from './modules/participants/participants.module'
 import { PhotoCategoriesModule } from './modules/photo-categories/photo-categories.module'
 import { PhotosModule } from './modules/photos/photos.module'
 import { PreviewsModule } from './modules/previews/previews.module'
@@ -89,11 +93,15 @@ import { StorageModule } from './shared/storage/storage.module'
     EventAssetsModule,
     EventTypesModule,
     EventsModule,
+    FaceSearchModule,
     LocationsModule,
     OperatorModule,
     OrdersModule,
+    OutreachModule,
     PricingModule,
+    InvoicesModule,
     ParticipantCategoriesModule,
+    ParticipantsModule,
     PhotoCategoriesModule,
     PhotosModule,
     PreviewsModule,
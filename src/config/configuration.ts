@@ -14,6 +14,18 @@ export default () => {
 
   const { AI_PIPELINE_BASE_URL, AI_PIPELINE_TIMEOUT_MS } = process.env
 
+  const { FACE_EMBEDDING_DRIVER, FACE_EMBEDDING_BASE_URL, FACE_EMBEDDING_TIMEOUT_MS } = process.env
+
+  const { SELFIE_SEARCH_RETENTION_HOURS } = process.env
+
+  const {
+    RETOUCH_REVISION_RETENTION_DAYS,
+    RETOUCH_CLAIM_TTL_MINUTES,
+    RETOUCH_SLA_HOURS,
+    RETOUCH_SLA_WARNING_HOURS,
+    REVIEW_LEASE_MINUTES,
+  } = process.env
+
   const { JWT_SECRET, JWT_ACCESS_EXPIRATION_SECONDS, JWT_REFRESH_EXPIRY_DAYS, CORS_ORIGIN } =
     process.env
 
@@ -26,6 +38,16 @@ export default () => {
 
   const { WATERMARK_BASE_URL, PREVIEW_BASE_URL, DELIVERY_BASE_URL } = process.env
 
+  const { PAYMENT_WEBHOOK_SECRET, PAYMENT_CHECKOUT_BASE_URL } = process.env
+
+  const { BASE_CURRENCY } = process.env
+
+  const { OUTREACH_OPT_OUT_BASE_URL, MESSAGING_DRIVER, MESSAGING_OUTBOX_FILE } = process.env
+
+  const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM, SMTP_FROM_NAME } =
+    process.env
+  const { SMTP_ALLOW_INSECURE_AUTH } = process.env
+
   let databaseUrl = `postgresql://${DB_USER}:${DB_PASSWORD}@${DB_HOST}:${DB_PORT}/${DB_NAME}`
   if (DB_SSL_MODE) {
     databaseUrl += `?sslmode=${DB_SSL_MODE}`
@@ -84,9 +106,50 @@ export default () => {
     cors: {
       origin: CORS_ORIGIN,
     },
+    payments: {
+      webhookSecret: PAYMENT_WEBHOOK_SECRET,
+      checkoutBaseUrl: PAYMENT_CHECKOUT_BASE_URL || 'http://localhost:3000',
+    },
+    pricing: {
+      baseCurrency: (BASE_CURRENCY || 'USD').toUpperCase(),
+    },
+    outreach: {
+      optOutBaseUrl: OUTREACH_OPT_OUT_BASE_URL,
+    },
+    messaging: {
+      driver: MESSAGING_DRIVER || 'outbox',
+      outboxFile: MESSAGING_OUTBOX_FILE || undefined,
+      smtp: {
+        host: SMTP_HOST,
+        port: Number.parseInt(SMTP_PORT || '587', 10),
+        secure: SMTP_SECURE === 'true',
+        user: SMTP_USER || undefined,
+        password: SMTP_PASSWORD || undefined,
+        allowInsecureAuth: SMTP_ALLOW_INSECURE_AUTH === 'true',
+        from: SMTP_FROM,
+        fromName: SMTP_FROM_NAME || undefined,
+      },
+    },
     aiPipeline: {
       baseUrl: AI_PIPELINE_BASE_URL || 'http://localhost:8001',
       timeoutMs: Number.parseInt(AI_PIPELINE_TIMEOUT_MS || '30000', 10),
     },
+    faceEmbedding: {
+      driver: FACE_EMBEDDING_DRIVER || 'http',
+      baseUrl: FACE_EMBEDDING_BASE_URL || AI_PIPELINE_BASE_URL || 'http://localhost:8001',
+      timeoutMs: Number.parseInt(FACE_EMBEDDING_TIMEOUT_MS || '15000', 10),
+    },
+    selfieSearch: {
+      retentionHours: Number.parseInt(SELFIE_SEARCH_RETENTION_HOURS || '24', 10),
+    },
+    retouch: {
+      revisionRetentionDays: Number.parseInt(RETOUCH_REVISION_RETENTION_DAYS || '30', 10),
+      claimTtlMinutes: Number.parseInt(RETOUCH_CLAIM_TTL_MINUTES || '30', 10),
+      slaHours: Number.parseInt(RETOUCH_SLA_HOURS || '48', 10),
+      slaWarningHours: Number.parseInt(RETOUCH_SLA_WARNING_HOURS || '6', 10),
+    },
+    review: {
+      leaseMinutes: Number.parseInt(REVIEW_LEASE_MINUTES || '10', 10),
+    },
   }
 }
@@ -5,6 +5,8 @@ import {
   IsNumber,
   IsOptional,
   IsString,
+  Length,
+  Max,
   Min,
   validateSync,
 } from 'class-validator'
@@ -110,6 +112,66 @@ export class EnvironmentVariables {
   @IsString()
   DELIVERY_BASE_URL?: string
 
+  // Online payments
+  @IsOptional()
+  @IsString()
+  PAYMENT_WEBHOOK_SECRET?: string
+
+  @IsOptional()
+  @IsString()
+  PAYMENT_CHECKOUT_BASE_URL?: string
+
+  // Pricing
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  BASE_CURRENCY?: string
+
+  // Outreach messaging
+  @IsOptional()
+  @IsString()
+  OUTREACH_OPT_OUT_BASE_URL?: string
+
+  @IsOptional()
+  @IsEnum(['outbox', 'smtp'])
+  MESSAGING_DRIVER?: string
+
+  @IsOptional()
+  @IsString()
+  MESSAGING_OUTBOX_FILE?: string
+
+  @IsOptional()
+  @IsString()
+  SMTP_HOST?: string
+
+  @IsOptional()
+  @IsNumber()
+  SMTP_PORT?: number
+
+  @IsOptional()
+  @IsEnum(['true', 'false'])
+  SMTP_SECURE?: string
+
+  @IsOptional()
+  @IsString()
+  SMTP_USER?: string
+
+  @IsOptional()
+  @IsString()
+  SMTP_PASSWORD?: string
+
+  @IsOptional()
+  @IsEnum(['true', 'false'])
+  SMTP_ALLOW_INSECURE_AUTH?: string
+
+  @IsOptional()
+  @IsString()
+  SMTP_FROM?: string
+
+  @IsOptional()
+  @IsString()
+  SMTP_FROM_NAME?: string
+
   // Redis
   @IsOptional()
   @IsString()
@@ -127,6 +189,55 @@ export class EnvironmentVariables {
   @IsOptional()
   @IsNumber()
   AI_PIPELINE_TIMEOUT_MS?: number
+
+  // Face embeddings (selfie search)
+  @IsOptional()
+  @IsEnum(['http', 'fake'])
+  FACE_EMBEDDING_DRIVER?: string
+
+  @IsOptional()
+  @IsString()
+  FACE_EMBEDDING_BASE_URL?: string
+
+  @IsOptional()
+  @IsNumber()
+  FACE_EMBEDDING_TIMEOUT_MS?: number
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(72)
+  SELFIE_SEARCH_RETENTION_HOURS?: number
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(365)
+  RETOUCH_REVISION_RETENTION_DAYS?: number
+
+  @IsOptional()
+  @IsNumber()
+  @Min(5)
+  @Max(1440)
+  RETOUCH_CLAIM_TTL_MINUTES?: number
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(720)
+  RETOUCH_SLA_HOURS?: number
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(168)
+  RETOUCH_SLA_WARNING_HOURS?: number
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(120)
+  REVIEW_LEASE_MINUTES?: number
 }
 
 export function validate(config: Record<string, unknown>) {
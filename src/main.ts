@@ -12,7 +12,8 @@ import {
 } from './shared/http/swagger/swagger-i18n.transformer'
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule)
+  // rawBody: payment webhooks verify their signature over the exact request bytes.
+  const app = await NestFactory.create(AppModule, { rawBody: true })
   const configService = app.get(ConfigService)
   const reflector = app.get(Reflector)
   const logger = new Logger('Bootstrap')
@@ -8,5 +8,6 @@ export class CheckoutCartCommand {
   constructor(
     public readonly userId: string,
     public readonly items: CheckoutCartItem[],
+    public readonly couponCode: string | null = null,
   ) {}
 }
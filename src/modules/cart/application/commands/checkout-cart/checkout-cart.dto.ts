@@ -6,6 +6,7 @@ import {
   IsOptional,
   IsString,
   IsUUID,
+  Length,
   MaxLength,
   ValidateNested,
 } from 'class-validator'
@@ -35,4 +36,10 @@ export class CheckoutCartDto {
   @ValidateNested({ each: true })
   @Type(() => CheckoutCartItemDto)
   items: CheckoutCartItemDto[]
+
+  @ApiPropertyOptional({ description: 'Coupon code to apply to the checkout', example: 'VUELTA26' })
+  @IsString()
+  @IsOptional()
+  @Length(3, 40)
+  couponCode?: string
 }
@@ -10,12 +10,18 @@ import { Inject } from '@nestjs/common'
 import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
 import { NotificationsService } from '@notifications/application/services/notifications.service'
 import { Order } from '@orders/domain/entities'
-import { type IOrderWriteRepository, ORDER_WRITE_REPOSITORY } from '@orders/domain/ports'
-import { PricingCalculator } from '@pricing/domain/services/pricing-calculator.service'
 import {
-  DEFAULT_CURRENCY,
-  DEFAULT_PRICING_TIERS,
-} from '@pricing/infrastructure/config/default-pricing-tiers'
+  type IOrderWriteRepository,
+  ORDER_WRITE_REPOSITORY,
+  type OrderPlacement,
+} from '@orders/domain/ports'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
+import { BucketPricingService } from '@pricing/application/services/bucket-pricing.service'
+import { CouponService } from '@pricing/application/services/coupon.service'
+import { ExchangeRateService } from '@pricing/application/services/exchange-rate.service'
 import { AppException } from '@shared/domain'
 import { CheckoutCartCommand } from './checkout-cart.command'
 
@@ -26,7 +32,12 @@ export class CheckoutCartHandler implements ICommandHandler<CheckoutCartCommand>
     @Inject(CART_WRITE_REPOSITORY) private readonly cartWriteRepo: ICartWriteRepository,
     @Inject(ORDER_WRITE_REPOSITORY) private readonly orderWriteRepo: IOrderWriteRepository,
     @Inject(AUTH_USER_REPOSITORY) private readonly authUserRepo: IAuthUserRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
     private readonly notifications: NotificationsService,
+    private readonly bucketPricing: BucketPricingService,
+    private readonly coupons: CouponService,
+    private readonly exchangeRates: ExchangeRateService,
   ) {}
 
   async execute(command: CheckoutCartCommand): Promise<CheckoutResultProjection> {
@@ -56,34 +67,58 @@ export class CheckoutCartHandler implements ICommandHandler<CheckoutCartCommand>
     }
 
     /**
-     * Pricing is calculated at the CART level (across all events) using the default
-     * tiers. This was a deliberate decision (see TIT-10 spec): while every event
-     * uses the same default tier list, applying per-event tiers would punish
-     * customers who split a single purchase across multiple events (e.g. 1+10
-     * photos across two events should be billed as 11 photos in the top tier, not
-     * as two separate small purchases).
-     *
-     * When per-event pricing override goes live, this will need bucket logic:
-     * group cart items by their pricing config identity, calculate per bucket,
-     * sum across buckets. That change carries product implications (UX of mixed-
-     * bucket carts, total/subtotal display, etc.) — defer until a real per-event
-     * override is requested. See TIT-XX (follow-up).
+     * Pricing is calculated per BUCKET: events are grouped by the pricing config
+     * they resolve to (per-event override or the defaults), PricingCalculator runs
+     * once per bucket and the bucket totals are summed. Events sharing a config
+     * keep the cross-event volume discount (1+10 photos across two default-priced
+     * events are billed as 11 photos in the top tier), while an event with its own
+     * config is never priced with another event's tiers.
      */
-    const totalPhotos = command.items.reduce((sum, item) => {
-      const cartEvent = cartEventMap.get(item.eventId)
-      return sum + (cartEvent ? cartEvent.photoIds.length : 0)
-    }, 0)
-    const calc = PricingCalculator.calculate(totalPhotos, DEFAULT_PRICING_TIERS)
-    const snapPricingConfig = DEFAULT_PRICING_TIERS.map((t) => t.toJSON())
-
-    // 6. Create one order per event
-    const orderResults: { orderId: string; eventName: string; photoCount: number }[] = []
-
-    for (const item of command.items) {
+    const pricing = await this.bucketPricing.price(
+      command.items.map((item) => ({
+        eventId: item.eventId,
+        quantity: cartEventMap.get(item.eventId)?.photoIds.length ?? 0,
+      })),
+    )
+    const bucketByEvent = new Map(
+      pricing.buckets.flatMap((b) => b.eventIds.map((eventId) => [eventId, b] as const)),
+    )
+
+    // 6. Validate the coupon against the priced orders; one redemption is shared
+    //    by every discounted order of this checkout
+    const couponLines = command.items.map((item) => {
+      const bucket = bucketByEvent.get(item.eventId)
+      return {
+        eventId: item.eventId,
+        quantity: cartEventMap.get(item.eventId)?.photoIds.length ?? 0,
+        unitPrice: bucket?.calculation.unitPrice ?? 0,
+        currency: bucket?.currency ?? '',
+      }
+    })
+    const quote = command.couponCode
+      ? await this.coupons.quote(command.couponCode, command.userId, couponLines)
+      : null
+    const redemption = quote ? this.coupons.redemptionFor(quote, command.userId) : null
+
+    // 7. Build one order per event
+    const placements: (OrderPlacement & {
+      eventName: string
+      currency: string
+      subtotal: number
+    })[] = []
+
+    for (const [index, item] of command.items.entries()) {
       const cartEvent = cartEventMap.get(item.eventId)
-      if (!cartEvent) continue
+      const bucket = bucketByEvent.get(item.eventId)
+      if (!cartEvent || !bucket) continue
 
-      const orderSubtotal = Math.round(calc.unitPrice * cartEvent.photoIds.length * 100) / 100
+      const unitPrice = bucket.calculation.unitPrice
+      const subtotalBeforeDiscount = Math.round(unitPrice * cartEvent.photoIds.length * 100) / 100
+      const discountAmount = quote?.amounts[index] ?? null
+      const orderSubtotal =
+        discountAmount !== null
+          ? Math.round((subtotalBeforeDiscount - discountAmount) * 100) / 100
+          : subtotalBeforeDiscount
 
       const order = Order.create({
         previewLinkId: null,
@@ -92,46 +127,67 @@ export class CheckoutCartHandler implements ICommandHandler<CheckoutCartCommand>
         notes: null,
         bibNumber: item.bibNumber ?? null,
         subtotal: orderSubtotal,
-        snapCurrency: DEFAULT_CURRENCY,
-        snapPricingConfig,
+        snapCurrency: bucket.currency,
+        snapPricingConfig: bucket.tiers.map((t) => t.toJSON()),
+        snapFx: await this.exchangeRates.snapshot(bucket.currency),
+        discount:
+          quote && redemption && discountAmount !== null
+            ? {
+                couponRedemptionId: redemption.id,
+                couponCode: quote.coupon.code,
+                amount: discountAmount,
+                subtotalBeforeDiscount,
+              }
+            : null,
       })
 
-      const saved = await this.orderWriteRepo.saveWithSnap(order, {
-        snapFirstName: snapData.firstName,
-        snapLastName: snapData.lastName,
-        snapEmail: snapData.email,
-        snapPhone: snapData.phone,
-        snapCountryId: snapData.countryId,
-        snapProvinceId: snapData.provinceId,
-        snapCantonId: snapData.cantonId,
-        snapCategoryName: item.snapCategoryName ?? null,
+      const participant = item.bibNumber
+        ? await this.participantReadRepo.findSummaryByBib(item.eventId, item.bibNumber)
+        : null
+
+      placements.push({
+        order,
+        snap: {
+          snapFirstName: snapData.firstName,
+          snapLastName: snapData.lastName,
+          snapEmail: snapData.email,
+          snapPhone: snapData.phone,
+          snapCountryId: snapData.countryId,
+          snapProvinceId: snapData.provinceId,
+          snapCantonId: snapData.cantonId,
+          snapCategoryName: item.snapCategoryName ?? participant?.categoryName ?? null,
+          snapParticipantName: participant?.fullName ?? null,
+          snapParticipantTeam: participant?.team ?? null,
+        },
+        items: cartEvent.photoIds.map((id) => ({ photoId: id, unitPrice })),
+        eventName: cartEvent.eventName,
+        currency: bucket.currency,
+        subtotal: orderSubtotal,
       })
+    }
 
-      await this.orderWriteRepo.savePhotos(
-        saved.id,
-        cartEvent.photoIds.map((id) => ({ photoId: id, unitPrice: calc.unitPrice })),
-      )
+    // 8. Write the orders, their photos and the redemption in one transaction
+    const placed = await this.orderWriteRepo.placeOrders(placements, redemption)
 
-      orderResults.push({
-        orderId: saved.id,
-        eventName: cartEvent.eventName,
-        photoCount: cartEvent.photoIds.length,
-      })
+    const orderResults = placed.map((saved, i) => {
+      const { eventName, currency, subtotal, items } = placements[i]
 
       // Emit notification for each order
       this.notifications.emitOrderCreated({
         orderId: saved.id,
-        eventName: cartEvent.eventName,
+        eventName,
         customerName: [snapData.firstName, snapData.lastName].filter(Boolean).join(' '),
-        photoCount: cartEvent.photoIds.length,
-        subtotal: orderSubtotal,
-        currency: DEFAULT_CURRENCY,
+        photoCount: items.length,
+        subtotal,
+        currency,
         createdAt: saved.createdAt,
         actorUserId: command.userId,
       })
-    }
 
-    // 7. Mark cart as converted
+      return { orderId: saved.id, eventName, photoCount: items.length }
+    })
+
+    // 9. Mark cart as converted
     await this.cartWriteRepo.markConverted(cart.id)
 
     return { orders: orderResults }
@@ -25,4 +25,65 @@ export class CartViewEventGroupProjection {
   photos: CartViewPhotoProjection[]
 }
 
+export class CartPricingTierProjection {
+  @ApiProperty({ description: 'Minimum quantity covered by the tier' })
+  minQty: number
+
+  @ApiProperty({
+    description: 'Maximum quantity covered by the tier (null = open-ended)',
+    nullable: true,
+  })
+  maxQty: number | null
+
+  @ApiProperty({ description: 'Price per photo within the tier' })
+  pricePerPhoto: number
+
+  @ApiProperty({ description: 'Currency of pricePerPhoto (ISO 4217)', example: 'USD' })
+  currency: string
+}
+
+export class CartPricingGroupProjection {
+  @ApiProperty({ description: 'Events priced together with this config', type: [String] })
+  eventIds: string[]
+
+  @ApiProperty({ description: 'Photos in the group (drives the tier lookup)' })
+  photoCount: number
+
+  @ApiProperty({ description: 'Currency code of the group (e.g. USD)' })
+  currency: string
+
+  @ApiProperty({ description: 'Unit price applied to every photo in the group' })
+  unitPrice: number
+
+  @ApiProperty({ description: 'Group subtotal (unitPrice × photoCount)' })
+  subtotal: number
+
+  @ApiProperty({ description: 'Tier applied to the group', type: CartPricingTierProjection })
+  tier: CartPricingTierProjection
+
+  @ApiProperty({
+    description: 'Next cheaper tier, if any',
+    type: CartPricingTierProjection,
+    nullable: true,
+  })
+  nextTier: CartPricingTierProjection | null
+
+  @ApiProperty({ description: 'Photos missing to reach the next tier', nullable: true })
+  photosToNextTier: number | null
+}
+
+export class CartPricingProjection {
+  @ApiProperty({ description: 'Per-config pricing groups', type: [CartPricingGroupProjection] })
+  groups: CartPricingGroupProjection[]
+
+  @ApiProperty({ description: 'Sum of the group subtotals' })
+  total: number
+
+  @ApiProperty({
+    description: 'Common currency of all groups (null when the groups mix currencies)',
+    nullable: true,
+  })
+  currency: string | null
+}
+
 export type CartViewProjection = CartViewEventGroupProjection[]
@@ -2,6 +2,9 @@ export { ActiveCartProjection } from './active-cart.projection'
 export { CartItemsByEventProjection } from './cart-items-by-event.projection'
 export { CartSummaryProjection } from './cart-summary.projection'
 export {
+  CartPricingGroupProjection,
+  CartPricingProjection,
+  CartPricingTierProjection,
   CartViewEventGroupProjection,
   CartViewPhotoProjection,
   type CartViewProjection,
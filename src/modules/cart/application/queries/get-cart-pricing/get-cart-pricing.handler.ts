@@ -0,0 +1,46 @@
+import type { CartPricingProjection } from '@cart/application/projections'
+import { CART_READ_REPOSITORY, type ICartReadRepository } from '@cart/domain/ports'
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import { BucketPricingService } from '@pricing/application/services/bucket-pricing.service'
+import { GetCartPricingQuery } from './get-cart-pricing.query'
+
+/** Same bucket breakdown CheckoutCartHandler applies, so the cart shows the real totals. */
+@QueryHandler(GetCartPricingQuery)
+export class GetCartPricingHandler implements IQueryHandler<GetCartPricingQuery> {
+  constructor(
+    @Inject(CART_READ_REPOSITORY) private readonly cartReadRepo: ICartReadRepository,
+    private readonly bucketPricing: BucketPricingService,
+  ) {}
+
+  async execute(query: GetCartPricingQuery): Promise<CartPricingProjection> {
+    const cart = query.userId
+      ? await this.cartReadRepo.findActiveByUserId(query.userId)
+      : query.sessionId
+        ? await this.cartReadRepo.findActiveBySessionId(query.sessionId)
+        : null
+
+    const events = cart ? await this.cartReadRepo.getCartView(cart.id) : []
+    const lines = events
+      .filter((e) => e.photos.length > 0)
+      .map((e) => ({ eventId: e.eventId, quantity: e.photos.length }))
+    if (lines.length === 0) return { groups: [], total: 0, currency: null }
+
+    const result = await this.bucketPricing.price(lines)
+
+    return {
+      groups: result.buckets.map((b) => ({
+        eventIds: b.eventIds,
+        photoCount: b.calculation.quantity,
+        currency: b.currency,
+        unitPrice: b.calculation.unitPrice,
+        subtotal: b.calculation.subtotal,
+        tier: b.calculation.tier.toJSON(),
+        nextTier: b.calculation.nextTier ? b.calculation.nextTier.toJSON() : null,
+        photosToNextTier: b.calculation.photosToNextTier,
+      })),
+      total: result.total,
+      currency: result.currency,
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export class GetCartPricingQuery {
+  constructor(
+    public readonly userId: string | null,
+    public readonly sessionId: string | null,
+  ) {}
+}
@@ -1 +1,2 @@
 export { GetCartQuery } from './get-cart/get-cart.query'
+export { GetCartPricingQuery } from './get-cart-pricing/get-cart-pricing.query'
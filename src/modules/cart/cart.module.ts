@@ -4,6 +4,7 @@ import { CheckoutCartHandler } from '@cart/application/commands/checkout-cart/ch
 import { MergeCartHandler } from '@cart/application/commands/merge-cart/merge-cart.handler'
 import { RemoveFromCartHandler } from '@cart/application/commands/remove-from-cart/remove-from-cart.handler'
 import { GetCartHandler } from '@cart/application/queries/get-cart/get-cart.handler'
+import { GetCartPricingHandler } from '@cart/application/queries/get-cart-pricing/get-cart-pricing.handler'
 import { CART_READ_REPOSITORY, CART_WRITE_REPOSITORY } from '@cart/domain/ports'
 import { CartReadRepository } from '@cart/infrastructure/repositories/cart-read.repository'
 import { CartWriteRepository } from '@cart/infrastructure/repositories/cart-write.repository'
@@ -11,6 +12,7 @@ import { CartController } from '@cart/presentation/controllers/cart.controller'
 import { forwardRef, Module } from '@nestjs/common'
 import { CqrsModule } from '@nestjs/cqrs'
 import { OrdersModule } from '@orders/orders.module'
+import { ParticipantsModule } from '@participants/participants.module'
 import { PhotosModule } from '@photos/photos.module'
 import { PricingModule } from '@pricing/pricing.module'
 
@@ -20,7 +22,7 @@ const CommandHandlers = [
   MergeCartHandler,
   CheckoutCartHandler,
 ]
-const QueryHandlers = [GetCartHandler]
+const QueryHandlers = [GetCartHandler, GetCartPricingHandler]
 
 @Module({
   imports: [
@@ -29,6 +31,7 @@ const QueryHandlers = [GetCartHandler]
     forwardRef(() => OrdersModule),
     forwardRef(() => PhotosModule),
     PricingModule,
+    ParticipantsModule,
   ],
   controllers: [CartController],
   providers: [
@@ -2,13 +2,13 @@ import type {
   ActiveCartProjection,
   CartItemsByEventProjection,
   CartSummaryProjection,
-  CartViewProjection,
+  CartViewEventGroupProjection,
 } from '@cart/application/projections'
 
 export interface ICartReadRepository {
   findActiveByUserId(userId: string): Promise<ActiveCartProjection | null>
   findActiveBySessionId(sessionId: string): Promise<ActiveCartProjection | null>
-  getCartView(cartId: string): Promise<CartViewProjection>
+  getCartView(cartId: string): Promise<CartViewEventGroupProjection[]>
   getCartItemsByEvent(cartId: string): Promise<CartItemsByEventProjection[]>
   getCartSummary(cartId: string): Promise<CartSummaryProjection>
 }
@@ -2,7 +2,7 @@ import type {
   ActiveCartProjection,
   CartItemsByEventProjection,
   CartSummaryProjection,
-  CartViewProjection,
+  CartViewEventGroupProjection,
 } from '@cart/application/projections'
 import type { ICartReadRepository } from '@cart/domain/ports'
 import { Injectable } from '@nestjs/common'
@@ -30,7 +30,7 @@ export class CartReadRepository implements ICartReadRepository {
     return { id: cart.id, userId: cart.user_id, sessionId: cart.session_id }
   }
 
-  async getCartView(cartId: string): Promise<CartViewProjection> {
+  async getCartView(cartId: string): Promise<CartViewEventGroupProjection[]> {
     const items = await this.prisma.cartItem.findMany({
       where: { cart_id: cartId, removed_at: null },
       select: {
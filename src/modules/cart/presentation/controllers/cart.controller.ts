@@ -7,14 +7,15 @@ import {
   MergeCartDto,
   RemoveFromCartCommand,
 } from '@cart/application/commands'
-import type { CartViewProjection } from '@cart/application/projections'
 import {
+  CartPricingProjection,
   CartSummaryProjection,
   CartViewEventGroupProjection,
+  type CartViewProjection,
   CheckoutResultProjection,
   MergeResultProjection,
 } from '@cart/application/projections'
-import { GetCartQuery } from '@cart/application/queries'
+import { GetCartPricingQuery, GetCartQuery } from '@cart/application/queries'
 import { Body, Controller, Delete, Get, Param, Post, Query, Req } from '@nestjs/common'
 import { CommandBus, QueryBus } from '@nestjs/cqrs'
 import { JwtService } from '@nestjs/jwt'
@@ -66,6 +67,25 @@ export class CartController {
     return this.queryBus.execute(query)
   }
 
+  @Public()
+  @Get('pricing')
+  @SuccessMessage('success.FETCHED', { entity: 'entities.cart' })
+  @ApiOperation({ summary: 'Get the pricing breakdown checkout will apply to the current cart' })
+  @ApiQuery({ name: 'sessionId', required: false, description: 'Session ID for anonymous carts' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Per-config pricing breakdown',
+    type: CartPricingProjection,
+  })
+  async getCartPricing(
+    @Req() req: Request,
+    @Query('sessionId') sessionId?: string,
+  ): Promise<CartPricingProjection> {
+    const user = this.tryExtractUser(req)
+    const query = new GetCartPricingQuery(user?.userId ?? null, sessionId ?? null)
+    return this.queryBus.execute(query)
+  }
+
   @Public()
   @Post('items')
   @SuccessMessage('success.CREATED', { entity: 'entities.cart' })
@@ -136,6 +156,7 @@ export class CartController {
         bibNumber: i.bibNumber ?? null,
         snapCategoryName: i.snapCategoryName ?? null,
       })),
+      dto.couponCode ?? null,
     )
     return this.commandBus.execute(command)
   }
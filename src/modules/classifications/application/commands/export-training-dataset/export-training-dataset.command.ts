@@ -0,0 +1,10 @@
+import type { AuditContext } from '@shared/application'
+
+export class ExportTrainingDatasetCommand {
+  constructor(
+    public readonly eventId: string | null,
+    public readonly from: Date | null,
+    public readonly to: Date | null,
+    public readonly audit: AuditContext,
+  ) {}
+}
@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { IsDate, IsOptional, IsUUID } from 'class-validator'
+
+export class ExportTrainingDatasetDto {
+  @ApiPropertyOptional({ description: 'Only labels on photos of this event', format: 'uuid' })
+  @IsUUID()
+  @IsOptional()
+  eventId?: string
+
+  @ApiPropertyOptional({
+    description: 'Only labels made (corrected or added) from this date',
+    example: '2026-10-01T00:00:00.000Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  from?: Date
+
+  @ApiPropertyOptional({
+    description: 'Only labels made up to this date',
+    example: '2026-10-31T23:59:59.000Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  to?: Date
+}
@@ -0,0 +1,108 @@
+import type { IEventReadRepository } from '@events/domain/ports'
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import type { IStorageAdapter } from '@shared/storage/domain/ports'
+import type { ITrainingDatasetRepository } from '../../../domain/ports'
+import { ExportTrainingDatasetCommand } from './export-training-dataset.command'
+import { ExportTrainingDatasetHandler } from './export-training-dataset.handler'
+
+const image = { photoId: 'p1', storageKey: 'photos/p1.jpg', width: 1000, height: 500 }
+const bib = {
+  bibId: 'b1',
+  image,
+  origin: 'correction' as const,
+  bbox: [0.1, 0.2, 0.3, 0.4] as [number, number, number, number],
+  cropPath: 'crops/b1.jpg',
+  labelledAt: new Date('2026-10-01T10:00:00Z'),
+  modelVersions: { ocr: 'v3' },
+  predicted: '123',
+  digits: '128',
+}
+
+describe('ExportTrainingDatasetHandler', () => {
+  const audit = new AuditContext('admin-1')
+  let datasetRepo: jest.Mocked<ITrainingDatasetRepository>
+  let eventReadRepo: jest.Mocked<IEventReadRepository>
+  let storage: jest.Mocked<IStorageAdapter>
+  let handler: ExportTrainingDatasetHandler
+
+  beforeEach(() => {
+    datasetRepo = {
+      findBibLabels: jest.fn().mockResolvedValue([bib]),
+      findColorLabels: jest.fn().mockResolvedValue([]),
+      reserveVersion: jest.fn().mockResolvedValue(4),
+      create: jest.fn().mockResolvedValue({ id: 'ds-1' }),
+    } as unknown as jest.Mocked<ITrainingDatasetRepository>
+    eventReadRepo = {
+      findById: jest.fn().mockResolvedValue({ id: 'evt-1' }),
+    } as unknown as jest.Mocked<IEventReadRepository>
+    storage = {
+      upload: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IStorageAdapter>
+    handler = new ExportTrainingDatasetHandler(datasetRepo, eventReadRepo, storage)
+  })
+
+  it('throws not found for an unknown event', async () => {
+    eventReadRepo.findById.mockResolvedValue(null)
+    await expect(
+      handler.execute(new ExportTrainingDatasetCommand('missing', null, null, audit)),
+    ).rejects.toBeInstanceOf(AppException)
+    expect(datasetRepo.findBibLabels).not.toHaveBeenCalled()
+  })
+
+  it('rejects a start date after the end date', async () => {
+    const command = new ExportTrainingDatasetCommand(
+      null,
+      new Date('2026-10-02'),
+      new Date('2026-10-01'),
+      audit,
+    )
+    await expect(handler.execute(command)).rejects.toMatchObject({
+      messageKey: 'training_dataset.invalid_date_range',
+    })
+  })
+
+  it('refuses to export an empty dataset', async () => {
+    datasetRepo.findBibLabels.mockResolvedValue([])
+    await expect(
+      handler.execute(new ExportTrainingDatasetCommand(null, null, null, audit)),
+    ).rejects.toMatchObject({ messageKey: 'training_dataset.no_labels' })
+    expect(datasetRepo.reserveVersion).not.toHaveBeenCalled()
+    expect(storage.upload).not.toHaveBeenCalled()
+  })
+
+  it('uploads both files under the reserved version before recording the export', async () => {
+    const result = await handler.execute(
+      new ExportTrainingDatasetCommand('evt-1', null, null, audit),
+    )
+
+    expect(datasetRepo.findBibLabels).toHaveBeenCalledWith({
+      eventId: 'evt-1',
+      from: null,
+      to: null,
+    })
+    expect(storage.upload).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'datasets/training/v4/ocr.csv', contentType: 'text/csv' }),
+    )
+    expect(storage.upload).toHaveBeenCalledWith(
+      expect.objectContaining({
+        key: 'datasets/training/v4/detections.json',
+        contentType: 'application/json',
+      }),
+    )
+    expect(storage.upload.mock.invocationCallOrder[1]).toBeLessThan(
+      datasetRepo.create.mock.invocationCallOrder[0],
+    )
+    expect(datasetRepo.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        version: 4,
+        eventId: 'evt-1',
+        bibLabels: 1,
+        colorLabels: 0,
+        modelVersions: [{ versions: { ocr: 'v3' }, labels: 1 }],
+        createdById: 'admin-1',
+      }),
+    )
+    expect(result).toMatchObject({ id: 'ds-1', version: 4, bibLabels: 1 })
+  })
+})
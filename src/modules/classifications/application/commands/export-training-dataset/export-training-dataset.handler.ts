@@ -0,0 +1,91 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { type ITrainingDatasetRepository, TRAINING_DATASET_REPOSITORY } from '../../../domain/ports'
+import { TrainingDataset } from '../../../domain/services/training-dataset.service'
+import type { TrainingDatasetProjection } from '../../projections'
+import { ExportTrainingDatasetCommand } from './export-training-dataset.command'
+
+/**
+ * Packages the reviewer labels as a new dataset version: bib digits as an OCR CSV, and
+ * bib and color boxes as a COCO detection file. Both files are uploaded before the export
+ * is recorded, so a recorded version always has its files.
+ */
+@CommandHandler(ExportTrainingDatasetCommand)
+export class ExportTrainingDatasetHandler implements ICommandHandler<ExportTrainingDatasetCommand> {
+  private readonly logger = new Logger(ExportTrainingDatasetHandler.name)
+
+  constructor(
+    @Inject(TRAINING_DATASET_REPOSITORY) private readonly datasetRepo: ITrainingDatasetRepository,
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  async execute(command: ExportTrainingDatasetCommand): Promise<TrainingDatasetProjection> {
+    if (command.eventId) {
+      const event = await this.eventReadRepo.findById(command.eventId)
+      if (!event) throw AppException.notFound('Event', command.eventId)
+    }
+    if (command.from && command.to && command.from > command.to) {
+      throw AppException.businessRule('training_dataset.invalid_date_range')
+    }
+
+    const filters = { eventId: command.eventId, from: command.from, to: command.to }
+    const bibs = await this.datasetRepo.findBibLabels(filters)
+    const colors = await this.datasetRepo.findColorLabels(filters)
+    if (bibs.length === 0 && colors.length === 0) {
+      throw AppException.businessRule('training_dataset.no_labels')
+    }
+
+    const version = await this.datasetRepo.reserveVersion()
+    const { ocrKey, detectionsKey } = TrainingDataset.keysFor(version)
+    const modelVersions = TrainingDataset.modelVersions([...bibs, ...colors])
+    const coco = TrainingDataset.toCoco(bibs, colors, {
+      version,
+      eventId: command.eventId,
+      labelledFrom: command.from,
+      labelledTo: command.to,
+      createdAt: new Date(),
+      modelVersions,
+    })
+
+    await this.storage.upload({
+      buffer: Buffer.from(TrainingDataset.toOcrCsv(bibs)),
+      key: ocrKey,
+      contentType: 'text/csv',
+    })
+    await this.storage.upload({
+      buffer: Buffer.from(JSON.stringify(coco)),
+      key: detectionsKey,
+      contentType: 'application/json',
+    })
+
+    const { id } = await this.datasetRepo.create({
+      version,
+      eventId: command.eventId,
+      labelledFrom: command.from,
+      labelledTo: command.to,
+      bibLabels: bibs.length,
+      colorLabels: colors.length,
+      modelVersions,
+      ocrKey,
+      detectionsKey,
+      createdById: command.audit.userId,
+    })
+    this.logger.log(
+      `Training dataset v${version}: ${bibs.length} bib and ${colors.length} color labels`,
+    )
+
+    return {
+      id,
+      version,
+      bibLabels: bibs.length,
+      colorLabels: colors.length,
+      modelVersions,
+      ocrKey,
+      detectionsKey,
+    }
+  }
+}
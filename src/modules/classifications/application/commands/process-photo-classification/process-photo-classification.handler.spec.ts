@@ -2,7 +2,9 @@ import {
   CROP_UPLOAD_URLS_SERVICE,
   PHOTO_CLASSIFICATION_WRITE_REPOSITORY,
 } from '@classifications/domain/ports'
+import { CommandBus } from '@nestjs/cqrs'
 import { Test } from '@nestjs/testing'
+import { PARTICIPANT_READ_REPOSITORY } from '@participants/domain/ports'
 import { PHOTO_READ_REPOSITORY, PHOTO_WRITE_REPOSITORY } from '@photos/domain/ports'
 import { CLASSIFICATION_PIPELINE_ADAPTER } from '@shared/ai-pipeline'
 import { AppException } from '@shared/domain'
@@ -63,13 +65,17 @@ const baseResponse = {
 describe('ProcessPhotoClassificationHandler', () => {
   let handler: ProcessPhotoClassificationHandler
   const photoReadRepo = { findById: jest.fn() }
-  const photoWriteRepo = { save: jest.fn().mockResolvedValue(undefined) }
+  const photoWriteRepo = { saveProcessingStatus: jest.fn().mockResolvedValue(undefined) }
   const storage = { getPresignedDownloadUrl: jest.fn().mockResolvedValue('https://b2/url.jpg') }
   const adapter = { classify: jest.fn() }
   const writeRepo = {
     persistResult: jest.fn().mockResolvedValue({ processingId: 'p-1' }),
     persistFailure: jest.fn().mockResolvedValue({ processingId: 'p-fail' }),
   }
+  const commandBus = { execute: jest.fn().mockResolvedValue(0) }
+  const participantReadRepo = {
+    findBibRegistry: jest.fn().mockResolvedValue({ startList: null, range: null }),
+  }
   const cropUrlsService = {
     generate: jest.fn().mockResolvedValue({
       bibs: [],
@@ -81,10 +87,12 @@ describe('ProcessPhotoClassificationHandler', () => {
 
   beforeEach(async () => {
     jest.clearAllMocks()
-    photoWriteRepo.save.mockResolvedValue(undefined)
+    photoWriteRepo.saveProcessingStatus.mockResolvedValue(undefined)
     storage.getPresignedDownloadUrl.mockResolvedValue('https://b2/url.jpg')
     writeRepo.persistResult.mockResolvedValue({ processingId: 'p-1' })
     writeRepo.persistFailure.mockResolvedValue({ processingId: 'p-fail' })
+    commandBus.execute.mockResolvedValue(0)
+    participantReadRepo.findBibRegistry.mockResolvedValue({ startList: null, range: null })
     cropUrlsService.generate.mockResolvedValue({
       bibs: [],
       colorsHelmet: [],
@@ -100,6 +108,8 @@ describe('ProcessPhotoClassificationHandler', () => {
         { provide: CLASSIFICATION_PIPELINE_ADAPTER, useValue: adapter },
         { provide: PHOTO_CLASSIFICATION_WRITE_REPOSITORY, useValue: writeRepo },
         { provide: CROP_UPLOAD_URLS_SERVICE, useValue: cropUrlsService },
+        { provide: PARTICIPANT_READ_REPOSITORY, useValue: participantReadRepo },
+        { provide: CommandBus, useValue: commandBus },
       ],
     }).compile()
     handler = moduleRef.get(ProcessPhotoClassificationHandler)
@@ -117,7 +127,7 @@ describe('ProcessPhotoClassificationHandler', () => {
     expect(adapter.classify).toHaveBeenCalledWith(expect.objectContaining({ imageId: 'photo-1' }))
     expect(writeRepo.persistResult).toHaveBeenCalled()
     expect(photo.markProcessed).toHaveBeenCalledWith(1920, 1080)
-    expect(photoWriteRepo.save).toHaveBeenCalledTimes(2)
+    expect(photoWriteRepo.saveProcessingStatus).toHaveBeenCalledTimes(2)
   })
 
   it('throws notFound when photo missing', async () => {
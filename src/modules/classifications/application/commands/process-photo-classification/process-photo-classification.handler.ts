@@ -1,5 +1,10 @@
 import { Inject, Logger } from '@nestjs/common'
-import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AttachPhotoToBibPackagesCommand } from '@orders/application/commands'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
 import {
   type IPhotoReadRepository,
   type IPhotoWriteRepository,
@@ -43,6 +48,9 @@ export class ProcessPhotoClassificationHandler
     private readonly writeRepo: IPhotoClassificationWriteRepository,
     @Inject(CROP_UPLOAD_URLS_SERVICE)
     private readonly cropUrlsService: ICropUploadUrlsService,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
+    private readonly commandBus: CommandBus,
   ) {}
 
   async execute(command: ProcessPhotoClassificationCommand): Promise<void> {
@@ -58,7 +66,7 @@ export class ProcessPhotoClassificationHandler
     }
 
     photo.markProcessing()
-    await this.photoWriteRepo.save(photo)
+    await this.photoWriteRepo.saveProcessingStatus(photo)
 
     const startedAt = new Date()
     try {
@@ -78,19 +86,28 @@ export class ProcessPhotoClassificationHandler
       })
 
       const completedAt = new Date()
+      const registry = await this.participantReadRepo.findBibRegistry(photo.eventId)
       const persistInput = PipelineResponseMapper.toPersistInput(
         photo.id,
         response,
         startedAt,
         completedAt,
+        registry,
       )
       await this.writeRepo.persistResult(persistInput)
 
       photo.markProcessed(response.imageWidth ?? null, response.imageHeight ?? null)
-      await this.photoWriteRepo.save(photo)
+      await this.photoWriteRepo.saveProcessingStatus(photo)
+
+      // Bib packages bought before this photo was classified receive it now
+      await this.commandBus
+        .execute(new AttachPhotoToBibPackagesCommand(photo.id))
+        .catch((attachErr: unknown) => {
+          this.logger.warn(`Bib package attach failed for ${photo.id}: ${String(attachErr)}`)
+        })
 
       this.logger.log(
-        `✔ ${photo.id} processed bibs=${response.bibReadings.length} colors=${response.colorAnalyses.length} totalMs=${response.timings.totalMs}`,
+        `✔ ${photo.id} processed bibs=${persistInput.bibs.length} readings=${response.bibReadings.length} colors=${response.colorAnalyses.length} totalMs=${response.timings.totalMs}`,
       )
     } catch (error) {
       if (error instanceof AppException && RETRYABLE_AI_ERRORS.has(error.messageKey)) {
@@ -116,7 +133,7 @@ export class ProcessPhotoClassificationHandler
       }
 
       photo.markFailed()
-      await this.photoWriteRepo.save(photo).catch((saveErr) => {
+      await this.photoWriteRepo.saveProcessingStatus(photo).catch((saveErr) => {
         this.logger.error(`markFailed save also failed for ${photo.id}: ${String(saveErr)}`)
       })
 
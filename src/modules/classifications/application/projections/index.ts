@@ -0,0 +1,12 @@
+export {
+  ColorQualityProjection,
+  EventOcrQualityProjection,
+  ModelQualityProjection,
+  ModelVersionsOcrQualityProjection,
+  OcrQualityProjection,
+  StageLatencyProjection,
+} from './model-quality.projection'
+export {
+  ModelVersionsCountProjection,
+  TrainingDatasetProjection,
+} from './training-dataset.projection'
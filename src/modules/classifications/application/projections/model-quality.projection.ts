@@ -0,0 +1,127 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/** How the AI's bibs fared with reviewers. */
+export class OcrQualityProjection {
+  @ApiProperty({ description: 'Bibs left as read on a reviewed photo' })
+  accepted: number
+
+  @ApiProperty({ description: 'Bibs whose digits a reviewer changed' })
+  corrected: number
+
+  @ApiProperty({ description: 'Bibs a reviewer deleted' })
+  deleted: number
+
+  @ApiProperty({ description: 'Bibs on photos nobody has reviewed yet' })
+  pending: number
+
+  @ApiProperty({ description: 'Riders whose bib OCR could not read' })
+  abstained: number
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'accepted / (accepted + corrected + deleted); null until a bib was reviewed',
+    example: 0.9132,
+  })
+  precision: number | null
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'abstained / all bibs; null without bibs',
+    example: 0.0841,
+  })
+  abstentionRate: number | null
+}
+
+export class EventOcrQualityProjection extends OcrQualityProjection {
+  @ApiProperty()
+  eventId: string
+
+  @ApiProperty()
+  eventName: string
+}
+
+export class ModelVersionsOcrQualityProjection extends OcrQualityProjection {
+  @ApiProperty({
+    description: 'Model of each pipeline stage',
+    example: { detection: 'yolo-v8', ocr: 'parseq-2', color: 'gemini' },
+  })
+  modelVersions: Record<string, string>
+}
+
+export class ColorQualityProjection {
+  @ApiProperty({ enum: ['helmet', 'cyclist_clothes', 'bicycle'] })
+  region: string
+
+  @ApiProperty({ description: 'Colors left as read on a reviewed photo' })
+  accepted: number
+
+  @ApiProperty({ description: 'Colors whose primary or secondary color a reviewer changed' })
+  corrected: number
+
+  @ApiProperty({ description: 'Colors a reviewer deleted' })
+  deleted: number
+
+  @ApiProperty({ description: 'Colors on photos nobody has reviewed yet' })
+  pending: number
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'accepted / (accepted + corrected + deleted); null until a color was reviewed',
+    example: 0.8725,
+  })
+  accuracy: number | null
+}
+
+export class StageLatencyProjection {
+  @ApiProperty({ description: 'Start of the day, week or month' })
+  periodStart: Date
+
+  @ApiProperty({ enum: ['detection', 'ocr', 'color'] })
+  stage: string
+
+  @ApiProperty({ description: 'Runs of the stage that were not skipped' })
+  runs: number
+
+  @ApiProperty()
+  p50Ms: number
+
+  @ApiProperty()
+  p90Ms: number
+
+  @ApiProperty()
+  p99Ms: number
+
+  @ApiProperty()
+  itemsProcessed: number
+
+  @ApiProperty()
+  itemsFailed: number
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'itemsFailed / itemsProcessed; null when the stage had no items',
+  })
+  failureRate: number | null
+}
+
+/** Model-quality figures over the classifications in the selection. */
+export class ModelQualityProjection {
+  @ApiProperty({ type: OcrQualityProjection })
+  ocr: OcrQualityProjection
+
+  @ApiProperty({ type: [EventOcrQualityProjection], description: 'Most bibs first' })
+  ocrByEvent: EventOcrQualityProjection[]
+
+  @ApiProperty({ type: [ModelVersionsOcrQualityProjection], description: 'Most bibs first' })
+  ocrByModelVersions: ModelVersionsOcrQualityProjection[]
+
+  @ApiProperty({ type: [ColorQualityProjection] })
+  colorsByRegion: ColorQualityProjection[]
+
+  @ApiProperty({ type: [StageLatencyProjection], description: 'Oldest period first' })
+  stageLatency: StageLatencyProjection[]
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+export class ModelVersionsCountProjection {
+  @ApiProperty({
+    description: 'Model of each pipeline stage',
+    example: { detection: 'yolo-v8', ocr: 'parseq-2', color: 'gemini' },
+  })
+  versions: Record<string, string>
+
+  @ApiProperty({ description: 'Labels correcting predictions of these models' })
+  labels: number
+}
+
+/** A training dataset written to storage. */
+export class TrainingDatasetProjection {
+  @ApiProperty()
+  id: string
+
+  @ApiProperty({ description: 'Dataset version, increasing with every export' })
+  version: number
+
+  @ApiProperty()
+  bibLabels: number
+
+  @ApiProperty()
+  colorLabels: number
+
+  @ApiProperty({ type: [ModelVersionsCountProjection] })
+  modelVersions: ModelVersionsCountProjection[]
+
+  @ApiProperty({ description: 'Storage key of the OCR labels (CSV)' })
+  ocrKey: string
+
+  @ApiProperty({ description: 'Storage key of the detection labels (COCO JSON)' })
+  detectionsKey: string
+}
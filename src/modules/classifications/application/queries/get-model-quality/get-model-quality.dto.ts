@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { IsDate, IsIn, IsOptional, IsUUID } from 'class-validator'
+import type { LatencyBucket } from '../../../domain/ports'
+
+export class GetModelQualityDto {
+  @ApiPropertyOptional({ description: 'Only photos of this event', format: 'uuid' })
+  @IsUUID()
+  @IsOptional()
+  eventId?: string
+
+  @ApiPropertyOptional({
+    description: 'Only classifications started from this date',
+    example: '2026-10-01T00:00:00.000Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  from?: Date
+
+  @ApiPropertyOptional({
+    description: 'Only classifications started up to this date',
+    example: '2026-10-31T23:59:59.000Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  to?: Date
+
+  @ApiPropertyOptional({
+    description: 'Period the stage latency is grouped by',
+    enum: ['day', 'week', 'month'],
+    default: 'day',
+  })
+  @IsIn(['day', 'week', 'month'])
+  @IsOptional()
+  bucket?: LatencyBucket
+}
@@ -0,0 +1,83 @@
+import type { IModelQualityReadRepository } from '../../../domain/ports'
+import { GetModelQualityHandler } from './get-model-quality.handler'
+import { GetModelQualityQuery } from './get-model-quality.query'
+
+const v1 = { detection: 'yolo-v8', ocr: 'parseq-1' }
+const v2 = { detection: 'yolo-v8', ocr: 'parseq-2' }
+
+describe('GetModelQualityHandler', () => {
+  let readRepo: jest.Mocked<IModelQualityReadRepository>
+  let handler: GetModelQualityHandler
+
+  beforeEach(() => {
+    readRepo = {
+      countBibOutcomes: jest.fn().mockResolvedValue([
+        {
+          eventId: 'e-1',
+          eventName: 'Vuelta',
+          modelVersions: v1,
+          accepted: 6,
+          corrected: 3,
+          deleted: 1,
+          pending: 0,
+          abstained: 2,
+        },
+        {
+          eventId: 'e-1',
+          eventName: 'Vuelta',
+          modelVersions: v2,
+          accepted: 9,
+          corrected: 1,
+          deleted: 0,
+          pending: 10,
+          abstained: 0,
+        },
+      ]),
+      countColorOutcomes: jest
+        .fn()
+        .mockResolvedValue([
+          { region: 'helmet', accepted: 0, corrected: 0, deleted: 0, pending: 4 },
+        ]),
+      findStageLatency: jest.fn().mockResolvedValue([
+        {
+          periodStart: new Date('2026-10-01T00:00:00Z'),
+          stage: 'ocr',
+          runs: 20,
+          p50Ms: 120,
+          p90Ms: 300,
+          p99Ms: 900,
+          itemsProcessed: 40,
+          itemsFailed: 2,
+        },
+      ]),
+    } as unknown as jest.Mocked<IModelQualityReadRepository>
+    handler = new GetModelQualityHandler(readRepo)
+  })
+
+  it('reports OCR precision overall, per event and per model versions', async () => {
+    const result = await handler.execute(new GetModelQualityQuery('e-1', null, null, 'week'))
+
+    expect(readRepo.findStageLatency).toHaveBeenCalledWith(
+      { eventId: 'e-1', from: null, to: null },
+      'week',
+    )
+    expect(result.ocr).toMatchObject({ accepted: 15, corrected: 4, precision: 0.75 })
+    expect(result.ocr.abstentionRate).toBe(0.0625)
+    expect(result.ocrByEvent).toEqual([
+      expect.objectContaining({ eventId: 'e-1', eventName: 'Vuelta', precision: 0.75 }),
+    ])
+    expect(result.ocrByModelVersions).toEqual([
+      expect.objectContaining({ modelVersions: v2, precision: 0.9, abstentionRate: 0 }),
+      expect.objectContaining({ modelVersions: v1, precision: 0.6, abstentionRate: 0.1667 }),
+    ])
+  })
+
+  it('reports color accuracy and stage failure rates', async () => {
+    const result = await handler.execute(new GetModelQualityQuery(null, null, null, 'day'))
+
+    expect(result.colorsByRegion).toEqual([
+      { region: 'helmet', accepted: 0, corrected: 0, deleted: 0, pending: 4, accuracy: null },
+    ])
+    expect(result.stageLatency[0]).toMatchObject({ stage: 'ocr', p90Ms: 300, failureRate: 0.05 })
+  })
+})
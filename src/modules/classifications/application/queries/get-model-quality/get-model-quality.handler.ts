@@ -0,0 +1,55 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import {
+  type IModelQualityReadRepository,
+  MODEL_QUALITY_READ_REPOSITORY,
+} from '../../../domain/ports'
+import { type BibOutcomeTotals, ModelQuality } from '../../../domain/services/model-quality.service'
+import type { ModelQualityProjection, OcrQualityProjection } from '../../projections'
+import { GetModelQualityQuery } from './get-model-quality.query'
+
+/**
+ * Reports how the AI pipeline does against the reviewers: OCR precision per event and per set
+ * of model versions, color accuracy per region, the abstention rate and stage latency.
+ */
+@QueryHandler(GetModelQualityQuery)
+export class GetModelQualityHandler implements IQueryHandler<GetModelQualityQuery> {
+  constructor(
+    @Inject(MODEL_QUALITY_READ_REPOSITORY)
+    private readonly readRepo: IModelQualityReadRepository,
+  ) {}
+
+  async execute(query: GetModelQualityQuery): Promise<ModelQualityProjection> {
+    const filters = { eventId: query.eventId, from: query.from, to: query.to }
+    const [bibs, colors, latency] = await Promise.all([
+      this.readRepo.countBibOutcomes(filters),
+      this.readRepo.countColorOutcomes(filters),
+      this.readRepo.findStageLatency(filters, query.bucket),
+    ])
+
+    return {
+      ocr: toOcrQuality(ModelQuality.total(bibs)),
+      ocrByEvent: ModelQuality.rollUp(bibs, (row) => row.eventId).map(({ row, totals }) => ({
+        eventId: row.eventId,
+        eventName: row.eventName,
+        ...toOcrQuality(totals),
+      })),
+      ocrByModelVersions: ModelQuality.rollUp(bibs, (row) => row.modelVersions).map(
+        ({ row, totals }) => ({ modelVersions: row.modelVersions, ...toOcrQuality(totals) }),
+      ),
+      colorsByRegion: colors.map((row) => ({ ...row, accuracy: ModelQuality.precision(row) })),
+      stageLatency: latency.map((row) => ({
+        ...row,
+        failureRate: ModelQuality.failureRate(row.itemsFailed, row.itemsProcessed),
+      })),
+    }
+  }
+}
+
+function toOcrQuality(totals: BibOutcomeTotals): OcrQualityProjection {
+  return {
+    ...totals,
+    precision: ModelQuality.precision(totals),
+    abstentionRate: ModelQuality.abstentionRate(totals),
+  }
+}
@@ -0,0 +1,10 @@
+import type { LatencyBucket } from '../../../domain/ports'
+
+export class GetModelQualityQuery {
+  constructor(
+    public readonly eventId: string | null,
+    public readonly from: Date | null,
+    public readonly to: Date | null,
+    public readonly bucket: LatencyBucket,
+  ) {}
+}
@@ -0,0 +1,2 @@
+export { GetModelQualityDto } from './get-model-quality/get-model-quality.dto'
+export { GetModelQualityQuery } from './get-model-quality/get-model-quality.query'
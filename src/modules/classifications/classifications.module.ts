@@ -1,16 +1,36 @@
+import { EventsModule } from '@events/events.module'
 import { forwardRef, Module } from '@nestjs/common'
 import { CqrsModule } from '@nestjs/cqrs'
+import { ParticipantsModule } from '@participants/participants.module'
 import { PhotosModule } from '@photos/photos.module'
+import { ExportTrainingDatasetHandler } from './application/commands/export-training-dataset/export-training-dataset.handler'
 import { ProcessPhotoClassificationHandler } from './application/commands/process-photo-classification/process-photo-classification.handler'
-import { CROP_UPLOAD_URLS_SERVICE, PHOTO_CLASSIFICATION_WRITE_REPOSITORY } from './domain/ports'
+import { GetModelQualityHandler } from './application/queries/get-model-quality/get-model-quality.handler'
+import {
+  CROP_UPLOAD_URLS_SERVICE,
+  MODEL_QUALITY_READ_REPOSITORY,
+  PHOTO_CLASSIFICATION_WRITE_REPOSITORY,
+  TRAINING_DATASET_REPOSITORY,
+} from './domain/ports'
+import { ModelQualityReadRepository } from './infrastructure/repositories/model-quality-read.repository'
 import { PhotoClassificationWriteRepository } from './infrastructure/repositories/photo-classification-write.repository'
+import { TrainingDatasetRepository } from './infrastructure/repositories/training-dataset.repository'
 import { CropUploadUrlsService } from './infrastructure/services/crop-upload-urls.service'
+import { ModelQualityController } from './presentation/controllers/model-quality.controller'
+import { TrainingDatasetsController } from './presentation/controllers/training-datasets.controller'
 
 @Module({
-  imports: [CqrsModule, forwardRef(() => PhotosModule)],
-  controllers: [],
+  imports: [
+    CqrsModule,
+    forwardRef(() => PhotosModule),
+    forwardRef(() => EventsModule),
+    ParticipantsModule,
+  ],
+  controllers: [ModelQualityController, TrainingDatasetsController],
   providers: [
+    ExportTrainingDatasetHandler,
     ProcessPhotoClassificationHandler,
+    GetModelQualityHandler,
     {
       provide: PHOTO_CLASSIFICATION_WRITE_REPOSITORY,
       useClass: PhotoClassificationWriteRepository,
@@ -19,6 +39,8 @@ import { CropUploadUrlsService } from './infrastructure/services/crop-upload-url
       provide: CROP_UPLOAD_URLS_SERVICE,
       useClass: CropUploadUrlsService,
     },
+    { provide: MODEL_QUALITY_READ_REPOSITORY, useClass: ModelQualityReadRepository },
+    { provide: TRAINING_DATASET_REPOSITORY, useClass: TrainingDatasetRepository },
   ],
   exports: [PHOTO_CLASSIFICATION_WRITE_REPOSITORY, CROP_UPLOAD_URLS_SERVICE],
 })
@@ -1,2 +1,4 @@
 export * from './crop-upload-urls.port'
+export * from './model-quality-read-repository.port'
 export * from './photo-classification-write-repository.port'
+export * from './training-dataset-repository.port'
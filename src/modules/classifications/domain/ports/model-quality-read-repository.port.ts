@@ -0,0 +1,58 @@
+import type { ColorRegion, ProcessingStageName } from '@generated/prisma/client'
+
+export type LatencyBucket = 'day' | 'week' | 'month'
+
+export interface ModelQualityFilters {
+  eventId: string | null
+  /** Classifications started at or after this time. */
+  from: Date | null
+  /** Classifications started at or before this time. */
+  to: Date | null
+}
+
+/**
+ * What became of the AI's predictions. A prediction is judged once a reviewer corrected or
+ * deleted it, or reviewed its photo and left it alone (accepted). Until then it is pending.
+ */
+export interface PredictionOutcomes {
+  accepted: number
+  corrected: number
+  deleted: number
+  pending: number
+}
+
+/** AI bibs of one event read by one set of models. */
+export interface BibOutcomeCounts extends PredictionOutcomes {
+  eventId: string
+  eventName: string
+  modelVersions: Record<string, string>
+  /** Riders whose bib OCR could not read; never judged. */
+  abstained: number
+}
+
+export interface ColorOutcomeCounts extends PredictionOutcomes {
+  region: ColorRegion
+}
+
+/** Runs of one pipeline stage in one period. */
+export interface StageLatencyRow {
+  periodStart: Date
+  stage: ProcessingStageName
+  runs: number
+  p50Ms: number
+  p90Ms: number
+  p99Ms: number
+  itemsProcessed: number
+  itemsFailed: number
+}
+
+export interface IModelQualityReadRepository {
+  /** Outcomes of the AI bibs, per event and per set of model versions. */
+  countBibOutcomes(filters: ModelQualityFilters): Promise<BibOutcomeCounts[]>
+  /** Outcomes of the AI colors, per region. */
+  countColorOutcomes(filters: ModelQualityFilters): Promise<ColorOutcomeCounts[]>
+  /** Latency percentiles of each stage per period, oldest first. */
+  findStageLatency(filters: ModelQualityFilters, bucket: LatencyBucket): Promise<StageLatencyRow[]>
+}
+
+export const MODEL_QUALITY_READ_REPOSITORY = Symbol('MODEL_QUALITY_READ_REPOSITORY')
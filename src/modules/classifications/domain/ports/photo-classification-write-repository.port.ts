@@ -23,8 +23,8 @@ export interface PersistDetectionInput {
   bbox: [number, number, number, number]
 }
 
-export interface PersistBibInput {
-  source: AttributeSource
+/** One raw OCR reading, kept as evidence of the bib it was reconciled into. */
+export interface PersistBibReadingInput {
   digits: string
   confidence: number | null
   confidencePerDigit: number[] | null
@@ -37,6 +37,14 @@ export interface PersistBibInput {
   cropPath: string | null
 }
 
+/** Canonical bib of one rider, reconciled from its readings. */
+export interface PersistBibInput extends PersistBibReadingInput {
+  source: AttributeSource
+  /** Index in `detections` of the rider the bib was read on. */
+  detectionIndex: number | null
+  readings: PersistBibReadingInput[]
+}
+
 export interface PersistColorInput {
   source: AttributeSource
   region: ColorRegion
@@ -0,0 +1,84 @@
+import type { ColorRegion } from '@generated/prisma/client'
+
+/** Normalized [x1, y1, x2, y2] box, as the pipeline reports it. */
+export type LabelBox = [number, number, number, number]
+
+/** Where a label comes from: a reviewer corrected the AI, or typed the attribute in. */
+export type LabelOrigin = 'correction' | 'reviewer'
+
+export interface TrainingLabelFilters {
+  eventId: string | null
+  /** Labels made (corrected or added) at or after this time. */
+  from: Date | null
+  /** Labels made at or before this time. */
+  to: Date | null
+}
+
+/** The photo a label was made on, as stored. */
+export interface LabelledImage {
+  photoId: string
+  storageKey: string
+  width: number | null
+  height: number | null
+}
+
+interface TrainingLabelBase {
+  image: LabelledImage
+  origin: LabelOrigin
+  bbox: LabelBox | null
+  cropPath: string | null
+  /** Latest correction, or when the reviewer added the attribute. */
+  labelledAt: Date
+  /** Models of the classification that made the prediction; null for reviewer-added ones. */
+  modelVersions: Record<string, string> | null
+}
+
+export interface BibLabel extends TrainingLabelBase {
+  bibId: string
+  /** What OCR read; null for bibs a reviewer added. */
+  predicted: string | null
+  digits: string
+}
+
+export interface ColorLabel extends TrainingLabelBase {
+  colorId: string
+  region: ColorRegion
+  /** What the color model read; null for colors a reviewer added. */
+  predicted: { primary: string; secondary: string | null } | null
+  primaryColor: string
+  secondaryColor: string | null
+}
+
+export interface TrainingDatasetRecord {
+  version: number
+  eventId: string | null
+  labelledFrom: Date | null
+  labelledTo: Date | null
+  bibLabels: number
+  colorLabels: number
+  modelVersions: ModelVersionsCount[]
+  ocrKey: string
+  detectionsKey: string
+  createdById: string
+}
+
+/** One set of model versions and how many labels correct its predictions. */
+export interface ModelVersionsCount {
+  versions: Record<string, string>
+  labels: number
+}
+
+export interface ITrainingDatasetRepository {
+  /**
+   * Live bibs a reviewer added or corrected the digits of, with their latest digits, on
+   * photos of the event (any event when null).
+   */
+  findBibLabels(filters: TrainingLabelFilters): Promise<BibLabel[]>
+  /** Live colors a reviewer added or corrected, with their latest colors. */
+  findColorLabels(filters: TrainingLabelFilters): Promise<ColorLabel[]>
+  /** Takes the next dataset version. A version whose export fails is never reused. */
+  reserveVersion(): Promise<number>
+  create(record: TrainingDatasetRecord): Promise<{ id: string }>
+}
+
+export const TRAINING_DATASET_REPOSITORY = Symbol('TRAINING_DATASET_REPOSITORY')
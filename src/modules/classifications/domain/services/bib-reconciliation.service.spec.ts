@@ -0,0 +1,203 @@
+import type { EventBibRegistry } from '@participants/domain/ports'
+import type { PersistBibReadingInput, PersistDetectionInput } from '../ports'
+import { BibReconciliation, BibRejection } from './bib-reconciliation.service'
+
+const reading = (
+  digits: string,
+  bboxSource: [number, number, number, number] | null,
+  overrides: Partial<PersistBibReadingInput> = {},
+): PersistBibReadingInput => ({
+  digits,
+  confidence: 0.9,
+  confidencePerDigit: [...digits].map(() => 0.9),
+  status: 'read',
+  rejectionReason: null,
+  rawOcrText: digits,
+  bboxSource,
+  preprocessingApplied: [],
+  processingMs: 100,
+  cropPath: null,
+  ...overrides,
+})
+
+const rider = (bbox: [number, number, number, number]): PersistDetectionInput => ({
+  className: 'cyclist',
+  classId: 0,
+  confidence: 0.9,
+  bbox,
+})
+
+const left = rider([0.0, 0.1, 0.4, 0.9])
+const right = rider([0.5, 0.1, 0.9, 0.9])
+const noRegistry: EventBibRegistry = { startList: null, range: null }
+
+describe('BibReconciliation', () => {
+  describe('cluster', () => {
+    it('groups readings by the rider holding their box', () => {
+      const clusters = BibReconciliation.cluster(
+        [left, { ...left, className: 'helmet' }, right],
+        [
+          reading('142', [0.1, 0.4, 0.2, 0.5]),
+          reading('7', [0.6, 0.4, 0.7, 0.5]),
+          reading('14', [0.12, 0.41, 0.2, 0.5]),
+        ],
+      )
+
+      expect(clusters.map((c) => [c.detectionIndex, c.readings.map((r) => r.digits)])).toEqual([
+        [0, ['142', '14']],
+        [2, ['7']],
+      ])
+    })
+
+    it('groups readings on no rider by overlapping boxes and keeps boxless ones apart', () => {
+      const clusters = BibReconciliation.cluster(
+        [],
+        [
+          reading('31', [0.1, 0.1, 0.2, 0.2]),
+          reading('31', [0.11, 0.1, 0.21, 0.2]),
+          reading('88', [0.6, 0.6, 0.7, 0.7]),
+          reading('31', null),
+        ],
+      )
+
+      expect(clusters.map((c) => c.readings.length)).toEqual([2, 1, 1])
+      expect(clusters.every((c) => c.detectionIndex === null)).toBe(true)
+    })
+  })
+
+  describe('candidates', () => {
+    it('votes per digit and puts the runner-up swaps after the winner', () => {
+      const candidates = BibReconciliation.candidates([
+        reading('142', null, { confidence: 0.95, confidencePerDigit: [0.97, 0.96, 0.95] }),
+        reading('147', null, { confidence: 0.6, confidencePerDigit: [0.9, 0.9, 0.4] }),
+      ])
+
+      expect(candidates.map((c) => c.digits)).toEqual(['142', '147'])
+      expect(candidates[0].confidencePerDigit).toEqual([0.97, 0.96, 0.669])
+      expect(candidates[0].confidence).toBe(0.669)
+    })
+
+    it('lines partial reads up with the full ones', () => {
+      const [top] = BibReconciliation.candidates([
+        reading('1427', null, { confidencePerDigit: [0.9, 0.9, 0.5, 0.9] }),
+        reading('1827', null, { confidencePerDigit: [0.9, 0.6, 0.5, 0.9] }),
+        reading('27', null),
+        reading('142', null),
+      ])
+
+      expect(top.digits).toBe('1427')
+    })
+
+    it('ignores abstentions and returns nothing when every reading abstained', () => {
+      expect(
+        BibReconciliation.candidates([
+          reading('', null, { status: 'abstained', confidence: null, confidencePerDigit: null }),
+        ]),
+      ).toEqual([])
+      expect(
+        BibReconciliation.candidates([
+          reading('5', null, { status: 'abstained' }),
+          reading('55', null),
+        ]).map((c) => c.digits),
+      ).toEqual(['55'])
+    })
+  })
+
+  describe('check', () => {
+    it('prefers the start list over the range', () => {
+      const registry = { startList: new Set(['142']), range: { min: 1, max: 100 } }
+
+      expect(BibReconciliation.check('142', registry)).toBeNull()
+      expect(BibReconciliation.check('42', registry)).toBe(BibRejection.NOT_ON_START_LIST)
+    })
+
+    it('falls back to the range, and accepts anything when the event knows neither', () => {
+      const registry = { startList: null, range: { min: 1, max: 500 } }
+
+      expect(BibReconciliation.check('499', registry)).toBeNull()
+      expect(BibReconciliation.check('742', registry)).toBe(BibRejection.OUTSIDE_BIB_RANGE)
+      expect(BibReconciliation.check('742', noRegistry)).toBeNull()
+    })
+  })
+
+  describe('reconcile', () => {
+    it('records one bib per rider with its readings as evidence', () => {
+      const readings = [
+        reading('142', [0.1, 0.4, 0.2, 0.5], { cropPath: 'crops/bibs/0.jpg' }),
+        reading('', [0.1, 0.4, 0.2, 0.5], { status: 'abstained', confidence: null }),
+        reading('7', [0.6, 0.4, 0.7, 0.5], { processingMs: null }),
+      ]
+
+      const bibs = BibReconciliation.reconcile([left, right], readings, noRegistry)
+
+      expect(bibs).toHaveLength(2)
+      expect(bibs[0]).toMatchObject({
+        source: 'ai',
+        digits: '142',
+        status: 'read',
+        confidence: 0.9,
+        detectionIndex: 0,
+        cropPath: 'crops/bibs/0.jpg',
+        processingMs: 200,
+        rejectionReason: null,
+      })
+      expect(bibs[0].readings).toEqual(readings.slice(0, 2))
+      expect(bibs[1]).toMatchObject({ digits: '7', detectionIndex: 1, processingMs: null })
+    })
+
+    it('puts a wrong digit right when a disagreeing reading is on the start list', () => {
+      const registry = { startList: new Set(['147']), range: null }
+      const bibs = BibReconciliation.reconcile(
+        [left],
+        [
+          reading('142', [0.1, 0.4, 0.2, 0.5], { confidence: 0.95 }),
+          reading('147', [0.1, 0.4, 0.2, 0.5], {
+            confidence: 0.6,
+            confidencePerDigit: [0.9, 0.9, 0.4],
+            cropPath: 'crops/bibs/1.jpg',
+          }),
+        ],
+        registry,
+      )
+
+      expect(bibs).toHaveLength(1)
+      expect(bibs[0]).toMatchObject({
+        digits: '147',
+        rejectionReason: null,
+        cropPath: 'crops/bibs/1.jpg',
+      })
+    })
+
+    it('keeps the top vote with the reason when no candidate fits the event', () => {
+      const bibs = BibReconciliation.reconcile([left], [reading('912', [0.1, 0.4, 0.2, 0.5])], {
+        startList: null,
+        range: { min: 1, max: 500 },
+      })
+
+      expect(bibs[0]).toMatchObject({
+        digits: '912',
+        status: 'read',
+        rejectionReason: BibRejection.OUTSIDE_BIB_RANGE,
+      })
+    })
+
+    it('records an abstention when no reading has digits', () => {
+      const abstention = reading('', [0.1, 0.4, 0.2, 0.5], {
+        status: 'abstained',
+        confidence: 0.2,
+        confidencePerDigit: null,
+        rejectionReason: 'low_confidence',
+      })
+
+      const [bib] = BibReconciliation.reconcile([left], [abstention], noRegistry)
+
+      expect(bib).toMatchObject({
+        digits: '',
+        status: 'abstained',
+        rejectionReason: 'low_confidence',
+        detectionIndex: 0,
+        readings: [abstention],
+      })
+    })
+  })
+})
@@ -0,0 +1,249 @@
+import { AttributeSource, BibReadingStatus } from '@generated/prisma/client'
+import type { EventBibRegistry } from '@participants/domain/ports'
+import { PERSON_DETECTION_CLASSES } from '@photos/domain/ports'
+import type { PersistBibInput, PersistBibReadingInput, PersistDetectionInput } from '../ports'
+
+type Box = [number, number, number, number]
+
+/** Readings of one rider's bib. */
+export interface BibCluster {
+  /** Index of the rider detection the readings fall on; null when on none. */
+  detectionIndex: number | null
+  readings: PersistBibReadingInput[]
+}
+
+/** A digit string the readings vote for, scored digit by digit. */
+export interface BibCandidate {
+  digits: string
+  confidencePerDigit: number[]
+  /**
+   * Confidence of the best reading of exactly these digits, times the agreement on the
+   * most disputed digit; the weakest digit's score when no reading has them all.
+   */
+  confidence: number
+}
+
+export const BibRejection = {
+  NOT_ON_START_LIST: 'not_on_start_list',
+  OUTSIDE_BIB_RANGE: 'outside_bib_range',
+} as const
+
+/** Share of a reading's box that must fall inside a rider for the reading to be theirs. */
+const MIN_RIDER_COVERAGE = 0.5
+/** Readings on no rider are the same bib above this overlap. */
+const MIN_READING_IOU = 0.3
+/** Vote of a digit read without any confidence. */
+const UNKNOWN_CONFIDENCE = 0.5
+
+const RIDER_CLASSES = new Set<string>(PERSON_DETECTION_CLASSES)
+const DIGITS = /^\d+$/
+
+const area = ([x1, y1, x2, y2]: Box): number => Math.max(0, x2 - x1) * Math.max(0, y2 - y1)
+
+const intersection = (a: Box, b: Box): number =>
+  area([Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])])
+
+const iou = (a: Box, b: Box): number => {
+  const shared = intersection(a, b)
+  const union = area(a) + area(b) - shared
+  return union > 0 ? shared / union : 0
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000
+
+const isRead = (reading: PersistBibReadingInput): boolean =>
+  reading.status !== BibReadingStatus.abstained && DIGITS.test(reading.digits)
+
+const digitConfidence = (reading: PersistBibReadingInput, i: number): number =>
+  reading.confidencePerDigit?.[i] ?? reading.confidence ?? UNKNOWN_CONFIDENCE
+
+type Votes = Array<Map<string, { weight: number; best: number }>>
+
+function cast(votes: Votes, reading: PersistBibReadingInput, offset: number): void {
+  for (const [i, digit] of [...reading.digits].entries()) {
+    const confidence = digitConfidence(reading, i)
+    const slot = votes[offset + i]
+    const current = slot.get(digit) ?? { weight: 0, best: 0 }
+    slot.set(digit, {
+      weight: current.weight + confidence,
+      best: Math.max(current.best, confidence),
+    })
+  }
+}
+
+/** Where a partial read agrees best with the votes so far; null when nowhere or ambiguous. */
+function alignment(digits: string, votes: Votes): number | null {
+  const scores = Array.from({ length: votes.length - digits.length + 1 }, (_, offset) =>
+    [...digits].reduce((sum, digit, i) => sum + (votes[offset + i].get(digit)?.weight ?? 0), 0),
+  )
+  const best = Math.max(...scores)
+  if (best === 0 || scores.filter((s) => s === best).length > 1) return null
+  return scores.indexOf(best)
+}
+
+export const BibReconciliation = {
+  /**
+   * Groups readings by the rider detection holding most of their box. Readings on no
+   * rider are grouped by overlapping boxes; a reading without a box stands alone.
+   */
+  cluster(detections: PersistDetectionInput[], readings: PersistBibReadingInput[]): BibCluster[] {
+    const riders = detections
+      .map((detection, index) => ({ box: detection.bbox, index }))
+      .filter((_, index) => RIDER_CLASSES.has(detections[index].className))
+    const clusters: BibCluster[] = []
+
+    for (const reading of readings) {
+      const box = reading.bboxSource
+      const rider = box ? BibReconciliation.riderOf(box, riders) : null
+      const cluster = clusters.find((c) =>
+        rider !== null
+          ? c.detectionIndex === rider
+          : c.detectionIndex === null &&
+            box !== null &&
+            c.readings.some((r) => r.bboxSource && iou(r.bboxSource, box) >= MIN_READING_IOU),
+      )
+      if (cluster) cluster.readings.push(reading)
+      else clusters.push({ detectionIndex: rider, readings: [reading] })
+    }
+    return clusters
+  },
+
+  /** Rider covering most of the box, the smallest one on ties (the rider in front). */
+  riderOf(box: Box, riders: Array<{ box: Box; index: number }>): number | null {
+    const boxArea = area(box)
+    if (boxArea === 0) return null
+    const best = riders
+      .map((rider) => ({ ...rider, coverage: intersection(box, rider.box) / boxArea }))
+      .filter((rider) => rider.coverage >= MIN_RIDER_COVERAGE)
+      .sort((a, b) => b.coverage - a.coverage || area(a.box) - area(b.box))[0]
+    return best?.index ?? null
+  },
+
+  /**
+   * Votes digit by digit with each reading's per-digit confidence. The bib length is the
+   * one with most confidence behind it; shorter (partial) reads vote where they line up
+   * with the rest, longer ones not at all. Each digit scores its share of the votes times
+   * its best confidence. Returns the winning digits first, then each single-digit swap to
+   * a runner-up, best first; empty when every reading abstained.
+   */
+  candidates(readings: PersistBibReadingInput[]): BibCandidate[] {
+    const reads = readings.filter(isRead)
+    if (reads.length === 0) return []
+
+    const byLength = new Map<number, number>()
+    for (const read of reads) {
+      byLength.set(
+        read.digits.length,
+        (byLength.get(read.digits.length) ?? 0) + (read.confidence ?? UNKNOWN_CONFIDENCE),
+      )
+    }
+    const [[length]] = [...byLength.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])
+
+    const votes: Votes = Array.from({ length }, () => new Map())
+    for (const read of reads.filter((r) => r.digits.length === length)) cast(votes, read, 0)
+    for (const read of reads.filter((r) => r.digits.length < length)) {
+      const offset = alignment(read.digits, votes)
+      if (offset !== null) cast(votes, read, offset)
+    }
+
+    const ranked = votes.map((slot) => {
+      const total = [...slot.values()].reduce((sum, v) => sum + v.weight, 0)
+      return [...slot.entries()]
+        .map(([digit, v]) => ({
+          digit,
+          share: v.weight / total,
+          score: round((v.weight / total) * v.best),
+        }))
+        .sort((a, b) => b.score - a.score || a.digit.localeCompare(b.digit))
+    })
+    const toCandidate = (
+      picks: Array<{ digit: string; share: number; score: number }>,
+    ): BibCandidate => {
+      const digits = picks.map((p) => p.digit).join('')
+      // Read whole by some reading: its confidence, discounted by the disagreement
+      const whole = reads
+        .filter((r) => r.digits === digits && r.confidence !== null)
+        .map((r) => r.confidence as number)
+      return {
+        digits,
+        confidencePerDigit: picks.map((p) => p.score),
+        confidence:
+          whole.length > 0
+            ? round(Math.min(...picks.map((p) => p.share)) * Math.max(...whole))
+            : Math.min(...picks.map((p) => p.score)),
+      }
+    }
+
+    const top = ranked.map((options) => options[0])
+    const swaps = ranked.flatMap((options, position) =>
+      options
+        .slice(1)
+        .map((option) => toCandidate(top.map((pick, i) => (i === position ? option : pick)))),
+    )
+    return [toCandidate(top), ...swaps.sort((a, b) => b.confidence - a.confidence)]
+  },
+
+  /** Why the event would not hand out these digits; null when it might, or cannot tell. */
+  check(digits: string, registry: EventBibRegistry): string | null {
+    if (registry.startList) {
+      return registry.startList.has(digits) ? null : BibRejection.NOT_ON_START_LIST
+    }
+    if (registry.range) {
+      const bib = Number(digits)
+      return bib >= registry.range.min && bib <= registry.range.max
+        ? null
+        : BibRejection.OUTSIDE_BIB_RANGE
+    }
+    return null
+  },
+
+  /**
+   * One canonical bib per rider. The first candidate the event could have handed out wins,
+   * so a read with one wrong digit is put right by the readings that disagree with it;
+   * when none fits, the top vote is kept with the reason as `rejectionReason`. The crop,
+   * box and OCR text come from the most confident reading of the chosen digits.
+   */
+  reconcile(
+    detections: PersistDetectionInput[],
+    readings: PersistBibReadingInput[],
+    registry: EventBibRegistry,
+  ): PersistBibInput[] {
+    return BibReconciliation.cluster(detections, readings).map((cluster) => {
+      const byConfidence = [...cluster.readings].sort(
+        (a, b) => (b.confidence ?? 0) - (a.confidence ?? 0),
+      )
+      const timed = cluster.readings.filter((r) => r.processingMs !== null)
+      const shared = {
+        source: AttributeSource.ai,
+        processingMs:
+          timed.length > 0 ? timed.reduce((sum, r) => sum + (r.processingMs ?? 0), 0) : null,
+        detectionIndex: cluster.detectionIndex,
+        readings: cluster.readings,
+      }
+
+      const candidates = BibReconciliation.candidates(cluster.readings)
+      if (candidates.length === 0) {
+        const [evidence] = byConfidence
+        return { ...evidence, ...shared, status: BibReadingStatus.abstained }
+      }
+
+      const chosen =
+        candidates.find((c) => BibReconciliation.check(c.digits, registry) === null) ??
+        candidates[0]
+      const evidence =
+        byConfidence.find((r) => r.digits === chosen.digits) ?? byConfidence.find(isRead)
+      return {
+        ...shared,
+        digits: chosen.digits,
+        confidence: chosen.confidence,
+        confidencePerDigit: chosen.confidencePerDigit,
+        status: BibReadingStatus.read,
+        rejectionReason: BibReconciliation.check(chosen.digits, registry),
+        rawOcrText: evidence?.rawOcrText ?? null,
+        bboxSource: evidence?.bboxSource ?? null,
+        preprocessingApplied: evidence?.preprocessingApplied ?? null,
+        cropPath: evidence?.cropPath ?? null,
+      }
+    })
+  },
+}
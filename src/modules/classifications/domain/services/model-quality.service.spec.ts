@@ -0,0 +1,66 @@
+import type { BibOutcomeCounts } from '../ports'
+import { ModelQuality } from './model-quality.service'
+
+const v1 = { detection: 'yolo-v8', ocr: 'parseq-1' }
+const v2 = { detection: 'yolo-v8', ocr: 'parseq-2' }
+
+const row = (overrides: Partial<BibOutcomeCounts> = {}): BibOutcomeCounts => ({
+  eventId: 'e-1',
+  eventName: 'Vuelta',
+  modelVersions: v1,
+  accepted: 0,
+  corrected: 0,
+  deleted: 0,
+  pending: 0,
+  abstained: 0,
+  ...overrides,
+})
+
+describe('ModelQuality', () => {
+  it('leaves pending predictions out of the precision', () => {
+    expect(ModelQuality.precision({ accepted: 6, corrected: 1, deleted: 1, pending: 40 })).toBe(
+      0.75,
+    )
+  })
+
+  it('has no precision before anything was reviewed', () => {
+    expect(
+      ModelQuality.precision({ accepted: 0, corrected: 0, deleted: 0, pending: 12 }),
+    ).toBeNull()
+  })
+
+  it('counts abstentions against every AI bib, pending ones included', () => {
+    const totals = { accepted: 3, corrected: 1, deleted: 0, pending: 4, abstained: 2 }
+    expect(ModelQuality.abstentionRate(totals)).toBe(0.2)
+  })
+
+  it('rounds rates to four decimals', () => {
+    expect(ModelQuality.failureRate(1, 3)).toBe(0.3333)
+    expect(ModelQuality.failureRate(0, 0)).toBeNull()
+  })
+
+  it('rolls rows up per key, most bibs first', () => {
+    const rows = [
+      row({ eventId: 'e-1', modelVersions: v1, accepted: 2 }),
+      row({ eventId: 'e-2', modelVersions: v2, accepted: 5, corrected: 1 }),
+      row({ eventId: 'e-2', modelVersions: { ocr: 'parseq-1', detection: 'yolo-v8' }, deleted: 1 }),
+    ]
+
+    const byVersions = ModelQuality.rollUp(rows, (r) => r.modelVersions)
+    const byEvent = ModelQuality.rollUp(rows, (r) => r.eventId)
+
+    expect(byVersions.map((g) => g.row.modelVersions)).toEqual([v2, v1])
+    expect(byVersions[0].totals).toEqual({
+      accepted: 5,
+      corrected: 1,
+      deleted: 0,
+      pending: 0,
+      abstained: 0,
+    })
+    expect(byEvent.map((g) => [g.row.eventId, g.totals.accepted + g.totals.deleted])).toEqual([
+      ['e-2', 6],
+      ['e-1', 2],
+    ])
+    expect(ModelQuality.total(rows).accepted).toBe(7)
+  })
+})
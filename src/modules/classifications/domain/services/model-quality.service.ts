@@ -0,0 +1,73 @@
+import type { BibOutcomeCounts, PredictionOutcomes } from '../ports'
+
+/** Bib outcomes added up over some grouping of events and model versions. */
+export type BibOutcomeTotals = PredictionOutcomes & { abstained: number }
+
+const ZERO: BibOutcomeTotals = { accepted: 0, corrected: 0, deleted: 0, pending: 0, abstained: 0 }
+
+/** Rounded share, or null when there is nothing to share out. */
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 10_000) / 10_000 : null
+}
+
+/** Same key for the same versions, whatever order the stages come in. */
+function groupKey(key: unknown): string {
+  if (key === null || typeof key !== 'object') return JSON.stringify(key)
+  return JSON.stringify(Object.entries(key).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+/**
+ * Turns prediction outcomes into the model-quality figures. Pending predictions are left out
+ * of every rate: nobody has said yet whether they were right.
+ */
+export const ModelQuality = {
+  /** Share of the judged predictions that reviewers accepted as they were. */
+  precision(outcomes: PredictionOutcomes): number | null {
+    const judged = outcomes.accepted + outcomes.corrected + outcomes.deleted
+    return ratio(outcomes.accepted, judged)
+  },
+
+  /** Share of the AI bibs where OCR abstained instead of reading digits. */
+  abstentionRate(totals: BibOutcomeTotals): number | null {
+    const bibs =
+      totals.accepted + totals.corrected + totals.deleted + totals.pending + totals.abstained
+    return ratio(totals.abstained, bibs)
+  },
+
+  /** Share of the stage's items that failed. */
+  failureRate(itemsFailed: number, itemsProcessed: number): number | null {
+    return ratio(itemsFailed, itemsProcessed)
+  },
+
+  /** Adds the rows up per key, keeping the first row seen for each key; most bibs first. */
+  rollUp(
+    rows: BibOutcomeCounts[],
+    keyOf: (row: BibOutcomeCounts) => unknown,
+  ): Array<{ row: BibOutcomeCounts; totals: BibOutcomeTotals }> {
+    const groups = new Map<string, { row: BibOutcomeCounts; totals: BibOutcomeTotals }>()
+    for (const row of rows) {
+      const key = groupKey(keyOf(row))
+      const group = groups.get(key) ?? { row, totals: ZERO }
+      groups.set(key, { row: group.row, totals: ModelQuality.add(group.totals, row) })
+    }
+    const size = (t: BibOutcomeTotals) =>
+      t.accepted + t.corrected + t.deleted + t.pending + t.abstained
+    return [...groups.values()].sort((a, b) => size(b.totals) - size(a.totals))
+  },
+
+  /** Adds one row's counts to the running totals. */
+  add(totals: BibOutcomeTotals, counts: BibOutcomeTotals): BibOutcomeTotals {
+    return {
+      accepted: totals.accepted + counts.accepted,
+      corrected: totals.corrected + counts.corrected,
+      deleted: totals.deleted + counts.deleted,
+      pending: totals.pending + counts.pending,
+      abstained: totals.abstained + counts.abstained,
+    }
+  },
+
+  /** Adds up every row. */
+  total(rows: BibOutcomeCounts[]): BibOutcomeTotals {
+    return rows.reduce<BibOutcomeTotals>((totals, row) => ModelQuality.add(totals, row), ZERO)
+  },
+}
@@ -0,0 +1,119 @@
+import type { BibLabel, ColorLabel } from '../ports'
+import { TrainingDataset } from './training-dataset.service'
+
+const image = { photoId: 'p-1', storageKey: 'events/e-1/photos/a.jpg', width: 1000, height: 500 }
+const models = { detection: 'yolo-v8', ocr: 'parseq-2', color: 'gemini' }
+
+const bib = (overrides: Partial<BibLabel> = {}): BibLabel => ({
+  bibId: 'b-1',
+  image,
+  origin: 'correction',
+  bbox: [0.1, 0.2, 0.3, 0.4],
+  cropPath: 'events/e-1/photos/p-1/crops/bibs/0.jpg',
+  labelledAt: new Date('2026-10-04T10:00:00Z'),
+  modelVersions: models,
+  predicted: '147',
+  digits: '142',
+  ...overrides,
+})
+
+const color = (overrides: Partial<ColorLabel> = {}): ColorLabel => ({
+  colorId: 'c-1',
+  image,
+  origin: 'reviewer',
+  bbox: null,
+  cropPath: null,
+  labelledAt: new Date('2026-10-04T10:05:00Z'),
+  modelVersions: null,
+  region: 'helmet',
+  predicted: null,
+  primaryColor: 'rojo',
+  secondaryColor: null,
+  ...overrides,
+})
+
+const info = {
+  version: 3,
+  eventId: 'e-1',
+  labelledFrom: null,
+  labelledTo: null,
+  createdAt: new Date('2026-10-21T00:00:00Z'),
+  modelVersions: [],
+}
+
+describe('TrainingDataset', () => {
+  it('names the files after the version', () => {
+    expect(TrainingDataset.keysFor(3)).toEqual({
+      ocrKey: 'datasets/training/v3/ocr.csv',
+      detectionsKey: 'datasets/training/v3/detections.json',
+    })
+  })
+
+  it('counts the labels per model version set and skips reviewer-added ones', () => {
+    expect(
+      TrainingDataset.modelVersions([
+        bib(),
+        bib({ modelVersions: { ocr: 'parseq-2', color: 'gemini', detection: 'yolo-v8' } }),
+        bib({ modelVersions: { ...models, ocr: 'parseq-1' } }),
+        bib({ modelVersions: null }),
+      ]),
+    ).toEqual([
+      { versions: { color: 'gemini', detection: 'yolo-v8', ocr: 'parseq-2' }, labels: 2 },
+      { versions: { color: 'gemini', detection: 'yolo-v8', ocr: 'parseq-1' }, labels: 1 },
+    ])
+  })
+
+  it('writes one CSV row per bib label, quoting where needed', () => {
+    const csv = TrainingDataset.toOcrCsv([
+      bib(),
+      bib({ bibId: 'b-2', origin: 'reviewer', predicted: null, bbox: null, cropPath: 'a,"b"' }),
+    ])
+
+    expect(csv.split('\n')).toEqual([
+      'bib_id,photo_id,image,crop_path,bbox,predicted,digits,origin,labelled_at,ocr_model',
+      'b-1,p-1,events/e-1/photos/a.jpg,events/e-1/photos/p-1/crops/bibs/0.jpg,0.1 0.2 0.3 0.4,147,142,correction,2026-10-04T10:00:00.000Z,parseq-2',
+      'b-2,p-1,events/e-1/photos/a.jpg,"a,""b""",,,142,reviewer,2026-10-04T10:00:00.000Z,parseq-2',
+      '',
+    ])
+  })
+
+  it('builds COCO boxes in pixels and keeps unboxed labels on their image', () => {
+    const coco = TrainingDataset.toCoco([bib()], [color()], info)
+
+    expect(coco.info).toMatchObject({ version: 'v3', event_id: 'e-1' })
+    expect(coco.images).toHaveLength(1)
+    expect(coco.annotations).toEqual([
+      {
+        id: 1,
+        image_id: 1,
+        category_id: 1,
+        bbox: [100, 100, 200, 100],
+        area: 20000,
+        iscrowd: 0,
+        attributes: {
+          digits: '142',
+          predicted: '147',
+          origin: 'correction',
+          crop_path: 'events/e-1/photos/p-1/crops/bibs/0.jpg',
+        },
+      },
+    ])
+    expect(coco.images[0].labels).toEqual([
+      {
+        category_id: 2,
+        attributes: expect.objectContaining({ primary_color: 'rojo', origin: 'reviewer' }),
+      },
+    ])
+  })
+
+  it('cannot place a box on a photo of unknown size', () => {
+    const coco = TrainingDataset.toCoco(
+      [bib({ image: { ...image, width: null, height: null } })],
+      [],
+      info,
+    )
+
+    expect(coco.annotations).toEqual([])
+    expect(coco.images[0].labels).toHaveLength(1)
+  })
+})
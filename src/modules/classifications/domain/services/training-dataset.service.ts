@@ -0,0 +1,209 @@
+import type { ColorRegion } from '@generated/prisma/client'
+import type { BibLabel, ColorLabel, LabelBox, LabelledImage, ModelVersionsCount } from '../ports'
+
+/** What the dataset was built from, written into the COCO `info` block. */
+export interface DatasetInfo {
+  version: number
+  eventId: string | null
+  labelledFrom: Date | null
+  labelledTo: Date | null
+  createdAt: Date
+  modelVersions: ModelVersionsCount[]
+}
+
+export interface CocoAnnotation {
+  id: number
+  image_id: number
+  category_id: number
+  /** Pixels, [x, y, width, height]. */
+  bbox: [number, number, number, number]
+  area: number
+  iscrowd: 0
+  attributes: Record<string, string | null>
+}
+
+/** An attribute labelled on the photo as a whole, for lack of a box to place it. */
+export interface CocoImageLabel {
+  category_id: number
+  attributes: Record<string, string | null>
+}
+
+export interface CocoImage {
+  id: number
+  file_name: string
+  width: number | null
+  height: number | null
+  photo_id: string
+  labels: CocoImageLabel[]
+}
+
+export interface CocoDataset {
+  info: Record<string, unknown>
+  images: CocoImage[]
+  annotations: CocoAnnotation[]
+  categories: Array<{ id: number; name: string; supercategory: string }>
+}
+
+const CATEGORIES: Array<{ id: number; name: 'bib' | ColorRegion; supercategory: string }> = [
+  { id: 1, name: 'bib', supercategory: 'ocr' },
+  { id: 2, name: 'helmet', supercategory: 'color' },
+  { id: 3, name: 'cyclist_clothes', supercategory: 'color' },
+  { id: 4, name: 'bicycle', supercategory: 'color' },
+]
+
+const OCR_COLUMNS = [
+  'bib_id',
+  'photo_id',
+  'image',
+  'crop_path',
+  'bbox',
+  'predicted',
+  'digits',
+  'origin',
+  'labelled_at',
+  'ocr_model',
+] as const
+
+const categoryId = (name: 'bib' | ColorRegion): number =>
+  (CATEGORIES.find((c) => c.name === name) as (typeof CATEGORIES)[number]).id
+
+const csvField = (value: string | null): string => {
+  if (value === null) return ''
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100
+
+/** The box in pixels; null when it or the photo size is unknown. */
+function toPixels(
+  box: LabelBox | null,
+  image: LabelledImage,
+): [number, number, number, number] | null {
+  if (!box || !image.width || !image.height) return null
+  const [x1, y1, x2, y2] = box
+  return [
+    round(x1 * image.width),
+    round(y1 * image.height),
+    round((x2 - x1) * image.width),
+    round((y2 - y1) * image.height),
+  ]
+}
+
+export const TrainingDataset = {
+  /** Storage keys of the dataset files; a version's files are never overwritten. */
+  keysFor(version: number): { ocrKey: string; detectionsKey: string } {
+    const prefix = `datasets/training/v${version}`
+    return { ocrKey: `${prefix}/ocr.csv`, detectionsKey: `${prefix}/detections.json` }
+  },
+
+  /** Distinct model version sets behind the corrected predictions, most labels first. */
+  modelVersions(labels: Array<Pick<BibLabel, 'modelVersions'>>): ModelVersionsCount[] {
+    const counts = new Map<string, ModelVersionsCount>()
+    for (const { modelVersions } of labels) {
+      if (!modelVersions) continue
+      const versions = Object.fromEntries(
+        Object.entries(modelVersions).sort(([a], [b]) => a.localeCompare(b)),
+      )
+      const key = JSON.stringify(versions)
+      const current = counts.get(key) ?? { versions, labels: 0 }
+      counts.set(key, { ...current, labels: current.labels + 1 })
+    }
+    return [...counts.values()].sort((a, b) => b.labels - a.labels)
+  },
+
+  /** One row per bib label, with the OCR model that read it. */
+  toOcrCsv(labels: BibLabel[]): string {
+    const rows = labels.map((label) =>
+      [
+        label.bibId,
+        label.image.photoId,
+        label.image.storageKey,
+        label.cropPath,
+        label.bbox ? label.bbox.join(' ') : null,
+        label.predicted,
+        label.digits,
+        label.origin,
+        label.labelledAt.toISOString(),
+        label.modelVersions?.ocr ?? null,
+      ]
+        .map(csvField)
+        .join(','),
+    )
+    return `${[OCR_COLUMNS.join(','), ...rows].join('\n')}\n`
+  },
+
+  /**
+   * COCO detection dataset: bibs and color regions as boxes in pixels, with the labelled
+   * values as attributes. A label without a box, or on a photo of unknown size, is kept
+   * on its image under `labels`.
+   */
+  toCoco(bibs: BibLabel[], colors: ColorLabel[], info: DatasetInfo): CocoDataset {
+    const images = new Map<string, CocoImage>()
+    const annotations: CocoAnnotation[] = []
+
+    const place = (
+      label: BibLabel | ColorLabel,
+      category: number,
+      attributes: Record<string, string | null>,
+    ): void => {
+      const image = images.get(label.image.photoId) ?? {
+        id: images.size + 1,
+        file_name: label.image.storageKey,
+        width: label.image.width,
+        height: label.image.height,
+        photo_id: label.image.photoId,
+        labels: [],
+      }
+      images.set(label.image.photoId, image)
+
+      const bbox = toPixels(label.bbox, label.image)
+      if (!bbox) {
+        image.labels.push({ category_id: category, attributes })
+        return
+      }
+      annotations.push({
+        id: annotations.length + 1,
+        image_id: image.id,
+        category_id: category,
+        bbox,
+        area: round(bbox[2] * bbox[3]),
+        iscrowd: 0,
+        attributes,
+      })
+    }
+
+    for (const bib of bibs) {
+      place(bib, categoryId('bib'), {
+        digits: bib.digits,
+        predicted: bib.predicted,
+        origin: bib.origin,
+        crop_path: bib.cropPath,
+      })
+    }
+    for (const color of colors) {
+      place(color, categoryId(color.region), {
+        primary_color: color.primaryColor,
+        secondary_color: color.secondaryColor,
+        predicted_primary_color: color.predicted?.primary ?? null,
+        predicted_secondary_color: color.predicted?.secondary ?? null,
+        origin: color.origin,
+        crop_path: color.cropPath,
+      })
+    }
+
+    return {
+      info: {
+        description: 'Reviewer labels',
+        version: `v${info.version}`,
+        date_created: info.createdAt.toISOString(),
+        event_id: info.eventId,
+        labelled_from: info.labelledFrom?.toISOString() ?? null,
+        labelled_to: info.labelledTo?.toISOString() ?? null,
+        model_versions: info.modelVersions,
+      },
+      images: [...images.values()],
+      annotations,
+      categories: CATEGORIES,
+    }
+  },
+}
@@ -1,7 +1,10 @@
 import { AttributeSource, ProcessingStageName } from '@generated/prisma/client'
+import type { EventBibRegistry } from '@participants/domain/ports'
 import type { ClassificationPipelineResponse } from '@shared/ai-pipeline/domain/ports'
 import { PipelineResponseMapper } from './pipeline-response.mapper'
 
+const noRegistry: EventBibRegistry = { startList: null, range: null }
+
 const sampleResponse: ClassificationPipelineResponse = {
   schemaVersion: '1.0',
   imageId: 'photo-1',
@@ -69,6 +72,7 @@ describe('PipelineResponseMapper', () => {
       sampleResponse,
       startedAt,
       completedAt,
+      noRegistry,
     )
 
     expect(input.photoId).toBe('photo-1')
@@ -89,6 +93,7 @@ describe('PipelineResponseMapper', () => {
       sampleResponse,
       new Date(),
       new Date(),
+      noRegistry,
     )
     const detection = input.stages.find((s) => s.stage === ProcessingStageName.detection)
     const ocr = input.stages.find((s) => s.stage === ProcessingStageName.ocr)
@@ -104,6 +109,7 @@ describe('PipelineResponseMapper', () => {
       sampleResponse,
       new Date(),
       new Date(),
+      noRegistry,
     )
     expect(input.bibs[0].source).toBe(AttributeSource.ai)
     expect(input.bibs[0].processingMs).toBe(287)
@@ -116,6 +122,7 @@ describe('PipelineResponseMapper', () => {
       sampleResponse,
       new Date(),
       new Date(),
+      noRegistry,
     )
     expect(input.colors[0].source).toBe(AttributeSource.ai)
     expect(input.colors[0].region).toBe('helmet')
@@ -155,7 +162,13 @@ describe('PipelineResponseMapper', () => {
         },
       ],
     }
-    const input = PipelineResponseMapper.toPersistInput('photo-1', empty, new Date(), new Date())
+    const input = PipelineResponseMapper.toPersistInput(
+      'photo-1',
+      empty,
+      new Date(),
+      new Date(),
+      noRegistry,
+    )
     expect(input.detections).toEqual([])
     expect(input.bibs).toEqual([])
     expect(input.colors).toEqual([])
@@ -174,6 +187,7 @@ describe('PipelineResponseMapper', () => {
       responseWithCrop,
       new Date(),
       new Date(),
+      noRegistry,
     )
     expect(input.bibs[0].cropPath).toBe('events/e/photos/p/crops/bibs/0.jpg')
   })
@@ -184,6 +198,7 @@ describe('PipelineResponseMapper', () => {
       sampleResponse,
       new Date(),
       new Date(),
+      noRegistry,
     )
     expect(input.bibs[0].cropPath).toBeNull()
   })
@@ -203,6 +218,7 @@ describe('PipelineResponseMapper', () => {
       responseWithCrop,
       new Date(),
       new Date(),
+      noRegistry,
     )
     expect(input.colors[0].cropPath).toBe('events/e/photos/p/crops/colors/helmet/0.jpg')
   })
@@ -213,6 +229,7 @@ describe('PipelineResponseMapper', () => {
       sampleResponse,
       new Date(),
       new Date(),
+      noRegistry,
     )
     expect(input.colors[0].cropPath).toBeNull()
   })
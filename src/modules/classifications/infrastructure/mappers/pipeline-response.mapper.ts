@@ -1,23 +1,50 @@
 import { AttributeSource, ProcessingStageName } from '@generated/prisma/client'
+import type { EventBibRegistry } from '@participants/domain/ports'
 import type {
   ClassificationPipelineResponse,
   StageTimingsDto,
 } from '@shared/ai-pipeline/domain/ports'
 import type {
-  PersistBibInput,
+  PersistBibReadingInput,
   PersistColorInput,
   PersistDetectionInput,
   PersistResultInput,
   PersistStageInput,
 } from '../../domain/ports'
+import { BibReconciliation } from '../../domain/services/bib-reconciliation.service'
 
 export class PipelineResponseMapper {
+  /** Bib readings are reconciled into one bib per rider, checked against `registry`. */
   static toPersistInput(
     photoId: string,
     response: ClassificationPipelineResponse,
     startedAt: Date,
     completedAt: Date,
+    registry: EventBibRegistry,
   ): PersistResultInput {
+    const detections = response.detections.map(
+      (d): PersistDetectionInput => ({
+        className: d.className,
+        classId: d.classId,
+        confidence: d.confidence,
+        bbox: d.bbox,
+      }),
+    )
+    const readings = response.bibReadings.map(
+      (b): PersistBibReadingInput => ({
+        digits: b.digits,
+        confidence: b.confidence,
+        confidencePerDigit: b.confidencePerDigit,
+        status: b.status,
+        rejectionReason: b.rejectionReason,
+        rawOcrText: b.rawOcrText,
+        bboxSource: b.bboxSource,
+        preprocessingApplied: b.preprocessingApplied,
+        processingMs: b.processingMs,
+        cropPath: b.cropPath,
+      }),
+    )
+
     return {
       photoId,
       processing: {
@@ -38,29 +65,8 @@ export class PipelineResponseMapper {
           notes: s.notes,
         }),
       ),
-      detections: response.detections.map(
-        (d): PersistDetectionInput => ({
-          className: d.className,
-          classId: d.classId,
-          confidence: d.confidence,
-          bbox: d.bbox,
-        }),
-      ),
-      bibs: response.bibReadings.map(
-        (b): PersistBibInput => ({
-          source: AttributeSource.ai,
-          digits: b.digits,
-          confidence: b.confidence,
-          confidencePerDigit: b.confidencePerDigit,
-          status: b.status,
-          rejectionReason: b.rejectionReason,
-          rawOcrText: b.rawOcrText,
-          bboxSource: b.bboxSource,
-          preprocessingApplied: b.preprocessingApplied,
-          processingMs: b.processingMs,
-          cropPath: b.cropPath,
-        }),
-      ),
+      detections,
+      bibs: BibReconciliation.reconcile(detections, readings, registry),
       colors: response.colorAnalyses.map(
         (c): PersistColorInput => ({
           source: AttributeSource.ai,
@@ -0,0 +1,184 @@
+import { type ColorRegion, Prisma, type ProcessingStageName } from '@generated/prisma/client'
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '@shared/infrastructure'
+import type {
+  BibOutcomeCounts,
+  ColorOutcomeCounts,
+  IModelQualityReadRepository,
+  LatencyBucket,
+  ModelQualityFilters,
+  StageLatencyRow,
+} from '../../domain/ports'
+
+interface OutcomeRow {
+  accepted: number
+  corrected: number
+  deleted: number
+  pending: number
+}
+
+interface BibOutcomeRow extends OutcomeRow {
+  event_id: string
+  event_name: string
+  model_versions: Prisma.JsonValue
+  abstained: number
+}
+
+interface ColorOutcomeRow extends OutcomeRow {
+  region: ColorRegion
+}
+
+interface StageLatencySqlRow {
+  period_start: Date
+  stage: ProcessingStageName
+  runs: number
+  p50_ms: number
+  p90_ms: number
+  p99_ms: number
+  items_processed: number
+  items_failed: number
+}
+
+/** Classifications of the event's photos, started within the window. */
+function scopeSql(filters: ModelQualityFilters): Prisma.Sql {
+  const conditions: Prisma.Sql[] = []
+  if (filters.eventId) conditions.push(Prisma.sql`p.event_id = ${filters.eventId}::uuid`)
+  if (filters.from) conditions.push(Prisma.sql`pp.started_at >= ${filters.from}`)
+  if (filters.to) conditions.push(Prisma.sql`pp.started_at <= ${filters.to}`)
+  return conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty
+}
+
+/**
+ * What became of one prediction. A deletion beats a correction, and a correction counts only
+ * when the value it left differs from the prediction.
+ */
+function outcomeSql(deletedAt: Prisma.Sql, corrected: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`CASE
+    WHEN ${deletedAt} IS NOT NULL THEN 'deleted'
+    WHEN ${corrected} THEN 'corrected'
+    WHEN p.reviewed_at IS NOT NULL THEN 'accepted'
+    ELSE 'pending'
+  END`
+}
+
+const OUTCOME_COUNTS_SQL = Prisma.sql`
+  COUNT(*) FILTER (WHERE t.outcome = 'accepted')::int AS accepted,
+  COUNT(*) FILTER (WHERE t.outcome = 'corrected')::int AS corrected,
+  COUNT(*) FILTER (WHERE t.outcome = 'deleted')::int AS deleted,
+  COUNT(*) FILTER (WHERE t.outcome = 'pending')::int AS pending
+`
+
+@Injectable()
+export class ModelQualityReadRepository implements IModelQualityReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async countBibOutcomes(filters: ModelQualityFilters): Promise<BibOutcomeCounts[]> {
+    const corrected = Prisma.sql`latest.corrected_at IS NOT NULL
+      AND latest.new_value IS DISTINCT FROM pb.digits`
+    const rows = await this.prisma.$queryRaw<BibOutcomeRow[]>(Prisma.sql`
+      SELECT t.event_id, e.name AS event_name, t.model_versions,
+        COUNT(*) FILTER (WHERE t.outcome = 'abstained')::int AS abstained,
+        ${OUTCOME_COUNTS_SQL}
+      FROM (
+        SELECT p.event_id, pp.model_versions,
+          CASE WHEN pb.status = 'abstained' THEN 'abstained'
+            ELSE ${outcomeSql(Prisma.sql`pb.deleted_at`, corrected)} END AS outcome
+        FROM photo_bibs pb
+        JOIN photo_processings pp ON pp.id = pb.photo_processing_id
+        JOIN photos p ON p.id = pb.photo_id
+        LEFT JOIN LATERAL (
+          SELECT new_value, corrected_at
+          FROM corrections
+          WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+          ORDER BY corrected_at DESC LIMIT 1
+        ) latest ON TRUE
+        WHERE pb.source = 'ai' ${scopeSql(filters)}
+      ) t
+      JOIN events e ON e.id = t.event_id
+      GROUP BY t.event_id, e.name, t.model_versions
+      ORDER BY e.name, t.event_id
+    `)
+
+    return rows.map((row) => ({
+      eventId: row.event_id,
+      eventName: row.event_name,
+      modelVersions: (row.model_versions ?? {}) as Record<string, string>,
+      abstained: row.abstained,
+      accepted: row.accepted,
+      corrected: row.corrected,
+      deleted: row.deleted,
+      pending: row.pending,
+    }))
+  }
+
+  async countColorOutcomes(filters: ModelQualityFilters): Promise<ColorOutcomeCounts[]> {
+    const corrected = Prisma.sql`(lp.corrected_at IS NOT NULL
+        AND lp.new_value IS DISTINCT FROM pc.primary_color)
+      OR (ls.corrected_at IS NOT NULL AND ls.new_value IS DISTINCT FROM pc.secondary_color)`
+    const rows = await this.prisma.$queryRaw<ColorOutcomeRow[]>(Prisma.sql`
+      SELECT t.region, ${OUTCOME_COUNTS_SQL}
+      FROM (
+        SELECT pc.region, ${outcomeSql(Prisma.sql`pc.deleted_at`, corrected)} AS outcome
+        FROM photo_colors pc
+        JOIN photo_processings pp ON pp.id = pc.photo_processing_id
+        JOIN photos p ON p.id = pc.photo_id
+        LEFT JOIN LATERAL (
+          SELECT new_value, corrected_at
+          FROM corrections
+          WHERE target_type = 'photo_color' AND target_id = pc.id AND field = 'primary_color'
+          ORDER BY corrected_at DESC LIMIT 1
+        ) lp ON TRUE
+        LEFT JOIN LATERAL (
+          SELECT new_value, corrected_at
+          FROM corrections
+          WHERE target_type = 'photo_color' AND target_id = pc.id AND field = 'secondary_color'
+          ORDER BY corrected_at DESC LIMIT 1
+        ) ls ON TRUE
+        WHERE pc.source = 'ai' ${scopeSql(filters)}
+      ) t
+      GROUP BY t.region
+      ORDER BY t.region
+    `)
+
+    return rows.map((row) => ({
+      region: row.region,
+      accepted: row.accepted,
+      corrected: row.corrected,
+      deleted: row.deleted,
+      pending: row.pending,
+    }))
+  }
+
+  async findStageLatency(
+    filters: ModelQualityFilters,
+    bucket: LatencyBucket,
+  ): Promise<StageLatencyRow[]> {
+    // Skipped stages did no work, so their timings would drag the percentiles down
+    const rows = await this.prisma.$queryRaw<StageLatencySqlRow[]>(Prisma.sql`
+      SELECT date_trunc(${bucket}, pp.started_at) AS period_start, s.stage,
+        COUNT(*)::int AS runs,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY s.ms) AS p50_ms,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY s.ms) AS p90_ms,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY s.ms) AS p99_ms,
+        SUM(s.items_processed)::int AS items_processed,
+        SUM(s.items_failed)::int AS items_failed
+      FROM photo_processing_stages s
+      JOIN photo_processings pp ON pp.id = s.photo_processing_id
+      JOIN photos p ON p.id = pp.photo_id
+      WHERE s.status <> 'skipped' ${scopeSql(filters)}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    `)
+
+    return rows.map((row) => ({
+      periodStart: row.period_start,
+      stage: row.stage,
+      runs: row.runs,
+      p50Ms: Math.round(row.p50_ms),
+      p90Ms: Math.round(row.p90_ms),
+      p99Ms: Math.round(row.p99_ms),
+      itemsProcessed: row.items_processed,
+      itemsFailed: row.items_failed,
+    }))
+  }
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from 'node:crypto'
 import { ProcessingStatus } from '@generated/prisma/client'
 import { Injectable } from '@nestjs/common'
 import { PrismaService } from '@shared/infrastructure/prisma/prisma.service'
@@ -41,9 +42,12 @@ export class PhotoClassificationWriteRepository implements IPhotoClassificationW
         })
       }
 
+      // Ids are set here so each bib can point at the rider it was read on
+      const detectionIds = input.detections.map(() => randomUUID())
       if (input.detections.length > 0) {
         await tx.photoDetection.createMany({
-          data: input.detections.map((d) => ({
+          data: input.detections.map((d, i) => ({
+            id: detectionIds[i],
             photo_id: input.photoId,
             photo_processing_id: processing.id,
             class_name: d.className,
@@ -54,9 +58,11 @@ export class PhotoClassificationWriteRepository implements IPhotoClassificationW
         })
       }
 
+      const bibIds = input.bibs.map(() => randomUUID())
       if (input.bibs.length > 0) {
         await tx.photoBib.createMany({
-          data: input.bibs.map((b) => ({
+          data: input.bibs.map((b, i) => ({
+            id: bibIds[i],
             photo_id: input.photoId,
             photo_processing_id: processing.id,
             source: b.source,
@@ -70,10 +76,30 @@ export class PhotoClassificationWriteRepository implements IPhotoClassificationW
             preprocessing_applied: b.preprocessingApplied ?? undefined,
             processing_ms: b.processingMs,
             crop_path: b.cropPath,
+            detection_id: b.detectionIndex !== null ? detectionIds[b.detectionIndex] : null,
           })),
         })
       }
 
+      const readings = input.bibs.flatMap((b, i) =>
+        b.readings.map((r) => ({
+          photo_bib_id: bibIds[i],
+          digits: r.digits,
+          confidence: r.confidence,
+          confidence_per_digit: r.confidencePerDigit ?? undefined,
+          status: r.status,
+          rejection_reason: r.rejectionReason,
+          raw_ocr_text: r.rawOcrText,
+          bbox_source: r.bboxSource ?? undefined,
+          preprocessing_applied: r.preprocessingApplied ?? undefined,
+          processing_ms: r.processingMs,
+          crop_path: r.cropPath,
+        })),
+      )
+      if (readings.length > 0) {
+        await tx.photoBibReading.createMany({ data: readings })
+      }
+
       if (input.colors.length > 0) {
         await tx.photoColor.createMany({
           data: input.colors.map((c) => ({
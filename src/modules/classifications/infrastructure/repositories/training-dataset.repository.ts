@@ -0,0 +1,182 @@
+import { type ColorRegion, Prisma } from '@generated/prisma/client'
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '@shared/infrastructure'
+import type {
+  BibLabel,
+  ColorLabel,
+  ITrainingDatasetRepository,
+  LabelBox,
+  LabelledImage,
+  TrainingDatasetRecord,
+  TrainingLabelFilters,
+} from '../../domain/ports'
+
+interface ImageRow {
+  photo_id: string
+  storage_key: string
+  width: number | null
+  height: number | null
+}
+
+interface LabelRow extends ImageRow {
+  source: 'ai' | 'reviewer' | 'burst'
+  bbox_source: Prisma.JsonValue
+  crop_path: string | null
+  labelled_at: Date
+  model_versions: Prisma.JsonValue
+}
+
+interface BibRow extends LabelRow {
+  id: string
+  digits: string
+  corrected_digits: string | null
+}
+
+interface ColorRow extends LabelRow {
+  id: string
+  region: ColorRegion
+  primary_color: string
+  secondary_color: string | null
+  corrected_primary: string | null
+  primary_corrected: boolean
+  corrected_secondary: string | null
+  secondary_corrected: boolean
+}
+
+const toImage = (row: ImageRow): LabelledImage => ({
+  photoId: row.photo_id,
+  storageKey: row.storage_key,
+  width: row.width,
+  height: row.height,
+})
+
+/** Labels were made in the window, on photos of the event when one is given. */
+function labelScopeSql(filters: TrainingLabelFilters, labelledAt: Prisma.Sql): Prisma.Sql {
+  const conditions: Prisma.Sql[] = []
+  if (filters.eventId) conditions.push(Prisma.sql`p.event_id = ${filters.eventId}::uuid`)
+  if (filters.from) conditions.push(Prisma.sql`${labelledAt} >= ${filters.from}`)
+  if (filters.to) conditions.push(Prisma.sql`${labelledAt} <= ${filters.to}`)
+  return conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty
+}
+
+@Injectable()
+export class TrainingDatasetRepository implements ITrainingDatasetRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findBibLabels(filters: TrainingLabelFilters): Promise<BibLabel[]> {
+    const labelledAt = Prisma.sql`COALESCE(latest.corrected_at, pb.created_at)`
+    const rows = await this.prisma.$queryRaw<BibRow[]>(Prisma.sql`
+      SELECT pb.id, pb.photo_id, p.storage_key, p.width, p.height, pb.source, pb.bbox_source,
+        pb.crop_path, pb.digits, latest.new_value AS corrected_digits,
+        ${labelledAt} AS labelled_at, pp.model_versions
+      FROM photo_bibs pb
+      JOIN photos p ON p.id = pb.photo_id
+      LEFT JOIN photo_processings pp ON pp.id = pb.photo_processing_id
+      LEFT JOIN LATERAL (
+        SELECT new_value, corrected_at
+        FROM corrections
+        WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) latest ON TRUE
+      WHERE pb.deleted_at IS NULL
+        AND (pb.source = 'reviewer' OR latest.corrected_at IS NOT NULL)
+        ${labelScopeSql(filters, labelledAt)}
+      ORDER BY ${labelledAt}, pb.id
+    `)
+
+    return rows
+      .map((row) => {
+        const digits = row.corrected_digits ?? row.digits
+        const corrected = row.corrected_digits !== null && row.source !== 'reviewer'
+        return {
+          bibId: row.id,
+          image: toImage(row),
+          origin: corrected ? ('correction' as const) : ('reviewer' as const),
+          bbox: (row.bbox_source as LabelBox | null) ?? null,
+          cropPath: row.crop_path,
+          labelledAt: row.labelled_at,
+          modelVersions: corrected ? (row.model_versions as Record<string, string> | null) : null,
+          predicted: corrected ? row.digits : null,
+          digits,
+        }
+      })
+      .filter((label) => label.digits !== '')
+  }
+
+  async findColorLabels(filters: TrainingLabelFilters): Promise<ColorLabel[]> {
+    const labelledAt = Prisma.sql`COALESCE(GREATEST(lp.corrected_at, ls.corrected_at), pc.created_at)`
+    const rows = await this.prisma.$queryRaw<ColorRow[]>(Prisma.sql`
+      SELECT pc.id, pc.photo_id, p.storage_key, p.width, p.height, pc.source, pc.bbox_source,
+        pc.crop_path, pc.region, pc.primary_color, pc.secondary_color,
+        lp.new_value AS corrected_primary, lp.corrected_at IS NOT NULL AS primary_corrected,
+        ls.new_value AS corrected_secondary, ls.corrected_at IS NOT NULL AS secondary_corrected,
+        ${labelledAt} AS labelled_at, pp.model_versions
+      FROM photo_colors pc
+      JOIN photos p ON p.id = pc.photo_id
+      LEFT JOIN photo_processings pp ON pp.id = pc.photo_processing_id
+      LEFT JOIN LATERAL (
+        SELECT new_value, corrected_at
+        FROM corrections
+        WHERE target_type = 'photo_color' AND target_id = pc.id AND field = 'primary_color'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) lp ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT new_value, corrected_at
+        FROM corrections
+        WHERE target_type = 'photo_color' AND target_id = pc.id AND field = 'secondary_color'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) ls ON TRUE
+      WHERE pc.deleted_at IS NULL
+        AND (pc.source = 'reviewer' OR lp.corrected_at IS NOT NULL OR ls.corrected_at IS NOT NULL)
+        ${labelScopeSql(filters, labelledAt)}
+      ORDER BY ${labelledAt}, pc.id
+    `)
+
+    return rows
+      .map((row) => {
+        const corrected = row.source !== 'reviewer'
+        return {
+          colorId: row.id,
+          image: toImage(row),
+          origin: corrected ? ('correction' as const) : ('reviewer' as const),
+          bbox: (row.bbox_source as LabelBox | null) ?? null,
+          cropPath: row.crop_path,
+          labelledAt: row.labelled_at,
+          modelVersions: corrected ? (row.model_versions as Record<string, string> | null) : null,
+          region: row.region,
+          predicted: corrected
+            ? { primary: row.primary_color, secondary: row.secondary_color }
+            : null,
+          primaryColor: row.primary_corrected ? (row.corrected_primary ?? '') : row.primary_color,
+          secondaryColor: row.secondary_corrected ? row.corrected_secondary : row.secondary_color,
+        }
+      })
+      .filter((label) => label.primaryColor !== '')
+  }
+
+  async reserveVersion(): Promise<number> {
+    const [row] = await this.prisma.$queryRaw<[{ version: bigint }]>`
+      SELECT nextval(pg_get_serial_sequence('training_dataset_exports', 'version')) AS version
+    `
+    return Number(row.version)
+  }
+
+  async create(record: TrainingDatasetRecord): Promise<{ id: string }> {
+    const row = await this.prisma.trainingDatasetExport.create({
+      data: {
+        version: record.version,
+        event_id: record.eventId,
+        labelled_from: record.labelledFrom,
+        labelled_to: record.labelledTo,
+        bib_labels: record.bibLabels,
+        color_labels: record.colorLabels,
+        model_versions: record.modelVersions as unknown as Prisma.InputJsonValue,
+        ocr_key: record.ocrKey,
+        detections_key: record.detectionsKey,
+        created_by_id: record.createdById,
+      },
+      select: { id: true },
+    })
+    return { id: row.id }
+  }
+}
@@ -24,6 +24,11 @@ describe('CropUploadUrlsService', () => {
       getPresignedDownloadUrl: jest.fn(),
       getPublicUrl: jest.fn(),
       delete: jest.fn(),
+      createMultipartUpload: jest.fn(),
+      getPresignedPartUrl: jest.fn(),
+      listUploadedParts: jest.fn(),
+      completeMultipartUpload: jest.fn(),
+      abortMultipartUpload: jest.fn(),
     }
 
     const moduleRef = await Test.createTestingModule({
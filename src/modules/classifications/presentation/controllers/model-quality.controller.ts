@@ -0,0 +1,40 @@
+import { Controller, Get, Query } from '@nestjs/common'
+import { QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger'
+import { Roles } from '@shared/auth'
+import { ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+import { ModelQualityProjection } from '../../application/projections'
+import { GetModelQualityDto, GetModelQualityQuery } from '../../application/queries'
+
+/**
+ * Admin dashboard of how the AI pipeline performs, so a new model version can be compared
+ * with the one it replaces.
+ */
+@ApiTags('model-quality')
+@ApiBearerAuth()
+@Controller('admin/model-quality')
+export class ModelQualityController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Roles('admin')
+  @Get()
+  @SuccessMessage('success.FETCHED', { entity: 'entities.model_quality' })
+  @ApiOperation({
+    summary: 'OCR precision, color accuracy, abstention rate and stage latency of the pipeline',
+  })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Model-quality figures retrieved',
+    type: ModelQualityProjection,
+  })
+  getModelQuality(@Query() dto: GetModelQualityDto) {
+    return this.queryBus.execute(
+      new GetModelQualityQuery(
+        dto.eventId ?? null,
+        dto.from ?? null,
+        dto.to ?? null,
+        dto.bucket ?? 'day',
+      ),
+    )
+  }
+}
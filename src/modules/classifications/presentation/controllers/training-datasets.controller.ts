@@ -0,0 +1,44 @@
+import { Body, Controller, Post } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger'
+import { AuditContext } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+import { ExportTrainingDatasetCommand } from '../../application/commands/export-training-dataset/export-training-dataset.command'
+import { ExportTrainingDatasetDto } from '../../application/commands/export-training-dataset/export-training-dataset.dto'
+import { TrainingDatasetProjection } from '../../application/projections'
+
+/**
+ * Admin endpoints that turn reviewer corrections into training data for the AI pipeline.
+ */
+@ApiTags('training-datasets')
+@ApiBearerAuth()
+@Controller('admin/training-datasets')
+export class TrainingDatasetsController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Roles('admin')
+  @Post()
+  @SuccessMessage('success.CREATED', { entity: 'entities.training_dataset' })
+  @ApiOperation({ summary: 'Export reviewer labels as a new training dataset version' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Dataset written to storage',
+    type: TrainingDatasetProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  @ApiEnvelopeErrorResponse({
+    status: 422,
+    description: 'Invalid date range, or no labels in the selection',
+  })
+  export(@Body() dto: ExportTrainingDatasetDto, @CurrentUser() user: ICurrentUser) {
+    return this.commandBus.execute(
+      new ExportTrainingDatasetCommand(
+        dto.eventId ?? null,
+        dto.from ?? null,
+        dto.to ?? null,
+        new AuditContext(user.userId),
+      ),
+    )
+  }
+}
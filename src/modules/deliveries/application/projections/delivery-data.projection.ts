@@ -24,6 +24,8 @@ export class DeliveryDataProjection {
   downloadCount: number
   /** Photos with presigned download URLs */
   photos: DeliveryPhotoProjection[]
+  /** Presigned download URL of the order receipt PDF (null until it is issued) */
+  invoiceUrl: string | null
 }
 
 /** Internal type returned by the repository (includes storageKey for presigned URL generation). */
@@ -34,6 +36,7 @@ export type DeliveryPhotoRaw = {
   fileSize: number
 }
 
-export type DeliveryDataRaw = Omit<DeliveryDataProjection, 'photos'> & {
+export type DeliveryDataRaw = Omit<DeliveryDataProjection, 'photos' | 'invoiceUrl'> & {
   photos: DeliveryPhotoRaw[]
+  invoiceStorageKey: string | null
 }
@@ -68,6 +68,15 @@ export class GetDeliveryByTokenHandler implements IQueryHandler<GetDeliveryByTok
       }),
     )
 
+    // Absent when issuing the receipt failed; an admin can issue it again.
+    const invoiceUrl = data.invoiceStorageKey
+      ? await this.storage.getPresignedDownloadUrl({
+          key: data.invoiceStorageKey,
+          filename: 'recibo.pdf',
+          expiresIn: PRESIGNED_URL_EXPIRY_SECONDS,
+        })
+      : null
+
     return {
       token: data.token,
       eventName: data.eventName,
@@ -76,6 +85,7 @@ export class GetDeliveryByTokenHandler implements IQueryHandler<GetDeliveryByTok
       expiresAt: data.expiresAt,
       downloadCount: data.downloadCount,
       photos,
+      invoiceUrl,
     }
   }
 }
@@ -31,6 +31,7 @@ export class DeliveryLinkReadRepository implements IDeliveryLinkReadRepository {
             event: { select: { name: true } },
             snap_first_name: true,
             snap_last_name: true,
+            invoice: { select: { storage_key: true } },
             items: {
               select: {
                 photo: {
@@ -60,6 +61,7 @@ export class DeliveryLinkReadRepository implements IDeliveryLinkReadRepository {
       status: record.status,
       expiresAt: record.expires_at,
       downloadCount: record.download_count,
+      invoiceStorageKey: record.order.invoice?.storage_key ?? null,
       photos: record.order.items.map((oi) => ({
         id: oi.photo.id,
         filename: oi.photo.filename,
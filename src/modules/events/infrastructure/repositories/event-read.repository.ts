@@ -329,8 +329,9 @@ export class EventReadRepository implements IEventReadRepository {
 
   /**
    * Returns photo ids for the given event whose effective (latest-correction)
-   * bib digits match. Skips soft-deleted bibs. A correction with `new_value = NULL`
-   * is honored — the row will NOT match (we use CASE, not COALESCE).
+   * bib digits match. Skips soft-deleted bibs and burst suggestions nobody accepted
+   * yet. A correction with `new_value = NULL` is honored — the row will NOT match
+   * (we use CASE, not COALESCE).
    */
   private async findMatchingBibPhotoIds(
     eventId: string,
@@ -354,6 +355,7 @@ export class EventReadRepository implements IEventReadRepository {
               ORDER BY corrected_at DESC LIMIT 1
             ) latest ON TRUE
             WHERE pb.deleted_at IS NULL
+              AND pb.source <> 'burst'
               AND LOWER(
                 CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pb.digits END
               ) = LOWER(${value})
@@ -369,6 +371,7 @@ export class EventReadRepository implements IEventReadRepository {
               ORDER BY corrected_at DESC LIMIT 1
             ) latest ON TRUE
             WHERE pb.deleted_at IS NULL
+              AND pb.source <> 'burst'
               AND (
                 CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pb.digits END
               ) ILIKE ${pattern} ESCAPE '\\'
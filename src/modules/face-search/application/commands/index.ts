@@ -0,0 +1,4 @@
+export { MatchSelfieSearchCommand } from './match-selfie-search/match-selfie-search.command'
+export { PurgeSelfieSearchCommand } from './purge-selfie-search/purge-selfie-search.command'
+export { StartSelfieSearchCommand } from './start-selfie-search/start-selfie-search.command'
+export { StartSelfieSearchDto } from './start-selfie-search/start-selfie-search.dto'
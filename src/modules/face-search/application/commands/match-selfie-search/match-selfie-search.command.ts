@@ -0,0 +1,3 @@
+export class MatchSelfieSearchCommand {
+  constructor(public readonly token: string) {}
+}
@@ -0,0 +1,128 @@
+import { SelfieSearch } from '@face-search/domain/entities'
+import type { DetectedFace } from '@shared/embeddings'
+import { MatchSelfieSearchCommand } from './match-selfie-search.command'
+import { MatchSelfieSearchHandler } from './match-selfie-search.handler'
+
+const face = (bbox: DetectedFace['bbox'], value: number): DetectedFace => ({
+  regionIndex: null,
+  bbox,
+  confidence: 0.95,
+  embedding: [value, 0, 0],
+})
+
+describe('MatchSelfieSearchHandler', () => {
+  let handler: MatchSelfieSearchHandler
+  let search: SelfieSearch
+  let searchRepo: {
+    findByToken: jest.Mock
+    save: jest.Mock
+    findMatchingPhotos: jest.Mock
+    getMatchedPhotos: jest.Mock
+  }
+  let storage: { getPresignedDownloadUrl: jest.Mock; delete: jest.Mock }
+  let faceAdapter: { embedFaces: jest.Mock }
+
+  beforeEach(() => {
+    search = SelfieSearch.create({
+      eventId: 'event-1',
+      contentType: 'image/jpeg',
+      retentionHours: 24,
+    })
+    searchRepo = {
+      findByToken: jest.fn().mockResolvedValue(search),
+      save: jest.fn(),
+      findMatchingPhotos: jest.fn().mockResolvedValue([{ photoId: 'photo-1', similarity: 0.82 }]),
+      getMatchedPhotos: jest
+        .fn()
+        .mockResolvedValue([
+          { id: 'photo-1', publicSlug: 'abc', width: 6000, height: 4000, similarity: 0.82 },
+        ]),
+    }
+    storage = {
+      getPresignedDownloadUrl: jest.fn().mockResolvedValue('https://b2/selfie?sig'),
+      delete: jest.fn().mockResolvedValue(undefined),
+    }
+    faceAdapter = { embedFaces: jest.fn() }
+
+    handler = new MatchSelfieSearchHandler(
+      searchRepo as never,
+      storage as never,
+      faceAdapter as never,
+    )
+  })
+
+  it('matches with the largest face and deletes the selfie', async () => {
+    faceAdapter.embedFaces.mockResolvedValueOnce([
+      face([0.1, 0.1, 0.2, 0.2], 1),
+      face([0.3, 0.2, 0.7, 0.8], 2),
+    ])
+
+    const result = await handler.execute(new MatchSelfieSearchCommand(search.token))
+
+    expect(searchRepo.findMatchingPhotos).toHaveBeenCalledWith(
+      'event-1',
+      [2, 0, 0],
+      expect.objectContaining({ limit: expect.any(Number) }),
+    )
+    expect(storage.delete).toHaveBeenCalledWith(search.objectKey)
+    expect(searchRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'matched',
+        matches: [{ photoId: 'photo-1', similarity: 0.82 }],
+      }),
+    )
+    expect(result.matches).toHaveLength(1)
+  })
+
+  it('deletes the selfie and fails when no face is found', async () => {
+    faceAdapter.embedFaces.mockResolvedValueOnce([])
+
+    const error = await handler.execute(new MatchSelfieSearchCommand(search.token)).catch((e) => e)
+
+    expect(error.messageKey).toBe('face_search.no_face_detected')
+    expect(storage.delete).toHaveBeenCalledWith(search.objectKey)
+    expect(searchRepo.save).not.toHaveBeenCalled()
+  })
+
+  it('keeps the selfie for a retry when matching fails', async () => {
+    faceAdapter.embedFaces.mockResolvedValueOnce([face([0.3, 0.2, 0.7, 0.8], 2)])
+    searchRepo.findMatchingPhotos.mockRejectedValueOnce(new Error('connection reset'))
+
+    await expect(handler.execute(new MatchSelfieSearchCommand(search.token))).rejects.toThrow(
+      'connection reset',
+    )
+
+    expect(storage.delete).not.toHaveBeenCalled()
+    expect(searchRepo.save).not.toHaveBeenCalled()
+  })
+
+  it('keeps the selfie for a retry when the face service fails', async () => {
+    faceAdapter.embedFaces.mockRejectedValueOnce(new Error('AI service unavailable'))
+
+    await expect(handler.execute(new MatchSelfieSearchCommand(search.token))).rejects.toThrow(
+      'AI service unavailable',
+    )
+
+    expect(storage.delete).not.toHaveBeenCalled()
+  })
+
+  it('returns the stored result of a search already matched', async () => {
+    search.recordMatches([{ photoId: 'photo-1', similarity: 0.82 }])
+
+    await handler.execute(new MatchSelfieSearchCommand(search.token))
+
+    expect(faceAdapter.embedFaces).not.toHaveBeenCalled()
+    expect(searchRepo.getMatchedPhotos).toHaveBeenCalledWith([
+      { photoId: 'photo-1', similarity: 0.82 },
+    ])
+  })
+
+  it('throws GONE once the search is purged', async () => {
+    search.purge()
+
+    const error = await handler.execute(new MatchSelfieSearchCommand(search.token)).catch((e) => e)
+
+    expect(error.httpStatus).toBe(410)
+    expect(faceAdapter.embedFaces).not.toHaveBeenCalled()
+  })
+})
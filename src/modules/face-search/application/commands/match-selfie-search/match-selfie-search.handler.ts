@@ -0,0 +1,87 @@
+import type { SelfieSearchResultProjection } from '@face-search/application/projections'
+import { type ISelfieSearchRepository, SELFIE_SEARCH_REPOSITORY } from '@face-search/domain/ports'
+import { HttpStatus, Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AppException } from '@shared/domain'
+import {
+  type DetectedFace,
+  FACE_EMBEDDING_ADAPTER,
+  type IFaceEmbeddingAdapter,
+} from '@shared/embeddings'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { MatchSelfieSearchCommand } from './match-selfie-search.command'
+
+const MAX_MATCHES = 60
+/** Below this cosine similarity two faces are rarely the same person. */
+const MIN_SIMILARITY = 0.45
+
+@CommandHandler(MatchSelfieSearchCommand)
+export class MatchSelfieSearchHandler implements ICommandHandler<MatchSelfieSearchCommand> {
+  private readonly logger = new Logger(MatchSelfieSearchHandler.name)
+
+  constructor(
+    @Inject(SELFIE_SEARCH_REPOSITORY) private readonly searchRepo: ISelfieSearchRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+    @Inject(FACE_EMBEDDING_ADAPTER) private readonly faceAdapter: IFaceEmbeddingAdapter,
+  ) {}
+
+  /**
+   * Embeds the uploaded selfie and ranks the event photos by their closest face. The selfie
+   * is deleted from storage once the matches are saved or no face was found in it, and its
+   * embedding is never stored. When embedding or matching fails it is kept, so the search
+   * can be retried; the retention purge deletes it otherwise. Matching a search again
+   * returns the first result.
+   */
+  async execute(command: MatchSelfieSearchCommand): Promise<SelfieSearchResultProjection> {
+    const search = await this.searchRepo.findByToken(command.token)
+    if (!search) throw AppException.notFound('entities.selfie_search', command.token)
+    if (search.isExpired()) throw new AppException('face_search.search_expired', HttpStatus.GONE)
+
+    if (!search.isMatched) {
+      const faces = await this.embedSelfie(search.objectKey)
+      const face = largestFace(faces)
+      if (!face) {
+        await this.deleteSelfie(search.objectKey)
+        throw AppException.businessRule('face_search.no_face_detected')
+      }
+
+      const matches = await this.searchRepo.findMatchingPhotos(search.eventId, face.embedding, {
+        limit: MAX_MATCHES,
+        minSimilarity: MIN_SIMILARITY,
+      })
+      search.recordMatches(matches)
+      await this.searchRepo.save(search)
+      await this.deleteSelfie(search.objectKey)
+      this.logger.log(`Selfie search ${search.id} matched ${matches.length} photo(s)`)
+    }
+
+    return {
+      status: search.status,
+      expiresAt: search.expiresAt,
+      matches: await this.searchRepo.getMatchedPhotos(search.matches ?? []),
+    }
+  }
+
+  private async embedSelfie(objectKey: string): Promise<DetectedFace[]> {
+    const imageUrl = await this.storage.getPresignedDownloadUrl({
+      key: objectKey,
+      expiresIn: 300,
+    })
+    return this.faceAdapter.embedFaces({ imageUrl })
+  }
+
+  private async deleteSelfie(objectKey: string): Promise<void> {
+    await this.storage.delete(objectKey).catch((err: unknown) => {
+      this.logger.error(`Failed to delete selfie ${objectKey}: ${String(err)}`)
+    })
+  }
+}
+
+/** The customer's own face is the largest one in a selfie; others are people behind them. */
+function largestFace(faces: DetectedFace[]): DetectedFace | null {
+  const area = (face: DetectedFace) => (face.bbox[2] - face.bbox[0]) * (face.bbox[3] - face.bbox[1])
+  return faces.reduce<DetectedFace | null>(
+    (largest, face) => (!largest || area(face) > area(largest) ? face : largest),
+    null,
+  )
+}
@@ -0,0 +1,3 @@
+export class PurgeSelfieSearchCommand {
+  constructor(public readonly searchId: string) {}
+}
@@ -0,0 +1,29 @@
+import { type ISelfieSearchRepository, SELFIE_SEARCH_REPOSITORY } from '@face-search/domain/ports'
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { PurgeSelfieSearchCommand } from './purge-selfie-search.command'
+
+@CommandHandler(PurgeSelfieSearchCommand)
+export class PurgeSelfieSearchHandler implements ICommandHandler<PurgeSelfieSearchCommand> {
+  private readonly logger = new Logger(PurgeSelfieSearchHandler.name)
+
+  constructor(
+    @Inject(SELFIE_SEARCH_REPOSITORY) private readonly searchRepo: ISelfieSearchRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  /**
+   * Ends a search at the end of its retention window. The selfie is deleted again in case
+   * it was uploaded but never matched; deleting a missing object is not an error.
+   */
+  async execute(command: PurgeSelfieSearchCommand): Promise<void> {
+    const search = await this.searchRepo.findById(command.searchId)
+    if (!search || search.purgedAt) return
+
+    await this.storage.delete(search.objectKey)
+    search.purge()
+    await this.searchRepo.save(search)
+    this.logger.log(`Purged selfie search ${search.id}`)
+  }
+}
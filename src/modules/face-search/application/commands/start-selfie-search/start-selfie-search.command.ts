@@ -0,0 +1,8 @@
+export class StartSelfieSearchCommand {
+  constructor(
+    public readonly eventSlug: string,
+    public readonly contentType: string,
+    /** The customer agreed to their selfie being processed; the search is refused otherwise. */
+    public readonly consent: boolean,
+  ) {}
+}
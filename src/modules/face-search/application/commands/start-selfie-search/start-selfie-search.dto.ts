@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsBoolean, IsIn } from 'class-validator'
+
+export const SELFIE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const
+
+export class StartSelfieSearchDto {
+  @ApiProperty({
+    description: 'MIME type of the selfie',
+    example: 'image/jpeg',
+    enum: SELFIE_CONTENT_TYPES,
+  })
+  @IsIn(SELFIE_CONTENT_TYPES)
+  contentType: string
+
+  @ApiProperty({
+    description:
+      'The customer agrees to their selfie being used to look for their face in the event photos. Must be true.',
+    example: true,
+  })
+  @IsBoolean()
+  consent: boolean
+}
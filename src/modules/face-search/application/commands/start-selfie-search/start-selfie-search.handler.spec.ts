@@ -0,0 +1,76 @@
+import type { SelfieSearch } from '@face-search/domain/entities'
+import { AppException } from '@shared/domain'
+import { StartSelfieSearchCommand } from './start-selfie-search.command'
+import { StartSelfieSearchHandler } from './start-selfie-search.handler'
+
+describe('StartSelfieSearchHandler', () => {
+  let handler: StartSelfieSearchHandler
+  let eventReadRepo: { existsActiveEventBySlug: jest.Mock }
+  let searchRepo: { save: jest.Mock }
+  let storage: { getPresignedUrl: jest.Mock }
+  let retentionQueue: { add: jest.Mock }
+
+  beforeEach(() => {
+    eventReadRepo = {
+      existsActiveEventBySlug: jest.fn().mockResolvedValue({ id: 'event-1', name: 'Vuelta' }),
+    }
+    searchRepo = { save: jest.fn() }
+    storage = {
+      getPresignedUrl: jest.fn().mockImplementation(async ({ key, expiresIn }) => ({
+        url: `https://b2/${key}?sig`,
+        objectKey: key,
+        expiresIn,
+      })),
+    }
+    retentionQueue = { add: jest.fn() }
+    const config = { get: jest.fn().mockReturnValue(24) }
+
+    handler = new StartSelfieSearchHandler(
+      eventReadRepo as never,
+      searchRepo as never,
+      storage as never,
+      retentionQueue as never,
+      config as never,
+    )
+  })
+
+  it('refuses the search without consent', async () => {
+    const error = await handler
+      .execute(new StartSelfieSearchCommand('vuelta', 'image/jpeg', false))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.messageKey).toBe('face_search.consent_required')
+    expect(searchRepo.save).not.toHaveBeenCalled()
+    expect(storage.getPresignedUrl).not.toHaveBeenCalled()
+  })
+
+  it('throws NOT_FOUND when the event is not active', async () => {
+    eventReadRepo.existsActiveEventBySlug.mockResolvedValueOnce(null)
+
+    const error = await handler
+      .execute(new StartSelfieSearchCommand('gone', 'image/jpeg', true))
+      .catch((e) => e)
+
+    expect(error.code).toBe('NOT_FOUND')
+  })
+
+  it('saves the search, returns an upload URL under selfies/ and schedules the purge', async () => {
+    const before = Date.now()
+
+    const result = await handler.execute(new StartSelfieSearchCommand('vuelta', 'image/png', true))
+
+    const [search] = searchRepo.save.mock.calls[0] as [SelfieSearch]
+    expect(search.eventId).toBe('event-1')
+    expect(search.objectKey).toMatch(/^selfies\/event-1\/[0-9a-f-]+\.png$/)
+    expect(result.token).toBe(search.token)
+    expect(result.uploadUrl).toContain(search.objectKey)
+    expect(result.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 24 * 3600 * 1000)
+
+    const [name, data, opts] = retentionQueue.add.mock.calls[0]
+    expect(name).toBe('purge-selfie-search')
+    expect(data).toEqual({ searchId: search.id })
+    expect(opts.jobId).toBe(search.id)
+    expect(opts.delay).toBeGreaterThan(23 * 3600 * 1000)
+  })
+})
@@ -0,0 +1,74 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import type { SelfieSearchStartedProjection } from '@face-search/application/projections'
+import { SelfieSearch } from '@face-search/domain/entities'
+import { type ISelfieSearchRepository, SELFIE_SEARCH_REPOSITORY } from '@face-search/domain/ports'
+import { InjectQueue } from '@nestjs/bullmq'
+import { Inject } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import type { Queue } from 'bullmq'
+import { StartSelfieSearchCommand } from './start-selfie-search.command'
+
+const UPLOAD_URL_EXPIRY_SECONDS = 600
+
+@CommandHandler(StartSelfieSearchCommand)
+export class StartSelfieSearchHandler implements ICommandHandler<StartSelfieSearchCommand> {
+  private readonly retentionHours: number
+
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(SELFIE_SEARCH_REPOSITORY) private readonly searchRepo: ISelfieSearchRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+    @InjectQueue('selfie-retention') private readonly retentionQueue: Queue,
+    config: ConfigService,
+  ) {
+    this.retentionHours = config.get<number>('selfieSearch.retentionHours', 24)
+  }
+
+  /**
+   * Opens a search on an active event and hands back a presigned URL for the selfie.
+   * The purge is scheduled right away, so the search is removed at the end of the
+   * retention window even if the customer never comes back.
+   */
+  async execute(command: StartSelfieSearchCommand): Promise<SelfieSearchStartedProjection> {
+    if (command.consent !== true) {
+      throw AppException.businessRule('face_search.consent_required')
+    }
+
+    const event = await this.eventReadRepo.existsActiveEventBySlug(command.eventSlug)
+    if (!event) throw AppException.notFound('Event', command.eventSlug)
+
+    const search = SelfieSearch.create({
+      eventId: event.id,
+      contentType: command.contentType,
+      retentionHours: this.retentionHours,
+    })
+
+    const upload = await this.storage.getPresignedUrl({
+      key: search.objectKey,
+      contentType: search.contentType,
+      expiresIn: UPLOAD_URL_EXPIRY_SECONDS,
+    })
+
+    await this.searchRepo.save(search)
+    await this.retentionQueue.add(
+      'purge-selfie-search',
+      { searchId: search.id },
+      {
+        jobId: search.id,
+        delay: search.expiresAt.getTime() - Date.now(),
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 60_000 },
+      },
+    )
+
+    return {
+      token: search.token,
+      uploadUrl: upload.url,
+      uploadExpiresIn: upload.expiresIn,
+      expiresAt: search.expiresAt,
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export {
+  SelfieMatchProjection,
+  SelfieSearchResultProjection,
+  SelfieSearchStartedProjection,
+} from './selfie-search.projection'
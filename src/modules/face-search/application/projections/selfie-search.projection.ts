@@ -0,0 +1,32 @@
+import type { SelfieSearchStatusType } from '../../domain/value-objects/selfie-search-status.vo'
+
+/** Returned when a search starts: where to upload the selfie and how to fetch the result. */
+export class SelfieSearchStartedProjection {
+  /** Search token (64 hex chars); the only handle the customer has on the search */
+  token: string
+  /** Presigned PUT URL for the selfie */
+  uploadUrl: string
+  /** Seconds the upload URL stays valid */
+  uploadExpiresIn: number
+  /** When the search and its matches are purged */
+  expiresAt: Date
+}
+
+/** A candidate photo, shaped like the public gallery photos plus how close the face was. */
+export class SelfieMatchProjection {
+  /** Photo UUID */
+  id: string
+  /** Public slug for building CDN gallery URLs */
+  publicSlug: string
+  width: number | null
+  height: number | null
+  /** Cosine similarity of the closest face in the photo (0..1) */
+  similarity: number
+}
+
+export class SelfieSearchResultProjection {
+  status: SelfieSearchStatusType
+  expiresAt: Date
+  /** Candidate photos, most similar first; empty until the selfie is matched */
+  matches: SelfieMatchProjection[]
+}
@@ -0,0 +1,26 @@
+import type { SelfieSearchResultProjection } from '@face-search/application/projections'
+import { type ISelfieSearchRepository, SELFIE_SEARCH_REPOSITORY } from '@face-search/domain/ports'
+import { HttpStatus, Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import { AppException } from '@shared/domain'
+import { GetSelfieSearchQuery } from './get-selfie-search.query'
+
+@QueryHandler(GetSelfieSearchQuery)
+export class GetSelfieSearchHandler implements IQueryHandler<GetSelfieSearchQuery> {
+  constructor(
+    @Inject(SELFIE_SEARCH_REPOSITORY) private readonly searchRepo: ISelfieSearchRepository,
+  ) {}
+
+  /** Returns the ranked photos of a matched search until its retention window ends. */
+  async execute(query: GetSelfieSearchQuery): Promise<SelfieSearchResultProjection> {
+    const search = await this.searchRepo.findByToken(query.token)
+    if (!search) throw AppException.notFound('entities.selfie_search', query.token)
+    if (search.isExpired()) throw new AppException('face_search.search_expired', HttpStatus.GONE)
+
+    return {
+      status: search.status,
+      expiresAt: search.expiresAt,
+      matches: await this.searchRepo.getMatchedPhotos(search.matches ?? []),
+    }
+  }
+}
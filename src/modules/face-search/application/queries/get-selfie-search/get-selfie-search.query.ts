@@ -0,0 +1,3 @@
+export class GetSelfieSearchQuery {
+  constructor(public readonly token: string) {}
+}
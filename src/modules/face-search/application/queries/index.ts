@@ -0,0 +1 @@
+export { GetSelfieSearchQuery } from './get-selfie-search/get-selfie-search.query'
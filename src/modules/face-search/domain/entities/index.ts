@@ -0,0 +1 @@
+export { type SelfieMatch, SelfieSearch } from './selfie-search.entity'
@@ -0,0 +1,118 @@
+import * as crypto from 'node:crypto'
+import {
+  SelfieSearchStatus,
+  type SelfieSearchStatusType,
+} from '../value-objects/selfie-search-status.vo'
+
+/** A photo whose faces resemble the selfie; `similarity` is the best cosine similarity (0..1). */
+export interface SelfieMatch {
+  photoId: string
+  similarity: number
+}
+
+const EXTENSION_BY_CONTENT_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+export class SelfieSearch {
+  constructor(
+    public readonly id: string,
+    public readonly eventId: string,
+    public readonly token: string,
+    public readonly objectKey: string,
+    public readonly contentType: string,
+    public status: SelfieSearchStatusType,
+    public matches: SelfieMatch[] | null,
+    public readonly consentedAt: Date,
+    public readonly expiresAt: Date,
+    public matchedAt: Date | null,
+    public purgedAt: Date | null,
+    public readonly createdAt: Date,
+  ) {}
+
+  /**
+   * Factory method for a customer's search. The caller has checked consent; the moment is
+   * recorded so the search can be traced back to it.
+   */
+  static create(data: {
+    eventId: string
+    contentType: string
+    retentionHours: number
+  }): SelfieSearch {
+    const id = crypto.randomUUID()
+    const now = new Date()
+    const extension = EXTENSION_BY_CONTENT_TYPE[data.contentType] ?? 'jpg'
+    return new SelfieSearch(
+      id,
+      data.eventId,
+      crypto.randomBytes(32).toString('hex'),
+      `selfies/${data.eventId}/${id}.${extension}`,
+      data.contentType,
+      SelfieSearchStatus.PENDING,
+      null,
+      now,
+      new Date(now.getTime() + data.retentionHours * 3600 * 1000),
+      null,
+      null,
+      now,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    eventId: string
+    token: string
+    objectKey: string
+    contentType: string
+    status: SelfieSearchStatusType
+    matches: SelfieMatch[] | null
+    consentedAt: Date
+    expiresAt: Date
+    matchedAt: Date | null
+    purgedAt: Date | null
+    createdAt: Date
+  }): SelfieSearch {
+    return new SelfieSearch(
+      data.id,
+      data.eventId,
+      data.token,
+      data.objectKey,
+      data.contentType,
+      data.status,
+      data.matches,
+      data.consentedAt,
+      data.expiresAt,
+      data.matchedAt,
+      data.purgedAt,
+      data.createdAt,
+    )
+  }
+
+  get isMatched(): boolean {
+    return this.status === SelfieSearchStatus.MATCHED
+  }
+
+  /** Purged searches and searches past their retention window can no longer be used. */
+  isExpired(now = new Date()): boolean {
+    return this.status === SelfieSearchStatus.PURGED || now >= this.expiresAt
+  }
+
+  recordMatches(matches: SelfieMatch[]): void {
+    this.matches = matches
+    this.status = SelfieSearchStatus.MATCHED
+    this.matchedAt = new Date()
+  }
+
+  /** Drops the matches; only the fact that a search happened is kept. */
+  purge(): void {
+    this.matches = null
+    this.status = SelfieSearchStatus.PURGED
+    this.purgedAt ??= new Date()
+  }
+}
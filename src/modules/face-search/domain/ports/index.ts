@@ -0,0 +1,4 @@
+export {
+  type ISelfieSearchRepository,
+  SELFIE_SEARCH_REPOSITORY,
+} from './selfie-search-repository.port'
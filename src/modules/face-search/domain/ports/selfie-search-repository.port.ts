@@ -0,0 +1,21 @@
+import type { SelfieMatchProjection } from '@face-search/application/projections'
+import type { SelfieMatch, SelfieSearch } from '../entities'
+
+export interface ISelfieSearchRepository {
+  findById(id: string): Promise<SelfieSearch | null>
+  findByToken(token: string): Promise<SelfieSearch | null>
+  save(search: SelfieSearch): Promise<void>
+  /**
+   * Photos of the event whose faces are closest to the embedding, one entry per photo with
+   * its best face, most similar first. Faces below `minSimilarity` are left out.
+   */
+  findMatchingPhotos(
+    eventId: string,
+    embedding: number[],
+    options: { limit: number; minSimilarity: number },
+  ): Promise<SelfieMatch[]>
+  /** Public data of the matched photos, in the order of `matches`; deleted photos drop out. */
+  getMatchedPhotos(matches: SelfieMatch[]): Promise<SelfieMatchProjection[]>
+}
+
+export const SELFIE_SEARCH_REPOSITORY = Symbol('SELFIE_SEARCH_REPOSITORY')
@@ -0,0 +1,7 @@
+export const SelfieSearchStatus = {
+  PENDING: 'pending',
+  MATCHED: 'matched',
+  PURGED: 'purged',
+} as const
+
+export type SelfieSearchStatusType = (typeof SelfieSearchStatus)[keyof typeof SelfieSearchStatus]
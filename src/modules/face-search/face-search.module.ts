@@ -0,0 +1,35 @@
+import { BullModule } from '@nestjs/bullmq'
+import { forwardRef, Module } from '@nestjs/common'
+import { CqrsModule } from '@nestjs/cqrs'
+import { EventsModule } from '../events/events.module'
+import { MatchSelfieSearchHandler } from './application/commands/match-selfie-search/match-selfie-search.handler'
+import { PurgeSelfieSearchHandler } from './application/commands/purge-selfie-search/purge-selfie-search.handler'
+import { StartSelfieSearchHandler } from './application/commands/start-selfie-search/start-selfie-search.handler'
+import { GetSelfieSearchHandler } from './application/queries/get-selfie-search/get-selfie-search.handler'
+import { SELFIE_SEARCH_REPOSITORY } from './domain/ports'
+import { SelfieRetentionProcessor } from './infrastructure/processors/selfie-retention.processor'
+import { SelfieSearchRepository } from './infrastructure/repositories/selfie-search.repository'
+import { SelfieSearchPublicController } from './presentation/controllers/selfie-search-public.controller'
+
+const CommandHandlers = [
+  StartSelfieSearchHandler,
+  MatchSelfieSearchHandler,
+  PurgeSelfieSearchHandler,
+]
+const QueryHandlers = [GetSelfieSearchHandler]
+
+@Module({
+  imports: [
+    CqrsModule,
+    BullModule.registerQueue({ name: 'selfie-retention' }),
+    forwardRef(() => EventsModule),
+  ],
+  controllers: [SelfieSearchPublicController],
+  providers: [
+    ...CommandHandlers,
+    ...QueryHandlers,
+    SelfieRetentionProcessor,
+    { provide: SELFIE_SEARCH_REPOSITORY, useClass: SelfieSearchRepository },
+  ],
+})
+export class FaceSearchModule {}
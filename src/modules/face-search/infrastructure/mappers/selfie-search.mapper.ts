@@ -0,0 +1,41 @@
+import { Prisma, type SelfieSearch as PrismaSelfieSearch } from '@generated/prisma/client'
+import { type SelfieMatch, SelfieSearch } from '../../domain/entities'
+
+/** Converts a domain entity to a Prisma create input. */
+export function toPersistence(entity: SelfieSearch): Prisma.SelfieSearchUncheckedCreateInput {
+  return {
+    id: entity.id,
+    event_id: entity.eventId,
+    token: entity.token,
+    object_key: entity.objectKey,
+    content_type: entity.contentType,
+    status: entity.status,
+    matches:
+      entity.matches === null
+        ? Prisma.DbNull
+        : (entity.matches as unknown as Prisma.InputJsonValue),
+    consented_at: entity.consentedAt,
+    expires_at: entity.expiresAt,
+    matched_at: entity.matchedAt,
+    purged_at: entity.purgedAt,
+    created_at: entity.createdAt,
+  }
+}
+
+/** Converts a Prisma record to a domain entity. */
+export function toEntity(record: PrismaSelfieSearch): SelfieSearch {
+  return SelfieSearch.fromPersistence({
+    id: record.id,
+    eventId: record.event_id,
+    token: record.token,
+    objectKey: record.object_key,
+    contentType: record.content_type,
+    status: record.status,
+    matches: record.matches as unknown as SelfieMatch[] | null,
+    consentedAt: record.consented_at,
+    expiresAt: record.expires_at,
+    matchedAt: record.matched_at,
+    purgedAt: record.purged_at,
+    createdAt: record.created_at,
+  })
+}
@@ -0,0 +1,30 @@
+import { PurgeSelfieSearchCommand } from '@face-search/application/commands/purge-selfie-search/purge-selfie-search.command'
+import { Processor, WorkerHost } from '@nestjs/bullmq'
+import { Logger } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import type { Job } from 'bullmq'
+
+export interface SelfieRetentionJobData {
+  searchId: string
+}
+
+/** Runs the delayed purge scheduled when each selfie search starts. */
+@Processor('selfie-retention')
+export class SelfieRetentionProcessor extends WorkerHost {
+  private readonly logger = new Logger(SelfieRetentionProcessor.name)
+
+  constructor(private readonly commandBus: CommandBus) {
+    super()
+  }
+
+  async process(job: Job<SelfieRetentionJobData>): Promise<void> {
+    const { searchId } = job.data
+    try {
+      await this.commandBus.execute(new PurgeSelfieSearchCommand(searchId))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.logger.error(`✘ Selfie purge ${searchId}: ${message}`)
+      throw error
+    }
+  }
+}
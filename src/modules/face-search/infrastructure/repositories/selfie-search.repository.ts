@@ -0,0 +1,87 @@
+import type { SelfieMatchProjection } from '@face-search/application/projections'
+import type { SelfieMatch, SelfieSearch } from '@face-search/domain/entities'
+import type { ISelfieSearchRepository } from '@face-search/domain/ports'
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '@shared/infrastructure'
+import * as SelfieSearchMapper from '../mappers/selfie-search.mapper'
+
+/** Nearest faces read from the HNSW index before grouping by photo; a rider shows up in many. */
+const FACE_CANDIDATES_PER_MATCH = 4
+/** Upper bound pgvector accepts for hnsw.ef_search. */
+const MAX_EF_SEARCH = 1000
+
+@Injectable()
+export class SelfieSearchRepository implements ISelfieSearchRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findById(id: string): Promise<SelfieSearch | null> {
+    const record = await this.prisma.selfieSearch.findUnique({ where: { id } })
+    return record ? SelfieSearchMapper.toEntity(record) : null
+  }
+
+  async findByToken(token: string): Promise<SelfieSearch | null> {
+    const record = await this.prisma.selfieSearch.findUnique({ where: { token } })
+    return record ? SelfieSearchMapper.toEntity(record) : null
+  }
+
+  async save(search: SelfieSearch): Promise<void> {
+    const data = SelfieSearchMapper.toPersistence(search)
+    await this.prisma.selfieSearch.upsert({ where: { id: search.id }, create: data, update: data })
+  }
+
+  async findMatchingPhotos(
+    eventId: string,
+    embedding: number[],
+    options: { limit: number; minSimilarity: number },
+  ): Promise<SelfieMatch[]> {
+    const vector = `[${embedding.join(',')}]`
+    const candidates = options.limit * FACE_CANDIDATES_PER_MATCH
+    const efSearch = Math.min(Math.max(candidates, 40), MAX_EF_SEARCH)
+    const rows = await this.prisma.$transaction(async (tx) => {
+      // The index returns at most ef_search faces (40 by default) before the event filter,
+      // so size it to the candidates wanted and keep scanning while the filter drops rows
+      await tx.$queryRaw`SELECT set_config('hnsw.ef_search', ${String(efSearch)}, true)`
+      await tx.$queryRaw`SELECT set_config('hnsw.iterative_scan', 'strict_order', true)`
+      return tx.$queryRaw<Array<{ photo_id: string; similarity: number }>>`
+        SELECT nearest.photo_id, MAX(nearest.similarity) AS similarity
+        FROM (
+          SELECT f.photo_id, 1 - (f.embedding <=> ${vector}::vector) AS similarity
+          FROM photo_face_embeddings f
+          WHERE f.event_id = ${eventId}::uuid
+          ORDER BY f.embedding <=> ${vector}::vector
+          LIMIT ${candidates}
+        ) nearest
+        WHERE nearest.similarity >= ${options.minSimilarity}
+        GROUP BY nearest.photo_id
+        ORDER BY similarity DESC
+        LIMIT ${options.limit}`
+    })
+
+    return rows.map((row) => ({ photoId: row.photo_id, similarity: Number(row.similarity) }))
+  }
+
+  async getMatchedPhotos(matches: SelfieMatch[]): Promise<SelfieMatchProjection[]> {
+    if (matches.length === 0) return []
+
+    const photos = await this.prisma.photo.findMany({
+      where: { id: { in: matches.map((m) => m.photoId) } },
+      select: { id: true, public_slug: true, width: true, height: true },
+    })
+    const byId = new Map(photos.map((p) => [p.id, p]))
+
+    return matches.flatMap((match) => {
+      const photo = byId.get(match.photoId)
+      return photo
+        ? [
+            {
+              id: photo.id,
+              publicSlug: photo.public_slug,
+              width: photo.width,
+              height: photo.height,
+              similarity: match.similarity,
+            },
+          ]
+        : []
+    })
+  }
+}
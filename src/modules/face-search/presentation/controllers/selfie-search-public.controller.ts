@@ -0,0 +1,79 @@
+import {
+  MatchSelfieSearchCommand,
+  StartSelfieSearchCommand,
+  StartSelfieSearchDto,
+} from '@face-search/application/commands'
+import {
+  SelfieSearchResultProjection,
+  SelfieSearchStartedProjection,
+} from '@face-search/application/projections'
+import { GetSelfieSearchQuery } from '@face-search/application/queries'
+import { Body, Controller, Get, HttpCode, Param, Post } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import { Throttle } from '@nestjs/throttler'
+import { Public } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Selfie Search (Public)')
+@Controller()
+export class SelfieSearchPublicController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  @Throttle({ sensitive_token: { limit: 10, ttl: 60000 } })
+  @Public()
+  @Post('public/events/:slug/selfie-searches')
+  @SuccessMessage('success.CREATED', { entity: 'entities.selfie_search' })
+  @ApiOperation({ summary: 'Start a "find me" search from a selfie (requires consent)' })
+  @ApiParam({ name: 'slug', description: 'Event URL slug', example: 'vuelta-al-cotopaxi-2026' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Search token and presigned URL to upload the selfie to',
+    type: SelfieSearchStartedProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Consent was not given' })
+  async start(@Param('slug') slug: string, @Body() dto: StartSelfieSearchDto) {
+    return this.commandBus.execute(new StartSelfieSearchCommand(slug, dto.contentType, dto.consent))
+  }
+
+  // Same token-enumeration guard as the preview and delivery token endpoints.
+  @Throttle({ sensitive_token: { limit: 10, ttl: 60000 } })
+  @Public()
+  @Post('selfie-searches/:token/match')
+  @HttpCode(200)
+  @SuccessMessage('success.FETCHED', { entity: 'entities.selfie_search' })
+  @ApiOperation({ summary: 'Match the uploaded selfie against the event photos' })
+  @ApiParam({ name: 'token', description: 'Selfie search token (64 hex chars)' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Candidate photos, most similar first',
+    type: SelfieSearchResultProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Selfie search not found' })
+  @ApiEnvelopeErrorResponse({ status: 410, description: 'Selfie search has expired' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'No face found in the selfie' })
+  async match(@Param('token') token: string) {
+    return this.commandBus.execute(new MatchSelfieSearchCommand(token))
+  }
+
+  @Throttle({ sensitive_token: { limit: 10, ttl: 60000 } })
+  @Public()
+  @Get('selfie-searches/:token')
+  @SuccessMessage('success.FETCHED', { entity: 'entities.selfie_search' })
+  @ApiOperation({ summary: 'Get the candidate photos of a selfie search' })
+  @ApiParam({ name: 'token', description: 'Selfie search token (64 hex chars)' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Search status and candidate photos',
+    type: SelfieSearchResultProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Selfie search not found' })
+  @ApiEnvelopeErrorResponse({ status: 410, description: 'Selfie search has expired' })
+  async getByToken(@Param('token') token: string) {
+    return this.queryBus.execute(new GetSelfieSearchQuery(token))
+  }
+}
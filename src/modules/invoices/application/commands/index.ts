@@ -0,0 +1 @@
+export { IssueInvoiceCommand } from './issue-invoice/issue-invoice.command'
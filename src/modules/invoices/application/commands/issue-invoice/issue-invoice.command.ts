@@ -0,0 +1,3 @@
+export class IssueInvoiceCommand {
+  constructor(public readonly orderId: string) {}
+}
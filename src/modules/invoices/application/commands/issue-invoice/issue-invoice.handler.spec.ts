@@ -0,0 +1,132 @@
+import { Invoice } from '@invoices/domain/entities'
+import type { InvoiceOrderSnapshot } from '@invoices/domain/ports'
+import { AppException } from '@shared/domain'
+import { IssueInvoiceCommand } from './issue-invoice.command'
+import { IssueInvoiceHandler } from './issue-invoice.handler'
+
+const buildSnapshot = (overrides: Partial<InvoiceOrderSnapshot> = {}): InvoiceOrderSnapshot => ({
+  orderId: 'order-1',
+  userId: 'user-1',
+  status: 'paid',
+  eventName: 'Maratón de Lima',
+  bibNumber: null,
+  isBibPackage: false,
+  snapFirstName: 'Ana',
+  snapLastName: 'Pérez',
+  snapEmail: 'ana@example.com',
+  snapCurrency: 'USD',
+  subtotal: 12,
+  subtotalBeforeDiscount: null,
+  discountAmount: null,
+  couponCode: null,
+  items: [
+    { unitPrice: 4, retouchPrice: null },
+    { unitPrice: 4, retouchPrice: null },
+    { unitPrice: 4, retouchPrice: null },
+  ],
+  ...overrides,
+})
+
+const buildInvoice = (total: number) =>
+  Invoice.create({
+    orderId: 'order-1',
+    fiscalYear: 2026,
+    sequence: 7,
+    currency: 'USD',
+    total,
+    issuedAt: new Date('2026-10-19T12:00:00Z'),
+  })
+
+describe('IssueInvoiceHandler', () => {
+  let readRepo: { getOrderSnapshot: jest.Mock }
+  let writeRepo: { issue: jest.Mock; save: jest.Mock }
+  let renderer: { render: jest.Mock }
+  let storage: { upload: jest.Mock }
+  let handler: IssueInvoiceHandler
+
+  beforeEach(() => {
+    readRepo = { getOrderSnapshot: jest.fn().mockResolvedValue(buildSnapshot()) }
+    writeRepo = {
+      issue: jest.fn().mockImplementation(async (draft) => buildInvoice(draft.total)),
+      save: jest.fn().mockResolvedValue(undefined),
+    }
+    renderer = { render: jest.fn().mockReturnValue(Buffer.from('%PDF-1.4')) }
+    storage = {
+      upload: jest.fn().mockImplementation(async ({ key }) => ({ key, url: `https://b2/${key}` })),
+    }
+    handler = new IssueInvoiceHandler(
+      readRepo as never,
+      writeRepo as never,
+      renderer as never,
+      storage as never,
+    )
+  })
+
+  it('issues the invoice, renders one line per unit price and stores the PDF', async () => {
+    const result = await handler.execute(new IssueInvoiceCommand('order-1'))
+
+    expect(result.number).toBe('2026-000007')
+    expect(writeRepo.issue).toHaveBeenCalledWith(expect.objectContaining({ total: 12 }))
+    const [document] = renderer.render.mock.calls[0]
+    expect(document.lines).toEqual([expect.objectContaining({ quantity: 3, amount: 12 })])
+    expect(document.customerName).toBe('Ana Pérez')
+    expect(storage.upload).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'invoices/2026/2026-000007.pdf' }),
+    )
+    expect(writeRepo.save.mock.calls[0][0].storageKey).toBe('invoices/2026/2026-000007.pdf')
+  })
+
+  it('adds one line per retouch add-on, outside the discounted subtotal', async () => {
+    readRepo.getOrderSnapshot.mockResolvedValue(
+      buildSnapshot({
+        subtotal: 15,
+        subtotalBeforeDiscount: 12,
+        discountAmount: 2,
+        items: [
+          { unitPrice: 4, retouchPrice: 3 },
+          { unitPrice: 4, retouchPrice: 2 },
+          { unitPrice: 4, retouchPrice: null },
+        ],
+      }),
+    )
+
+    await handler.execute(new IssueInvoiceCommand('order-1'))
+
+    const [document] = renderer.render.mock.calls[0]
+    expect(document.lines).toEqual([
+      expect.objectContaining({ quantity: 3, amount: 12 }),
+      expect.objectContaining({ description: 'Retoque de foto', amount: 3 }),
+      expect.objectContaining({ description: 'Retoque de foto', amount: 2 }),
+    ])
+    expect(document.subtotal).toBe(17)
+    expect(document.total).toBe(15)
+  })
+
+  it('issues gifted orders with a zero total', async () => {
+    readRepo.getOrderSnapshot.mockResolvedValue(buildSnapshot({ status: 'gifted' }))
+
+    await handler.execute(new IssueInvoiceCommand('order-1'))
+
+    expect(writeRepo.issue).toHaveBeenCalledWith(expect.objectContaining({ total: 0 }))
+    expect(renderer.render.mock.calls[0][0].isGift).toBe(true)
+  })
+
+  it('returns an already stored invoice without rendering it again', async () => {
+    const invoice = buildInvoice(12)
+    invoice.attachPdf('invoices/2026/2026-000007.pdf')
+    writeRepo.issue.mockResolvedValue(invoice)
+
+    const result = await handler.execute(new IssueInvoiceCommand('order-1'))
+
+    expect(result.id).toBe(invoice.id)
+    expect(renderer.render).not.toHaveBeenCalled()
+    expect(storage.upload).not.toHaveBeenCalled()
+  })
+
+  it('rejects orders that were not paid or gifted', async () => {
+    readRepo.getOrderSnapshot.mockResolvedValue(buildSnapshot({ status: 'pending' }))
+
+    await expect(handler.execute(new IssueInvoiceCommand('order-1'))).rejects.toThrow(AppException)
+    expect(writeRepo.issue).not.toHaveBeenCalled()
+  })
+})
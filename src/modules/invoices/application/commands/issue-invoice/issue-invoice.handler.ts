@@ -0,0 +1,144 @@
+import type { InvoiceIssuedProjection } from '@invoices/application/projections'
+import { Invoice } from '@invoices/domain/entities'
+import {
+  type IInvoiceReadRepository,
+  type IInvoiceRenderer,
+  type IInvoiceWriteRepository,
+  INVOICE_READ_REPOSITORY,
+  INVOICE_RENDERER,
+  INVOICE_WRITE_REPOSITORY,
+  type InvoiceDocument,
+  type InvoiceLine,
+  type InvoiceOrderSnapshot,
+} from '@invoices/domain/ports'
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { OrderStatus } from '@orders/domain/value-objects/order-status.vo'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { IssueInvoiceCommand } from './issue-invoice.command'
+
+const INVOICEABLE_STATUSES: string[] = [
+  OrderStatus.PAID,
+  OrderStatus.DELIVERED,
+  OrderStatus.GIFTED,
+  OrderStatus.REFUNDED,
+]
+
+const round2 = (n: number): number => Math.round(n * 100) / 100
+
+/**
+ * Issues the order's invoice (once) and stores its PDF. Re-running it is safe: an
+ * existing invoice keeps its number, and a PDF that failed to upload is rendered again.
+ */
+@CommandHandler(IssueInvoiceCommand)
+export class IssueInvoiceHandler implements ICommandHandler<IssueInvoiceCommand> {
+  constructor(
+    @Inject(INVOICE_READ_REPOSITORY) private readonly readRepo: IInvoiceReadRepository,
+    @Inject(INVOICE_WRITE_REPOSITORY) private readonly writeRepo: IInvoiceWriteRepository,
+    @Inject(INVOICE_RENDERER) private readonly renderer: IInvoiceRenderer,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  async execute(command: IssueInvoiceCommand): Promise<InvoiceIssuedProjection> {
+    // 1. Find order snapshot
+    const order = await this.readRepo.getOrderSnapshot(command.orderId)
+    if (!order) throw AppException.notFound('entities.order', command.orderId)
+
+    // 2. Validate: only orders that reached paid or gifted get an invoice
+    if (!INVOICEABLE_STATUSES.includes(order.status)) {
+      throw AppException.businessRule('invoice.order_not_invoiceable')
+    }
+
+    // 3. Take the next number of the fiscal year (or the invoice issued before)
+    const isGift = order.status === OrderStatus.GIFTED
+    const invoice = await this.writeRepo.issue({
+      orderId: order.orderId,
+      currency: order.snapCurrency,
+      total: isGift ? 0 : (order.subtotal ?? 0),
+      issuedAt: new Date(),
+    })
+    if (invoice.storageKey) return { id: invoice.id, number: invoice.number }
+
+    // 4. Render and store the PDF
+    const pdf = this.renderer.render(this.buildDocument(invoice, order, isGift))
+    const { key } = await this.storage.upload({
+      buffer: pdf,
+      key: Invoice.storageKeyFor(invoice.fiscalYear, invoice.number),
+      contentType: 'application/pdf',
+    })
+    invoice.attachPdf(key)
+    await this.writeRepo.save(invoice)
+
+    return { id: invoice.id, number: invoice.number }
+  }
+
+  private buildDocument(
+    invoice: Invoice,
+    order: InvoiceOrderSnapshot,
+    isGift: boolean,
+  ): InvoiceDocument {
+    // The coupon discount never applies to retouch add-ons, so they are not part of the
+    // subtotal before discount
+    const addOns = round2(order.items.reduce((sum, i) => sum + (i.retouchPrice ?? 0), 0))
+    const subtotal =
+      order.subtotalBeforeDiscount !== null
+        ? round2(order.subtotalBeforeDiscount + addOns)
+        : (order.subtotal ?? 0)
+
+    return {
+      number: invoice.number,
+      issuedAt: invoice.issuedAt,
+      customerName: [order.snapFirstName, order.snapLastName].filter(Boolean).join(' '),
+      customerEmail: order.snapEmail,
+      eventName: order.eventName,
+      currency: order.snapCurrency ?? 'USD',
+      lines: this.buildLines(order, round2(subtotal - addOns)),
+      subtotal,
+      discountAmount: order.discountAmount,
+      couponCode: order.couponCode,
+      total: invoice.total,
+      isGift,
+    }
+  }
+
+  /**
+   * One line per distinct unit price, then one per retouch add-on; bib packages are a
+   * single flat-price line followed by their add-ons.
+   */
+  private buildLines(order: InvoiceOrderSnapshot, photosSubtotal: number): InvoiceLine[] {
+    const addOnLines = order.items
+      .filter((item) => item.retouchPrice !== null)
+      .map((item) => ({
+        description: 'Retoque de foto',
+        quantity: 1,
+        unitPrice: item.retouchPrice ?? 0,
+        amount: item.retouchPrice ?? 0,
+      }))
+
+    if (order.isBibPackage) {
+      return [
+        {
+          description: `Paquete de fotos del dorsal ${order.bibNumber ?? ''}`.trim(),
+          quantity: 1,
+          unitPrice: photosSubtotal,
+          amount: photosSubtotal,
+        },
+        ...addOnLines,
+      ]
+    }
+
+    const countByPrice = new Map<number, number>()
+    for (const item of order.items) {
+      const price = item.unitPrice ?? 0
+      countByPrice.set(price, (countByPrice.get(price) ?? 0) + 1)
+    }
+    const photoLines = [...countByPrice.entries()].map(([unitPrice, quantity]) => ({
+      description: `Fotos digitales — ${order.eventName}`,
+      quantity,
+      unitPrice,
+      amount: round2(unitPrice * quantity),
+    }))
+    return [...photoLines, ...addOnLines]
+  }
+}
@@ -0,0 +1,2 @@
+export { InvoiceDownloadProjection } from './invoice-download.projection'
+export { InvoiceIssuedProjection } from './invoice-issued.projection'
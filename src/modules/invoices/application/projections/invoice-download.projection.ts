@@ -0,0 +1,8 @@
+export class InvoiceDownloadProjection {
+  /** Sequential number within the fiscal year (e.g. 2026-000042) */
+  number: string
+  /** When the invoice was issued */
+  issuedAt: Date
+  /** Presigned PDF download URL (1h expiration) */
+  downloadUrl: string
+}
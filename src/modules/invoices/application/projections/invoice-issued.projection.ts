@@ -0,0 +1,6 @@
+export class InvoiceIssuedProjection {
+  /** Invoice UUID */
+  id: string
+  /** Sequential number within the fiscal year (e.g. 2026-000042) */
+  number: string
+}
@@ -0,0 +1,40 @@
+import type { InvoiceDownloadProjection } from '@invoices/application/projections'
+import { type IInvoiceReadRepository, INVOICE_READ_REPOSITORY } from '@invoices/domain/ports'
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { GetInvoiceDownloadQuery } from './get-invoice-download.query'
+
+const PRESIGNED_URL_EXPIRY_SECONDS = 3600 // 1 hour
+
+@QueryHandler(GetInvoiceDownloadQuery)
+export class GetInvoiceDownloadHandler implements IQueryHandler<GetInvoiceDownloadQuery> {
+  constructor(
+    @Inject(INVOICE_READ_REPOSITORY) private readonly readRepo: IInvoiceReadRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  async execute(query: GetInvoiceDownloadQuery): Promise<InvoiceDownloadProjection> {
+    // Buyers only see their own orders; a foreign order looks missing
+    if (query.userId !== null) {
+      const order = await this.readRepo.getOrderSnapshot(query.orderId)
+      if (!order || order.userId !== query.userId) {
+        throw AppException.notFound('entities.order', query.orderId)
+      }
+    }
+
+    const invoice = await this.readRepo.findByOrderId(query.orderId)
+    if (!invoice?.storageKey) throw AppException.notFound('entities.invoice', query.orderId)
+
+    return {
+      number: invoice.number,
+      issuedAt: invoice.issuedAt,
+      downloadUrl: await this.storage.getPresignedDownloadUrl({
+        key: invoice.storageKey,
+        filename: `recibo-${invoice.number}.pdf`,
+        expiresIn: PRESIGNED_URL_EXPIRY_SECONDS,
+      }),
+    }
+  }
+}
@@ -0,0 +1,7 @@
+export class GetInvoiceDownloadQuery {
+  constructor(
+    public readonly orderId: string,
+    /** The buyer's id; null for admins, who can download any invoice. */
+    public readonly userId: string | null,
+  ) {}
+}
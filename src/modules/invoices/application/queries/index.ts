@@ -0,0 +1 @@
+export { GetInvoiceDownloadQuery } from './get-invoice-download/get-invoice-download.query'
@@ -0,0 +1 @@
+export { Invoice } from './invoice.entity'
@@ -0,0 +1,80 @@
+export class Invoice {
+  constructor(
+    public readonly id: string,
+    public readonly orderId: string,
+    public readonly fiscalYear: number,
+    public readonly sequence: number,
+    public readonly number: string,
+    public readonly currency: string | null,
+    public readonly total: number,
+    public storageKey: string | null,
+    public readonly issuedAt: Date,
+  ) {}
+
+  /**
+   * Factory method for issuing an invoice.
+   * `sequence` is the next number of the fiscal year, allocated by the repository.
+   */
+  static create(data: {
+    orderId: string
+    fiscalYear: number
+    sequence: number
+    currency: string | null
+    total: number
+    issuedAt: Date
+  }): Invoice {
+    return new Invoice(
+      crypto.randomUUID(),
+      data.orderId,
+      data.fiscalYear,
+      data.sequence,
+      Invoice.formatNumber(data.fiscalYear, data.sequence),
+      data.currency,
+      data.total,
+      null,
+      data.issuedAt,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    orderId: string
+    fiscalYear: number
+    sequence: number
+    number: string
+    currency: string | null
+    total: number
+    storageKey: string | null
+    issuedAt: Date
+  }): Invoice {
+    return new Invoice(
+      data.id,
+      data.orderId,
+      data.fiscalYear,
+      data.sequence,
+      data.number,
+      data.currency,
+      data.total,
+      data.storageKey,
+      data.issuedAt,
+    )
+  }
+
+  /** Invoice numbers restart every fiscal year: 2026-000001, 2026-000002, … */
+  static formatNumber(fiscalYear: number, sequence: number): string {
+    return `${fiscalYear}-${String(sequence).padStart(6, '0')}`
+  }
+
+  /** Storage key of the rendered PDF. */
+  static storageKeyFor(fiscalYear: number, number: string): string {
+    return `invoices/${fiscalYear}/${number}.pdf`
+  }
+
+  attachPdf(storageKey: string): void {
+    this.storageKey = storageKey
+  }
+}
@@ -0,0 +1,17 @@
+export {
+  type IInvoiceReadRepository,
+  INVOICE_READ_REPOSITORY,
+  type InvoiceOrderItem,
+  type InvoiceOrderSnapshot,
+} from './invoice-read-repository.port'
+export {
+  type IInvoiceRenderer,
+  INVOICE_RENDERER,
+  type InvoiceDocument,
+  type InvoiceLine,
+} from './invoice-renderer.port'
+export {
+  type IInvoiceWriteRepository,
+  INVOICE_WRITE_REPOSITORY,
+  type InvoiceDraft,
+} from './invoice-write-repository.port'
@@ -0,0 +1,33 @@
+import type { Invoice } from '../entities'
+
+export type InvoiceOrderItem = {
+  unitPrice: number | null
+  /** Price of the retouch add-on charged for the photo, null when none was */
+  retouchPrice: number | null
+}
+
+/** The order snapshot an invoice is rendered from. */
+export type InvoiceOrderSnapshot = {
+  orderId: string
+  userId: string
+  status: string
+  eventName: string
+  bibNumber: string | null
+  isBibPackage: boolean
+  snapFirstName: string | null
+  snapLastName: string | null
+  snapEmail: string | null
+  snapCurrency: string | null
+  subtotal: number | null
+  subtotalBeforeDiscount: number | null
+  discountAmount: number | null
+  couponCode: string | null
+  items: InvoiceOrderItem[]
+}
+
+export interface IInvoiceReadRepository {
+  findByOrderId(orderId: string): Promise<Invoice | null>
+  getOrderSnapshot(orderId: string): Promise<InvoiceOrderSnapshot | null>
+}
+
+export const INVOICE_READ_REPOSITORY = Symbol('INVOICE_READ_REPOSITORY')
@@ -0,0 +1,30 @@
+export type InvoiceLine = {
+  description: string
+  quantity: number
+  unitPrice: number
+  amount: number
+}
+
+/** Everything printed on an invoice; amounts are in `currency`. */
+export type InvoiceDocument = {
+  number: string
+  issuedAt: Date
+  customerName: string
+  customerEmail: string | null
+  eventName: string
+  currency: string
+  lines: InvoiceLine[]
+  subtotal: number
+  discountAmount: number | null
+  couponCode: string | null
+  total: number
+  /** Printed as a note when the order was given away. */
+  isGift: boolean
+}
+
+export interface IInvoiceRenderer {
+  /** Renders the invoice as a PDF file. */
+  render(document: InvoiceDocument): Buffer
+}
+
+export const INVOICE_RENDERER = Symbol('INVOICE_RENDERER')
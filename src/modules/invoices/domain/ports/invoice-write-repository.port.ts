@@ -0,0 +1,20 @@
+import type { Invoice } from '../entities'
+
+export type InvoiceDraft = {
+  orderId: string
+  currency: string | null
+  total: number
+  issuedAt: Date
+}
+
+export interface IInvoiceWriteRepository {
+  /**
+   * Issues the order's invoice with the next number of the issue date's fiscal year.
+   * Runs under a lock on the order row: when the order already has an invoice, that
+   * one is returned and no number is consumed.
+   */
+  issue(draft: InvoiceDraft): Promise<Invoice>
+  save(invoice: Invoice): Promise<Invoice>
+}
+
+export const INVOICE_WRITE_REPOSITORY = Symbol('INVOICE_WRITE_REPOSITORY')
@@ -0,0 +1,32 @@
+import type { Prisma, Invoice as PrismaInvoice } from '@generated/prisma/client'
+import { Invoice } from '@invoices/domain/entities'
+
+/** Converts a domain entity to a Prisma create input. */
+export function toPersistence(entity: Invoice): Prisma.InvoiceUncheckedCreateInput {
+  return {
+    id: entity.id,
+    order_id: entity.orderId,
+    fiscal_year: entity.fiscalYear,
+    sequence: entity.sequence,
+    number: entity.number,
+    currency: entity.currency,
+    total: entity.total,
+    storage_key: entity.storageKey,
+    issued_at: entity.issuedAt,
+  }
+}
+
+/** Converts a Prisma record to a domain entity. */
+export function toEntity(record: PrismaInvoice): Invoice {
+  return Invoice.fromPersistence({
+    id: record.id,
+    orderId: record.order_id,
+    fiscalYear: record.fiscal_year,
+    sequence: record.sequence,
+    number: record.number,
+    currency: record.currency,
+    total: Number(record.total),
+    storageKey: record.storage_key,
+    issuedAt: record.issued_at,
+  })
+}
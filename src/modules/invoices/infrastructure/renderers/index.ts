@@ -0,0 +1 @@
+export { PdfInvoiceRenderer } from './pdf-invoice.renderer'
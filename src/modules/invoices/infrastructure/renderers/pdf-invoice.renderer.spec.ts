@@ -0,0 +1,64 @@
+import type { InvoiceDocument } from '@invoices/domain/ports'
+import { PdfInvoiceRenderer } from './pdf-invoice.renderer'
+
+const buildDocument = (overrides: Partial<InvoiceDocument> = {}): InvoiceDocument => ({
+  number: '2026-000042',
+  issuedAt: new Date('2026-10-19T12:00:00Z'),
+  customerName: 'Ana Pérez',
+  customerEmail: 'ana@example.com',
+  eventName: 'Maratón (Lima)',
+  currency: 'USD',
+  lines: [{ description: 'Fotos digitales', quantity: 3, unitPrice: 4, amount: 12 }],
+  subtotal: 12,
+  discountAmount: null,
+  couponCode: null,
+  total: 12,
+  isGift: false,
+  ...overrides,
+})
+
+describe('PdfInvoiceRenderer', () => {
+  const renderer = new PdfInvoiceRenderer()
+
+  it('renders a single-page PDF with the invoice number and escaped text', () => {
+    const pdf = renderer.render(buildDocument()).toString('latin1')
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('2026-000042')
+    expect(pdf).toContain('Ana Pérez')
+    expect(pdf).toContain('Evento: Maratón \\(Lima\\)')
+    expect(pdf).toContain('/Count 1')
+  })
+
+  it('encodes dashes and other WinAnsi punctuation instead of dropping them', () => {
+    const lines = [
+      { description: 'Fotos digitales — Maratón', quantity: 1, unitPrice: 2, amount: 2 },
+    ]
+
+    const pdf = renderer.render(buildDocument({ lines }))
+
+    expect(pdf.includes(Buffer.from([0x97]))).toBe(true)
+    expect(pdf.toString('latin1')).toContain('Fotos digitales \x97 Marat\xf3n')
+  })
+
+  it('points startxref at the cross-reference table', () => {
+    const pdf = renderer.render(buildDocument()).toString('latin1')
+    const offset = Number(pdf.match(/startxref\n(\d+)/)?.[1])
+
+    expect(pdf.slice(offset, offset + 4)).toBe('xref')
+  })
+
+  it('flows long invoices onto additional pages', () => {
+    const lines = Array.from({ length: 80 }, (_, i) => ({
+      description: `Línea ${i + 1}`,
+      quantity: 1,
+      unitPrice: 2,
+      amount: 2,
+    }))
+
+    const pdf = renderer.render(buildDocument({ lines })).toString('latin1')
+
+    expect(pdf).toContain('/Count 2')
+  })
+})
@@ -0,0 +1,183 @@
+import type { IInvoiceRenderer, InvoiceDocument } from '@invoices/domain/ports'
+import { Injectable } from '@nestjs/common'
+
+// A4 in PDF points
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+const LINE_HEIGHT = 16
+const MAX_DESCRIPTION_LENGTH = 48
+const COLUMNS = { description: MARGIN, quantity: 340, unitPrice: 400, amount: 480 }
+
+type TextOp = { x: number; y: number; text: string; size: number; bold: boolean }
+
+/**
+ * Renders invoices as single-column PDF 1.4 documents using the standard Helvetica
+ * fonts (WinAnsi encoding), so no font files or PDF library are needed. Long invoices
+ * flow onto additional pages.
+ */
+@Injectable()
+export class PdfInvoiceRenderer implements IInvoiceRenderer {
+  render(document: InvoiceDocument): Buffer {
+    return buildPdf(layout(document))
+  }
+}
+
+function layout(doc: InvoiceDocument): TextOp[][] {
+  const pages: TextOp[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  const text = (x: number, value: string, opts: { size?: number; bold?: boolean } = {}) => {
+    pages[pages.length - 1].push({ x, y, text: value, size: opts.size ?? 10, bold: !!opts.bold })
+  }
+  const newLine = (times = 1) => {
+    y -= LINE_HEIGHT * times
+    if (y < MARGIN) {
+      pages.push([])
+      y = PAGE_HEIGHT - MARGIN
+    }
+  }
+  const money = (n: number) => n.toFixed(2)
+
+  text(MARGIN, 'RECIBO DE COMPRA', { size: 18, bold: true })
+  newLine(2)
+  text(MARGIN, `N.º ${doc.number}`, { bold: true })
+  newLine()
+  text(MARGIN, `Fecha: ${doc.issuedAt.toISOString().slice(0, 10)}`)
+  newLine()
+  text(MARGIN, `Cliente: ${doc.customerName}`)
+  newLine()
+  if (doc.customerEmail) {
+    text(MARGIN, `Email: ${doc.customerEmail}`)
+    newLine()
+  }
+  text(MARGIN, `Evento: ${doc.eventName}`)
+  newLine(2)
+
+  text(COLUMNS.description, 'Descripción', { bold: true })
+  text(COLUMNS.quantity, 'Cant.', { bold: true })
+  text(COLUMNS.unitPrice, 'P. unit.', { bold: true })
+  text(COLUMNS.amount, `Importe (${doc.currency})`, { bold: true })
+  newLine()
+
+  for (const line of doc.lines) {
+    text(COLUMNS.description, truncate(line.description))
+    text(COLUMNS.quantity, String(line.quantity))
+    text(COLUMNS.unitPrice, money(line.unitPrice))
+    text(COLUMNS.amount, money(line.amount))
+    newLine()
+  }
+  newLine()
+
+  text(COLUMNS.unitPrice, 'Subtotal')
+  text(COLUMNS.amount, money(doc.subtotal))
+  newLine()
+  if (doc.discountAmount !== null) {
+    text(COLUMNS.description, doc.couponCode ? `Cupón ${doc.couponCode}` : '')
+    text(COLUMNS.unitPrice, 'Descuento')
+    text(COLUMNS.amount, `-${money(doc.discountAmount)}`)
+    newLine()
+  }
+  text(COLUMNS.unitPrice, 'Total', { bold: true })
+  text(COLUMNS.amount, `${money(doc.total)} ${doc.currency}`, { bold: true })
+  newLine(2)
+
+  if (doc.isGift) {
+    text(MARGIN, 'Orden obsequiada: no se realizó ningún cobro.')
+    newLine()
+  }
+  text(MARGIN, '¡Gracias por tu compra!')
+
+  return pages
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_DESCRIPTION_LENGTH
+    ? `${value.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…`
+    : value
+}
+
+/** WinAnsi places these characters at 0x80-0x9F, where Latin-1 has control codes. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  ƒ: 0x83,
+  '„': 0x84,
+  '…': 0x85,
+  '†': 0x86,
+  '‡': 0x87,
+  ˆ: 0x88,
+  '‰': 0x89,
+  Š: 0x8a,
+  '‹': 0x8b,
+  Œ: 0x8c,
+  Ž: 0x8e,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '˜': 0x98,
+  '™': 0x99,
+  š: 0x9a,
+  '›': 0x9b,
+  œ: 0x9c,
+  ž: 0x9e,
+  Ÿ: 0x9f,
+}
+
+/** Escapes a string for a PDF literal; characters outside WinAnsi become '?'. */
+function pdfString(value: string): string {
+  const winAnsi = value.replace(/[^ -~\u00a0-\u00ff]/g, (c) => {
+    const code = WIN_ANSI_EXTRAS[c]
+    return code !== undefined ? String.fromCharCode(code) : '?'
+  })
+  return `(${winAnsi.replace(/[\\()]/g, (c) => `\\${c}`)})`
+}
+
+function contentStream(ops: TextOp[]): string {
+  return ops
+    .map(
+      (op) =>
+        `BT /${op.bold ? 'F2' : 'F1'} ${op.size} Tf ${op.x} ${op.y} Td ${pdfString(op.text)} Tj ET`,
+    )
+    .join('\n')
+}
+
+/**
+ * Serializes pages into a PDF file. Object layout: 1 catalog, 2 page tree,
+ * 3-4 fonts, then a (page, content stream) pair per page.
+ */
+function buildPdf(pages: TextOp[][]): Buffer {
+  const pageIds = pages.map((_, i) => 5 + i * 2)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ]
+  for (const [i, ops] of pages.entries()) {
+    const stream = contentStream(ops)
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`,
+    )
+  }
+
+  let body = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (const [i, object] of objects.entries()) {
+    offsets.push(Buffer.byteLength(body, 'latin1'))
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`
+  }
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1')
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  body += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('')
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(body, 'latin1')
+}
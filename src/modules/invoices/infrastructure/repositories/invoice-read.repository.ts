@@ -0,0 +1,66 @@
+import type { Invoice } from '@invoices/domain/entities'
+import type { IInvoiceReadRepository, InvoiceOrderSnapshot } from '@invoices/domain/ports'
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '@shared/infrastructure'
+import * as InvoiceMapper from '../mappers/invoice.mapper'
+
+const toNumber = (value: { toString(): string } | null): number | null =>
+  value !== null ? Number(value) : null
+
+@Injectable()
+export class InvoiceReadRepository implements IInvoiceReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Finds the invoice issued for an order. */
+  async findByOrderId(orderId: string): Promise<Invoice | null> {
+    const record = await this.prisma.invoice.findUnique({ where: { order_id: orderId } })
+    return record ? InvoiceMapper.toEntity(record) : null
+  }
+
+  /** Reads the order snapshot fields printed on the invoice. */
+  async getOrderSnapshot(orderId: string): Promise<InvoiceOrderSnapshot | null> {
+    const record = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        user_id: true,
+        status: true,
+        bib_number: true,
+        is_bib_package: true,
+        snap_first_name: true,
+        snap_last_name: true,
+        snap_email: true,
+        snap_currency: true,
+        subtotal: true,
+        subtotal_before_discount: true,
+        discount_amount: true,
+        snap_coupon_code: true,
+        event: { select: { name: true } },
+        items: { select: { unit_price: true, retouch_request: { select: { price: true } } } },
+      },
+    })
+
+    if (!record) return null
+
+    return {
+      orderId: record.id,
+      userId: record.user_id,
+      status: record.status,
+      eventName: record.event.name,
+      bibNumber: record.bib_number,
+      isBibPackage: record.is_bib_package,
+      snapFirstName: record.snap_first_name,
+      snapLastName: record.snap_last_name,
+      snapEmail: record.snap_email,
+      snapCurrency: record.snap_currency,
+      subtotal: toNumber(record.subtotal),
+      subtotalBeforeDiscount: toNumber(record.subtotal_before_discount),
+      discountAmount: toNumber(record.discount_amount),
+      couponCode: record.snap_coupon_code,
+      items: record.items.map((i) => ({
+        unitPrice: toNumber(i.unit_price),
+        retouchPrice: toNumber(i.retouch_request?.price ?? null),
+      })),
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { Invoice } from '@invoices/domain/entities'
+import type { IInvoiceWriteRepository, InvoiceDraft } from '@invoices/domain/ports'
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '@shared/infrastructure'
+import * as InvoiceMapper from '../mappers/invoice.mapper'
+
+@Injectable()
+export class InvoiceWriteRepository implements IInvoiceWriteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Locks the order row, then allocates the fiscal year's next number and inserts the invoice. */
+  async issue(draft: InvoiceDraft): Promise<Invoice> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM orders WHERE id = ${draft.orderId}::uuid FOR UPDATE`
+
+      const existing = await tx.invoice.findUnique({ where: { order_id: draft.orderId } })
+      if (existing) return InvoiceMapper.toEntity(existing)
+
+      const fiscalYear = draft.issuedAt.getUTCFullYear()
+      const [{ last_value: sequence }] = await tx.$queryRaw<Array<{ last_value: number }>>`
+        INSERT INTO invoice_sequences (fiscal_year, last_value)
+        VALUES (${fiscalYear}, 1)
+        ON CONFLICT (fiscal_year)
+        DO UPDATE SET last_value = invoice_sequences.last_value + 1
+        RETURNING last_value
+      `
+
+      const invoice = Invoice.create({ ...draft, fiscalYear, sequence })
+      const saved = await tx.invoice.create({ data: InvoiceMapper.toPersistence(invoice) })
+      return InvoiceMapper.toEntity(saved)
+    })
+  }
+
+  /** Persists an invoice entity (create or update). */
+  async save(invoice: Invoice): Promise<Invoice> {
+    const data = InvoiceMapper.toPersistence(invoice)
+
+    const saved = await this.prisma.invoice.upsert({
+      where: { id: invoice.id },
+      create: data,
+      update: data,
+    })
+
+    return InvoiceMapper.toEntity(saved)
+  }
+}
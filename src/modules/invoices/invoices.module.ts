@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common'
+import { CqrsModule } from '@nestjs/cqrs'
+import { IssueInvoiceHandler } from './application/commands/issue-invoice/issue-invoice.handler'
+import { GetInvoiceDownloadHandler } from './application/queries/get-invoice-download/get-invoice-download.handler'
+import { INVOICE_READ_REPOSITORY, INVOICE_RENDERER, INVOICE_WRITE_REPOSITORY } from './domain/ports'
+import { PdfInvoiceRenderer } from './infrastructure/renderers'
+import { InvoiceReadRepository } from './infrastructure/repositories/invoice-read.repository'
+import { InvoiceWriteRepository } from './infrastructure/repositories/invoice-write.repository'
+import { InvoicesController } from './presentation/controllers/invoices.controller'
+
+const CommandHandlers = [IssueInvoiceHandler]
+const QueryHandlers = [GetInvoiceDownloadHandler]
+
+@Module({
+  imports: [CqrsModule],
+  controllers: [InvoicesController],
+  providers: [
+    ...CommandHandlers,
+    ...QueryHandlers,
+    { provide: INVOICE_READ_REPOSITORY, useClass: InvoiceReadRepository },
+    { provide: INVOICE_WRITE_REPOSITORY, useClass: InvoiceWriteRepository },
+    { provide: INVOICE_RENDERER, useClass: PdfInvoiceRenderer },
+  ],
+})
+export class InvoicesModule {}
@@ -0,0 +1,55 @@
+import { IssueInvoiceCommand } from '@invoices/application/commands'
+import {
+  InvoiceDownloadProjection,
+  InvoiceIssuedProjection,
+} from '@invoices/application/projections'
+import { GetInvoiceDownloadQuery } from '@invoices/application/queries'
+import { Controller, Get, Param, Post } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Invoices')
+@ApiBearerAuth()
+@Controller('orders/:id/invoice')
+export class InvoicesController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  @Roles('admin', 'customer')
+  @Get()
+  @SuccessMessage('success.FETCHED', { entity: 'entities.invoice' })
+  @ApiOperation({ summary: 'Get a download link for the order receipt PDF (admin or buyer)' })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Invoice download link',
+    type: InvoiceDownloadProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order or invoice not found' })
+  async download(@Param('id') id: string, @CurrentUser() user: ICurrentUser) {
+    const userId = user.role === 'admin' ? null : user.userId
+    return this.queryBus.execute(new GetInvoiceDownloadQuery(id, userId))
+  }
+
+  @Roles('admin')
+  @Post()
+  @SuccessMessage('success.CREATED', { entity: 'entities.invoice' })
+  @ApiOperation({
+    summary: 'Issue the invoice of a paid or gifted order (idempotent; re-renders a missing PDF)',
+  })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Invoice issued',
+    type: InvoiceIssuedProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Order was not paid or gifted' })
+  async issue(@Param('id') id: string) {
+    return this.commandBus.execute(new IssueInvoiceCommand(id))
+  }
+}
@@ -4,6 +4,7 @@ export const NotificationEvent = {
   ORDER_PAID: 'order.paid',
   ORDER_DELIVERED: 'order.delivered',
   ORDER_RETOUCH_COMPLETED: 'order.retouch_completed',
+  ORDER_RETOUCH_SLA_AT_RISK: 'order.retouch_sla_at_risk',
 } as const
 
 export interface PreviewViewedPayload {
@@ -29,7 +30,8 @@ export interface OrderPaidPayload {
   eventId: string
   eventName: string
   customerName: string
-  confirmedBy: string
+  /** Admin who confirmed the payment; undefined when confirmed by the payment provider. */
+  confirmedBy?: string
   photoCount: number
   paidAt: Date
 }
@@ -50,3 +52,12 @@ export interface OrderRetouchCompletedPayload {
   photoCount: number
   completedAt: Date
 }
+
+export interface OrderRetouchSlaAtRiskPayload {
+  orderId: string
+  eventId: string
+  eventName: string
+  customerName: string
+  pendingPhotoCount: number
+  slaDeadline: Date
+}
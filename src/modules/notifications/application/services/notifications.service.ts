@@ -5,6 +5,7 @@ import {
   type OrderCreatedPayload,
   type OrderDeliveredPayload,
   type OrderPaidPayload,
+  type OrderRetouchSlaAtRiskPayload,
   type PreviewViewedPayload,
 } from './notification-events'
 
@@ -27,4 +28,8 @@ export class NotificationsService {
   emitOrderDelivered(payload: OrderDeliveredPayload): void {
     this.eventEmitter.emit(NotificationEvent.ORDER_DELIVERED, payload)
   }
+
+  emitOrderRetouchSlaAtRisk(payload: OrderRetouchSlaAtRiskPayload): void {
+    this.eventEmitter.emit(NotificationEvent.ORDER_RETOUCH_SLA_AT_RISK, payload)
+  }
 }
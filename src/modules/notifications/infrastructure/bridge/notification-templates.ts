@@ -3,6 +3,7 @@ import type {
   OrderDeliveredPayload,
   OrderPaidPayload,
   OrderRetouchCompletedPayload,
+  OrderRetouchSlaAtRiskPayload,
   PreviewViewedPayload,
 } from '@notifications/application/services/notification-events'
 import { NotificationEvent } from '@notifications/application/services/notification-events'
@@ -48,4 +49,11 @@ export const NOTIFICATION_TEMPLATES: Record<string, TemplateConfig> = {
       return `Todas las ${payload.photoCount} fotos del pedido de ${payload.customerName} (${payload.eventName}) están retocadas`
     },
   },
+  [NotificationEvent.ORDER_RETOUCH_SLA_AT_RISK]: {
+    title: 'Retoque por vencer',
+    message: (p) => {
+      const payload = p as OrderRetouchSlaAtRiskPayload
+      return `Quedan ${payload.pendingPhotoCount} fotos por retocar del pedido de ${payload.customerName} (${payload.eventName}) y el plazo está por vencer`
+    },
+  },
 }
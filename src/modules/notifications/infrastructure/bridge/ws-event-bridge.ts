@@ -11,6 +11,7 @@ import {
   type OrderDeliveredPayload,
   type OrderPaidPayload,
   type OrderRetouchCompletedPayload,
+  type OrderRetouchSlaAtRiskPayload,
   type PreviewViewedPayload,
 } from '@notifications/application/services/notification-events'
 import {
@@ -142,4 +143,16 @@ export class WsEventBridge {
       payload as unknown as Record<string, unknown>,
     )
   }
+
+  @OnEvent(NotificationEvent.ORDER_RETOUCH_SLA_AT_RISK, { async: true })
+  async handleOrderRetouchSlaAtRisk(payload: OrderRetouchSlaAtRiskPayload): Promise<void> {
+    this.logger.debug(`Processing order:retouch_sla_at_risk for ${payload.orderId}`)
+    const operatorIds = await this.getOperatorIdsForEvent(payload.eventId)
+    await this.persistAndBroadcast(
+      NotificationEvent.ORDER_RETOUCH_SLA_AT_RISK,
+      'order:retouch_sla_at_risk',
+      payload as unknown as Record<string, unknown>,
+      operatorIds,
+    )
+  }
 }
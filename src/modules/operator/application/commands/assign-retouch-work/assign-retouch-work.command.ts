@@ -0,0 +1,9 @@
+export class AssignRetouchWorkCommand {
+  constructor(
+    public readonly orderId: string,
+    /** Photos of the order to hand over; null hands over the whole order. */
+    public readonly photoIds: string[] | null,
+    /** Operator who gets the work. */
+    public readonly operatorId: string,
+  ) {}
+}
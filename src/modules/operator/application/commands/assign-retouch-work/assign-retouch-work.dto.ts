@@ -0,0 +1,19 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsOptional, IsUUID } from 'class-validator'
+
+export class AssignRetouchWorkDto {
+  @ApiProperty({ description: 'Operator who gets the work', format: 'uuid' })
+  @IsUUID('4')
+  operatorId: string
+
+  @ApiPropertyOptional({
+    description: 'Photos of the order to hand over. Omit to hand over the whole order.',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @IsUUID('4', { each: true })
+  photoIds?: string[]
+}
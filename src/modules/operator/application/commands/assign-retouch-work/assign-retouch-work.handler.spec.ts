@@ -0,0 +1,74 @@
+import type { ConfigService } from '@nestjs/config'
+import type { IOperatorRetouchReadRepository, IRetouchClaimRepository } from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
+import { AssignRetouchWorkCommand } from './assign-retouch-work.command'
+import { AssignRetouchWorkHandler } from './assign-retouch-work.handler'
+
+describe('AssignRetouchWorkHandler', () => {
+  let claimRepo: jest.Mocked<IRetouchClaimRepository>
+  let retouchRead: jest.Mocked<Pick<IOperatorRetouchReadRepository, 'isOperatorAssigned'>>
+  let handler: AssignRetouchWorkHandler
+
+  const pendingOrder = (paidAt: Date) => ({
+    orderId: 'order-1',
+    eventId: 'event-1',
+    paidAt,
+    pendingItems: [
+      {
+        orderItemId: 'item-1',
+        photoId: 'photo-1',
+        claimedById: 'op-1',
+        claimExpiresAt: new Date(Date.now() + 60_000),
+      },
+    ],
+  })
+
+  beforeEach(() => {
+    claimRepo = {
+      findOrder: jest.fn(),
+      claim: jest.fn(),
+      assign: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn(),
+    }
+    retouchRead = { isOperatorAssigned: jest.fn().mockResolvedValue(true) }
+    const config = { get: jest.fn().mockReturnValue(30) } as unknown as ConfigService
+    handler = new AssignRetouchWorkHandler(
+      claimRepo,
+      retouchRead as never,
+      new RetouchSla(48, 6),
+      config,
+    )
+  })
+
+  it('takes the photos from their holder until the SLA deadline', async () => {
+    const paidAt = new Date(Date.now() - 60 * 60 * 1000)
+    claimRepo.findOrder.mockResolvedValue(pendingOrder(paidAt))
+
+    const result = await handler.execute(new AssignRetouchWorkCommand('order-1', null, 'op-2'))
+
+    const [itemIds, operatorId, , expiresAt] = claimRepo.assign.mock.calls[0]
+    expect(itemIds).toEqual(['item-1'])
+    expect(operatorId).toBe('op-2')
+    expect(expiresAt).toEqual(new Date(paidAt.getTime() + 48 * 60 * 60 * 1000))
+    expect(result).toMatchObject({ operatorId: 'op-2', photoIds: ['photo-1'] })
+  })
+
+  it('gives one claim period when the deadline has passed', async () => {
+    claimRepo.findOrder.mockResolvedValue(pendingOrder(new Date('2026-01-01T00:00:00Z')))
+
+    await handler.execute(new AssignRetouchWorkCommand('order-1', null, 'op-2'))
+
+    const [, , now, expiresAt] = claimRepo.assign.mock.calls[0]
+    expect(expiresAt.getTime() - now.getTime()).toBe(30 * 60 * 1000)
+  })
+
+  it('refuses operators who do not work the event', async () => {
+    claimRepo.findOrder.mockResolvedValue(pendingOrder(new Date()))
+    retouchRead.isOperatorAssigned.mockResolvedValue(false)
+
+    await expect(
+      handler.execute(new AssignRetouchWorkCommand('order-1', null, 'op-9')),
+    ).rejects.toMatchObject({ messageKey: 'operator.not_assigned_to_event' })
+    expect(claimRepo.assign).not.toHaveBeenCalled()
+  })
+})
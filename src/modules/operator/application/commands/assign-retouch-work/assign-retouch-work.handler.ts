@@ -0,0 +1,65 @@
+import { Inject } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AppException } from '@shared/domain'
+import {
+  type IOperatorRetouchReadRepository,
+  type IRetouchClaimRepository,
+  OPERATOR_RETOUCH_READ_REPOSITORY,
+  RETOUCH_CLAIM_REPOSITORY,
+} from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
+import type { RetouchClaimProjection } from '../../projections'
+import { AssignRetouchWorkCommand } from './assign-retouch-work.command'
+
+const MINUTE_MS = 60 * 1000
+
+@CommandHandler(AssignRetouchWorkCommand)
+export class AssignRetouchWorkHandler implements ICommandHandler<AssignRetouchWorkCommand> {
+  private readonly claimTtlMinutes: number
+
+  constructor(
+    @Inject(RETOUCH_CLAIM_REPOSITORY) private readonly claimRepo: IRetouchClaimRepository,
+    @Inject(OPERATOR_RETOUCH_READ_REPOSITORY)
+    private readonly retouchRead: IOperatorRetouchReadRepository,
+    private readonly sla: RetouchSla,
+    config: ConfigService,
+  ) {
+    this.claimTtlMinutes = config.get<number>('retouch.claimTtlMinutes', 30)
+  }
+
+  async execute(command: AssignRetouchWorkCommand): Promise<RetouchClaimProjection> {
+    // 1. Find the paid order and the photos still waiting for a retouch
+    const order = await this.claimRepo.findOrder(command.orderId, command.photoIds)
+    if (!order) throw AppException.notFound('entities.order', command.orderId)
+
+    const wanted = command.photoIds === null ? null : new Set(command.photoIds)
+    if (order.pendingItems.length === 0 || (wanted && order.pendingItems.length < wanted.size)) {
+      throw AppException.businessRule('operator.retouch_photos_not_pending')
+    }
+
+    // 2. The new holder must work the event
+    const isAssigned = await this.retouchRead.isOperatorAssigned(order.eventId, command.operatorId)
+    if (!isAssigned) throw AppException.forbidden('operator.not_assigned_to_event')
+
+    // 3. Take the photos from whoever held them. The assignment lasts until the SLA
+    //    deadline, or one claim period when the deadline is closer than that.
+    const now = new Date()
+    const claimEnd = now.getTime() + this.claimTtlMinutes * MINUTE_MS
+    const deadline = order.paidAt ? this.sla.deadline(order.paidAt).getTime() : claimEnd
+    const expiresAt = new Date(Math.max(claimEnd, deadline))
+    await this.claimRepo.assign(
+      order.pendingItems.map((item) => item.orderItemId),
+      command.operatorId,
+      now,
+      expiresAt,
+    )
+
+    return {
+      orderId: order.orderId,
+      operatorId: command.operatorId,
+      photoIds: order.pendingItems.map((item) => item.photoId),
+      expiresAt: expiresAt.toISOString(),
+    }
+  }
+}
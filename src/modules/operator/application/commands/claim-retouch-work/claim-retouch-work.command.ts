@@ -0,0 +1,9 @@
+export class ClaimRetouchWorkCommand {
+  constructor(
+    public readonly orderId: string,
+    /** Photos of the order to claim; null claims every photo still waiting for a retouch. */
+    public readonly photoIds: string[] | null,
+    public readonly operatorId: string,
+    public readonly userRole: string,
+  ) {}
+}
@@ -0,0 +1,93 @@
+import type { ConfigService } from '@nestjs/config'
+import type {
+  IOperatorRetouchReadRepository,
+  IRetouchClaimRepository,
+  RetouchClaimOrderRow,
+} from '../../../domain/ports'
+import { ClaimRetouchWorkCommand } from './claim-retouch-work.command'
+import { ClaimRetouchWorkHandler } from './claim-retouch-work.handler'
+
+const buildOrder = (photoIds = ['photo-1', 'photo-2']): RetouchClaimOrderRow => ({
+  orderId: 'order-1',
+  eventId: 'event-1',
+  paidAt: new Date('2026-10-01T10:00:00Z'),
+  pendingItems: photoIds.map((photoId) => ({
+    orderItemId: `item-${photoId}`,
+    photoId,
+    claimedById: null,
+    claimExpiresAt: null,
+  })),
+})
+
+describe('ClaimRetouchWorkHandler', () => {
+  let claimRepo: jest.Mocked<IRetouchClaimRepository>
+  let retouchRead: jest.Mocked<Pick<IOperatorRetouchReadRepository, 'isOperatorAssigned'>>
+  let handler: ClaimRetouchWorkHandler
+
+  beforeEach(() => {
+    claimRepo = {
+      findOrder: jest.fn().mockResolvedValue(buildOrder()),
+      claim: jest.fn().mockResolvedValue(true),
+      assign: jest.fn(),
+      release: jest.fn(),
+    }
+    retouchRead = { isOperatorAssigned: jest.fn().mockResolvedValue(true) }
+    const config = { get: jest.fn().mockReturnValue(30) } as unknown as ConfigService
+    handler = new ClaimRetouchWorkHandler(claimRepo, retouchRead as never, config)
+  })
+
+  it('claims every pending photo of the order for the claim period', async () => {
+    const result = await handler.execute(
+      new ClaimRetouchWorkCommand('order-1', null, 'op-1', 'operator'),
+    )
+
+    const [itemIds, operatorId, now, expiresAt] = claimRepo.claim.mock.calls[0]
+    expect(itemIds).toEqual(['item-photo-1', 'item-photo-2'])
+    expect(operatorId).toBe('op-1')
+    expect(expiresAt.getTime() - now.getTime()).toBe(30 * 60 * 1000)
+    expect(result).toEqual({
+      orderId: 'order-1',
+      operatorId: 'op-1',
+      photoIds: ['photo-1', 'photo-2'],
+      expiresAt: expiresAt.toISOString(),
+    })
+  })
+
+  it('refuses when another operator holds one of the photos', async () => {
+    claimRepo.claim.mockResolvedValue(false)
+
+    await expect(
+      handler.execute(new ClaimRetouchWorkCommand('order-1', null, 'op-1', 'operator')),
+    ).rejects.toMatchObject({ messageKey: 'operator.retouch_already_claimed' })
+  })
+
+  it('refuses photos that do not wait for a retouch in the order', async () => {
+    claimRepo.findOrder.mockResolvedValue(buildOrder(['photo-1']))
+
+    await expect(
+      handler.execute(
+        new ClaimRetouchWorkCommand('order-1', ['photo-1', 'photo-9'], 'op-1', 'operator'),
+      ),
+    ).rejects.toMatchObject({ messageKey: 'operator.retouch_photos_not_pending' })
+    expect(claimRepo.claim).not.toHaveBeenCalled()
+  })
+
+  it('refuses operators not assigned to the event, but not admins', async () => {
+    retouchRead.isOperatorAssigned.mockResolvedValue(false)
+
+    await expect(
+      handler.execute(new ClaimRetouchWorkCommand('order-1', null, 'op-2', 'operator')),
+    ).rejects.toMatchObject({ messageKey: 'operator.not_assigned_to_event' })
+
+    await handler.execute(new ClaimRetouchWorkCommand('order-1', null, 'admin-1', 'admin'))
+    expect(claimRepo.claim).toHaveBeenCalledTimes(1)
+  })
+
+  it('hides orders that are not paid', async () => {
+    claimRepo.findOrder.mockResolvedValue(null)
+
+    await expect(
+      handler.execute(new ClaimRetouchWorkCommand('order-1', null, 'op-1', 'operator')),
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' })
+  })
+})
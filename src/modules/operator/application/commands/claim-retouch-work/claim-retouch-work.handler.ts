@@ -0,0 +1,65 @@
+import { Inject } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AppException } from '@shared/domain'
+import {
+  type IOperatorRetouchReadRepository,
+  type IRetouchClaimRepository,
+  OPERATOR_RETOUCH_READ_REPOSITORY,
+  RETOUCH_CLAIM_REPOSITORY,
+} from '../../../domain/ports'
+import type { RetouchClaimProjection } from '../../projections'
+import { ClaimRetouchWorkCommand } from './claim-retouch-work.command'
+
+const MINUTE_MS = 60 * 1000
+
+@CommandHandler(ClaimRetouchWorkCommand)
+export class ClaimRetouchWorkHandler implements ICommandHandler<ClaimRetouchWorkCommand> {
+  private readonly claimTtlMinutes: number
+
+  constructor(
+    @Inject(RETOUCH_CLAIM_REPOSITORY) private readonly claimRepo: IRetouchClaimRepository,
+    @Inject(OPERATOR_RETOUCH_READ_REPOSITORY)
+    private readonly retouchRead: IOperatorRetouchReadRepository,
+    config: ConfigService,
+  ) {
+    this.claimTtlMinutes = config.get<number>('retouch.claimTtlMinutes', 30)
+  }
+
+  async execute(command: ClaimRetouchWorkCommand): Promise<RetouchClaimProjection> {
+    // 1. Find the paid order and the photos still waiting for a retouch
+    const order = await this.claimRepo.findOrder(command.orderId, command.photoIds)
+    if (!order) throw AppException.notFound('entities.order', command.orderId)
+
+    if (command.userRole !== 'admin') {
+      const isAssigned = await this.retouchRead.isOperatorAssigned(
+        order.eventId,
+        command.operatorId,
+      )
+      if (!isAssigned) throw AppException.forbidden('operator.not_assigned_to_event')
+    }
+
+    const wanted = command.photoIds === null ? null : new Set(command.photoIds)
+    if (order.pendingItems.length === 0 || (wanted && order.pendingItems.length < wanted.size)) {
+      throw AppException.businessRule('operator.retouch_photos_not_pending')
+    }
+
+    // 2. Lock them all, or none when another operator still holds one
+    const now = new Date()
+    const expiresAt = new Date(now.getTime() + this.claimTtlMinutes * MINUTE_MS)
+    const claimed = await this.claimRepo.claim(
+      order.pendingItems.map((item) => item.orderItemId),
+      command.operatorId,
+      now,
+      expiresAt,
+    )
+    if (!claimed) throw AppException.conflict('operator.retouch_already_claimed')
+
+    return {
+      orderId: order.orderId,
+      operatorId: command.operatorId,
+      photoIds: order.pendingItems.map((item) => item.photoId),
+      expiresAt: expiresAt.toISOString(),
+    }
+  }
+}
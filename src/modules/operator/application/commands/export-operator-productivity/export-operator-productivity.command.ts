@@ -0,0 +1,14 @@
+import type { AuditContext } from '@shared/application'
+
+export type ProductivityExportFormat = 'csv' | 'xlsx'
+
+export class ExportOperatorProductivityCommand {
+  constructor(
+    public readonly from: Date,
+    public readonly to: Date,
+    public readonly eventId: string | null,
+    public readonly operatorId: string | null,
+    public readonly format: ProductivityExportFormat,
+    public readonly audit: AuditContext,
+  ) {}
+}
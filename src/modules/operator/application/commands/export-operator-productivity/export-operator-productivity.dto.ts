@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsIn } from 'class-validator'
+import { GetOperatorProductivityDto } from '../../queries/get-operator-productivity/get-operator-productivity.dto'
+import type { ProductivityExportFormat } from './export-operator-productivity.command'
+
+export class ExportOperatorProductivityDto extends GetOperatorProductivityDto {
+  @ApiProperty({ description: 'File format', enum: ['csv', 'xlsx'] })
+  @IsIn(['csv', 'xlsx'])
+  format: ProductivityExportFormat
+}
@@ -0,0 +1,95 @@
+import { AuditContext } from '@shared/application'
+import type { IStorageAdapter } from '@shared/storage/domain/ports'
+import type { OperatorProductivityReport } from '../../services/operator-productivity-report.service'
+import { ExportOperatorProductivityCommand } from './export-operator-productivity.command'
+import { ExportOperatorProductivityHandler } from './export-operator-productivity.handler'
+
+describe('ExportOperatorProductivityHandler', () => {
+  let report: jest.Mocked<Pick<OperatorProductivityReport, 'build'>>
+  let storage: jest.Mocked<Pick<IStorageAdapter, 'upload' | 'getPresignedDownloadUrl'>>
+  let handler: ExportOperatorProductivityHandler
+
+  const from = new Date('2026-10-01T00:00:00Z')
+  const to = new Date('2026-10-31T23:59:59Z')
+  const command = (format: 'csv' | 'xlsx') =>
+    new ExportOperatorProductivityCommand(
+      from,
+      to,
+      'e-1',
+      null,
+      format,
+      new AuditContext('admin-1'),
+    )
+
+  beforeEach(() => {
+    report = {
+      build: jest.fn().mockResolvedValue({
+        from,
+        to,
+        eventId: 'e-1',
+        operatorId: null,
+        operators: [
+          {
+            operatorId: 'op-1',
+            operatorName: 'Ana',
+            operatorEmail: 'ana@example.com',
+            photosReviewed: 12,
+            correctionsMade: 3,
+            retouchesDelivered: 2,
+            medianSecondsPerItem: 40,
+            events: [
+              {
+                eventId: 'e-1',
+                eventName: 'Vuelta',
+                photosReviewed: 12,
+                correctionsMade: 3,
+                retouchesDelivered: 2,
+                medianSecondsPerItem: 40,
+              },
+            ],
+          },
+        ],
+      }),
+    }
+    storage = {
+      upload: jest.fn().mockResolvedValue({ key: 'k', url: 'u' }),
+      getPresignedDownloadUrl: jest.fn().mockResolvedValue('https://signed'),
+    }
+    handler = new ExportOperatorProductivityHandler(report as never, storage as never)
+  })
+
+  it('uploads the CSV and returns a download link named after the window', async () => {
+    const result = await handler.execute(command('csv'))
+
+    expect(report.build).toHaveBeenCalledWith({ from, to, eventId: 'e-1', operatorId: null })
+    const upload = storage.upload.mock.calls[0][0]
+    expect(upload.contentType).toBe('text/csv')
+    expect(upload.key).toMatch(/^reports\/operator-productivity\/.+\.csv$/)
+    expect(upload.buffer.toString('utf8').split('\n')[1]).toBe(
+      'op-1,Ana,ana@example.com,e-1,Vuelta,12,3,2,40',
+    )
+    expect(storage.getPresignedDownloadUrl).toHaveBeenCalledWith({
+      key: upload.key,
+      filename: 'operator-productivity_2026-10-01_2026-10-31.csv',
+      expiresIn: 3600,
+    })
+    expect(result).toEqual({
+      format: 'csv',
+      filename: 'operator-productivity_2026-10-01_2026-10-31.csv',
+      storageKey: upload.key,
+      downloadUrl: 'https://signed',
+      expiresIn: 3600,
+    })
+  })
+
+  it('writes an XLSX workbook when asked for one', async () => {
+    const result = await handler.execute(command('xlsx'))
+
+    const upload = storage.upload.mock.calls[0][0]
+    expect(upload.contentType).toBe(
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    )
+    expect(upload.buffer.readUInt32LE(0)).toBe(0x04034b50)
+    expect(result.filename).toBe('operator-productivity_2026-10-01_2026-10-31.xlsx')
+  })
+})
@@ -0,0 +1,77 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { OperatorProductivity } from '../../../domain/services/operator-productivity.service'
+import { writeXlsx } from '../../../infrastructure/writers/xlsx.writer'
+import type { OperatorProductivityExportProjection } from '../../projections'
+import { OperatorProductivityReport } from '../../services/operator-productivity-report.service'
+import { ExportOperatorProductivityCommand } from './export-operator-productivity.command'
+
+const DOWNLOAD_URL_EXPIRY_SECONDS = 3600
+
+const CONTENT_TYPES = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const
+
+const day = (date: Date): string => date.toISOString().slice(0, 10)
+
+/**
+ * Writes the payroll report as a CSV or XLSX file with one row per operator and event,
+ * stores it, and hands back a download link.
+ */
+@CommandHandler(ExportOperatorProductivityCommand)
+export class ExportOperatorProductivityHandler
+  implements ICommandHandler<ExportOperatorProductivityCommand>
+{
+  private readonly logger = new Logger(ExportOperatorProductivityHandler.name)
+
+  constructor(
+    private readonly report: OperatorProductivityReport,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  async execute(
+    command: ExportOperatorProductivityCommand,
+  ): Promise<OperatorProductivityExportProjection> {
+    const report = await this.report.build({
+      from: command.from,
+      to: command.to,
+      eventId: command.eventId,
+      operatorId: command.operatorId,
+    })
+    const table = OperatorProductivity.toTable(report.operators)
+    const buffer =
+      command.format === 'csv'
+        ? Buffer.from(OperatorProductivity.toCsv(table))
+        : writeXlsx(table, 'Productivity')
+
+    const storageKey = `reports/operator-productivity/${crypto.randomUUID()}.${command.format}`
+    const filename = `operator-productivity_${day(command.from)}_${day(command.to)}.${command.format}`
+    await this.storage.upload({
+      buffer,
+      key: storageKey,
+      contentType: CONTENT_TYPES[command.format],
+    })
+    const downloadUrl = await this.storage.getPresignedDownloadUrl({
+      key: storageKey,
+      filename,
+      expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS,
+    })
+
+    this.logger.log({
+      event: 'operator_productivity_exported',
+      storage_key: storageKey,
+      operators: report.operators.length,
+      requested_by: command.audit.userId,
+    })
+
+    return {
+      format: command.format,
+      filename,
+      storageKey,
+      downloadUrl,
+      expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS,
+    }
+  }
+}
@@ -0,0 +1,9 @@
+export class ReleaseRetouchWorkCommand {
+  constructor(
+    public readonly orderId: string,
+    /** Photos of the order to release; null releases the whole order. */
+    public readonly photoIds: string[] | null,
+    public readonly operatorId: string,
+    public readonly userRole: string,
+  ) {}
+}
@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsOptional, IsUUID } from 'class-validator'
+
+export class ReleaseRetouchWorkDto {
+  @ApiPropertyOptional({
+    description: 'Photos of the order to release. Omit to release the whole order.',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @IsUUID('4', { each: true })
+  photoIds?: string[]
+}
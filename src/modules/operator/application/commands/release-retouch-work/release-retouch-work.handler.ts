@@ -0,0 +1,26 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AppException } from '@shared/domain'
+import { type IRetouchClaimRepository, RETOUCH_CLAIM_REPOSITORY } from '../../../domain/ports'
+import type { RetouchClaimReleaseProjection } from '../../projections'
+import { ReleaseRetouchWorkCommand } from './release-retouch-work.command'
+
+@CommandHandler(ReleaseRetouchWorkCommand)
+export class ReleaseRetouchWorkHandler implements ICommandHandler<ReleaseRetouchWorkCommand> {
+  constructor(
+    @Inject(RETOUCH_CLAIM_REPOSITORY) private readonly claimRepo: IRetouchClaimRepository,
+  ) {}
+
+  async execute(command: ReleaseRetouchWorkCommand): Promise<RetouchClaimReleaseProjection> {
+    const order = await this.claimRepo.findOrder(command.orderId, command.photoIds)
+    if (!order) throw AppException.notFound('entities.order', command.orderId)
+
+    // Operators drop only their own claims; admins can free anyone's
+    const released = await this.claimRepo.release(
+      order.pendingItems.map((item) => item.orderItemId),
+      command.userRole === 'admin' ? null : command.operatorId,
+    )
+
+    return { orderId: order.orderId, released }
+  }
+}
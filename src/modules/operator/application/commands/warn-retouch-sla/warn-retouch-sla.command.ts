@@ -0,0 +1,3 @@
+export class WarnRetouchSlaCommand {
+  constructor(public readonly orderId: string) {}
+}
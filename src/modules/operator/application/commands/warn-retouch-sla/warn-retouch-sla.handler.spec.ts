@@ -0,0 +1,51 @@
+import type { NotificationsService } from '@notifications/application/services/notifications.service'
+import type { IOperatorRetouchReadRepository } from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
+import { WarnRetouchSlaCommand } from './warn-retouch-sla.command'
+import { WarnRetouchSlaHandler } from './warn-retouch-sla.handler'
+
+describe('WarnRetouchSlaHandler', () => {
+  let retouchRead: jest.Mocked<Pick<IOperatorRetouchReadRepository, 'findPendingSlaOrder'>>
+  let notifications: { emitOrderRetouchSlaAtRisk: jest.Mock }
+  let handler: WarnRetouchSlaHandler
+
+  beforeEach(() => {
+    retouchRead = { findPendingSlaOrder: jest.fn() }
+    notifications = { emitOrderRetouchSlaAtRisk: jest.fn() }
+    handler = new WarnRetouchSlaHandler(
+      retouchRead as never,
+      notifications as unknown as NotificationsService,
+      new RetouchSla(48, 6),
+    )
+  })
+
+  it('warns about an order still waiting for retouches', async () => {
+    retouchRead.findPendingSlaOrder.mockResolvedValue({
+      orderId: 'order-1',
+      eventId: 'event-1',
+      eventName: 'Vuelta Ciclista',
+      buyerName: 'Ana Gómez',
+      paidAt: new Date('2026-10-01T10:00:00Z'),
+      pendingPhotosCount: 3,
+    })
+
+    await handler.execute(new WarnRetouchSlaCommand('order-1'))
+
+    expect(notifications.emitOrderRetouchSlaAtRisk).toHaveBeenCalledWith({
+      orderId: 'order-1',
+      eventId: 'event-1',
+      eventName: 'Vuelta Ciclista',
+      customerName: 'Ana Gómez',
+      pendingPhotoCount: 3,
+      slaDeadline: new Date('2026-10-03T10:00:00Z'),
+    })
+  })
+
+  it('stays quiet once nothing waits for a retouch', async () => {
+    retouchRead.findPendingSlaOrder.mockResolvedValue(null)
+
+    await handler.execute(new WarnRetouchSlaCommand('order-1'))
+
+    expect(notifications.emitOrderRetouchSlaAtRisk).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,34 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { NotificationsService } from '@notifications/application/services/notifications.service'
+import {
+  type IOperatorRetouchReadRepository,
+  OPERATOR_RETOUCH_READ_REPOSITORY,
+} from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
+import { WarnRetouchSlaCommand } from './warn-retouch-sla.command'
+
+@CommandHandler(WarnRetouchSlaCommand)
+export class WarnRetouchSlaHandler implements ICommandHandler<WarnRetouchSlaCommand> {
+  constructor(
+    @Inject(OPERATOR_RETOUCH_READ_REPOSITORY)
+    private readonly retouchRead: IOperatorRetouchReadRepository,
+    private readonly notifications: NotificationsService,
+    private readonly sla: RetouchSla,
+  ) {}
+
+  async execute(command: WarnRetouchSlaCommand): Promise<void> {
+    // Orders finished, refunded or cancelled in time have nothing to warn about
+    const order = await this.retouchRead.findPendingSlaOrder(command.orderId)
+    if (!order) return
+
+    this.notifications.emitOrderRetouchSlaAtRisk({
+      orderId: order.orderId,
+      eventId: order.eventId,
+      eventName: order.eventName,
+      customerName: order.buyerName,
+      pendingPhotoCount: order.pendingPhotosCount,
+      slaDeadline: this.sla.deadline(order.paidAt),
+    })
+  }
+}
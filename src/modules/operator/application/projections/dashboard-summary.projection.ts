@@ -4,4 +4,8 @@ export class DashboardSummaryProjection {
   @ApiProperty() pendingReviewCount: number
   @ApiProperty() pendingRetouchCount: number
   @ApiProperty() assignedEventsCount: number
+  @ApiProperty({ description: 'Paid orders close to their retouch SLA deadline' })
+  retouchSlaAtRiskCount: number
+  @ApiProperty({ description: 'Paid orders past their retouch SLA deadline' })
+  retouchSlaBreachedCount: number
 }
@@ -7,9 +7,17 @@ export {
 } from './operator-active-event-stats.projection'
 export { OperatorCompletedEventProjection } from './operator-completed-event.projection'
 export { OperatorCompletedEventStatsProjection } from './operator-completed-event-stats.projection'
+export {
+  EventProductivityProjection,
+  OperatorProductivityExportProjection,
+  OperatorProductivityProjection,
+  OperatorProductivityReportProjection,
+  ProductivityFiguresProjection,
+} from './operator-productivity.projection'
 export {
   OperatorRetouchOrderDetailPhotoProjection,
   OperatorRetouchOrderDetailProjection,
+  OperatorRetouchRequestProjection,
 } from './operator-retouch-order-detail.projection'
 export {
   OperatorRetouchOrderPreviewPhotoProjection,
@@ -20,6 +28,12 @@ export {
   OperatorReviewQueueItemProjection,
 } from './operator-review-queue-item.projection'
 export { RecentActivityProjection } from './recent-activity.projection'
+export {
+  OperatorRetouchClaimantProjection,
+  OperatorRetouchClaimProjection,
+  RetouchClaimProjection,
+  RetouchClaimReleaseProjection,
+} from './retouch-claim.projection'
 export {
   RetouchQueueItemProjection,
   RetouchQueueOrderProjection,
@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/** What one operator did in the window, as paid for. */
+export class ProductivityFiguresProjection {
+  @ApiProperty({ description: 'Photos the operator marked reviewed (each counted once)' })
+  photosReviewed: number
+
+  @ApiProperty({ description: 'Bib and color corrections the operator made' })
+  correctionsMade: number
+
+  @ApiProperty({ description: 'Retouched files the operator uploaded, revisions included' })
+  retouchesDelivered: number
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description:
+      'Median seconds between the operator’s consecutive items, pauses over 30 minutes left out; null when no item could be timed',
+    example: 42,
+  })
+  medianSecondsPerItem: number | null
+}
+
+export class EventProductivityProjection extends ProductivityFiguresProjection {
+  @ApiProperty()
+  eventId: string
+
+  @ApiProperty()
+  eventName: string
+}
+
+export class OperatorProductivityProjection extends ProductivityFiguresProjection {
+  @ApiProperty()
+  operatorId: string
+
+  @ApiProperty({ description: 'Full name, or the email when the user has none' })
+  operatorName: string
+
+  @ApiProperty()
+  operatorEmail: string
+
+  @ApiProperty({ type: [EventProductivityProjection] })
+  events: EventProductivityProjection[]
+}
+
+export class OperatorProductivityReportProjection {
+  @ApiProperty()
+  from: Date
+
+  @ApiProperty()
+  to: Date
+
+  @ApiProperty({ type: String, nullable: true })
+  eventId: string | null
+
+  @ApiProperty({ type: String, nullable: true })
+  operatorId: string | null
+
+  @ApiProperty({ type: [OperatorProductivityProjection] })
+  operators: OperatorProductivityProjection[]
+}
+
+export class OperatorProductivityExportProjection {
+  @ApiProperty({ enum: ['csv', 'xlsx'] })
+  format: 'csv' | 'xlsx'
+
+  @ApiProperty({ example: 'operator-productivity_2026-10-01_2026-10-31.xlsx' })
+  filename: string
+
+  @ApiProperty({ example: 'reports/operator-productivity/4f0c….xlsx' })
+  storageKey: string
+
+  @ApiProperty({ description: 'Presigned download URL' })
+  downloadUrl: string
+
+  @ApiProperty({ description: 'Seconds the download URL stays valid', example: 3600 })
+  expiresIn: number
+}
@@ -1,4 +1,22 @@
 import { ApiProperty } from '@nestjs/swagger'
+import {
+  RETOUCH_SLA_STATUSES,
+  type RetouchSlaStatus,
+} from '../../domain/value-objects/retouch-sla.vo'
+import { OperatorRetouchClaimProjection } from './retouch-claim.projection'
+
+export class OperatorRetouchRequestProjection {
+  @ApiProperty({ description: 'What the customer asked the retoucher to do' })
+  instructions: string
+  @ApiProperty({ enum: ['requested', 'awaiting_approval', 'revision_requested', 'approved'] })
+  status: string
+  @ApiProperty({
+    nullable: true,
+    type: String,
+    description: 'What the customer asked to change after the first retouch',
+  })
+  revisionFeedback: string | null
+}
 
 export class OperatorRetouchOrderDetailPhotoProjection {
   @ApiProperty() photoId: string
@@ -6,6 +24,10 @@ export class OperatorRetouchOrderDetailPhotoProjection {
   @ApiProperty() filename: string
   @ApiProperty() thumbnailUrl: string
   @ApiProperty() isRetouched: boolean
+  @ApiProperty({ type: OperatorRetouchClaimProjection, nullable: true })
+  claim: OperatorRetouchClaimProjection | null
+  @ApiProperty({ type: OperatorRetouchRequestProjection, nullable: true })
+  retouchRequest: OperatorRetouchRequestProjection | null
 }
 
 export class OperatorRetouchOrderDetailProjection {
@@ -14,6 +36,15 @@ export class OperatorRetouchOrderDetailProjection {
   @ApiProperty() eventId: string
   @ApiProperty() eventName: string
   @ApiProperty() createdAt: string
+  @ApiProperty({ nullable: true, type: String }) paidAt: string | null
+  @ApiProperty({ nullable: true, type: String, description: 'Payment time plus the retouch SLA' })
+  slaDeadline: string | null
+  @ApiProperty({
+    enum: RETOUCH_SLA_STATUSES,
+    nullable: true,
+    description: 'Null once no photo of the order waits for a retouch',
+  })
+  slaStatus: RetouchSlaStatus | null
   @ApiProperty({ type: [OperatorRetouchOrderDetailPhotoProjection] })
   photos: OperatorRetouchOrderDetailPhotoProjection[]
 }
@@ -1,4 +1,9 @@
 import { ApiProperty } from '@nestjs/swagger'
+import {
+  RETOUCH_SLA_STATUSES,
+  type RetouchSlaStatus,
+} from '../../domain/value-objects/retouch-sla.vo'
+import { OperatorRetouchClaimantProjection } from './retouch-claim.projection'
 
 export class OperatorRetouchOrderPreviewPhotoProjection {
   @ApiProperty() photoId: string
@@ -13,9 +18,23 @@ export class OperatorRetouchOrderProjection {
   @ApiProperty() eventId: string
   @ApiProperty() eventName: string
   @ApiProperty() createdAt: string
+  @ApiProperty({ nullable: true, type: String }) paidAt: string | null
+  @ApiProperty({ nullable: true, type: String, description: 'Payment time plus the retouch SLA' })
+  slaDeadline: string | null
+  @ApiProperty({
+    enum: RETOUCH_SLA_STATUSES,
+    nullable: true,
+    description: 'Null once no photo of the order waits for a retouch',
+  })
+  slaStatus: RetouchSlaStatus | null
   @ApiProperty() pendingPhotosCount: number
   @ApiProperty() totalPhotosCount: number
   @ApiProperty() retouchedPhotosCount: number
   @ApiProperty({ type: [OperatorRetouchOrderPreviewPhotoProjection] })
   previewPhotos: OperatorRetouchOrderPreviewPhotoProjection[]
+  @ApiProperty({
+    type: [OperatorRetouchClaimantProjection],
+    description: 'Operators holding a pending photo of the order',
+  })
+  claimants: OperatorRetouchClaimantProjection[]
 }
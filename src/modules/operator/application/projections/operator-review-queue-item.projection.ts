@@ -17,6 +17,11 @@ export class OperatorReviewQueueItemProjection {
   @ApiProperty({ nullable: true, type: Number }) minBibConfidence: number | null
   @ApiProperty() bibsCount: number
   @ApiProperty() colorsCount: number
+  @ApiProperty({ type: [String], description: 'Bib readings the timing data contradicts' })
+  implausibleBibs: string[]
+  @ApiProperty({ type: [String], description: 'Bibs suggested from other frames of the burst' })
+  suggestedBibs: string[]
+  @ApiProperty({ nullable: true, type: String }) burstId: string | null
   @ApiProperty({ type: OperatorReviewQueueItemEventProjection })
   event: OperatorReviewQueueItemEventProjection
 }
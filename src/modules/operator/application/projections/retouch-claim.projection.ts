@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+export class RetouchClaimProjection {
+  @ApiProperty() orderId: string
+  @ApiProperty({ description: 'Operator now holding the photos' }) operatorId: string
+  @ApiProperty({ type: [String] }) photoIds: string[]
+  @ApiProperty({ description: 'When the claim lapses unless renewed' }) expiresAt: string
+}
+
+export class RetouchClaimReleaseProjection {
+  @ApiProperty() orderId: string
+  @ApiProperty({ description: 'Photos whose claim was dropped' }) released: number
+}
+
+export class OperatorRetouchClaimantProjection {
+  @ApiProperty() operatorId: string
+  @ApiProperty() operatorName: string
+}
+
+export class OperatorRetouchClaimProjection extends OperatorRetouchClaimantProjection {
+  @ApiProperty() claimedAt: string
+  @ApiProperty() expiresAt: string
+}
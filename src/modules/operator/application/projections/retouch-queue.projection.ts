@@ -1,9 +1,16 @@
 import { ApiProperty } from '@nestjs/swagger'
+import {
+  RETOUCH_SLA_STATUSES,
+  type RetouchSlaStatus,
+} from '../../domain/value-objects/retouch-sla.vo'
+import { OperatorRetouchClaimProjection } from './retouch-claim.projection'
 
 export class RetouchQueueItemProjection {
   @ApiProperty() photoId: string
   @ApiProperty() thumbnailUrl: string
   @ApiProperty() isRetouched: boolean
+  @ApiProperty({ type: OperatorRetouchClaimProjection, nullable: true })
+  claim: OperatorRetouchClaimProjection | null
 }
 
 export class RetouchQueueOrderProjection {
@@ -12,6 +19,15 @@ export class RetouchQueueOrderProjection {
   @ApiProperty() eventId: string
   @ApiProperty() eventName: string
   @ApiProperty() createdAt: string
+  @ApiProperty({ nullable: true, type: String }) paidAt: string | null
+  @ApiProperty({ nullable: true, type: String, description: 'Payment time plus the retouch SLA' })
+  slaDeadline: string | null
+  @ApiProperty({
+    enum: RETOUCH_SLA_STATUSES,
+    nullable: true,
+    description: 'Null once no photo of the order waits for a retouch',
+  })
+  slaStatus: RetouchSlaStatus | null
   @ApiProperty() totalItems: number
   @ApiProperty() retouchedItems: number
   @ApiProperty({ type: [RetouchQueueItemProjection] }) items: RetouchQueueItemProjection[]
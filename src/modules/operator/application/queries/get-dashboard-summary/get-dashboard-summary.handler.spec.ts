@@ -1,5 +1,6 @@
 import type { IEventReadRepository } from '@events/domain/ports'
-import type { IOperatorReadRepository } from '../../../domain/ports'
+import type { IOperatorReadRepository, IOperatorRetouchReadRepository } from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
 import { GetDashboardSummaryHandler } from './get-dashboard-summary.handler'
 import { GetDashboardSummaryQuery } from './get-dashboard-summary.query'
 
@@ -9,6 +10,7 @@ describe('GetDashboardSummaryHandler', () => {
     Pick<IOperatorReadRepository, 'countPendingReview' | 'countPendingRetouch'>
   >
   let eventRead: jest.Mocked<Pick<IEventReadRepository, 'getAssignedEventIdsByStatus'>>
+  let retouchRead: jest.Mocked<Pick<IOperatorRetouchReadRepository, 'countPendingOrders'>>
 
   beforeEach(() => {
     operatorRead = {
@@ -18,7 +20,15 @@ describe('GetDashboardSummaryHandler', () => {
     eventRead = {
       getAssignedEventIdsByStatus: jest.fn(),
     }
-    handler = new GetDashboardSummaryHandler(operatorRead as never, eventRead as never)
+    retouchRead = {
+      countPendingOrders: jest.fn().mockResolvedValue(0),
+    }
+    handler = new GetDashboardSummaryHandler(
+      operatorRead as never,
+      eventRead as never,
+      retouchRead as never,
+      new RetouchSla(48, 6),
+    )
   })
 
   it('returns zeros when operator has no assigned active events', async () => {
@@ -35,6 +45,8 @@ describe('GetDashboardSummaryHandler', () => {
       pendingReviewCount: 0,
       pendingRetouchCount: 0,
       assignedEventsCount: 0,
+      retouchSlaAtRiskCount: 0,
+      retouchSlaBreachedCount: 0,
     })
   })
 
@@ -51,6 +63,23 @@ describe('GetDashboardSummaryHandler', () => {
       pendingReviewCount: 12,
       pendingRetouchCount: 3,
       assignedEventsCount: 2,
+      retouchSlaAtRiskCount: 0,
+      retouchSlaBreachedCount: 0,
     })
   })
+
+  it('counts the orders at risk and past their retouch SLA', async () => {
+    eventRead.getAssignedEventIdsByStatus.mockResolvedValue(['e-1'])
+    operatorRead.countPendingReview.mockResolvedValue(0)
+    operatorRead.countPendingRetouch.mockResolvedValue(4)
+    retouchRead.countPendingOrders.mockResolvedValueOnce(2).mockResolvedValueOnce(1)
+
+    const result = await handler.execute(new GetDashboardSummaryQuery('op-1'))
+
+    const [[, atRisk], [, breached]] = retouchRead.countPendingOrders.mock.calls
+    expect(breached.after).toBeNull()
+    expect(atRisk.after).toEqual(breached.until)
+    expect(atRisk.until.getTime() - breached.until.getTime()).toBe(6 * 60 * 60 * 1000)
+    expect(result).toMatchObject({ retouchSlaAtRiskCount: 2, retouchSlaBreachedCount: 1 })
+  })
 })
@@ -1,7 +1,13 @@
 import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
 import { Inject } from '@nestjs/common'
 import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
-import { type IOperatorReadRepository, OPERATOR_READ_REPOSITORY } from '../../../domain/ports'
+import {
+  type IOperatorReadRepository,
+  type IOperatorRetouchReadRepository,
+  OPERATOR_READ_REPOSITORY,
+  OPERATOR_RETOUCH_READ_REPOSITORY,
+} from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
 import type { DashboardSummaryProjection } from '../../projections/dashboard-summary.projection'
 import { GetDashboardSummaryQuery } from './get-dashboard-summary.query'
 
@@ -12,20 +18,30 @@ export class GetDashboardSummaryHandler implements IQueryHandler<GetDashboardSum
     private readonly operatorRead: IOperatorReadRepository,
     @Inject(EVENT_READ_REPOSITORY)
     private readonly eventRead: IEventReadRepository,
+    @Inject(OPERATOR_RETOUCH_READ_REPOSITORY)
+    private readonly retouchRead: IOperatorRetouchReadRepository,
+    private readonly sla: RetouchSla,
   ) {}
 
   async execute(query: GetDashboardSummaryQuery): Promise<DashboardSummaryProjection> {
     const eventIds = await this.eventRead.getAssignedEventIdsByStatus(query.operatorId, 'active')
 
-    const [pendingReviewCount, pendingRetouchCount] = await Promise.all([
-      this.operatorRead.countPendingReview(query.operatorId, eventIds),
-      this.operatorRead.countPendingRetouch(query.operatorId, eventIds),
-    ])
+    const now = new Date()
+    const [pendingReviewCount, pendingRetouchCount, atRiskCount, breachedCount] = await Promise.all(
+      [
+        this.operatorRead.countPendingReview(query.operatorId, eventIds),
+        this.operatorRead.countPendingRetouch(query.operatorId, eventIds),
+        this.retouchRead.countPendingOrders(eventIds, this.sla.paidWindow('at_risk', now)),
+        this.retouchRead.countPendingOrders(eventIds, this.sla.paidWindow('breached', now)),
+      ],
+    )
 
     return {
       pendingReviewCount,
       pendingRetouchCount,
       assignedEventsCount: eventIds.length,
+      retouchSlaAtRiskCount: atRiskCount,
+      retouchSlaBreachedCount: breachedCount,
     }
   }
 }
@@ -0,0 +1,31 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { IsDate, IsOptional, IsUUID } from 'class-validator'
+
+export class GetOperatorProductivityDto {
+  @ApiProperty({
+    description: 'Only work done from this date',
+    example: '2026-10-01T00:00:00.000Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  from: Date
+
+  @ApiProperty({
+    description: 'Only work done up to this date',
+    example: '2026-10-31T23:59:59.000Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  to: Date
+
+  @ApiPropertyOptional({ description: 'Only photos of this event', format: 'uuid' })
+  @IsUUID()
+  @IsOptional()
+  eventId?: string
+
+  @ApiPropertyOptional({ description: 'Only this operator', format: 'uuid' })
+  @IsUUID()
+  @IsOptional()
+  operatorId?: string
+}
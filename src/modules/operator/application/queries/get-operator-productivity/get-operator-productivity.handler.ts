@@ -0,0 +1,18 @@
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { OperatorProductivityReportProjection } from '../../projections'
+import { OperatorProductivityReport } from '../../services/operator-productivity-report.service'
+import { GetOperatorProductivityQuery } from './get-operator-productivity.query'
+
+@QueryHandler(GetOperatorProductivityQuery)
+export class GetOperatorProductivityHandler implements IQueryHandler<GetOperatorProductivityQuery> {
+  constructor(private readonly report: OperatorProductivityReport) {}
+
+  execute(query: GetOperatorProductivityQuery): Promise<OperatorProductivityReportProjection> {
+    return this.report.build({
+      from: query.from,
+      to: query.to,
+      eventId: query.eventId,
+      operatorId: query.operatorId,
+    })
+  }
+}
@@ -0,0 +1,8 @@
+export class GetOperatorProductivityQuery {
+  constructor(
+    public readonly from: Date,
+    public readonly to: Date,
+    public readonly eventId: string | null,
+    public readonly operatorId: string | null,
+  ) {}
+}
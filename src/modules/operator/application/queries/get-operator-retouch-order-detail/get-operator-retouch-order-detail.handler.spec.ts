@@ -3,6 +3,7 @@ import type {
   IOperatorRetouchReadRepository,
   OperatorRetouchOrderDetailRow,
 } from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
 import { GetOperatorRetouchOrderDetailHandler } from './get-operator-retouch-order-detail.handler'
 import { GetOperatorRetouchOrderDetailQuery } from './get-operator-retouch-order-detail.query'
 
@@ -19,7 +20,11 @@ describe('GetOperatorRetouchOrderDetailHandler', () => {
       isOperatorAssigned: jest.fn(),
     }
     cdn = { internalUrl: jest.fn().mockReturnValue('https://cdn.test/thumb.jpg') }
-    handler = new GetOperatorRetouchOrderDetailHandler(retouchRead as never, cdn as never)
+    handler = new GetOperatorRetouchOrderDetailHandler(
+      retouchRead as never,
+      cdn as never,
+      new RetouchSla(48, 6),
+    )
   })
 
   const buildRow = (): OperatorRetouchOrderDetailRow => ({
@@ -28,18 +33,33 @@ describe('GetOperatorRetouchOrderDetailHandler', () => {
     eventId: 'event-1',
     eventName: 'Vuelta Ciclista',
     createdAt: new Date('2024-03-10T08:00:00Z'),
+    paidAt: new Date('2024-03-10T09:00:00Z'),
+    pendingPhotosCount: 2,
     photos: [
       {
         photoId: 'photo-1',
         publicSlug: 'slug-1',
         filename: 'IMG_001.jpg',
         retouchedStorageKey: null,
+        claim: {
+          operatorId: 'operator-1',
+          operatorName: 'Laura Retoques',
+          claimedAt: new Date('2024-03-10T10:00:00Z'),
+          expiresAt: new Date('2024-03-10T10:30:00Z'),
+        },
+        retouchRequest: null,
       },
       {
         photoId: 'photo-2',
         publicSlug: 'slug-2',
         filename: 'IMG_002.jpg',
         retouchedStorageKey: null,
+        claim: null,
+        retouchRequest: {
+          instructions: 'Quitar al espectador detrás de mí',
+          status: 'revision_requested',
+          revisionFeedback: 'Sigue viéndose su brazo',
+        },
       },
     ],
   })
@@ -59,6 +79,11 @@ describe('GetOperatorRetouchOrderDetailHandler', () => {
     expect(result.eventId).toBe('event-1')
     expect(result.eventName).toBe('Vuelta Ciclista')
     expect(result.createdAt).toBe('2024-03-10T08:00:00.000Z')
+    expect(result).toMatchObject({
+      paidAt: '2024-03-10T09:00:00.000Z',
+      slaDeadline: '2024-03-12T09:00:00.000Z',
+      slaStatus: 'breached',
+    })
     expect(result.photos).toHaveLength(2)
     expect(result.photos[0]).toMatchObject({
       photoId: 'photo-1',
@@ -66,6 +91,19 @@ describe('GetOperatorRetouchOrderDetailHandler', () => {
       filename: 'IMG_001.jpg',
       thumbnailUrl: 'https://cdn.test/thumb.jpg',
       isRetouched: false,
+      claim: {
+        operatorId: 'operator-1',
+        operatorName: 'Laura Retoques',
+        claimedAt: '2024-03-10T10:00:00.000Z',
+        expiresAt: '2024-03-10T10:30:00.000Z',
+      },
+      retouchRequest: null,
+    })
+    expect(result.photos[1].claim).toBeNull()
+    expect(result.photos[1].retouchRequest).toEqual({
+      instructions: 'Quitar al espectador detrás de mí',
+      status: 'revision_requested',
+      revisionFeedback: 'Sigue viéndose su brazo',
     })
   })
 
@@ -6,6 +6,7 @@ import {
   type IOperatorRetouchReadRepository,
   OPERATOR_RETOUCH_READ_REPOSITORY,
 } from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
 import { toOperatorRetouchOrderDetailProjection } from '../../../infrastructure/mappers/operator-retouch-order-detail.mapper'
 import type { OperatorRetouchOrderDetailProjection } from '../../projections'
 import { GetOperatorRetouchOrderDetailQuery } from './get-operator-retouch-order-detail.query'
@@ -18,6 +19,7 @@ export class GetOperatorRetouchOrderDetailHandler
     @Inject(OPERATOR_RETOUCH_READ_REPOSITORY)
     private readonly retouchRead: IOperatorRetouchReadRepository,
     private readonly cdn: CdnUrlBuilder,
+    private readonly sla: RetouchSla,
   ) {}
 
   async execute(
@@ -35,6 +37,6 @@ export class GetOperatorRetouchOrderDetailHandler
       }
     }
 
-    return toOperatorRetouchOrderDetailProjection(row, this.cdn)
+    return toOperatorRetouchOrderDetailProjection(row, this.cdn, this.sla, new Date())
   }
 }
@@ -1,6 +1,10 @@
 import { ApiPropertyOptional } from '@nestjs/swagger'
 import { PaginationQueryDto } from '@shared/application'
 import { IsIn, IsOptional, IsString } from 'class-validator'
+import {
+  RETOUCH_SLA_ALERTS,
+  type RetouchSlaAlert,
+} from '../../../domain/value-objects/retouch-sla.vo'
 
 export const RETOUCH_ORDER_SCOPES = ['pending', 'completed'] as const
 
@@ -17,4 +21,12 @@ export class GetOperatorRetouchOrdersDto extends PaginationQueryDto {
   @IsOptional()
   @IsString()
   eventSlug?: string
+
+  @ApiPropertyOptional({
+    enum: RETOUCH_SLA_ALERTS,
+    description: 'Only orders close to their retouch SLA deadline (at_risk) or past it (breached)',
+  })
+  @IsOptional()
+  @IsIn(RETOUCH_SLA_ALERTS)
+  sla?: RetouchSlaAlert
 }
@@ -3,6 +3,7 @@ import { ForbiddenException } from '@nestjs/common'
 import { PaginatedResult, Pagination } from '@shared/application'
 import type { CdnUrlBuilder } from '@shared/cloudflare/infrastructure'
 import type { IOperatorRetouchReadRepository, OperatorRetouchOrderRow } from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
 import { GetOperatorRetouchOrdersHandler } from './get-operator-retouch-orders.handler'
 import { GetOperatorRetouchOrdersQuery } from './get-operator-retouch-orders.query'
 
@@ -29,6 +30,7 @@ describe('GetOperatorRetouchOrdersHandler', () => {
       eventRead as never,
       retouchRead as never,
       cdn as never,
+      new RetouchSla(48, 6),
     )
   })
 
@@ -66,6 +68,7 @@ describe('GetOperatorRetouchOrdersHandler', () => {
       'pending',
       0,
       20,
+      null,
     )
   })
 
@@ -81,6 +84,7 @@ describe('GetOperatorRetouchOrdersHandler', () => {
       'pending',
       0,
       20,
+      null,
     )
   })
 
@@ -104,6 +108,7 @@ describe('GetOperatorRetouchOrdersHandler', () => {
       'completed',
       0,
       20,
+      null,
     )
   })
 
@@ -117,6 +122,7 @@ describe('GetOperatorRetouchOrdersHandler', () => {
         eventId: 'e-1',
         eventName: 'Evento Test',
         createdAt: new Date('2024-01-15T10:00:00Z'),
+        paidAt: new Date('2024-01-15T10:05:00Z'),
         pendingPhotosCount: 5,
         totalPhotosCount: 8,
         retouchedPhotosCount: 3,
@@ -128,6 +134,7 @@ describe('GetOperatorRetouchOrdersHandler', () => {
             retouchedStorageKey: null,
           },
         ],
+        claimants: [{ operatorId: 'op-2', operatorName: 'Laura Retoques' }],
       },
     ]
 
@@ -141,9 +148,32 @@ describe('GetOperatorRetouchOrdersHandler', () => {
       pendingPhotosCount: 5,
       totalPhotosCount: 8,
       retouchedPhotosCount: 3,
+      slaDeadline: '2024-01-17T10:05:00.000Z',
+      slaStatus: 'breached',
+      claimants: [{ operatorId: 'op-2', operatorName: 'Laura Retoques' }],
     })
   })
 
+  it('keeps the orders paid within the SLA window asked for', async () => {
+    eventRead.getAllAssignedEventIds.mockResolvedValue(['e-1'])
+    retouchRead.findOperatorRetouchOrdersPage.mockResolvedValue({ items: [], total: 0 })
+
+    await handler.execute(
+      new GetOperatorRetouchOrdersQuery(
+        'op-1',
+        new Pagination(1, 20),
+        'pending',
+        null,
+        'operator',
+        'breached',
+      ),
+    )
+
+    const [, , , , window] = retouchRead.findOperatorRetouchOrdersPage.mock.calls[0]
+    expect(window?.after).toBeNull()
+    expect(Date.now() - (window?.until.getTime() ?? 0)).toBeGreaterThanOrEqual(48 * 3_600_000)
+  })
+
   it('passes correct skip/take for page 2', async () => {
     eventRead.getAllAssignedEventIds.mockResolvedValue(['e-1'])
     retouchRead.findOperatorRetouchOrdersPage.mockResolvedValue({ items: [], total: 0 })
@@ -155,6 +185,7 @@ describe('GetOperatorRetouchOrdersHandler', () => {
       'pending',
       10,
       10,
+      null,
     )
   })
 })
@@ -7,6 +7,7 @@ import {
   type IOperatorRetouchReadRepository,
   OPERATOR_RETOUCH_READ_REPOSITORY,
 } from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
 import { toOperatorRetouchOrdersList } from '../../../infrastructure/mappers/operator-retouch-orders.mapper'
 import type { OperatorRetouchOrderProjection } from '../../projections'
 import { GetOperatorRetouchOrdersQuery } from './get-operator-retouch-orders.query'
@@ -21,6 +22,7 @@ export class GetOperatorRetouchOrdersHandler
     @Inject(OPERATOR_RETOUCH_READ_REPOSITORY)
     private readonly retouchRead: IOperatorRetouchReadRepository,
     private readonly cdn: CdnUrlBuilder,
+    private readonly sla: RetouchSla,
   ) {}
 
   async execute(
@@ -50,14 +52,16 @@ export class GetOperatorRetouchOrdersHandler
       }
     }
 
+    const now = new Date()
     const { items, total } = await this.retouchRead.findOperatorRetouchOrdersPage(
       eventIdsForQuery,
       query.scope,
       query.pagination.skip,
       query.pagination.take,
+      query.sla ? this.sla.paidWindow(query.sla, now) : null,
     )
 
-    const projected = toOperatorRetouchOrdersList(items, this.cdn)
+    const projected = toOperatorRetouchOrdersList(items, this.cdn, this.sla, now)
 
     return new PaginatedResult(projected, total, query.pagination)
   }
@@ -1,5 +1,6 @@
 import { Pagination } from '@shared/application'
 import type { RetouchOrderScope } from '../../../domain/ports'
+import type { RetouchSlaAlert } from '../../../domain/value-objects/retouch-sla.vo'
 
 export class GetOperatorRetouchOrdersQuery {
   constructor(
@@ -8,5 +9,7 @@ export class GetOperatorRetouchOrdersQuery {
     public readonly scope: RetouchOrderScope,
     public readonly eventSlug: string | null,
     public readonly userRole: string = 'operator',
+    /** Keeps only the orders in this SLA status. */
+    public readonly sla: RetouchSlaAlert | null = null,
   ) {}
 }
@@ -8,6 +8,7 @@ import {
   type IOperatorRetouchReadRepository,
   OPERATOR_RETOUCH_READ_REPOSITORY,
 } from '../../../domain/ports'
+import { RetouchSla } from '../../../domain/value-objects/retouch-sla.vo'
 import { toRetouchQueueOrdersList } from '../../../infrastructure/mappers/retouch-queue.mapper'
 import type { RetouchQueueOrderProjection } from '../../projections'
 import { GetRetouchQueueQuery } from './get-retouch-queue.query'
@@ -20,6 +21,7 @@ export class GetRetouchQueueHandler implements IQueryHandler<GetRetouchQueueQuer
     @Inject(OPERATOR_RETOUCH_READ_REPOSITORY)
     private readonly retouchRead: IOperatorRetouchReadRepository,
     private readonly cdn: CdnUrlBuilder,
+    private readonly sla: RetouchSla,
   ) {}
 
   async execute(
@@ -44,7 +46,7 @@ export class GetRetouchQueueHandler implements IQueryHandler<GetRetouchQueueQuer
       query.pagination.take,
     )
 
-    const projected = toRetouchQueueOrdersList(items, this.cdn)
+    const projected = toRetouchQueueOrdersList(items, this.cdn, this.sla, new Date())
 
     return new PaginatedResult(projected, total, query.pagination)
   }
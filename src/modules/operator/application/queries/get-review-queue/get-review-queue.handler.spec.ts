@@ -56,6 +56,8 @@ describe('GetOperatorReviewQueueHandler', () => {
     expect(photoRead.getReviewQueueByEventIds).toHaveBeenCalledWith({
       eventIds: ['e-1', 'e-2'],
       status: 'pending',
+      timingFlagged: false,
+      suggested: false,
       limit: 20,
       offset: 0,
     })
@@ -85,6 +87,8 @@ describe('GetOperatorReviewQueueHandler', () => {
     expect(photoRead.getReviewQueueByEventIds).toHaveBeenCalledWith({
       eventIds: ['e-1'],
       status: 'pending',
+      timingFlagged: false,
+      suggested: false,
       limit: 20,
       offset: 0,
     })
@@ -103,6 +107,9 @@ describe('GetOperatorReviewQueueHandler', () => {
           minBibConfidence: 0.42,
           bibsCount: 2,
           colorsCount: 3,
+          implausibleBibs: ['717'],
+          suggestedBibs: ['42'],
+          burstId: 'p-0',
           eventId: 'e-1',
         },
       ],
@@ -126,6 +133,9 @@ describe('GetOperatorReviewQueueHandler', () => {
       minBibConfidence: 0.42,
       bibsCount: 2,
       colorsCount: 3,
+      implausibleBibs: ['717'],
+      suggestedBibs: ['42'],
+      burstId: 'p-0',
       event: { id: 'e-1', slug: 'evento-uno', name: 'Evento Uno' },
     })
   })
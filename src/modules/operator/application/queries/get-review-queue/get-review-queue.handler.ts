@@ -39,6 +39,8 @@ export class GetOperatorReviewQueueHandler implements IQueryHandler<GetOperatorR
     const { items, total } = await this.photoRead.getReviewQueueByEventIds({
       eventIds: eventIdsForQuery,
       status: query.status,
+      timingFlagged: query.timingFlagged,
+      suggested: query.suggested,
       limit: query.pagination.take,
       offset: query.pagination.skip,
     })
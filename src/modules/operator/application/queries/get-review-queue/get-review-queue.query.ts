@@ -7,5 +7,7 @@ export class GetOperatorReviewQueueQuery {
     public readonly pagination: Pagination,
     public readonly status: ReviewQueueStatusFilter,
     public readonly eventSlug: string | null,
+    public readonly timingFlagged = false,
+    public readonly suggested = false,
   ) {}
 }
@@ -0,0 +1,65 @@
+import type { IEventReadRepository } from '@events/domain/ports'
+import { AppException } from '@shared/domain'
+import type { IOperatorProductivityReadRepository } from '../../domain/ports'
+import { OperatorProductivityReport } from './operator-productivity-report.service'
+
+describe('OperatorProductivityReport', () => {
+  let readRepo: jest.Mocked<IOperatorProductivityReadRepository>
+  let eventReadRepo: jest.Mocked<Pick<IEventReadRepository, 'findById'>>
+  let report: OperatorProductivityReport
+
+  const filters = {
+    from: new Date('2026-10-01T00:00:00Z'),
+    to: new Date('2026-10-31T23:59:59Z'),
+    eventId: null,
+    operatorId: null,
+  }
+
+  beforeEach(() => {
+    readRepo = {
+      findWorkItems: jest.fn().mockResolvedValue([]),
+      countCorrections: jest.fn().mockResolvedValue([]),
+      findOperators: jest.fn().mockResolvedValue([]),
+      findEvents: jest.fn().mockResolvedValue([]),
+    }
+    eventReadRepo = { findById: jest.fn().mockResolvedValue({ id: 'e-1' }) }
+    report = new OperatorProductivityReport(readRepo, eventReadRepo as never)
+  })
+
+  it('rejects a window that ends before it starts', async () => {
+    await expect(
+      report.build({ ...filters, from: filters.to, to: filters.from }),
+    ).rejects.toMatchObject({ messageKey: 'operator.productivity_invalid_date_range' })
+    expect(readRepo.findWorkItems).not.toHaveBeenCalled()
+  })
+
+  it('rejects an unknown event', async () => {
+    eventReadRepo.findById.mockResolvedValue(null)
+
+    await expect(report.build({ ...filters, eventId: 'e-x' })).rejects.toBeInstanceOf(AppException)
+  })
+
+  it('names the operators and events that did work or corrections', async () => {
+    readRepo.findWorkItems.mockResolvedValue([
+      { kind: 'review', operatorId: 'op-1', eventId: 'e-1', doneAt: new Date('2026-10-02') },
+    ])
+    readRepo.countCorrections.mockResolvedValue([
+      { operatorId: 'op-2', eventId: 'e-1', corrections: 3 },
+    ])
+    readRepo.findOperators.mockResolvedValue([
+      { id: 'op-1', name: 'Ana', email: 'ana@example.com' },
+      { id: 'op-2', name: 'Luis', email: 'luis@example.com' },
+    ])
+    readRepo.findEvents.mockResolvedValue([{ id: 'e-1', name: 'Vuelta' }])
+
+    const result = await report.build(filters)
+
+    expect(readRepo.findOperators).toHaveBeenCalledWith(['op-1', 'op-2'])
+    expect(readRepo.findEvents).toHaveBeenCalledWith(['e-1'])
+    expect(result).toMatchObject({ from: filters.from, to: filters.to, eventId: null })
+    expect(result.operators).toEqual([
+      expect.objectContaining({ operatorName: 'Ana', photosReviewed: 1, correctionsMade: 0 }),
+      expect.objectContaining({ operatorName: 'Luis', photosReviewed: 0, correctionsMade: 3 }),
+    ])
+  })
+})
@@ -0,0 +1,54 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject, Injectable } from '@nestjs/common'
+import { AppException } from '@shared/domain'
+import {
+  type IOperatorProductivityReadRepository,
+  OPERATOR_PRODUCTIVITY_READ_REPOSITORY,
+  type OperatorProductivityFilters,
+} from '../../domain/ports'
+import { OperatorProductivity } from '../../domain/services/operator-productivity.service'
+import type { OperatorProductivityReportProjection } from '../projections'
+
+/** Builds the payroll report that both the admin view and the file exports show. */
+@Injectable()
+export class OperatorProductivityReport {
+  constructor(
+    @Inject(OPERATOR_PRODUCTIVITY_READ_REPOSITORY)
+    private readonly readRepo: IOperatorProductivityReadRepository,
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+  ) {}
+
+  async build(filters: OperatorProductivityFilters): Promise<OperatorProductivityReportProjection> {
+    if (filters.from > filters.to) {
+      throw AppException.businessRule('operator.productivity_invalid_date_range')
+    }
+    if (filters.eventId) {
+      const event = await this.eventReadRepo.findById(filters.eventId, true)
+      if (!event) throw AppException.notFound('Event', filters.eventId)
+    }
+
+    const [items, corrections] = await Promise.all([
+      this.readRepo.findWorkItems(filters),
+      this.readRepo.countCorrections(filters),
+    ])
+    const rows = [...items, ...corrections]
+    const [operators, events] = await Promise.all([
+      this.readRepo.findOperators([...new Set(rows.map((r) => r.operatorId))]),
+      this.readRepo.findEvents([...new Set(rows.map((r) => r.eventId))]),
+    ])
+
+    return {
+      from: filters.from,
+      to: filters.to,
+      eventId: filters.eventId,
+      operatorId: filters.operatorId,
+      operators: OperatorProductivity.summarize({
+        items,
+        corrections,
+        operators,
+        events,
+        eventId: filters.eventId,
+      }),
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { InjectQueue } from '@nestjs/bullmq'
+import { Injectable, Logger } from '@nestjs/common'
+import { OnEvent } from '@nestjs/event-emitter'
+import {
+  NotificationEvent,
+  type OrderPaidPayload,
+} from '@notifications/application/services/notification-events'
+import type { Queue } from 'bullmq'
+import { RetouchSla } from '../../domain/value-objects/retouch-sla.vo'
+
+/** Schedules the SLA warning of every paid order for when it enters the at-risk window. */
+@Injectable()
+export class RetouchSlaScheduler {
+  private readonly logger = new Logger(RetouchSlaScheduler.name)
+
+  constructor(
+    @InjectQueue('retouch-sla') private readonly slaQueue: Queue,
+    private readonly sla: RetouchSla,
+  ) {}
+
+  @OnEvent(NotificationEvent.ORDER_PAID, { async: true })
+  async handleOrderPaid(payload: OrderPaidPayload): Promise<void> {
+    const delay = Math.max(0, this.sla.warnAt(payload.paidAt).getTime() - Date.now())
+    try {
+      await this.slaQueue.add(
+        'warn-retouch-sla',
+        { orderId: payload.orderId },
+        {
+          delay,
+          jobId: `retouch-sla-${payload.orderId}`,
+          attempts: 3,
+          backoff: { type: 'exponential', delay: 60_000 },
+        },
+      )
+    } catch (error) {
+      this.logger.error(`Failed to schedule the retouch SLA warning of ${payload.orderId}`, error)
+    }
+  }
+}
@@ -1,3 +1,13 @@
+export {
+  type IOperatorProductivityReadRepository,
+  OPERATOR_PRODUCTIVITY_READ_REPOSITORY,
+  type OperatorCorrectionCountRow,
+  type OperatorProductivityFilters,
+  type OperatorWorkItemRow,
+  type OperatorWorkKind,
+  type ProductivityEventRow,
+  type ProductivityOperatorRow,
+} from './operator-productivity-read-repository.port'
 export {
   type ActiveEventStats,
   type CompletedEventStats,
@@ -9,9 +19,21 @@ export {
 export {
   type IOperatorRetouchReadRepository,
   OPERATOR_RETOUCH_READ_REPOSITORY,
+  type OperatorRetouchClaimantRow,
+  type OperatorRetouchClaimRow,
+  type OperatorRetouchOrderDetailPhotoRow,
   type OperatorRetouchOrderDetailRow,
   type OperatorRetouchOrderRow,
   type OperatorRetouchPhotoRow,
+  type OperatorRetouchQueueItemRow,
   type OperatorRetouchQueueOrderRow,
+  type OperatorRetouchRequestRow,
+  type OperatorRetouchSlaOrderRow,
   type RetouchOrderScope,
 } from './operator-retouch-read-repository.port'
+export {
+  type IRetouchClaimRepository,
+  RETOUCH_CLAIM_REPOSITORY,
+  type RetouchClaimItemRow,
+  type RetouchClaimOrderRow,
+} from './retouch-claim-repository.port'
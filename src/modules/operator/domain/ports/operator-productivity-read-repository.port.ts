@@ -0,0 +1,49 @@
+export type OperatorWorkKind = 'review' | 'retouch'
+
+/** Work done within `from`..`to` (both inclusive). */
+export interface OperatorProductivityFilters {
+  from: Date
+  to: Date
+  eventId: string | null
+  operatorId: string | null
+}
+
+/** A photo an operator marked reviewed, or a retouched file they uploaded. */
+export interface OperatorWorkItemRow {
+  kind: OperatorWorkKind
+  operatorId: string
+  eventId: string
+  doneAt: Date
+}
+
+/** Corrections one operator made on the photos of one event. */
+export interface OperatorCorrectionCountRow {
+  operatorId: string
+  eventId: string
+  corrections: number
+}
+
+export interface ProductivityOperatorRow {
+  id: string
+  name: string
+  email: string
+}
+
+export interface ProductivityEventRow {
+  id: string
+  name: string
+}
+
+export interface IOperatorProductivityReadRepository {
+  /**
+   * Reviews and retouch uploads in the window, oldest first. Every event is included even
+   * when the filters name one, since the time spent on an item depends on the item before it.
+   */
+  findWorkItems(filters: OperatorProductivityFilters): Promise<OperatorWorkItemRow[]>
+  /** Corrections in the window, per operator and event. */
+  countCorrections(filters: OperatorProductivityFilters): Promise<OperatorCorrectionCountRow[]>
+  findOperators(ids: string[]): Promise<ProductivityOperatorRow[]>
+  findEvents(ids: string[]): Promise<ProductivityEventRow[]>
+}
+
+export const OPERATOR_PRODUCTIVITY_READ_REPOSITORY = Symbol('OPERATOR_PRODUCTIVITY_READ_REPOSITORY')
@@ -1,3 +1,5 @@
+import type { PaidAtWindow } from '../value-objects/retouch-sla.vo'
+
 export type RetouchOrderScope = 'pending' | 'completed'
 
 export type OperatorRetouchPhotoRow = {
@@ -7,16 +9,45 @@ export type OperatorRetouchPhotoRow = {
   retouchedStorageKey: string | null
 }
 
+export type OperatorRetouchClaimantRow = {
+  operatorId: string
+  operatorName: string
+}
+
+/** Live claim on an item; lapsed claims are not reported. */
+export type OperatorRetouchClaimRow = OperatorRetouchClaimantRow & {
+  claimedAt: Date
+  expiresAt: Date
+}
+
+export type OperatorRetouchQueueItemRow = OperatorRetouchPhotoRow & {
+  claim: OperatorRetouchClaimRow | null
+}
+
+/** Instructions the customer attached to the photo of the order. */
+export type OperatorRetouchRequestRow = {
+  instructions: string
+  status: string
+  revisionFeedback: string | null
+}
+
+export type OperatorRetouchOrderDetailPhotoRow = OperatorRetouchQueueItemRow & {
+  retouchRequest: OperatorRetouchRequestRow | null
+}
+
 export type OperatorRetouchOrderRow = {
   orderId: string
   buyerName: string
   eventId: string
   eventName: string
   createdAt: Date
+  paidAt: Date | null
   pendingPhotosCount: number
   totalPhotosCount: number
   retouchedPhotosCount: number
   previewPhotos: OperatorRetouchPhotoRow[]
+  /** Operators holding a live claim on a pending photo of the order. */
+  claimants: OperatorRetouchClaimantRow[]
 }
 
 export type OperatorRetouchOrderDetailRow = {
@@ -25,7 +56,9 @@ export type OperatorRetouchOrderDetailRow = {
   eventId: string
   eventName: string
   createdAt: Date
-  photos: OperatorRetouchPhotoRow[]
+  paidAt: Date | null
+  pendingPhotosCount: number
+  photos: OperatorRetouchOrderDetailPhotoRow[]
 }
 
 export type OperatorRetouchQueueOrderRow = {
@@ -34,7 +67,19 @@ export type OperatorRetouchQueueOrderRow = {
   eventId: string
   eventName: string
   createdAt: Date
-  items: OperatorRetouchPhotoRow[]
+  paidAt: Date | null
+  pendingPhotosCount: number
+  items: OperatorRetouchQueueItemRow[]
+}
+
+/** Paid order still waiting for retouches, as the SLA warning needs it. */
+export type OperatorRetouchSlaOrderRow = {
+  orderId: string
+  eventId: string
+  eventName: string
+  buyerName: string
+  paidAt: Date
+  pendingPhotosCount: number
 }
 
 export interface IOperatorRetouchReadRepository {
@@ -44,12 +89,18 @@ export interface IOperatorRetouchReadRepository {
     skip: number,
     take: number,
   ): Promise<{ items: OperatorRetouchQueueOrderRow[]; total: number }>
+  /** `paidWindow` keeps only the orders paid within it. */
   findOperatorRetouchOrdersPage(
     eventIds: string[] | null,
     scope: RetouchOrderScope,
     skip: number,
     take: number,
+    paidWindow: PaidAtWindow | null,
   ): Promise<{ items: OperatorRetouchOrderRow[]; total: number }>
+  /** Paid orders with photos waiting for a retouch, paid within the window. */
+  countPendingOrders(eventIds: string[], paidWindow: PaidAtWindow): Promise<number>
+  /** Null when the order is not paid or nothing in it waits for a retouch. */
+  findPendingSlaOrder(orderId: string): Promise<OperatorRetouchSlaOrderRow | null>
   findOrderDetailRow(
     orderId: string,
     onlyPending: boolean,
@@ -0,0 +1,33 @@
+/** An item of a paid order still waiting for its retouch, with the operator holding it. */
+export type RetouchClaimItemRow = {
+  orderItemId: string
+  photoId: string
+  claimedById: string | null
+  claimExpiresAt: Date | null
+}
+
+export type RetouchClaimOrderRow = {
+  orderId: string
+  eventId: string
+  paidAt: Date | null
+  pendingItems: RetouchClaimItemRow[]
+}
+
+export interface IRetouchClaimRepository {
+  /**
+   * Paid order with its pending items, only those of `photoIds` unless it is null. Null when
+   * the order does not exist or is not paid.
+   */
+  findOrder(orderId: string, photoIds: string[] | null): Promise<RetouchClaimOrderRow | null>
+  /**
+   * Locks every item for the operator, or none: it fails when another operator still holds
+   * one of them at `now`. The operator's own claims are renewed.
+   */
+  claim(orderItemIds: string[], operatorId: string, now: Date, expiresAt: Date): Promise<boolean>
+  /** Hands the items to the operator, whoever held them. */
+  assign(orderItemIds: string[], operatorId: string, now: Date, expiresAt: Date): Promise<void>
+  /** Drops the claims; only those of `operatorId` unless it is null. Returns how many. */
+  release(orderItemIds: string[], operatorId: string | null): Promise<number>
+}
+
+export const RETOUCH_CLAIM_REPOSITORY = Symbol('RETOUCH_CLAIM_REPOSITORY')
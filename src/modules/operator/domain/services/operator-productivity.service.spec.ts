@@ -0,0 +1,136 @@
+import type { OperatorWorkItemRow } from '../ports'
+import { OperatorProductivity } from './operator-productivity.service'
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 9, 1, 9, minutes))
+
+const item = (
+  kind: OperatorWorkItemRow['kind'],
+  operatorId: string,
+  eventId: string,
+  minutes: number,
+): OperatorWorkItemRow => ({ kind, operatorId, eventId, doneAt: at(minutes) })
+
+const operators = [
+  { id: 'op-1', name: 'Zoe', email: 'zoe@example.com' },
+  { id: 'op-2', name: 'Ana', email: 'ana@example.com' },
+]
+const events = [
+  { id: 'e-1', name: 'Vuelta' },
+  { id: 'e-2', name: 'Giro' },
+]
+
+describe('OperatorProductivity', () => {
+  describe('median', () => {
+    it('is null without values', () => {
+      expect(OperatorProductivity.median([])).toBeNull()
+    })
+
+    it('takes the middle value, or the mean of the two middle ones', () => {
+      expect(OperatorProductivity.median([30, 10, 20])).toBe(20)
+      expect(OperatorProductivity.median([40, 10, 20, 30])).toBe(25)
+    })
+  })
+
+  describe('summarize', () => {
+    it('counts reviews, retouches and corrections per operator and event', () => {
+      const lines = OperatorProductivity.summarize({
+        items: [
+          item('review', 'op-1', 'e-1', 0),
+          item('review', 'op-1', 'e-1', 1),
+          item('retouch', 'op-1', 'e-2', 3),
+          item('review', 'op-2', 'e-1', 5),
+        ],
+        corrections: [
+          { operatorId: 'op-1', eventId: 'e-1', corrections: 4 },
+          { operatorId: 'op-2', eventId: 'e-2', corrections: 2 },
+        ],
+        operators,
+        events,
+        eventId: null,
+      })
+
+      expect(lines.map((l) => l.operatorName)).toEqual(['Ana', 'Zoe'])
+      const [ana, zoe] = lines
+      expect(zoe).toMatchObject({
+        operatorEmail: 'zoe@example.com',
+        photosReviewed: 2,
+        correctionsMade: 4,
+        retouchesDelivered: 1,
+      })
+      expect(zoe.events.map((e) => e.eventName)).toEqual(['Giro', 'Vuelta'])
+      expect(zoe.events[1]).toMatchObject({ photosReviewed: 2, correctionsMade: 4 })
+      expect(ana.events).toEqual([
+        expect.objectContaining({ eventId: 'e-2', photosReviewed: 0, correctionsMade: 2 }),
+        expect.objectContaining({ eventId: 'e-1', photosReviewed: 1, correctionsMade: 0 }),
+      ])
+    })
+
+    it('times each item from the previous one, leaving breaks and first items out', () => {
+      const [line] = OperatorProductivity.summarize({
+        items: [
+          item('review', 'op-1', 'e-1', 0),
+          item('review', 'op-1', 'e-1', 1),
+          item('review', 'op-1', 'e-1', 4),
+          item('review', 'op-1', 'e-1', 50),
+        ],
+        corrections: [],
+        operators,
+        events,
+        eventId: null,
+      })
+
+      expect(line.photosReviewed).toBe(4)
+      expect(line.medianSecondsPerItem).toBe(120)
+    })
+
+    it('reports only the event asked for, timing its items from any event', () => {
+      const lines = OperatorProductivity.summarize({
+        items: [item('review', 'op-1', 'e-2', 0), item('retouch', 'op-1', 'e-1', 2)],
+        corrections: [],
+        operators,
+        events,
+        eventId: 'e-1',
+      })
+
+      expect(lines).toHaveLength(1)
+      expect(lines[0].events).toEqual([
+        {
+          eventId: 'e-1',
+          eventName: 'Vuelta',
+          photosReviewed: 0,
+          correctionsMade: 0,
+          retouchesDelivered: 1,
+          medianSecondsPerItem: 120,
+        },
+      ])
+    })
+  })
+
+  describe('toCsv', () => {
+    it('writes one row per operator and event under a header', () => {
+      const lines = OperatorProductivity.summarize({
+        items: [item('review', 'op-1', 'e-1', 0)],
+        corrections: [],
+        operators: [{ id: 'op-1', name: 'Pérez, Ana', email: 'ana@example.com' }],
+        events,
+        eventId: null,
+      })
+
+      const csv = OperatorProductivity.toCsv(OperatorProductivity.toTable(lines))
+
+      expect(csv.split('\n')).toEqual([
+        'operator_id,operator_name,operator_email,event_id,event_name,photos_reviewed,corrections_made,retouches_delivered,median_seconds_per_item',
+        'op-1,"Pérez, Ana",ana@example.com,e-1,Vuelta,1,0,0,',
+        '',
+      ])
+    })
+
+    it('quotes values a spreadsheet would run as a formula', () => {
+      const csv = OperatorProductivity.toCsv([
+        ['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', 'Ana', -3],
+      ])
+
+      expect(csv).toBe(`"'=HYPERLINK(""http://x"")",'+1,'-2,'@SUM(A1),Ana,-3\n`)
+    })
+  })
+})
@@ -0,0 +1,173 @@
+import type {
+  OperatorCorrectionCountRow,
+  OperatorWorkItemRow,
+  ProductivityEventRow,
+  ProductivityOperatorRow,
+} from '../ports'
+
+/** A longer pause before an item is a break, not time spent on the item. */
+export const MAX_ITEM_GAP_MS = 30 * 60 * 1000
+
+export interface ProductivityFigures {
+  photosReviewed: number
+  correctionsMade: number
+  retouchesDelivered: number
+  /** Median seconds spent per reviewed photo or retouch; null when none could be timed. */
+  medianSecondsPerItem: number | null
+}
+
+export interface EventProductivity extends ProductivityFigures {
+  eventId: string
+  eventName: string
+}
+
+export interface OperatorProductivityLine extends ProductivityFigures {
+  operatorId: string
+  operatorName: string
+  operatorEmail: string
+  events: EventProductivity[]
+}
+
+export interface ProductivityInput {
+  /** The operators' work in every event, oldest first. */
+  items: OperatorWorkItemRow[]
+  corrections: OperatorCorrectionCountRow[]
+  operators: ProductivityOperatorRow[]
+  events: ProductivityEventRow[]
+  /** Only this event is reported; the others still time the items that follow them. */
+  eventId: string | null
+}
+
+export type ProductivityCell = string | number | null
+
+const COLUMNS = [
+  'operator_id',
+  'operator_name',
+  'operator_email',
+  'event_id',
+  'event_name',
+  'photos_reviewed',
+  'corrections_made',
+  'retouches_delivered',
+  'median_seconds_per_item',
+] as const
+
+interface Tally {
+  reviewed: number
+  retouched: number
+  corrections: number
+  seconds: number[]
+}
+
+const csvField = (value: ProductivityCell): string => {
+  if (value === null) return ''
+  if (typeof value === 'number') return String(value)
+  // A leading quote keeps spreadsheets from running a name like `=HYPERLINK(...)` as a formula
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+function toFigures(tallies: Tally[]): ProductivityFigures {
+  const sum = (pick: (t: Tally) => number) => tallies.reduce((acc, t) => acc + pick(t), 0)
+  return {
+    photosReviewed: sum((t) => t.reviewed),
+    correctionsMade: sum((t) => t.corrections),
+    retouchesDelivered: sum((t) => t.retouched),
+    medianSecondsPerItem: OperatorProductivity.median(tallies.flatMap((t) => t.seconds)),
+  }
+}
+
+/**
+ * Turns the operators' reviews, corrections and retouch uploads into payroll figures. The
+ * time spent on an item is the time since the same operator's previous item, in any event,
+ * unless that gap was a break.
+ */
+export const OperatorProductivity = {
+  /** Middle value in whole seconds; the mean of the two middle values for an even count. */
+  median(values: number[]): number | null {
+    if (values.length === 0) return null
+    const sorted = [...values].sort((a, b) => a - b)
+    const middle = Math.floor(sorted.length / 2)
+    const median =
+      sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+    return Math.round(median)
+  },
+
+  /** One line per operator with one entry per event, both by name. */
+  summarize(input: ProductivityInput): OperatorProductivityLine[] {
+    const tallies = new Map<string, Map<string, Tally>>()
+    const tallyOf = (operatorId: string, eventId: string): Tally => {
+      const events = tallies.get(operatorId) ?? new Map<string, Tally>()
+      tallies.set(operatorId, events)
+      const tally = events.get(eventId) ?? {
+        reviewed: 0,
+        retouched: 0,
+        corrections: 0,
+        seconds: [],
+      }
+      events.set(eventId, tally)
+      return tally
+    }
+
+    const previous = new Map<string, Date>()
+    for (const item of input.items) {
+      const last = previous.get(item.operatorId)
+      previous.set(item.operatorId, item.doneAt)
+      if (input.eventId && item.eventId !== input.eventId) continue
+
+      const tally = tallyOf(item.operatorId, item.eventId)
+      if (item.kind === 'review') tally.reviewed += 1
+      else tally.retouched += 1
+      const gap = last ? item.doneAt.getTime() - last.getTime() : null
+      if (gap !== null && gap <= MAX_ITEM_GAP_MS) tally.seconds.push(gap / 1000)
+    }
+    for (const row of input.corrections) {
+      tallyOf(row.operatorId, row.eventId).corrections += row.corrections
+    }
+
+    const operators = new Map(input.operators.map((o) => [o.id, o]))
+    const eventNames = new Map(input.events.map((e) => [e.id, e.name]))
+
+    return [...tallies.entries()]
+      .map(([operatorId, events]) => {
+        const operator = operators.get(operatorId)
+        const lines = [...events.entries()]
+          .map(([eventId, tally]) => ({
+            eventId,
+            eventName: eventNames.get(eventId) ?? '',
+            ...toFigures([tally]),
+          }))
+          .sort((a, b) => a.eventName.localeCompare(b.eventName))
+        return {
+          operatorId,
+          operatorName: operator?.name ?? '',
+          operatorEmail: operator?.email ?? '',
+          ...toFigures([...events.values()]),
+          events: lines,
+        }
+      })
+      .sort((a, b) => a.operatorName.localeCompare(b.operatorName))
+  },
+
+  /** Header plus one row per operator and event, for the CSV and XLSX exports. */
+  toTable(lines: OperatorProductivityLine[]): ProductivityCell[][] {
+    const rows = lines.flatMap((line) =>
+      line.events.map((event) => [
+        line.operatorId,
+        line.operatorName,
+        line.operatorEmail,
+        event.eventId,
+        event.eventName,
+        event.photosReviewed,
+        event.correctionsMade,
+        event.retouchesDelivered,
+        event.medianSecondsPerItem,
+      ]),
+    )
+    return [[...COLUMNS], ...rows]
+  },
+
+  toCsv(table: ProductivityCell[][]): string {
+    return `${table.map((row) => row.map(csvField).join(',')).join('\n')}\n`
+  },
+}
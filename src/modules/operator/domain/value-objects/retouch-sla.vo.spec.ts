@@ -0,0 +1,38 @@
+import { RetouchSla } from './retouch-sla.vo'
+
+describe('RetouchSla', () => {
+  const sla = new RetouchSla(48, 6)
+  const paidAt = new Date('2026-10-01T10:00:00Z')
+
+  it('counts the deadline and the warning from the payment', () => {
+    expect(sla.deadline(paidAt)).toEqual(new Date('2026-10-03T10:00:00Z'))
+    expect(sla.warnAt(paidAt)).toEqual(new Date('2026-10-03T04:00:00Z'))
+  })
+
+  it('is on track, then at risk, then breached', () => {
+    expect(sla.status(paidAt, new Date('2026-10-03T03:59:59Z'))).toBe('on_track')
+    expect(sla.status(paidAt, new Date('2026-10-03T04:00:00Z'))).toBe('at_risk')
+    expect(sla.status(paidAt, new Date('2026-10-03T10:00:00Z'))).toBe('breached')
+  })
+
+  it('never warns before the payment', () => {
+    const short = new RetouchSla(4, 6)
+    expect(short.warnAt(paidAt)).toEqual(paidAt)
+    expect(short.status(paidAt, paidAt)).toBe('at_risk')
+  })
+
+  it('turns a status into the paid_at range of its orders', () => {
+    const now = new Date('2026-10-03T08:00:00Z')
+
+    expect(sla.paidWindow('breached', now)).toEqual({
+      after: null,
+      until: new Date('2026-10-01T08:00:00Z'),
+    })
+    const atRisk = sla.paidWindow('at_risk', now)
+    expect(atRisk).toEqual({
+      after: new Date('2026-10-01T08:00:00Z'),
+      until: new Date('2026-10-01T14:00:00Z'),
+    })
+    expect(sla.status(paidAt, now)).toBe('at_risk')
+  })
+})
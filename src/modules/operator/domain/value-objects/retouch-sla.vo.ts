@@ -0,0 +1,47 @@
+const HOUR_MS = 60 * 60 * 1000
+
+export const RETOUCH_SLA_STATUSES = ['on_track', 'at_risk', 'breached'] as const
+export type RetouchSlaStatus = (typeof RETOUCH_SLA_STATUSES)[number]
+/** Statuses an operator is warned about. */
+export const RETOUCH_SLA_ALERTS = ['at_risk', 'breached'] as const
+export type RetouchSlaAlert = (typeof RETOUCH_SLA_ALERTS)[number]
+
+/** Orders paid after `after` (exclusive, null for no bound) and up to `until` (inclusive). */
+export type PaidAtWindow = { after: Date | null; until: Date }
+
+/**
+ * Time a paid order may wait for its retouches. The deadline counts from `paid_at`, and
+ * the last `warningHours` before it are the at-risk window.
+ */
+export class RetouchSla {
+  constructor(
+    public readonly hours: number,
+    public readonly warningHours: number,
+  ) {
+    Object.freeze(this)
+  }
+
+  deadline(paidAt: Date): Date {
+    return new Date(paidAt.getTime() + this.hours * HOUR_MS)
+  }
+
+  /** When the order enters the at-risk window; never before it was paid. */
+  warnAt(paidAt: Date): Date {
+    const lead = Math.min(this.warningHours, this.hours)
+    return new Date(this.deadline(paidAt).getTime() - lead * HOUR_MS)
+  }
+
+  status(paidAt: Date, now: Date): RetouchSlaStatus {
+    if (now >= this.deadline(paidAt)) return 'breached'
+    if (now >= this.warnAt(paidAt)) return 'at_risk'
+    return 'on_track'
+  }
+
+  /** `paid_at` range of the orders that are in the status at `now`. */
+  paidWindow(status: RetouchSlaAlert, now: Date): PaidAtWindow {
+    const breachedUntil = new Date(now.getTime() - this.hours * HOUR_MS)
+    if (status === 'breached') return { after: null, until: breachedUntil }
+    const lead = Math.min(this.warningHours, this.hours)
+    return { after: breachedUntil, until: new Date(breachedUntil.getTime() + lead * HOUR_MS) }
+  }
+}
@@ -4,10 +4,14 @@ import type {
   OperatorRetouchOrderDetailProjection,
 } from '../../application/projections'
 import type { OperatorRetouchOrderDetailRow } from '../../domain/ports'
+import type { RetouchSla } from '../../domain/value-objects/retouch-sla.vo'
+import { toRetouchClaimProjection, toRetouchSlaFields } from './retouch-work.mapper'
 
 export function toOperatorRetouchOrderDetailProjection(
   row: OperatorRetouchOrderDetailRow,
   cdn: CdnUrlBuilder,
+  sla: RetouchSla,
+  now: Date,
 ): OperatorRetouchOrderDetailProjection {
   return {
     orderId: row.orderId,
@@ -15,6 +19,7 @@ export function toOperatorRetouchOrderDetailProjection(
     eventId: row.eventId,
     eventName: row.eventName,
     createdAt: row.createdAt.toISOString(),
+    ...toRetouchSlaFields(row, sla, now),
     photos: row.photos.map(
       (photo): OperatorRetouchOrderDetailPhotoProjection => ({
         photoId: photo.photoId,
@@ -22,6 +27,8 @@ export function toOperatorRetouchOrderDetailProjection(
         filename: photo.filename,
         thumbnailUrl: cdn.internalUrl(photo.publicSlug, 'thumb'),
         isRetouched: photo.retouchedStorageKey !== null,
+        claim: toRetouchClaimProjection(photo.claim),
+        retouchRequest: photo.retouchRequest,
       }),
     ),
   }
@@ -4,10 +4,14 @@ import type {
   OperatorRetouchOrderProjection,
 } from '../../application/projections'
 import type { OperatorRetouchOrderRow } from '../../domain/ports'
+import type { RetouchSla } from '../../domain/value-objects/retouch-sla.vo'
+import { toRetouchSlaFields } from './retouch-work.mapper'
 
 export function toOperatorRetouchOrderProjection(
   row: OperatorRetouchOrderRow,
   cdn: CdnUrlBuilder,
+  sla: RetouchSla,
+  now: Date,
 ): OperatorRetouchOrderProjection {
   return {
     orderId: row.orderId,
@@ -15,6 +19,7 @@ export function toOperatorRetouchOrderProjection(
     eventId: row.eventId,
     eventName: row.eventName,
     createdAt: row.createdAt.toISOString(),
+    ...toRetouchSlaFields(row, sla, now),
     pendingPhotosCount: row.pendingPhotosCount,
     totalPhotosCount: row.totalPhotosCount,
     retouchedPhotosCount: row.retouchedPhotosCount,
@@ -26,12 +31,15 @@ export function toOperatorRetouchOrderProjection(
         filename: photo.filename,
       }),
     ),
+    claimants: row.claimants.map((claimant) => ({ ...claimant })),
   }
 }
 
 export function toOperatorRetouchOrdersList(
   items: OperatorRetouchOrderRow[],
   cdn: CdnUrlBuilder,
+  sla: RetouchSla,
+  now: Date,
 ): OperatorRetouchOrderProjection[] {
-  return items.map((row) => toOperatorRetouchOrderProjection(row, cdn))
+  return items.map((row) => toOperatorRetouchOrderProjection(row, cdn, sla, now))
 }
@@ -24,6 +24,9 @@ export function toOperatorReviewQueueItemProjection(
     minBibConfidence: row.minBibConfidence,
     bibsCount: row.bibsCount,
     colorsCount: row.colorsCount,
+    implausibleBibs: row.implausibleBibs,
+    suggestedBibs: row.suggestedBibs,
+    burstId: row.burstId,
     event: event
       ? { id: event.id, slug: event.slug, name: event.name }
       : { id: row.eventId, slug: '', name: '' },
@@ -3,22 +3,27 @@ import type {
   RetouchQueueItemProjection,
   RetouchQueueOrderProjection,
 } from '../../application/projections'
-import type { OperatorRetouchPhotoRow, OperatorRetouchQueueOrderRow } from '../../domain/ports'
+import type { OperatorRetouchQueueItemRow, OperatorRetouchQueueOrderRow } from '../../domain/ports'
+import type { RetouchSla } from '../../domain/value-objects/retouch-sla.vo'
+import { toRetouchClaimProjection, toRetouchSlaFields } from './retouch-work.mapper'
 
 function toItemProjection(
-  photo: OperatorRetouchPhotoRow,
+  photo: OperatorRetouchQueueItemRow,
   cdn: CdnUrlBuilder,
 ): RetouchQueueItemProjection {
   return {
     photoId: photo.photoId,
     thumbnailUrl: cdn.internalUrl(photo.publicSlug, 'thumb'),
     isRetouched: photo.retouchedStorageKey !== null,
+    claim: toRetouchClaimProjection(photo.claim),
   }
 }
 
 function toOrderProjection(
   order: OperatorRetouchQueueOrderRow,
   cdn: CdnUrlBuilder,
+  sla: RetouchSla,
+  now: Date,
 ): RetouchQueueOrderProjection {
   const items = order.items.map((item) => toItemProjection(item, cdn))
   return {
@@ -27,6 +32,7 @@ function toOrderProjection(
     eventId: order.eventId,
     eventName: order.eventName,
     createdAt: order.createdAt.toISOString(),
+    ...toRetouchSlaFields(order, sla, now),
     totalItems: items.length,
     retouchedItems: items.filter((item) => item.isRetouched).length,
     items,
@@ -36,6 +42,8 @@ function toOrderProjection(
 export function toRetouchQueueOrdersList(
   rows: OperatorRetouchQueueOrderRow[],
   cdn: CdnUrlBuilder,
+  sla: RetouchSla,
+  now: Date,
 ): RetouchQueueOrderProjection[] {
-  return rows.map((row) => toOrderProjection(row, cdn))
+  return rows.map((row) => toOrderProjection(row, cdn, sla, now))
 }
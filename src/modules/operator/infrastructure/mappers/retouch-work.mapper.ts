@@ -0,0 +1,29 @@
+import type { OperatorRetouchClaimProjection } from '../../application/projections'
+import type { OperatorRetouchClaimRow } from '../../domain/ports'
+import type { RetouchSla, RetouchSlaStatus } from '../../domain/value-objects/retouch-sla.vo'
+
+export function toRetouchClaimProjection(
+  claim: OperatorRetouchClaimRow | null,
+): OperatorRetouchClaimProjection | null {
+  if (!claim) return null
+  return {
+    operatorId: claim.operatorId,
+    operatorName: claim.operatorName,
+    claimedAt: claim.claimedAt.toISOString(),
+    expiresAt: claim.expiresAt.toISOString(),
+  }
+}
+
+/** SLA fields of an order; the status is only given while photos still wait for a retouch. */
+export function toRetouchSlaFields(
+  row: { paidAt: Date | null; pendingPhotosCount: number },
+  sla: RetouchSla,
+  now: Date,
+): { paidAt: string | null; slaDeadline: string | null; slaStatus: RetouchSlaStatus | null } {
+  if (!row.paidAt) return { paidAt: null, slaDeadline: null, slaStatus: null }
+  return {
+    paidAt: row.paidAt.toISOString(),
+    slaDeadline: sla.deadline(row.paidAt).toISOString(),
+    slaStatus: row.pendingPhotosCount > 0 ? sla.status(row.paidAt, now) : null,
+  }
+}
@@ -0,0 +1,30 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq'
+import { Logger } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import type { Job } from 'bullmq'
+import { WarnRetouchSlaCommand } from '../../application/commands/warn-retouch-sla/warn-retouch-sla.command'
+
+export interface RetouchSlaJobData {
+  orderId: string
+}
+
+/** Runs the delayed SLA warning scheduled when an order is paid. */
+@Processor('retouch-sla')
+export class RetouchSlaProcessor extends WorkerHost {
+  private readonly logger = new Logger(RetouchSlaProcessor.name)
+
+  constructor(private readonly commandBus: CommandBus) {
+    super()
+  }
+
+  async process(job: Job<RetouchSlaJobData>): Promise<void> {
+    const { orderId } = job.data
+    try {
+      await this.commandBus.execute(new WarnRetouchSlaCommand(orderId))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.logger.error(`✘ Retouch SLA warning ${orderId}: ${message}`)
+      throw error
+    }
+  }
+}
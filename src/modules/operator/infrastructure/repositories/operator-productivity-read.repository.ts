@@ -0,0 +1,101 @@
+import { Prisma } from '@generated/prisma/client'
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '@shared/infrastructure'
+import type {
+  IOperatorProductivityReadRepository,
+  OperatorCorrectionCountRow,
+  OperatorProductivityFilters,
+  OperatorWorkItemRow,
+  OperatorWorkKind,
+  ProductivityEventRow,
+  ProductivityOperatorRow,
+} from '../../domain/ports'
+
+interface WorkItemSqlRow {
+  kind: OperatorWorkKind
+  operator_id: string
+  event_id: string
+  done_at: Date
+}
+
+interface CorrectionCountSqlRow {
+  operator_id: string
+  event_id: string
+  corrections: number
+}
+
+/** Keeps one operator's rows when the filters name one. */
+function operatorSql(column: Prisma.Sql, filters: OperatorProductivityFilters): Prisma.Sql {
+  return filters.operatorId ? Prisma.sql`AND ${column} = ${filters.operatorId}::uuid` : Prisma.empty
+}
+
+@Injectable()
+export class OperatorProductivityReadRepository implements IOperatorProductivityReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findWorkItems(filters: OperatorProductivityFilters): Promise<OperatorWorkItemRow[]> {
+    const rows = await this.prisma.$queryRaw<WorkItemSqlRow[]>(Prisma.sql`
+      SELECT 'review' AS kind, p.reviewed_by_id AS operator_id, p.event_id,
+        p.reviewed_at AS done_at
+      FROM photos p
+      WHERE p.reviewed_by_id IS NOT NULL
+        AND p.reviewed_at BETWEEN ${filters.from} AND ${filters.to}
+        ${operatorSql(Prisma.sql`p.reviewed_by_id`, filters)}
+      UNION ALL
+      SELECT 'retouch' AS kind, r.created_by_id AS operator_id, p.event_id,
+        r.created_at AS done_at
+      FROM photo_retouch_revisions r
+      JOIN photos p ON p.id = r.photo_id
+      WHERE r.created_by_id IS NOT NULL
+        AND r.created_at BETWEEN ${filters.from} AND ${filters.to}
+        ${operatorSql(Prisma.sql`r.created_by_id`, filters)}
+      ORDER BY done_at
+    `)
+    return rows.map((r) => ({
+      kind: r.kind,
+      operatorId: r.operator_id,
+      eventId: r.event_id,
+      doneAt: r.done_at,
+    }))
+  }
+
+  async countCorrections(
+    filters: OperatorProductivityFilters,
+  ): Promise<OperatorCorrectionCountRow[]> {
+    const rows = await this.prisma.$queryRaw<CorrectionCountSqlRow[]>(Prisma.sql`
+      SELECT c.reviewer_id AS operator_id, p.event_id, COUNT(*)::int AS corrections
+      FROM corrections c
+      JOIN photos p ON p.id = c.photo_id
+      WHERE c.corrected_at BETWEEN ${filters.from} AND ${filters.to}
+        ${filters.eventId ? Prisma.sql`AND p.event_id = ${filters.eventId}::uuid` : Prisma.empty}
+        ${operatorSql(Prisma.sql`c.reviewer_id`, filters)}
+      GROUP BY c.reviewer_id, p.event_id
+    `)
+    return rows.map((r) => ({
+      operatorId: r.operator_id,
+      eventId: r.event_id,
+      corrections: r.corrections,
+    }))
+  }
+
+  async findOperators(ids: string[]): Promise<ProductivityOperatorRow[]> {
+    if (ids.length === 0) return []
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, first_name: true, last_name: true, email: true },
+    })
+    return users.map((u) => ({
+      id: u.id,
+      name: [u.first_name, u.last_name].filter(Boolean).join(' ') || u.email,
+      email: u.email,
+    }))
+  }
+
+  async findEvents(ids: string[]): Promise<ProductivityEventRow[]> {
+    if (ids.length === 0) return []
+    return this.prisma.event.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    })
+  }
+}
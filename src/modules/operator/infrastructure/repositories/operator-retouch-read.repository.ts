@@ -2,31 +2,80 @@ import { Injectable } from '@nestjs/common'
 import { PrismaService } from '@shared/infrastructure'
 import type {
   IOperatorRetouchReadRepository,
+  OperatorRetouchClaimRow,
   OperatorRetouchOrderDetailRow,
   OperatorRetouchOrderRow,
   OperatorRetouchQueueOrderRow,
+  OperatorRetouchSlaOrderRow,
   RetouchOrderScope,
 } from '../../domain/ports'
+import type { PaidAtWindow } from '../../domain/value-objects/retouch-sla.vo'
+import { PENDING_ITEM_FILTER, RETOUCHED_PHOTO_FILTER } from './retouch-item.filters'
 
-const PENDING_PHOTO_FILTER = { retouched_at: null, requires_retouch: true } as const
-const RETOUCHED_PHOTO_FILTER = { retouched_at: { not: null } } as const
+const CLAIMANT_SELECT = { id: true, first_name: true, last_name: true, email: true } as const
 
-function buildOrdersWhere(eventIds: string[] | null, scope: RetouchOrderScope) {
+const CLAIM_SELECT = {
+  retouch_claimed_at: true,
+  retouch_claim_expires_at: true,
+  retouch_claimed_by: { select: CLAIMANT_SELECT },
+} as const
+
+type ClaimantRecord = {
+  id: string
+  first_name: string | null
+  last_name: string | null
+  email: string
+}
+
+function operatorName(user: ClaimantRecord): string {
+  return [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email
+}
+
+function toClaimRow(
+  item: {
+    retouch_claimed_at: Date | null
+    retouch_claim_expires_at: Date | null
+    retouch_claimed_by: ClaimantRecord | null
+  },
+  now: Date,
+): OperatorRetouchClaimRow | null {
+  const { retouch_claimed_by: user, retouch_claimed_at, retouch_claim_expires_at } = item
+  if (!user || !retouch_claimed_at || !retouch_claim_expires_at) return null
+  if (retouch_claim_expires_at <= now) return null
+  return {
+    operatorId: user.id,
+    operatorName: operatorName(user),
+    claimedAt: retouch_claimed_at,
+    expiresAt: retouch_claim_expires_at,
+  }
+}
+
+function paidWithin(window: PaidAtWindow | null) {
+  if (!window) return {}
+  return { paid_at: { ...(window.after ? { gt: window.after } : {}), lte: window.until } }
+}
+
+function buildOrdersWhere(
+  eventIds: string[] | null,
+  scope: RetouchOrderScope,
+  paidWindow: PaidAtWindow | null = null,
+) {
   const base = {
     ...(eventIds === null ? {} : { event_id: { in: eventIds } }),
     status: 'paid' as const,
+    ...paidWithin(paidWindow),
   }
   if (scope === 'pending') {
     return {
       ...base,
-      items: { some: { photo: PENDING_PHOTO_FILTER } },
+      items: { some: PENDING_ITEM_FILTER },
     }
   }
   // 'completed': has at least one retouched photo AND no pending photos remain.
   return {
     ...base,
     items: { some: { photo: RETOUCHED_PHOTO_FILTER } },
-    NOT: { items: { some: { photo: PENDING_PHOTO_FILTER } } },
+    NOT: { items: { some: PENDING_ITEM_FILTER } },
   }
 }
 
@@ -45,16 +94,16 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
         ? {
             event_id: eventId,
             status: 'paid' as const,
-            items: { some: { photo: PENDING_PHOTO_FILTER } },
+            items: { some: PENDING_ITEM_FILTER },
           }
         : {
             event_id: eventId,
             status: 'paid' as const,
             items: { some: { photo: RETOUCHED_PHOTO_FILTER } },
-            NOT: { items: { some: { photo: PENDING_PHOTO_FILTER } } },
+            NOT: { items: { some: PENDING_ITEM_FILTER } },
           }
 
-    const itemsWhere = scope === 'pending' ? { photo: PENDING_PHOTO_FILTER } : undefined
+    const itemsWhere = scope === 'pending' ? PENDING_ITEM_FILTER : undefined
 
     const [orders, total] = await Promise.all([
       this.prisma.order.findMany({
@@ -69,9 +118,12 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
           snap_first_name: true,
           snap_last_name: true,
           created_at: true,
+          paid_at: true,
+          _count: { select: { items: { where: PENDING_ITEM_FILTER } } },
           items: {
             where: itemsWhere,
             select: {
+              ...CLAIM_SELECT,
               photo: {
                 select: {
                   id: true,
@@ -87,17 +139,21 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
       this.prisma.order.count({ where }),
     ])
 
+    const now = new Date()
     const items: OperatorRetouchQueueOrderRow[] = orders.map((order) => ({
       orderId: order.id,
       buyerName: [order.snap_first_name, order.snap_last_name].filter(Boolean).join(' '),
       eventId: order.event_id,
       eventName: order.event.name,
       createdAt: order.created_at,
+      paidAt: order.paid_at,
+      pendingPhotosCount: order._count.items,
       items: order.items.map((item) => ({
         photoId: item.photo.id,
         publicSlug: item.photo.public_slug,
         filename: item.photo.filename,
         retouchedStorageKey: item.photo.retouched_storage_key,
+        claim: toClaimRow(item, now),
       })),
     }))
 
@@ -109,10 +165,11 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
     scope: RetouchOrderScope,
     skip: number,
     take: number,
+    paidWindow: PaidAtWindow | null,
   ): Promise<{ items: OperatorRetouchOrderRow[]; total: number }> {
-    const where = buildOrdersWhere(eventIds, scope)
+    const where = buildOrdersWhere(eventIds, scope, paidWindow)
     const previewItemsWhere =
-      scope === 'pending' ? { photo: PENDING_PHOTO_FILTER } : { photo: RETOUCHED_PHOTO_FILTER }
+      scope === 'pending' ? PENDING_ITEM_FILTER : { photo: RETOUCHED_PHOTO_FILTER }
 
     const orderScopeWhere = {
       order: {
@@ -134,6 +191,7 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
           snap_first_name: true,
           snap_last_name: true,
           created_at: true,
+          paid_at: true,
           items: {
             where: previewItemsWhere,
             take: 3,
@@ -164,7 +222,7 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
       }),
       this.prisma.orderItem.groupBy({
         by: ['order_id'],
-        where: { ...orderScopeWhere, photo: PENDING_PHOTO_FILTER },
+        where: { ...orderScopeWhere, ...PENDING_ITEM_FILTER },
         _count: { _all: true },
       }),
     ])
@@ -174,6 +232,7 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
       retouchedCounts.map((e) => [e.order_id, e._count?._all ?? 0]),
     )
     const pendingByOrderId = new Map(pendingCounts.map((e) => [e.order_id, e._count?._all ?? 0]))
+    const claimantsByOrderId = await this.findClaimants(orders.map((order) => order.id))
 
     const items: OperatorRetouchOrderRow[] = orders.map((order) => ({
       orderId: order.id,
@@ -181,6 +240,7 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
       eventId: order.event_id,
       eventName: order.event.name,
       createdAt: order.created_at,
+      paidAt: order.paid_at,
       pendingPhotosCount: pendingByOrderId.get(order.id) ?? 0,
       totalPhotosCount: totalByOrderId.get(order.id) ?? 0,
       retouchedPhotosCount: retouchedByOrderId.get(order.id) ?? 0,
@@ -190,16 +250,77 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
         filename: item.photo.filename,
         retouchedStorageKey: item.photo.retouched_storage_key,
       })),
+      claimants: claimantsByOrderId.get(order.id) ?? [],
     }))
 
     return { items, total }
   }
 
+  async countPendingOrders(eventIds: string[], paidWindow: PaidAtWindow): Promise<number> {
+    if (eventIds.length === 0) return 0
+    return this.prisma.order.count({ where: buildOrdersWhere(eventIds, 'pending', paidWindow) })
+  }
+
+  async findPendingSlaOrder(orderId: string): Promise<OperatorRetouchSlaOrderRow | null> {
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, status: 'paid', paid_at: { not: null } },
+      select: {
+        id: true,
+        event_id: true,
+        event: { select: { name: true } },
+        snap_first_name: true,
+        snap_last_name: true,
+        paid_at: true,
+        _count: { select: { items: { where: PENDING_ITEM_FILTER } } },
+      },
+    })
+    if (!order?.paid_at || order._count.items === 0) return null
+
+    return {
+      orderId: order.id,
+      eventId: order.event_id,
+      eventName: order.event.name,
+      buyerName: [order.snap_first_name, order.snap_last_name].filter(Boolean).join(' '),
+      paidAt: order.paid_at,
+      pendingPhotosCount: order._count.items,
+    }
+  }
+
+  /** Operators holding a live claim on a pending item, per order. */
+  private async findClaimants(
+    orderIds: string[],
+  ): Promise<Map<string, OperatorRetouchOrderRow['claimants']>> {
+    const byOrderId = new Map<string, OperatorRetouchOrderRow['claimants']>()
+    if (orderIds.length === 0) return byOrderId
+
+    const claimed = await this.prisma.orderItem.findMany({
+      where: {
+        order_id: { in: orderIds },
+        retouch_claimed_by_id: { not: null },
+        retouch_claim_expires_at: { gt: new Date() },
+        ...PENDING_ITEM_FILTER,
+      },
+      distinct: ['order_id', 'retouch_claimed_by_id'],
+      orderBy: [{ order_id: 'asc' }, { retouch_claimed_by_id: 'asc' }],
+      select: { order_id: true, retouch_claimed_by: { select: CLAIMANT_SELECT } },
+    })
+    for (const item of claimed) {
+      if (!item.retouch_claimed_by) continue
+      const claimants = byOrderId.get(item.order_id) ?? []
+      claimants.push({
+        operatorId: item.retouch_claimed_by.id,
+        operatorName: operatorName(item.retouch_claimed_by),
+      })
+      byOrderId.set(item.order_id, claimants)
+    }
+    return byOrderId
+  }
+
   async findOrderDetailRow(
     orderId: string,
     onlyPending: boolean,
   ): Promise<OperatorRetouchOrderDetailRow | null> {
-    const itemsWhere = onlyPending ? { photo: PENDING_PHOTO_FILTER } : undefined
+    const itemsWhere = onlyPending ? PENDING_ITEM_FILTER : undefined
     const order = await this.prisma.order.findUnique({
       where: { id: orderId },
       select: {
@@ -209,10 +330,13 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
         snap_first_name: true,
         snap_last_name: true,
         created_at: true,
+        paid_at: true,
+        _count: { select: { items: { where: PENDING_ITEM_FILTER } } },
         items: {
           where: itemsWhere,
           orderBy: { photo: { id: 'asc' } },
           select: {
+            ...CLAIM_SELECT,
             photo: {
               select: {
                 id: true,
@@ -221,6 +345,9 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
                 retouched_storage_key: true,
               },
             },
+            retouch_request: {
+              select: { instructions: true, status: true, revision_feedback: true },
+            },
           },
         },
       },
@@ -228,17 +355,28 @@ export class OperatorRetouchReadRepository implements IOperatorRetouchReadReposi
 
     if (!order) return null
 
+    const now = new Date()
     return {
       orderId: order.id,
       buyerName: [order.snap_first_name, order.snap_last_name].filter(Boolean).join(' '),
       eventId: order.event_id,
       eventName: order.event.name,
       createdAt: order.created_at,
+      paidAt: order.paid_at,
+      pendingPhotosCount: order._count.items,
       photos: order.items.map((item) => ({
         photoId: item.photo.id,
         publicSlug: item.photo.public_slug,
         filename: item.photo.filename,
         retouchedStorageKey: item.photo.retouched_storage_key,
+        claim: toClaimRow(item, now),
+        retouchRequest: item.retouch_request
+          ? {
+              instructions: item.retouch_request.instructions,
+              status: item.retouch_request.status,
+              revisionFeedback: item.retouch_request.revision_feedback,
+            }
+          : null,
       })),
     }
   }
@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '@shared/infrastructure'
+import type { IRetouchClaimRepository, RetouchClaimOrderRow } from '../../domain/ports'
+import { heldByOtherFilter, PENDING_ITEM_FILTER } from './retouch-item.filters'
+
+@Injectable()
+export class RetouchClaimRepository implements IRetouchClaimRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findOrder(
+    orderId: string,
+    photoIds: string[] | null,
+  ): Promise<RetouchClaimOrderRow | null> {
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, status: 'paid' },
+      select: {
+        id: true,
+        event_id: true,
+        paid_at: true,
+        items: {
+          where: {
+            ...PENDING_ITEM_FILTER,
+            ...(photoIds === null ? {} : { photo_id: { in: photoIds } }),
+          },
+          orderBy: { photo_id: 'asc' },
+          select: {
+            id: true,
+            photo_id: true,
+            retouch_claimed_by_id: true,
+            retouch_claim_expires_at: true,
+          },
+        },
+      },
+    })
+    if (!order) return null
+
+    return {
+      orderId: order.id,
+      eventId: order.event_id,
+      paidAt: order.paid_at,
+      pendingItems: order.items.map((item) => ({
+        orderItemId: item.id,
+        photoId: item.photo_id,
+        claimedById: item.retouch_claimed_by_id,
+        claimExpiresAt: item.retouch_claim_expires_at,
+      })),
+    }
+  }
+
+  async claim(
+    orderItemIds: string[],
+    operatorId: string,
+    now: Date,
+    expiresAt: Date,
+  ): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM order_items WHERE id = ANY(${orderItemIds}::uuid[]) FOR UPDATE`
+
+      const held = await tx.orderItem.count({
+        where: { id: { in: orderItemIds }, ...heldByOtherFilter(operatorId, now) },
+      })
+      if (held > 0) return false
+
+      // A renewal keeps the time the operator first took the item
+      await tx.orderItem.updateMany({
+        where: { id: { in: orderItemIds }, retouch_claimed_by_id: operatorId },
+        data: { retouch_claim_expires_at: expiresAt },
+      })
+      await tx.orderItem.updateMany({
+        where: {
+          id: { in: orderItemIds },
+          OR: [{ retouch_claimed_by_id: null }, { retouch_claimed_by_id: { not: operatorId } }],
+        },
+        data: {
+          retouch_claimed_by_id: operatorId,
+          retouch_claimed_at: now,
+          retouch_claim_expires_at: expiresAt,
+        },
+      })
+      return true
+    })
+  }
+
+  async assign(
+    orderItemIds: string[],
+    operatorId: string,
+    now: Date,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.prisma.orderItem.updateMany({
+      where: { id: { in: orderItemIds } },
+      data: {
+        retouch_claimed_by_id: operatorId,
+        retouch_claimed_at: now,
+        retouch_claim_expires_at: expiresAt,
+      },
+    })
+  }
+
+  async release(orderItemIds: string[], operatorId: string | null): Promise<number> {
+    const { count } = await this.prisma.orderItem.updateMany({
+      where: {
+        id: { in: orderItemIds },
+        retouch_claimed_by_id: operatorId === null ? { not: null } : operatorId,
+      },
+      data: {
+        retouch_claimed_by_id: null,
+        retouch_claimed_at: null,
+        retouch_claim_expires_at: null,
+      },
+    })
+    return count
+  }
+}
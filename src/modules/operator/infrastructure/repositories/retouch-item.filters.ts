@@ -0,0 +1,20 @@
+import { OPEN_RETOUCH_REQUEST_STATUSES } from '@orders/domain/value-objects/retouch-request-status.vo'
+
+export const PENDING_PHOTO_FILTER = { retouched_at: null, requires_retouch: true } as const
+export const RETOUCHED_PHOTO_FILTER = { retouched_at: { not: null } } as const
+// An item waits for an operator when its photo is flagged and not retouched yet, or
+// when the customer's retouch request (or its revision) has not been delivered
+export const PENDING_ITEM_FILTER = {
+  OR: [
+    { photo: PENDING_PHOTO_FILTER },
+    { retouch_request: { status: { in: [...OPEN_RETOUCH_REQUEST_STATUSES] } } },
+  ],
+}
+
+/** Items another operator still holds at `now`. */
+export function heldByOtherFilter(operatorId: string, now: Date) {
+  return {
+    retouch_claimed_by_id: { not: operatorId },
+    retouch_claim_expires_at: { gt: now },
+  }
+}
@@ -0,0 +1,55 @@
+import { inflateRawSync } from 'node:zlib'
+import { parseXlsx } from '@participants/infrastructure/readers/xlsx.parser'
+import { writeXlsx } from './xlsx.writer'
+
+/** Content of one entry, found through the local headers. */
+function entry(buffer: Buffer, name: string): string | null {
+  let at = 0
+  while (buffer.readUInt32LE(at) === 0x04034b50) {
+    const size = buffer.readUInt32LE(at + 18)
+    const nameLength = buffer.readUInt16LE(at + 26)
+    const start = at + 30 + nameLength + buffer.readUInt16LE(at + 28)
+    if (buffer.toString('utf8', at + 30, at + 30 + nameLength) === name) {
+      return inflateRawSync(buffer.subarray(start, start + size)).toString('utf8')
+    }
+    at = start + size
+  }
+  return null
+}
+
+describe('writeXlsx', () => {
+  it('writes a workbook the roster reader reads back', () => {
+    const buffer = writeXlsx(
+      [
+        ['operator', 'photos'],
+        ['Ana & <Luis>', 12],
+        ['Zoe', null],
+      ],
+      'Productivity',
+    )
+
+    expect(parseXlsx(buffer)).toEqual([['operator', 'photos'], ['Ana & <Luis>', '12'], ['Zoe']])
+  })
+
+  it('stores numbers as numbers and leaves null cells out', () => {
+    const sheet = entry(writeXlsx([['a', 1.5, null, 'b']], 'Sheet'), 'xl/worksheets/sheet1.xml')
+
+    expect(sheet).toContain('<c r="B1"><v>1.5</v></c>')
+    expect(sheet).not.toContain('r="C1"')
+    expect(sheet).toContain('<c r="D1" t="inlineStr">')
+  })
+
+  it('names columns past Z with two letters', () => {
+    const row = Array.from({ length: 28 }, (_, i) => i)
+    const sheet = entry(writeXlsx([row], 'Sheet'), 'xl/worksheets/sheet1.xml')
+
+    expect(sheet).toContain('<c r="Z1"><v>25</v></c>')
+    expect(sheet).toContain('<c r="AB1"><v>27</v></c>')
+  })
+
+  it('keeps the sheet name within the 31 characters Excel allows', () => {
+    const workbook = entry(writeXlsx([], 'x'.repeat(40)), 'xl/workbook.xml')
+
+    expect(workbook).toContain(`name="${'x'.repeat(31)}"`)
+  })
+})
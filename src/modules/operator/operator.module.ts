@@ -1,26 +1,58 @@
 import { EventsModule } from '@events/events.module'
+import { BullModule } from '@nestjs/bullmq'
 import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
 import { CqrsModule } from '@nestjs/cqrs'
 import { PhotosModule } from '@photos/photos.module'
 import { CloudflareModule } from '@shared/cloudflare/cloudflare.module'
+import { AssignRetouchWorkHandler } from './application/commands/assign-retouch-work/assign-retouch-work.handler'
+import { ClaimRetouchWorkHandler } from './application/commands/claim-retouch-work/claim-retouch-work.handler'
+import { ExportOperatorProductivityHandler } from './application/commands/export-operator-productivity/export-operator-productivity.handler'
+import { ReleaseRetouchWorkHandler } from './application/commands/release-retouch-work/release-retouch-work.handler'
+import { WarnRetouchSlaHandler } from './application/commands/warn-retouch-sla/warn-retouch-sla.handler'
 import { GetActiveEventsHandler } from './application/queries/get-active-events/get-active-events.handler'
 import { GetCompletedEventsHandler } from './application/queries/get-completed-events/get-completed-events.handler'
 import { GetDashboardSummaryHandler } from './application/queries/get-dashboard-summary/get-dashboard-summary.handler'
+import { GetOperatorProductivityHandler } from './application/queries/get-operator-productivity/get-operator-productivity.handler'
 import { GetOperatorRetouchOrderDetailHandler } from './application/queries/get-operator-retouch-order-detail/get-operator-retouch-order-detail.handler'
 import { GetOperatorRetouchOrdersHandler } from './application/queries/get-operator-retouch-orders/get-operator-retouch-orders.handler'
 import { GetRecentActivityHandler } from './application/queries/get-recent-activity/get-recent-activity.handler'
 import { GetRetouchQueueHandler } from './application/queries/get-retouch-queue/get-retouch-queue.handler'
 import { GetOperatorReviewQueueHandler } from './application/queries/get-review-queue/get-review-queue.handler'
-import { OPERATOR_READ_REPOSITORY, OPERATOR_RETOUCH_READ_REPOSITORY } from './domain/ports'
+import { OperatorProductivityReport } from './application/services/operator-productivity-report.service'
+import { RetouchSlaScheduler } from './application/services/retouch-sla-scheduler.service'
+import {
+  OPERATOR_PRODUCTIVITY_READ_REPOSITORY,
+  OPERATOR_READ_REPOSITORY,
+  OPERATOR_RETOUCH_READ_REPOSITORY,
+  RETOUCH_CLAIM_REPOSITORY,
+} from './domain/ports'
+import { RetouchSla } from './domain/value-objects/retouch-sla.vo'
+import { RetouchSlaProcessor } from './infrastructure/processors/retouch-sla.processor'
+import { OperatorProductivityReadRepository } from './infrastructure/repositories/operator-productivity-read.repository'
 import { OperatorReadRepository } from './infrastructure/repositories/operator-read.repository'
 import { OperatorRetouchReadRepository } from './infrastructure/repositories/operator-retouch-read.repository'
+import { RetouchClaimRepository } from './infrastructure/repositories/retouch-claim.repository'
 import { OperatorController } from './presentation/controllers/operator.controller'
+import { OperatorProductivityController } from './presentation/controllers/operator-productivity.controller'
 
 @Module({
-  imports: [CqrsModule, EventsModule, PhotosModule, CloudflareModule],
-  controllers: [OperatorController],
+  imports: [
+    CqrsModule,
+    BullModule.registerQueue({ name: 'retouch-sla' }),
+    EventsModule,
+    PhotosModule,
+    CloudflareModule,
+  ],
+  controllers: [OperatorController, OperatorProductivityController],
   providers: [
+    AssignRetouchWorkHandler,
+    ClaimRetouchWorkHandler,
+    ExportOperatorProductivityHandler,
+    ReleaseRetouchWorkHandler,
+    WarnRetouchSlaHandler,
     GetDashboardSummaryHandler,
+    GetOperatorProductivityHandler,
     GetOperatorRetouchOrderDetailHandler,
     GetActiveEventsHandler,
     GetCompletedEventsHandler,
@@ -29,7 +61,24 @@ import { OperatorController } from './presentation/controllers/operator.controll
     GetRetouchQueueHandler,
     GetOperatorReviewQueueHandler,
     { provide: OPERATOR_READ_REPOSITORY, useClass: OperatorReadRepository },
+    {
+      provide: OPERATOR_PRODUCTIVITY_READ_REPOSITORY,
+      useClass: OperatorProductivityReadRepository,
+    },
     { provide: OPERATOR_RETOUCH_READ_REPOSITORY, useClass: OperatorRetouchReadRepository },
+    { provide: RETOUCH_CLAIM_REPOSITORY, useClass: RetouchClaimRepository },
+    OperatorProductivityReport,
+    RetouchSlaProcessor,
+    RetouchSlaScheduler,
+    {
+      provide: RetouchSla,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        new RetouchSla(
+          config.get<number>('retouch.slaHours', 48),
+          config.get<number>('retouch.slaWarningHours', 6),
+        ),
+    },
   ],
 })
 export class OperatorModule {}
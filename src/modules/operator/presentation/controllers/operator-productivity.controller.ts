@@ -0,0 +1,75 @@
+import { Body, Controller, Get, Post, Query } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger'
+import { AuditContext } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+import { ExportOperatorProductivityCommand } from '../../application/commands/export-operator-productivity/export-operator-productivity.command'
+import { ExportOperatorProductivityDto } from '../../application/commands/export-operator-productivity/export-operator-productivity.dto'
+import {
+  OperatorProductivityExportProjection,
+  OperatorProductivityReportProjection,
+} from '../../application/projections'
+import { GetOperatorProductivityDto } from '../../application/queries/get-operator-productivity/get-operator-productivity.dto'
+import { GetOperatorProductivityQuery } from '../../application/queries/get-operator-productivity/get-operator-productivity.query'
+
+/**
+ * Admin report of the work each operator did, which operators are paid by.
+ */
+@ApiTags('operator-productivity')
+@ApiBearerAuth()
+@Controller('admin/operator-productivity')
+export class OperatorProductivityController {
+  constructor(
+    private readonly queryBus: QueryBus,
+    private readonly commandBus: CommandBus,
+  ) {}
+
+  @Roles('admin')
+  @Get()
+  @SuccessMessage('success.FETCHED', { entity: 'entities.operator_productivity' })
+  @ApiOperation({
+    summary: 'Photos reviewed, corrections, retouches and time per item of each operator',
+  })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Productivity report retrieved',
+    type: OperatorProductivityReportProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Invalid date range' })
+  getReport(@Query() dto: GetOperatorProductivityDto) {
+    return this.queryBus.execute(
+      new GetOperatorProductivityQuery(
+        dto.from,
+        dto.to,
+        dto.eventId ?? null,
+        dto.operatorId ?? null,
+      ),
+    )
+  }
+
+  @Roles('admin')
+  @Post('export')
+  @SuccessMessage('success.CREATED', { entity: 'entities.operator_productivity_export' })
+  @ApiOperation({ summary: 'Export the productivity report as a CSV or XLSX file' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'File written to storage',
+    type: OperatorProductivityExportProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Invalid date range' })
+  export(@Body() dto: ExportOperatorProductivityDto, @CurrentUser() user: ICurrentUser) {
+    return this.commandBus.execute(
+      new ExportOperatorProductivityCommand(
+        dto.from,
+        dto.to,
+        dto.eventId ?? null,
+        dto.operatorId ?? null,
+        dto.format,
+        new AuditContext(user.userId),
+      ),
+    )
+  }
+}
@@ -30,6 +30,17 @@ describe('OperatorController (roles metadata)', () => {
         expect.arrayContaining(['admin', 'operator']),
       )
     })
+
+    it('claimRetouchWork and releaseRetouchWork accept admin and operator', () => {
+      expect(getRoles('claimRetouchWork')).toEqual(expect.arrayContaining(['admin', 'operator']))
+      expect(getRoles('releaseRetouchWork')).toEqual(expect.arrayContaining(['admin', 'operator']))
+    })
+  })
+
+  describe('admin-only endpoints', () => {
+    it('assignRetouchWork is admin-only', () => {
+      expect(getRoles('assignRetouchWork')).toEqual(['admin'])
+    })
   })
 
   describe('operator-only endpoints', () => {
@@ -1,10 +1,26 @@
-import { Controller, Get, Param, Query } from '@nestjs/common'
-import { QueryBus } from '@nestjs/cqrs'
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
 import { ApiBearerAuth, ApiOperation, ApiParam, ApiQuery, ApiTags } from '@nestjs/swagger'
 import { Pagination } from '@shared/application'
 import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
 import { ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
 import { I18nLang } from 'nestjs-i18n'
+import { AssignRetouchWorkCommand } from '../../application/commands/assign-retouch-work/assign-retouch-work.command'
+import { AssignRetouchWorkDto } from '../../application/commands/assign-retouch-work/assign-retouch-work.dto'
+import { ClaimRetouchWorkCommand } from '../../application/commands/claim-retouch-work/claim-retouch-work.command'
+import { ClaimRetouchWorkDto } from '../../application/commands/claim-retouch-work/claim-retouch-work.dto'
+import { ReleaseRetouchWorkCommand } from '../../application/commands/release-retouch-work/release-retouch-work.command'
+import { ReleaseRetouchWorkDto } from '../../application/commands/release-retouch-work/release-retouch-work.dto'
 import {
   DashboardSummaryProjection,
   OperatorActiveEventProjection,
@@ -13,6 +29,8 @@ import {
   OperatorRetouchOrderProjection,
   OperatorReviewQueueItemProjection,
   RecentActivityProjection,
+  RetouchClaimProjection,
+  RetouchClaimReleaseProjection,
   RetouchQueueOrderProjection,
 } from '../../application/projections'
 import { GetActiveEventsDto } from '../../application/queries/get-active-events/get-active-events.dto'
@@ -34,7 +52,10 @@ import { GetOperatorReviewQueueQuery } from '../../application/queries/get-revie
 @ApiBearerAuth()
 @Controller('operator')
 export class OperatorController {
-  constructor(private readonly queryBus: QueryBus) {}
+  constructor(
+    private readonly queryBus: QueryBus,
+    private readonly commandBus: CommandBus,
+  ) {}
 
   @Get('dashboard/summary')
   @Roles('operator')
@@ -116,6 +137,8 @@ export class OperatorController {
         pagination,
         dto.status ?? 'all',
         dto.eventSlug ?? null,
+        dto.timingFlagged ?? false,
+        dto.suggested ?? false,
       ),
     )
   }
@@ -168,10 +191,68 @@ export class OperatorController {
         dto.scope ?? 'pending',
         dto.eventSlug ?? null,
         user.role,
+        dto.sla ?? null,
       ),
     )
   }
 
+  @Post('retouch/orders/:orderId/claim')
+  @HttpCode(200)
+  @Roles('admin', 'operator')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.retouch_claim' })
+  @ApiOperation({ summary: 'Claim the pending photos of an order, or renew the claim' })
+  @ApiParam({ name: 'orderId', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({ status: 200, description: 'Claimed photos', type: RetouchClaimProjection })
+  async claimRetouchWork(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @CurrentUser() user: ICurrentUser,
+    @Body() dto: ClaimRetouchWorkDto,
+  ) {
+    return this.commandBus.execute(
+      new ClaimRetouchWorkCommand(orderId, dto.photoIds ?? null, user.userId, user.role),
+    )
+  }
+
+  @Post('retouch/orders/:orderId/release')
+  @HttpCode(200)
+  @Roles('admin', 'operator')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.retouch_claim' })
+  @ApiOperation({ summary: 'Release claimed photos of an order (admins release anyone)' })
+  @ApiParam({ name: 'orderId', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Number of photos released',
+    type: RetouchClaimReleaseProjection,
+  })
+  async releaseRetouchWork(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @CurrentUser() user: ICurrentUser,
+    @Body() dto: ReleaseRetouchWorkDto,
+  ) {
+    return this.commandBus.execute(
+      new ReleaseRetouchWorkCommand(orderId, dto.photoIds ?? null, user.userId, user.role),
+    )
+  }
+
+  @Put('retouch/orders/:orderId/assignment')
+  @Roles('admin')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.retouch_claim' })
+  @ApiOperation({ summary: 'Hand the pending photos of an order to an operator' })
+  @ApiParam({ name: 'orderId', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Assigned photos',
+    type: RetouchClaimProjection,
+  })
+  async assignRetouchWork(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @Body() dto: AssignRetouchWorkDto,
+  ) {
+    return this.commandBus.execute(
+      new AssignRetouchWorkCommand(orderId, dto.photoIds ?? null, dto.operatorId),
+    )
+  }
+
   @Get('events/:eventSlug/retouch-queue')
   @Roles('admin', 'operator')
   @SuccessMessage('success.LIST')
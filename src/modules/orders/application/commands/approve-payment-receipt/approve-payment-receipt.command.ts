@@ -0,0 +1,8 @@
+import type { AuditContext } from '@shared/application'
+
+export class ApprovePaymentReceiptCommand {
+  constructor(
+    public readonly receiptId: string,
+    public readonly audit: AuditContext,
+  ) {}
+}
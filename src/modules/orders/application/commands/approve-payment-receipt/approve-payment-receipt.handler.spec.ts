@@ -0,0 +1,58 @@
+import type { CommandBus } from '@nestjs/cqrs'
+import { PaymentReceipt } from '@orders/domain/entities/payment-receipt.entity'
+import { PaymentReceiptStatus } from '@orders/domain/value-objects/payment-receipt-status.vo'
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { ConfirmOrderPaymentCommand } from '../confirm-order-payment/confirm-order-payment.command'
+import { ApprovePaymentReceiptCommand } from './approve-payment-receipt.command'
+import { ApprovePaymentReceiptHandler } from './approve-payment-receipt.handler'
+
+const buildReceipt = () =>
+  PaymentReceipt.create({
+    orderId: 'order-1',
+    storageKey: 'orders/order-1/receipts/abc-transfer.jpg',
+    fileSize: null,
+    mimeType: 'image/jpeg',
+    submittedById: 'user-1',
+  })
+
+describe('ApprovePaymentReceiptHandler', () => {
+  let readRepo: { findById: jest.Mock }
+  let commandBus: { execute: jest.Mock }
+  let handler: ApprovePaymentReceiptHandler
+
+  beforeEach(() => {
+    readRepo = { findById: jest.fn() }
+    commandBus = { execute: jest.fn().mockResolvedValue({ id: 'order-1' }) }
+    handler = new ApprovePaymentReceiptHandler(
+      readRepo as never,
+      commandBus as unknown as CommandBus,
+    )
+  })
+
+  it('approves the receipt and hands it to the order confirmation, with the admin audit', async () => {
+    const receipt = buildReceipt()
+    readRepo.findById.mockResolvedValue(receipt)
+    const audit = new AuditContext('admin-1')
+
+    const result = await handler.execute(new ApprovePaymentReceiptCommand(receipt.id, audit))
+
+    expect(commandBus.execute).toHaveBeenCalledWith(
+      new ConfirmOrderPaymentCommand('order-1', audit, undefined, receipt),
+    )
+    expect(receipt.status).toBe(PaymentReceiptStatus.APPROVED)
+    expect(receipt.reviewedById).toBe('admin-1')
+    expect(result).toEqual({ id: receipt.id })
+  })
+
+  it('throws when the receipt was already reviewed', async () => {
+    const receipt = buildReceipt()
+    receipt.reject('admin-1', 'Monto incorrecto')
+    readRepo.findById.mockResolvedValue(receipt)
+
+    await expect(
+      handler.execute(new ApprovePaymentReceiptCommand(receipt.id, new AuditContext('admin-2'))),
+    ).rejects.toThrow(AppException)
+    expect(commandBus.execute).not.toHaveBeenCalled()
+  })
+})
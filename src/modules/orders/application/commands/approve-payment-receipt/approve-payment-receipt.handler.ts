@@ -0,0 +1,35 @@
+import { Inject } from '@nestjs/common'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IPaymentReceiptReadRepository,
+  PAYMENT_RECEIPT_READ_REPOSITORY,
+} from '@orders/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { ConfirmOrderPaymentCommand } from '../confirm-order-payment/confirm-order-payment.command'
+import { ApprovePaymentReceiptCommand } from './approve-payment-receipt.command'
+
+@CommandHandler(ApprovePaymentReceiptCommand)
+export class ApprovePaymentReceiptHandler implements ICommandHandler<ApprovePaymentReceiptCommand> {
+  constructor(
+    @Inject(PAYMENT_RECEIPT_READ_REPOSITORY)
+    private readonly receiptReadRepo: IPaymentReceiptReadRepository,
+    private readonly commandBus: CommandBus,
+  ) {}
+
+  async execute(command: ApprovePaymentReceiptCommand): Promise<EntityIdProjection> {
+    // 1. Find receipt
+    const receipt = await this.receiptReadRepo.findById(command.receiptId)
+    if (!receipt) throw AppException.notFound('entities.payment_receipt', command.receiptId)
+
+    // 2. Approve (pending → approved); saved together with the order once it is confirmed
+    receipt.approve(command.audit.userId)
+
+    // 3. Confirm the order payment (pending | payment_info_sent → paid)
+    await this.commandBus.execute(
+      new ConfirmOrderPaymentCommand(receipt.orderId, command.audit, undefined, receipt),
+    )
+
+    return { id: receipt.id }
+  }
+}
@@ -0,0 +1,8 @@
+export class ApprovePhotoRetouchCommand {
+  constructor(
+    public readonly orderId: string,
+    public readonly photoId: string,
+    /** Buyer approving their own order; null when an admin approves on their behalf. */
+    public readonly userId: string | null,
+  ) {}
+}
@@ -0,0 +1,97 @@
+import type { CommandBus } from '@nestjs/cqrs'
+import { Order, RetouchRequest } from '@orders/domain/entities'
+import type { IOrderReadRepository, IRetouchRequestRepository } from '@orders/domain/ports'
+import { SendDeliveryCommand } from '../send-delivery/send-delivery.command'
+import { ApprovePhotoRetouchCommand } from './approve-photo-retouch.command'
+import { ApprovePhotoRetouchHandler } from './approve-photo-retouch.handler'
+
+const buildPaidOrder = () => {
+  const order = Order.create({
+    previewLinkId: null,
+    eventId: 'event-1',
+    userId: 'user-1',
+    notes: null,
+    subtotal: 10,
+  })
+  order.confirmPayment(null)
+  return order
+}
+
+const awaitingApproval = (orderId: string) => {
+  const request = RetouchRequest.create({
+    orderItemId: 'item-1',
+    orderId,
+    photoId: 'photo-1',
+    instructions: 'Aclarar mi cara',
+    price: null,
+  })
+  request.submitForApproval('revision-1')
+  return request
+}
+
+describe('ApprovePhotoRetouchHandler', () => {
+  let orderReadRepo: jest.Mocked<IOrderReadRepository>
+  let requestRepo: jest.Mocked<IRetouchRequestRepository>
+  let commandBus: { execute: jest.Mock }
+  let handler: ApprovePhotoRetouchHandler
+
+  beforeEach(() => {
+    orderReadRepo = { findById: jest.fn() } as unknown as jest.Mocked<IOrderReadRepository>
+    requestRepo = {
+      findByOrderItem: jest.fn(),
+      save: jest.fn().mockResolvedValue(undefined),
+      countUnapproved: jest.fn().mockResolvedValue(0),
+    } as unknown as jest.Mocked<IRetouchRequestRepository>
+    commandBus = { execute: jest.fn().mockResolvedValue(undefined) }
+    handler = new ApprovePhotoRetouchHandler(
+      orderReadRepo,
+      requestRepo,
+      commandBus as unknown as CommandBus,
+    )
+  })
+
+  it('approves the retouch and delivers once nothing is left to approve', async () => {
+    const order = buildPaidOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    requestRepo.findByOrderItem.mockResolvedValue(awaitingApproval(order.id))
+
+    await handler.execute(new ApprovePhotoRetouchCommand(order.id, 'photo-1', 'user-1'))
+
+    expect(requestRepo.save).toHaveBeenCalledWith(expect.objectContaining({ status: 'approved' }))
+    expect(commandBus.execute).toHaveBeenCalledWith(new SendDeliveryCommand(order.id))
+  })
+
+  it('waits for the other requests of the order', async () => {
+    const order = buildPaidOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    requestRepo.findByOrderItem.mockResolvedValue(awaitingApproval(order.id))
+    requestRepo.countUnapproved.mockResolvedValue(1)
+
+    await handler.execute(new ApprovePhotoRetouchCommand(order.id, 'photo-1', null))
+
+    expect(requestRepo.save).toHaveBeenCalled()
+    expect(commandBus.execute).not.toHaveBeenCalled()
+  })
+
+  it('keeps the approval when the delivery fails', async () => {
+    const order = buildPaidOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    requestRepo.findByOrderItem.mockResolvedValue(awaitingApproval(order.id))
+    commandBus.execute.mockRejectedValue(new Error('storage down'))
+
+    const result = await handler.execute(
+      new ApprovePhotoRetouchCommand(order.id, 'photo-1', 'user-1'),
+    )
+
+    expect(result).toEqual({ id: expect.any(String) })
+  })
+
+  it('hides orders of other customers', async () => {
+    orderReadRepo.findById.mockResolvedValue(buildPaidOrder())
+
+    await expect(
+      handler.execute(new ApprovePhotoRetouchCommand('o', 'photo-1', 'user-2')),
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    expect(requestRepo.findByOrderItem).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,57 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IOrderReadRepository,
+  type IRetouchRequestRepository,
+  ORDER_READ_REPOSITORY,
+  RETOUCH_REQUEST_REPOSITORY,
+} from '@orders/domain/ports'
+import { OrderStatus } from '@orders/domain/value-objects/order-status.vo'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { SendDeliveryCommand } from '../send-delivery/send-delivery.command'
+import { ApprovePhotoRetouchCommand } from './approve-photo-retouch.command'
+
+/**
+ * Approves the retouch of one photo. Delivery waits for every retouch request of
+ * the order, so the last approval on a paid order sends the delivery link.
+ */
+@CommandHandler(ApprovePhotoRetouchCommand)
+export class ApprovePhotoRetouchHandler implements ICommandHandler<ApprovePhotoRetouchCommand> {
+  private readonly logger = new Logger(ApprovePhotoRetouchHandler.name)
+
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(RETOUCH_REQUEST_REPOSITORY) private readonly requestRepo: IRetouchRequestRepository,
+    private readonly commandBus: CommandBus,
+  ) {}
+
+  async execute(command: ApprovePhotoRetouchCommand): Promise<EntityIdProjection> {
+    // 1. Find order, scoped to the customer unless an admin approves
+    const order = await this.orderReadRepo.findById(command.orderId)
+    if (!order || (command.userId !== null && order.userId !== command.userId)) {
+      throw AppException.notFound('entities.order', command.orderId)
+    }
+
+    // 2. Approve the request of the photo
+    const request = await this.requestRepo.findByOrderItem(order.id, command.photoId)
+    if (!request) throw AppException.notFound('entities.retouch_request', command.photoId)
+    request.approve()
+    await this.requestRepo.save(request)
+
+    // 3. Deliver once nothing is left to approve. Delivery failures must not fail
+    //    the approval: an admin can still send the delivery from the dashboard.
+    const isUndelivered =
+      order.status === OrderStatus.PAID ||
+      (order.status === OrderStatus.GIFTED && order.deliveredAt === null)
+    if (isUndelivered && (await this.requestRepo.countUnapproved(order.id)) === 0) {
+      await this.commandBus.execute(new SendDeliveryCommand(order.id)).catch((error) => {
+        this.logger.error(
+          `Delivery after retouch approval of order ${order.id} failed: ${error instanceof Error ? error.message : error}`,
+        )
+      })
+    }
+
+    return { id: request.id }
+  }
+}
@@ -0,0 +1,3 @@
+export class AttachPhotoToBibPackagesCommand {
+  constructor(public readonly photoId: string) {}
+}
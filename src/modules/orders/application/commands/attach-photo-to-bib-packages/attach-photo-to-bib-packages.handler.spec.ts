@@ -0,0 +1,52 @@
+import { AttachPhotoToBibPackagesCommand } from './attach-photo-to-bib-packages.command'
+import { AttachPhotoToBibPackagesHandler } from './attach-photo-to-bib-packages.handler'
+
+describe('AttachPhotoToBibPackagesHandler', () => {
+  let handler: AttachPhotoToBibPackagesHandler
+  let readRepo: { findBibPackageOrdersForPhoto: jest.Mock }
+  let writeRepo: { savePhotos: jest.Mock; updateItemsDeliveredAs: jest.Mock }
+
+  beforeEach(() => {
+    readRepo = { findBibPackageOrdersForPhoto: jest.fn() }
+    writeRepo = {
+      savePhotos: jest.fn().mockResolvedValue(undefined),
+      updateItemsDeliveredAs: jest.fn().mockResolvedValue(undefined),
+    }
+    handler = new AttachPhotoToBibPackagesHandler(readRepo as never, writeRepo as never)
+  })
+
+  it('adds the photo to every matching package order', async () => {
+    readRepo.findBibPackageOrdersForPhoto.mockResolvedValue([
+      { orderId: 'o1', status: 'pending' },
+      { orderId: 'o2', status: 'paid' },
+    ])
+
+    const count = await handler.execute(new AttachPhotoToBibPackagesCommand('photo-1'))
+
+    expect(count).toBe(2)
+    expect(writeRepo.savePhotos).toHaveBeenCalledWith('o1', [
+      { photoId: 'photo-1', unitPrice: null },
+    ])
+    expect(writeRepo.savePhotos).toHaveBeenCalledWith('o2', [
+      { photoId: 'photo-1', unitPrice: null },
+    ])
+    expect(writeRepo.updateItemsDeliveredAs).not.toHaveBeenCalled()
+  })
+
+  it('refreshes delivered_as on orders that were already delivered', async () => {
+    readRepo.findBibPackageOrdersForPhoto.mockResolvedValue([
+      { orderId: 'o3', status: 'delivered' },
+    ])
+
+    await handler.execute(new AttachPhotoToBibPackagesCommand('photo-1'))
+
+    expect(writeRepo.updateItemsDeliveredAs).toHaveBeenCalledWith('o3')
+  })
+
+  it('does nothing when no package matches', async () => {
+    readRepo.findBibPackageOrdersForPhoto.mockResolvedValue([])
+
+    await expect(handler.execute(new AttachPhotoToBibPackagesCommand('photo-1'))).resolves.toBe(0)
+    expect(writeRepo.savePhotos).not.toHaveBeenCalled()
+  })
+})
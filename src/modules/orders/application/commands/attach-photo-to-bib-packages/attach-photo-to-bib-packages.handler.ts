@@ -0,0 +1,45 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IOrderReadRepository,
+  type IOrderWriteRepository,
+  ORDER_READ_REPOSITORY,
+  ORDER_WRITE_REPOSITORY,
+} from '@orders/domain/ports'
+import { OrderStatus } from '@orders/domain/value-objects/order-status.vo'
+import { AttachPhotoToBibPackagesCommand } from './attach-photo-to-bib-packages.command'
+
+/**
+ * Adds a newly classified (or re-labelled) photo to every live bib package order
+ * whose bib it now matches. Delivery links list order items, so delivered packages
+ * pick the photo up on the existing link without a new one being issued.
+ */
+@CommandHandler(AttachPhotoToBibPackagesCommand)
+export class AttachPhotoToBibPackagesHandler
+  implements ICommandHandler<AttachPhotoToBibPackagesCommand>
+{
+  private readonly logger = new Logger(AttachPhotoToBibPackagesHandler.name)
+
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly readRepo: IOrderReadRepository,
+    @Inject(ORDER_WRITE_REPOSITORY) private readonly writeRepo: IOrderWriteRepository,
+  ) {}
+
+  /** Returns the number of orders the photo was added to. */
+  async execute(command: AttachPhotoToBibPackagesCommand): Promise<number> {
+    const matches = await this.readRepo.findBibPackageOrdersForPhoto(command.photoId)
+
+    for (const match of matches) {
+      await this.writeRepo.savePhotos(match.orderId, [
+        { photoId: command.photoId, unitPrice: null },
+      ])
+      // Delivered / gifted orders: keep delivered_as in line with what the link serves
+      if (match.status === OrderStatus.DELIVERED || match.status === OrderStatus.GIFTED) {
+        await this.writeRepo.updateItemsDeliveredAs(match.orderId)
+      }
+      this.logger.log(`Photo ${command.photoId} added to bib package order ${match.orderId}`)
+    }
+
+    return matches.length
+  }
+}
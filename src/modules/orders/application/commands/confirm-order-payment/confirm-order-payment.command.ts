@@ -1,8 +1,14 @@
+import type { PaymentReceipt } from '@orders/domain/entities'
 import type { AuditContext } from '@shared/application'
 
 export class ConfirmOrderPaymentCommand {
   constructor(
     public readonly orderId: string,
-    public readonly audit: AuditContext,
+    /** Omitted when the payment provider's webhook triggers the command. */
+    public readonly audit?: AuditContext,
+    /** Amount the provider charged; a payment below the order's current total is refused. */
+    public readonly paidAmount?: number,
+    /** Approved receipt that proves a bank transfer; saved together with the order. */
+    public readonly receipt?: PaymentReceipt,
   ) {}
 }
@@ -1,5 +1,6 @@
-import { Inject } from '@nestjs/common'
-import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { IssueInvoiceCommand } from '@invoices/application/commands'
+import { Inject, Logger } from '@nestjs/common'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
 import { NotificationsService } from '@notifications/application/services/notifications.service'
 import {
   type IOrderReadRepository,
@@ -13,10 +14,13 @@ import { ConfirmOrderPaymentCommand } from './confirm-order-payment.command'
 
 @CommandHandler(ConfirmOrderPaymentCommand)
 export class ConfirmOrderPaymentHandler implements ICommandHandler<ConfirmOrderPaymentCommand> {
+  private readonly logger = new Logger(ConfirmOrderPaymentHandler.name)
+
   constructor(
     @Inject(ORDER_WRITE_REPOSITORY) private readonly writeRepo: IOrderWriteRepository,
     @Inject(ORDER_READ_REPOSITORY) private readonly readRepo: IOrderReadRepository,
     private readonly notifications: NotificationsService,
+    private readonly commandBus: CommandBus,
   ) {}
 
   async execute(command: ConfirmOrderPaymentCommand): Promise<EntityIdProjection> {
@@ -24,26 +28,48 @@ export class ConfirmOrderPaymentHandler implements ICommandHandler<ConfirmOrderP
     const order = await this.readRepo.findById(command.orderId)
     if (!order) throw AppException.notFound('entities.order', command.orderId)
 
-    // 2. Confirm payment (pending → paid)
-    order.confirmPayment(command.audit.userId)
+    // 2. A retouch add-on may have raised the total since the checkout session was opened
+    if (
+      command.paidAmount !== undefined &&
+      order.isAwaitingPayment &&
+      order.subtotal !== null &&
+      Math.round(command.paidAmount * 100) < Math.round(order.subtotal * 100)
+    ) {
+      throw AppException.businessRule('order.underpaid', false, {
+        paid: command.paidAmount,
+        total: order.subtotal,
+      })
+    }
+
+    // 3. Confirm payment (pending → paid)
+    order.confirmPayment(command.audit?.userId ?? null)
 
-    // 3. Save order
-    await this.writeRepo.save(order)
+    // 4. Save order, with the approved receipt when a transfer was reconciled
+    if (command.receipt) {
+      await this.writeRepo.saveWithReceipt(order, command.receipt)
+    } else {
+      await this.writeRepo.save(order)
+    }
 
-    // 4. Get detail for notification
+    // 5. Get detail for notification
     const detail = await this.readRepo.getDetail(order.id)
 
-    // 5. Emit notification
+    // 6. Emit notification
     this.notifications.emitOrderPaid({
       orderId: order.id,
       eventId: order.eventId,
       eventName: detail?.eventName ?? '',
       customerName: detail?.userName ?? '',
-      confirmedBy: command.audit.userId,
+      confirmedBy: command.audit?.userId,
       photoCount: detail?.photos?.length ?? 0,
       paidAt: order.paidAt!,
     })
 
+    // 7. Issue the invoice — best-effort, an admin can issue it again from the order
+    await this.commandBus.execute(new IssueInvoiceCommand(order.id)).catch((error: unknown) => {
+      this.logger.error(`Invoice for order ${order.id} failed: ${String(error)}`)
+    })
+
     return { id: order.id }
   }
 }
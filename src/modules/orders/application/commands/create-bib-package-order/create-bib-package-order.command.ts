@@ -0,0 +1,8 @@
+export class CreateBibPackageOrderCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly userId: string,
+    public readonly bibNumber: string,
+    public readonly snapCategoryName: string | null,
+  ) {}
+}
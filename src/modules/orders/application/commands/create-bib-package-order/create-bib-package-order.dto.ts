@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator'
+
+export class CreateBibPackageOrderDto {
+  @ApiProperty({
+    description: 'Bib number whose current and future photos are purchased',
+    example: '1234',
+  })
+  @IsString()
+  @Matches(/^[0-9]{1,6}$/)
+  bibNumber: string
+
+  @ApiPropertyOptional({
+    description: 'Category name snapshot for the order',
+    example: 'Ciclismo de montaña',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  snapCategoryName?: string
+}
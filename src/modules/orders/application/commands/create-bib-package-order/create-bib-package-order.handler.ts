@@ -0,0 +1,121 @@
+import { AUTH_USER_REPOSITORY, type IAuthUserRepository } from '@auth/domain/ports'
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { NotificationsService } from '@notifications/application/services/notifications.service'
+import { Order } from '@orders/domain/entities'
+import {
+  type IOrderReadRepository,
+  type IOrderWriteRepository,
+  ORDER_READ_REPOSITORY,
+  ORDER_WRITE_REPOSITORY,
+} from '@orders/domain/ports'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
+import { EventPricingResolver } from '@pricing/application/services/event-pricing-resolver.service'
+import { ExchangeRateService } from '@pricing/application/services/exchange-rate.service'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { CreateBibPackageOrderCommand } from './create-bib-package-order.command'
+
+/**
+ * Sells every photo of one bib at the event's flat bib-package price. The order is
+ * filled with the current PhotoBib matches; photos classified later are attached by
+ * AttachPhotoToBibPackagesHandler and show up on the same delivery link.
+ */
+@CommandHandler(CreateBibPackageOrderCommand)
+export class CreateBibPackageOrderHandler implements ICommandHandler<CreateBibPackageOrderCommand> {
+  constructor(
+    @Inject(ORDER_WRITE_REPOSITORY) private readonly orderWriteRepo: IOrderWriteRepository,
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(AUTH_USER_REPOSITORY) private readonly authUserRepo: IAuthUserRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
+    private readonly pricingResolver: EventPricingResolver,
+    private readonly notifications: NotificationsService,
+    private readonly exchangeRates: ExchangeRateService,
+  ) {}
+
+  async execute(command: CreateBibPackageOrderCommand): Promise<EntityIdProjection> {
+    // 1. Validate event exists and is active
+    const event = await this.eventReadRepo.existsActiveEvent(command.eventId)
+    if (!event) throw AppException.notFound('entities.event', command.eventId)
+
+    // 2. The event must sell bib packages
+    const pricing = await this.pricingResolver.resolve(command.eventId)
+    if (!pricing.bibPackage) throw AppException.businessRule('order.bib_package_not_available')
+
+    // 3. One live package per customer and bib
+    const alreadyPurchased = await this.orderReadRepo.existsActiveBibPackage(
+      command.userId,
+      command.eventId,
+      command.bibNumber,
+    )
+    if (alreadyPurchased) throw AppException.businessRule('order.bib_package_already_purchased')
+
+    // 4. Current matches for the bib
+    const photoIds = await this.orderReadRepo.findPhotoIdsByBib(command.eventId, command.bibNumber)
+    if (photoIds.length === 0) throw AppException.businessRule('order.bib_package_no_photos')
+
+    // 5. Get user snap data (includes profile + phone validation)
+    const snapData = await this.authUserRepo.getUserSnapData(command.userId)
+    if (!snapData) throw AppException.businessRule('order.customer_profile_required')
+    if (snapData.countryId === null) {
+      throw AppException.businessRule('order.customer_profile_required')
+    }
+
+    // 6. Participant on the start list for the bib, if any
+    const participant = await this.participantReadRepo.findSummaryByBib(
+      command.eventId,
+      command.bibNumber,
+    )
+
+    // 7. Create order at the flat price; items carry no unit price
+    const order = Order.create({
+      previewLinkId: null,
+      eventId: command.eventId,
+      userId: command.userId,
+      notes: null,
+      bibNumber: command.bibNumber,
+      subtotal: pricing.bibPackage.price,
+      snapCurrency: pricing.currency,
+      snapFx: await this.exchangeRates.snapshot(pricing.currency),
+      isBibPackage: true,
+    })
+
+    const saved = await this.orderWriteRepo.saveWithSnap(order, {
+      snapFirstName: snapData.firstName,
+      snapLastName: snapData.lastName,
+      snapEmail: snapData.email,
+      snapPhone: snapData.phone,
+      snapCountryId: snapData.countryId,
+      snapProvinceId: snapData.provinceId,
+      snapCantonId: snapData.cantonId,
+      snapCategoryName: command.snapCategoryName ?? participant?.categoryName ?? null,
+      snapParticipantName: participant?.fullName ?? null,
+      snapParticipantTeam: participant?.team ?? null,
+    })
+
+    await this.orderWriteRepo.savePhotos(
+      saved.id,
+      photoIds.map((id) => ({ photoId: id, unitPrice: null })),
+    )
+
+    // 8. Emit notification
+    this.notifications.emitOrderCreated({
+      orderId: saved.id,
+      eventName: event.name,
+      customerName: [snapData.firstName, snapData.lastName].filter(Boolean).join(' '),
+      photoCount: photoIds.length,
+      subtotal: pricing.bibPackage.price,
+      currency: pricing.currency,
+      createdAt: saved.createdAt,
+      actorUserId: command.userId,
+    })
+
+    return { id: saved.id }
+  }
+}
@@ -0,0 +1,8 @@
+export class CreateCheckoutSessionCommand {
+  constructor(
+    public readonly orderId: string,
+    public readonly userId: string,
+    /** Client-supplied `Idempotency-Key` header; null lets the handler derive one. */
+    public readonly idempotencyKey: string | null = null,
+  ) {}
+}
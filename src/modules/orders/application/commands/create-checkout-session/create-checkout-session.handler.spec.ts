@@ -0,0 +1,123 @@
+import { Order, PaymentAttempt } from '@orders/domain/entities'
+import { AppException } from '@shared/domain'
+import { CreateCheckoutSessionCommand } from './create-checkout-session.command'
+import { CreateCheckoutSessionHandler } from './create-checkout-session.handler'
+
+const buildOrder = (subtotal: number | null = 12) =>
+  Order.create({
+    previewLinkId: null,
+    eventId: 'event-1',
+    userId: 'user-1',
+    notes: null,
+    subtotal,
+    snapCurrency: 'USD',
+  })
+
+const buildAttempt = (orderId: string, amount = 12) =>
+  PaymentAttempt.create({
+    orderId,
+    provider: 'fake',
+    providerSessionId: 'cs_old',
+    idempotencyKey: `${orderId}:1`,
+    amount,
+    currency: 'USD',
+    checkoutUrl: 'http://pay/cs_old',
+    expiresAt: new Date(Date.now() + 60_000),
+  })
+
+describe('CreateCheckoutSessionHandler', () => {
+  let orderReadRepo: { findById: jest.Mock; getDetail: jest.Mock }
+  let attemptReadRepo: {
+    findByIdempotencyKey: jest.Mock
+    findLatestCreated: jest.Mock
+    countByOrderId: jest.Mock
+  }
+  let attemptWriteRepo: { create: jest.Mock }
+  let gateway: { provider: string; createCheckoutSession: jest.Mock }
+  let handler: CreateCheckoutSessionHandler
+
+  beforeEach(() => {
+    orderReadRepo = {
+      findById: jest.fn(),
+      getDetail: jest.fn().mockResolvedValue({ snapEmail: 'a@b.c' }),
+    }
+    attemptReadRepo = {
+      findByIdempotencyKey: jest.fn().mockResolvedValue(null),
+      findLatestCreated: jest.fn().mockResolvedValue(null),
+      countByOrderId: jest.fn().mockResolvedValue(0),
+    }
+    attemptWriteRepo = { create: jest.fn((a: PaymentAttempt) => Promise.resolve(a)) }
+    gateway = {
+      provider: 'fake',
+      createCheckoutSession: jest.fn().mockResolvedValue({
+        providerSessionId: 'cs_new',
+        checkoutUrl: 'http://pay/cs_new',
+        expiresAt: null,
+      }),
+    }
+    handler = new CreateCheckoutSessionHandler(
+      orderReadRepo as never,
+      attemptReadRepo as never,
+      attemptWriteRepo as never,
+      gateway as never,
+    )
+  })
+
+  it("hides another customer's order", async () => {
+    orderReadRepo.findById.mockResolvedValue(buildOrder())
+
+    await expect(
+      handler.execute(new CreateCheckoutSessionCommand('o', 'someone-else')),
+    ).rejects.toThrow(AppException)
+    expect(gateway.createCheckoutSession).not.toHaveBeenCalled()
+  })
+
+  it('rejects orders without a price', async () => {
+    const order = buildOrder(null)
+    orderReadRepo.findById.mockResolvedValue(order)
+
+    await expect(
+      handler.execute(new CreateCheckoutSessionCommand(order.id, 'user-1')),
+    ).rejects.toMatchObject({ messageKey: 'order.not_payable' })
+  })
+
+  it('opens a session for the order subtotal and records the attempt', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+
+    const result = await handler.execute(new CreateCheckoutSessionCommand(order.id, 'user-1'))
+
+    expect(gateway.createCheckoutSession).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 12, currency: 'USD', idempotencyKey: `${order.id}:1` }),
+    )
+    const [attempt] = attemptWriteRepo.create.mock.calls[0]
+    expect(attempt.providerSessionId).toBe('cs_new')
+    expect(result).toEqual({
+      paymentAttemptId: attempt.id,
+      checkoutUrl: 'http://pay/cs_new',
+      expiresAt: null,
+    })
+  })
+
+  it('reuses a still-open attempt for the same amount', async () => {
+    const order = buildOrder()
+    const open = buildAttempt(order.id)
+    orderReadRepo.findById.mockResolvedValue(order)
+    attemptReadRepo.findLatestCreated.mockResolvedValue(open)
+
+    const result = await handler.execute(new CreateCheckoutSessionCommand(order.id, 'user-1'))
+
+    expect(result.paymentAttemptId).toBe(open.id)
+    expect(gateway.createCheckoutSession).not.toHaveBeenCalled()
+  })
+
+  it('refuses an idempotency key already used for another order', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    attemptReadRepo.findByIdempotencyKey.mockResolvedValue(buildAttempt('other-order'))
+
+    await expect(
+      handler.execute(new CreateCheckoutSessionCommand(order.id, 'user-1', 'key-1')),
+    ).rejects.toMatchObject({ messageKey: 'payment.idempotency_key_reused' })
+  })
+})
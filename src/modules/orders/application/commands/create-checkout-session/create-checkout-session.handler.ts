@@ -0,0 +1,110 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { CheckoutSessionProjection } from '@orders/application/projections'
+import { PaymentAttempt } from '@orders/domain/entities'
+import {
+  type IOrderReadRepository,
+  type IPaymentAttemptReadRepository,
+  type IPaymentAttemptWriteRepository,
+  type IPaymentGateway,
+  ORDER_READ_REPOSITORY,
+  PAYMENT_ATTEMPT_READ_REPOSITORY,
+  PAYMENT_ATTEMPT_WRITE_REPOSITORY,
+  PAYMENT_GATEWAY,
+} from '@orders/domain/ports'
+import { OrderStatus } from '@orders/domain/value-objects/order-status.vo'
+import { AppException } from '@shared/domain'
+import { CreateCheckoutSessionCommand } from './create-checkout-session.command'
+
+@CommandHandler(CreateCheckoutSessionCommand)
+export class CreateCheckoutSessionHandler implements ICommandHandler<CreateCheckoutSessionCommand> {
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(PAYMENT_ATTEMPT_READ_REPOSITORY)
+    private readonly attemptReadRepo: IPaymentAttemptReadRepository,
+    @Inject(PAYMENT_ATTEMPT_WRITE_REPOSITORY)
+    private readonly attemptWriteRepo: IPaymentAttemptWriteRepository,
+    @Inject(PAYMENT_GATEWAY) private readonly gateway: IPaymentGateway,
+  ) {}
+
+  async execute(command: CreateCheckoutSessionCommand): Promise<CheckoutSessionProjection> {
+    // 1. Find order (another customer's order is reported as missing)
+    const order = await this.orderReadRepo.findById(command.orderId)
+    if (!order || order.userId !== command.userId) {
+      throw AppException.notFound('entities.order', command.orderId)
+    }
+
+    // 2. Validate: still awaiting payment and priced
+    if (order.status !== OrderStatus.PENDING && order.status !== OrderStatus.PAYMENT_INFO_SENT) {
+      throw AppException.businessRule('order.not_pending')
+    }
+    if (order.subtotal === null || order.subtotal <= 0 || !order.snapCurrency) {
+      throw AppException.businessRule('order.not_payable')
+    }
+
+    // 3. Reuse the session of a repeated request or a still-open attempt
+    const existing = await this.findReusable(
+      order.id,
+      order.subtotal,
+      order.snapCurrency,
+      command.idempotencyKey,
+    )
+    if (existing) return this.toProjection(existing)
+
+    // 4. Open a new checkout session at the provider
+    const idempotencyKey =
+      command.idempotencyKey ??
+      `${order.id}:${(await this.attemptReadRepo.countByOrderId(order.id)) + 1}`
+    const detail = await this.orderReadRepo.getDetail(order.id)
+    const session = await this.gateway.createCheckoutSession({
+      orderId: order.id,
+      amount: order.subtotal,
+      currency: order.snapCurrency,
+      idempotencyKey,
+      customerEmail: detail?.snapEmail ?? null,
+    })
+
+    // 5. Record the attempt
+    const attempt = await this.attemptWriteRepo.create(
+      PaymentAttempt.create({
+        orderId: order.id,
+        provider: this.gateway.provider,
+        providerSessionId: session.providerSessionId,
+        idempotencyKey,
+        amount: order.subtotal,
+        currency: order.snapCurrency,
+        checkoutUrl: session.checkoutUrl,
+        expiresAt: session.expiresAt,
+      }),
+    )
+
+    return this.toProjection(attempt)
+  }
+
+  private async findReusable(
+    orderId: string,
+    amount: number,
+    currency: string,
+    idempotencyKey: string | null,
+  ): Promise<PaymentAttempt | null> {
+    if (idempotencyKey) {
+      const byKey = await this.attemptReadRepo.findByIdempotencyKey(idempotencyKey)
+      if (byKey && byKey.orderId !== orderId) {
+        throw AppException.conflict('payment.idempotency_key_reused')
+      }
+      return byKey
+    }
+
+    const latest = await this.attemptReadRepo.findLatestCreated(orderId)
+    // An open session for a different amount (e.g. the order was re-priced) is not reused.
+    return latest?.isOpen() && latest.matchesAmount(amount, currency) ? latest : null
+  }
+
+  private toProjection(attempt: PaymentAttempt): CheckoutSessionProjection {
+    return {
+      paymentAttemptId: attempt.id,
+      checkoutUrl: attempt.checkoutUrl,
+      expiresAt: attempt.expiresAt,
+    }
+  }
+}
@@ -5,6 +5,10 @@ import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
 import { NotificationsService } from '@notifications/application/services/notifications.service'
 import { Order } from '@orders/domain/entities'
 import { type IOrderWriteRepository, ORDER_WRITE_REPOSITORY } from '@orders/domain/ports'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
 import { type IPhotoReadRepository, PHOTO_READ_REPOSITORY } from '@photos/domain/ports'
 import type { EntityIdProjection } from '@shared/application'
 import { AppException } from '@shared/domain'
@@ -19,6 +23,8 @@ export class CreateOrderFromGalleryHandler
     @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
     @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
     @Inject(AUTH_USER_REPOSITORY) private readonly authUserRepo: IAuthUserRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
     private readonly notifications: NotificationsService,
   ) {}
 
@@ -43,7 +49,12 @@ export class CreateOrderFromGalleryHandler
       throw AppException.businessRule('order.customer_profile_required')
     }
 
-    // 4. Create order with snap fields
+    // 4. Participant on the start list for the bib, if any
+    const participant = command.bibNumber
+      ? await this.participantReadRepo.findSummaryByBib(command.eventId, command.bibNumber)
+      : null
+
+    // 5. Create order with snap fields
     const order = Order.create({
       previewLinkId: null,
       eventId: command.eventId,
@@ -60,16 +71,18 @@ export class CreateOrderFromGalleryHandler
       snapCountryId: snapData.countryId,
       snapProvinceId: snapData.provinceId,
       snapCantonId: snapData.cantonId,
-      snapCategoryName: command.snapCategoryName,
+      snapCategoryName: command.snapCategoryName ?? participant?.categoryName ?? null,
+      snapParticipantName: participant?.fullName ?? null,
+      snapParticipantTeam: participant?.team ?? null,
     })
 
-    // 5. Save order items (photo associations)
+    // 6. Save order items (photo associations)
     await this.orderWriteRepo.savePhotos(
       saved.id,
       command.photoIds.map((id) => ({ photoId: id, unitPrice: null })),
     )
 
-    // 6. Emit notification
+    // 7. Emit notification
     this.notifications.emitOrderCreated({
       orderId: saved.id,
       eventName: event.name,
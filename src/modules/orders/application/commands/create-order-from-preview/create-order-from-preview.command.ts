@@ -6,5 +6,6 @@ export class CreateOrderFromPreviewCommand {
     public readonly notes: string | null,
     public readonly bibNumber: string | null,
     public readonly snapCategoryName: string | null,
+    public readonly couponCode: string | null = null,
   ) {}
 }
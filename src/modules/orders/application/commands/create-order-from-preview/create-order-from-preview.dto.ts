@@ -1,5 +1,13 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
-import { ArrayMinSize, IsArray, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator'
+import {
+  ArrayMinSize,
+  IsArray,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  MaxLength,
+} from 'class-validator'
 
 export class CreateOrderFromPreviewDto {
   @ApiProperty({
@@ -37,4 +45,10 @@ export class CreateOrderFromPreviewDto {
   @IsOptional()
   @MaxLength(200)
   snapCategoryName?: string
+
+  @ApiPropertyOptional({ description: 'Coupon code to apply to the order', example: 'VUELTA26' })
+  @IsString()
+  @IsOptional()
+  @Length(3, 40)
+  couponCode?: string
 }
@@ -15,6 +15,10 @@ import {
   PREVIEW_LINK_WRITE_REPOSITORY,
 } from '@previews/domain/ports'
 import { PreviewLinkStatus } from '@previews/domain/value-objects/preview-link-status.vo'
+import { CouponService } from '@pricing/application/services/coupon.service'
+import { EventPricingResolver } from '@pricing/application/services/event-pricing-resolver.service'
+import { ExchangeRateService } from '@pricing/application/services/exchange-rate.service'
+import { PricingCalculator } from '@pricing/domain/services/pricing-calculator.service'
 import type { EntityIdProjection } from '@shared/application'
 import { AppException } from '@shared/domain'
 import { CreateOrderFromPreviewCommand } from './create-order-from-preview.command'
@@ -31,6 +35,9 @@ export class CreateOrderFromPreviewHandler
     @Inject(PREVIEW_LINK_WRITE_REPOSITORY)
     private readonly previewWriteRepo: IPreviewLinkWriteRepository,
     private readonly notifications: NotificationsService,
+    private readonly pricingResolver: EventPricingResolver,
+    private readonly coupons: CouponService,
+    private readonly exchangeRates: ExchangeRateService,
   ) {}
 
   async execute(command: CreateOrderFromPreviewCommand): Promise<EntityIdProjection> {
@@ -63,34 +70,73 @@ export class CreateOrderFromPreviewHandler
       throw AppException.businessRule('order.photos_not_in_preview')
     }
 
-    // 4. Create order with userId (user is already authenticated)
+    // 4. Price the order with the event's config and apply the coupon, if any
+    const pricing = await this.pricingResolver.resolve(previewLink.eventId)
+    const calc = PricingCalculator.calculate(command.photoIds.length, pricing.tiers)
+    const quote = command.couponCode
+      ? await this.coupons.quote(command.couponCode, command.userId, [
+          {
+            eventId: previewLink.eventId,
+            quantity: calc.quantity,
+            unitPrice: calc.unitPrice,
+            currency: pricing.currency,
+          },
+        ])
+      : null
+    const discountAmount = quote?.amounts[0] ?? 0
+    const subtotal = Math.round((calc.subtotal - discountAmount) * 100) / 100
+    const redemption = quote ? this.coupons.redemptionFor(quote, command.userId) : null
+    const snapFx = await this.exchangeRates.snapshot(pricing.currency)
+
+    // 5. Create order with userId (user is already authenticated)
     const order = Order.create({
       previewLinkId: previewLink.id,
       eventId: previewLink.eventId,
       userId: command.userId,
       notes: command.notes,
       bibNumber: command.bibNumber,
+      subtotal,
+      snapCurrency: pricing.currency,
+      snapPricingConfig: pricing.tiers.map((t) => t.toJSON()),
+      snapFx,
+      discount:
+        quote && redemption
+          ? {
+              couponRedemptionId: redemption.id,
+              couponCode: quote.coupon.code,
+              amount: discountAmount,
+              subtotalBeforeDiscount: calc.subtotal,
+            }
+          : null,
     })
 
-    const saved = await this.orderWriteRepo.save(order)
-    await this.orderWriteRepo.savePhotos(
-      saved.id,
-      command.photoIds.map((id) => ({ photoId: id, unitPrice: null })),
+    // The order, its photos and the coupon redemption are written in one transaction
+    const [saved] = await this.orderWriteRepo.placeOrders(
+      [
+        {
+          order,
+          snap: null,
+          items: command.photoIds.map((id) => ({ photoId: id, unitPrice: calc.unitPrice })),
+        },
+      ],
+      redemption,
     )
 
-    // 5. Transition preview link to converted (if first order)
+    // 6. Transition preview link to converted (if first order)
     if (previewLink.status === PreviewLinkStatus.ACTIVE) {
       previewLink.markConverted()
       await this.previewWriteRepo.save(previewLink)
     }
 
-    // 6. Emit notification (fetch detail to get eventName)
+    // 7. Emit notification (fetch detail to get eventName)
     const detail = await this.orderReadRepo.getDetail(saved.id)
     this.notifications.emitOrderCreated({
       orderId: saved.id,
       eventName: detail?.eventName ?? '',
       customerName: detail?.userName ?? '',
       photoCount: command.photoIds.length,
+      subtotal,
+      currency: pricing.currency,
       createdAt: saved.createdAt,
       actorUserId: command.userId,
     })
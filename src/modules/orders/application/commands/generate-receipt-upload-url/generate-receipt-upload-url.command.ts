@@ -0,0 +1,10 @@
+export class GenerateReceiptUploadUrlCommand {
+  constructor(
+    public readonly orderId: string,
+    public readonly userId: string,
+    public readonly fileName: string,
+    public readonly contentType: string,
+    /** Set when the customer uploads from the preview link the order was placed on. */
+    public readonly previewToken: string | null = null,
+  ) {}
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsIn, IsString, MaxLength } from 'class-validator'
+
+export class GenerateReceiptUploadUrlDto {
+  @ApiProperty({ description: 'Original file name', example: 'transferencia.jpg', maxLength: 255 })
+  @IsString()
+  @MaxLength(255)
+  fileName: string
+
+  @ApiProperty({
+    description: 'MIME type of the receipt image',
+    example: 'image/jpeg',
+    enum: ['image/jpeg', 'image/png', 'image/webp'],
+  })
+  @IsIn(['image/jpeg', 'image/png', 'image/webp'])
+  contentType: string
+}
@@ -0,0 +1,61 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { ReceiptUploadUrlProjection } from '@orders/application/projections'
+import { type IOrderReadRepository, ORDER_READ_REPOSITORY } from '@orders/domain/ports'
+import { OrderStatus } from '@orders/domain/value-objects/order-status.vo'
+import {
+  type IPreviewLinkReadRepository,
+  PREVIEW_LINK_READ_REPOSITORY,
+} from '@previews/domain/ports'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { GenerateReceiptUploadUrlCommand } from './generate-receipt-upload-url.command'
+
+const PRESIGNED_URL_EXPIRY_SECONDS = 300
+
+@CommandHandler(GenerateReceiptUploadUrlCommand)
+export class GenerateReceiptUploadUrlHandler
+  implements ICommandHandler<GenerateReceiptUploadUrlCommand>
+{
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(PREVIEW_LINK_READ_REPOSITORY)
+    private readonly previewReadRepo: IPreviewLinkReadRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  async execute(command: GenerateReceiptUploadUrlCommand): Promise<ReceiptUploadUrlProjection> {
+    // 1. Find order (another customer's order, or one from another preview link, is reported as missing)
+    const order = await this.orderReadRepo.findById(command.orderId)
+    if (!order || order.userId !== command.userId) {
+      throw AppException.notFound('entities.order', command.orderId)
+    }
+    if (command.previewToken !== null) {
+      const previewLink = await this.previewReadRepo.findByToken(command.previewToken)
+      if (!previewLink || previewLink.id !== order.previewLinkId) {
+        throw AppException.notFound('entities.order', command.orderId)
+      }
+    }
+
+    // 2. Validate: receipts are only taken while the order awaits payment
+    if (order.status !== OrderStatus.PENDING && order.status !== OrderStatus.PAYMENT_INFO_SENT) {
+      throw AppException.businessRule('order.not_pending')
+    }
+
+    // 3. Presign an upload scoped to the order's receipts folder
+    const sanitizedFileName = command.fileName.replace(/[^a-zA-Z0-9._-]/g, '_')
+    const objectKey = `orders/${order.id}/receipts/${crypto.randomUUID()}-${sanitizedFileName}`
+
+    const result = await this.storage.getPresignedUrl({
+      key: objectKey,
+      contentType: command.contentType,
+      expiresIn: PRESIGNED_URL_EXPIRY_SECONDS,
+    })
+
+    return {
+      url: result.url,
+      objectKey: result.objectKey,
+      expiresIn: result.expiresIn,
+    }
+  }
+}
@@ -1,5 +1,6 @@
-import { Inject } from '@nestjs/common'
-import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { IssueInvoiceCommand } from '@invoices/application/commands'
+import { Inject, Logger } from '@nestjs/common'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
 import {
   type IOrderReadRepository,
   type IOrderWriteRepository,
@@ -12,11 +13,14 @@ import { GiftOrderCommand } from './gift-order.command'
 
 @CommandHandler(GiftOrderCommand)
 export class GiftOrderHandler implements ICommandHandler<GiftOrderCommand> {
+  private readonly logger = new Logger(GiftOrderHandler.name)
+
   constructor(
     @Inject(ORDER_WRITE_REPOSITORY)
     private readonly writeRepo: IOrderWriteRepository,
     @Inject(ORDER_READ_REPOSITORY)
     private readonly readRepo: IOrderReadRepository,
+    private readonly commandBus: CommandBus,
   ) {}
 
   async execute(command: GiftOrderCommand): Promise<EntityIdProjection> {
@@ -26,6 +30,11 @@ export class GiftOrderHandler implements ICommandHandler<GiftOrderCommand> {
     order.markAsGift(command.audit.userId)
     await this.writeRepo.save(order)
 
+    // Best-effort, like after a payment: an admin can issue it again from the order
+    await this.commandBus.execute(new IssueInvoiceCommand(order.id)).catch((error: unknown) => {
+      this.logger.error(`Invoice for order ${order.id} failed: ${String(error)}`)
+    })
+
     return { id: order.id }
   }
 }
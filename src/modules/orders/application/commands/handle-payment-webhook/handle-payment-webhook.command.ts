@@ -0,0 +1,7 @@
+export class HandlePaymentWebhookCommand {
+  constructor(
+    /** Unparsed request body; the signature is computed over these exact bytes. */
+    public readonly rawBody: Buffer,
+    public readonly signature: string | undefined,
+  ) {}
+}
@@ -0,0 +1,197 @@
+import type { CommandBus } from '@nestjs/cqrs'
+import { PaymentAttempt } from '@orders/domain/entities'
+import { PaymentEventType, type PaymentWebhookEvent } from '@orders/domain/ports'
+import { PaymentAttemptStatus } from '@orders/domain/value-objects/payment-attempt-status.vo'
+import { AppException } from '@shared/domain'
+import { ConfirmOrderPaymentCommand } from '../confirm-order-payment/confirm-order-payment.command'
+import { SendDeliveryCommand } from '../send-delivery/send-delivery.command'
+import { HandlePaymentWebhookCommand } from './handle-payment-webhook.command'
+import { HandlePaymentWebhookHandler } from './handle-payment-webhook.handler'
+
+const buildAttempt = () =>
+  PaymentAttempt.create({
+    orderId: 'order-1',
+    provider: 'fake',
+    providerSessionId: 'cs_1',
+    idempotencyKey: 'order-1:1',
+    amount: 12,
+    currency: 'USD',
+    checkoutUrl: 'http://pay/cs_1',
+    expiresAt: null,
+  })
+
+const buildEvent = (overrides: Partial<PaymentWebhookEvent> = {}): PaymentWebhookEvent => ({
+  eventId: 'evt_1',
+  type: PaymentEventType.SUCCEEDED,
+  providerSessionId: 'cs_1',
+  amount: 12,
+  currency: 'USD',
+  failureReason: null,
+  payload: {},
+  ...overrides,
+})
+
+const command = () => new HandlePaymentWebhookCommand(Buffer.from('{}'), 'sig')
+
+describe('HandlePaymentWebhookHandler', () => {
+  let gateway: { provider: string; verifyWebhook: jest.Mock }
+  let attemptReadRepo: { findByProviderSession: jest.Mock; hasWebhookEvent: jest.Mock }
+  let attemptWriteRepo: { recordWebhookEvent: jest.Mock; saveTransition: jest.Mock }
+  let commandBus: { execute: jest.Mock }
+  let handler: HandlePaymentWebhookHandler
+
+  beforeEach(() => {
+    gateway = { provider: 'fake', verifyWebhook: jest.fn().mockReturnValue(buildEvent()) }
+    attemptReadRepo = {
+      findByProviderSession: jest.fn().mockResolvedValue(buildAttempt()),
+      hasWebhookEvent: jest.fn().mockResolvedValue(false),
+    }
+    attemptWriteRepo = {
+      recordWebhookEvent: jest.fn().mockResolvedValue(true),
+      saveTransition: jest.fn().mockResolvedValue(true),
+    }
+    commandBus = { execute: jest.fn().mockResolvedValue(undefined) }
+    handler = new HandlePaymentWebhookHandler(
+      gateway as never,
+      attemptReadRepo as never,
+      attemptWriteRepo as never,
+      commandBus as unknown as CommandBus,
+    )
+  })
+
+  it('confirms the order and triggers delivery on a verified payment', async () => {
+    const result = await handler.execute(command())
+
+    expect(result).toEqual({ eventId: 'evt_1', outcome: 'confirmed' })
+    const [attempt, previous] = attemptWriteRepo.saveTransition.mock.calls[0]
+    expect(attempt.status).toBe(PaymentAttemptStatus.SUCCEEDED)
+    expect(previous).toBe(PaymentAttemptStatus.CREATED)
+    expect(commandBus.execute.mock.calls[0][0]).toEqual(
+      new ConfirmOrderPaymentCommand('order-1', undefined, 12),
+    )
+    expect(commandBus.execute.mock.calls[1][0]).toBeInstanceOf(SendDeliveryCommand)
+  })
+
+  it('skips a redelivered event without touching the order', async () => {
+    attemptReadRepo.hasWebhookEvent.mockResolvedValue(true)
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('duplicate')
+    expect(attemptWriteRepo.saveTransition).not.toHaveBeenCalled()
+    expect(commandBus.execute).not.toHaveBeenCalled()
+  })
+
+  it('does not confirm twice when the attempt already succeeded', async () => {
+    const attempt = buildAttempt()
+    attempt.markSucceeded()
+    attemptReadRepo.findByProviderSession.mockResolvedValue(attempt)
+    gateway.verifyWebhook.mockReturnValue(buildEvent({ eventId: 'evt_2' }))
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('ignored')
+    expect(commandBus.execute).not.toHaveBeenCalled()
+  })
+
+  it('does not deliver when a concurrent webhook moved the attempt first', async () => {
+    attemptWriteRepo.saveTransition.mockResolvedValue(false)
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('duplicate')
+    expect(commandBus.execute).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves the event and the attempt unrecorded when confirming the order fails', async () => {
+    commandBus.execute.mockRejectedValueOnce(new Error('database down'))
+
+    await expect(handler.execute(command())).rejects.toThrow('database down')
+
+    expect(attemptWriteRepo.saveTransition).not.toHaveBeenCalled()
+    expect(attemptWriteRepo.recordWebhookEvent).not.toHaveBeenCalled()
+  })
+
+  it('records the event once the order is confirmed', async () => {
+    await handler.execute(command())
+
+    expect(attemptWriteRepo.recordWebhookEvent).toHaveBeenCalledWith(
+      'fake',
+      expect.objectContaining({ eventId: 'evt_1' }),
+      expect.any(String),
+    )
+    expect(attemptWriteRepo.saveTransition.mock.invocationCallOrder[0]).toBeGreaterThan(
+      commandBus.execute.mock.invocationCallOrder[0],
+    )
+  })
+
+  it('rejects a payment whose amount differs from the attempt', async () => {
+    gateway.verifyWebhook.mockReturnValue(buildEvent({ amount: 1 }))
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('rejected')
+    expect(attemptWriteRepo.saveTransition.mock.calls[0][0].failureReason).toBe('amount_mismatch')
+    expect(commandBus.execute).not.toHaveBeenCalled()
+  })
+
+  it('reports an order that is no longer awaiting payment', async () => {
+    commandBus.execute.mockRejectedValueOnce(AppException.businessRule('order.not_pending'))
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('order_not_pending')
+    expect(commandBus.execute).toHaveBeenCalledTimes(1)
+    expect(attemptWriteRepo.saveTransition.mock.calls[0][0].status).toBe(
+      PaymentAttemptStatus.SUCCEEDED,
+    )
+  })
+
+  it('rejects a payment that no longer covers the order total', async () => {
+    commandBus.execute.mockRejectedValueOnce(AppException.businessRule('order.underpaid'))
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('rejected')
+    const [attempt] = attemptWriteRepo.saveTransition.mock.calls[0]
+    expect(attempt.status).toBe(PaymentAttemptStatus.FAILED)
+    expect(attempt.failureReason).toBe('order_total_changed')
+    expect(commandBus.execute).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the confirmation when the automatic delivery fails', async () => {
+    commandBus.execute
+      .mockResolvedValueOnce({ id: 'order-1' })
+      .mockRejectedValueOnce(new Error('storage down'))
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('confirmed')
+  })
+
+  it('records a failed payment on the attempt', async () => {
+    gateway.verifyWebhook.mockReturnValue(
+      buildEvent({ type: PaymentEventType.FAILED, failureReason: 'card_declined' }),
+    )
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('failed')
+    const [attempt] = attemptWriteRepo.saveTransition.mock.calls[0]
+    expect(attempt.status).toBe(PaymentAttemptStatus.FAILED)
+    expect(attempt.failureReason).toBe('card_declined')
+  })
+
+  it('ignores events for unknown sessions', async () => {
+    attemptReadRepo.findByProviderSession.mockResolvedValue(null)
+
+    const result = await handler.execute(command())
+
+    expect(result.outcome).toBe('ignored')
+    expect(attemptWriteRepo.recordWebhookEvent).toHaveBeenCalledWith(
+      'fake',
+      expect.objectContaining({ eventId: 'evt_1' }),
+      null,
+    )
+  })
+})
@@ -0,0 +1,155 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { PaymentWebhookResultProjection } from '@orders/application/projections'
+import type { PaymentAttempt } from '@orders/domain/entities'
+import {
+  type IPaymentAttemptReadRepository,
+  type IPaymentAttemptWriteRepository,
+  type IPaymentGateway,
+  PAYMENT_ATTEMPT_READ_REPOSITORY,
+  PAYMENT_ATTEMPT_WRITE_REPOSITORY,
+  PAYMENT_GATEWAY,
+  PaymentEventType,
+  type PaymentWebhookEvent,
+} from '@orders/domain/ports'
+import { PaymentAttemptStatus } from '@orders/domain/value-objects/payment-attempt-status.vo'
+import { AppException } from '@shared/domain'
+import { ConfirmOrderPaymentCommand } from '../confirm-order-payment/confirm-order-payment.command'
+import { SendDeliveryCommand } from '../send-delivery/send-delivery.command'
+import { HandlePaymentWebhookCommand } from './handle-payment-webhook.command'
+
+@CommandHandler(HandlePaymentWebhookCommand)
+export class HandlePaymentWebhookHandler implements ICommandHandler<HandlePaymentWebhookCommand> {
+  private readonly logger = new Logger(HandlePaymentWebhookHandler.name)
+
+  constructor(
+    @Inject(PAYMENT_GATEWAY) private readonly gateway: IPaymentGateway,
+    @Inject(PAYMENT_ATTEMPT_READ_REPOSITORY)
+    private readonly attemptReadRepo: IPaymentAttemptReadRepository,
+    @Inject(PAYMENT_ATTEMPT_WRITE_REPOSITORY)
+    private readonly attemptWriteRepo: IPaymentAttemptWriteRepository,
+    private readonly commandBus: CommandBus,
+  ) {}
+
+  async execute(command: HandlePaymentWebhookCommand): Promise<PaymentWebhookResultProjection> {
+    // 1. Verify signature and parse
+    const event = this.gateway.verifyWebhook(command.rawBody, command.signature)
+
+    // 2. A processed event id stops here. The event is recorded only once its outcome is
+    //    applied, so a delivery that failed halfway is retried by the next one.
+    if (await this.attemptReadRepo.hasWebhookEvent(this.gateway.provider, event.eventId)) {
+      return { eventId: event.eventId, outcome: 'duplicate' }
+    }
+
+    const attempt = await this.attemptReadRepo.findByProviderSession(
+      this.gateway.provider,
+      event.providerSessionId,
+    )
+    if (!attempt) {
+      this.logger.warn(
+        `Webhook ${event.eventId} references unknown session ${event.providerSessionId}`,
+      )
+      await this.record(event, null)
+      return { eventId: event.eventId, outcome: 'ignored' }
+    }
+
+    // 3. Apply the outcome to the attempt (and the order on success)
+    switch (event.type) {
+      case PaymentEventType.SUCCEEDED:
+        return this.handleSucceeded(attempt, event)
+      case PaymentEventType.FAILED:
+        return this.transition(attempt, event, 'failed', () =>
+          attempt.markFailed(event.failureReason ?? 'unknown'),
+        )
+      case PaymentEventType.EXPIRED:
+        return this.transition(attempt, event, 'expired', () => attempt.markExpired())
+    }
+  }
+
+  private async handleSucceeded(
+    attempt: PaymentAttempt,
+    event: PaymentWebhookEvent,
+  ): Promise<PaymentWebhookResultProjection> {
+    if (!attempt.matchesAmount(event.amount, event.currency)) {
+      this.logger.error(
+        `Payment ${event.eventId} of ${event.amount} ${event.currency} does not match attempt ${attempt.id} (${attempt.amount} ${attempt.currency})`,
+      )
+      return this.transition(attempt, event, 'rejected', () =>
+        attempt.markFailed('amount_mismatch'),
+      )
+    }
+
+    if (attempt.status === PaymentAttemptStatus.SUCCEEDED) {
+      await this.record(event, attempt.id)
+      return { eventId: event.eventId, outcome: 'ignored' }
+    }
+
+    // The order is confirmed before the attempt and the event are stored: if confirming fails,
+    // the attempt stays open and the provider's redelivery confirms it again.
+    let outcome = 'confirmed'
+    try {
+      await this.commandBus.execute(
+        new ConfirmOrderPaymentCommand(attempt.orderId, undefined, event.amount),
+      )
+    } catch (error) {
+      if (!(error instanceof AppException)) throw error
+      if (error.messageKey === 'order.underpaid') {
+        this.logger.error(
+          `Payment ${event.eventId} of ${event.amount} ${event.currency} no longer covers order ${attempt.orderId}`,
+        )
+        return this.transition(attempt, event, 'rejected', () =>
+          attempt.markFailed('order_total_changed'),
+        )
+      }
+      if (error.messageKey !== 'order.not_pending') throw error
+      this.logger.warn(
+        `Order ${attempt.orderId} was no longer awaiting payment when attempt ${attempt.id} succeeded`,
+      )
+      outcome = 'order_not_pending'
+    }
+
+    // A second success for the same session (other event id) loses the status race here.
+    const previous = attempt.status
+    attempt.markSucceeded()
+    const saved = await this.attemptWriteRepo.saveTransition(attempt, previous)
+    await this.record(event, attempt.id)
+    if (!saved) return { eventId: event.eventId, outcome: 'duplicate' }
+    if (outcome !== 'confirmed') return { eventId: event.eventId, outcome }
+
+    // Delivery failures must not fail the webhook: the payment is already recorded
+    // and an admin can still send the delivery from the dashboard.
+    // Orders with customer retouch requests are delivered once the customer approves them.
+    await this.commandBus.execute(new SendDeliveryCommand(attempt.orderId)).catch((error) => {
+      if (error instanceof AppException && error.messageKey === 'order.retouch_approval_pending') {
+        this.logger.log(`Order ${attempt.orderId} is delivered after its retouch approval`)
+        return
+      }
+      this.logger.error(
+        `Automatic delivery for order ${attempt.orderId} failed: ${error instanceof Error ? error.message : error}`,
+      )
+    })
+
+    return { eventId: event.eventId, outcome }
+  }
+
+  private async transition(
+    attempt: PaymentAttempt,
+    event: PaymentWebhookEvent,
+    outcome: string,
+    apply: () => boolean,
+  ): Promise<PaymentWebhookResultProjection> {
+    const previous = attempt.status
+    if (!apply()) {
+      await this.record(event, attempt.id)
+      return { eventId: event.eventId, outcome: 'ignored' }
+    }
+
+    const saved = await this.attemptWriteRepo.saveTransition(attempt, previous)
+    await this.record(event, attempt.id)
+    return { eventId: event.eventId, outcome: saved ? outcome : 'duplicate' }
+  }
+
+  private async record(event: PaymentWebhookEvent, attemptId: string | null): Promise<void> {
+    await this.attemptWriteRepo.recordWebhookEvent(this.gateway.provider, event, attemptId)
+  }
+}
@@ -1,10 +1,31 @@
+export { ApprovePaymentReceiptCommand } from './approve-payment-receipt/approve-payment-receipt.command'
+export { ApprovePhotoRetouchCommand } from './approve-photo-retouch/approve-photo-retouch.command'
+export { AttachPhotoToBibPackagesCommand } from './attach-photo-to-bib-packages/attach-photo-to-bib-packages.command'
 export { CancelOrderCommand } from './cancel-order/cancel-order.command'
 export { ConfirmOrderPaymentCommand } from './confirm-order-payment/confirm-order-payment.command'
+export { CreateBibPackageOrderCommand } from './create-bib-package-order/create-bib-package-order.command'
+export { CreateBibPackageOrderDto } from './create-bib-package-order/create-bib-package-order.dto'
+export { CreateCheckoutSessionCommand } from './create-checkout-session/create-checkout-session.command'
 export { CreateOrderFromGalleryCommand } from './create-order-from-gallery/create-order-from-gallery.command'
 export { CreateOrderFromGalleryDto } from './create-order-from-gallery/create-order-from-gallery.dto'
 export { CreateOrderFromPreviewCommand } from './create-order-from-preview/create-order-from-preview.command'
 export { CreateOrderFromPreviewDto } from './create-order-from-preview/create-order-from-preview.dto'
+export { GenerateReceiptUploadUrlCommand } from './generate-receipt-upload-url/generate-receipt-upload-url.command'
+export { GenerateReceiptUploadUrlDto } from './generate-receipt-upload-url/generate-receipt-upload-url.dto'
 export { GiftOrderCommand } from './gift-order/gift-order.command'
+export { HandlePaymentWebhookCommand } from './handle-payment-webhook/handle-payment-webhook.command'
 export { NotifyPaymentInfoCommand } from './notify-payment-info/notify-payment-info.command'
+export { RefundOrderCommand } from './refund-order/refund-order.command'
+export { RefundOrderDto } from './refund-order/refund-order.dto'
+export { RefundOrderItemsCommand } from './refund-order-items/refund-order-items.command'
+export { RefundOrderItemsDto } from './refund-order-items/refund-order-items.dto'
 export { RegenerateDeliveryCommand } from './regenerate-delivery/regenerate-delivery.command'
+export { RejectPaymentReceiptCommand } from './reject-payment-receipt/reject-payment-receipt.command'
+export { RejectPaymentReceiptDto } from './reject-payment-receipt/reject-payment-receipt.dto'
+export { RequestPhotoRetouchCommand } from './request-photo-retouch/request-photo-retouch.command'
+export { RequestPhotoRetouchDto } from './request-photo-retouch/request-photo-retouch.dto'
+export { RequestRetouchRevisionCommand } from './request-retouch-revision/request-retouch-revision.command'
+export { RequestRetouchRevisionDto } from './request-retouch-revision/request-retouch-revision.dto'
 export { SendDeliveryCommand } from './send-delivery/send-delivery.command'
+export { SubmitPaymentReceiptCommand } from './submit-payment-receipt/submit-payment-receipt.command'
+export { SubmitPaymentReceiptDto } from './submit-payment-receipt/submit-payment-receipt.dto'
@@ -0,0 +1,10 @@
+import type { AuditContext } from '@shared/application'
+
+export class RefundOrderItemsCommand {
+  constructor(
+    public readonly orderId: string,
+    public readonly photoIds: string[],
+    public readonly reason: string,
+    public readonly audit: AuditContext,
+  ) {}
+}
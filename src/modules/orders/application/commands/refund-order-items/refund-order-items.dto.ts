@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { ArrayMinSize, IsArray, IsNotEmpty, IsString, IsUUID, MaxLength } from 'class-validator'
+
+export class RefundOrderItemsDto {
+  @ApiProperty({
+    description: 'Photo IDs to remove from the order and refund',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('4', { each: true })
+  photoIds: string[]
+
+  @ApiProperty({
+    description: 'Why the photos are refunded',
+    example: 'Fotos de otro corredor',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string
+}
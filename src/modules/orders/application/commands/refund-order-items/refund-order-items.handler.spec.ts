@@ -0,0 +1,133 @@
+import { Order } from '@orders/domain/entities/order.entity'
+import { OrderRefundKind } from '@orders/domain/value-objects/order-refund-kind.vo'
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { RefundOrderItemsCommand } from './refund-order-items.command'
+import { RefundOrderItemsHandler } from './refund-order-items.handler'
+
+const buildPaidOrder = () => {
+  const order = Order.create({
+    previewLinkId: null,
+    eventId: 'event-1',
+    userId: 'user-1',
+    notes: null,
+    subtotal: 9,
+    snapCurrency: 'USD',
+    snapPricingConfig: [{ minQty: 1, maxQty: null, pricePerPhoto: 3 }],
+  })
+  order.confirmPayment('admin-1')
+  return order
+}
+
+describe('RefundOrderItemsHandler', () => {
+  let readRepo: { findById: jest.Mock; getItemUnitPrices: jest.Mock }
+  let writeRepo: { saveRefund: jest.Mock }
+  let retouchRequestRepo: { findPricesByOrder: jest.Mock }
+  let handler: RefundOrderItemsHandler
+
+  beforeEach(() => {
+    readRepo = {
+      findById: jest.fn(),
+      getItemUnitPrices: jest.fn().mockResolvedValue(
+        new Map([
+          ['p1', 3],
+          ['p2', 3],
+          ['p3', 3],
+        ]),
+      ),
+    }
+    writeRepo = { saveRefund: jest.fn().mockResolvedValue(undefined) }
+    retouchRequestRepo = { findPricesByOrder: jest.fn().mockResolvedValue(new Map()) }
+    handler = new RefundOrderItemsHandler(
+      readRepo as never,
+      writeRepo as never,
+      retouchRequestRepo as never,
+    )
+  })
+
+  it('removes the photos, lowers the subtotal and records the refund', async () => {
+    const order = buildPaidOrder()
+    readRepo.findById.mockResolvedValue(order)
+
+    const result = await handler.execute(
+      new RefundOrderItemsCommand(order.id, ['p2'], 'Otro corredor', new AuditContext('admin-2')),
+    )
+
+    const [savedOrder, refund] = writeRepo.saveRefund.mock.calls[0]
+    expect(savedOrder.subtotal).toBe(6)
+    expect(refund.kind).toBe(OrderRefundKind.ITEMS)
+    expect(refund.photoIds).toEqual(['p2'])
+    expect(refund.amount).toBe(3)
+    expect(refund.refundedById).toBe('admin-2')
+    expect(result).toMatchObject({ amount: 3, subtotal: 6, currency: 'USD', status: 'paid' })
+  })
+
+  it('refunds the retouch add-on of a removed photo in full', async () => {
+    const order = buildPaidOrder()
+    order.subtotal = 13
+    readRepo.findById.mockResolvedValue(order)
+    retouchRequestRepo.findPricesByOrder.mockResolvedValue(
+      new Map([
+        ['p1', 2],
+        ['p2', 2],
+      ]),
+    )
+
+    const result = await handler.execute(
+      new RefundOrderItemsCommand(order.id, ['p2'], 'Otro corredor', new AuditContext('admin-2')),
+    )
+
+    expect(result).toMatchObject({ amount: 5, subtotal: 8 })
+  })
+
+  it('refunds the unit price the removed photo was sold at in a volume tier', async () => {
+    const order = Order.create({
+      previewLinkId: null,
+      eventId: 'event-1',
+      userId: 'user-1',
+      notes: null,
+      subtotal: 6,
+      snapCurrency: 'USD',
+      snapPricingConfig: [
+        { minQty: 1, maxQty: 2, pricePerPhoto: 4 },
+        { minQty: 3, maxQty: null, pricePerPhoto: 2 },
+      ],
+    })
+    order.confirmPayment('admin-1')
+    readRepo.findById.mockResolvedValue(order)
+    readRepo.getItemUnitPrices.mockResolvedValue(
+      new Map([
+        ['p1', 2],
+        ['p2', 2],
+        ['p3', 2],
+      ]),
+    )
+
+    const result = await handler.execute(
+      new RefundOrderItemsCommand(order.id, ['p2'], 'Otro corredor', new AuditContext('admin-2')),
+    )
+
+    expect(result).toMatchObject({ amount: 2, subtotal: 4 })
+  })
+
+  it('rejects photos that are not in the order', async () => {
+    readRepo.findById.mockResolvedValue(buildPaidOrder())
+
+    await expect(
+      handler.execute(
+        new RefundOrderItemsCommand('o', ['p9'], 'Motivo', new AuditContext('admin-2')),
+      ),
+    ).rejects.toThrow(AppException)
+    expect(writeRepo.saveRefund).not.toHaveBeenCalled()
+  })
+
+  it('refuses to remove every photo (that is a full refund)', async () => {
+    readRepo.findById.mockResolvedValue(buildPaidOrder())
+
+    await expect(
+      handler.execute(
+        new RefundOrderItemsCommand('o', ['p1', 'p2', 'p3'], 'Motivo', new AuditContext('admin-2')),
+      ),
+    ).rejects.toThrow(AppException)
+  })
+})
@@ -0,0 +1,80 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { OrderRefundedProjection } from '@orders/application/projections'
+import { OrderRefund } from '@orders/domain/entities'
+import {
+  type IOrderReadRepository,
+  type IOrderWriteRepository,
+  type IRetouchRequestRepository,
+  ORDER_READ_REPOSITORY,
+  ORDER_WRITE_REPOSITORY,
+  RETOUCH_REQUEST_REPOSITORY,
+} from '@orders/domain/ports'
+import { OrderRefundKind } from '@orders/domain/value-objects/order-refund-kind.vo'
+import { AppException } from '@shared/domain'
+import { RefundOrderItemsCommand } from './refund-order-items.command'
+
+@CommandHandler(RefundOrderItemsCommand)
+export class RefundOrderItemsHandler implements ICommandHandler<RefundOrderItemsCommand> {
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly readRepo: IOrderReadRepository,
+    @Inject(ORDER_WRITE_REPOSITORY) private readonly writeRepo: IOrderWriteRepository,
+    @Inject(RETOUCH_REQUEST_REPOSITORY)
+    private readonly retouchRequestRepo: IRetouchRequestRepository,
+  ) {}
+
+  async execute(command: RefundOrderItemsCommand): Promise<OrderRefundedProjection> {
+    // 1. Find order
+    const order = await this.readRepo.findById(command.orderId)
+    if (!order) throw AppException.notFound('entities.order', command.orderId)
+
+    // 2. Validate the photos are in the order and at least one stays
+    const photoIds = [...new Set(command.photoIds)]
+    const unitPrices = await this.readRepo.getItemUnitPrices(order.id)
+    if (photoIds.some((id) => !unitPrices.has(id))) {
+      throw AppException.businessRule('order.photos_not_in_order')
+    }
+    const remaining = unitPrices.size - photoIds.length
+    if (remaining < 1) throw AppException.businessRule('order.refund_items_all')
+
+    // 3. Refund at least what the removed photos were sold for, or more if what is left
+    //    re-prices cheaper; retouch add-ons of the removed photos are refunded in full
+    //    (their requests go with the items)
+    const addOnPrices = await this.retouchRequestRepo.findPricesByOrder(order.id)
+    const removed = new Set(photoIds)
+    const addOns = [...addOnPrices].reduce(
+      (acc, [photoId, price]) => ({
+        total: acc.total + price,
+        kept: removed.has(photoId) ? acc.kept : acc.kept + price,
+      }),
+      { total: 0, kept: 0 },
+    )
+    const amount = order.refundItems(
+      remaining,
+      photoIds.map((id) => unitPrices.get(id) ?? null),
+      addOns,
+    )
+    const refund = OrderRefund.create({
+      orderId: order.id,
+      kind: OrderRefundKind.ITEMS,
+      amount,
+      currency: order.snapCurrency,
+      reason: command.reason,
+      photoIds,
+      refundedById: command.audit.userId,
+    })
+
+    // 4. Persist order + removed items + refund record. The delivery link serves the
+    //    order's current items, so it narrows to the remaining photos by itself.
+    await this.writeRepo.saveRefund(order, refund)
+
+    return {
+      refundId: refund.id,
+      orderId: order.id,
+      status: order.status,
+      amount,
+      currency: order.snapCurrency,
+      subtotal: order.subtotal,
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import type { AuditContext } from '@shared/application'
+
+export class RefundOrderCommand {
+  constructor(
+    public readonly orderId: string,
+    public readonly reason: string,
+    public readonly audit: AuditContext,
+  ) {}
+}
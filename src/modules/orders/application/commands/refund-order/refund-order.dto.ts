@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+export class RefundOrderDto {
+  @ApiProperty({
+    description: 'Why the order is refunded',
+    example: 'El cliente no aparece en las fotos',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string
+}
@@ -0,0 +1,59 @@
+import {
+  DELIVERY_LINK_WRITE_REPOSITORY,
+  type IDeliveryLinkWriteRepository,
+} from '@deliveries/domain/ports'
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { OrderRefundedProjection } from '@orders/application/projections'
+import { OrderRefund } from '@orders/domain/entities'
+import {
+  type IOrderReadRepository,
+  type IOrderWriteRepository,
+  ORDER_READ_REPOSITORY,
+  ORDER_WRITE_REPOSITORY,
+} from '@orders/domain/ports'
+import { OrderRefundKind } from '@orders/domain/value-objects/order-refund-kind.vo'
+import { AppException } from '@shared/domain'
+import { RefundOrderCommand } from './refund-order.command'
+
+@CommandHandler(RefundOrderCommand)
+export class RefundOrderHandler implements ICommandHandler<RefundOrderCommand> {
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly readRepo: IOrderReadRepository,
+    @Inject(ORDER_WRITE_REPOSITORY) private readonly writeRepo: IOrderWriteRepository,
+    @Inject(DELIVERY_LINK_WRITE_REPOSITORY)
+    private readonly deliveryWriteRepo: IDeliveryLinkWriteRepository,
+  ) {}
+
+  async execute(command: RefundOrderCommand): Promise<OrderRefundedProjection> {
+    // 1. Find order
+    const order = await this.readRepo.findById(command.orderId)
+    if (!order) throw AppException.notFound('entities.order', command.orderId)
+
+    // 2. Refund (paid | delivered → refunded); the whole subtotal goes back
+    const amount = order.refund()
+    const refund = OrderRefund.create({
+      orderId: order.id,
+      kind: OrderRefundKind.FULL,
+      amount,
+      currency: order.snapCurrency,
+      reason: command.reason,
+      refundedById: command.audit.userId,
+    })
+
+    // 3. Persist order + refund record
+    await this.writeRepo.saveRefund(order, refund)
+
+    // 4. Revoke the delivery link — a refunded order keeps no download access
+    await this.deliveryWriteRepo.invalidateByOrderId(order.id)
+
+    return {
+      refundId: refund.id,
+      orderId: order.id,
+      status: order.status,
+      amount,
+      currency: order.snapCurrency,
+      subtotal: order.subtotal,
+    }
+  }
+}
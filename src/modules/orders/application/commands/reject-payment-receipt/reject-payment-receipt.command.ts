@@ -0,0 +1,9 @@
+import type { AuditContext } from '@shared/application'
+
+export class RejectPaymentReceiptCommand {
+  constructor(
+    public readonly receiptId: string,
+    public readonly reason: string,
+    public readonly audit: AuditContext,
+  ) {}
+}
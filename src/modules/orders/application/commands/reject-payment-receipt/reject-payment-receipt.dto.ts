@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+export class RejectPaymentReceiptDto {
+  @ApiProperty({
+    description: 'Why the receipt was rejected; shown to the customer',
+    example: 'El monto transferido no coincide con el total de la orden',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string
+}
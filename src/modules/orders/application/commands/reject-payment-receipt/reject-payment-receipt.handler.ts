@@ -0,0 +1,44 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { PaymentReceiptRejectedProjection } from '@orders/application/projections'
+import {
+  type IOrderReadRepository,
+  type IPaymentReceiptReadRepository,
+  type IPaymentReceiptWriteRepository,
+  ORDER_READ_REPOSITORY,
+  PAYMENT_RECEIPT_READ_REPOSITORY,
+  PAYMENT_RECEIPT_WRITE_REPOSITORY,
+} from '@orders/domain/ports'
+import { AppException } from '@shared/domain'
+import { RejectPaymentReceiptCommand } from './reject-payment-receipt.command'
+
+@CommandHandler(RejectPaymentReceiptCommand)
+export class RejectPaymentReceiptHandler implements ICommandHandler<RejectPaymentReceiptCommand> {
+  constructor(
+    @Inject(PAYMENT_RECEIPT_READ_REPOSITORY)
+    private readonly receiptReadRepo: IPaymentReceiptReadRepository,
+    @Inject(PAYMENT_RECEIPT_WRITE_REPOSITORY)
+    private readonly receiptWriteRepo: IPaymentReceiptWriteRepository,
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+  ) {}
+
+  async execute(command: RejectPaymentReceiptCommand): Promise<PaymentReceiptRejectedProjection> {
+    // 1. Find receipt
+    const receipt = await this.receiptReadRepo.findById(command.receiptId)
+    if (!receipt) throw AppException.notFound('entities.payment_receipt', command.receiptId)
+
+    // 2. Reject (pending → rejected) and save; the customer sees the reason on their order
+    receipt.reject(command.audit.userId, command.reason)
+    await this.receiptWriteRepo.save(receipt)
+
+    // 3. Build WhatsApp template — receipts arrive over WhatsApp, so the answer goes back there too
+    const detail = await this.orderReadRepo.getDetail(receipt.orderId)
+    const whatsappTemplate = `¡Hola ${detail?.snapFirstName ?? ''}! No pudimos validar tu comprobante de pago de ${detail?.eventName ?? ''}: ${receipt.rejectionReason}. Por favor envíanos un nuevo comprobante. ¡Gracias!`
+
+    return {
+      receiptId: receipt.id,
+      orderId: receipt.orderId,
+      whatsappTemplate,
+    }
+  }
+}
@@ -0,0 +1,8 @@
+export class RequestPhotoRetouchCommand {
+  constructor(
+    public readonly orderId: string,
+    public readonly photoId: string,
+    public readonly userId: string,
+    public readonly instructions: string,
+  ) {}
+}
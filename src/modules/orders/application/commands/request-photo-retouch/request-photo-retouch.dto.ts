@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+export class RequestPhotoRetouchDto {
+  @ApiProperty({
+    description: 'What the retoucher should change in the photo',
+    example: 'Quitar al espectador detrás de mí y aclarar mi cara',
+    maxLength: 1000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  instructions: string
+}
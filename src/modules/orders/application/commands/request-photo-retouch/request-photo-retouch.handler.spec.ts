@@ -0,0 +1,144 @@
+import { Order, PaymentAttempt, RetouchRequest } from '@orders/domain/entities'
+import type { IOrderReadRepository, IRetouchRequestRepository } from '@orders/domain/ports'
+import type { EventPricingResolver } from '@pricing/application/services/event-pricing-resolver.service'
+import { RetouchAddOn } from '@pricing/domain/value-objects/retouch-add-on.vo'
+import { RequestPhotoRetouchCommand } from './request-photo-retouch.command'
+import { RequestPhotoRetouchHandler } from './request-photo-retouch.handler'
+
+const buildOrder = () =>
+  Order.create({
+    previewLinkId: null,
+    eventId: 'event-1',
+    userId: 'user-1',
+    notes: null,
+    subtotal: 10,
+    snapCurrency: 'USD',
+  })
+
+describe('RequestPhotoRetouchHandler', () => {
+  let orderReadRepo: jest.Mocked<IOrderReadRepository>
+  let requestRepo: jest.Mocked<IRetouchRequestRepository>
+  let attemptReadRepo: { findLatestCreated: jest.Mock }
+  let pricingResolver: { resolve: jest.Mock }
+  let handler: RequestPhotoRetouchHandler
+
+  beforeEach(() => {
+    orderReadRepo = { findById: jest.fn() } as unknown as jest.Mocked<IOrderReadRepository>
+    requestRepo = {
+      findByOrderItem: jest.fn().mockResolvedValue(null),
+      findOrderItemId: jest.fn().mockResolvedValue('item-1'),
+      save: jest.fn().mockResolvedValue(undefined),
+      saveWithOrder: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IRetouchRequestRepository>
+    attemptReadRepo = { findLatestCreated: jest.fn().mockResolvedValue(null) }
+    pricingResolver = { resolve: jest.fn().mockResolvedValue({ retouchAddOn: null }) }
+    handler = new RequestPhotoRetouchHandler(
+      orderReadRepo,
+      requestRepo,
+      attemptReadRepo as never,
+      pricingResolver as unknown as EventPricingResolver,
+    )
+  })
+
+  it('charges the event add-on on the order with the new request', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    pricingResolver.resolve.mockResolvedValue({ retouchAddOn: RetouchAddOn.create({ price: 4 }) })
+
+    await handler.execute(
+      new RequestPhotoRetouchCommand(order.id, 'photo-1', 'user-1', 'Aclarar mi cara'),
+    )
+
+    const [request, savedOrder] = requestRepo.saveWithOrder.mock.calls[0]
+    expect(request).toMatchObject({ orderItemId: 'item-1', price: 4, status: 'requested' })
+    expect(savedOrder.subtotal).toBe(14)
+  })
+
+  it('refuses a priced request while a checkout session is open', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    pricingResolver.resolve.mockResolvedValue({ retouchAddOn: RetouchAddOn.create({ price: 4 }) })
+    attemptReadRepo.findLatestCreated.mockResolvedValue(
+      PaymentAttempt.create({
+        orderId: order.id,
+        provider: 'fake',
+        providerSessionId: 'cs_1',
+        idempotencyKey: `${order.id}:1`,
+        amount: 10,
+        currency: 'USD',
+        checkoutUrl: 'http://pay/cs_1',
+        expiresAt: null,
+      }),
+    )
+
+    await expect(
+      handler.execute(
+        new RequestPhotoRetouchCommand(order.id, 'photo-1', 'user-1', 'Aclarar mi cara'),
+      ),
+    ).rejects.toMatchObject({ messageKey: 'order.payment_in_progress' })
+    expect(requestRepo.saveWithOrder).not.toHaveBeenCalled()
+  })
+
+  it('takes a free request when the event does not price retouch', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+
+    await handler.execute(
+      new RequestPhotoRetouchCommand(order.id, 'photo-1', 'user-1', 'Aclarar mi cara'),
+    )
+
+    const [request, savedOrder] = requestRepo.saveWithOrder.mock.calls[0]
+    expect(request.price).toBeNull()
+    expect(savedOrder.subtotal).toBe(10)
+  })
+
+  it('replaces the instructions without charging again', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    const existing = RetouchRequest.create({
+      orderItemId: 'item-1',
+      orderId: order.id,
+      photoId: 'photo-1',
+      instructions: 'Aclarar mi cara',
+      price: 4,
+    })
+    requestRepo.findByOrderItem.mockResolvedValue(existing)
+
+    const result = await handler.execute(
+      new RequestPhotoRetouchCommand(order.id, 'photo-1', 'user-1', 'Quitar al espectador'),
+    )
+
+    expect(result).toEqual({ id: existing.id })
+    expect(requestRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ instructions: 'Quitar al espectador' }),
+    )
+    expect(requestRepo.saveWithOrder).not.toHaveBeenCalled()
+    expect(pricingResolver.resolve).not.toHaveBeenCalled()
+  })
+
+  it('hides orders of other customers', async () => {
+    orderReadRepo.findById.mockResolvedValue(buildOrder())
+
+    await expect(
+      handler.execute(new RequestPhotoRetouchCommand('o', 'photo-1', 'user-2', 'Aclarar')),
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' })
+  })
+
+  it('refuses paid orders and photos outside the order', async () => {
+    const paid = buildOrder()
+    paid.confirmPayment('admin-1')
+    orderReadRepo.findById.mockResolvedValueOnce(paid)
+
+    await expect(
+      handler.execute(new RequestPhotoRetouchCommand(paid.id, 'photo-1', 'user-1', 'Aclarar')),
+    ).rejects.toMatchObject({ messageKey: 'order.not_pending' })
+
+    orderReadRepo.findById.mockResolvedValueOnce(buildOrder())
+    requestRepo.findOrderItemId.mockResolvedValueOnce(null)
+
+    await expect(
+      handler.execute(new RequestPhotoRetouchCommand('o', 'photo-9', 'user-1', 'Aclarar')),
+    ).rejects.toMatchObject({ messageKey: 'order.photos_not_in_order' })
+    expect(requestRepo.saveWithOrder).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,74 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { RetouchRequest } from '@orders/domain/entities'
+import {
+  type IOrderReadRepository,
+  type IPaymentAttemptReadRepository,
+  type IRetouchRequestRepository,
+  ORDER_READ_REPOSITORY,
+  PAYMENT_ATTEMPT_READ_REPOSITORY,
+  RETOUCH_REQUEST_REPOSITORY,
+} from '@orders/domain/ports'
+import { EventPricingResolver } from '@pricing/application/services/event-pricing-resolver.service'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { RequestPhotoRetouchCommand } from './request-photo-retouch.command'
+
+/**
+ * Attaches the customer's retouch instructions to one photo of an order still
+ * awaiting payment. When the event prices retouch requests, the add-on is charged
+ * on the order once; sending new instructions for the same photo replaces them.
+ * A priced request is refused while a checkout session for the order is open.
+ */
+@CommandHandler(RequestPhotoRetouchCommand)
+export class RequestPhotoRetouchHandler implements ICommandHandler<RequestPhotoRetouchCommand> {
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(RETOUCH_REQUEST_REPOSITORY) private readonly requestRepo: IRetouchRequestRepository,
+    @Inject(PAYMENT_ATTEMPT_READ_REPOSITORY)
+    private readonly attemptReadRepo: IPaymentAttemptReadRepository,
+    private readonly pricingResolver: EventPricingResolver,
+  ) {}
+
+  async execute(command: RequestPhotoRetouchCommand): Promise<EntityIdProjection> {
+    // 1. Find order, scoped to the customer
+    const order = await this.orderReadRepo.findById(command.orderId)
+    if (!order || order.userId !== command.userId) {
+      throw AppException.notFound('entities.order', command.orderId)
+    }
+
+    // 2. Instructions change the price, so they are taken before payment only
+    if (!order.isAwaitingPayment) throw AppException.businessRule('order.not_pending')
+
+    // 3. Replace the instructions of an existing request
+    const existing = await this.requestRepo.findByOrderItem(order.id, command.photoId)
+    if (existing) {
+      existing.updateInstructions(command.instructions)
+      await this.requestRepo.save(existing)
+      return { id: existing.id }
+    }
+
+    // 4. New request on a photo of the order, priced by the event config
+    const orderItemId = await this.requestRepo.findOrderItemId(order.id, command.photoId)
+    if (!orderItemId) throw AppException.businessRule('order.photos_not_in_order')
+
+    const { retouchAddOn } = await this.pricingResolver.resolve(order.eventId)
+    // A checkout session already open charges the old total, so the price cannot grow under it
+    if (retouchAddOn && order.subtotal !== null) {
+      const openAttempt = await this.attemptReadRepo.findLatestCreated(order.id)
+      if (openAttempt?.isOpen()) throw AppException.conflict('order.payment_in_progress')
+    }
+    const request = RetouchRequest.create({
+      orderItemId,
+      orderId: order.id,
+      photoId: command.photoId,
+      instructions: command.instructions,
+      price: retouchAddOn?.price ?? null,
+    })
+    if (retouchAddOn) order.addRetouchAddOn(retouchAddOn.price)
+
+    await this.requestRepo.saveWithOrder(request, order)
+
+    return { id: request.id }
+  }
+}
@@ -0,0 +1,8 @@
+export class RequestRetouchRevisionCommand {
+  constructor(
+    public readonly orderId: string,
+    public readonly photoId: string,
+    public readonly userId: string,
+    public readonly feedback: string,
+  ) {}
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+export class RequestRetouchRevisionDto {
+  @ApiProperty({
+    description: 'What is still wrong with the retouched photo; shown to the retoucher',
+    example: 'La cara sigue oscura',
+    maxLength: 1000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  feedback: string
+}
@@ -0,0 +1,38 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IOrderReadRepository,
+  type IRetouchRequestRepository,
+  ORDER_READ_REPOSITORY,
+  RETOUCH_REQUEST_REPOSITORY,
+} from '@orders/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { RequestRetouchRevisionCommand } from './request-retouch-revision.command'
+
+/** Sends a retouched photo back to the operators with the customer's feedback. */
+@CommandHandler(RequestRetouchRevisionCommand)
+export class RequestRetouchRevisionHandler
+  implements ICommandHandler<RequestRetouchRevisionCommand>
+{
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(RETOUCH_REQUEST_REPOSITORY) private readonly requestRepo: IRetouchRequestRepository,
+  ) {}
+
+  async execute(command: RequestRetouchRevisionCommand): Promise<EntityIdProjection> {
+    const order = await this.orderReadRepo.findById(command.orderId)
+    if (!order || order.userId !== command.userId) {
+      throw AppException.notFound('entities.order', command.orderId)
+    }
+
+    const request = await this.requestRepo.findByOrderItem(order.id, command.photoId)
+    if (!request) throw AppException.notFound('entities.retouch_request', command.photoId)
+
+    // Puts the photo back in the operators' retouch queue
+    request.requestRevision(command.feedback)
+    await this.requestRepo.save(request)
+
+    return { id: request.id }
+  }
+}
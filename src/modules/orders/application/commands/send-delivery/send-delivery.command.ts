@@ -3,6 +3,7 @@ import type { AuditContext } from '@shared/application'
 export class SendDeliveryCommand {
   constructor(
     public readonly orderId: string,
-    public readonly audit: AuditContext,
+    /** Omitted when delivery is triggered automatically after an online payment. */
+    public readonly audit?: AuditContext,
   ) {}
 }
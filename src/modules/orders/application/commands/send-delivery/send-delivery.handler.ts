@@ -7,8 +7,10 @@ import type { OrderPaymentConfirmedProjection } from '@orders/application/projec
 import {
   type IOrderReadRepository,
   type IOrderWriteRepository,
+  type IRetouchRequestRepository,
   ORDER_READ_REPOSITORY,
   ORDER_WRITE_REPOSITORY,
+  RETOUCH_REQUEST_REPOSITORY,
 } from '@orders/domain/ports'
 import { OrderStatus } from '@orders/domain/value-objects/order-status.vo'
 import { AppException } from '@shared/domain'
@@ -21,6 +23,8 @@ export class SendDeliveryHandler implements ICommandHandler<SendDeliveryCommand>
     private readonly writeRepo: IOrderWriteRepository,
     @Inject(ORDER_READ_REPOSITORY)
     private readonly readRepo: IOrderReadRepository,
+    @Inject(RETOUCH_REQUEST_REPOSITORY)
+    private readonly retouchRequestRepo: IRetouchRequestRepository,
     private readonly commandBus: CommandBus,
     private readonly notifications: NotificationsService,
   ) {}
@@ -37,6 +41,11 @@ export class SendDeliveryHandler implements ICommandHandler<SendDeliveryCommand>
       throw AppException.businessRule('order.not_deliverable')
     }
 
+    // 2b. Customer retouch requests must be approved before the final delivery
+    if ((await this.retouchRequestRepo.countUnapproved(order.id)) > 0) {
+      throw AppException.businessRule('order.retouch_approval_pending')
+    }
+
     // 3. Generate delivery link
     const deliveryResult = await this.commandBus.execute<
       CreateDeliveryLinkCommand,
@@ -68,7 +77,7 @@ export class SendDeliveryHandler implements ICommandHandler<SendDeliveryCommand>
       eventName: detail?.eventName ?? '',
       customerName,
       deliveredAt: order.deliveredAt!,
-      actorUserId: command.audit.userId,
+      actorUserId: command.audit?.userId,
     })
 
     // 9. Build WhatsApp template (emojis as explicit \u escapes to avoid
@@ -0,0 +1,11 @@
+export class SubmitPaymentReceiptCommand {
+  constructor(
+    public readonly orderId: string,
+    public readonly userId: string,
+    public readonly storageKey: string,
+    public readonly fileSize: bigint | null,
+    public readonly mimeType: string | null,
+    /** Set when the customer uploads from the preview link the order was placed on. */
+    public readonly previewToken: string | null = null,
+  ) {}
+}
@@ -0,0 +1,24 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { IsNumber, IsOptional, IsString, MaxLength } from 'class-validator'
+
+export class SubmitPaymentReceiptDto {
+  @ApiProperty({
+    description: 'Storage key returned from the receipt presigned-url endpoint',
+    example: 'orders/uuid/receipts/uuid-transferencia.jpg',
+    maxLength: 500,
+  })
+  @IsString()
+  @MaxLength(500)
+  storageKey: string
+
+  @ApiPropertyOptional({ description: 'File size in bytes', example: 204800 })
+  @IsOptional()
+  @IsNumber()
+  fileSize?: number
+
+  @ApiPropertyOptional({ description: 'MIME type of the uploaded file', example: 'image/jpeg' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  mimeType?: string
+}
@@ -0,0 +1,108 @@
+import { Order } from '@orders/domain/entities/order.entity'
+import { PaymentReceiptStatus } from '@orders/domain/value-objects/payment-receipt-status.vo'
+import { AppException } from '@shared/domain'
+import { SubmitPaymentReceiptCommand } from './submit-payment-receipt.command'
+import { SubmitPaymentReceiptHandler } from './submit-payment-receipt.handler'
+
+const buildOrder = () =>
+  Order.create({
+    previewLinkId: 'preview-1',
+    eventId: 'event-1',
+    userId: 'user-1',
+    notes: null,
+  })
+
+describe('SubmitPaymentReceiptHandler', () => {
+  let orderReadRepo: { findById: jest.Mock }
+  let receiptWriteRepo: { saveReplacingPending: jest.Mock }
+  let previewReadRepo: { findByToken: jest.Mock }
+  let handler: SubmitPaymentReceiptHandler
+
+  beforeEach(() => {
+    orderReadRepo = { findById: jest.fn() }
+    receiptWriteRepo = { saveReplacingPending: jest.fn().mockImplementation(async (r) => r) }
+    previewReadRepo = { findByToken: jest.fn() }
+    handler = new SubmitPaymentReceiptHandler(
+      orderReadRepo as never,
+      receiptWriteRepo as never,
+      previewReadRepo as never,
+    )
+  })
+
+  it('supersedes the pending receipt and records the new one as pending', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    const key = `orders/${order.id}/receipts/abc-transfer.jpg`
+
+    const result = await handler.execute(
+      new SubmitPaymentReceiptCommand(order.id, 'user-1', key, 2048n, 'image/jpeg'),
+    )
+
+    const saved = receiptWriteRepo.saveReplacingPending.mock.calls[0][0]
+    expect(saved.orderId).toBe(order.id)
+    expect(saved.status).toBe(PaymentReceiptStatus.PENDING)
+    expect(saved.storageKey).toBe(key)
+    expect(saved.submittedById).toBe('user-1')
+    expect(result).toEqual({ id: saved.id })
+  })
+
+  it('hides orders that belong to another customer', async () => {
+    orderReadRepo.findById.mockResolvedValue(buildOrder())
+
+    await expect(
+      handler.execute(
+        new SubmitPaymentReceiptCommand('o', 'user-2', 'orders/o/receipts/x', null, null),
+      ),
+    ).rejects.toThrow(AppException)
+    expect(receiptWriteRepo.saveReplacingPending).not.toHaveBeenCalled()
+  })
+
+  it('rejects a preview token that is not the one the order was placed on', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+    previewReadRepo.findByToken.mockResolvedValue({ id: 'preview-2' })
+
+    await expect(
+      handler.execute(
+        new SubmitPaymentReceiptCommand(
+          order.id,
+          'user-1',
+          `orders/${order.id}/receipts/x.jpg`,
+          null,
+          null,
+          'token',
+        ),
+      ),
+    ).rejects.toThrow(AppException)
+  })
+
+  it('rejects storage keys outside the order receipts prefix', async () => {
+    const order = buildOrder()
+    orderReadRepo.findById.mockResolvedValue(order)
+
+    await expect(
+      handler.execute(
+        new SubmitPaymentReceiptCommand(order.id, 'user-1', 'events/e/cover.jpg', null, null),
+      ),
+    ).rejects.toThrow(AppException)
+    expect(receiptWriteRepo.saveReplacingPending).not.toHaveBeenCalled()
+  })
+
+  it('refuses receipts once the order is paid', async () => {
+    const order = buildOrder()
+    order.confirmPayment('admin-1')
+    orderReadRepo.findById.mockResolvedValue(order)
+
+    await expect(
+      handler.execute(
+        new SubmitPaymentReceiptCommand(
+          order.id,
+          'user-1',
+          `orders/${order.id}/receipts/x.jpg`,
+          null,
+          null,
+        ),
+      ),
+    ).rejects.toThrow(AppException)
+  })
+})
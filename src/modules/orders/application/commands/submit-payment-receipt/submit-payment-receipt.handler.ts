@@ -0,0 +1,62 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { PaymentReceipt } from '@orders/domain/entities'
+import {
+  type IOrderReadRepository,
+  type IPaymentReceiptWriteRepository,
+  ORDER_READ_REPOSITORY,
+  PAYMENT_RECEIPT_WRITE_REPOSITORY,
+} from '@orders/domain/ports'
+import { OrderStatus } from '@orders/domain/value-objects/order-status.vo'
+import {
+  type IPreviewLinkReadRepository,
+  PREVIEW_LINK_READ_REPOSITORY,
+} from '@previews/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { SubmitPaymentReceiptCommand } from './submit-payment-receipt.command'
+
+@CommandHandler(SubmitPaymentReceiptCommand)
+export class SubmitPaymentReceiptHandler implements ICommandHandler<SubmitPaymentReceiptCommand> {
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(PAYMENT_RECEIPT_WRITE_REPOSITORY)
+    private readonly receiptWriteRepo: IPaymentReceiptWriteRepository,
+    @Inject(PREVIEW_LINK_READ_REPOSITORY)
+    private readonly previewReadRepo: IPreviewLinkReadRepository,
+  ) {}
+
+  async execute(command: SubmitPaymentReceiptCommand): Promise<EntityIdProjection> {
+    // 1. Find order, scoped to the customer (and to the preview link when given)
+    const order = await this.orderReadRepo.findById(command.orderId)
+    if (!order || order.userId !== command.userId) {
+      throw AppException.notFound('entities.order', command.orderId)
+    }
+    if (command.previewToken !== null) {
+      const previewLink = await this.previewReadRepo.findByToken(command.previewToken)
+      if (!previewLink || previewLink.id !== order.previewLinkId) {
+        throw AppException.notFound('entities.order', command.orderId)
+      }
+    }
+
+    // 2. Validate: order awaits payment and the key was presigned for this order
+    if (order.status !== OrderStatus.PENDING && order.status !== OrderStatus.PAYMENT_INFO_SENT) {
+      throw AppException.businessRule('order.not_pending')
+    }
+    if (!command.storageKey.startsWith(`orders/${order.id}/receipts/`)) {
+      throw AppException.businessRule('payment_receipt.invalid_storage_key')
+    }
+
+    // 3. Record the receipt for the reconciliation queue; it replaces any still waiting for review
+    const receipt = PaymentReceipt.create({
+      orderId: order.id,
+      storageKey: command.storageKey,
+      fileSize: command.fileSize,
+      mimeType: command.mimeType,
+      submittedById: command.userId,
+    })
+    const saved = await this.receiptWriteRepo.saveReplacingPending(receipt)
+
+    return { id: saved.id }
+  }
+}
@@ -0,0 +1,8 @@
+export class CheckoutSessionProjection {
+  /** Payment attempt UUID */
+  paymentAttemptId: string
+  /** Provider-hosted page where the customer pays */
+  checkoutUrl: string
+  /** When the checkout session stops accepting payments (null if the provider sets no limit) */
+  expiresAt: Date | null
+}
@@ -1,9 +1,19 @@
+export { CheckoutSessionProjection } from './checkout-session.projection'
 export {
   OrderDeliveryLinkProjection,
   OrderDetailProjection,
   OrderPhotoProjection,
+  OrderRefundProjection,
 } from './order-detail.projection'
 export { OrderListPreviewPhotoProjection, OrderListProjection } from './order-list.projection'
 export { OrderPaymentConfirmedProjection } from './order-payment-confirmed.projection'
-export { OrdersStatsProjection } from './orders-stats.projection'
+export { OrderRefundedProjection } from './order-refunded.projection'
+export { CurrencyRevenueProjection, OrdersStatsProjection } from './orders-stats.projection'
+export { PaymentAttemptProjection } from './payment-attempt.projection'
+export { PaymentReceiptProjection } from './payment-receipt.projection'
+export { PaymentReceiptQueueItemProjection } from './payment-receipt-queue-item.projection'
+export { PaymentReceiptRejectedProjection } from './payment-receipt-rejected.projection'
+export { PaymentWebhookResultProjection } from './payment-webhook-result.projection'
+export { ReceiptUploadUrlProjection } from './receipt-upload-url.projection'
 export { RetouchCompletedOrderProjection } from './retouch-completed-order.projection'
+export { RetouchRequestProjection } from './retouch-request.projection'
@@ -13,6 +13,21 @@ export class OrderDeliveryLinkProjection {
   downloadCount: number
 }
 
+export class OrderRefundProjection {
+  id: string
+  /** full | items */
+  kind: string
+  /** Refunded amount (Decimal serialized as string) */
+  amount: string
+  currency: string | null
+  reason: string
+  /** Photos removed from the order (empty for a full refund) */
+  photoIds: string[]
+  /** Admin who issued the refund */
+  refundedByName: string
+  createdAt: Date
+}
+
 export class OrderDetailProjection {
   /** Order UUID */
   id: string
@@ -30,6 +45,8 @@ export class OrderDetailProjection {
   deliveredAt: Date | null
   /** When the order was cancelled */
   cancelledAt: Date | null
+  /** When the order was refunded in full */
+  refundedAt: Date | null
   /** User display name (from user relation) */
   userName: string
   /** Snap first name at time of order */
@@ -40,12 +57,24 @@ export class OrderDetailProjection {
   snapWhatsapp: string | null
   /** Snap email at time of order */
   snapEmail: string | null
+  /** Race category at time of order (customer-given, else from the start list) */
+  snapCategoryName: string | null
+  /** Start-list name of the participant wearing the order's bib */
+  snapParticipantName: string | null
+  /** Start-list team of the participant wearing the order's bib */
+  snapParticipantTeam: string | null
   /** Event name */
   eventName: string
   /** Order subtotal (Decimal serialized as string to preserve precision) */
   subtotal: string | null
   /** Currency code snapshot at time of order (e.g. USD) */
   snapCurrency: string | null
+  /** Subtotal before the coupon discount (null when no coupon was used) */
+  subtotalBeforeDiscount: string | null
+  /** Coupon discount taken off the subtotal (null when no coupon was used) */
+  discountAmount: string | null
+  /** Coupon code applied to the order */
+  couponCode: string | null
   /** Preview link token that originated this order (nullable) */
   previewLinkToken: string | null
   /** Retouch progress for the order */
@@ -54,4 +83,6 @@ export class OrderDetailProjection {
   photos: OrderPhotoProjection[]
   /** Delivery link (null if not yet generated) */
   deliveryLink: OrderDeliveryLinkProjection | null
+  /** Refunds issued on the order, oldest first */
+  refunds: OrderRefundProjection[]
 }
@@ -0,0 +1,14 @@
+export class OrderRefundedProjection {
+  /** Refund record UUID */
+  refundId: string
+  /** Order UUID */
+  orderId: string
+  /** Order status after the refund (refunded for a full refund) */
+  status: string
+  /** Amount given back to the customer */
+  amount: number
+  /** Currency code snapshot of the order (e.g. USD) */
+  currency: string | null
+  /** Order subtotal after the refund */
+  subtotal: number | null
+}
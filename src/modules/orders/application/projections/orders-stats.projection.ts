@@ -1,3 +1,12 @@
+export class CurrencyRevenueProjection {
+  /** Order currency (null for orders without a price snapshot) */
+  currency: string | null
+  /** Revenue in `currency`, net of refunds, as a Decimal string */
+  revenue: string
+  /** Refunds in `currency`, as a Decimal string */
+  refunded: string
+}
+
 export class OrdersStatsProjection {
   /** Total number of orders (includes cancelled) */
   totalOrders: number
@@ -15,6 +24,16 @@ export class OrdersStatsProjection {
   giftedCount: number
   /** Cancelled orders */
   cancelledCount: number
-  /** Sum of subtotal across paid + delivered orders, as a Decimal string (e.g. "1234.50"). USD assumed. */
+  /** Orders refunded in full after payment */
+  refundedCount: number
+  /** Currency totalRevenue and totalRefunded are expressed in (`BASE_CURRENCY`) */
+  baseCurrency: string
+  /** Sum of subtotal across paid + delivered orders, net of refunds, converted with each order's snapshotted rate, as a Decimal string (e.g. "1234.50") */
   totalRevenue: string
+  /** Sum of all refunds (full and per item), converted the same way, as a Decimal string */
+  totalRefunded: string
+  /** Revenue and refunds in each order currency, before conversion */
+  revenueByCurrency: CurrencyRevenueProjection[]
+  /** Paid orders and refunds left out of the base totals because their order has no rate snapshot */
+  unconvertedCount: number
 }
@@ -0,0 +1,22 @@
+export class PaymentAttemptProjection {
+  /** Payment attempt UUID */
+  id: string
+  /** Payment provider that issued the checkout session */
+  provider: string
+  /** Provider-side checkout session id */
+  providerSessionId: string
+  /** Attempt status: created, succeeded, failed, expired */
+  status: string
+  /** Amount requested from the customer */
+  amount: number
+  /** ISO 4217 currency code */
+  currency: string
+  /** Provider reason for a failed payment (null otherwise) */
+  failureReason: string | null
+  /** Number of webhook events received for this attempt */
+  webhookEventCount: number
+  /** When the checkout session was opened */
+  createdAt: Date
+  /** When the provider reported the final outcome (null while open) */
+  completedAt: Date | null
+}
@@ -0,0 +1,24 @@
+export class PaymentReceiptQueueItemProjection {
+  /** Payment receipt UUID */
+  receiptId: string
+  /** Order UUID */
+  orderId: string
+  /** Current order status (pending or payment_info_sent while awaiting review) */
+  orderStatus: string
+  /** Amount the customer owes (null for unpriced orders) */
+  subtotal: number | null
+  /** ISO 4217 currency code of the order */
+  currency: string | null
+  /** Event name */
+  eventName: string
+  /** Customer display name from the order snapshot */
+  customerName: string
+  /** Snap WhatsApp at time of order */
+  snapWhatsapp: string | null
+  /** Short-lived URL to view the uploaded receipt */
+  receiptUrl: string
+  /** MIME type of the uploaded receipt */
+  mimeType: string | null
+  /** When the customer uploaded the receipt */
+  submittedAt: Date
+}
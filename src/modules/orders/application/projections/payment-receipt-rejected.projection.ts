@@ -0,0 +1,8 @@
+export class PaymentReceiptRejectedProjection {
+  /** Payment receipt UUID */
+  receiptId: string
+  /** Order UUID */
+  orderId: string
+  /** Pre-filled WhatsApp message telling the customer why the receipt was rejected */
+  whatsappTemplate: string
+}
@@ -0,0 +1,14 @@
+export class PaymentReceiptProjection {
+  /** Payment receipt UUID */
+  id: string
+  /** Review status: pending, approved, rejected, superseded */
+  status: string
+  /** Why the admin rejected the receipt (null unless rejected) */
+  rejectionReason: string | null
+  /** Short-lived URL to view the uploaded receipt */
+  receiptUrl: string
+  /** When the customer uploaded the receipt */
+  submittedAt: Date
+  /** When an admin approved or rejected it (null while pending) */
+  reviewedAt: Date | null
+}
@@ -0,0 +1,6 @@
+export class PaymentWebhookResultProjection {
+  /** Provider event id */
+  eventId: string
+  /** What the webhook did: confirmed, order_not_pending, failed, expired, rejected, duplicate, ignored */
+  outcome: string
+}
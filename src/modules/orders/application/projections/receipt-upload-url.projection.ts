@@ -0,0 +1,8 @@
+export class ReceiptUploadUrlProjection {
+  /** Presigned URL for direct upload to storage */
+  url: string
+  /** Storage key to send back when submitting the receipt */
+  objectKey: string
+  /** URL expiration time in seconds */
+  expiresIn: number
+}
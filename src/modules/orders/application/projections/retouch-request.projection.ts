@@ -0,0 +1,22 @@
+export class RetouchRequestProjection {
+  /** Retouch request UUID */
+  id: string
+  /** Photo the instructions are for */
+  photoId: string
+  /** What the customer asked the retoucher to do */
+  instructions: string
+  /** Add-on price charged on the order (null when free) */
+  price: number | null
+  /** requested, awaiting_approval, revision_requested or approved */
+  status: string
+  /** Revisions the customer can still ask for */
+  revisionsLeft: number
+  /** What the customer asked to change in the revision (null until requested) */
+  revisionFeedback: string | null
+  /** Short-lived URL to the retouched photo awaiting approval (null before the first retouch) */
+  previewUrl: string | null
+  /** When the customer attached the instructions */
+  createdAt: Date
+  /** When the customer approved the retouch (null until approved) */
+  approvedAt: Date | null
+}
@@ -0,0 +1,26 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { PaymentAttemptProjection } from '@orders/application/projections'
+import {
+  type IOrderReadRepository,
+  type IPaymentAttemptReadRepository,
+  ORDER_READ_REPOSITORY,
+  PAYMENT_ATTEMPT_READ_REPOSITORY,
+} from '@orders/domain/ports'
+import { AppException } from '@shared/domain'
+import { GetOrderPaymentAttemptsQuery } from './get-order-payment-attempts.query'
+
+@QueryHandler(GetOrderPaymentAttemptsQuery)
+export class GetOrderPaymentAttemptsHandler implements IQueryHandler<GetOrderPaymentAttemptsQuery> {
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(PAYMENT_ATTEMPT_READ_REPOSITORY)
+    private readonly attemptReadRepo: IPaymentAttemptReadRepository,
+  ) {}
+
+  async execute(query: GetOrderPaymentAttemptsQuery): Promise<PaymentAttemptProjection[]> {
+    const order = await this.orderReadRepo.findById(query.orderId)
+    if (!order) throw AppException.notFound('entities.order', query.orderId)
+    return this.attemptReadRepo.getListByOrderId(query.orderId)
+  }
+}
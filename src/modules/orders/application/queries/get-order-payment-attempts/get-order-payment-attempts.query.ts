@@ -0,0 +1,3 @@
+export class GetOrderPaymentAttemptsQuery {
+  constructor(public readonly orderId: string) {}
+}
@@ -0,0 +1,42 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { PaymentReceiptProjection } from '@orders/application/projections'
+import {
+  type IOrderReadRepository,
+  type IPaymentReceiptReadRepository,
+  ORDER_READ_REPOSITORY,
+  PAYMENT_RECEIPT_READ_REPOSITORY,
+} from '@orders/domain/ports'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { GetOrderPaymentReceiptsQuery } from './get-order-payment-receipts.query'
+
+const RECEIPT_URL_EXPIRY_SECONDS = 3600
+
+@QueryHandler(GetOrderPaymentReceiptsQuery)
+export class GetOrderPaymentReceiptsHandler implements IQueryHandler<GetOrderPaymentReceiptsQuery> {
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(PAYMENT_RECEIPT_READ_REPOSITORY)
+    private readonly receiptReadRepo: IPaymentReceiptReadRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  async execute(query: GetOrderPaymentReceiptsQuery): Promise<PaymentReceiptProjection[]> {
+    const order = await this.orderReadRepo.findById(query.orderId)
+    if (!order || order.userId !== query.userId) {
+      throw AppException.notFound('entities.order', query.orderId)
+    }
+
+    const rows = await this.receiptReadRepo.getListByOrderId(order.id)
+    return Promise.all(
+      rows.map(async ({ storageKey, ...row }) => ({
+        ...row,
+        receiptUrl: await this.storage.getPresignedDownloadUrl({
+          key: storageKey,
+          expiresIn: RECEIPT_URL_EXPIRY_SECONDS,
+        }),
+      })),
+    )
+  }
+}
@@ -0,0 +1,6 @@
+export class GetOrderPaymentReceiptsQuery {
+  constructor(
+    public readonly orderId: string,
+    public readonly userId: string,
+  ) {}
+}
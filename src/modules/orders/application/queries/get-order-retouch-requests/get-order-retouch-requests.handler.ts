@@ -0,0 +1,43 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { RetouchRequestProjection } from '@orders/application/projections'
+import {
+  type IOrderReadRepository,
+  type IRetouchRequestRepository,
+  ORDER_READ_REPOSITORY,
+  RETOUCH_REQUEST_REPOSITORY,
+} from '@orders/domain/ports'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { GetOrderRetouchRequestsQuery } from './get-order-retouch-requests.query'
+
+const PREVIEW_URL_EXPIRY_SECONDS = 3600
+
+@QueryHandler(GetOrderRetouchRequestsQuery)
+export class GetOrderRetouchRequestsHandler implements IQueryHandler<GetOrderRetouchRequestsQuery> {
+  constructor(
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(RETOUCH_REQUEST_REPOSITORY) private readonly requestRepo: IRetouchRequestRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  async execute(query: GetOrderRetouchRequestsQuery): Promise<RetouchRequestProjection[]> {
+    const order = await this.orderReadRepo.findById(query.orderId)
+    if (!order || (query.userId !== null && order.userId !== query.userId)) {
+      throw AppException.notFound('entities.order', query.orderId)
+    }
+
+    const rows = await this.requestRepo.listByOrder(order.id)
+    return Promise.all(
+      rows.map(async ({ previewStorageKey, ...row }) => ({
+        ...row,
+        previewUrl: previewStorageKey
+          ? await this.storage.getPresignedDownloadUrl({
+              key: previewStorageKey,
+              expiresIn: PREVIEW_URL_EXPIRY_SECONDS,
+            })
+          : null,
+      })),
+    )
+  }
+}
@@ -0,0 +1,7 @@
+export class GetOrderRetouchRequestsQuery {
+  constructor(
+    public readonly orderId: string,
+    /** Buyer of the order; null for admins. */
+    public readonly userId: string | null,
+  ) {}
+}
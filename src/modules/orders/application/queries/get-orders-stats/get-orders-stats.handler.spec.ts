@@ -1,13 +1,20 @@
 import { GetOrdersStatsHandler } from './get-orders-stats.handler'
 import { GetOrdersStatsQuery } from './get-orders-stats.query'
 
+const amount = (currency: string | null, native: string, base: string, unconverted = 0) => ({
+  currency,
+  amount: native,
+  baseAmount: base,
+  unconverted,
+})
+
 describe('GetOrdersStatsHandler', () => {
-  let readRepo: { countByStatus: jest.Mock; sumRevenue: jest.Mock }
+  let readRepo: { countByStatus: jest.Mock; sumRevenue: jest.Mock; sumRefunds: jest.Mock }
   let handler: GetOrdersStatsHandler
 
   beforeEach(() => {
-    readRepo = { countByStatus: jest.fn(), sumRevenue: jest.fn() }
-    handler = new GetOrdersStatsHandler(readRepo as never)
+    readRepo = { countByStatus: jest.fn(), sumRevenue: jest.fn(), sumRefunds: jest.fn() }
+    handler = new GetOrdersStatsHandler(readRepo as never, { baseCurrency: 'USD' } as never)
   })
 
   it('returns counts plus totalRevenue from the repository', async () => {
@@ -18,24 +25,53 @@ describe('GetOrdersStatsHandler', () => {
       delivered: 4,
       gifted: 5,
       cancelled: 6,
+      refunded: 2,
     })
-    readRepo.sumRevenue.mockResolvedValue('1234.50')
+    readRepo.sumRevenue.mockResolvedValue([amount('USD', '1234.50', '1234.50')])
+    readRepo.sumRefunds.mockResolvedValue([amount('USD', '40.00', '40.00')])
 
     const result = await handler.execute(new GetOrdersStatsQuery(undefined))
 
     expect(result.totalRevenue).toBe('1234.50')
+    expect(result.totalRefunded).toBe('40.00')
     expect(result.paidCount).toBe(7)
-    expect(result.totalOrders).toBe(21)
+    expect(result.refundedCount).toBe(2)
+    expect(result.totalOrders).toBe(23)
+  })
+
+  it('converts every currency to the base currency with the snapshotted amounts', async () => {
+    readRepo.countByStatus.mockResolvedValue({})
+    readRepo.sumRevenue.mockResolvedValue([
+      amount('MXN', '1000.00', '54.50'),
+      amount('USD', '100.00', '100.00'),
+      amount(null, '20.00', '0', 2),
+    ])
+    readRepo.sumRefunds.mockResolvedValue([amount('MXN', '200.00', '10.90')])
+
+    const result = await handler.execute(new GetOrdersStatsQuery(undefined))
+
+    expect(readRepo.sumRevenue).toHaveBeenCalledWith('USD', undefined)
+    expect(result.baseCurrency).toBe('USD')
+    expect(result.totalRevenue).toBe('154.50')
+    expect(result.totalRefunded).toBe('10.90')
+    expect(result.unconvertedCount).toBe(2)
+    expect(result.revenueByCurrency).toEqual([
+      { currency: 'MXN', revenue: '1000.00', refunded: '200.00' },
+      { currency: 'USD', revenue: '100.00', refunded: '0' },
+      { currency: null, revenue: '20.00', refunded: '0' },
+    ])
   })
 
   it('scopes revenue to the given eventId', async () => {
     readRepo.countByStatus.mockResolvedValue({})
-    readRepo.sumRevenue.mockResolvedValue('0')
+    readRepo.sumRevenue.mockResolvedValue([])
+    readRepo.sumRefunds.mockResolvedValue([])
 
     const result = await handler.execute(new GetOrdersStatsQuery('event-1'))
 
-    expect(readRepo.sumRevenue).toHaveBeenCalledWith('event-1')
+    expect(readRepo.sumRevenue).toHaveBeenCalledWith('USD', 'event-1')
+    expect(readRepo.sumRefunds).toHaveBeenCalledWith('USD', 'event-1')
     expect(readRepo.countByStatus).toHaveBeenCalledWith('event-1')
-    expect(result.totalRevenue).toBe('0')
+    expect(result.totalRevenue).toBe('0.00')
   })
 })
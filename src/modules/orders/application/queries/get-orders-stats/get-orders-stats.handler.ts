@@ -1,7 +1,15 @@
 import { Inject } from '@nestjs/common'
 import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
-import type { OrdersStatsProjection } from '@orders/application/projections'
-import { type IOrderReadRepository, ORDER_READ_REPOSITORY } from '@orders/domain/ports'
+import type {
+  CurrencyRevenueProjection,
+  OrdersStatsProjection,
+} from '@orders/application/projections'
+import {
+  type CurrencyAmount,
+  type IOrderReadRepository,
+  ORDER_READ_REPOSITORY,
+} from '@orders/domain/ports'
+import { ExchangeRateService } from '@pricing/application/services/exchange-rate.service'
 import { GetOrdersStatsQuery } from './get-orders-stats.query'
 
 @QueryHandler(GetOrdersStatsQuery)
@@ -9,12 +17,15 @@ export class GetOrdersStatsHandler implements IQueryHandler<GetOrdersStatsQuery>
   constructor(
     @Inject(ORDER_READ_REPOSITORY)
     private readonly readRepo: IOrderReadRepository,
+    private readonly exchangeRates: ExchangeRateService,
   ) {}
 
   async execute(query: GetOrdersStatsQuery): Promise<OrdersStatsProjection> {
-    const [counts, totalRevenue] = await Promise.all([
+    const baseCurrency = this.exchangeRates.baseCurrency
+    const [counts, revenue, refunds] = await Promise.all([
       this.readRepo.countByStatus(query.eventId),
-      this.readRepo.sumRevenue(query.eventId),
+      this.readRepo.sumRevenue(baseCurrency, query.eventId),
+      this.readRepo.sumRefunds(baseCurrency, query.eventId),
     ])
 
     const pending = counts.pending ?? 0
@@ -23,8 +34,9 @@ export class GetOrdersStatsHandler implements IQueryHandler<GetOrdersStatsQuery>
     const delivered = counts.delivered ?? 0
     const gifted = counts.gifted ?? 0
     const cancelled = counts.cancelled ?? 0
+    const refunded = counts.refunded ?? 0
 
-    const total = pending + paymentInfoSent + paid + delivered + gifted + cancelled
+    const total = pending + paymentInfoSent + paid + delivered + gifted + cancelled + refunded
 
     return {
       totalOrders: total,
@@ -35,7 +47,33 @@ export class GetOrdersStatsHandler implements IQueryHandler<GetOrdersStatsQuery>
       deliveredCount: delivered,
       giftedCount: gifted,
       cancelledCount: cancelled,
-      totalRevenue,
+      refundedCount: refunded,
+      baseCurrency,
+      totalRevenue: sumBase(revenue),
+      totalRefunded: sumBase(refunds),
+      revenueByCurrency: byCurrency(revenue, refunds),
+      unconvertedCount: [...revenue, ...refunds].reduce((sum, r) => sum + r.unconverted, 0),
     }
   }
 }
+
+/** Adds up the converted amounts of every currency, as a Decimal string. */
+function sumBase(rows: CurrencyAmount[]): string {
+  return rows.reduce((sum, r) => sum + Number(r.baseAmount), 0).toFixed(2)
+}
+
+/** Pairs revenue and refunds of the same currency; a currency missing on one side is '0'. */
+function byCurrency(
+  revenue: CurrencyAmount[],
+  refunds: CurrencyAmount[],
+): CurrencyRevenueProjection[] {
+  const rows = new Map<string | null, CurrencyRevenueProjection>()
+  for (const r of revenue) {
+    rows.set(r.currency, { currency: r.currency, revenue: r.amount, refunded: '0' })
+  }
+  for (const r of refunds) {
+    const row = rows.get(r.currency) ?? { currency: r.currency, revenue: '0', refunded: '0' }
+    rows.set(r.currency, { ...row, refunded: r.amount })
+  }
+  return [...rows.values()]
+}
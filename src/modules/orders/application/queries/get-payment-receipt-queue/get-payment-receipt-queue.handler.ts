@@ -0,0 +1,39 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { PaymentReceiptQueueItemProjection } from '@orders/application/projections'
+import {
+  type IPaymentReceiptReadRepository,
+  PAYMENT_RECEIPT_READ_REPOSITORY,
+} from '@orders/domain/ports'
+import { PaginatedResult } from '@shared/application'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { GetPaymentReceiptQueueQuery } from './get-payment-receipt-queue.query'
+
+const RECEIPT_URL_EXPIRY_SECONDS = 3600
+
+@QueryHandler(GetPaymentReceiptQueueQuery)
+export class GetPaymentReceiptQueueHandler implements IQueryHandler<GetPaymentReceiptQueueQuery> {
+  constructor(
+    @Inject(PAYMENT_RECEIPT_READ_REPOSITORY)
+    private readonly receiptReadRepo: IPaymentReceiptReadRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  async execute(
+    query: GetPaymentReceiptQueueQuery,
+  ): Promise<PaginatedResult<PaymentReceiptQueueItemProjection>> {
+    const page = await this.receiptReadRepo.getPendingQueue(query.pagination)
+
+    const items = await Promise.all(
+      page.items.map(async ({ storageKey, ...row }) => ({
+        ...row,
+        receiptUrl: await this.storage.getPresignedDownloadUrl({
+          key: storageKey,
+          expiresIn: RECEIPT_URL_EXPIRY_SECONDS,
+        }),
+      })),
+    )
+
+    return new PaginatedResult(items, page.total, page.pagination)
+  }
+}
@@ -0,0 +1,5 @@
+import type { Pagination } from '@shared/application'
+
+export class GetPaymentReceiptQueueQuery {
+  constructor(public readonly pagination: Pagination) {}
+}
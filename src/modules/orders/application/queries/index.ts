@@ -1,4 +1,8 @@
 export { GetOrderDetailQuery } from './get-order-detail/get-order-detail.query'
+export { GetOrderPaymentAttemptsQuery } from './get-order-payment-attempts/get-order-payment-attempts.query'
+export { GetOrderPaymentReceiptsQuery } from './get-order-payment-receipts/get-order-payment-receipts.query'
+export { GetOrderRetouchRequestsQuery } from './get-order-retouch-requests/get-order-retouch-requests.query'
 export { GetOrdersListDto } from './get-orders-list/get-orders-list.dto'
 export { GetOrdersListQuery } from './get-orders-list/get-orders-list.query'
 export { GetOrdersStatsQuery } from './get-orders-stats/get-orders-stats.query'
+export { GetPaymentReceiptQueueQuery } from './get-payment-receipt-queue/get-payment-receipt-queue.query'
@@ -1 +1,5 @@
 export { Order } from './order.entity'
+export { OrderRefund } from './order-refund.entity'
+export { PaymentAttempt } from './payment-attempt.entity'
+export { PaymentReceipt } from './payment-receipt.entity'
+export { MAX_RETOUCH_REVISIONS, RetouchRequest } from './retouch-request.entity'
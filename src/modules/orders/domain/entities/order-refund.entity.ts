@@ -0,0 +1,46 @@
+import { AppException } from '@shared/domain'
+import type { OrderRefundKindType } from '../value-objects/order-refund-kind.vo'
+
+export class OrderRefund {
+  constructor(
+    public readonly id: string,
+    public readonly orderId: string,
+    public readonly kind: OrderRefundKindType,
+    public readonly amount: number,
+    public readonly currency: string | null,
+    public readonly reason: string,
+    /** Photos removed from the order; empty for a full refund. */
+    public readonly photoIds: string[],
+    public readonly refundedById: string,
+    public readonly createdAt: Date,
+  ) {}
+
+  /**
+   * Factory method for recording a refund.
+   * The reason is trimmed and required.
+   */
+  static create(data: {
+    orderId: string
+    kind: OrderRefundKindType
+    amount: number
+    currency: string | null
+    reason: string
+    photoIds?: string[]
+    refundedById: string
+  }): OrderRefund {
+    const reason = data.reason.trim()
+    if (!reason) throw AppException.businessRule('order.refund_reason_required')
+
+    return new OrderRefund(
+      crypto.randomUUID(),
+      data.orderId,
+      data.kind,
+      data.amount,
+      data.currency,
+      reason,
+      data.photoIds ?? [],
+      data.refundedById,
+      new Date(),
+    )
+  }
+}
@@ -79,6 +79,15 @@ describe('Order.confirmPayment (extended)', () => {
     expect(order.confirmedById).toBe('admin-2')
   })
 
+  it('leaves confirmedById null when the payment provider confirms', () => {
+    const order = Order.create(baseInput)
+
+    order.confirmPayment(null)
+
+    expect(order.status).toBe(OrderStatus.PAID)
+    expect(order.confirmedById).toBeNull()
+  })
+
   it('throws when called on delivered', () => {
     const order = Order.create(baseInput)
     order.confirmPayment('admin-1')
@@ -211,3 +220,202 @@ describe('Order.create (snapshot pricing)', () => {
     expect(order.snapPricingConfig).toBeNull()
   })
 })
+
+describe('Order.refund', () => {
+  it('accepts delivered → refunded and returns the paid subtotal', () => {
+    const order = Order.create({ ...baseInput, subtotal: 20 })
+    order.confirmPayment('admin-1')
+    order.markDelivered()
+
+    const amount = order.refund()
+
+    expect(amount).toBe(20)
+    expect(order.status).toBe(OrderStatus.REFUNDED)
+    expect(order.refundedAt).toBeInstanceOf(Date)
+  })
+
+  it('throws when the order was never paid', () => {
+    const order = Order.create(baseInput)
+
+    expect(() => order.refund()).toThrow(AppException)
+  })
+})
+
+describe('Order.refundItems', () => {
+  const tiers = [
+    { minQty: 1, maxQty: 4, pricePerPhoto: 4 },
+    { minQty: 5, maxQty: null, pricePerPhoto: 2 },
+  ]
+
+  it('refunds the unit price of the removed photos when the rest drops to a dearer tier (10 → 4 photos)', () => {
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 20,
+      snapCurrency: 'USD',
+      snapPricingConfig: tiers,
+    })
+    order.confirmPayment('admin-1')
+
+    const amount = order.refundItems(4, Array(6).fill(2))
+
+    expect(order.subtotal).toBe(8)
+    expect(amount).toBe(12)
+    expect(order.status).toBe(OrderStatus.PAID)
+  })
+
+  it('takes the discount share of the removed photos off their unit price on a tier drop', () => {
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 18,
+      snapCurrency: 'USD',
+      snapPricingConfig: tiers,
+      discount: {
+        couponRedemptionId: 'r1',
+        couponCode: 'TEN',
+        amount: 2,
+        subtotalBeforeDiscount: 20,
+      },
+    })
+    order.confirmPayment('admin-1')
+
+    const amount = order.refundItems(4, Array(6).fill(2))
+
+    expect(order.discount?.amount).toBe(0.8)
+    expect(order.subtotal).toBe(7.2)
+    expect(amount).toBe(10.8)
+  })
+
+  it('refunds the unit price of a photo bought at a cross-event bucket price', () => {
+    // 3 photos at the bucket's 2 each; alone they would cost 4 each
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 6,
+      snapCurrency: 'USD',
+      snapPricingConfig: tiers,
+    })
+    order.confirmPayment('admin-1')
+
+    const amount = order.refundItems(2, [2])
+
+    expect(order.subtotal).toBe(4)
+    expect(amount).toBe(2)
+  })
+
+  it('refunds an even share of the order for items without a snapshotted unit price', () => {
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 20,
+      snapCurrency: 'USD',
+      snapPricingConfig: tiers,
+    })
+    order.confirmPayment('admin-1')
+
+    const amount = order.refundItems(4, Array(6).fill(null))
+
+    expect(order.subtotal).toBe(8)
+    expect(amount).toBe(12)
+  })
+
+  it('refunds the difference when the remaining photos stay in the same tier', () => {
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 20,
+      snapCurrency: 'USD',
+      snapPricingConfig: tiers,
+    })
+    order.confirmPayment('admin-1')
+
+    const amount = order.refundItems(7, [2, 2, 2])
+
+    expect(order.subtotal).toBe(14)
+    expect(amount).toBe(6)
+  })
+
+  it('shrinks the coupon discount in proportion', () => {
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 18,
+      snapCurrency: 'USD',
+      snapPricingConfig: tiers,
+      discount: {
+        couponRedemptionId: 'r1',
+        couponCode: 'TEN',
+        amount: 2,
+        subtotalBeforeDiscount: 20,
+      },
+    })
+    order.confirmPayment('admin-1')
+
+    const amount = order.refundItems(5, Array(5).fill(2))
+
+    expect(order.discount?.amount).toBe(1)
+    expect(order.discount?.subtotalBeforeDiscount).toBe(10)
+    expect(order.subtotal).toBe(9)
+    expect(amount).toBe(9)
+  })
+
+  it('throws for bib packages', () => {
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 25,
+      snapCurrency: 'USD',
+      snapPricingConfig: tiers,
+      isBibPackage: true,
+    })
+    order.confirmPayment('admin-1')
+
+    expect(() => order.refundItems(1, [25])).toThrow(AppException)
+  })
+
+  it('refunds the retouch add-ons of removed photos in full and keeps the others', () => {
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 26,
+      snapCurrency: 'USD',
+      snapPricingConfig: tiers,
+    })
+    order.confirmPayment('admin-1')
+
+    // 10 photos for 20 + three add-ons of 2; the removed photos had two of them
+    const amount = order.refundItems(4, Array(6).fill(2), { total: 6, kept: 2 })
+
+    expect(order.subtotal).toBe(10)
+    expect(amount).toBe(16)
+  })
+})
+
+describe('Order.addRetouchAddOn', () => {
+  it('adds the add-on to the subtotal, after the coupon discount', () => {
+    const order = Order.create({
+      ...baseInput,
+      subtotal: 18,
+      discount: {
+        couponRedemptionId: 'r1',
+        couponCode: 'TEN',
+        amount: 2,
+        subtotalBeforeDiscount: 20,
+      },
+    })
+
+    order.addRetouchAddOn(3.5)
+
+    expect(order.subtotal).toBe(21.5)
+    expect(order.discount?.amount).toBe(2)
+  })
+
+  it('leaves an unpriced order for an admin to price', () => {
+    const order = Order.create(baseInput)
+
+    order.addRetouchAddOn(3.5)
+
+    expect(order.subtotal).toBeNull()
+  })
+
+  it('throws once the order is paid', () => {
+    const order = Order.create({ ...baseInput, subtotal: 10 })
+    order.confirmPayment('admin-1')
+
+    expect(() => order.addRetouchAddOn(3.5)).toThrow(AppException)
+    expect(order.subtotal).toBe(10)
+  })
+})
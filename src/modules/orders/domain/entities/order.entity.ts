@@ -1,7 +1,15 @@
-import { type PricingTierSnapshot } from '@pricing/domain/value-objects'
+import { PricingCalculator } from '@pricing/domain/services/pricing-calculator.service'
+import {
+  type DiscountSnapshot,
+  type FxSnapshot,
+  PricingTier,
+  type PricingTierSnapshot,
+} from '@pricing/domain/value-objects'
 import { AppException } from '@shared/domain'
 import { OrderStatus, type OrderStatusType } from '../value-objects/order-status.vo'
 
+const round2 = (n: number): number => Math.round(n * 100) / 100
+
 export class Order {
   constructor(
     public readonly id: string,
@@ -11,7 +19,7 @@ export class Order {
     public status: OrderStatusType,
     public readonly notes: string | null,
     public readonly bibNumber: string | null,
-    public readonly subtotal: number | null,
+    public subtotal: number | null,
     public readonly snapCurrency: string | null,
     public readonly snapPricingConfig: PricingTierSnapshot[] | null,
     public readonly createdAt: Date,
@@ -21,6 +29,13 @@ export class Order {
     public cancelledAt: Date | null,
     public notifiedById: string | null,
     public confirmedById: string | null,
+    /** Coupon discount already taken off `subtotal` (null when no coupon was used). */
+    public discount: DiscountSnapshot | null = null,
+    /** Flat-price "all photos of my bib" order; later matches of `bibNumber` are added to it. */
+    public readonly isBibPackage: boolean = false,
+    public refundedAt: Date | null = null,
+    /** Rate to the base currency at creation (null when none was configured). */
+    public readonly snapFx: FxSnapshot | null = null,
   ) {}
 
   /**
@@ -36,6 +51,9 @@ export class Order {
     subtotal?: number | null
     snapCurrency?: string | null
     snapPricingConfig?: PricingTierSnapshot[] | null
+    discount?: DiscountSnapshot | null
+    isBibPackage?: boolean
+    snapFx?: FxSnapshot | null
   }): Order {
     return new Order(
       crypto.randomUUID(),
@@ -55,6 +73,10 @@ export class Order {
       null,
       null,
       null,
+      data.discount ?? null,
+      data.isBibPackage ?? false,
+      null,
+      data.snapFx ?? null,
     )
   }
 
@@ -80,6 +102,10 @@ export class Order {
     cancelledAt: Date | null
     notifiedById: string | null
     confirmedById: string | null
+    discount: DiscountSnapshot | null
+    isBibPackage: boolean
+    refundedAt: Date | null
+    snapFx: FxSnapshot | null
   }): Order {
     return new Order(
       data.id,
@@ -99,6 +125,10 @@ export class Order {
       data.cancelledAt,
       data.notifiedById,
       data.confirmedById,
+      data.discount,
+      data.isBibPackage,
+      data.refundedAt,
+      data.snapFx,
     )
   }
 
@@ -117,8 +147,11 @@ export class Order {
     this.notifiedById = notifiedById
   }
 
-  /** Confirms payment: pending | payment_info_sent → paid. Sets paidAt and confirmedById. */
-  confirmPayment(confirmedById: string): void {
+  /**
+   * Confirms payment: pending | payment_info_sent → paid. Sets paidAt and confirmedById
+   * (null when the payment provider confirmed it through a webhook).
+   */
+  confirmPayment(confirmedById: string | null): void {
     if (this.status !== OrderStatus.PENDING && this.status !== OrderStatus.PAYMENT_INFO_SENT) {
       throw AppException.businessRule('order.not_pending')
     }
@@ -166,4 +199,84 @@ export class Order {
     this.status = OrderStatus.CANCELLED
     this.cancelledAt = new Date()
   }
+
+  /**
+   * Full refund: paid | delivered → refunded (terminal). The subtotal is kept as the
+   * amount that was paid; returns it as the refunded amount.
+   */
+  refund(): number {
+    this.assertRefundable()
+    this.status = OrderStatus.REFUNDED
+    this.refundedAt = new Date()
+    return this.subtotal ?? 0
+  }
+
+  /**
+   * Partial refund after photos are removed from a paid | delivered order. The customer
+   * gets back at least the snapshotted unit prices of the removed photos (an even share
+   * of the order where an item has none); re-pricing the `remainingQuantity` photos with
+   * the snapshotted tiers only refunds more when they come out cheaper alone. The coupon
+   * discount shrinks in the same proportion. Retouch add-ons are not re-priced: the ones
+   * of the removed photos (`total - kept`) are refunded in full. Returns the refunded
+   * amount (old subtotal - new subtotal).
+   */
+  refundItems(
+    remainingQuantity: number,
+    removedUnitPrices: (number | null)[],
+    retouchAddOns: { total: number; kept: number } = { total: 0, kept: 0 },
+  ): number {
+    this.assertRefundable()
+    if (this.isBibPackage) throw AppException.businessRule('order.bib_package_partial_refund')
+    const currency = this.snapCurrency
+    if (this.subtotal === null || this.snapPricingConfig === null || currency === null) {
+      throw AppException.businessRule('order.refund_requires_pricing')
+    }
+
+    const tiers = this.snapPricingConfig.map((t) =>
+      PricingTier.create({ ...t, currency: t.currency ?? currency }),
+    )
+    const currentGross =
+      this.discount?.subtotalBeforeDiscount ?? round2(this.subtotal - retouchAddOns.total)
+    const evenShare = currentGross / (remainingQuantity + removedUnitPrices.length)
+    const removedGross = removedUnitPrices.reduce<number>((sum, p) => sum + (p ?? evenShare), 0)
+    const repriced = PricingCalculator.calculate(remainingQuantity, tiers).subtotal
+    const gross = Math.max(0, round2(Math.min(repriced, currentGross - removedGross)))
+
+    let subtotal = gross
+    if (this.discount) {
+      const amount = currentGross > 0 ? round2((this.discount.amount * gross) / currentGross) : 0
+      this.discount = { ...this.discount, amount, subtotalBeforeDiscount: gross }
+      subtotal = round2(gross - amount)
+    }
+
+    subtotal = round2(subtotal + retouchAddOns.kept)
+    const refunded = round2(this.subtotal - subtotal)
+    this.subtotal = subtotal
+    return refunded
+  }
+
+  /**
+   * Adds the price of a customer retouch request to an order still awaiting payment.
+   * The coupon discount does not apply to it. Orders without a price are left for
+   * an admin to price.
+   */
+  addRetouchAddOn(price: number): void {
+    this.assertAwaitingPayment()
+    if (this.subtotal !== null) this.subtotal = round2(this.subtotal + price)
+  }
+
+  /** True while the customer can still change what the order costs. */
+  get isAwaitingPayment(): boolean {
+    return this.status === OrderStatus.PENDING || this.status === OrderStatus.PAYMENT_INFO_SENT
+  }
+
+  private assertAwaitingPayment(): void {
+    if (!this.isAwaitingPayment) throw AppException.businessRule('order.not_pending')
+  }
+
+  private assertRefundable(): void {
+    if (this.status !== OrderStatus.PAID && this.status !== OrderStatus.DELIVERED) {
+      throw AppException.businessRule('order.not_refundable')
+    }
+  }
 }
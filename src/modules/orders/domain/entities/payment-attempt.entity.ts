@@ -0,0 +1,138 @@
+import {
+  PaymentAttemptStatus,
+  type PaymentAttemptStatusType,
+} from '../value-objects/payment-attempt-status.vo'
+
+export class PaymentAttempt {
+  constructor(
+    public readonly id: string,
+    public readonly orderId: string,
+    public readonly provider: string,
+    public readonly providerSessionId: string,
+    public readonly idempotencyKey: string,
+    public status: PaymentAttemptStatusType,
+    public readonly amount: number,
+    public readonly currency: string,
+    public readonly checkoutUrl: string,
+    public readonly expiresAt: Date | null,
+    public failureReason: string | null,
+    public readonly createdAt: Date,
+    public completedAt: Date | null,
+  ) {}
+
+  /**
+   * Factory method for recording a checkout session opened at the provider.
+   * Status starts as created.
+   */
+  static create(data: {
+    orderId: string
+    provider: string
+    providerSessionId: string
+    idempotencyKey: string
+    amount: number
+    currency: string
+    checkoutUrl: string
+    expiresAt: Date | null
+  }): PaymentAttempt {
+    return new PaymentAttempt(
+      crypto.randomUUID(),
+      data.orderId,
+      data.provider,
+      data.providerSessionId,
+      data.idempotencyKey,
+      PaymentAttemptStatus.CREATED,
+      data.amount,
+      data.currency.toUpperCase(),
+      data.checkoutUrl,
+      data.expiresAt,
+      null,
+      new Date(),
+      null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    orderId: string
+    provider: string
+    providerSessionId: string
+    idempotencyKey: string
+    status: PaymentAttemptStatusType
+    amount: number
+    currency: string
+    checkoutUrl: string
+    expiresAt: Date | null
+    failureReason: string | null
+    createdAt: Date
+    completedAt: Date | null
+  }): PaymentAttempt {
+    return new PaymentAttempt(
+      data.id,
+      data.orderId,
+      data.provider,
+      data.providerSessionId,
+      data.idempotencyKey,
+      data.status,
+      data.amount,
+      data.currency,
+      data.checkoutUrl,
+      data.expiresAt,
+      data.failureReason,
+      data.createdAt,
+      data.completedAt,
+    )
+  }
+
+  /** Whether the customer can still pay through this session. */
+  isOpen(now: Date = new Date()): boolean {
+    if (this.status !== PaymentAttemptStatus.CREATED) return false
+    return this.expiresAt === null || this.expiresAt > now
+  }
+
+  /** Whether a reported payment matches what this session asked for. */
+  matchesAmount(amount: number, currency: string): boolean {
+    return (
+      Math.round(amount * 100) === Math.round(this.amount * 100) &&
+      currency.toUpperCase() === this.currency
+    )
+  }
+
+  /**
+   * created | failed | expired → succeeded. Providers may report a failed try
+   * and then a successful one on the same session, so only succeeded is final.
+   * Returns false (no change) when the attempt already succeeded.
+   */
+  markSucceeded(): boolean {
+    if (this.status === PaymentAttemptStatus.SUCCEEDED) return false
+    this.status = PaymentAttemptStatus.SUCCEEDED
+    this.failureReason = null
+    this.completedAt = new Date()
+    return true
+  }
+
+  /** created | failed → failed. No-op (returns false) once the attempt succeeded or expired. */
+  markFailed(reason: string): boolean {
+    if (
+      this.status === PaymentAttemptStatus.SUCCEEDED ||
+      this.status === PaymentAttemptStatus.EXPIRED
+    ) {
+      return false
+    }
+    this.status = PaymentAttemptStatus.FAILED
+    this.failureReason = reason
+    this.completedAt = new Date()
+    return true
+  }
+
+  /** created → expired. No-op (returns false) from any other status. */
+  markExpired(): boolean {
+    if (this.status !== PaymentAttemptStatus.CREATED) return false
+    this.status = PaymentAttemptStatus.EXPIRED
+    this.completedAt = new Date()
+    return true
+  }
+}
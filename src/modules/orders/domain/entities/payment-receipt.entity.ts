@@ -0,0 +1,104 @@
+import { AppException } from '@shared/domain'
+import {
+  PaymentReceiptStatus,
+  type PaymentReceiptStatusType,
+} from '../value-objects/payment-receipt-status.vo'
+
+export class PaymentReceipt {
+  constructor(
+    public readonly id: string,
+    public readonly orderId: string,
+    public readonly storageKey: string,
+    public readonly fileSize: bigint | null,
+    public readonly mimeType: string | null,
+    public status: PaymentReceiptStatusType,
+    public rejectionReason: string | null,
+    public readonly submittedAt: Date,
+    public readonly submittedById: string,
+    public reviewedAt: Date | null,
+    public reviewedById: string | null,
+  ) {}
+
+  /**
+   * Factory method for a receipt the customer just uploaded.
+   * Status starts as pending.
+   */
+  static create(data: {
+    orderId: string
+    storageKey: string
+    fileSize: bigint | null
+    mimeType: string | null
+    submittedById: string
+  }): PaymentReceipt {
+    return new PaymentReceipt(
+      crypto.randomUUID(),
+      data.orderId,
+      data.storageKey,
+      data.fileSize,
+      data.mimeType,
+      PaymentReceiptStatus.PENDING,
+      null,
+      new Date(),
+      data.submittedById,
+      null,
+      null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    orderId: string
+    storageKey: string
+    fileSize: bigint | null
+    mimeType: string | null
+    status: PaymentReceiptStatusType
+    rejectionReason: string | null
+    submittedAt: Date
+    submittedById: string
+    reviewedAt: Date | null
+    reviewedById: string | null
+  }): PaymentReceipt {
+    return new PaymentReceipt(
+      data.id,
+      data.orderId,
+      data.storageKey,
+      data.fileSize,
+      data.mimeType,
+      data.status,
+      data.rejectionReason,
+      data.submittedAt,
+      data.submittedById,
+      data.reviewedAt,
+      data.reviewedById,
+    )
+  }
+
+  /** Approves: pending → approved. Records the reviewing admin. */
+  approve(reviewedById: string): void {
+    this.assertPending()
+    this.status = PaymentReceiptStatus.APPROVED
+    this.reviewedAt = new Date()
+    this.reviewedById = reviewedById
+  }
+
+  /** Rejects: pending → rejected. The reason is shown to the customer. */
+  reject(reviewedById: string, reason: string): void {
+    this.assertPending()
+    const trimmed = reason.trim()
+    if (!trimmed) throw AppException.businessRule('payment_receipt.rejection_reason_required')
+    this.status = PaymentReceiptStatus.REJECTED
+    this.rejectionReason = trimmed
+    this.reviewedAt = new Date()
+    this.reviewedById = reviewedById
+  }
+
+  private assertPending(): void {
+    if (this.status !== PaymentReceiptStatus.PENDING) {
+      throw AppException.businessRule('payment_receipt.not_pending')
+    }
+  }
+}
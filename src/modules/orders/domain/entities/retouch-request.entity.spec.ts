@@ -0,0 +1,83 @@
+import { RetouchRequestStatus } from '../value-objects/retouch-request-status.vo'
+import { MAX_RETOUCH_REVISIONS, RetouchRequest } from './retouch-request.entity'
+
+const create = () =>
+  RetouchRequest.create({
+    orderItemId: 'item-1',
+    orderId: 'order-1',
+    photoId: 'photo-1',
+    instructions: '  Quitar al espectador detrás de mí  ',
+    price: 3.5,
+  })
+
+describe('RetouchRequest', () => {
+  it('starts as requested with trimmed instructions', () => {
+    const request = create()
+
+    expect(request.status).toBe(RetouchRequestStatus.REQUESTED)
+    expect(request.instructions).toBe('Quitar al espectador detrás de mí')
+    expect(request.isOpen).toBe(true)
+  })
+
+  it('rejects empty instructions', () => {
+    expect(() =>
+      RetouchRequest.create({
+        orderItemId: 'item-1',
+        orderId: 'order-1',
+        photoId: 'photo-1',
+        instructions: '   ',
+        price: null,
+      }),
+    ).toThrow(expect.objectContaining({ messageKey: 'order.retouch_instructions_required' }))
+  })
+
+  it('locks the instructions once a retouch was delivered', () => {
+    const request = create()
+    request.updateInstructions('Aclarar mi cara')
+    request.submitForApproval('revision-1')
+
+    expect(request.instructions).toBe('Aclarar mi cara')
+    expect(() => request.updateInstructions('Otra cosa')).toThrow(
+      expect.objectContaining({ messageKey: 'order.retouch_request_locked' }),
+    )
+  })
+
+  it('goes through one revision before approval', () => {
+    const request = create()
+    request.submitForApproval('revision-1')
+    expect(request.status).toBe(RetouchRequestStatus.AWAITING_APPROVAL)
+    expect(request.retouchRevisionId).toBe('revision-1')
+
+    request.requestRevision(' La cara sigue oscura ')
+    expect(request.status).toBe(RetouchRequestStatus.REVISION_REQUESTED)
+    expect(request.revisionFeedback).toBe('La cara sigue oscura')
+    expect(request.isOpen).toBe(true)
+
+    request.submitForApproval('revision-2')
+    expect(() => request.requestRevision('Todavía no')).toThrow(
+      expect.objectContaining({ messageKey: 'order.retouch_revision_limit_reached' }),
+    )
+    expect(request.revisionsRequested).toBe(MAX_RETOUCH_REVISIONS)
+
+    request.approve()
+    expect(request.status).toBe(RetouchRequestStatus.APPROVED)
+    expect(request.approvedAt).toBeInstanceOf(Date)
+    expect(request.retouchRevisionId).toBe('revision-2')
+  })
+
+  it('cannot be approved before a retouch is delivered', () => {
+    expect(() => create().approve()).toThrow(
+      expect.objectContaining({ messageKey: 'order.retouch_request_not_awaiting_approval' }),
+    )
+  })
+
+  it('requires feedback for a revision', () => {
+    const request = create()
+    request.submitForApproval('revision-1')
+
+    expect(() => request.requestRevision('')).toThrow(
+      expect.objectContaining({ messageKey: 'order.retouch_feedback_required' }),
+    )
+    expect(request.status).toBe(RetouchRequestStatus.AWAITING_APPROVAL)
+  })
+})
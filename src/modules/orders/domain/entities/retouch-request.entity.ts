@@ -0,0 +1,145 @@
+import { AppException } from '@shared/domain'
+import {
+  OPEN_RETOUCH_REQUEST_STATUSES,
+  RetouchRequestStatus,
+  type RetouchRequestStatusType,
+} from '../value-objects/retouch-request-status.vo'
+
+/** Revisions a customer may ask for after the first retouch. */
+export const MAX_RETOUCH_REVISIONS = 1
+
+export class RetouchRequest {
+  constructor(
+    public readonly id: string,
+    public readonly orderItemId: string,
+    public readonly orderId: string,
+    public readonly photoId: string,
+    public instructions: string,
+    /** Add-on price charged on the order; null when the event does not charge for retouch. */
+    public readonly price: number | null,
+    public status: RetouchRequestStatusType,
+    public revisionsRequested: number,
+    public revisionFeedback: string | null,
+    /** Retouch revision shown to the customer for approval. */
+    public retouchRevisionId: string | null,
+    public readonly createdAt: Date,
+    public approvedAt: Date | null,
+  ) {}
+
+  /**
+   * Factory method for the instructions a customer attaches to a bought photo.
+   * Status starts as requested.
+   */
+  static create(data: {
+    orderItemId: string
+    orderId: string
+    photoId: string
+    instructions: string
+    price: number | null
+  }): RetouchRequest {
+    return new RetouchRequest(
+      crypto.randomUUID(),
+      data.orderItemId,
+      data.orderId,
+      data.photoId,
+      RetouchRequest.requireText(data.instructions, 'order.retouch_instructions_required'),
+      data.price,
+      RetouchRequestStatus.REQUESTED,
+      0,
+      null,
+      null,
+      new Date(),
+      null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    orderItemId: string
+    orderId: string
+    photoId: string
+    instructions: string
+    price: number | null
+    status: RetouchRequestStatusType
+    revisionsRequested: number
+    revisionFeedback: string | null
+    retouchRevisionId: string | null
+    createdAt: Date
+    approvedAt: Date | null
+  }): RetouchRequest {
+    return new RetouchRequest(
+      data.id,
+      data.orderItemId,
+      data.orderId,
+      data.photoId,
+      data.instructions,
+      data.price,
+      data.status,
+      data.revisionsRequested,
+      data.revisionFeedback,
+      data.retouchRevisionId,
+      data.createdAt,
+      data.approvedAt,
+    )
+  }
+
+  /** True while the request waits for an operator. */
+  get isOpen(): boolean {
+    return OPEN_RETOUCH_REQUEST_STATUSES.includes(this.status)
+  }
+
+  /** Replaces the instructions; only before an operator has delivered a retouch. */
+  updateInstructions(instructions: string): void {
+    if (this.status !== RetouchRequestStatus.REQUESTED) {
+      throw AppException.businessRule('order.retouch_request_locked')
+    }
+    this.instructions = RetouchRequest.requireText(
+      instructions,
+      'order.retouch_instructions_required',
+    )
+  }
+
+  /** An operator confirmed a retouch: requested | revision_requested → awaiting_approval. */
+  submitForApproval(retouchRevisionId: string): void {
+    if (!this.isOpen) throw AppException.businessRule('order.retouch_request_not_open')
+    this.status = RetouchRequestStatus.AWAITING_APPROVAL
+    this.retouchRevisionId = retouchRevisionId
+  }
+
+  /** The customer accepts the retouch: awaiting_approval → approved (terminal). */
+  approve(): void {
+    this.assertAwaitingApproval()
+    this.status = RetouchRequestStatus.APPROVED
+    this.approvedAt = new Date()
+  }
+
+  /**
+   * The customer sends the retouch back: awaiting_approval → revision_requested.
+   * Allowed MAX_RETOUCH_REVISIONS times; the feedback is shown to the operator.
+   */
+  requestRevision(feedback: string): void {
+    this.assertAwaitingApproval()
+    if (this.revisionsRequested >= MAX_RETOUCH_REVISIONS) {
+      throw AppException.businessRule('order.retouch_revision_limit_reached')
+    }
+    this.revisionFeedback = RetouchRequest.requireText(feedback, 'order.retouch_feedback_required')
+    this.revisionsRequested += 1
+    this.status = RetouchRequestStatus.REVISION_REQUESTED
+  }
+
+  private assertAwaitingApproval(): void {
+    if (this.status !== RetouchRequestStatus.AWAITING_APPROVAL) {
+      throw AppException.businessRule('order.retouch_request_not_awaiting_approval')
+    }
+  }
+
+  private static requireText(text: string, messageKey: string): string {
+    const trimmed = text.trim()
+    if (!trimmed) throw AppException.businessRule(messageKey)
+    return trimmed
+  }
+}
@@ -1,4 +1,6 @@
 export {
+  type BibPackageOrderMatch,
+  type CurrencyAmount,
   type IOrderReadRepository,
   ORDER_READ_REPOSITORY,
   type OrderListFilters,
@@ -6,5 +8,38 @@ export {
 export {
   type IOrderWriteRepository,
   ORDER_WRITE_REPOSITORY,
+  type OrderPlacement,
   type OrderSnapData,
 } from './order-write-repository.port'
+export {
+  type IPaymentAttemptReadRepository,
+  PAYMENT_ATTEMPT_READ_REPOSITORY,
+} from './payment-attempt-read-repository.port'
+export {
+  type IPaymentAttemptWriteRepository,
+  PAYMENT_ATTEMPT_WRITE_REPOSITORY,
+} from './payment-attempt-write-repository.port'
+export {
+  type CheckoutSession,
+  type CreateCheckoutSessionInput,
+  type IPaymentGateway,
+  PAYMENT_GATEWAY,
+  PaymentEventType,
+  type PaymentEventTypeValue,
+  type PaymentWebhookEvent,
+} from './payment-gateway.port'
+export {
+  type IPaymentReceiptReadRepository,
+  PAYMENT_RECEIPT_READ_REPOSITORY,
+  type PaymentReceiptQueueRow,
+  type PaymentReceiptRow,
+} from './payment-receipt-read-repository.port'
+export {
+  type IPaymentReceiptWriteRepository,
+  PAYMENT_RECEIPT_WRITE_REPOSITORY,
+} from './payment-receipt-write-repository.port'
+export {
+  type IRetouchRequestRepository,
+  RETOUCH_REQUEST_REPOSITORY,
+  type RetouchRequestRow,
+} from './retouch-request-repository.port'
@@ -13,6 +13,23 @@ export type OrderListFilters = {
   search?: string
 }
 
+/** Amounts of one order currency, also converted with each order's snapshotted rate. */
+export type CurrencyAmount = {
+  /** Order currency (null for orders created before pricing was snapshotted) */
+  currency: string | null
+  /** Sum in `currency`, as a Decimal string */
+  amount: string
+  /** Sum in the requested base currency, as a Decimal string; excludes `unconverted` rows */
+  baseAmount: string
+  /** Rows whose order has no rate snapshot to the requested base currency */
+  unconverted: number
+}
+
+export type BibPackageOrderMatch = {
+  orderId: string
+  status: string
+}
+
 export interface IOrderReadRepository {
   findById(id: string): Promise<Order | null>
   getList(
@@ -21,12 +38,23 @@ export interface IOrderReadRepository {
   ): Promise<PaginatedResult<OrderListProjection>>
   getDetail(id: string): Promise<OrderDetailProjection | null>
   countByStatus(eventId?: string): Promise<Record<string, number>>
-  /** Sums subtotal of paid + delivered orders, optionally scoped to a single event. Returns a Decimal string ('0' when none). */
-  sumRevenue(eventId?: string): Promise<string>
+  /** Sums subtotal of paid + delivered orders (net of refunds) per currency, optionally scoped to a single event. */
+  sumRevenue(baseCurrency: string, eventId?: string): Promise<CurrencyAmount[]>
+  /** Sums every refund recorded per currency, optionally scoped to a single event. */
+  sumRefunds(baseCurrency: string, eventId?: string): Promise<CurrencyAmount[]>
   existsByPreviewLinkId(previewLinkId: string): Promise<boolean>
   getPreviewPhotoIds(previewLinkId: string): Promise<string[]>
+  /** Snapshotted unit price of each photo currently in the order, keyed by photo id. */
+  getItemUnitPrices(orderId: string): Promise<Map<string, number | null>>
   getPendingRetouch(): Promise<PendingRetouchOrderProjection[]>
   findOrdersFullyRetouchedByPhoto(photoId: string): Promise<RetouchCompletedOrderProjection[]>
+  /** Whether someone other than `userId` holds an unexpired retouch claim on an item of the photo. */
+  isRetouchClaimedByOther(photoId: string, userId: string, now: Date): Promise<boolean>
+  /** Photo ids of the event whose effective bib digits equal `bibNumber`. */
+  findPhotoIdsByBib(eventId: string, bibNumber: string): Promise<string[]>
+  existsActiveBibPackage(userId: string, eventId: string, bibNumber: string): Promise<boolean>
+  /** Live bib package orders that should receive this photo (not already in them). */
+  findBibPackageOrdersForPhoto(photoId: string): Promise<BibPackageOrderMatch[]>
 }
 
 export const ORDER_READ_REPOSITORY = Symbol('ORDER_READ_REPOSITORY')
@@ -1,4 +1,5 @@
-import type { Order } from '../entities'
+import type { CouponRedemption } from '@pricing/domain/value-objects'
+import type { Order, OrderRefund, PaymentReceipt } from '../entities'
 
 export type OrderSnapData = {
   snapFirstName: string | null
@@ -9,6 +10,15 @@ export type OrderSnapData = {
   snapProvinceId: number | null
   snapCantonId: number | null
   snapCategoryName: string | null
+  snapParticipantName: string | null
+  snapParticipantTeam: string | null
+}
+
+/** A new order with the buyer snapshot and the photos it is created with. */
+export type OrderPlacement = {
+  order: Order
+  snap: OrderSnapData | null
+  items: { photoId: string; unitPrice: number | null }[]
 }
 
 export interface IOrderWriteRepository {
@@ -16,6 +26,16 @@ export interface IOrderWriteRepository {
   saveWithSnap(order: Order, snap: OrderSnapData): Promise<Order>
   savePhotos(orderId: string, items: { photoId: string; unitPrice: number | null }[]): Promise<void>
   updateItemsDeliveredAs(orderId: string): Promise<void>
+  /**
+   * Creates the orders with their photos and, when given, the coupon redemption
+   * they reference, atomically. The coupon row is locked and its usage limits are
+   * re-checked (Coupon.assertWithinLimits) inside the same transaction.
+   */
+  placeOrders(placements: OrderPlacement[], redemption: CouponRedemption | null): Promise<Order[]>
+  /** Saves the order, removes the refunded photos from it and records the refund, atomically. */
+  saveRefund(order: Order, refund: OrderRefund): Promise<void>
+  /** Saves the paid order and the receipt that proved the payment, atomically. */
+  saveWithReceipt(order: Order, receipt: PaymentReceipt): Promise<void>
 }
 
 export const ORDER_WRITE_REPOSITORY = Symbol('ORDER_WRITE_REPOSITORY')
@@ -0,0 +1,16 @@
+import type { PaymentAttemptProjection } from '@orders/application/projections'
+import type { PaymentAttempt } from '../entities'
+
+export interface IPaymentAttemptReadRepository {
+  findByProviderSession(provider: string, providerSessionId: string): Promise<PaymentAttempt | null>
+  findByIdempotencyKey(idempotencyKey: string): Promise<PaymentAttempt | null>
+  /** Most recent attempt of the order still in `created` status, or null. */
+  findLatestCreated(orderId: string): Promise<PaymentAttempt | null>
+  countByOrderId(orderId: string): Promise<number>
+  /** Whether a webhook event was already processed, keyed by (provider, eventId). */
+  hasWebhookEvent(provider: string, eventId: string): Promise<boolean>
+  /** Attempt history of an order, newest first. */
+  getListByOrderId(orderId: string): Promise<PaymentAttemptProjection[]>
+}
+
+export const PAYMENT_ATTEMPT_READ_REPOSITORY = Symbol('PAYMENT_ATTEMPT_READ_REPOSITORY')
@@ -0,0 +1,27 @@
+import type { PaymentAttempt } from '../entities'
+import type { PaymentAttemptStatusType } from '../value-objects/payment-attempt-status.vo'
+import type { PaymentWebhookEvent } from './payment-gateway.port'
+
+export interface IPaymentAttemptWriteRepository {
+  /** Inserts a new attempt. When the idempotency key already exists, returns the stored attempt. */
+  create(attempt: PaymentAttempt): Promise<PaymentAttempt>
+  /**
+   * Persists a status change only if the stored status is still `expectedStatus`.
+   * Returns false when another request changed the attempt first.
+   */
+  saveTransition(
+    attempt: PaymentAttempt,
+    expectedStatus: PaymentAttemptStatusType,
+  ): Promise<boolean>
+  /**
+   * Stores a webhook event keyed by (provider, eventId) once its outcome has been applied.
+   * Returns false when the same event was already recorded.
+   */
+  recordWebhookEvent(
+    provider: string,
+    event: PaymentWebhookEvent,
+    paymentAttemptId: string | null,
+  ): Promise<boolean>
+}
+
+export const PAYMENT_ATTEMPT_WRITE_REPOSITORY = Symbol('PAYMENT_ATTEMPT_WRITE_REPOSITORY')
@@ -0,0 +1,48 @@
+export const PaymentEventType = {
+  SUCCEEDED: 'payment.succeeded',
+  FAILED: 'payment.failed',
+  EXPIRED: 'checkout.expired',
+} as const
+
+export type PaymentEventTypeValue = (typeof PaymentEventType)[keyof typeof PaymentEventType]
+
+export interface CreateCheckoutSessionInput {
+  orderId: string
+  amount: number
+  currency: string
+  /** Forwarded to the provider so a retried request reuses the same session. */
+  idempotencyKey: string
+  customerEmail: string | null
+}
+
+export interface CheckoutSession {
+  providerSessionId: string
+  checkoutUrl: string
+  expiresAt: Date | null
+}
+
+/** Provider webhook normalized to what the orders module needs. */
+export interface PaymentWebhookEvent {
+  /** Provider-side event id; used as the webhook idempotency key. */
+  eventId: string
+  type: PaymentEventTypeValue
+  providerSessionId: string
+  amount: number
+  currency: string
+  failureReason: string | null
+  /** Parsed body as received, stored with the attempt history. */
+  payload: Record<string, unknown>
+}
+
+export interface IPaymentGateway {
+  /** Short provider name stored on each payment attempt (e.g. 'fake'). */
+  readonly provider: string
+  createCheckoutSession(input: CreateCheckoutSessionInput): Promise<CheckoutSession>
+  /**
+   * Verifies the webhook signature against the raw request body and parses it.
+   * Throws AppException.forbidden when the signature is missing or invalid.
+   */
+  verifyWebhook(rawBody: Buffer, signature: string | undefined): PaymentWebhookEvent
+}
+
+export const PAYMENT_GATEWAY = Symbol('PAYMENT_GATEWAY')
@@ -0,0 +1,24 @@
+import type {
+  PaymentReceiptProjection,
+  PaymentReceiptQueueItemProjection,
+} from '@orders/application/projections'
+import type { PaginatedResult, Pagination } from '@shared/application'
+import type { PaymentReceipt } from '../entities'
+
+/** Projection rows before the handler swaps the storage key for a presigned URL. */
+export type PaymentReceiptRow = Omit<PaymentReceiptProjection, 'receiptUrl'> & {
+  storageKey: string
+}
+export type PaymentReceiptQueueRow = Omit<PaymentReceiptQueueItemProjection, 'receiptUrl'> & {
+  storageKey: string
+}
+
+export interface IPaymentReceiptReadRepository {
+  findById(id: string): Promise<PaymentReceipt | null>
+  /** Receipts of an order, newest first. */
+  getListByOrderId(orderId: string): Promise<PaymentReceiptRow[]>
+  /** Pending receipts, oldest first, with the order context admins reconcile against. */
+  getPendingQueue(pagination: Pagination): Promise<PaginatedResult<PaymentReceiptQueueRow>>
+}
+
+export const PAYMENT_RECEIPT_READ_REPOSITORY = Symbol('PAYMENT_RECEIPT_READ_REPOSITORY')
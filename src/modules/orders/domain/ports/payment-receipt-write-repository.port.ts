@@ -0,0 +1,9 @@
+import type { PaymentReceipt } from '../entities'
+
+export interface IPaymentReceiptWriteRepository {
+  save(receipt: PaymentReceipt): Promise<PaymentReceipt>
+  /** Marks the order's pending receipts as superseded and saves the new one, atomically. */
+  saveReplacingPending(receipt: PaymentReceipt): Promise<PaymentReceipt>
+}
+
+export const PAYMENT_RECEIPT_WRITE_REPOSITORY = Symbol('PAYMENT_RECEIPT_WRITE_REPOSITORY')
@@ -0,0 +1,26 @@
+import type { RetouchRequestProjection } from '@orders/application/projections'
+import type { Order, RetouchRequest } from '../entities'
+
+/** Projection rows before the handler swaps the storage key for a presigned URL. */
+export type RetouchRequestRow = Omit<RetouchRequestProjection, 'previewUrl'> & {
+  previewStorageKey: string | null
+}
+
+export interface IRetouchRequestRepository {
+  /** Order item of the photo in the order, or null when the photo is not in it. */
+  findOrderItemId(orderId: string, photoId: string): Promise<string | null>
+  findByOrderItem(orderId: string, photoId: string): Promise<RetouchRequest | null>
+  /** Requests on the photo waiting for an operator, in paid orders. */
+  findOpenByPhoto(photoId: string): Promise<RetouchRequest[]>
+  /** Add-on price of each request of the order, by photo id (free requests are left out). */
+  findPricesByOrder(orderId: string): Promise<Map<string, number>>
+  /** Requests of the order the customer has not approved yet. */
+  countUnapproved(orderId: string): Promise<number>
+  /** Requests of an order, in photo order. */
+  listByOrder(orderId: string): Promise<RetouchRequestRow[]>
+  save(request: RetouchRequest): Promise<void>
+  /** Saves a new request together with the order it was charged on, atomically. */
+  saveWithOrder(request: RetouchRequest, order: Order): Promise<void>
+}
+
+export const RETOUCH_REQUEST_REPOSITORY = Symbol('RETOUCH_REQUEST_REPOSITORY')
@@ -0,0 +1,6 @@
+export const OrderRefundKind = {
+  FULL: 'full',
+  ITEMS: 'items',
+} as const
+
+export type OrderRefundKindType = (typeof OrderRefundKind)[keyof typeof OrderRefundKind]
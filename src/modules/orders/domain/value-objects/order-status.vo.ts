@@ -5,6 +5,7 @@ export const OrderStatus = {
   DELIVERED: 'delivered',
   GIFTED: 'gifted',
   CANCELLED: 'cancelled',
+  REFUNDED: 'refunded',
 } as const
 
 export type OrderStatusType = (typeof OrderStatus)[keyof typeof OrderStatus]
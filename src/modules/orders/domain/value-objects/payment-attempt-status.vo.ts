@@ -0,0 +1,9 @@
+export const PaymentAttemptStatus = {
+  CREATED: 'created',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+  EXPIRED: 'expired',
+} as const
+
+export type PaymentAttemptStatusType =
+  (typeof PaymentAttemptStatus)[keyof typeof PaymentAttemptStatus]
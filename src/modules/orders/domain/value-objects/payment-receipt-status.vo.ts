@@ -0,0 +1,9 @@
+export const PaymentReceiptStatus = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+  SUPERSEDED: 'superseded',
+} as const
+
+export type PaymentReceiptStatusType =
+  (typeof PaymentReceiptStatus)[keyof typeof PaymentReceiptStatus]
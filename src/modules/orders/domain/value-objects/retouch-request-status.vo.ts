@@ -0,0 +1,15 @@
+export const RetouchRequestStatus = {
+  REQUESTED: 'requested',
+  AWAITING_APPROVAL: 'awaiting_approval',
+  REVISION_REQUESTED: 'revision_requested',
+  APPROVED: 'approved',
+} as const
+
+export type RetouchRequestStatusType =
+  (typeof RetouchRequestStatus)[keyof typeof RetouchRequestStatus]
+
+/** Statuses in which the request waits for an operator. */
+export const OPEN_RETOUCH_REQUEST_STATUSES: readonly RetouchRequestStatusType[] = [
+  RetouchRequestStatus.REQUESTED,
+  RetouchRequestStatus.REVISION_REQUESTED,
+]
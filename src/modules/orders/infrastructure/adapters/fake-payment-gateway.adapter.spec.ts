@@ -0,0 +1,89 @@
+import type { ConfigService } from '@nestjs/config'
+import { PaymentEventType } from '@orders/domain/ports'
+import { AppException } from '@shared/domain'
+import { FakePaymentGatewayAdapter } from './fake-payment-gateway.adapter'
+
+const buildConfig = (secret: string | undefined) =>
+  ({
+    get: jest.fn((key: string, fallback?: string) =>
+      key === 'payments.webhookSecret' ? secret : fallback,
+    ),
+  }) as unknown as ConfigService
+
+const body = (overrides: Record<string, unknown> = {}) =>
+  Buffer.from(
+    JSON.stringify({
+      id: 'evt_1',
+      type: PaymentEventType.SUCCEEDED,
+      data: { sessionId: 'fake_cs_1', amount: 12.5, currency: 'usd' },
+      ...overrides,
+    }),
+  )
+
+describe('FakePaymentGatewayAdapter', () => {
+  let adapter: FakePaymentGatewayAdapter
+
+  beforeEach(() => {
+    adapter = new FakePaymentGatewayAdapter(buildConfig('whsec_test'))
+  })
+
+  it('returns the same session for the same idempotency key', async () => {
+    const input = {
+      orderId: 'o-1',
+      amount: 10,
+      currency: 'USD',
+      idempotencyKey: 'o-1:1',
+      customerEmail: null,
+    }
+
+    const a = await adapter.createCheckoutSession(input)
+    const b = await adapter.createCheckoutSession(input)
+
+    expect(a.providerSessionId).toBe(b.providerSessionId)
+    expect(a.checkoutUrl).toContain(a.providerSessionId)
+  })
+
+  it('parses a correctly signed webhook', () => {
+    const raw = body()
+
+    const event = adapter.verifyWebhook(raw, adapter.signPayload(raw))
+
+    expect(event).toMatchObject({
+      eventId: 'evt_1',
+      type: PaymentEventType.SUCCEEDED,
+      providerSessionId: 'fake_cs_1',
+      amount: 12.5,
+      currency: 'USD',
+      failureReason: null,
+    })
+  })
+
+  it('rejects a tampered body', () => {
+    const signature = adapter.signPayload(body())
+
+    expect(() => adapter.verifyWebhook(body({ id: 'evt_2' }), signature)).toThrow(AppException)
+  })
+
+  it('rejects a missing or stale signature', () => {
+    const raw = body()
+    const stale = Math.floor(Date.now() / 1000) - 3600
+
+    expect(() => adapter.verifyWebhook(raw, undefined)).toThrow(AppException)
+    expect(() => adapter.verifyWebhook(raw, adapter.signPayload(raw, stale))).toThrow(AppException)
+  })
+
+  it('rejects every webhook when no secret is configured', () => {
+    const unconfigured = new FakePaymentGatewayAdapter(buildConfig(undefined))
+    const raw = body()
+
+    expect(() => unconfigured.verifyWebhook(raw, unconfigured.signPayload(raw))).toThrow(
+      AppException,
+    )
+  })
+
+  it('rejects an unknown event type', () => {
+    const raw = body({ type: 'refund.created' })
+
+    expect(() => adapter.verifyWebhook(raw, adapter.signPayload(raw))).toThrow(AppException)
+  })
+})
@@ -0,0 +1,119 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import { Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+  type CheckoutSession,
+  type CreateCheckoutSessionInput,
+  type IPaymentGateway,
+  PaymentEventType,
+  type PaymentEventTypeValue,
+  type PaymentWebhookEvent,
+} from '@orders/domain/ports'
+import { AppException } from '@shared/domain'
+
+/** Webhooks older than this are rejected to limit replay of a leaked payload. */
+const SIGNATURE_TOLERANCE_SECONDS = 300
+const SESSION_TTL_MS = 30 * 60 * 1000
+
+const EVENT_TYPES = new Set<string>(Object.values(PaymentEventType))
+
+/**
+ * Local stand-in for a hosted-checkout provider, used in development and tests.
+ *
+ * Sessions are derived from the idempotency key, so a retried request gets
+ * the same session back. Webhooks are signed like most providers do it:
+ * header `t={unix},v1={hex}` where v1 = HMAC-SHA256(secret, `${t}.${rawBody}`).
+ * `signPayload` produces that header so a payment can be simulated locally.
+ */
+@Injectable()
+export class FakePaymentGatewayAdapter implements IPaymentGateway {
+  readonly provider = 'fake'
+  private readonly webhookSecret: string | undefined
+  private readonly checkoutBaseUrl: string
+
+  constructor(config: ConfigService) {
+    this.webhookSecret = config.get<string>('payments.webhookSecret')
+    this.checkoutBaseUrl = config.get<string>('payments.checkoutBaseUrl', 'http://localhost:3000')
+  }
+
+  async createCheckoutSession(input: CreateCheckoutSessionInput): Promise<CheckoutSession> {
+    const digest = createHash('sha256').update(input.idempotencyKey).digest('hex')
+    const providerSessionId = `fake_cs_${digest.slice(0, 24)}`
+    return {
+      providerSessionId,
+      checkoutUrl: `${this.checkoutBaseUrl}/fake-checkout/${providerSessionId}`,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    }
+  }
+
+  verifyWebhook(rawBody: Buffer, signature: string | undefined): PaymentWebhookEvent {
+    if (!this.webhookSecret) throw AppException.forbidden('payment.webhook_not_configured')
+    if (!signature) throw AppException.forbidden('payment.invalid_signature')
+
+    const parts = Object.fromEntries(
+      signature.split(',').map((kv) => kv.trim().split('=', 2) as [string, string]),
+    )
+    const timestamp = Number(parts.t)
+    if (!Number.isInteger(timestamp) || !parts.v1) {
+      throw AppException.forbidden('payment.invalid_signature')
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw AppException.forbidden('payment.invalid_signature')
+    }
+
+    const expected = Buffer.from(this.hmac(timestamp, rawBody), 'hex')
+    const received = Buffer.from(parts.v1, 'hex')
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw AppException.forbidden('payment.invalid_signature')
+    }
+
+    return this.parse(rawBody)
+  }
+
+  /** Builds a valid signature header for `rawBody` (local simulation and tests). */
+  signPayload(rawBody: Buffer, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    return `t=${timestamp},v1=${this.hmac(timestamp, rawBody)}`
+  }
+
+  private hmac(timestamp: number, rawBody: Buffer): string {
+    return createHmac('sha256', this.webhookSecret ?? '')
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest('hex')
+  }
+
+  private parse(rawBody: Buffer): PaymentWebhookEvent {
+    let body: {
+      id?: unknown
+      type?: unknown
+      data?: { sessionId?: unknown; amount?: unknown; currency?: unknown; failureReason?: unknown }
+    }
+    try {
+      body = JSON.parse(rawBody.toString('utf8'))
+    } catch {
+      throw AppException.businessRule('payment.invalid_payload')
+    }
+
+    const data = body.data ?? {}
+    if (
+      typeof body.id !== 'string' ||
+      typeof body.type !== 'string' ||
+      !EVENT_TYPES.has(body.type) ||
+      typeof data.sessionId !== 'string' ||
+      typeof data.amount !== 'number' ||
+      typeof data.currency !== 'string'
+    ) {
+      throw AppException.businessRule('payment.invalid_payload')
+    }
+
+    return {
+      eventId: body.id,
+      type: body.type as PaymentEventTypeValue,
+      providerSessionId: data.sessionId,
+      amount: data.amount,
+      currency: data.currency.toUpperCase(),
+      failureReason: typeof data.failureReason === 'string' ? data.failureReason : null,
+      payload: body as Record<string, unknown>,
+    }
+  }
+}
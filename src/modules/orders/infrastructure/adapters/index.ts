@@ -0,0 +1 @@
+export { FakePaymentGatewayAdapter } from './fake-payment-gateway.adapter'
@@ -0,0 +1,17 @@
+import type { Prisma } from '@generated/prisma/client'
+import type { OrderRefund } from '@orders/domain/entities'
+
+/** Converts a domain entity to a Prisma create input. */
+export function toPersistence(entity: OrderRefund): Prisma.OrderRefundUncheckedCreateInput {
+  return {
+    id: entity.id,
+    order_id: entity.orderId,
+    kind: entity.kind,
+    amount: entity.amount,
+    currency: entity.currency,
+    reason: entity.reason,
+    photo_ids: entity.photoIds,
+    refunded_by_id: entity.refundedById,
+    created_at: entity.createdAt,
+  }
+}
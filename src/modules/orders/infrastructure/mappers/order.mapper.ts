@@ -2,7 +2,11 @@ import { Prisma, type Order as PrismaOrder } from '@generated/prisma/client'
 import type { RetouchCompletedOrderProjection } from '@orders/application/projections'
 import { Order } from '@orders/domain/entities'
 import type { OrderStatusType } from '@orders/domain/value-objects/order-status.vo'
-import type { PricingTierSnapshot } from '@pricing/domain/value-objects'
+import type {
+  DiscountSnapshot,
+  FxSnapshot,
+  PricingTierSnapshot,
+} from '@pricing/domain/value-objects'
 
 /** Converts a domain entity to a Prisma create input. */
 export function toPersistence(entity: Order): Prisma.OrderUncheckedCreateInput {
@@ -20,13 +24,21 @@ export function toPersistence(entity: Order): Prisma.OrderUncheckedCreateInput {
       entity.snapPricingConfig === null
         ? Prisma.DbNull
         : (entity.snapPricingConfig as unknown as Prisma.InputJsonValue),
+    snap_base_currency: entity.snapFx?.baseCurrency ?? null,
+    snap_fx_rate: entity.snapFx?.rate ?? null,
+    is_bib_package: entity.isBibPackage,
     created_at: entity.createdAt,
     notified_at: entity.notifiedAt,
     paid_at: entity.paidAt,
     delivered_at: entity.deliveredAt,
     cancelled_at: entity.cancelledAt,
+    refunded_at: entity.refundedAt,
     notified_by_id: entity.notifiedById,
     confirmed_by_id: entity.confirmedById,
+    subtotal_before_discount: entity.discount?.subtotalBeforeDiscount ?? null,
+    discount_amount: entity.discount?.amount ?? null,
+    snap_coupon_code: entity.discount?.couponCode ?? null,
+    coupon_redemption_id: entity.discount?.couponRedemptionId ?? null,
   }
 }
 
@@ -50,9 +62,30 @@ export function toEntity(record: PrismaOrder): Order {
     cancelledAt: record.cancelled_at,
     notifiedById: record.notified_by_id,
     confirmedById: record.confirmed_by_id,
+    discount: toDiscountSnapshot(record),
+    isBibPackage: record.is_bib_package,
+    refundedAt: record.refunded_at,
+    snapFx: toFxSnapshot(record),
   })
 }
 
+/** Rebuilds the FX snapshot; null for orders created without a configured rate. */
+function toFxSnapshot(record: PrismaOrder): FxSnapshot | null {
+  if (record.snap_base_currency === null || record.snap_fx_rate === null) return null
+  return { baseCurrency: record.snap_base_currency, rate: Number(record.snap_fx_rate) }
+}
+
+/** Rebuilds the coupon discount snapshot; null unless a redemption is linked. */
+function toDiscountSnapshot(record: PrismaOrder): DiscountSnapshot | null {
+  if (record.coupon_redemption_id === null || record.snap_coupon_code === null) return null
+  return {
+    couponRedemptionId: record.coupon_redemption_id,
+    couponCode: record.snap_coupon_code,
+    amount: Number(record.discount_amount ?? 0),
+    subtotalBeforeDiscount: Number(record.subtotal_before_discount ?? record.subtotal ?? 0),
+  }
+}
+
 /** Maps a Prisma order record to a retouch-completed projection. */
 export function toRetouchCompletedProjection(record: {
   id: string
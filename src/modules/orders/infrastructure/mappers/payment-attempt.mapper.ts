@@ -0,0 +1,60 @@
+import type { Prisma, PaymentAttempt as PrismaPaymentAttempt } from '@generated/prisma/client'
+import type { PaymentAttemptProjection } from '@orders/application/projections'
+import { PaymentAttempt } from '@orders/domain/entities'
+import type { PaymentAttemptStatusType } from '@orders/domain/value-objects/payment-attempt-status.vo'
+
+/** Converts a domain entity to a Prisma create input. */
+export function toPersistence(entity: PaymentAttempt): Prisma.PaymentAttemptUncheckedCreateInput {
+  return {
+    id: entity.id,
+    order_id: entity.orderId,
+    provider: entity.provider,
+    provider_session_id: entity.providerSessionId,
+    idempotency_key: entity.idempotencyKey,
+    status: entity.status,
+    amount: entity.amount,
+    currency: entity.currency,
+    checkout_url: entity.checkoutUrl,
+    expires_at: entity.expiresAt,
+    failure_reason: entity.failureReason,
+    created_at: entity.createdAt,
+    completed_at: entity.completedAt,
+  }
+}
+
+/** Converts a Prisma record to a domain entity. */
+export function toEntity(record: PrismaPaymentAttempt): PaymentAttempt {
+  return PaymentAttempt.fromPersistence({
+    id: record.id,
+    orderId: record.order_id,
+    provider: record.provider,
+    providerSessionId: record.provider_session_id,
+    idempotencyKey: record.idempotency_key,
+    status: record.status as PaymentAttemptStatusType,
+    amount: Number(record.amount),
+    currency: record.currency,
+    checkoutUrl: record.checkout_url,
+    expiresAt: record.expires_at,
+    failureReason: record.failure_reason,
+    createdAt: record.created_at,
+    completedAt: record.completed_at,
+  })
+}
+
+/** Converts a Prisma record (with its webhook event count) to the history projection. */
+export function toProjection(
+  record: PrismaPaymentAttempt & { _count: { webhook_events: number } },
+): PaymentAttemptProjection {
+  return {
+    id: record.id,
+    provider: record.provider,
+    providerSessionId: record.provider_session_id,
+    status: record.status,
+    amount: Number(record.amount),
+    currency: record.currency,
+    failureReason: record.failure_reason,
+    webhookEventCount: record._count.webhook_events,
+    createdAt: record.created_at,
+    completedAt: record.completed_at,
+  }
+}
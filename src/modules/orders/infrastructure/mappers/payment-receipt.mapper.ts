@@ -0,0 +1,50 @@
+import type { Prisma, PaymentReceipt as PrismaPaymentReceipt } from '@generated/prisma/client'
+import { PaymentReceipt } from '@orders/domain/entities'
+import type { PaymentReceiptRow } from '@orders/domain/ports'
+import type { PaymentReceiptStatusType } from '@orders/domain/value-objects/payment-receipt-status.vo'
+
+/** Converts a domain entity to a Prisma create input. */
+export function toPersistence(entity: PaymentReceipt): Prisma.PaymentReceiptUncheckedCreateInput {
+  return {
+    id: entity.id,
+    order_id: entity.orderId,
+    storage_key: entity.storageKey,
+    file_size: entity.fileSize,
+    mime_type: entity.mimeType,
+    status: entity.status,
+    rejection_reason: entity.rejectionReason,
+    submitted_at: entity.submittedAt,
+    submitted_by_id: entity.submittedById,
+    reviewed_at: entity.reviewedAt,
+    reviewed_by_id: entity.reviewedById,
+  }
+}
+
+/** Converts a Prisma record to a domain entity. */
+export function toEntity(record: PrismaPaymentReceipt): PaymentReceipt {
+  return PaymentReceipt.fromPersistence({
+    id: record.id,
+    orderId: record.order_id,
+    storageKey: record.storage_key,
+    fileSize: record.file_size,
+    mimeType: record.mime_type,
+    status: record.status as PaymentReceiptStatusType,
+    rejectionReason: record.rejection_reason,
+    submittedAt: record.submitted_at,
+    submittedById: record.submitted_by_id,
+    reviewedAt: record.reviewed_at,
+    reviewedById: record.reviewed_by_id,
+  })
+}
+
+/** Converts a Prisma record to a customer-facing row (storage key still unresolved). */
+export function toRow(record: PrismaPaymentReceipt): PaymentReceiptRow {
+  return {
+    id: record.id,
+    status: record.status,
+    rejectionReason: record.rejection_reason,
+    storageKey: record.storage_key,
+    submittedAt: record.submitted_at,
+    reviewedAt: record.reviewed_at,
+  }
+}
@@ -0,0 +1,65 @@
+import type {
+  Prisma,
+  OrderItemRetouchRequest as PrismaRetouchRequest,
+} from '@generated/prisma/client'
+import { MAX_RETOUCH_REVISIONS, RetouchRequest } from '@orders/domain/entities'
+import type { RetouchRequestRow } from '@orders/domain/ports'
+import type { RetouchRequestStatusType } from '@orders/domain/value-objects/retouch-request-status.vo'
+
+type RetouchRequestRecord = PrismaRetouchRequest & {
+  order_item: { order_id: string; photo_id: string }
+}
+
+/** Converts a domain entity to a Prisma create input. */
+export function toPersistence(
+  entity: RetouchRequest,
+): Prisma.OrderItemRetouchRequestUncheckedCreateInput {
+  return {
+    id: entity.id,
+    order_item_id: entity.orderItemId,
+    instructions: entity.instructions,
+    price: entity.price,
+    status: entity.status,
+    revisions_requested: entity.revisionsRequested,
+    revision_feedback: entity.revisionFeedback,
+    retouch_revision_id: entity.retouchRevisionId,
+    created_at: entity.createdAt,
+    approved_at: entity.approvedAt,
+  }
+}
+
+/** Converts a Prisma record (with its order item) to a domain entity. */
+export function toEntity(record: RetouchRequestRecord): RetouchRequest {
+  return RetouchRequest.fromPersistence({
+    id: record.id,
+    orderItemId: record.order_item_id,
+    orderId: record.order_item.order_id,
+    photoId: record.order_item.photo_id,
+    instructions: record.instructions,
+    price: record.price === null ? null : Number(record.price),
+    status: record.status as RetouchRequestStatusType,
+    revisionsRequested: record.revisions_requested,
+    revisionFeedback: record.revision_feedback,
+    retouchRevisionId: record.retouch_revision_id,
+    createdAt: record.created_at,
+    approvedAt: record.approved_at,
+  })
+}
+
+/** Converts a Prisma record to a customer-facing row (storage key still unresolved). */
+export function toRow(
+  record: RetouchRequestRecord & { retouch_revision: { storage_key: string } | null },
+): RetouchRequestRow {
+  return {
+    id: record.id,
+    photoId: record.order_item.photo_id,
+    instructions: record.instructions,
+    price: record.price === null ? null : Number(record.price),
+    status: record.status,
+    revisionsLeft: Math.max(0, MAX_RETOUCH_REVISIONS - record.revisions_requested),
+    revisionFeedback: record.revision_feedback,
+    previewStorageKey: record.retouch_revision?.storage_key ?? null,
+    createdAt: record.created_at,
+    approvedAt: record.approved_at,
+  }
+}
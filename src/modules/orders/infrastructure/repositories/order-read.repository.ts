@@ -1,4 +1,4 @@
-import type { Prisma } from '@generated/prisma/client'
+import { Prisma } from '@generated/prisma/client'
 import { Injectable } from '@nestjs/common'
 import type {
   OrderDetailProjection,
@@ -6,8 +6,14 @@ import type {
   RetouchCompletedOrderProjection,
 } from '@orders/application/projections'
 import type { Order } from '@orders/domain/entities'
-import type { IOrderReadRepository, OrderListFilters } from '@orders/domain/ports'
+import type {
+  BibPackageOrderMatch,
+  CurrencyAmount,
+  IOrderReadRepository,
+  OrderListFilters,
+} from '@orders/domain/ports'
 import { OrderStatus } from '@orders/domain/value-objects/order-status.vo'
+import { OPEN_RETOUCH_REQUEST_STATUSES } from '@orders/domain/value-objects/retouch-request-status.vo'
 import type { PendingRetouchOrderProjection } from '@photos/application/projections'
 import { PaginatedResult, type Pagination } from '@shared/application'
 import { CdnUrlBuilder } from '@shared/cloudflare/infrastructure'
@@ -148,12 +154,19 @@ export class OrderReadRepository implements IOrderReadRepository {
         paid_at: true,
         delivered_at: true,
         cancelled_at: true,
+        refunded_at: true,
         snap_first_name: true,
         snap_last_name: true,
         snap_phone: true,
         snap_email: true,
+        snap_category_name: true,
+        snap_participant_name: true,
+        snap_participant_team: true,
         subtotal: true,
         snap_currency: true,
+        subtotal_before_discount: true,
+        discount_amount: true,
+        snap_coupon_code: true,
         user: { select: { first_name: true, last_name: true } },
         event: { select: { name: true } },
         preview_link: { select: { token: true } },
@@ -172,6 +185,19 @@ export class OrderReadRepository implements IOrderReadRepository {
         delivery_link: {
           select: { token: true, status: true, expires_at: true, download_count: true },
         },
+        refunds: {
+          orderBy: { created_at: 'asc' },
+          select: {
+            id: true,
+            kind: true,
+            amount: true,
+            currency: true,
+            reason: true,
+            photo_ids: true,
+            created_at: true,
+            refunded_by: { select: { first_name: true, last_name: true } },
+          },
+        },
       },
     })
 
@@ -186,14 +212,24 @@ export class OrderReadRepository implements IOrderReadRepository {
       paidAt: record.paid_at,
       deliveredAt: record.delivered_at,
       cancelledAt: record.cancelled_at,
+      refundedAt: record.refunded_at,
       userName: [record.user.first_name, record.user.last_name].filter(Boolean).join(' '),
       snapFirstName: record.snap_first_name,
       snapLastName: record.snap_last_name,
       snapWhatsapp: record.snap_phone,
       snapEmail: record.snap_email,
+      snapCategoryName: record.snap_category_name,
+      snapParticipantName: record.snap_participant_name,
+      snapParticipantTeam: record.snap_participant_team,
       eventName: record.event.name,
       subtotal: record.subtotal !== null ? record.subtotal.toString() : null,
       snapCurrency: record.snap_currency,
+      subtotalBeforeDiscount:
+        record.subtotal_before_discount !== null
+          ? record.subtotal_before_discount.toString()
+          : null,
+      discountAmount: record.discount_amount !== null ? record.discount_amount.toString() : null,
+      couponCode: record.snap_coupon_code,
       previewLinkToken: record.preview_link?.token ?? null,
       retouchProgress: {
         total: record.items.length,
@@ -214,6 +250,18 @@ export class OrderReadRepository implements IOrderReadRepository {
             downloadCount: record.delivery_link.download_count,
           }
         : null,
+      refunds: record.refunds.map((r) => ({
+        id: r.id,
+        kind: r.kind,
+        amount: r.amount.toString(),
+        currency: r.currency,
+        reason: r.reason,
+        photoIds: r.photo_ids,
+        refundedByName: [r.refunded_by.first_name, r.refunded_by.last_name]
+          .filter(Boolean)
+          .join(' '),
+        createdAt: r.created_at,
+      })),
     }
   }
 
@@ -227,16 +275,46 @@ export class OrderReadRepository implements IOrderReadRepository {
     return Object.fromEntries(groups.map((g) => [g.status, g._count.id]))
   }
 
-  /** Sums subtotal of paid + delivered orders, optionally scoped to a single event. */
-  async sumRevenue(eventId?: string): Promise<string> {
-    const result = await this.prisma.order.aggregate({
-      _sum: { subtotal: true },
-      where: {
-        status: { in: [OrderStatus.PAID, OrderStatus.DELIVERED] },
-        ...(eventId ? { event_id: eventId } : {}),
-      },
-    })
-    return (result._sum.subtotal ?? 0).toString()
+  /**
+   * Sums subtotal of paid + delivered orders per order currency, optionally scoped to
+   * a single event. Net of refunds: partial refunds lower the subtotal and refunded
+   * orders are excluded. The base amount uses each order's snapshotted rate; orders
+   * snapshotted against another base (or without a rate) are counted as unconverted.
+   */
+  async sumRevenue(baseCurrency: string, eventId?: string): Promise<CurrencyAmount[]> {
+    const rows = await this.prisma.$queryRaw<CurrencyAmountRow[]>`
+      SELECT o.snap_currency AS currency,
+        COALESCE(SUM(o.subtotal), 0)::text AS amount,
+        COALESCE(ROUND(SUM(o.subtotal * o.snap_fx_rate)
+          FILTER (WHERE o.snap_base_currency = ${baseCurrency}), 2), 0)::text AS base_amount,
+        COUNT(*) FILTER (
+          WHERE o.snap_fx_rate IS NULL OR o.snap_base_currency IS DISTINCT FROM ${baseCurrency}
+        )::int AS unconverted
+      FROM orders o
+      WHERE o.status IN ('paid', 'delivered') ${eventFilter(eventId)}
+      GROUP BY o.snap_currency
+      ORDER BY o.snap_currency
+    `
+    return rows.map(toCurrencyAmount)
+  }
+
+  /** Sums every refund recorded per currency, converted with the refunded order's rate. */
+  async sumRefunds(baseCurrency: string, eventId?: string): Promise<CurrencyAmount[]> {
+    const rows = await this.prisma.$queryRaw<CurrencyAmountRow[]>`
+      SELECT COALESCE(r.currency, o.snap_currency) AS currency,
+        COALESCE(SUM(r.amount), 0)::text AS amount,
+        COALESCE(ROUND(SUM(r.amount * o.snap_fx_rate)
+          FILTER (WHERE o.snap_base_currency = ${baseCurrency}), 2), 0)::text AS base_amount,
+        COUNT(*) FILTER (
+          WHERE o.snap_fx_rate IS NULL OR o.snap_base_currency IS DISTINCT FROM ${baseCurrency}
+        )::int AS unconverted
+      FROM order_refunds r
+      JOIN orders o ON o.id = r.order_id
+      WHERE TRUE ${eventFilter(eventId)}
+      GROUP BY 1
+      ORDER BY 1
+    `
+    return rows.map(toCurrencyAmount)
   }
 
   /** Checks if an order already exists for a preview link. */
@@ -256,6 +334,17 @@ export class OrderReadRepository implements IOrderReadRepository {
     return photos.map((p) => p.photo_id)
   }
 
+  /** Gets the photos currently in an order with their snapshotted unit price. */
+  async getItemUnitPrices(orderId: string): Promise<Map<string, number | null>> {
+    const items = await this.prisma.orderItem.findMany({
+      where: { order_id: orderId },
+      select: { photo_id: true, unit_price: true },
+    })
+    return new Map(
+      items.map((i) => [i.photo_id, i.unit_price != null ? Number(i.unit_price) : null]),
+    )
+  }
+
   /** Returns paid orders with at least one un-retouched photo, ordered FIFO. */
   async getPendingRetouch(): Promise<PendingRetouchOrderProjection[]> {
     const orders = await this.prisma.order.findMany({
@@ -297,14 +386,37 @@ export class OrderReadRepository implements IOrderReadRepository {
       }))
   }
 
-  /** Finds orders containing this photo where ALL items are now retouched. */
+  /**
+   * Finds orders containing this photo where ALL items are now retouched and no
+   * customer retouch request is left for an operator.
+   */
+  async isRetouchClaimedByOther(photoId: string, userId: string, now: Date): Promise<boolean> {
+    const held = await this.prisma.orderItem.count({
+      where: {
+        photo_id: photoId,
+        retouch_claimed_by_id: { not: userId },
+        retouch_claim_expires_at: { gt: now },
+      },
+    })
+    return held > 0
+  }
+
   async findOrdersFullyRetouchedByPhoto(
     photoId: string,
   ): Promise<RetouchCompletedOrderProjection[]> {
     const orders = await this.prisma.order.findMany({
       where: {
         items: { some: { photo_id: photoId } },
-        NOT: { items: { some: { photo: { retouched_at: null, requires_retouch: true } } } },
+        NOT: {
+          items: {
+            some: {
+              OR: [
+                { photo: { retouched_at: null, requires_retouch: true } },
+                { retouch_request: { status: { in: [...OPEN_RETOUCH_REQUEST_STATUSES] } } },
+              ],
+            },
+          },
+        },
       },
       select: {
         id: true,
@@ -318,4 +430,100 @@ export class OrderReadRepository implements IOrderReadRepository {
 
     return orders.map(OrderMapper.toRetouchCompletedProjection)
   }
+
+  /**
+   * Photo ids of the event whose effective (latest-correction) bib digits equal
+   * `bibNumber`. Soft-deleted bibs and unaccepted burst suggestions are skipped, same
+   * rule as the gallery bib filter.
+   */
+  async findPhotoIdsByBib(eventId: string, bibNumber: string): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ photo_id: string }>>`
+      SELECT DISTINCT pb.photo_id
+      FROM photo_bibs pb
+      JOIN photos p ON p.id = pb.photo_id AND p.event_id = ${eventId}::uuid
+      LEFT JOIN LATERAL (
+        SELECT new_value AS corrected_value, TRUE AS has_correction
+        FROM corrections
+        WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) latest ON TRUE
+      WHERE pb.deleted_at IS NULL
+        AND pb.source <> 'burst'
+        AND (CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pb.digits END)
+          = ${bibNumber}
+    `
+    return rows.map((r) => r.photo_id)
+  }
+
+  /** Checks whether the user already holds a non-cancelled, non-refunded bib package for the bib. */
+  async existsActiveBibPackage(
+    userId: string,
+    eventId: string,
+    bibNumber: string,
+  ): Promise<boolean> {
+    const count = await this.prisma.order.count({
+      where: {
+        user_id: userId,
+        event_id: eventId,
+        bib_number: bibNumber,
+        is_bib_package: true,
+        status: { notIn: [OrderStatus.CANCELLED, OrderStatus.REFUNDED] },
+      },
+    })
+    return count > 0
+  }
+
+  /**
+   * Non-cancelled, non-refunded bib package orders of the photo's event whose bib matches one of
+   * the photo's effective bibs and that do not contain the photo yet. Unaccepted burst
+   * suggestions do not count as bibs of the photo.
+   */
+  async findBibPackageOrdersForPhoto(photoId: string): Promise<BibPackageOrderMatch[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ order_id: string; status: string }>>`
+        SELECT o.id AS order_id, o.status::text AS status
+        FROM orders o
+        JOIN photos p ON p.id = ${photoId}::uuid AND p.event_id = o.event_id
+        WHERE o.is_bib_package
+          AND o.status NOT IN ('cancelled', 'refunded')
+          AND NOT EXISTS (
+            SELECT 1 FROM order_items oi WHERE oi.order_id = o.id AND oi.photo_id = p.id
+          )
+          AND EXISTS (
+            SELECT 1
+            FROM photo_bibs pb
+            LEFT JOIN LATERAL (
+              SELECT new_value AS corrected_value, TRUE AS has_correction
+              FROM corrections
+              WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+              ORDER BY corrected_at DESC LIMIT 1
+            ) latest ON TRUE
+            WHERE pb.photo_id = p.id
+              AND pb.deleted_at IS NULL
+              AND pb.source <> 'burst'
+              AND (CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pb.digits END)
+                = o.bib_number
+          )
+    `
+    return rows.map((r) => ({ orderId: r.order_id, status: r.status }))
+  }
+}
+
+type CurrencyAmountRow = {
+  currency: string | null
+  amount: string
+  base_amount: string
+  unconverted: number
+}
+
+function toCurrencyAmount(row: CurrencyAmountRow): CurrencyAmount {
+  return {
+    currency: row.currency,
+    amount: row.amount,
+    baseAmount: row.base_amount,
+    unconverted: row.unconverted,
+  }
+}
+
+function eventFilter(eventId?: string): Prisma.Sql {
+  return eventId ? Prisma.sql`AND o.event_id = ${eventId}::uuid` : Prisma.empty
 }
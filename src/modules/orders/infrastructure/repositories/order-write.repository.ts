@@ -1,8 +1,12 @@
 import { Injectable } from '@nestjs/common'
-import type { Order } from '@orders/domain/entities'
-import type { IOrderWriteRepository, OrderSnapData } from '@orders/domain/ports'
+import type { Order, OrderRefund, PaymentReceipt } from '@orders/domain/entities'
+import type { IOrderWriteRepository, OrderPlacement, OrderSnapData } from '@orders/domain/ports'
+import type { CouponRedemption } from '@pricing/domain/value-objects'
+import { liveRedemptionWhere } from '@pricing/infrastructure/mappers/coupon.mapper'
 import { PrismaService } from '@shared/infrastructure'
 import * as OrderMapper from '../mappers/order.mapper'
+import * as OrderRefundMapper from '../mappers/order-refund.mapper'
+import * as PaymentReceiptMapper from '../mappers/payment-receipt.mapper'
 
 @Injectable()
 export class OrderWriteRepository implements IOrderWriteRepository {
@@ -27,28 +31,8 @@ export class OrderWriteRepository implements IOrderWriteRepository {
 
     const saved = await this.prisma.order.upsert({
       where: { id: order.id },
-      create: {
-        ...data,
-        snap_first_name: snap.snapFirstName,
-        snap_last_name: snap.snapLastName,
-        snap_email: snap.snapEmail,
-        snap_phone: snap.snapPhone,
-        snap_country_id: snap.snapCountryId,
-        snap_province_id: snap.snapProvinceId,
-        snap_canton_id: snap.snapCantonId,
-        snap_category_name: snap.snapCategoryName,
-      },
-      update: {
-        ...data,
-        snap_first_name: snap.snapFirstName,
-        snap_last_name: snap.snapLastName,
-        snap_email: snap.snapEmail,
-        snap_phone: snap.snapPhone,
-        snap_country_id: snap.snapCountryId,
-        snap_province_id: snap.snapProvinceId,
-        snap_canton_id: snap.snapCantonId,
-        snap_category_name: snap.snapCategoryName,
-      },
+      create: { ...data, ...snapColumns(snap) },
+      update: { ...data, ...snapColumns(snap) },
     })
 
     return OrderMapper.toEntity(saved)
@@ -69,6 +53,52 @@ export class OrderWriteRepository implements IOrderWriteRepository {
     })
   }
 
+  /** Creates the orders, their photos and the coupon redemption they reference, atomically. */
+  async placeOrders(
+    placements: OrderPlacement[],
+    redemption: CouponRedemption | null,
+  ): Promise<Order[]> {
+    return this.prisma.$transaction(async (tx) => {
+      if (redemption) {
+        const { coupon, userId } = redemption
+        await tx.$queryRaw`SELECT id FROM coupons WHERE id = ${coupon.id}::uuid FOR UPDATE`
+
+        const [total, customerUses] = await Promise.all([
+          tx.couponRedemption.count({ where: liveRedemptionWhere(coupon.id) }),
+          tx.couponRedemption.count({ where: liveRedemptionWhere(coupon.id, userId) }),
+        ])
+        coupon.assertWithinLimits(total, customerUses)
+
+        await tx.couponRedemption.create({
+          data: {
+            id: redemption.id,
+            coupon_id: coupon.id,
+            user_id: userId,
+            discount_amount: redemption.discountAmount,
+          },
+        })
+      }
+
+      const placed: Order[] = []
+      for (const { order, snap, items } of placements) {
+        const data = OrderMapper.toPersistence(order)
+        const saved = await tx.order.create({
+          data: snap ? { ...data, ...snapColumns(snap) } : data,
+        })
+        await tx.orderItem.createMany({
+          data: items.map((i) => ({
+            order_id: order.id,
+            photo_id: i.photoId,
+            unit_price: i.unitPrice,
+          })),
+          skipDuplicates: true,
+        })
+        placed.push(OrderMapper.toEntity(saved))
+      }
+      return placed
+    })
+  }
+
   /** Sets delivered_as on each order item based on photo retouched status. */
   async updateItemsDeliveredAs(orderId: string): Promise<void> {
     const items = await this.prisma.orderItem.findMany({
@@ -87,4 +117,43 @@ export class OrderWriteRepository implements IOrderWriteRepository {
       ),
     )
   }
+
+  /** Saves the order, removes the refunded photos from it and records the refund, atomically. */
+  async saveRefund(order: Order, refund: OrderRefund): Promise<void> {
+    const data = OrderMapper.toPersistence(order)
+
+    await this.prisma.$transaction([
+      this.prisma.order.update({ where: { id: order.id }, data }),
+      this.prisma.orderItem.deleteMany({
+        where: { order_id: order.id, photo_id: { in: refund.photoIds } },
+      }),
+      this.prisma.orderRefund.create({ data: OrderRefundMapper.toPersistence(refund) }),
+    ])
+  }
+
+  /** Saves the paid order and the receipt that proved the payment, atomically. */
+  async saveWithReceipt(order: Order, receipt: PaymentReceipt): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.order.update({ where: { id: order.id }, data: OrderMapper.toPersistence(order) }),
+      this.prisma.paymentReceipt.update({
+        where: { id: receipt.id },
+        data: PaymentReceiptMapper.toPersistence(receipt),
+      }),
+    ])
+  }
+}
+
+function snapColumns(snap: OrderSnapData) {
+  return {
+    snap_first_name: snap.snapFirstName,
+    snap_last_name: snap.snapLastName,
+    snap_email: snap.snapEmail,
+    snap_phone: snap.snapPhone,
+    snap_country_id: snap.snapCountryId,
+    snap_province_id: snap.snapProvinceId,
+    snap_canton_id: snap.snapCantonId,
+    snap_category_name: snap.snapCategoryName,
+    snap_participant_name: snap.snapParticipantName,
+    snap_participant_team: snap.snapParticipantTeam,
+  }
 }
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common'
+import type { PaymentAttemptProjection } from '@orders/application/projections'
+import type { PaymentAttempt } from '@orders/domain/entities'
+import type { IPaymentAttemptReadRepository } from '@orders/domain/ports'
+import { PaymentAttemptStatus } from '@orders/domain/value-objects/payment-attempt-status.vo'
+import { PrismaService } from '@shared/infrastructure'
+import * as PaymentAttemptMapper from '../mappers/payment-attempt.mapper'
+
+@Injectable()
+export class PaymentAttemptReadRepository implements IPaymentAttemptReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findByProviderSession(
+    provider: string,
+    providerSessionId: string,
+  ): Promise<PaymentAttempt | null> {
+    const record = await this.prisma.paymentAttempt.findUnique({
+      where: {
+        provider_provider_session_id: { provider, provider_session_id: providerSessionId },
+      },
+    })
+    return record ? PaymentAttemptMapper.toEntity(record) : null
+  }
+
+  async findByIdempotencyKey(idempotencyKey: string): Promise<PaymentAttempt | null> {
+    const record = await this.prisma.paymentAttempt.findUnique({
+      where: { idempotency_key: idempotencyKey },
+    })
+    return record ? PaymentAttemptMapper.toEntity(record) : null
+  }
+
+  async findLatestCreated(orderId: string): Promise<PaymentAttempt | null> {
+    const record = await this.prisma.paymentAttempt.findFirst({
+      where: { order_id: orderId, status: PaymentAttemptStatus.CREATED },
+      orderBy: { created_at: 'desc' },
+    })
+    return record ? PaymentAttemptMapper.toEntity(record) : null
+  }
+
+  async countByOrderId(orderId: string): Promise<number> {
+    return this.prisma.paymentAttempt.count({ where: { order_id: orderId } })
+  }
+
+  async hasWebhookEvent(provider: string, eventId: string): Promise<boolean> {
+    const record = await this.prisma.paymentWebhookEvent.findUnique({
+      where: { provider_provider_event_id: { provider, provider_event_id: eventId } },
+      select: { id: true },
+    })
+    return record !== null
+  }
+
+  async getListByOrderId(orderId: string): Promise<PaymentAttemptProjection[]> {
+    const records = await this.prisma.paymentAttempt.findMany({
+      where: { order_id: orderId },
+      orderBy: { created_at: 'desc' },
+      include: { _count: { select: { webhook_events: true } } },
+    })
+    return records.map(PaymentAttemptMapper.toProjection)
+  }
+}
@@ -0,0 +1,59 @@
+import type { Prisma } from '@generated/prisma/client'
+import { Injectable } from '@nestjs/common'
+import type { PaymentAttempt } from '@orders/domain/entities'
+import type { IPaymentAttemptWriteRepository, PaymentWebhookEvent } from '@orders/domain/ports'
+import type { PaymentAttemptStatusType } from '@orders/domain/value-objects/payment-attempt-status.vo'
+import { PrismaService } from '@shared/infrastructure'
+import * as PaymentAttemptMapper from '../mappers/payment-attempt.mapper'
+
+@Injectable()
+export class PaymentAttemptWriteRepository implements IPaymentAttemptWriteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Inserts the attempt; a concurrent request with the same idempotency key gets the stored row. */
+  async create(attempt: PaymentAttempt): Promise<PaymentAttempt> {
+    const saved = await this.prisma.paymentAttempt.upsert({
+      where: { idempotency_key: attempt.idempotencyKey },
+      create: PaymentAttemptMapper.toPersistence(attempt),
+      update: {},
+    })
+    return PaymentAttemptMapper.toEntity(saved)
+  }
+
+  /** Compare-and-set on status so two webhooks cannot both move the same attempt. */
+  async saveTransition(
+    attempt: PaymentAttempt,
+    expectedStatus: PaymentAttemptStatusType,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.paymentAttempt.updateMany({
+      where: { id: attempt.id, status: expectedStatus },
+      data: {
+        status: attempt.status,
+        failure_reason: attempt.failureReason,
+        completed_at: attempt.completedAt,
+      },
+    })
+    return count === 1
+  }
+
+  /** Insert-or-skip on (provider, provider_event_id). */
+  async recordWebhookEvent(
+    provider: string,
+    event: PaymentWebhookEvent,
+    paymentAttemptId: string | null,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.paymentWebhookEvent.createMany({
+      data: [
+        {
+          provider,
+          provider_event_id: event.eventId,
+          type: event.type,
+          payment_attempt_id: paymentAttemptId,
+          payload: event.payload as Prisma.InputJsonValue,
+        },
+      ],
+      skipDuplicates: true,
+    })
+    return count === 1
+  }
+}
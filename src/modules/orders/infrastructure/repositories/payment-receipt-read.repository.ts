@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common'
+import type { PaymentReceipt } from '@orders/domain/entities'
+import type {
+  IPaymentReceiptReadRepository,
+  PaymentReceiptQueueRow,
+  PaymentReceiptRow,
+} from '@orders/domain/ports'
+import { PaymentReceiptStatus } from '@orders/domain/value-objects/payment-receipt-status.vo'
+import { PaginatedResult, type Pagination } from '@shared/application'
+import { PrismaService } from '@shared/infrastructure'
+import * as PaymentReceiptMapper from '../mappers/payment-receipt.mapper'
+
+@Injectable()
+export class PaymentReceiptReadRepository implements IPaymentReceiptReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findById(id: string): Promise<PaymentReceipt | null> {
+    const record = await this.prisma.paymentReceipt.findUnique({ where: { id } })
+    return record ? PaymentReceiptMapper.toEntity(record) : null
+  }
+
+  async getListByOrderId(orderId: string): Promise<PaymentReceiptRow[]> {
+    const records = await this.prisma.paymentReceipt.findMany({
+      where: { order_id: orderId },
+      orderBy: { submitted_at: 'desc' },
+    })
+    return records.map(PaymentReceiptMapper.toRow)
+  }
+
+  async getPendingQueue(pagination: Pagination): Promise<PaginatedResult<PaymentReceiptQueueRow>> {
+    const where = { status: PaymentReceiptStatus.PENDING }
+
+    const [records, total] = await Promise.all([
+      this.prisma.paymentReceipt.findMany({
+        where,
+        include: {
+          order: {
+            select: {
+              status: true,
+              subtotal: true,
+              snap_currency: true,
+              snap_first_name: true,
+              snap_last_name: true,
+              snap_phone: true,
+              event: { select: { name: true } },
+            },
+          },
+        },
+        orderBy: { submitted_at: 'asc' },
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      this.prisma.paymentReceipt.count({ where }),
+    ])
+
+    return new PaginatedResult(
+      records.map((r) => ({
+        receiptId: r.id,
+        orderId: r.order_id,
+        orderStatus: r.order.status,
+        subtotal: r.order.subtotal !== null ? Number(r.order.subtotal) : null,
+        currency: r.order.snap_currency,
+        eventName: r.order.event.name,
+        customerName: [r.order.snap_first_name, r.order.snap_last_name].filter(Boolean).join(' '),
+        snapWhatsapp: r.order.snap_phone,
+        storageKey: r.storage_key,
+        mimeType: r.mime_type,
+        submittedAt: r.submitted_at,
+      })),
+      total,
+      pagination,
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common'
+import type { PaymentReceipt } from '@orders/domain/entities'
+import type { IPaymentReceiptWriteRepository } from '@orders/domain/ports'
+import { PaymentReceiptStatus } from '@orders/domain/value-objects/payment-receipt-status.vo'
+import { PrismaService } from '@shared/infrastructure'
+import * as PaymentReceiptMapper from '../mappers/payment-receipt.mapper'
+
+@Injectable()
+export class PaymentReceiptWriteRepository implements IPaymentReceiptWriteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Persists a payment receipt entity (create or update). */
+  async save(receipt: PaymentReceipt): Promise<PaymentReceipt> {
+    const data = PaymentReceiptMapper.toPersistence(receipt)
+
+    const saved = await this.prisma.paymentReceipt.upsert({
+      where: { id: receipt.id },
+      create: data,
+      update: data,
+    })
+
+    return PaymentReceiptMapper.toEntity(saved)
+  }
+
+  /** Marks the order's pending receipts as superseded and saves the new one, atomically. */
+  async saveReplacingPending(receipt: PaymentReceipt): Promise<PaymentReceipt> {
+    const [, saved] = await this.prisma.$transaction([
+      this.prisma.paymentReceipt.updateMany({
+        where: { order_id: receipt.orderId, status: PaymentReceiptStatus.PENDING },
+        data: { status: PaymentReceiptStatus.SUPERSEDED },
+      }),
+      this.prisma.paymentReceipt.create({ data: PaymentReceiptMapper.toPersistence(receipt) }),
+    ])
+
+    return PaymentReceiptMapper.toEntity(saved)
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common'
+import type { Order, RetouchRequest } from '@orders/domain/entities'
+import type { IRetouchRequestRepository, RetouchRequestRow } from '@orders/domain/ports'
+import {
+  OPEN_RETOUCH_REQUEST_STATUSES,
+  RetouchRequestStatus,
+} from '@orders/domain/value-objects/retouch-request-status.vo'
+import { PrismaService } from '@shared/infrastructure'
+import * as OrderMapper from '../mappers/order.mapper'
+import * as RetouchRequestMapper from '../mappers/retouch-request.mapper'
+
+const ORDER_ITEM_SELECT = { order_item: { select: { order_id: true, photo_id: true } } } as const
+
+@Injectable()
+export class RetouchRequestRepository implements IRetouchRequestRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findOrderItemId(orderId: string, photoId: string): Promise<string | null> {
+    const item = await this.prisma.orderItem.findUnique({
+      where: { order_id_photo_id: { order_id: orderId, photo_id: photoId } },
+      select: { id: true },
+    })
+    return item?.id ?? null
+  }
+
+  async findByOrderItem(orderId: string, photoId: string): Promise<RetouchRequest | null> {
+    const record = await this.prisma.orderItemRetouchRequest.findFirst({
+      where: { order_item: { order_id: orderId, photo_id: photoId } },
+      include: ORDER_ITEM_SELECT,
+    })
+    return record ? RetouchRequestMapper.toEntity(record) : null
+  }
+
+  async findOpenByPhoto(photoId: string): Promise<RetouchRequest[]> {
+    const records = await this.prisma.orderItemRetouchRequest.findMany({
+      where: {
+        status: { in: [...OPEN_RETOUCH_REQUEST_STATUSES] },
+        order_item: { photo_id: photoId, order: { status: 'paid' } },
+      },
+      include: ORDER_ITEM_SELECT,
+    })
+    return records.map(RetouchRequestMapper.toEntity)
+  }
+
+  async findPricesByOrder(orderId: string): Promise<Map<string, number>> {
+    const records = await this.prisma.orderItemRetouchRequest.findMany({
+      where: { order_item: { order_id: orderId }, price: { not: null } },
+      select: { price: true, order_item: { select: { photo_id: true } } },
+    })
+    return new Map(records.map((r) => [r.order_item.photo_id, Number(r.price)]))
+  }
+
+  async countUnapproved(orderId: string): Promise<number> {
+    return this.prisma.orderItemRetouchRequest.count({
+      where: {
+        order_item: { order_id: orderId },
+        status: { not: RetouchRequestStatus.APPROVED },
+      },
+    })
+  }
+
+  async listByOrder(orderId: string): Promise<RetouchRequestRow[]> {
+    const records = await this.prisma.orderItemRetouchRequest.findMany({
+      where: { order_item: { order_id: orderId } },
+      orderBy: { order_item: { photo_id: 'asc' } },
+      include: { ...ORDER_ITEM_SELECT, retouch_revision: { select: { storage_key: true } } },
+    })
+    return records.map(RetouchRequestMapper.toRow)
+  }
+
+  async save(request: RetouchRequest): Promise<void> {
+    const data = RetouchRequestMapper.toPersistence(request)
+    await this.prisma.orderItemRetouchRequest.upsert({
+      where: { id: request.id },
+      create: data,
+      update: data,
+    })
+  }
+
+  async saveWithOrder(request: RetouchRequest, order: Order): Promise<void> {
+    const data = OrderMapper.toPersistence(order)
+    await this.prisma.$transaction([
+      this.prisma.orderItemRetouchRequest.create({
+        data: RetouchRequestMapper.toPersistence(request),
+      }),
+      this.prisma.order.update({ where: { id: order.id }, data }),
+    ])
+  }
+}
@@ -3,37 +3,96 @@ import { DeliveriesModule } from '@deliveries/deliveries.module'
 import { EventsModule } from '@events/events.module'
 import { forwardRef, Module } from '@nestjs/common'
 import { CqrsModule } from '@nestjs/cqrs'
+import { ApprovePaymentReceiptHandler } from '@orders/application/commands/approve-payment-receipt/approve-payment-receipt.handler'
+import { ApprovePhotoRetouchHandler } from '@orders/application/commands/approve-photo-retouch/approve-photo-retouch.handler'
+import { AttachPhotoToBibPackagesHandler } from '@orders/application/commands/attach-photo-to-bib-packages/attach-photo-to-bib-packages.handler'
 import { CancelOrderHandler } from '@orders/application/commands/cancel-order/cancel-order.handler'
 import { ConfirmOrderPaymentHandler } from '@orders/application/commands/confirm-order-payment/confirm-order-payment.handler'
+import { CreateBibPackageOrderHandler } from '@orders/application/commands/create-bib-package-order/create-bib-package-order.handler'
+import { CreateCheckoutSessionHandler } from '@orders/application/commands/create-checkout-session/create-checkout-session.handler'
 import { CreateOrderFromGalleryHandler } from '@orders/application/commands/create-order-from-gallery/create-order-from-gallery.handler'
 import { CreateOrderFromPreviewHandler } from '@orders/application/commands/create-order-from-preview/create-order-from-preview.handler'
+import { GenerateReceiptUploadUrlHandler } from '@orders/application/commands/generate-receipt-upload-url/generate-receipt-upload-url.handler'
 import { GiftOrderHandler } from '@orders/application/commands/gift-order/gift-order.handler'
+import { HandlePaymentWebhookHandler } from '@orders/application/commands/handle-payment-webhook/handle-payment-webhook.handler'
 import { NotifyPaymentInfoHandler } from '@orders/application/commands/notify-payment-info/notify-payment-info.handler'
+import { RefundOrderHandler } from '@orders/application/commands/refund-order/refund-order.handler'
+import { RefundOrderItemsHandler } from '@orders/application/commands/refund-order-items/refund-order-items.handler'
 import { RegenerateDeliveryHandler } from '@orders/application/commands/regenerate-delivery/regenerate-delivery.handler'
+import { RejectPaymentReceiptHandler } from '@orders/application/commands/reject-payment-receipt/reject-payment-receipt.handler'
+import { RequestPhotoRetouchHandler } from '@orders/application/commands/request-photo-retouch/request-photo-retouch.handler'
+import { RequestRetouchRevisionHandler } from '@orders/application/commands/request-retouch-revision/request-retouch-revision.handler'
 import { SendDeliveryHandler } from '@orders/application/commands/send-delivery/send-delivery.handler'
+import { SubmitPaymentReceiptHandler } from '@orders/application/commands/submit-payment-receipt/submit-payment-receipt.handler'
 import { GetOrderDetailHandler } from '@orders/application/queries/get-order-detail/get-order-detail.handler'
+import { GetOrderPaymentAttemptsHandler } from '@orders/application/queries/get-order-payment-attempts/get-order-payment-attempts.handler'
+import { GetOrderPaymentReceiptsHandler } from '@orders/application/queries/get-order-payment-receipts/get-order-payment-receipts.handler'
+import { GetOrderRetouchRequestsHandler } from '@orders/application/queries/get-order-retouch-requests/get-order-retouch-requests.handler'
 import { GetOrdersListHandler } from '@orders/application/queries/get-orders-list/get-orders-list.handler'
 import { GetOrdersStatsHandler } from '@orders/application/queries/get-orders-stats/get-orders-stats.handler'
-import { ORDER_READ_REPOSITORY, ORDER_WRITE_REPOSITORY } from '@orders/domain/ports'
+import { GetPaymentReceiptQueueHandler } from '@orders/application/queries/get-payment-receipt-queue/get-payment-receipt-queue.handler'
+import {
+  ORDER_READ_REPOSITORY,
+  ORDER_WRITE_REPOSITORY,
+  PAYMENT_ATTEMPT_READ_REPOSITORY,
+  PAYMENT_ATTEMPT_WRITE_REPOSITORY,
+  PAYMENT_GATEWAY,
+  PAYMENT_RECEIPT_READ_REPOSITORY,
+  PAYMENT_RECEIPT_WRITE_REPOSITORY,
+  RETOUCH_REQUEST_REPOSITORY,
+} from '@orders/domain/ports'
+import { FakePaymentGatewayAdapter } from '@orders/infrastructure/adapters'
 import { OrderReadRepository } from '@orders/infrastructure/repositories/order-read.repository'
 import { OrderWriteRepository } from '@orders/infrastructure/repositories/order-write.repository'
+import { PaymentAttemptReadRepository } from '@orders/infrastructure/repositories/payment-attempt-read.repository'
+import { PaymentAttemptWriteRepository } from '@orders/infrastructure/repositories/payment-attempt-write.repository'
+import { PaymentReceiptReadRepository } from '@orders/infrastructure/repositories/payment-receipt-read.repository'
+import { PaymentReceiptWriteRepository } from '@orders/infrastructure/repositories/payment-receipt-write.repository'
+import { RetouchRequestRepository } from '@orders/infrastructure/repositories/retouch-request.repository'
 import { OrderGalleryController } from '@orders/presentation/controllers/order-gallery.controller'
+import { OrderPaymentsController } from '@orders/presentation/controllers/order-payments.controller'
 import { OrderPublicController } from '@orders/presentation/controllers/order-public.controller'
+import { OrderRetouchRequestsController } from '@orders/presentation/controllers/order-retouch-requests.controller'
 import { OrdersController } from '@orders/presentation/controllers/orders.controller'
+import { PaymentReceiptsController } from '@orders/presentation/controllers/payment-receipts.controller'
+import { PaymentWebhookController } from '@orders/presentation/controllers/payment-webhook.controller'
+import { ParticipantsModule } from '@participants/participants.module'
 import { PhotosModule } from '@photos/photos.module'
 import { PreviewsModule } from '@previews/previews.module'
+import { PricingModule } from '@pricing/pricing.module'
 
 const CommandHandlers = [
   CreateOrderFromPreviewHandler,
   CreateOrderFromGalleryHandler,
+  CreateBibPackageOrderHandler,
+  AttachPhotoToBibPackagesHandler,
   ConfirmOrderPaymentHandler,
   GiftOrderHandler,
   NotifyPaymentInfoHandler,
   CancelOrderHandler,
+  RefundOrderHandler,
+  RefundOrderItemsHandler,
   RegenerateDeliveryHandler,
   SendDeliveryHandler,
+  CreateCheckoutSessionHandler,
+  HandlePaymentWebhookHandler,
+  GenerateReceiptUploadUrlHandler,
+  SubmitPaymentReceiptHandler,
+  ApprovePaymentReceiptHandler,
+  RejectPaymentReceiptHandler,
+  RequestPhotoRetouchHandler,
+  ApprovePhotoRetouchHandler,
+  RequestRetouchRevisionHandler,
+]
+const QueryHandlers = [
+  GetOrdersListHandler,
+  GetOrderDetailHandler,
+  GetOrdersStatsHandler,
+  GetOrderPaymentAttemptsHandler,
+  GetOrderPaymentReceiptsHandler,
+  GetPaymentReceiptQueueHandler,
+  GetOrderRetouchRequestsHandler,
 ]
-const QueryHandlers = [GetOrdersListHandler, GetOrderDetailHandler, GetOrdersStatsHandler]
 
 @Module({
   imports: [
@@ -43,14 +102,30 @@ const QueryHandlers = [GetOrdersListHandler, GetOrderDetailHandler, GetOrdersSta
     forwardRef(() => EventsModule),
     forwardRef(() => PhotosModule),
     forwardRef(() => AuthModule),
+    PricingModule,
+    ParticipantsModule,
+  ],
+  controllers: [
+    OrdersController,
+    OrderPublicController,
+    OrderGalleryController,
+    OrderPaymentsController,
+    OrderRetouchRequestsController,
+    PaymentWebhookController,
+    PaymentReceiptsController,
   ],
-  controllers: [OrdersController, OrderPublicController, OrderGalleryController],
   providers: [
     ...CommandHandlers,
     ...QueryHandlers,
     { provide: ORDER_READ_REPOSITORY, useClass: OrderReadRepository },
     { provide: ORDER_WRITE_REPOSITORY, useClass: OrderWriteRepository },
+    { provide: PAYMENT_ATTEMPT_READ_REPOSITORY, useClass: PaymentAttemptReadRepository },
+    { provide: PAYMENT_ATTEMPT_WRITE_REPOSITORY, useClass: PaymentAttemptWriteRepository },
+    { provide: PAYMENT_RECEIPT_READ_REPOSITORY, useClass: PaymentReceiptReadRepository },
+    { provide: PAYMENT_RECEIPT_WRITE_REPOSITORY, useClass: PaymentReceiptWriteRepository },
+    { provide: RETOUCH_REQUEST_REPOSITORY, useClass: RetouchRequestRepository },
+    { provide: PAYMENT_GATEWAY, useClass: FakePaymentGatewayAdapter },
   ],
-  exports: [ORDER_READ_REPOSITORY, ORDER_WRITE_REPOSITORY],
+  exports: [ORDER_READ_REPOSITORY, ORDER_WRITE_REPOSITORY, RETOUCH_REQUEST_REPOSITORY],
 })
 export class OrdersModule {}
@@ -2,6 +2,8 @@ import { Body, Controller, Param, Post } from '@nestjs/common'
 import { CommandBus } from '@nestjs/cqrs'
 import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
 import {
+  CreateBibPackageOrderCommand,
+  CreateBibPackageOrderDto,
   CreateOrderFromGalleryCommand,
   CreateOrderFromGalleryDto,
 } from '@orders/application/commands'
@@ -43,4 +45,37 @@ export class OrderGalleryController {
     )
     return this.commandBus.execute(command)
   }
+
+  @Post('bib-package')
+  @Roles('customer')
+  @SuccessMessage('success.CREATED', { entity: 'entities.order' })
+  @ApiOperation({
+    summary: 'Buy all current and future photos of a bib at the event bib-package price',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Bib package order created successfully',
+    type: EntityIdProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Validation failed' })
+  @ApiEnvelopeErrorResponse({ status: 401, description: 'Authentication required' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  @ApiEnvelopeErrorResponse({
+    status: 422,
+    description: 'No bib package for the event, no photos for the bib, or already purchased',
+  })
+  async createBibPackage(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreateBibPackageOrderDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new CreateBibPackageOrderCommand(
+      eventId,
+      user.userId,
+      dto.bibNumber,
+      dto.snapCategoryName ?? null,
+    )
+    return this.commandBus.execute(command)
+  }
 }
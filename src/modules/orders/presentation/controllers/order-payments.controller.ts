@@ -0,0 +1,148 @@
+import { Body, Controller, Get, Headers, Param, Post } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiHeader, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  CreateCheckoutSessionCommand,
+  GenerateReceiptUploadUrlCommand,
+  GenerateReceiptUploadUrlDto,
+  SubmitPaymentReceiptCommand,
+  SubmitPaymentReceiptDto,
+} from '@orders/application/commands'
+import {
+  CheckoutSessionProjection,
+  PaymentAttemptProjection,
+  PaymentReceiptProjection,
+  ReceiptUploadUrlProjection,
+} from '@orders/application/projections'
+import {
+  GetOrderPaymentAttemptsQuery,
+  GetOrderPaymentReceiptsQuery,
+} from '@orders/application/queries'
+import { EntityIdProjection } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Orders (Payments)')
+@ApiBearerAuth()
+@Controller('orders/:id')
+export class OrderPaymentsController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  @Roles('customer')
+  @Post('checkout-session')
+  @SuccessMessage('success.CREATED', { entity: 'entities.checkout_session' })
+  @ApiOperation({
+    summary: 'Open (or reuse) an online checkout session to pay one of my orders',
+  })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description: 'Repeating a request with the same key returns the same checkout session',
+  })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Checkout session ready',
+    type: CheckoutSessionProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({ status: 409, description: 'Idempotency key used for another order' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Order is not pending or has no price' })
+  @ApiEnvelopeErrorResponse({ status: 502, description: 'Payment provider error' })
+  async createCheckoutSession(
+    @Param('id') id: string,
+    @Headers('idempotency-key') idempotencyKey: string | undefined,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new CreateCheckoutSessionCommand(id, user.userId, idempotencyKey || null)
+    return this.commandBus.execute(command)
+  }
+
+  @Roles('admin')
+  @Get('payment-attempts')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List the online payment attempts of an order, newest first' })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Payment attempt history',
+    type: PaymentAttemptProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  async getPaymentAttempts(@Param('id') id: string) {
+    return this.queryBus.execute(new GetOrderPaymentAttemptsQuery(id))
+  }
+
+  @Roles('customer')
+  @Post('receipt/presigned-url')
+  @SuccessMessage('success.CREATED', { entity: 'entities.presigned_url' })
+  @ApiOperation({ summary: 'Generate a presigned URL to upload a bank-transfer receipt' })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Presigned URL generated',
+    type: ReceiptUploadUrlProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Order is not pending' })
+  async generateReceiptUploadUrl(
+    @Param('id') id: string,
+    @Body() dto: GenerateReceiptUploadUrlDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new GenerateReceiptUploadUrlCommand(
+      id,
+      user.userId,
+      dto.fileName,
+      dto.contentType,
+    )
+    return this.commandBus.execute(command)
+  }
+
+  @Roles('customer')
+  @Post('receipt')
+  @SuccessMessage('success.CREATED', { entity: 'entities.payment_receipt' })
+  @ApiOperation({ summary: 'Submit an uploaded bank-transfer receipt for review' })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Receipt submitted',
+    type: EntityIdProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Order is not pending or invalid key' })
+  async submitReceipt(
+    @Param('id') id: string,
+    @Body() dto: SubmitPaymentReceiptDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new SubmitPaymentReceiptCommand(
+      id,
+      user.userId,
+      dto.storageKey,
+      dto.fileSize ? BigInt(dto.fileSize) : null,
+      dto.mimeType ?? null,
+    )
+    return this.commandBus.execute(command)
+  }
+
+  @Roles('customer')
+  @Get('payment-receipts')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List the receipts I submitted for an order, with review outcome' })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Receipt history',
+    type: PaymentReceiptProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  async getPaymentReceipts(@Param('id') id: string, @CurrentUser() user: ICurrentUser) {
+    return this.queryBus.execute(new GetOrderPaymentReceiptsQuery(id, user.userId))
+  }
+}
@@ -4,7 +4,12 @@ import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
 import {
   CreateOrderFromPreviewCommand,
   CreateOrderFromPreviewDto,
+  GenerateReceiptUploadUrlCommand,
+  GenerateReceiptUploadUrlDto,
+  SubmitPaymentReceiptCommand,
+  SubmitPaymentReceiptDto,
 } from '@orders/application/commands'
+import { ReceiptUploadUrlProjection } from '@orders/application/projections'
 import { EntityIdProjection } from '@shared/application'
 import { CurrentUser, type ICurrentUser } from '@shared/auth'
 import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
@@ -40,6 +45,66 @@ export class OrderPublicController {
       dto.notes ?? null,
       dto.bibNumber ?? null,
       dto.snapCategoryName ?? null,
+      dto.couponCode ?? null,
+    )
+    return this.commandBus.execute(command)
+  }
+
+  @Post(':orderId/receipt/presigned-url')
+  @SuccessMessage('success.CREATED', { entity: 'entities.presigned_url' })
+  @ApiOperation({ summary: 'Generate a presigned URL to upload a bank-transfer receipt' })
+  @ApiParam({ name: 'token', description: 'Preview link token (64 hex chars)' })
+  @ApiParam({ name: 'orderId', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Presigned URL generated',
+    type: ReceiptUploadUrlProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 401, description: 'Authentication required' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Order is not pending' })
+  async generateReceiptUploadUrl(
+    @Param('token') token: string,
+    @Param('orderId') orderId: string,
+    @Body() dto: GenerateReceiptUploadUrlDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new GenerateReceiptUploadUrlCommand(
+      orderId,
+      user.userId,
+      dto.fileName,
+      dto.contentType,
+      token,
+    )
+    return this.commandBus.execute(command)
+  }
+
+  @Post(':orderId/receipt')
+  @SuccessMessage('success.CREATED', { entity: 'entities.payment_receipt' })
+  @ApiOperation({ summary: 'Submit an uploaded bank-transfer receipt for review' })
+  @ApiParam({ name: 'token', description: 'Preview link token (64 hex chars)' })
+  @ApiParam({ name: 'orderId', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Receipt submitted',
+    type: EntityIdProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 401, description: 'Authentication required' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Order is not pending or invalid key' })
+  async submitReceipt(
+    @Param('token') token: string,
+    @Param('orderId') orderId: string,
+    @Body() dto: SubmitPaymentReceiptDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new SubmitPaymentReceiptCommand(
+      orderId,
+      user.userId,
+      dto.storageKey,
+      dto.fileSize ? BigInt(dto.fileSize) : null,
+      dto.mimeType ?? null,
+      token,
     )
     return this.commandBus.execute(command)
   }
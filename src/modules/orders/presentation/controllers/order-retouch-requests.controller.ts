@@ -0,0 +1,118 @@
+import { Body, Controller, Get, Param, Post, Put } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  ApprovePhotoRetouchCommand,
+  RequestPhotoRetouchCommand,
+  RequestPhotoRetouchDto,
+  RequestRetouchRevisionCommand,
+  RequestRetouchRevisionDto,
+} from '@orders/application/commands'
+import { RetouchRequestProjection } from '@orders/application/projections'
+import { GetOrderRetouchRequestsQuery } from '@orders/application/queries'
+import { EntityIdProjection } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Orders (Retouch requests)')
+@ApiBearerAuth()
+@Controller('orders/:id')
+export class OrderRetouchRequestsController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  @Roles('admin', 'customer')
+  @Get('retouch-requests')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List the retouch requests of an order with their approval status' })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Retouch requests of the order',
+    type: RetouchRequestProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  async list(@Param('id') id: string, @CurrentUser() user: ICurrentUser) {
+    const userId = user.role === 'admin' ? null : user.userId
+    return this.queryBus.execute(new GetOrderRetouchRequestsQuery(id, userId))
+  }
+
+  @Roles('customer')
+  @Put('items/:photoId/retouch-request')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.retouch_request' })
+  @ApiOperation({
+    summary: 'Attach (or replace) retouch instructions for one photo of an unpaid order',
+  })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiParam({ name: 'photoId', description: 'Photo UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Retouch request saved; the add-on price, if any, is added to the order',
+    type: EntityIdProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({
+    status: 422,
+    description: 'Order already paid, photo not in the order or retouch already delivered',
+  })
+  async request(
+    @Param('id') id: string,
+    @Param('photoId') photoId: string,
+    @Body() dto: RequestPhotoRetouchDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new RequestPhotoRetouchCommand(id, photoId, user.userId, dto.instructions),
+    )
+  }
+
+  @Roles('admin', 'customer')
+  @Post('items/:photoId/retouch-request/approve')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.retouch_request' })
+  @ApiOperation({
+    summary: 'Approve a retouched photo; the last approval of a paid order sends the delivery',
+  })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiParam({ name: 'photoId', description: 'Photo UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({ status: 201, description: 'Retouch approved', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order or retouch request not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Retouch is not awaiting approval' })
+  async approve(
+    @Param('id') id: string,
+    @Param('photoId') photoId: string,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const userId = user.role === 'admin' ? null : user.userId
+    return this.commandBus.execute(new ApprovePhotoRetouchCommand(id, photoId, userId))
+  }
+
+  @Roles('customer')
+  @Post('items/:photoId/retouch-request/revision')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.retouch_request' })
+  @ApiOperation({ summary: 'Send a retouched photo back once with feedback for the retoucher' })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiParam({ name: 'photoId', description: 'Photo UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Revision requested',
+    type: EntityIdProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order or retouch request not found' })
+  @ApiEnvelopeErrorResponse({
+    status: 422,
+    description: 'Retouch is not awaiting approval or the revision was already used',
+  })
+  async requestRevision(
+    @Param('id') id: string,
+    @Param('photoId') photoId: string,
+    @Body() dto: RequestRetouchRevisionDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new RequestRetouchRevisionCommand(id, photoId, user.userId, dto.feedback),
+    )
+  }
+}
@@ -1,4 +1,4 @@
-import { Controller, Get, Param, Patch, Post, Query } from '@nestjs/common'
+import { Body, Controller, Get, Param, Patch, Post, Query } from '@nestjs/common'
 import { CommandBus, QueryBus } from '@nestjs/cqrs'
 import { ApiBearerAuth, ApiOperation, ApiParam, ApiQuery, ApiTags } from '@nestjs/swagger'
 import {
@@ -6,6 +6,10 @@ import {
   ConfirmOrderPaymentCommand,
   GiftOrderCommand,
   NotifyPaymentInfoCommand,
+  RefundOrderCommand,
+  RefundOrderDto,
+  RefundOrderItemsCommand,
+  RefundOrderItemsDto,
   RegenerateDeliveryCommand,
   SendDeliveryCommand,
 } from '@orders/application/commands'
@@ -13,6 +17,7 @@ import {
   OrderDetailProjection,
   OrderListProjection,
   OrderPaymentConfirmedProjection,
+  OrderRefundedProjection,
   OrdersStatsProjection,
 } from '@orders/application/projections'
 import {
@@ -190,4 +195,60 @@ export class OrdersController {
   async cancel(@Param('id') id: string) {
     return this.commandBus.execute(new CancelOrderCommand(id))
   }
+
+  @Roles('admin')
+  @Patch(':id/refund')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.order' })
+  @ApiOperation({
+    summary: 'Refund a paid order in full (paid | delivered → refunded); revokes the delivery link',
+  })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Order refunded',
+    type: OrderRefundedProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Validation failed' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Order is not refundable' })
+  async refund(
+    @Param('id') id: string,
+    @Body() dto: RefundOrderDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new RefundOrderCommand(id, dto.reason, new AuditContext(user.userId))
+    return this.commandBus.execute(command)
+  }
+
+  @Roles('admin')
+  @Patch(':id/refund-items')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.order' })
+  @ApiOperation({
+    summary: 'Remove photos from a paid order and refund the re-priced difference',
+  })
+  @ApiParam({ name: 'id', description: 'Order UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Photos refunded',
+    type: OrderRefundedProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Validation failed' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Order not found' })
+  @ApiEnvelopeErrorResponse({
+    status: 422,
+    description: 'Order is not refundable or photos are not in the order',
+  })
+  async refundItems(
+    @Param('id') id: string,
+    @Body() dto: RefundOrderItemsDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new RefundOrderItemsCommand(
+      id,
+      dto.photoIds,
+      dto.reason,
+      new AuditContext(user.userId),
+    )
+    return this.commandBus.execute(command)
+  }
 }
@@ -0,0 +1,87 @@
+import { Body, Controller, Get, Param, Patch, Query } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  ApprovePaymentReceiptCommand,
+  RejectPaymentReceiptCommand,
+  RejectPaymentReceiptDto,
+} from '@orders/application/commands'
+import {
+  PaymentReceiptQueueItemProjection,
+  PaymentReceiptRejectedProjection,
+} from '@orders/application/projections'
+import { GetPaymentReceiptQueueQuery } from '@orders/application/queries'
+import {
+  AuditContext,
+  EntityIdProjection,
+  Pagination,
+  PaginationQueryDto,
+} from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Payment Receipts')
+@ApiBearerAuth()
+@Controller('payment-receipts')
+export class PaymentReceiptsController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  @Roles('admin')
+  @Get('queue')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'Reconciliation queue: pending bank-transfer receipts, oldest first' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Paginated pending receipts',
+    type: PaymentReceiptQueueItemProjection,
+    isArray: true,
+  })
+  async getQueue(@Query() dto: PaginationQueryDto) {
+    const pagination = new Pagination(dto.page ?? 1, dto.limit ?? 20)
+    return this.queryBus.execute(new GetPaymentReceiptQueueQuery(pagination))
+  }
+
+  @Roles('admin')
+  @Patch(':id/approve')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.payment_receipt' })
+  @ApiOperation({ summary: 'Approve a receipt and confirm the order payment (→ paid)' })
+  @ApiParam({ name: 'id', description: 'Payment receipt UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Receipt approved and payment confirmed',
+    type: EntityIdProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Receipt or order not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Receipt or order is not pending' })
+  async approve(@Param('id') id: string, @CurrentUser() user: ICurrentUser) {
+    const command = new ApprovePaymentReceiptCommand(id, new AuditContext(user.userId))
+    return this.commandBus.execute(command)
+  }
+
+  @Roles('admin')
+  @Patch(':id/reject')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.payment_receipt' })
+  @ApiOperation({
+    summary: 'Reject a receipt with a reason; returns the WhatsApp message for the customer',
+  })
+  @ApiParam({ name: 'id', description: 'Payment receipt UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Receipt rejected',
+    type: PaymentReceiptRejectedProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Validation failed' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Receipt not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Receipt is not pending' })
+  async reject(
+    @Param('id') id: string,
+    @Body() dto: RejectPaymentReceiptDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new RejectPaymentReceiptCommand(id, dto.reason, new AuditContext(user.userId))
+    return this.commandBus.execute(command)
+  }
+}
@@ -0,0 +1,41 @@
+import { Controller, Headers, HttpCode, Post, type RawBodyRequest, Req } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { ApiHeader, ApiOperation, ApiTags } from '@nestjs/swagger'
+import { SkipThrottle } from '@nestjs/throttler'
+import { HandlePaymentWebhookCommand } from '@orders/application/commands'
+import { PaymentWebhookResultProjection } from '@orders/application/projections'
+import { Public } from '@shared/auth'
+import { AppException } from '@shared/domain'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse } from '@shared/http'
+import type { Request } from 'express'
+
+/**
+ * Receives payment provider callbacks. Authentication is the HMAC signature
+ * over the raw body (see IPaymentGateway.verifyWebhook), not a user token.
+ */
+@ApiTags('Payments')
+@SkipThrottle()
+@Controller('payments/webhook')
+export class PaymentWebhookController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  @Public()
+  @Post()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Payment provider webhook (signed, no user authentication)' })
+  @ApiHeader({ name: 'X-Payment-Signature', description: 't={unix},v1={hex HMAC-SHA256}' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Event processed or skipped as a duplicate',
+    type: PaymentWebhookResultProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 403, description: 'Missing or invalid signature' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Malformed payload' })
+  async handle(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-payment-signature') signature: string | undefined,
+  ) {
+    if (!req.rawBody) throw AppException.businessRule('payment.invalid_payload')
+    return this.commandBus.execute(new HandlePaymentWebhookCommand(req.rawBody, signature))
+  }
+}
@@ -0,0 +1,3 @@
+export class CancelOutreachCampaignCommand {
+  constructor(public readonly campaignId: string) {}
+}
@@ -0,0 +1,33 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IOutreachReadRepository,
+  type IOutreachWriteRepository,
+  OUTREACH_READ_REPOSITORY,
+  OUTREACH_WRITE_REPOSITORY,
+} from '@outreach/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { CancelOutreachCampaignCommand } from './cancel-outreach-campaign.command'
+
+@CommandHandler(CancelOutreachCampaignCommand)
+export class CancelOutreachCampaignHandler
+  implements ICommandHandler<CancelOutreachCampaignCommand>
+{
+  constructor(
+    @Inject(OUTREACH_READ_REPOSITORY) private readonly readRepo: IOutreachReadRepository,
+    @Inject(OUTREACH_WRITE_REPOSITORY) private readonly writeRepo: IOutreachWriteRepository,
+  ) {}
+
+  /** Stops a sending campaign. Queued jobs still run but find their message cancelled. */
+  async execute(command: CancelOutreachCampaignCommand): Promise<EntityIdProjection> {
+    const campaign = await this.readRepo.findCampaignById(command.campaignId)
+    if (!campaign) throw AppException.notFound('entities.outreach_campaign', command.campaignId)
+
+    campaign.cancel()
+    await this.writeRepo.saveCampaign(campaign)
+    await this.writeRepo.cancelQueuedMessages(campaign.id)
+
+    return { id: campaign.id }
+  }
+}
@@ -0,0 +1,11 @@
+import type { AuditContext } from '@shared/application'
+import type { OutreachChannelType } from '../../../domain/value-objects/outreach-channel.vo'
+
+export class CreateOutreachCampaignCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly channel: OutreachChannelType,
+    public readonly expiresInDays: number,
+    public readonly audit: AuditContext,
+  ) {}
+}
@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator'
+import {
+  OutreachChannel,
+  type OutreachChannelType,
+} from '../../../domain/value-objects/outreach-channel.vo'
+
+export class CreateOutreachCampaignDto {
+  @ApiProperty({
+    description: 'Channel to contact participants on',
+    enum: Object.values(OutreachChannel),
+    example: OutreachChannel.EMAIL,
+  })
+  @IsIn(Object.values(OutreachChannel))
+  channel: OutreachChannelType
+
+  @ApiPropertyOptional({
+    description: "Days until each participant's preview link expires (default 7, max 90)",
+    example: 7,
+    default: 7,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  @IsOptional()
+  @Type(() => Number)
+  expiresInDays?: number
+}
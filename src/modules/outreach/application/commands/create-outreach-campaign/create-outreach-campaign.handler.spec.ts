@@ -0,0 +1,134 @@
+import { OutreachMessageStatus } from '@outreach/domain/value-objects/outreach-message-status.vo'
+import { Participant } from '@participants/domain/entities'
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { CreateOutreachCampaignCommand } from './create-outreach-campaign.command'
+import { CreateOutreachCampaignHandler } from './create-outreach-campaign.handler'
+
+const eventId = '550e8400-e29b-41d4-a716-446655440000'
+
+const participant = (id: string, bib: string, email: string | null) =>
+  Participant.fromPersistence({
+    id,
+    eventId,
+    bib,
+    fullName: `Rider ${bib}`,
+    email,
+    phone: null,
+    participantCategoryId: null,
+    team: null,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    importedById: null,
+  })
+
+const command = () =>
+  new CreateOutreachCampaignCommand(eventId, 'email', 7, new AuditContext('admin-1'))
+
+describe('CreateOutreachCampaignHandler', () => {
+  let eventReadRepo: { findById: jest.Mock }
+  let participantReadRepo: { findByEvent: jest.Mock; findPhotoIdsByParticipant: jest.Mock }
+  let readRepo: { existsSendingCampaign: jest.Mock; findOptedOutAddresses: jest.Mock }
+  let writeRepo: { create: jest.Mock }
+  let sender: { supports: jest.Mock }
+  let queue: { addBulk: jest.Mock }
+  let handler: CreateOutreachCampaignHandler
+
+  beforeEach(() => {
+    eventReadRepo = { findById: jest.fn().mockResolvedValue({ id: eventId }) }
+    participantReadRepo = {
+      findByEvent: jest
+        .fn()
+        .mockResolvedValue([
+          participant('p-1', '1', 'eva@example.com'),
+          participant('p-2', '2', 'juan@example.com'),
+          participant('p-3', '3', null),
+          participant('p-4', '4', 'ana@example.com'),
+        ]),
+      findPhotoIdsByParticipant: jest.fn().mockResolvedValue(
+        new Map([
+          ['p-1', ['photo-1', 'photo-2']],
+          ['p-2', ['photo-3']],
+          ['p-3', ['photo-4']],
+        ]),
+      ),
+    }
+    readRepo = {
+      existsSendingCampaign: jest.fn().mockResolvedValue(false),
+      findOptedOutAddresses: jest.fn().mockResolvedValue(new Set(['juan@example.com'])),
+    }
+    writeRepo = { create: jest.fn().mockResolvedValue(undefined) }
+    sender = { supports: jest.fn().mockReturnValue(true) }
+    queue = { addBulk: jest.fn().mockResolvedValue([]) }
+    handler = new CreateOutreachCampaignHandler(
+      eventReadRepo as never,
+      participantReadRepo as never,
+      readRepo as never,
+      writeRepo as never,
+      sender as never,
+      queue as unknown as import('bullmq').Queue,
+    )
+  })
+
+  it('messages participants with a contact and photos, recording opted-out ones as skipped', async () => {
+    const result = await handler.execute(command())
+
+    const [campaign, messages] = writeRepo.create.mock.calls[0]
+    expect(campaign).toMatchObject({ eventId, channel: 'email', expiresInDays: 7 })
+    expect(messages).toEqual([
+      expect.objectContaining({
+        participantId: 'p-1',
+        recipient: 'eva@example.com',
+        photoIds: ['photo-1', 'photo-2'],
+        status: OutreachMessageStatus.QUEUED,
+      }),
+      expect.objectContaining({ participantId: 'p-2', status: OutreachMessageStatus.OPTED_OUT }),
+    ])
+    expect(queue.addBulk).toHaveBeenCalledWith([
+      expect.objectContaining({
+        name: 'send-outreach-message',
+        data: { messageId: messages[0].id },
+      }),
+    ])
+    expect(result).toEqual({ id: campaign.id, recipients: 2, queued: 1, optedOut: 1 })
+  })
+
+  it('completes the campaign at once when every recipient opted out', async () => {
+    readRepo.findOptedOutAddresses.mockResolvedValueOnce(
+      new Set(['eva@example.com', 'juan@example.com']),
+    )
+
+    await handler.execute(command())
+
+    expect(writeRepo.create.mock.calls[0][0].status).toBe('completed')
+    expect(queue.addBulk).toHaveBeenCalledWith([])
+  })
+
+  it('refuses a channel the configured transport cannot send', async () => {
+    sender.supports.mockReturnValueOnce(false)
+
+    const error = await handler.execute(command()).catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+    expect(writeRepo.create).not.toHaveBeenCalled()
+  })
+
+  it('refuses a second campaign while one is still sending', async () => {
+    readRepo.existsSendingCampaign.mockResolvedValueOnce(true)
+
+    const error = await handler.execute(command()).catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+  })
+
+  it('refuses when nobody has both a contact and photos', async () => {
+    participantReadRepo.findPhotoIdsByParticipant.mockResolvedValueOnce(new Map())
+
+    const error = await handler.execute(command()).catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+  })
+})
@@ -0,0 +1,119 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { InjectQueue } from '@nestjs/bullmq'
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { OutreachCampaignCreatedProjection } from '@outreach/application/projections'
+import { MAX_SEND_ATTEMPTS, OutreachCampaign, OutreachMessage } from '@outreach/domain/entities'
+import {
+  type IMessageSender,
+  type IOutreachReadRepository,
+  type IOutreachWriteRepository,
+  MESSAGE_SENDER,
+  OUTREACH_READ_REPOSITORY,
+  OUTREACH_WRITE_REPOSITORY,
+} from '@outreach/domain/ports'
+import {
+  OutreachChannel,
+  type OutreachChannelType,
+} from '@outreach/domain/value-objects/outreach-channel.vo'
+import type { Participant } from '@participants/domain/entities'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
+import { AppException } from '@shared/domain'
+import type { Queue } from 'bullmq'
+import { CreateOutreachCampaignCommand } from './create-outreach-campaign.command'
+
+@CommandHandler(CreateOutreachCampaignCommand)
+export class CreateOutreachCampaignHandler
+  implements ICommandHandler<CreateOutreachCampaignCommand>
+{
+  private readonly logger = new Logger(CreateOutreachCampaignHandler.name)
+
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
+    @Inject(OUTREACH_READ_REPOSITORY) private readonly readRepo: IOutreachReadRepository,
+    @Inject(OUTREACH_WRITE_REPOSITORY) private readonly writeRepo: IOutreachWriteRepository,
+    @Inject(MESSAGE_SENDER) private readonly sender: IMessageSender,
+    @InjectQueue('outreach') private readonly outreachQueue: Queue,
+  ) {}
+
+  /**
+   * Targets every participant with photos on their confirmed bibs and a contact on the
+   * channel. One message is queued per participant; its preview link is built when sent.
+   */
+  async execute(
+    command: CreateOutreachCampaignCommand,
+  ): Promise<OutreachCampaignCreatedProjection> {
+    const event = await this.eventReadRepo.findById(command.eventId)
+    if (!event) throw AppException.notFound('entities.event', command.eventId)
+
+    if (!this.sender.supports(command.channel)) {
+      throw AppException.businessRule('outreach.channel_not_supported')
+    }
+    if (await this.readRepo.existsSendingCampaign(command.eventId)) {
+      throw AppException.businessRule('outreach.campaign_in_progress')
+    }
+
+    const [participants, photoIdsByParticipant] = await Promise.all([
+      this.participantReadRepo.findByEvent(command.eventId),
+      this.participantReadRepo.findPhotoIdsByParticipant(command.eventId),
+    ])
+    const recipients = participants.flatMap((participant) => {
+      const address = addressOf(participant, command.channel)
+      const photoIds = photoIdsByParticipant.get(participant.id) ?? []
+      return address && photoIds.length > 0 ? [{ participant, address, photoIds }] : []
+    })
+    if (recipients.length === 0) throw AppException.businessRule('outreach.no_recipients')
+
+    const optedOut = await this.readRepo.findOptedOutAddresses(
+      command.channel,
+      recipients.map((r) => r.address),
+    )
+
+    const campaign = OutreachCampaign.create({
+      eventId: command.eventId,
+      channel: command.channel,
+      expiresInDays: command.expiresInDays,
+      createdById: command.audit.userId,
+    })
+    const messages = recipients.map(({ participant, address, photoIds }) =>
+      OutreachMessage.create({
+        campaignId: campaign.id,
+        participantId: participant.id,
+        recipientName: participant.fullName,
+        recipient: address,
+        photoIds,
+        optedOut: optedOut.has(address),
+      }),
+    )
+    const queued = messages.filter((m) => m.isQueued)
+    if (queued.length === 0) campaign.complete()
+
+    await this.writeRepo.create(campaign, messages)
+    await this.outreachQueue.addBulk(
+      queued.map((message) => ({
+        name: 'send-outreach-message',
+        data: { messageId: message.id },
+        opts: { attempts: MAX_SEND_ATTEMPTS, backoff: { type: 'exponential', delay: 30_000 } },
+      })),
+    )
+    this.logger.log(
+      `Campaign ${campaign.id} for event ${command.eventId}: ${queued.length} queued, ${messages.length - queued.length} opted out`,
+    )
+
+    return {
+      id: campaign.id,
+      recipients: messages.length,
+      queued: queued.length,
+      optedOut: messages.length - queued.length,
+    }
+  }
+}
+
+function addressOf(participant: Participant, channel: OutreachChannelType): string | null {
+  return channel === OutreachChannel.EMAIL ? participant.email : participant.phone
+}
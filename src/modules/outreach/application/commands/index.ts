@@ -0,0 +1,5 @@
+export { CancelOutreachCampaignCommand } from './cancel-outreach-campaign/cancel-outreach-campaign.command'
+export { CreateOutreachCampaignCommand } from './create-outreach-campaign/create-outreach-campaign.command'
+export { CreateOutreachCampaignDto } from './create-outreach-campaign/create-outreach-campaign.dto'
+export { OptOutOutreachCommand } from './opt-out-outreach/opt-out-outreach.command'
+export { SendOutreachMessageCommand } from './send-outreach-message/send-outreach-message.command'
@@ -0,0 +1,3 @@
+export class OptOutOutreachCommand {
+  constructor(public readonly token: string) {}
+}
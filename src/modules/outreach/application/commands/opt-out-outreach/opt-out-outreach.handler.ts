@@ -0,0 +1,34 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IOutreachReadRepository,
+  type IOutreachWriteRepository,
+  OUTREACH_READ_REPOSITORY,
+  OUTREACH_WRITE_REPOSITORY,
+} from '@outreach/domain/ports'
+import { AppException } from '@shared/domain'
+import { OptOutOutreachCommand } from './opt-out-outreach.command'
+
+@CommandHandler(OptOutOutreachCommand)
+export class OptOutOutreachHandler implements ICommandHandler<OptOutOutreachCommand> {
+  constructor(
+    @Inject(OUTREACH_READ_REPOSITORY) private readonly readRepo: IOutreachReadRepository,
+    @Inject(OUTREACH_WRITE_REPOSITORY) private readonly writeRepo: IOutreachWriteRepository,
+  ) {}
+
+  /**
+   * Opts the message's address out of its channel for every future campaign.
+   * Repeating it is harmless, so a reloaded unsubscribe page does not error.
+   */
+  async execute(command: OptOutOutreachCommand): Promise<void> {
+    const message = await this.readRepo.findMessageByOptOutToken(command.token)
+    if (!message) throw AppException.notFound('entities.outreach_message', command.token)
+
+    const campaign = await this.readRepo.findCampaignById(message.campaignId)
+    if (!campaign) throw AppException.notFound('entities.outreach_campaign', message.campaignId)
+
+    await this.writeRepo.saveOptOut(campaign.channel, message.recipient, message.id)
+    message.optOut()
+    await this.writeRepo.saveMessage(message)
+  }
+}
@@ -0,0 +1,3 @@
+export class SendOutreachMessageCommand {
+  constructor(public readonly messageId: string) {}
+}
@@ -0,0 +1,163 @@
+import { OutreachCampaign, OutreachMessage } from '@outreach/domain/entities'
+import { SendOutreachMessageCommand } from './send-outreach-message.command'
+import { SendOutreachMessageHandler } from './send-outreach-message.handler'
+
+const eventId = '550e8400-e29b-41d4-a716-446655440000'
+
+const campaign = (status: 'sending' | 'cancelled' = 'sending') =>
+  OutreachCampaign.fromPersistence({
+    id: 'campaign-1',
+    eventId,
+    channel: 'email',
+    status,
+    expiresInDays: 7,
+    createdAt: new Date('2026-01-01'),
+    completedAt: null,
+    cancelledAt: null,
+    createdById: 'admin-1',
+  })
+
+const message = (overrides: { previewLinkId?: string | null; attempts?: number } = {}) =>
+  OutreachMessage.fromPersistence({
+    id: 'message-1',
+    campaignId: 'campaign-1',
+    participantId: 'p-1',
+    recipientName: 'Eva Ruiz',
+    recipient: 'eva@example.com',
+    photoIds: ['photo-1', 'photo-2'],
+    previewLinkId: overrides.previewLinkId ?? null,
+    status: 'queued',
+    attempts: overrides.attempts ?? 0,
+    lastError: null,
+    providerMessageId: null,
+    optOutToken: 'opt-out-token',
+    createdAt: new Date('2026-01-01'),
+    sentAt: null,
+    optedOutAt: null,
+  })
+
+describe('SendOutreachMessageHandler', () => {
+  let readRepo: {
+    findMessageById: jest.Mock
+    findCampaignById: jest.Mock
+    findOptedOutAddresses: jest.Mock
+    findPreviewToken: jest.Mock
+  }
+  let writeRepo: { saveMessage: jest.Mock; completeIfDrained: jest.Mock }
+  let eventReadRepo: { findById: jest.Mock }
+  let sender: { send: jest.Mock }
+  let commandBus: { execute: jest.Mock }
+  let handler: SendOutreachMessageHandler
+
+  beforeEach(() => {
+    readRepo = {
+      findMessageById: jest.fn().mockResolvedValue(message()),
+      findCampaignById: jest.fn().mockResolvedValue(campaign()),
+      findOptedOutAddresses: jest.fn().mockResolvedValue(new Set()),
+      findPreviewToken: jest.fn().mockResolvedValue(null),
+    }
+    writeRepo = {
+      saveMessage: jest.fn().mockResolvedValue(undefined),
+      completeIfDrained: jest.fn().mockResolvedValue(false),
+    }
+    eventReadRepo = { findById: jest.fn().mockResolvedValue({ name: 'Vuelta al Cotopaxi' }) }
+    sender = { send: jest.fn().mockResolvedValue({ providerMessageId: 'smtp-1' }) }
+    commandBus = {
+      execute: jest.fn().mockResolvedValue({ id: 'link-1', token: 'preview-token' }),
+    }
+    const config = {
+      getOrThrow: jest.fn((key: string) =>
+        key === 'preview.baseUrl' ? 'https://fotos.test/preview' : 'https://fotos.test/unsubscribe',
+      ),
+    }
+    handler = new SendOutreachMessageHandler(
+      readRepo as never,
+      writeRepo as never,
+      eventReadRepo as never,
+      sender as never,
+      commandBus as never,
+      config as never,
+    )
+  })
+
+  it('creates the preview link, sends the message and marks it sent', async () => {
+    await handler.execute(new SendOutreachMessageCommand('message-1'))
+
+    expect(commandBus.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId, photoIds: ['photo-1', 'photo-2'], expiresInDays: 7 }),
+    )
+    expect(sender.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'email',
+        to: 'eva@example.com',
+        subject: expect.stringContaining('Vuelta al Cotopaxi'),
+        body: expect.stringContaining('https://fotos.test/preview/preview-token'),
+      }),
+    )
+    expect(sender.send.mock.calls[0][0].body).toContain(
+      'https://fotos.test/unsubscribe/opt-out-token',
+    )
+    const saved = writeRepo.saveMessage.mock.calls.at(-1)?.[0]
+    expect(saved).toMatchObject({
+      status: 'sent',
+      previewLinkId: 'link-1',
+      providerMessageId: 'smtp-1',
+      attempts: 1,
+    })
+    expect(writeRepo.completeIfDrained).toHaveBeenCalledWith('campaign-1')
+  })
+
+  it('reuses the preview link created by an earlier attempt', async () => {
+    readRepo.findMessageById.mockResolvedValueOnce(message({ previewLinkId: 'link-1' }))
+    readRepo.findPreviewToken.mockResolvedValueOnce('preview-token')
+
+    await handler.execute(new SendOutreachMessageCommand('message-1'))
+
+    expect(commandBus.execute).not.toHaveBeenCalled()
+    expect(sender.send).toHaveBeenCalled()
+  })
+
+  it('rethrows a transport failure while attempts remain so the job is retried', async () => {
+    sender.send.mockRejectedValueOnce(new Error('SMTP 451: try again later'))
+
+    const error = await handler.execute(new SendOutreachMessageCommand('message-1')).catch((e) => e)
+
+    expect(error).toBeInstanceOf(Error)
+    expect(writeRepo.saveMessage.mock.calls.at(-1)?.[0]).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      lastError: 'SMTP 451: try again later',
+    })
+    expect(writeRepo.completeIfDrained).not.toHaveBeenCalled()
+  })
+
+  it('marks the message failed on the last attempt without rethrowing', async () => {
+    readRepo.findMessageById.mockResolvedValueOnce(message({ attempts: 2 }))
+    sender.send.mockRejectedValueOnce(new Error('SMTP 550: mailbox unavailable'))
+
+    await handler.execute(new SendOutreachMessageCommand('message-1'))
+
+    expect(writeRepo.saveMessage.mock.calls.at(-1)?.[0]).toMatchObject({ status: 'failed' })
+    expect(writeRepo.completeIfDrained).toHaveBeenCalledWith('campaign-1')
+  })
+
+  it('skips a recipient who opted out after the campaign was queued', async () => {
+    readRepo.findOptedOutAddresses.mockResolvedValueOnce(new Set(['eva@example.com']))
+
+    await handler.execute(new SendOutreachMessageCommand('message-1'))
+
+    expect(sender.send).not.toHaveBeenCalled()
+    expect(writeRepo.saveMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'opted_out' }),
+    )
+  })
+
+  it('does nothing once the campaign was cancelled', async () => {
+    readRepo.findCampaignById.mockResolvedValueOnce(campaign('cancelled'))
+
+    await handler.execute(new SendOutreachMessageCommand('message-1'))
+
+    expect(sender.send).not.toHaveBeenCalled()
+    expect(writeRepo.saveMessage).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,122 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { OutreachMessage } from '@outreach/domain/entities'
+import {
+  type IMessageSender,
+  type IOutreachReadRepository,
+  type IOutreachWriteRepository,
+  MESSAGE_SENDER,
+  OUTREACH_READ_REPOSITORY,
+  OUTREACH_WRITE_REPOSITORY,
+} from '@outreach/domain/ports'
+import { OutreachMessageTemplate } from '@outreach/domain/services/outreach-message-template.service'
+import { CreatePreviewLinkCommand } from '@previews/application/commands'
+import type { PreviewLinkCreatedProjection } from '@previews/application/projections'
+import { AuditContext } from '@shared/application'
+import { SendOutreachMessageCommand } from './send-outreach-message.command'
+
+@CommandHandler(SendOutreachMessageCommand)
+export class SendOutreachMessageHandler implements ICommandHandler<SendOutreachMessageCommand> {
+  private readonly logger = new Logger(SendOutreachMessageHandler.name)
+  private readonly previewBaseUrl: string
+  private readonly optOutBaseUrl: string
+
+  constructor(
+    @Inject(OUTREACH_READ_REPOSITORY) private readonly readRepo: IOutreachReadRepository,
+    @Inject(OUTREACH_WRITE_REPOSITORY) private readonly writeRepo: IOutreachWriteRepository,
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(MESSAGE_SENDER) private readonly sender: IMessageSender,
+    private readonly commandBus: CommandBus,
+    config: ConfigService,
+  ) {
+    this.previewBaseUrl = config.getOrThrow<string>('preview.baseUrl')
+    this.optOutBaseUrl = config.getOrThrow<string>('outreach.optOutBaseUrl')
+  }
+
+  /**
+   * Sends one queued message: creates the participant's preview link on the first
+   * attempt, then hands the rendered text to the transport. Failures are rethrown while
+   * attempts remain so the queue retries; messages settled meanwhile are left alone.
+   */
+  async execute(command: SendOutreachMessageCommand): Promise<void> {
+    const message = await this.readRepo.findMessageById(command.messageId)
+    if (!message?.isQueued) return
+
+    const campaign = await this.readRepo.findCampaignById(message.campaignId)
+    if (!campaign?.isSending) return
+
+    const optedOut = await this.readRepo.findOptedOutAddresses(campaign.channel, [
+      message.recipient,
+    ])
+    if (optedOut.has(message.recipient)) {
+      message.optOut()
+      await this.writeRepo.saveMessage(message)
+      await this.writeRepo.completeIfDrained(campaign.id)
+      return
+    }
+
+    try {
+      const event = await this.eventReadRepo.findById(campaign.eventId)
+      const previewToken = await this.ensurePreviewLink(message, campaign.eventId, {
+        expiresInDays: campaign.expiresInDays,
+        createdById: campaign.createdById,
+      })
+      const { subject, body } = OutreachMessageTemplate.render({
+        channel: campaign.channel,
+        recipientName: message.recipientName,
+        eventName: event?.name ?? '',
+        photoCount: message.photoIds.length,
+        previewUrl: `${this.previewBaseUrl}/${previewToken}`,
+        optOutUrl: `${this.optOutBaseUrl}/${message.optOutToken}`,
+      })
+
+      const result = await this.sender.send({
+        channel: campaign.channel,
+        to: message.recipient,
+        recipientName: message.recipientName,
+        subject,
+        body,
+      })
+      message.markSent(result.providerMessageId)
+      await this.writeRepo.saveMessage(message)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      message.recordFailure(reason)
+      await this.writeRepo.saveMessage(message)
+      if (message.isQueued) throw error
+      this.logger.warn(`Outreach message ${message.id} failed for good: ${reason}`)
+    }
+
+    await this.writeRepo.completeIfDrained(campaign.id)
+  }
+
+  /** Returns the token of the message's preview link, creating the link the first time. */
+  private async ensurePreviewLink(
+    message: OutreachMessage,
+    eventId: string,
+    link: { expiresInDays: number; createdById: string },
+  ): Promise<string> {
+    if (message.previewLinkId) {
+      const token = await this.readRepo.findPreviewToken(message.previewLinkId)
+      if (token) return token
+    }
+
+    const created = await this.commandBus.execute<
+      CreatePreviewLinkCommand,
+      PreviewLinkCreatedProjection
+    >(
+      new CreatePreviewLinkCommand(
+        eventId,
+        message.photoIds,
+        link.expiresInDays,
+        new AuditContext(link.createdById),
+      ),
+    )
+    // Saved before sending so a retry reuses the link instead of creating another.
+    message.previewLinkId = created.id
+    await this.writeRepo.saveMessage(message)
+    return created.token
+  }
+}
@@ -0,0 +1,6 @@
+export {
+  OutreachCampaignCreatedProjection,
+  OutreachCampaignProjection,
+  OutreachCampaignStatsProjection,
+} from './outreach-campaign.projection'
+export { OutreachMessageProjection } from './outreach-message.projection'
@@ -0,0 +1,47 @@
+import type { OutreachCampaignStatusType } from '../../domain/value-objects/outreach-campaign-status.vo'
+import type { OutreachChannelType } from '../../domain/value-objects/outreach-channel.vo'
+
+/** Send status and conversion funnel of one campaign. */
+export class OutreachCampaignStatsProjection {
+  /** Participants targeted (one message each) */
+  total: number
+  queued: number
+  sent: number
+  failed: number
+  /** Skipped because the address opted out before it was sent */
+  optedOut: number
+  /** Dropped when the campaign was cancelled */
+  cancelled: number
+  /** Messages whose preview link was opened */
+  viewed: number
+  /** Messages whose preview link led to at least one order */
+  ordered: number
+  /** Messages whose preview link led to a paid or delivered order */
+  paid: number
+}
+
+export class OutreachCampaignProjection {
+  /** Campaign UUID */
+  id: string
+  channel: OutreachChannelType
+  status: OutreachCampaignStatusType
+  /** Lifetime of each participant's preview link */
+  expiresInDays: number
+  createdAt: Date
+  completedAt: Date | null
+  cancelledAt: Date | null
+  /** Name of the admin who started the campaign */
+  createdByName: string
+  stats: OutreachCampaignStatsProjection
+}
+
+export class OutreachCampaignCreatedProjection {
+  /** Campaign UUID */
+  id: string
+  /** Participants with a matched photo and a contact on the channel */
+  recipients: number
+  /** Messages queued for sending */
+  queued: number
+  /** Recipients skipped because they opted out earlier */
+  optedOut: number
+}
@@ -0,0 +1,28 @@
+import type { OutreachMessageStatusType } from '../../domain/value-objects/outreach-message-status.vo'
+
+/** One participant's message in a campaign, with where it led. */
+export class OutreachMessageProjection {
+  /** Message UUID */
+  id: string
+  /** Participant UUID (null once the participant was removed from the start list) */
+  participantId: string | null
+  /** Participant bib (null once the participant was removed from the start list) */
+  bib: string | null
+  recipientName: string
+  /** Email address or phone number the message went to */
+  recipient: string
+  status: OutreachMessageStatusType
+  /** Send attempts so far */
+  attempts: number
+  /** Last transport error, kept until a later attempt succeeds */
+  lastError: string | null
+  /** Photos in the participant's preview link */
+  photoCount: number
+  sentAt: Date | null
+  optedOutAt: Date | null
+  /** First time the preview link was opened */
+  previewViewedAt: Date | null
+  /** Latest order placed from the preview link */
+  orderId: string | null
+  orderStatus: string | null
+}
@@ -0,0 +1,20 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { OutreachCampaignProjection } from '@outreach/application/projections'
+import { type IOutreachReadRepository, OUTREACH_READ_REPOSITORY } from '@outreach/domain/ports'
+import type { PaginatedResult } from '@shared/application'
+import { GetOutreachCampaignsQuery } from './get-outreach-campaigns.query'
+
+@QueryHandler(GetOutreachCampaignsQuery)
+export class GetOutreachCampaignsHandler implements IQueryHandler<GetOutreachCampaignsQuery> {
+  constructor(
+    @Inject(OUTREACH_READ_REPOSITORY) private readonly readRepo: IOutreachReadRepository,
+  ) {}
+
+  /** Lists the event's campaigns, newest first, with send and conversion counts. */
+  async execute(
+    query: GetOutreachCampaignsQuery,
+  ): Promise<PaginatedResult<OutreachCampaignProjection>> {
+    return this.readRepo.getCampaignsList(query.eventId, query.pagination)
+  }
+}
@@ -0,0 +1,8 @@
+import type { Pagination } from '@shared/application'
+
+export class GetOutreachCampaignsQuery {
+  constructor(
+    public readonly eventId: string,
+    public readonly pagination: Pagination,
+  ) {}
+}
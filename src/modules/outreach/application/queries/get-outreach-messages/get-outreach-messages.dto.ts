@@ -0,0 +1,18 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { PaginationQueryDto } from '@shared/application'
+import { IsIn, IsOptional } from 'class-validator'
+import {
+  OutreachMessageStatus,
+  type OutreachMessageStatusType,
+} from '../../../domain/value-objects/outreach-message-status.vo'
+
+export class GetOutreachMessagesDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by send status',
+    enum: Object.values(OutreachMessageStatus),
+    example: OutreachMessageStatus.FAILED,
+  })
+  @IsOptional()
+  @IsIn(Object.values(OutreachMessageStatus))
+  status?: OutreachMessageStatusType
+}
@@ -0,0 +1,24 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { OutreachMessageProjection } from '@outreach/application/projections'
+import { type IOutreachReadRepository, OUTREACH_READ_REPOSITORY } from '@outreach/domain/ports'
+import type { PaginatedResult } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { GetOutreachMessagesQuery } from './get-outreach-messages.query'
+
+@QueryHandler(GetOutreachMessagesQuery)
+export class GetOutreachMessagesHandler implements IQueryHandler<GetOutreachMessagesQuery> {
+  constructor(
+    @Inject(OUTREACH_READ_REPOSITORY) private readonly readRepo: IOutreachReadRepository,
+  ) {}
+
+  /** Lists a campaign's messages by bib with their send status and conversion. */
+  async execute(
+    query: GetOutreachMessagesQuery,
+  ): Promise<PaginatedResult<OutreachMessageProjection>> {
+    const campaign = await this.readRepo.findCampaignById(query.campaignId)
+    if (!campaign) throw AppException.notFound('entities.outreach_campaign', query.campaignId)
+
+    return this.readRepo.getCampaignMessages(query.campaignId, query.status, query.pagination)
+  }
+}
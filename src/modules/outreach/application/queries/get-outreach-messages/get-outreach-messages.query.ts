@@ -0,0 +1,10 @@
+import type { Pagination } from '@shared/application'
+import type { OutreachMessageStatusType } from '../../../domain/value-objects/outreach-message-status.vo'
+
+export class GetOutreachMessagesQuery {
+  constructor(
+    public readonly campaignId: string,
+    public readonly pagination: Pagination,
+    public readonly status: OutreachMessageStatusType | null = null,
+  ) {}
+}
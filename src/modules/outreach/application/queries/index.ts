@@ -0,0 +1,3 @@
+export { GetOutreachCampaignsQuery } from './get-outreach-campaigns/get-outreach-campaigns.query'
+export { GetOutreachMessagesDto } from './get-outreach-messages/get-outreach-messages.dto'
+export { GetOutreachMessagesQuery } from './get-outreach-messages/get-outreach-messages.query'
@@ -0,0 +1,2 @@
+export { OutreachCampaign } from './outreach-campaign.entity'
+export { MAX_SEND_ATTEMPTS, OutreachMessage } from './outreach-message.entity'
@@ -0,0 +1,89 @@
+import { AppException } from '@shared/domain'
+import {
+  OutreachCampaignStatus,
+  type OutreachCampaignStatusType,
+} from '../value-objects/outreach-campaign-status.vo'
+import type { OutreachChannelType } from '../value-objects/outreach-channel.vo'
+
+export class OutreachCampaign {
+  constructor(
+    public readonly id: string,
+    public readonly eventId: string,
+    public readonly channel: OutreachChannelType,
+    public status: OutreachCampaignStatusType,
+    public readonly expiresInDays: number,
+    public readonly createdAt: Date,
+    public completedAt: Date | null,
+    public cancelledAt: Date | null,
+    public readonly createdById: string,
+  ) {}
+
+  /**
+   * Factory method for a new campaign. Campaigns start sending right away;
+   * `expiresInDays` is the lifetime of each participant's preview link.
+   */
+  static create(data: {
+    eventId: string
+    channel: OutreachChannelType
+    expiresInDays: number
+    createdById: string
+  }): OutreachCampaign {
+    return new OutreachCampaign(
+      crypto.randomUUID(),
+      data.eventId,
+      data.channel,
+      OutreachCampaignStatus.SENDING,
+      data.expiresInDays,
+      new Date(),
+      null,
+      null,
+      data.createdById,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    eventId: string
+    channel: OutreachChannelType
+    status: OutreachCampaignStatusType
+    expiresInDays: number
+    createdAt: Date
+    completedAt: Date | null
+    cancelledAt: Date | null
+    createdById: string
+  }): OutreachCampaign {
+    return new OutreachCampaign(
+      data.id,
+      data.eventId,
+      data.channel,
+      data.status,
+      data.expiresInDays,
+      data.createdAt,
+      data.completedAt,
+      data.cancelledAt,
+      data.createdById,
+    )
+  }
+
+  get isSending(): boolean {
+    return this.status === OutreachCampaignStatus.SENDING
+  }
+
+  /** Marks the campaign done once no message is left in the queue. */
+  complete(): void {
+    if (!this.isSending) return
+    this.status = OutreachCampaignStatus.COMPLETED
+    this.completedAt = new Date()
+  }
+
+  /** Stops a campaign that is still sending; queued messages are dropped by the caller. */
+  cancel(): void {
+    if (!this.isSending) throw AppException.businessRule('outreach.campaign_not_sending')
+    this.status = OutreachCampaignStatus.CANCELLED
+    this.cancelledAt = new Date()
+  }
+}
@@ -0,0 +1,124 @@
+import * as crypto from 'node:crypto'
+import {
+  OutreachMessageStatus,
+  type OutreachMessageStatusType,
+} from '../value-objects/outreach-message-status.vo'
+
+/** Matches the attempts of the BullMQ job; the last failure marks the message failed. */
+export const MAX_SEND_ATTEMPTS = 3
+
+export class OutreachMessage {
+  constructor(
+    public readonly id: string,
+    public readonly campaignId: string,
+    public readonly participantId: string | null,
+    public readonly recipientName: string,
+    public readonly recipient: string,
+    public readonly photoIds: string[],
+    public previewLinkId: string | null,
+    public status: OutreachMessageStatusType,
+    public attempts: number,
+    public lastError: string | null,
+    public providerMessageId: string | null,
+    public readonly optOutToken: string,
+    public readonly createdAt: Date,
+    public sentAt: Date | null,
+    public optedOutAt: Date | null,
+  ) {}
+
+  /**
+   * Factory method for one participant's message in a campaign. Recipients who opted
+   * out before are still recorded, already settled, so the campaign shows who was skipped.
+   */
+  static create(data: {
+    campaignId: string
+    participantId: string
+    recipientName: string
+    recipient: string
+    photoIds: string[]
+    optedOut: boolean
+  }): OutreachMessage {
+    return new OutreachMessage(
+      crypto.randomUUID(),
+      data.campaignId,
+      data.participantId,
+      data.recipientName,
+      data.recipient,
+      data.photoIds,
+      null,
+      data.optedOut ? OutreachMessageStatus.OPTED_OUT : OutreachMessageStatus.QUEUED,
+      0,
+      null,
+      null,
+      crypto.randomBytes(32).toString('hex'),
+      new Date(),
+      null,
+      null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    campaignId: string
+    participantId: string | null
+    recipientName: string
+    recipient: string
+    photoIds: string[]
+    previewLinkId: string | null
+    status: OutreachMessageStatusType
+    attempts: number
+    lastError: string | null
+    providerMessageId: string | null
+    optOutToken: string
+    createdAt: Date
+    sentAt: Date | null
+    optedOutAt: Date | null
+  }): OutreachMessage {
+    return new OutreachMessage(
+      data.id,
+      data.campaignId,
+      data.participantId,
+      data.recipientName,
+      data.recipient,
+      data.photoIds,
+      data.previewLinkId,
+      data.status,
+      data.attempts,
+      data.lastError,
+      data.providerMessageId,
+      data.optOutToken,
+      data.createdAt,
+      data.sentAt,
+      data.optedOutAt,
+    )
+  }
+
+  get isQueued(): boolean {
+    return this.status === OutreachMessageStatus.QUEUED
+  }
+
+  markSent(providerMessageId: string | null): void {
+    this.attempts += 1
+    this.status = OutreachMessageStatus.SENT
+    this.providerMessageId = providerMessageId
+    this.lastError = null
+    this.sentAt = new Date()
+  }
+
+  /** Records a failed attempt; the message stays queued until the attempts run out. */
+  recordFailure(error: string): void {
+    this.attempts += 1
+    this.lastError = error.slice(0, 500)
+    if (this.attempts >= MAX_SEND_ATTEMPTS) this.status = OutreachMessageStatus.FAILED
+  }
+
+  /** Stops a queued message from going out; sent messages keep their status. */
+  optOut(): void {
+    this.optedOutAt ??= new Date()
+    if (this.isQueued) this.status = OutreachMessageStatus.OPTED_OUT
+  }
+}
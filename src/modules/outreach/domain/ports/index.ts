@@ -0,0 +1,9 @@
+export { type IMessageSender, MESSAGE_SENDER, type OutboundMessage } from './message-sender.port'
+export {
+  type IOutreachReadRepository,
+  OUTREACH_READ_REPOSITORY,
+} from './outreach-read-repository.port'
+export {
+  type IOutreachWriteRepository,
+  OUTREACH_WRITE_REPOSITORY,
+} from './outreach-write-repository.port'
@@ -0,0 +1,18 @@
+import type { OutreachChannelType } from '../value-objects/outreach-channel.vo'
+
+export interface OutboundMessage {
+  channel: OutreachChannelType
+  /** Email address or phone number, depending on the channel. */
+  to: string
+  recipientName: string
+  subject: string
+  body: string
+}
+
+export interface IMessageSender {
+  /** Channels this transport can deliver; campaigns on other channels are refused. */
+  supports(channel: OutreachChannelType): boolean
+  send(message: OutboundMessage): Promise<{ providerMessageId: string | null }>
+}
+
+export const MESSAGE_SENDER = Symbol('MESSAGE_SENDER')
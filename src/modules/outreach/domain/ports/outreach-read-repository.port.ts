@@ -0,0 +1,30 @@
+import type {
+  OutreachCampaignProjection,
+  OutreachMessageProjection,
+} from '@outreach/application/projections'
+import type { PaginatedResult, Pagination } from '@shared/application'
+import type { OutreachCampaign, OutreachMessage } from '../entities'
+import type { OutreachChannelType } from '../value-objects/outreach-channel.vo'
+import type { OutreachMessageStatusType } from '../value-objects/outreach-message-status.vo'
+
+export interface IOutreachReadRepository {
+  findCampaignById(id: string): Promise<OutreachCampaign | null>
+  existsSendingCampaign(eventId: string): Promise<boolean>
+  findMessageById(id: string): Promise<OutreachMessage | null>
+  findMessageByOptOutToken(token: string): Promise<OutreachMessage | null>
+  /** Token of the message's preview link, to rebuild its URL when a send is retried. */
+  findPreviewToken(previewLinkId: string): Promise<string | null>
+  /** The subset of `addresses` that opted out of the channel. */
+  findOptedOutAddresses(channel: OutreachChannelType, addresses: string[]): Promise<Set<string>>
+  getCampaignsList(
+    eventId: string,
+    pagination: Pagination,
+  ): Promise<PaginatedResult<OutreachCampaignProjection>>
+  getCampaignMessages(
+    campaignId: string,
+    status: OutreachMessageStatusType | null,
+    pagination: Pagination,
+  ): Promise<PaginatedResult<OutreachMessageProjection>>
+}
+
+export const OUTREACH_READ_REPOSITORY = Symbol('OUTREACH_READ_REPOSITORY')
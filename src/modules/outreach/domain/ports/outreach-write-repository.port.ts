@@ -0,0 +1,17 @@
+import type { OutreachCampaign, OutreachMessage } from '../entities'
+import type { OutreachChannelType } from '../value-objects/outreach-channel.vo'
+
+export interface IOutreachWriteRepository {
+  /** Creates the campaign together with its messages, atomically. */
+  create(campaign: OutreachCampaign, messages: OutreachMessage[]): Promise<void>
+  saveCampaign(campaign: OutreachCampaign): Promise<void>
+  saveMessage(message: OutreachMessage): Promise<void>
+  /** Marks every still-queued message of the campaign cancelled. Returns how many. */
+  cancelQueuedMessages(campaignId: string): Promise<number>
+  /** Completes a sending campaign that has no queued message left. Returns true if it did. */
+  completeIfDrained(campaignId: string): Promise<boolean>
+  /** Records an opt-out; opting out twice keeps the first record. */
+  saveOptOut(channel: OutreachChannelType, address: string, messageId: string): Promise<void>
+}
+
+export const OUTREACH_WRITE_REPOSITORY = Symbol('OUTREACH_WRITE_REPOSITORY')
@@ -0,0 +1,41 @@
+import { OutreachChannel, type OutreachChannelType } from '../value-objects/outreach-channel.vo'
+
+export interface OutreachTemplateInput {
+  channel: OutreachChannelType
+  recipientName: string
+  eventName: string
+  photoCount: number
+  previewUrl: string
+  optOutUrl: string
+}
+
+/** Spanish copy, matching the share template of manual preview links. */
+export const OutreachMessageTemplate = {
+  render(input: OutreachTemplateInput): { subject: string; body: string } {
+    const firstName = input.recipientName.split(' ')[0]
+    const photos = input.photoCount === 1 ? '1 foto' : `${input.photoCount} fotos`
+    const subject = `Tus fotos de ${input.eventName} están listas`
+
+    if (input.channel === OutreachChannel.WHATSAPP) {
+      return {
+        subject,
+        body: `¡Hola ${firstName}! \u{1F44B} Encontramos ${photos} tuyas del evento "${input.eventName}". Revísalas aquí: ${input.previewUrl} \u{1F4F8}\n\nSi no quieres recibir más mensajes: ${input.optOutUrl}`,
+      }
+    }
+
+    return {
+      subject,
+      body: [
+        `Hola ${firstName},`,
+        '',
+        `Encontramos ${photos} tuyas del evento "${input.eventName}".`,
+        `Revísalas y elige las que quieras aquí: ${input.previewUrl}`,
+        '',
+        '¡Gracias por correr con nosotros!',
+        'Titan TV',
+        '',
+        `Si no quieres recibir más correos como este: ${input.optOutUrl}`,
+      ].join('\n'),
+    }
+  },
+}
@@ -0,0 +1,8 @@
+export const OutreachCampaignStatus = {
+  SENDING: 'sending',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+} as const
+
+export type OutreachCampaignStatusType =
+  (typeof OutreachCampaignStatus)[keyof typeof OutreachCampaignStatus]
@@ -0,0 +1,6 @@
+export const OutreachChannel = {
+  EMAIL: 'email',
+  WHATSAPP: 'whatsapp',
+} as const
+
+export type OutreachChannelType = (typeof OutreachChannel)[keyof typeof OutreachChannel]
@@ -0,0 +1,10 @@
+export const OutreachMessageStatus = {
+  QUEUED: 'queued',
+  SENT: 'sent',
+  FAILED: 'failed',
+  OPTED_OUT: 'opted_out',
+  CANCELLED: 'cancelled',
+} as const
+
+export type OutreachMessageStatusType =
+  (typeof OutreachMessageStatus)[keyof typeof OutreachMessageStatus]
@@ -0,0 +1,78 @@
+import type {
+  Prisma,
+  OutreachCampaign as PrismaOutreachCampaign,
+  OutreachMessage as PrismaOutreachMessage,
+} from '@generated/prisma/client'
+import { OutreachCampaign, OutreachMessage } from '../../domain/entities'
+
+export function campaignToPersistence(
+  entity: OutreachCampaign,
+): Prisma.OutreachCampaignUncheckedCreateInput {
+  return {
+    id: entity.id,
+    event_id: entity.eventId,
+    channel: entity.channel,
+    status: entity.status,
+    expires_in_days: entity.expiresInDays,
+    created_at: entity.createdAt,
+    completed_at: entity.completedAt,
+    cancelled_at: entity.cancelledAt,
+    created_by_id: entity.createdById,
+  }
+}
+
+export function campaignToEntity(record: PrismaOutreachCampaign): OutreachCampaign {
+  return OutreachCampaign.fromPersistence({
+    id: record.id,
+    eventId: record.event_id,
+    channel: record.channel,
+    status: record.status,
+    expiresInDays: record.expires_in_days,
+    createdAt: record.created_at,
+    completedAt: record.completed_at,
+    cancelledAt: record.cancelled_at,
+    createdById: record.created_by_id,
+  })
+}
+
+export function messageToPersistence(
+  entity: OutreachMessage,
+): Prisma.OutreachMessageUncheckedCreateInput {
+  return {
+    id: entity.id,
+    campaign_id: entity.campaignId,
+    participant_id: entity.participantId,
+    recipient_name: entity.recipientName,
+    recipient: entity.recipient,
+    photo_ids: entity.photoIds,
+    preview_link_id: entity.previewLinkId,
+    status: entity.status,
+    attempts: entity.attempts,
+    last_error: entity.lastError,
+    provider_message_id: entity.providerMessageId,
+    opt_out_token: entity.optOutToken,
+    created_at: entity.createdAt,
+    sent_at: entity.sentAt,
+    opted_out_at: entity.optedOutAt,
+  }
+}
+
+export function messageToEntity(record: PrismaOutreachMessage): OutreachMessage {
+  return OutreachMessage.fromPersistence({
+    id: record.id,
+    campaignId: record.campaign_id,
+    participantId: record.participant_id,
+    recipientName: record.recipient_name,
+    recipient: record.recipient,
+    photoIds: record.photo_ids,
+    previewLinkId: record.preview_link_id,
+    status: record.status,
+    attempts: record.attempts,
+    lastError: record.last_error,
+    providerMessageId: record.provider_message_id,
+    optOutToken: record.opt_out_token,
+    createdAt: record.created_at,
+    sentAt: record.sent_at,
+    optedOutAt: record.opted_out_at,
+  })
+}
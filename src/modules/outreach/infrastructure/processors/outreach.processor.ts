@@ -0,0 +1,31 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq'
+import { Logger } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { SendOutreachMessageCommand } from '@outreach/application/commands/send-outreach-message/send-outreach-message.command'
+import type { Job } from 'bullmq'
+
+export interface OutreachJobData {
+  messageId: string
+}
+
+const OUTREACH_SEND_CONCURRENCY = Number.parseInt(process.env.OUTREACH_SEND_CONCURRENCY ?? '5', 10)
+
+@Processor('outreach', { concurrency: OUTREACH_SEND_CONCURRENCY })
+export class OutreachProcessor extends WorkerHost {
+  private readonly logger = new Logger(OutreachProcessor.name)
+
+  constructor(private readonly commandBus: CommandBus) {
+    super()
+  }
+
+  async process(job: Job<OutreachJobData>): Promise<void> {
+    const { messageId } = job.data
+    try {
+      await this.commandBus.execute(new SendOutreachMessageCommand(messageId))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.logger.error(`✘ Outreach ${messageId} (attempt ${job.attemptsMade + 1}): ${message}`)
+      throw error
+    }
+  }
+}
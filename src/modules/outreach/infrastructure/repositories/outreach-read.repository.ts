@@ -0,0 +1,200 @@
+import type { Prisma } from '@generated/prisma/client'
+import { Injectable } from '@nestjs/common'
+import type {
+  OutreachCampaignProjection,
+  OutreachCampaignStatsProjection,
+  OutreachMessageProjection,
+} from '@outreach/application/projections'
+import type { OutreachCampaign, OutreachMessage } from '@outreach/domain/entities'
+import type { IOutreachReadRepository } from '@outreach/domain/ports'
+import type { OutreachChannelType } from '@outreach/domain/value-objects/outreach-channel.vo'
+import type { OutreachMessageStatusType } from '@outreach/domain/value-objects/outreach-message-status.vo'
+import { PaginatedResult, type Pagination } from '@shared/application'
+import { PrismaService } from '@shared/infrastructure'
+import * as OutreachMapper from '../mappers/outreach.mapper'
+
+type CampaignStatsRow = { campaign_id: string } & OutreachCampaignStatsProjection
+
+const EMPTY_STATS: OutreachCampaignStatsProjection = {
+  total: 0,
+  queued: 0,
+  sent: 0,
+  failed: 0,
+  optedOut: 0,
+  cancelled: 0,
+  viewed: 0,
+  ordered: 0,
+  paid: 0,
+}
+
+@Injectable()
+export class OutreachReadRepository implements IOutreachReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findCampaignById(id: string): Promise<OutreachCampaign | null> {
+    const record = await this.prisma.outreachCampaign.findUnique({ where: { id } })
+    return record ? OutreachMapper.campaignToEntity(record) : null
+  }
+
+  async existsSendingCampaign(eventId: string): Promise<boolean> {
+    const count = await this.prisma.outreachCampaign.count({
+      where: { event_id: eventId, status: 'sending' },
+    })
+    return count > 0
+  }
+
+  async findMessageById(id: string): Promise<OutreachMessage | null> {
+    const record = await this.prisma.outreachMessage.findUnique({ where: { id } })
+    return record ? OutreachMapper.messageToEntity(record) : null
+  }
+
+  async findMessageByOptOutToken(token: string): Promise<OutreachMessage | null> {
+    const record = await this.prisma.outreachMessage.findUnique({
+      where: { opt_out_token: token },
+    })
+    return record ? OutreachMapper.messageToEntity(record) : null
+  }
+
+  async findPreviewToken(previewLinkId: string): Promise<string | null> {
+    const record = await this.prisma.previewLink.findUnique({
+      where: { id: previewLinkId },
+      select: { token: true },
+    })
+    return record?.token ?? null
+  }
+
+  async findOptedOutAddresses(
+    channel: OutreachChannelType,
+    addresses: string[],
+  ): Promise<Set<string>> {
+    if (addresses.length === 0) return new Set()
+    const records = await this.prisma.outreachOptOut.findMany({
+      where: { channel, address: { in: addresses } },
+      select: { address: true },
+    })
+    return new Set(records.map((r) => r.address))
+  }
+
+  async getCampaignsList(
+    eventId: string,
+    pagination: Pagination,
+  ): Promise<PaginatedResult<OutreachCampaignProjection>> {
+    const where: Prisma.OutreachCampaignWhereInput = { event_id: eventId }
+    const [records, total] = await Promise.all([
+      this.prisma.outreachCampaign.findMany({
+        where,
+        include: { created_by: { select: { first_name: true, last_name: true } } },
+        orderBy: { created_at: 'desc' },
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      this.prisma.outreachCampaign.count({ where }),
+    ])
+
+    const stats = await this.getStats(records.map((r) => r.id))
+    return new PaginatedResult(
+      records.map((r) => ({
+        id: r.id,
+        channel: r.channel,
+        status: r.status,
+        expiresInDays: r.expires_in_days,
+        createdAt: r.created_at,
+        completedAt: r.completed_at,
+        cancelledAt: r.cancelled_at,
+        createdByName: [r.created_by.first_name, r.created_by.last_name].filter(Boolean).join(' '),
+        stats: stats.get(r.id) ?? EMPTY_STATS,
+      })),
+      total,
+      pagination,
+    )
+  }
+
+  async getCampaignMessages(
+    campaignId: string,
+    status: OutreachMessageStatusType | null,
+    pagination: Pagination,
+  ): Promise<PaginatedResult<OutreachMessageProjection>> {
+    const where: Prisma.OutreachMessageWhereInput = { campaign_id: campaignId }
+    if (status) where.status = status
+
+    const [records, total] = await Promise.all([
+      this.prisma.outreachMessage.findMany({
+        where,
+        include: {
+          participant: { select: { bib: true } },
+          preview_link: {
+            select: {
+              viewed_at: true,
+              orders: {
+                select: { id: true, status: true },
+                orderBy: { created_at: 'desc' },
+                take: 1,
+              },
+            },
+          },
+        },
+        orderBy: [{ participant: { bib: 'asc' } }, { recipient_name: 'asc' }],
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      this.prisma.outreachMessage.count({ where }),
+    ])
+
+    return new PaginatedResult(
+      records.map((r) => {
+        const order = r.preview_link?.orders[0] ?? null
+        return {
+          id: r.id,
+          participantId: r.participant_id,
+          bib: r.participant?.bib ?? null,
+          recipientName: r.recipient_name,
+          recipient: r.recipient,
+          status: r.status,
+          attempts: r.attempts,
+          lastError: r.last_error,
+          photoCount: r.photo_ids.length,
+          sentAt: r.sent_at,
+          optedOutAt: r.opted_out_at,
+          previewViewedAt: r.preview_link?.viewed_at ?? null,
+          orderId: order?.id ?? null,
+          orderStatus: order?.status ?? null,
+        }
+      }),
+      total,
+      pagination,
+    )
+  }
+
+  /** Send status and funnel counts per campaign: message → preview viewed → order → paid. */
+  private async getStats(
+    campaignIds: string[],
+  ): Promise<Map<string, OutreachCampaignStatsProjection>> {
+    if (campaignIds.length === 0) return new Map()
+
+    const rows = await this.prisma.$queryRaw<CampaignStatsRow[]>`
+      SELECT
+        m.campaign_id,
+        COUNT(*)::int AS "total",
+        COUNT(*) FILTER (WHERE m.status = 'queued')::int AS "queued",
+        COUNT(*) FILTER (WHERE m.status = 'sent')::int AS "sent",
+        COUNT(*) FILTER (WHERE m.status = 'failed')::int AS "failed",
+        COUNT(*) FILTER (WHERE m.status = 'opted_out')::int AS "optedOut",
+        COUNT(*) FILTER (WHERE m.status = 'cancelled')::int AS "cancelled",
+        COUNT(*) FILTER (WHERE pl.viewed_at IS NOT NULL)::int AS "viewed",
+        COUNT(*) FILTER (WHERE conv.ordered)::int AS "ordered",
+        COUNT(*) FILTER (WHERE conv.paid)::int AS "paid"
+      FROM outreach_messages m
+      LEFT JOIN preview_links pl ON pl.id = m.preview_link_id
+      LEFT JOIN LATERAL (
+        SELECT TRUE AS ordered, bool_or(o.status IN ('paid', 'delivered')) AS paid
+        FROM orders o
+        WHERE o.preview_link_id = m.preview_link_id
+        HAVING COUNT(*) > 0
+      ) conv ON TRUE
+      WHERE m.campaign_id = ANY(${campaignIds}::uuid[])
+      GROUP BY m.campaign_id
+    `
+
+    return new Map(rows.map(({ campaign_id, ...stats }) => [campaign_id, stats]))
+  }
+}
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common'
+import type { OutreachCampaign, OutreachMessage } from '@outreach/domain/entities'
+import type { IOutreachWriteRepository } from '@outreach/domain/ports'
+import type { OutreachChannelType } from '@outreach/domain/value-objects/outreach-channel.vo'
+import { PrismaService } from '@shared/infrastructure'
+import * as OutreachMapper from '../mappers/outreach.mapper'
+
+@Injectable()
+export class OutreachWriteRepository implements IOutreachWriteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(campaign: OutreachCampaign, messages: OutreachMessage[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.outreachCampaign.create({
+        data: OutreachMapper.campaignToPersistence(campaign),
+      }),
+      this.prisma.outreachMessage.createMany({
+        data: messages.map(OutreachMapper.messageToPersistence),
+      }),
+    ])
+  }
+
+  async saveCampaign(campaign: OutreachCampaign): Promise<void> {
+    const data = OutreachMapper.campaignToPersistence(campaign)
+    await this.prisma.outreachCampaign.update({ where: { id: campaign.id }, data })
+  }
+
+  async saveMessage(message: OutreachMessage): Promise<void> {
+    const data = OutreachMapper.messageToPersistence(message)
+    await this.prisma.outreachMessage.update({ where: { id: message.id }, data })
+  }
+
+  async cancelQueuedMessages(campaignId: string): Promise<number> {
+    const { count } = await this.prisma.outreachMessage.updateMany({
+      where: { campaign_id: campaignId, status: 'queued' },
+      data: { status: 'cancelled' },
+    })
+    return count
+  }
+
+  /**
+   * A single conditional UPDATE, so two workers finishing the last messages at the
+   * same time cannot both complete the campaign.
+   */
+  async completeIfDrained(campaignId: string): Promise<boolean> {
+    const updated = await this.prisma.$executeRaw`
+      UPDATE outreach_campaigns
+      SET status = 'completed', completed_at = NOW()
+      WHERE id = ${campaignId}::uuid
+        AND status = 'sending'
+        AND NOT EXISTS (
+          SELECT 1 FROM outreach_messages
+          WHERE campaign_id = ${campaignId}::uuid AND status = 'queued'
+        )
+    `
+    return updated > 0
+  }
+
+  async saveOptOut(
+    channel: OutreachChannelType,
+    address: string,
+    messageId: string,
+  ): Promise<void> {
+    await this.prisma.outreachOptOut.upsert({
+      where: { channel_address: { channel, address } },
+      create: { channel, address, message_id: messageId },
+      update: {},
+    })
+  }
+}
@@ -0,0 +1,2 @@
+export { OutboxMessageSender } from './outbox-message.sender'
+export { SmtpMessageSender } from './smtp-message.sender'
@@ -0,0 +1,35 @@
+import { randomUUID } from 'node:crypto'
+import { appendFile } from 'node:fs/promises'
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import type { IMessageSender, OutboundMessage } from '@outreach/domain/ports'
+import type { OutreachChannelType } from '@outreach/domain/value-objects/outreach-channel.vo'
+
+/**
+ * Stand-in transport for development and staging: accepts every channel and appends
+ * each message as a JSON line to the outbox file, or logs it when none is configured.
+ */
+@Injectable()
+export class OutboxMessageSender implements IMessageSender {
+  private readonly logger = new Logger(OutboxMessageSender.name)
+  private readonly outboxFile: string | undefined
+
+  constructor(config: ConfigService) {
+    this.outboxFile = config.get<string>('messaging.outboxFile')
+  }
+
+  supports(_channel: OutreachChannelType): boolean {
+    return true
+  }
+
+  async send(message: OutboundMessage): Promise<{ providerMessageId: string | null }> {
+    const providerMessageId = randomUUID()
+    if (this.outboxFile) {
+      const line = JSON.stringify({ id: providerMessageId, sentAt: new Date(), ...message })
+      await appendFile(this.outboxFile, `${line}\n`, 'utf8')
+    } else {
+      this.logger.log(`[${message.channel}] → ${message.to}: ${message.subject}\n${message.body}`)
+    }
+    return { providerMessageId }
+  }
+}
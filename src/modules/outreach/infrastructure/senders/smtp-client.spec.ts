@@ -0,0 +1,167 @@
+import { once } from 'node:events'
+import { type AddressInfo, createServer, type Server } from 'node:net'
+import { composeMessage, SmtpError, sendSmtpMail } from './smtp-client'
+
+/** Plain-text SMTP server answering each command from a script and recording what it got. */
+async function startServer(
+  reply: (command: string) => string,
+): Promise<{ server: Server; port: number; received: string[] }> {
+  const received: string[] = []
+  const server = createServer((socket) => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 test ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      let end = buffer.indexOf('\r\n')
+      while (end >= 0) {
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+        end = buffer.indexOf('\r\n')
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 2.0.0 Ok: queued as ABC123\r\n')
+          } else {
+            received.push(`DATA ${line}`)
+          }
+          continue
+        }
+        received.push(line)
+        if (line === 'DATA') inData = true
+        socket.write(`${reply(line)}\r\n`)
+        if (line === 'QUIT') socket.end()
+      }
+    })
+  })
+  server.listen(0, '127.0.0.1')
+  await once(server, 'listening')
+  return { server, port: (server.address() as AddressInfo).port, received }
+}
+
+const script = (line: string): string => {
+  if (line.startsWith('EHLO')) return '250-test\r\n250-AUTH LOGIN PLAIN\r\n250 8BITMIME'
+  if (line.startsWith('AUTH PLAIN')) return '235 2.7.0 Authentication successful'
+  if (line === 'DATA') return '354 End data with <CR><LF>.<CR><LF>'
+  if (line === 'QUIT') return '221 Bye'
+  return '250 Ok'
+}
+
+const mail = {
+  from: 'fotos@example.com',
+  fromName: 'Fotos Carrera',
+  to: 'eva@example.com',
+  toName: 'Eva Ruiz',
+  subject: 'Tus fotos están listas',
+  text: 'Hola Eva',
+}
+
+describe('sendSmtpMail', () => {
+  let server: Server | null = null
+
+  afterEach(async () => {
+    server?.close()
+    server = null
+  })
+
+  it('authenticates and submits the message, returning the queue reply', async () => {
+    const started = await startServer(script)
+    server = started.server
+
+    const reply = await sendSmtpMail(
+      {
+        host: '127.0.0.1',
+        port: started.port,
+        secure: false,
+        user: 'user',
+        password: 'secret',
+        allowInsecureAuth: true,
+      },
+      mail,
+    )
+
+    expect(reply).toBe('2.0.0 Ok: queued as ABC123')
+    const credentials = Buffer.from('\0user\0secret').toString('base64')
+    expect(started.received).toEqual(
+      expect.arrayContaining([
+        'EHLO localhost',
+        `AUTH PLAIN ${credentials}`,
+        'MAIL FROM:<fotos@example.com>',
+        'RCPT TO:<eva@example.com>',
+        'DATA',
+        'DATA Subject: =?UTF-8?B?VHVzIGZvdG9zIGVzdMOhbiBsaXN0YXM=?=',
+      ]),
+    )
+  })
+
+  it('refuses to authenticate without TLS unless allowed', async () => {
+    const started = await startServer(script)
+    server = started.server
+
+    const error = await sendSmtpMail(
+      { host: '127.0.0.1', port: started.port, secure: false, user: 'user', password: 'secret' },
+      mail,
+    ).catch((e) => e)
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.message).toContain('refusing to send credentials')
+    expect(started.received.some((line) => line.startsWith('AUTH'))).toBe(false)
+    expect(started.received.some((line) => line.startsWith('MAIL'))).toBe(false)
+  })
+
+  it('raises the server error code when a recipient is refused', async () => {
+    const started = await startServer((line) =>
+      line.startsWith('RCPT') ? '550 5.1.1 Mailbox unavailable' : script(line),
+    )
+    server = started.server
+
+    const error = await sendSmtpMail(
+      { host: '127.0.0.1', port: started.port, secure: false },
+      mail,
+    ).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SmtpError)
+    expect(error.code).toBe(550)
+  })
+
+  it('gives up when the connection is not established in time', async () => {
+    // Accepts the TCP connection but never answers the TLS handshake
+    const silent = createServer(() => undefined)
+    silent.listen(0, '127.0.0.1')
+    await once(silent, 'listening')
+    server = silent
+
+    const error = await sendSmtpMail(
+      {
+        host: '127.0.0.1',
+        port: (silent.address() as AddressInfo).port,
+        secure: true,
+        timeoutMs: 50,
+      },
+      mail,
+    ).catch((e) => e)
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.message).toBe('SMTP connection timed out')
+  })
+
+  it('rejects addresses that could inject SMTP commands', async () => {
+    const error = await sendSmtpMail(
+      { host: '127.0.0.1', port: 1, secure: false },
+      { ...mail, to: 'eva@example.com>\r\nRCPT TO:<other@example.com' },
+    ).catch((e) => e)
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.message).toContain('Invalid email address')
+  })
+})
+
+describe('composeMessage', () => {
+  it('encodes non-ASCII headers and base64-encodes the body', () => {
+    const message = composeMessage(mail)
+
+    expect(message).toContain('To: Eva Ruiz <eva@example.com>')
+    expect(message).toContain('Content-Transfer-Encoding: base64')
+    expect(message.split('\r\n\r\n')[1]).toBe(Buffer.from('Hola Eva').toString('base64'))
+  })
+})
@@ -0,0 +1,270 @@
+import { randomUUID } from 'node:crypto'
+import { once } from 'node:events'
+import * as net from 'node:net'
+import * as tls from 'node:tls'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  /** Implicit TLS from the first byte (port 465); otherwise STARTTLS is used when offered. */
+  secure: boolean
+  user?: string
+  password?: string
+  /** Allows AUTH over a connection that is not encrypted, e.g. a relay on localhost. */
+  allowInsecureAuth?: boolean
+  /** Limit for connecting, the TLS handshake and each reply; 30 s by default. */
+  timeoutMs?: number
+}
+
+export interface SmtpMail {
+  from: string
+  fromName?: string
+  to: string
+  toName?: string
+  subject: string
+  text: string
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+export class SmtpError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(`SMTP ${code}: ${message}`)
+    this.name = 'SmtpError'
+  }
+}
+
+/**
+ * Minimal SMTP submission client: one connection per message, EHLO, optional STARTTLS
+ * and AUTH (PLAIN or LOGIN), then MAIL/RCPT/DATA. Returns the server's reply to the
+ * message data, which usually carries its queue id. Credentials are only sent over TLS
+ * unless `allowInsecureAuth` is set.
+ */
+export async function sendSmtpMail(options: SmtpOptions, mail: SmtpMail): Promise<string> {
+  assertAddress(mail.from)
+  assertAddress(mail.to)
+
+  const connection = await SmtpConnection.open(options)
+  try {
+    await connection.expect(null, [220])
+    let ehlo = await connection.expect('EHLO localhost', [250])
+    let encrypted = options.secure
+    if (!encrypted && /^STARTTLS\b/im.test(ehlo)) {
+      await connection.expect('STARTTLS', [220])
+      await connection.upgrade(options.host)
+      ehlo = await connection.expect('EHLO localhost', [250])
+      encrypted = true
+    }
+    if (options.user) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error('SMTP server offers no TLS; refusing to send credentials in clear text')
+      }
+      await authenticate(connection, ehlo, options.user, options.password ?? '')
+    }
+
+    await connection.expect(`MAIL FROM:<${mail.from}>`, [250])
+    await connection.expect(`RCPT TO:<${mail.to}>`, [250, 251])
+    await connection.expect('DATA', [354])
+    const accepted = await connection.expect(`${composeMessage(mail)}\r\n.`, [250])
+    await connection.expect('QUIT', [221]).catch(() => undefined)
+    return accepted
+  } finally {
+    connection.close()
+  }
+}
+
+/** Builds a UTF-8 plain-text RFC 5322 message, base64-encoded so no line needs dot-stuffing. */
+export function composeMessage(mail: SmtpMail): string {
+  const domain = mail.from.split('@')[1] ?? 'localhost'
+  const headers = [
+    `From: ${formatAddress(mail.from, mail.fromName)}`,
+    `To: ${formatAddress(mail.to, mail.toName)}`,
+    `Subject: ${encodeWord(mail.subject)}`,
+    `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ]
+  const body =
+    Buffer.from(mail.text, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g) ?? []
+  return [...headers, '', ...body].join('\r\n')
+}
+
+async function authenticate(
+  connection: SmtpConnection,
+  ehlo: string,
+  user: string,
+  password: string,
+): Promise<void> {
+  const mechanisms =
+    ehlo
+      .match(/^AUTH[ =](.*)$/im)?.[1]
+      .toUpperCase()
+      .split(/\s+/) ?? []
+  if (mechanisms.includes('PLAIN')) {
+    const credentials = Buffer.from(`\0${user}\0${password}`, 'utf8').toString('base64')
+    await connection.expect(`AUTH PLAIN ${credentials}`, [235])
+    return
+  }
+  if (mechanisms.includes('LOGIN')) {
+    await connection.expect('AUTH LOGIN', [334])
+    await connection.expect(Buffer.from(user, 'utf8').toString('base64'), [334])
+    await connection.expect(Buffer.from(password, 'utf8').toString('base64'), [235])
+    return
+  }
+  throw new Error('SMTP server offers no supported AUTH mechanism')
+}
+
+function assertAddress(address: string): void {
+  if (!/^[^\s<>@]+@[^\s<>@]+$/.test(address)) {
+    throw new Error(`Invalid email address: ${address}`)
+  }
+}
+
+function formatAddress(address: string, name?: string): string {
+  return name ? `${encodeWord(name)} <${address}>` : `<${address}>`
+}
+
+/** RFC 2047 encoded word for header text outside printable ASCII. */
+function encodeWord(text: string): string {
+  const clean = text.replace(/[\r\n]+/g, ' ')
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`
+}
+
+class SmtpConnection {
+  private buffer = ''
+  private readonly lines: string[] = []
+  private failure: Error | null = null
+  private wake: (() => void) | null = null
+
+  private constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.bind(socket)
+  }
+
+  static async open(options: SmtpOptions): Promise<SmtpConnection> {
+    const timeoutMs = options.timeoutMs ?? 30_000
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port })
+    await waitFor(socket, options.secure ? 'secureConnect' : 'connect', timeoutMs)
+    return new SmtpConnection(socket, timeoutMs)
+  }
+
+  /** Sends a line (or just reads, for the greeting) and checks the reply code. */
+  async expect(line: string | null, codes: number[]): Promise<string> {
+    if (line !== null) this.socket.write(`${line}\r\n`)
+    const reply = await this.readReply()
+    if (!codes.includes(reply.code)) throw new SmtpError(reply.code, reply.text)
+    return reply.text
+  }
+
+  async upgrade(host: string): Promise<void> {
+    this.unbind(this.socket)
+    const secure = tls.connect({ socket: this.socket, servername: host })
+    await waitFor(secure, 'secureConnect', this.timeoutMs)
+    this.bind(secure)
+  }
+
+  close(): void {
+    this.socket.destroy()
+  }
+
+  private async readReply(): Promise<SmtpReply> {
+    const text: string[] = []
+    for (;;) {
+      const line = await this.readLine()
+      text.push(line.slice(4))
+      if (line[3] !== '-')
+        return { code: Number.parseInt(line.slice(0, 3), 10), text: text.join('\n') }
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    for (;;) {
+      const line = this.lines.shift()
+      if (line !== undefined) return line
+      if (this.failure) throw this.failure
+      await new Promise<void>((resolve) => {
+        this.wake = resolve
+      })
+    }
+  }
+
+  private bind(socket: net.Socket): void {
+    this.socket = socket
+    socket.setTimeout(this.timeoutMs)
+    socket.on('data', this.onData)
+    socket.on('timeout', this.onTimeout)
+    socket.on('error', this.onError)
+    socket.on('close', this.onClose)
+  }
+
+  private unbind(socket: net.Socket): void {
+    socket.setTimeout(0)
+    socket.off('data', this.onData)
+    socket.off('timeout', this.onTimeout)
+    socket.off('error', this.onError)
+    socket.off('close', this.onClose)
+  }
+
+  private readonly onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf8')
+    let end = this.buffer.indexOf('\r\n')
+    while (end >= 0) {
+      this.lines.push(this.buffer.slice(0, end))
+      this.buffer = this.buffer.slice(end + 2)
+      end = this.buffer.indexOf('\r\n')
+    }
+    this.notify()
+  }
+
+  private readonly onTimeout = (): void => {
+    this.fail(new Error('SMTP connection timed out'))
+    this.socket.destroy()
+  }
+
+  private readonly onError = (error: Error): void => this.fail(error)
+
+  private readonly onClose = (): void => this.fail(new Error('SMTP connection closed'))
+
+  private fail(error: Error): void {
+    this.failure ??= error
+    this.notify()
+  }
+
+  private notify(): void {
+    const wake = this.wake
+    this.wake = null
+    wake?.()
+  }
+}
+
+/** Waits for the socket to connect, destroying it when that takes longer than `timeoutMs`. */
+async function waitFor(
+  socket: net.Socket,
+  event: 'connect' | 'secureConnect',
+  timeoutMs: number,
+): Promise<void> {
+  const onTimeout = () => socket.destroy(new Error('SMTP connection timed out'))
+  socket.setTimeout(timeoutMs)
+  socket.once('timeout', onTimeout)
+  try {
+    await once(socket, event)
+  } finally {
+    socket.setTimeout(0)
+    socket.off('timeout', onTimeout)
+  }
+}
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import type { IMessageSender, OutboundMessage } from '@outreach/domain/ports'
+import {
+  OutreachChannel,
+  type OutreachChannelType,
+} from '@outreach/domain/value-objects/outreach-channel.vo'
+import { type SmtpOptions, sendSmtpMail } from './smtp-client'
+
+/** Email through any SMTP submission server (SES, Postmark, Mailgun, a local relay…). */
+@Injectable()
+export class SmtpMessageSender implements IMessageSender {
+  private readonly options: SmtpOptions
+  private readonly from: string
+  private readonly fromName: string | undefined
+
+  constructor(config: ConfigService) {
+    this.options = {
+      host: config.getOrThrow<string>('messaging.smtp.host'),
+      port: config.getOrThrow<number>('messaging.smtp.port'),
+      secure: config.get<boolean>('messaging.smtp.secure') ?? false,
+      user: config.get<string>('messaging.smtp.user'),
+      password: config.get<string>('messaging.smtp.password'),
+      allowInsecureAuth: config.get<boolean>('messaging.smtp.allowInsecureAuth') ?? false,
+    }
+    this.from = config.getOrThrow<string>('messaging.smtp.from')
+    this.fromName = config.get<string>('messaging.smtp.fromName')
+  }
+
+  supports(channel: OutreachChannelType): boolean {
+    return channel === OutreachChannel.EMAIL
+  }
+
+  async send(message: OutboundMessage): Promise<{ providerMessageId: string | null }> {
+    const reply = await sendSmtpMail(this.options, {
+      from: this.from,
+      fromName: this.fromName,
+      to: message.to,
+      toName: message.recipientName,
+      subject: message.subject,
+      text: message.body,
+    })
+    return { providerMessageId: reply.slice(0, 255) || null }
+  }
+}
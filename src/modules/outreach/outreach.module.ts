@@ -0,0 +1,53 @@
+import { BullModule } from '@nestjs/bullmq'
+import { forwardRef, Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CqrsModule } from '@nestjs/cqrs'
+import { EventsModule } from '../events/events.module'
+import { ParticipantsModule } from '../participants/participants.module'
+import { CancelOutreachCampaignHandler } from './application/commands/cancel-outreach-campaign/cancel-outreach-campaign.handler'
+import { CreateOutreachCampaignHandler } from './application/commands/create-outreach-campaign/create-outreach-campaign.handler'
+import { OptOutOutreachHandler } from './application/commands/opt-out-outreach/opt-out-outreach.handler'
+import { SendOutreachMessageHandler } from './application/commands/send-outreach-message/send-outreach-message.handler'
+import { GetOutreachCampaignsHandler } from './application/queries/get-outreach-campaigns/get-outreach-campaigns.handler'
+import { GetOutreachMessagesHandler } from './application/queries/get-outreach-messages/get-outreach-messages.handler'
+import { MESSAGE_SENDER, OUTREACH_READ_REPOSITORY, OUTREACH_WRITE_REPOSITORY } from './domain/ports'
+import { OutreachProcessor } from './infrastructure/processors/outreach.processor'
+import { OutreachReadRepository } from './infrastructure/repositories/outreach-read.repository'
+import { OutreachWriteRepository } from './infrastructure/repositories/outreach-write.repository'
+import { OutboxMessageSender, SmtpMessageSender } from './infrastructure/senders'
+import { OutreachCampaignsController } from './presentation/controllers/outreach-campaigns.controller'
+import { OutreachPublicController } from './presentation/controllers/outreach-public.controller'
+
+const CommandHandlers = [
+  CreateOutreachCampaignHandler,
+  SendOutreachMessageHandler,
+  CancelOutreachCampaignHandler,
+  OptOutOutreachHandler,
+]
+const QueryHandlers = [GetOutreachCampaignsHandler, GetOutreachMessagesHandler]
+
+@Module({
+  imports: [
+    CqrsModule,
+    BullModule.registerQueue({ name: 'outreach' }),
+    forwardRef(() => EventsModule),
+    ParticipantsModule,
+  ],
+  controllers: [OutreachCampaignsController, OutreachPublicController],
+  providers: [
+    ...CommandHandlers,
+    ...QueryHandlers,
+    OutreachProcessor,
+    { provide: OUTREACH_READ_REPOSITORY, useClass: OutreachReadRepository },
+    { provide: OUTREACH_WRITE_REPOSITORY, useClass: OutreachWriteRepository },
+    {
+      provide: MESSAGE_SENDER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        config.get<string>('messaging.driver') === 'smtp'
+          ? new SmtpMessageSender(config)
+          : new OutboxMessageSender(config),
+    },
+  ],
+})
+export class OutreachModule {}
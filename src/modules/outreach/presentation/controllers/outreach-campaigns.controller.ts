@@ -0,0 +1,116 @@
+import { Body, Controller, Get, HttpCode, Param, Post, Query } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  CancelOutreachCampaignCommand,
+  CreateOutreachCampaignCommand,
+  CreateOutreachCampaignDto,
+} from '@outreach/application/commands'
+import {
+  OutreachCampaignCreatedProjection,
+  OutreachCampaignProjection,
+  OutreachMessageProjection,
+} from '@outreach/application/projections'
+import {
+  GetOutreachCampaignsQuery,
+  GetOutreachMessagesDto,
+  GetOutreachMessagesQuery,
+} from '@outreach/application/queries'
+import {
+  AuditContext,
+  EntityIdProjection,
+  Pagination,
+  PaginationQueryDto,
+} from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Outreach')
+@ApiBearerAuth()
+@Controller()
+export class OutreachCampaignsController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  /** Queues one "your photos are ready" message per participant with matched photos. */
+  @Roles('admin')
+  @Post('events/:eventId/outreach-campaigns')
+  @SuccessMessage('success.CREATED', { entity: 'entities.outreach_campaign' })
+  @ApiOperation({ summary: 'Send a "your photos are ready" campaign to the start list' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Campaign created and messages queued',
+    type: OutreachCampaignCreatedProjection,
+  })
+  @ApiEnvelopeErrorResponse({
+    status: 400,
+    description: 'Channel not supported, campaign already sending or nobody to message',
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async create(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreateOutreachCampaignDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new CreateOutreachCampaignCommand(
+        eventId,
+        dto.channel,
+        dto.expiresInDays ?? 7,
+        new AuditContext(user.userId),
+      ),
+    )
+  }
+
+  /** Lists the event campaigns, newest first, with send and conversion counts. */
+  @Roles('admin')
+  @Get('events/:eventId/outreach-campaigns')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List the outreach campaigns of an event' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Paginated campaigns with delivery and conversion stats',
+    type: OutreachCampaignProjection,
+    isArray: true,
+  })
+  async findAll(@Param('eventId') eventId: string, @Query() dto: PaginationQueryDto) {
+    const pagination = new Pagination(dto.page ?? 1, dto.limit ?? 20)
+    return this.queryBus.execute(new GetOutreachCampaignsQuery(eventId, pagination))
+  }
+
+  /** Per-participant send status, preview views and resulting orders. */
+  @Roles('admin')
+  @Get('outreach-campaigns/:id/messages')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List the messages of an outreach campaign' })
+  @ApiParam({ name: 'id', description: 'Campaign UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Paginated messages ordered by bib',
+    type: OutreachMessageProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Campaign not found' })
+  async findMessages(@Param('id') id: string, @Query() dto: GetOutreachMessagesDto) {
+    const pagination = new Pagination(dto.page ?? 1, dto.limit ?? 20)
+    return this.queryBus.execute(new GetOutreachMessagesQuery(id, pagination, dto.status ?? null))
+  }
+
+  /** Stops a campaign; messages not yet sent are cancelled. */
+  @Roles('admin')
+  @Post('outreach-campaigns/:id/cancel')
+  @HttpCode(200)
+  @SuccessMessage('success.UPDATED', { entity: 'entities.outreach_campaign' })
+  @ApiOperation({ summary: 'Cancel a sending outreach campaign' })
+  @ApiParam({ name: 'id', description: 'Campaign UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({ status: 200, description: 'Campaign cancelled', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Campaign is no longer sending' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Campaign not found' })
+  async cancel(@Param('id') id: string) {
+    return this.commandBus.execute(new CancelOutreachCampaignCommand(id))
+  }
+}
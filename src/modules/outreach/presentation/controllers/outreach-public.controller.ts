@@ -0,0 +1,25 @@
+import { Controller, HttpCode, Param, Post } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import { Throttle } from '@nestjs/throttler'
+import { OptOutOutreachCommand } from '@outreach/application/commands'
+import { Public } from '@shared/auth'
+import { ApiEnvelopeErrorResponse } from '@shared/http'
+
+@ApiTags('Outreach (Public)')
+@Controller('outreach')
+export class OutreachPublicController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  // Same token-enumeration guard as the preview and delivery token endpoints.
+  @Throttle({ sensitive_token: { limit: 10, ttl: 60000 } })
+  @Public()
+  @Post('opt-out/:token')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Stop receiving outreach messages (public, from the message link)' })
+  @ApiParam({ name: 'token', description: 'Opt-out token (64 hex chars)' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Unknown opt-out token' })
+  async optOut(@Param('token') token: string) {
+    await this.commandBus.execute(new OptOutOutreachCommand(token))
+  }
+}
@@ -0,0 +1,7 @@
+export class CreateCheckpointCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly name: string,
+    public readonly toleranceSeconds?: number,
+  ) {}
+}
@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator'
+
+export class CreateCheckpointDto {
+  @ApiProperty({
+    description: 'Checkpoint name; timing exports are matched to it by header or value',
+    example: 'KM 12',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string
+
+  @ApiPropertyOptional({
+    description: "Seconds a photo may be taken before or after a rider's split and still match it",
+    example: 300,
+    default: 300,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(21600)
+  toleranceSeconds?: number
+}
@@ -0,0 +1,33 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { Checkpoint } from '@participants/domain/entities'
+import { CHECKPOINT_REPOSITORY, type ICheckpointRepository } from '@participants/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { CreateCheckpointCommand } from './create-checkpoint.command'
+
+@CommandHandler(CreateCheckpointCommand)
+export class CreateCheckpointHandler implements ICommandHandler<CreateCheckpointCommand> {
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(CHECKPOINT_REPOSITORY) private readonly checkpointRepo: ICheckpointRepository,
+  ) {}
+
+  async execute(command: CreateCheckpointCommand): Promise<EntityIdProjection> {
+    const event = await this.eventReadRepo.findById(command.eventId)
+    if (!event) throw AppException.notFound('Event', command.eventId)
+
+    const checkpoint = Checkpoint.create({
+      eventId: command.eventId,
+      name: command.name,
+      toleranceSeconds: command.toleranceSeconds,
+    })
+    if (await this.checkpointRepo.existsByName(command.eventId, checkpoint.name)) {
+      throw AppException.businessRule('participant.checkpoint_name_taken')
+    }
+
+    await this.checkpointRepo.save(checkpoint)
+    return { id: checkpoint.id }
+  }
+}
@@ -0,0 +1,9 @@
+export class GenerateRosterUploadUrlCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly fileName: string,
+    public readonly contentType: string,
+    /** Start lists and timing exports are kept apart under the event prefix. */
+    public readonly folder: 'rosters' | 'timing' = 'rosters',
+  ) {}
+}
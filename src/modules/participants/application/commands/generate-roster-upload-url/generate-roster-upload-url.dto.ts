@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsIn, IsString, MaxLength } from 'class-validator'
+
+export const ROSTER_CONTENT_TYPES = [
+  'text/csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+] as const
+
+export class GenerateRosterUploadUrlDto {
+  @ApiProperty({ description: 'Original file name', example: 'inscritos.xlsx', maxLength: 255 })
+  @IsString()
+  @MaxLength(255)
+  fileName: string
+
+  @ApiProperty({
+    description: 'MIME type of the file',
+    example: 'text/csv',
+    enum: ROSTER_CONTENT_TYPES,
+  })
+  @IsIn(ROSTER_CONTENT_TYPES)
+  contentType: string
+}
@@ -0,0 +1,12 @@
+import type { AuditContext } from '@shared/application'
+
+export class ImportRosterCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly objectKey: string,
+    public readonly dryRun: boolean,
+    /** Delete participants of the event that are missing from the file. */
+    public readonly replaceExisting: boolean,
+    public readonly audit: AuditContext,
+  ) {}
+}
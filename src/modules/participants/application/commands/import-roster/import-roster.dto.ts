@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { IsBoolean, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator'
+
+export class ImportRosterDto {
+  @ApiProperty({
+    description: 'Object key returned by the roster upload-url endpoint',
+    example: 'events/550e8400-e29b-41d4-a716-446655440000/rosters/uuid-inscritos.csv',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  objectKey: string
+
+  @ApiPropertyOptional({
+    description: 'Validate and preview the import without writing anything',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean
+
+  @ApiPropertyOptional({
+    description: 'Delete participants of the event that are not in the file',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  replaceExisting?: boolean
+}
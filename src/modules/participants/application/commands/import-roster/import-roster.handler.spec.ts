@@ -0,0 +1,110 @@
+import { Participant } from '@participants/domain/entities'
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { ImportRosterCommand } from './import-roster.command'
+import { ImportRosterHandler } from './import-roster.handler'
+
+const eventId = '550e8400-e29b-41d4-a716-446655440000'
+const objectKey = `events/${eventId}/rosters/abc-inscritos.csv`
+
+const existing = Participant.fromPersistence({
+  id: 'participant-1',
+  eventId,
+  bib: '1',
+  fullName: 'Eva Ruiz',
+  email: null,
+  phone: null,
+  participantCategoryId: null,
+  team: null,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  importedById: null,
+})
+
+const command = (overrides: { dryRun?: boolean; replaceExisting?: boolean; key?: string } = {}) =>
+  new ImportRosterCommand(
+    eventId,
+    overrides.key ?? objectKey,
+    overrides.dryRun ?? false,
+    overrides.replaceExisting ?? false,
+    new AuditContext('admin-1'),
+  )
+
+describe('ImportRosterHandler', () => {
+  let eventReadRepo: { findById: jest.Mock }
+  let participantReadRepo: { findEventCategories: jest.Mock; findByEvent: jest.Mock }
+  let participantWriteRepo: { applyImport: jest.Mock }
+  let rosterReader: { read: jest.Mock }
+  let handler: ImportRosterHandler
+
+  beforeEach(() => {
+    eventReadRepo = { findById: jest.fn().mockResolvedValue({ id: eventId }) }
+    participantReadRepo = {
+      findEventCategories: jest.fn().mockResolvedValue([{ id: 3, name: 'Master A' }]),
+      findByEvent: jest.fn().mockResolvedValue([existing]),
+    }
+    participantWriteRepo = { applyImport: jest.fn().mockResolvedValue(undefined) }
+    rosterReader = {
+      read: jest.fn().mockResolvedValue([
+        ['Dorsal', 'Nombre', 'Categoría'],
+        ['1', 'Eva Ruiz', ''],
+        ['2', 'Juan Díaz', 'Master A'],
+      ]),
+    }
+    handler = new ImportRosterHandler(
+      eventReadRepo as never,
+      participantReadRepo as never,
+      participantWriteRepo as never,
+      rosterReader as never,
+    )
+  })
+
+  it('rejects object keys outside the event roster folder', async () => {
+    const error = await handler
+      .execute(command({ key: `events/${eventId}/photo.jpg` }))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+    expect(rosterReader.read).not.toHaveBeenCalled()
+  })
+
+  it('previews a dry run without writing', async () => {
+    const result = await handler.execute(command({ dryRun: true }))
+
+    expect(participantWriteRepo.applyImport).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ dryRun: true, totalRows: 2, created: 1, unchanged: 1 })
+    expect(result.rows.map((r) => r.action)).toEqual(['unchanged', 'create'])
+  })
+
+  it('creates new participants and only removes missing ones when replacing', async () => {
+    rosterReader.read.mockResolvedValueOnce([
+      ['dorsal', 'nombre'],
+      ['2', 'Juan Díaz'],
+    ])
+
+    const result = await handler.execute(command({ replaceExisting: true }))
+
+    const [saved, removeIds] = participantWriteRepo.applyImport.mock.calls[0]
+    expect(saved).toEqual([
+      expect.objectContaining({ bib: '2', fullName: 'Juan Díaz', importedById: 'admin-1' }),
+    ])
+    expect(removeIds).toEqual(['participant-1'])
+    expect(result.removed).toBe(1)
+  })
+
+  it('refuses to import a roster with invalid rows but reports them on a dry run', async () => {
+    rosterReader.read.mockResolvedValue([
+      ['dorsal', 'nombre'],
+      ['x1', 'Bad Bib'],
+    ])
+
+    const error = await handler.execute(command()).catch((e) => e)
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+    expect(participantWriteRepo.applyImport).not.toHaveBeenCalled()
+
+    const preview = await handler.execute(command({ dryRun: true }))
+    expect(preview.errors).toEqual([{ row: 2, field: 'bib', code: 'invalid_bib', value: 'x1' }])
+  })
+})
@@ -0,0 +1,94 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { RosterImportProjection } from '@participants/application/projections'
+import { Participant } from '@participants/domain/entities'
+import {
+  type IParticipantReadRepository,
+  type IParticipantWriteRepository,
+  type IRosterFileReader,
+  PARTICIPANT_READ_REPOSITORY,
+  PARTICIPANT_WRITE_REPOSITORY,
+  ROSTER_FILE_READER,
+} from '@participants/domain/ports'
+import { RosterImport } from '@participants/domain/services/roster-import.service'
+import { AppException } from '@shared/domain'
+import { ImportRosterCommand } from './import-roster.command'
+
+@CommandHandler(ImportRosterCommand)
+export class ImportRosterHandler implements ICommandHandler<ImportRosterCommand> {
+  private readonly logger = new Logger(ImportRosterHandler.name)
+
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
+    @Inject(PARTICIPANT_WRITE_REPOSITORY)
+    private readonly participantWriteRepo: IParticipantWriteRepository,
+    @Inject(ROSTER_FILE_READER) private readonly rosterReader: IRosterFileReader,
+  ) {}
+
+  /**
+   * Validates the uploaded roster and upserts participants by bib. A dry run returns the
+   * same preview without writing; a real import is refused while any row has an error.
+   */
+  async execute(command: ImportRosterCommand): Promise<RosterImportProjection> {
+    const event = await this.eventReadRepo.findById(command.eventId)
+    if (!event) throw AppException.notFound('Event', command.eventId)
+
+    if (!command.objectKey.startsWith(`events/${command.eventId}/rosters/`)) {
+      throw AppException.businessRule('participant.invalid_object_key_prefix')
+    }
+
+    const [table, categories, existing] = await Promise.all([
+      this.rosterReader.read(command.objectKey),
+      this.participantReadRepo.findEventCategories(command.eventId),
+      this.participantReadRepo.findByEvent(command.eventId),
+    ])
+    const { rows, errors } = RosterImport.parse(table, categories)
+    const plan = RosterImport.plan(rows, existing)
+    const removed = command.replaceExisting ? plan.missing : []
+
+    if (!command.dryRun) {
+      if (errors.length > 0) {
+        throw AppException.businessRule('participant.roster_has_errors', false, {
+          errors: errors.length,
+        })
+      }
+
+      const importedById = command.audit.userId
+      const created = plan.creates.map((row) =>
+        Participant.create({ ...row, eventId: command.eventId, importedById }),
+      )
+      for (const { participant, row } of plan.updates) participant.update(row, importedById)
+
+      await this.participantWriteRepo.applyImport(
+        [...created, ...plan.updates.map((u) => u.participant)],
+        removed.map((p) => p.id),
+      )
+      this.logger.log(
+        `Roster of event ${command.eventId}: ${created.length} created, ${plan.updates.length} updated, ${removed.length} removed`,
+      )
+    }
+
+    return {
+      dryRun: command.dryRun,
+      totalRows: rows.length + new Set(errors.map((e) => e.row)).size,
+      created: plan.creates.length,
+      updated: plan.updates.length,
+      unchanged: plan.unchanged.length,
+      removed: removed.length,
+      errors,
+      rows: rows.map((row) => ({
+        row: row.row,
+        bib: row.bib,
+        fullName: row.fullName,
+        email: row.email,
+        phone: row.phone,
+        categoryName: row.categoryName,
+        team: row.team,
+        action: plan.actions.get(row.row) ?? 'unchanged',
+      })),
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import type { AuditContext } from '@shared/application'
+import type { TimeReferenceType } from '../../../domain/services/timing-import.service'
+
+export class ImportTimingCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly objectKey: string,
+    /** ISO 8601 date-time with a UTC offset; anchors clock and elapsed times. */
+    public readonly raceStart: string,
+    public readonly timeReference: TimeReferenceType,
+    public readonly dryRun: boolean,
+    public readonly audit: AuditContext,
+  ) {}
+}
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import {
+  IsBoolean,
+  IsIn,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator'
+import {
+  TimeReference,
+  type TimeReferenceType,
+} from '../../../domain/services/timing-import.service'
+
+export class ImportTimingDto {
+  @ApiProperty({
+    description: 'Object key returned by the timing upload-url endpoint',
+    example: 'events/550e8400-e29b-41d4-a716-446655440000/timing/uuid-resultados.csv',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  objectKey: string
+
+  @ApiProperty({
+    description: 'Race start (gun time) with its UTC offset',
+    example: '2026-03-14T07:00:00-05:00',
+  })
+  @IsISO8601()
+  @Matches(/(Z|[+-]\d{2}:?\d{2})$/, { message: 'raceStart must include a UTC offset' })
+  raceStart: string
+
+  @ApiPropertyOptional({
+    description:
+      'How to read times without a date: clock time of the passing, or time since the start',
+    enum: Object.values(TimeReference),
+    default: TimeReference.TIME_OF_DAY,
+  })
+  @IsOptional()
+  @IsIn(Object.values(TimeReference))
+  timeReference?: TimeReferenceType
+
+  @ApiPropertyOptional({
+    description: 'Validate and preview the import without writing anything',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean
+}
@@ -0,0 +1,132 @@
+import { Checkpoint, Participant } from '@participants/domain/entities'
+import { TimeReference } from '@participants/domain/services/timing-import.service'
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { ImportTimingCommand } from './import-timing.command'
+import { ImportTimingHandler } from './import-timing.handler'
+
+const eventId = '550e8400-e29b-41d4-a716-446655440000'
+const objectKey = `events/${eventId}/timing/abc-resultados.csv`
+
+const km12 = Checkpoint.fromPersistence({
+  id: 'checkpoint-1',
+  eventId,
+  name: 'KM 12',
+  toleranceSeconds: 300,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+})
+
+const participant = (bib: string) =>
+  Participant.fromPersistence({
+    id: `participant-${bib}`,
+    eventId,
+    bib,
+    fullName: `Rider ${bib}`,
+    email: null,
+    phone: null,
+    participantCategoryId: null,
+    team: null,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    importedById: null,
+  })
+
+const command = (overrides: { dryRun?: boolean; key?: string } = {}) =>
+  new ImportTimingCommand(
+    eventId,
+    overrides.key ?? objectKey,
+    '2026-03-14T07:00:00-05:00',
+    TimeReference.TIME_OF_DAY,
+    overrides.dryRun ?? false,
+    new AuditContext('admin-1'),
+  )
+
+describe('ImportTimingHandler', () => {
+  let eventReadRepo: { findById: jest.Mock }
+  let participantReadRepo: { findByEvent: jest.Mock }
+  let checkpointRepo: { findByEvent: jest.Mock; replaceSplits: jest.Mock }
+  let fileReader: { read: jest.Mock }
+  let handler: ImportTimingHandler
+
+  beforeEach(() => {
+    eventReadRepo = { findById: jest.fn().mockResolvedValue({ id: eventId }) }
+    participantReadRepo = {
+      findByEvent: jest.fn().mockResolvedValue([participant('142'), participant('7')]),
+    }
+    checkpointRepo = {
+      findByEvent: jest.fn().mockResolvedValue([km12]),
+      replaceSplits: jest.fn().mockResolvedValue(undefined),
+    }
+    fileReader = {
+      read: jest.fn().mockResolvedValue([
+        ['Dorsal', 'Punto de control', 'Hora'],
+        ['142', 'km 12', '07:48:10'],
+        ['7', 'KM 12', '07:51:00'],
+        ['142', 'Meta', '09:02:00'],
+        ['999', 'Meta', '09:10:00'],
+      ]),
+    }
+    handler = new ImportTimingHandler(
+      eventReadRepo as never,
+      participantReadRepo as never,
+      checkpointRepo as never,
+      fileReader as never,
+    )
+  })
+
+  it('rejects object keys outside the event timing folder', async () => {
+    const error = await handler
+      .execute(command({ key: `events/${eventId}/rosters/abc.csv` }))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+    expect(fileReader.read).not.toHaveBeenCalled()
+  })
+
+  it('previews a dry run without writing', async () => {
+    const result = await handler.execute(command({ dryRun: true }))
+
+    expect(checkpointRepo.replaceSplits).not.toHaveBeenCalled()
+    expect(result).toMatchObject({
+      dryRun: true,
+      totalRows: 4,
+      splits: 4,
+      unknownBibs: ['999'],
+      checkpoints: [
+        { name: 'km 12', isNew: false, splits: 2 },
+        { name: 'Meta', isNew: true, splits: 2 },
+      ],
+    })
+  })
+
+  it('matches existing checkpoints by name, creates the rest and replaces their splits', async () => {
+    await handler.execute(command())
+
+    const [created, checkpointIds, splits, importedById] =
+      checkpointRepo.replaceSplits.mock.calls[0]
+    expect(created).toEqual([expect.objectContaining({ eventId, name: 'Meta' })])
+    expect(checkpointIds).toEqual(['checkpoint-1', created[0].id])
+    expect(splits).toContainEqual({
+      checkpointId: 'checkpoint-1',
+      bib: '142',
+      passedAt: new Date('2026-03-14T12:48:10.000Z'),
+    })
+    expect(splits).toHaveLength(4)
+    expect(importedById).toBe('admin-1')
+  })
+
+  it('refuses a real import while rows have errors', async () => {
+    fileReader.read.mockResolvedValueOnce([
+      ['Dorsal', 'Punto de control', 'Hora'],
+      ['142', 'KM 12', 'soon'],
+    ])
+
+    const error = await handler.execute(command()).catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+    expect(checkpointRepo.replaceSplits).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,104 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { TimingImportProjection } from '@participants/application/projections'
+import { Checkpoint } from '@participants/domain/entities'
+import {
+  CHECKPOINT_REPOSITORY,
+  type ICheckpointRepository,
+  type IParticipantReadRepository,
+  type IRosterFileReader,
+  PARTICIPANT_READ_REPOSITORY,
+  ROSTER_FILE_READER,
+} from '@participants/domain/ports'
+import { normalizeHeader } from '@participants/domain/services/roster-import.service'
+import { TimingImport } from '@participants/domain/services/timing-import.service'
+import { AppException } from '@shared/domain'
+import { ImportTimingCommand } from './import-timing.command'
+
+@CommandHandler(ImportTimingCommand)
+export class ImportTimingHandler implements ICommandHandler<ImportTimingCommand> {
+  private readonly logger = new Logger(ImportTimingHandler.name)
+
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
+    @Inject(CHECKPOINT_REPOSITORY) private readonly checkpointRepo: ICheckpointRepository,
+    @Inject(ROSTER_FILE_READER) private readonly fileReader: IRosterFileReader,
+  ) {}
+
+  /**
+   * Reads split times from an uploaded timing export and stores them per checkpoint and
+   * bib. Checkpoints are matched by name and created when missing. Every checkpoint in
+   * the file has its splits replaced, so importing a corrected export is safe.
+   */
+  async execute(command: ImportTimingCommand): Promise<TimingImportProjection> {
+    const event = await this.eventReadRepo.findById(command.eventId)
+    if (!event) throw AppException.notFound('Event', command.eventId)
+
+    if (!command.objectKey.startsWith(`events/${command.eventId}/timing/`)) {
+      throw AppException.businessRule('participant.timing_invalid_object_key_prefix')
+    }
+
+    const [table, existing, participants] = await Promise.all([
+      this.fileReader.read(command.objectKey),
+      this.checkpointRepo.findByEvent(command.eventId),
+      this.participantReadRepo.findByEvent(command.eventId),
+    ])
+    const { splits, checkpoints, errors } = TimingImport.parse(table, {
+      raceStart: command.raceStart,
+      timeReference: command.timeReference,
+    })
+
+    const byName = new Map(existing.map((c) => [normalizeHeader(c.name), c]))
+    const created: Checkpoint[] = []
+    const checkpointByName = new Map<string, Checkpoint>()
+    for (const name of checkpoints) {
+      let checkpoint = byName.get(normalizeHeader(name))
+      if (!checkpoint) {
+        checkpoint = Checkpoint.create({ eventId: command.eventId, name })
+        created.push(checkpoint)
+      }
+      checkpointByName.set(name, checkpoint)
+    }
+
+    const rosterBibs = new Set(participants.map((p) => p.bib))
+    const unknownBibs = [...new Set(splits.map((s) => s.bib))].filter((b) => !rosterBibs.has(b))
+
+    if (!command.dryRun) {
+      if (errors.length > 0) {
+        throw AppException.businessRule('participant.timing_has_errors', false, {
+          errors: errors.length,
+        })
+      }
+      await this.checkpointRepo.replaceSplits(
+        created,
+        [...checkpointByName.values()].map((c) => c.id),
+        splits.flatMap((split) => {
+          const checkpoint = checkpointByName.get(split.checkpoint)
+          return checkpoint
+            ? [{ checkpointId: checkpoint.id, bib: split.bib, passedAt: split.passedAt }]
+            : []
+        }),
+        command.audit.userId,
+      )
+      this.logger.log(
+        `Timing of event ${command.eventId}: ${splits.length} splits at ${checkpoints.length} checkpoints (${created.length} new)`,
+      )
+    }
+
+    return {
+      dryRun: command.dryRun,
+      totalRows: new Set([...splits.map((s) => s.row), ...errors.map((e) => e.row)]).size,
+      splits: splits.length,
+      unknownBibs,
+      checkpoints: checkpoints.map((name) => ({
+        name,
+        isNew: created.some((c) => c === checkpointByName.get(name)),
+        splits: splits.filter((s) => s.checkpoint === name).length,
+      })),
+      errors,
+    }
+  }
+}
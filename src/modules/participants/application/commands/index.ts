@@ -0,0 +1,12 @@
+export { CreateCheckpointCommand } from './create-checkpoint/create-checkpoint.command'
+export { CreateCheckpointDto } from './create-checkpoint/create-checkpoint.dto'
+export { GenerateRosterUploadUrlCommand } from './generate-roster-upload-url/generate-roster-upload-url.command'
+export { GenerateRosterUploadUrlDto } from './generate-roster-upload-url/generate-roster-upload-url.dto'
+export { ImportRosterCommand } from './import-roster/import-roster.command'
+export { ImportRosterDto } from './import-roster/import-roster.dto'
+export { ImportTimingCommand } from './import-timing/import-timing.command'
+export { ImportTimingDto } from './import-timing/import-timing.dto'
+export { SetBibRangeCommand } from './set-bib-range/set-bib-range.command'
+export { SetBibRangeDto } from './set-bib-range/set-bib-range.dto'
+export { UpdateCheckpointCommand } from './update-checkpoint/update-checkpoint.command'
+export { UpdateCheckpointDto } from './update-checkpoint/update-checkpoint.dto'
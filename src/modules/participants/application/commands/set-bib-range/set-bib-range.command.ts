@@ -0,0 +1,9 @@
+import type { BibRange } from '@participants/domain/ports'
+
+export class SetBibRangeCommand {
+  constructor(
+    public readonly eventId: string,
+    /** Null clears the range. */
+    public readonly range: BibRange | null,
+  ) {}
+}
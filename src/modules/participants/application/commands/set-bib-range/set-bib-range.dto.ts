@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsInt, Max, Min } from 'class-validator'
+
+export class SetBibRangeDto {
+  @ApiProperty({ description: 'Lowest bib handed out', example: 1 })
+  @IsInt()
+  @Min(0)
+  @Max(999999)
+  min!: number
+
+  @ApiProperty({ description: 'Highest bib handed out', example: 850 })
+  @IsInt()
+  @Min(0)
+  @Max(999999)
+  max!: number
+}
@@ -0,0 +1,36 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IParticipantWriteRepository,
+  PARTICIPANT_WRITE_REPOSITORY,
+} from '@participants/domain/ports'
+import { AppException } from '@shared/domain'
+import { SetBibRangeCommand } from './set-bib-range.command'
+
+@CommandHandler(SetBibRangeCommand)
+export class SetBibRangeHandler implements ICommandHandler<SetBibRangeCommand> {
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(PARTICIPANT_WRITE_REPOSITORY)
+    private readonly participantWriteRepo: IParticipantWriteRepository,
+  ) {}
+
+  /**
+   * Bib readings of photos classified from now on are checked against the range when the
+   * event has no start list; photos already classified keep their bibs.
+   */
+  async execute(command: SetBibRangeCommand): Promise<void> {
+    const event = await this.eventReadRepo.findById(command.eventId)
+    if (!event) throw AppException.notFound('Event', command.eventId)
+
+    if (command.range && command.range.min > command.range.max) {
+      throw AppException.businessRule('participant.bib_range_invalid', false, {
+        min: command.range.min,
+        max: command.range.max,
+      })
+    }
+
+    await this.participantWriteRepo.setBibRange(command.eventId, command.range)
+  }
+}
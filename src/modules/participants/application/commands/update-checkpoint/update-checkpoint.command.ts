@@ -0,0 +1,7 @@
+export class UpdateCheckpointCommand {
+  constructor(
+    public readonly id: string,
+    public readonly name?: string,
+    public readonly toleranceSeconds?: number,
+  ) {}
+}
@@ -0,0 +1,21 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator'
+
+export class UpdateCheckpointDto {
+  @ApiPropertyOptional({ description: 'Checkpoint name', example: 'KM 12', maxLength: 100 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string
+
+  @ApiPropertyOptional({
+    description: "Seconds a photo may be taken before or after a rider's split and still match it",
+    example: 300,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(21600)
+  @IsOptional()
+  toleranceSeconds?: number
+}
@@ -0,0 +1,30 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { CHECKPOINT_REPOSITORY, type ICheckpointRepository } from '@participants/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { UpdateCheckpointCommand } from './update-checkpoint.command'
+
+@CommandHandler(UpdateCheckpointCommand)
+export class UpdateCheckpointHandler implements ICommandHandler<UpdateCheckpointCommand> {
+  constructor(
+    @Inject(CHECKPOINT_REPOSITORY) private readonly checkpointRepo: ICheckpointRepository,
+  ) {}
+
+  /** Renames a checkpoint or widens its tolerance; review flags follow at the next read. */
+  async execute(command: UpdateCheckpointCommand): Promise<EntityIdProjection> {
+    const checkpoint = await this.checkpointRepo.findById(command.id)
+    if (!checkpoint) throw AppException.notFound('entities.checkpoint', command.id)
+
+    checkpoint.update({ name: command.name, toleranceSeconds: command.toleranceSeconds })
+    if (
+      command.name !== undefined &&
+      (await this.checkpointRepo.existsByName(checkpoint.eventId, checkpoint.name, checkpoint.id))
+    ) {
+      throw AppException.businessRule('participant.checkpoint_name_taken')
+    }
+
+    await this.checkpointRepo.save(checkpoint)
+    return { id: checkpoint.id }
+  }
+}
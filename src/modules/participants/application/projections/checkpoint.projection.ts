@@ -0,0 +1,15 @@
+/** A timing point of the event with what has been attached to it. */
+export class CheckpointProjection {
+  /** Checkpoint UUID */
+  id: string
+  name: string
+  /** Seconds a photo may be taken before or after a rider's split and still match it */
+  toleranceSeconds: number
+  /** Riders with an imported split time here */
+  splitsCount: number
+  /** Photos tagged with this checkpoint */
+  photosCount: number
+  /** Earliest and latest imported split, null before the first import */
+  firstPassingAt: Date | null
+  lastPassingAt: Date | null
+}
@@ -0,0 +1,13 @@
+export { CheckpointProjection } from './checkpoint.projection'
+export { ParticipantProjection, ParticipantSummaryProjection } from './participant.projection'
+export {
+  RosterImportProjection,
+  RosterRowErrorProjection,
+  RosterRowProjection,
+  RosterUploadUrlProjection,
+} from './roster-import.projection'
+export {
+  TimingImportCheckpointProjection,
+  TimingImportProjection,
+  TimingRowErrorProjection,
+} from './timing-import.projection'
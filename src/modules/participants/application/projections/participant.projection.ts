@@ -0,0 +1,21 @@
+/** A roster entry as listed to admins. */
+export class ParticipantProjection {
+  /** Participant UUID */
+  id: string
+  bib: string
+  fullName: string
+  email: string | null
+  phone: string | null
+  categoryId: number | null
+  categoryName: string | null
+  team: string | null
+  updatedAt: Date
+}
+
+/** The rider shown next to a photo or order: what buyers see, without contact details. */
+export class ParticipantSummaryProjection {
+  bib: string
+  fullName: string
+  categoryName: string | null
+  team: string | null
+}
@@ -0,0 +1,54 @@
+import type {
+  RosterAction,
+  RosterErrorCode,
+  RosterField,
+} from '../../domain/services/roster-import.service'
+
+export class RosterRowErrorProjection {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number
+  field: RosterField
+  code: RosterErrorCode
+  /** The offending cell value */
+  value: string
+}
+
+export class RosterRowProjection {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number
+  bib: string
+  fullName: string
+  email: string | null
+  phone: string | null
+  categoryName: string | null
+  team: string | null
+  /** What importing does with this row */
+  action: RosterAction
+}
+
+/** Result of a roster import, or of its dry run. */
+export class RosterImportProjection {
+  /** True when nothing was written */
+  dryRun: boolean
+  /** Data rows read from the file, blank rows excluded */
+  totalRows: number
+  created: number
+  updated: number
+  unchanged: number
+  /** Participants deleted because they were missing from the file (replace mode only) */
+  removed: number
+  /** Every validation problem; the import is refused while there is any */
+  errors: RosterRowErrorProjection[]
+  /** Valid rows with the action each one takes */
+  rows: RosterRowProjection[]
+}
+
+/** Presigned upload target for a roster file. */
+export class RosterUploadUrlProjection {
+  /** Presigned PUT URL */
+  url: string
+  /** Key to send to the import endpoint */
+  objectKey: string
+  /** Seconds until the URL expires */
+  expiresIn: number
+}
@@ -0,0 +1,34 @@
+import type { TimingErrorCode } from '../../domain/services/timing-import.service'
+
+export class TimingRowErrorProjection {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number
+  /** Header of the offending column */
+  column: string
+  code: TimingErrorCode
+  /** The offending cell value */
+  value: string
+}
+
+export class TimingImportCheckpointProjection {
+  name: string
+  /** True when the import creates the checkpoint */
+  isNew: boolean
+  /** Split times read for this checkpoint; they replace the ones stored */
+  splits: number
+}
+
+/** Result of a timing import, or of its dry run. */
+export class TimingImportProjection {
+  /** True when nothing was written */
+  dryRun: boolean
+  /** Data rows read from the file, blank rows excluded */
+  totalRows: number
+  /** Valid split times read */
+  splits: number
+  /** Bibs with splits that are not on the event start list */
+  unknownBibs: string[]
+  checkpoints: TimingImportCheckpointProjection[]
+  /** Every validation problem; the import is refused while there is any */
+  errors: TimingRowErrorProjection[]
+}
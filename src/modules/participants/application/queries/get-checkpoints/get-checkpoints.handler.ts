@@ -0,0 +1,17 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { CheckpointProjection } from '@participants/application/projections'
+import { CHECKPOINT_REPOSITORY, type ICheckpointRepository } from '@participants/domain/ports'
+import { GetCheckpointsQuery } from './get-checkpoints.query'
+
+@QueryHandler(GetCheckpointsQuery)
+export class GetCheckpointsHandler implements IQueryHandler<GetCheckpointsQuery> {
+  constructor(
+    @Inject(CHECKPOINT_REPOSITORY) private readonly checkpointRepo: ICheckpointRepository,
+  ) {}
+
+  /** Lists the event's checkpoints with their imported splits and tagged photos. */
+  async execute(query: GetCheckpointsQuery): Promise<CheckpointProjection[]> {
+    return this.checkpointRepo.getCheckpointsList(query.eventId)
+  }
+}
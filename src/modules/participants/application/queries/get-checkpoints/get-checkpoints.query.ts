@@ -0,0 +1,3 @@
+export class GetCheckpointsQuery {
+  constructor(public readonly eventId: string) {}
+}
@@ -0,0 +1,11 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { PaginationQueryDto } from '@shared/application'
+import { IsOptional, IsString, MaxLength } from 'class-validator'
+
+export class GetParticipantsDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ description: 'Search by bib, name or team', example: '142' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  search?: string
+}
@@ -0,0 +1,22 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { ParticipantProjection } from '@participants/application/projections'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
+import type { PaginatedResult } from '@shared/application'
+import { GetParticipantsQuery } from './get-participants.query'
+
+@QueryHandler(GetParticipantsQuery)
+export class GetParticipantsHandler implements IQueryHandler<GetParticipantsQuery> {
+  constructor(
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly readRepo: IParticipantReadRepository,
+  ) {}
+
+  /** Lists the event's roster ordered by bib. */
+  async execute(query: GetParticipantsQuery): Promise<PaginatedResult<ParticipantProjection>> {
+    return this.readRepo.getParticipantsList(query.eventId, query.search, query.pagination)
+  }
+}
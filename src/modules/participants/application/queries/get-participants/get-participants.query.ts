@@ -0,0 +1,9 @@
+import type { Pagination } from '@shared/application'
+
+export class GetParticipantsQuery {
+  constructor(
+    public readonly eventId: string,
+    public readonly pagination: Pagination,
+    public readonly search: string | null = null,
+  ) {}
+}
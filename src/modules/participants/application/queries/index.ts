@@ -0,0 +1,3 @@
+export { GetCheckpointsQuery } from './get-checkpoints/get-checkpoints.query'
+export { GetParticipantsDto } from './get-participants/get-participants.dto'
+export { GetParticipantsQuery } from './get-participants/get-participants.query'
@@ -0,0 +1,79 @@
+import { AppException } from '@shared/domain'
+
+/** Photos taken this long before or after a rider's split still count as plausible. */
+export const DEFAULT_CHECKPOINT_TOLERANCE_SECONDS = 300
+
+const MAX_NAME_LENGTH = 100
+const MAX_TOLERANCE_SECONDS = 6 * 60 * 60
+
+export class Checkpoint {
+  constructor(
+    public readonly id: string,
+    public readonly eventId: string,
+    public name: string,
+    public toleranceSeconds: number,
+    public readonly createdAt: Date,
+    public updatedAt: Date,
+  ) {}
+
+  /**
+   * Factory method for a checkpoint, created by hand or by a timing import
+   * that names one the event does not have yet.
+   */
+  static create(data: { eventId: string; name: string; toleranceSeconds?: number }): Checkpoint {
+    const name = Checkpoint.validateName(data.name)
+    const toleranceSeconds = data.toleranceSeconds ?? DEFAULT_CHECKPOINT_TOLERANCE_SECONDS
+    Checkpoint.validateTolerance(toleranceSeconds)
+    const now = new Date()
+    return new Checkpoint(crypto.randomUUID(), data.eventId, name, toleranceSeconds, now, now)
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    eventId: string
+    name: string
+    toleranceSeconds: number
+    createdAt: Date
+    updatedAt: Date
+  }): Checkpoint {
+    return new Checkpoint(
+      data.id,
+      data.eventId,
+      data.name,
+      data.toleranceSeconds,
+      data.createdAt,
+      data.updatedAt,
+    )
+  }
+
+  update(data: { name?: string; toleranceSeconds?: number }): void {
+    if (data.name !== undefined) this.name = Checkpoint.validateName(data.name)
+    if (data.toleranceSeconds !== undefined) {
+      Checkpoint.validateTolerance(data.toleranceSeconds)
+      this.toleranceSeconds = data.toleranceSeconds
+    }
+    this.updatedAt = new Date()
+  }
+
+  private static validateName(name: string): string {
+    const trimmed = name.trim().replace(/\s+/g, ' ')
+    if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+      throw AppException.businessRule('participant.checkpoint_name_invalid', false, {
+        max: MAX_NAME_LENGTH,
+      })
+    }
+    return trimmed
+  }
+
+  private static validateTolerance(seconds: number): void {
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_TOLERANCE_SECONDS) {
+      throw AppException.businessRule('participant.checkpoint_tolerance_invalid', false, {
+        max: MAX_TOLERANCE_SECONDS,
+      })
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export {
+  Checkpoint,
+  DEFAULT_CHECKPOINT_TOLERANCE_SECONDS,
+} from './checkpoint.entity'
+export { Participant, type ParticipantData } from './participant.entity'
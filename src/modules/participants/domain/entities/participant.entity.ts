@@ -0,0 +1,101 @@
+/** Fields a roster row sets on a participant. */
+export interface ParticipantData {
+  fullName: string
+  email: string | null
+  phone: string | null
+  participantCategoryId: number | null
+  team: string | null
+}
+
+export class Participant {
+  constructor(
+    public readonly id: string,
+    public readonly eventId: string,
+    public readonly bib: string,
+    public fullName: string,
+    public email: string | null,
+    public phone: string | null,
+    public participantCategoryId: number | null,
+    public team: string | null,
+    public readonly createdAt: Date,
+    public updatedAt: Date,
+    public importedById: string | null,
+  ) {}
+
+  /**
+   * Factory method for a participant imported from a roster row.
+   * Row values are validated by `RosterImport.parse` before they get here.
+   */
+  static create(
+    data: ParticipantData & { eventId: string; bib: string; importedById?: string | null },
+  ): Participant {
+    const now = new Date()
+    return new Participant(
+      crypto.randomUUID(),
+      data.eventId,
+      data.bib,
+      data.fullName,
+      data.email,
+      data.phone,
+      data.participantCategoryId,
+      data.team,
+      now,
+      now,
+      data.importedById ?? null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    eventId: string
+    bib: string
+    fullName: string
+    email: string | null
+    phone: string | null
+    participantCategoryId: number | null
+    team: string | null
+    createdAt: Date
+    updatedAt: Date
+    importedById: string | null
+  }): Participant {
+    return new Participant(
+      data.id,
+      data.eventId,
+      data.bib,
+      data.fullName,
+      data.email,
+      data.phone,
+      data.participantCategoryId,
+      data.team,
+      data.createdAt,
+      data.updatedAt,
+      data.importedById,
+    )
+  }
+
+  /** Whether applying `data` would change anything. */
+  differsFrom(data: ParticipantData): boolean {
+    return (
+      this.fullName !== data.fullName ||
+      this.email !== data.email ||
+      this.phone !== data.phone ||
+      this.participantCategoryId !== data.participantCategoryId ||
+      this.team !== data.team
+    )
+  }
+
+  /** Overwrites the roster fields with a newer import of the same bib. */
+  update(data: ParticipantData, importedById: string | null): void {
+    this.fullName = data.fullName
+    this.email = data.email
+    this.phone = data.phone
+    this.participantCategoryId = data.participantCategoryId
+    this.team = data.team
+    this.importedById = importedById
+    this.updatedAt = new Date()
+  }
+}
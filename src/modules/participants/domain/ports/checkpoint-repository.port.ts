@@ -0,0 +1,28 @@
+import type { CheckpointProjection } from '@participants/application/projections'
+import type { Checkpoint } from '../entities'
+
+export interface TimingSplitData {
+  checkpointId: string
+  bib: string
+  passedAt: Date
+}
+
+export interface ICheckpointRepository {
+  findById(id: string): Promise<Checkpoint | null>
+  findByEvent(eventId: string): Promise<Checkpoint[]>
+  existsByName(eventId: string, name: string, excludeId?: string): Promise<boolean>
+  save(checkpoint: Checkpoint): Promise<void>
+  getCheckpointsList(eventId: string): Promise<CheckpointProjection[]>
+  /**
+   * Creates `created`, then replaces every split of `checkpointIds` with `splits`,
+   * in one transaction, so re-importing a corrected export never leaves stale times.
+   */
+  replaceSplits(
+    created: Checkpoint[],
+    checkpointIds: string[],
+    splits: TimingSplitData[],
+    importedById: string,
+  ): Promise<void>
+}
+
+export const CHECKPOINT_REPOSITORY = Symbol('CHECKPOINT_REPOSITORY')
@@ -0,0 +1,16 @@
+export {
+  CHECKPOINT_REPOSITORY,
+  type ICheckpointRepository,
+  type TimingSplitData,
+} from './checkpoint-repository.port'
+export {
+  type BibRange,
+  type EventBibRegistry,
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from './participant-read-repository.port'
+export {
+  type IParticipantWriteRepository,
+  PARTICIPANT_WRITE_REPOSITORY,
+} from './participant-write-repository.port'
+export { type IRosterFileReader, ROSTER_FILE_READER } from './roster-file-reader.port'
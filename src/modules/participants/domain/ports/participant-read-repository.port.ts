@@ -0,0 +1,41 @@
+import type {
+  ParticipantProjection,
+  ParticipantSummaryProjection,
+} from '@participants/application/projections'
+import type { PaginatedResult, Pagination } from '@shared/application'
+import type { Participant } from '../entities'
+
+/** Inclusive range of numeric bibs an event hands out. */
+export interface BibRange {
+  min: number
+  max: number
+}
+
+/** What the event knows about its bibs, to check OCR readings against. */
+export interface EventBibRegistry {
+  /** Bibs on the start list; null when the event has no start list. */
+  startList: Set<string> | null
+  range: BibRange | null
+}
+
+export interface IParticipantReadRepository {
+  findByEvent(eventId: string): Promise<Participant[]>
+  findBibRegistry(eventId: string): Promise<EventBibRegistry>
+  /** Participant categories of the event's event type, used to resolve roster category names. */
+  findEventCategories(eventId: string): Promise<Array<{ id: number; name: string }>>
+  getParticipantsList(
+    eventId: string,
+    search: string | null,
+    pagination: Pagination,
+  ): Promise<PaginatedResult<ParticipantProjection>>
+  findSummaryByBib(eventId: string, bib: string): Promise<ParticipantSummaryProjection | null>
+  /**
+   * Participants linked to each photo through its confirmed bibs: bibs a reviewer added or
+   * corrected, or any bib on a photo marked reviewed. Photos without a match are absent.
+   */
+  findSummariesByPhotoIds(photoIds: string[]): Promise<Map<string, ParticipantSummaryProjection[]>>
+  /** Photo IDs per participant of the event, by the same confirmed-bib rule. */
+  findPhotoIdsByParticipant(eventId: string): Promise<Map<string, string[]>>
+}
+
+export const PARTICIPANT_READ_REPOSITORY = Symbol('PARTICIPANT_READ_REPOSITORY')
@@ -0,0 +1,11 @@
+import type { Participant } from '../entities'
+import type { BibRange } from './participant-read-repository.port'
+
+export interface IParticipantWriteRepository {
+  /** Saves new and changed participants and deletes `removeIds`, in one transaction. */
+  applyImport(participants: Participant[], removeIds: string[]): Promise<void>
+  /** Sets the event's bib range; null clears it. */
+  setBibRange(eventId: string, range: BibRange | null): Promise<void>
+}
+
+export const PARTICIPANT_WRITE_REPOSITORY = Symbol('PARTICIPANT_WRITE_REPOSITORY')
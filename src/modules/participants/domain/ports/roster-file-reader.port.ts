@@ -0,0 +1,9 @@
+export interface IRosterFileReader {
+  /**
+   * Reads the uploaded roster at `objectKey` as a table of trimmed cell strings,
+   * header row first. CSV and XLSX (first worksheet) are supported.
+   */
+  read(objectKey: string): Promise<string[][]>
+}
+
+export const ROSTER_FILE_READER = Symbol('ROSTER_FILE_READER')
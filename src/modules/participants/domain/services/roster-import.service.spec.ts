@@ -0,0 +1,137 @@
+import { Participant } from '../entities'
+import { RosterImport } from './roster-import.service'
+
+const CATEGORIES = [
+  { id: 1, name: 'Élite Varones' },
+  { id: 2, name: 'Master A' },
+]
+
+const existing = (bib: string, fullName: string, participantCategoryId: number | null = null) =>
+  Participant.fromPersistence({
+    id: `id-${bib}`,
+    eventId: 'event-1',
+    bib,
+    fullName,
+    email: null,
+    phone: null,
+    participantCategoryId,
+    team: null,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    importedById: null,
+  })
+
+describe('RosterImport', () => {
+  describe('parse', () => {
+    it('maps Spanish headers regardless of accents and case', () => {
+      const { rows, errors } = RosterImport.parse(
+        [
+          ['Dorsal', 'Nombre Completo', 'Correo', 'Teléfono', 'Categoría', 'Equipo'],
+          ['142', ' Ana  Pérez ', 'ANA@Mail.com', '(099) 123-4567', 'elite varones', 'Club Ruta'],
+        ],
+        CATEGORIES,
+      )
+
+      expect(errors).toEqual([])
+      expect(rows).toEqual([
+        {
+          row: 2,
+          bib: '142',
+          fullName: 'Ana Pérez',
+          email: 'ana@mail.com',
+          phone: '0991234567',
+          participantCategoryId: 1,
+          categoryName: 'Élite Varones',
+          team: 'Club Ruta',
+        },
+      ])
+    })
+
+    it('joins first and last name columns when there is no full name', () => {
+      const { rows } = RosterImport.parse(
+        [
+          ['Bib', 'First name', 'Last name'],
+          ['7', 'Luis', 'Mora'],
+        ],
+        CATEGORIES,
+      )
+
+      expect(rows[0].fullName).toBe('Luis Mora')
+    })
+
+    it('reports every invalid field with its spreadsheet row and skips the row', () => {
+      const { rows, errors } = RosterImport.parse(
+        [
+          ['dorsal', 'nombre', 'email', 'categoria'],
+          ['12a', '', 'not-an-email', 'Juvenil'],
+          ['15', 'Ok Rider', '', ''],
+          ['15', 'Same Bib', '', ''],
+        ],
+        CATEGORIES,
+      )
+
+      expect(rows.map((r) => r.bib)).toEqual(['15'])
+      expect(errors).toEqual([
+        { row: 2, field: 'bib', code: 'invalid_bib', value: '12a' },
+        { row: 2, field: 'fullName', code: 'required', value: '' },
+        { row: 2, field: 'email', code: 'invalid_email', value: 'not-an-email' },
+        { row: 2, field: 'category', code: 'unknown_category', value: 'Juvenil' },
+        { row: 4, field: 'bib', code: 'duplicate_bib', value: '15' },
+      ])
+    })
+
+    it('ignores blank lines', () => {
+      const { rows, errors } = RosterImport.parse(
+        [
+          ['dorsal', 'nombre'],
+          ['', ''],
+          ['3', 'Eva'],
+        ],
+        CATEGORIES,
+      )
+
+      expect(errors).toEqual([])
+      expect(rows).toHaveLength(1)
+      expect(rows[0].row).toBe(3)
+    })
+
+    it('rejects a file without the bib or name column', () => {
+      expect(() => RosterImport.parse([['nombre'], ['Eva']], CATEGORIES)).toThrow(
+        expect.objectContaining({ code: 'BUSINESS_RULE' }),
+      )
+    })
+
+    it('rejects a file with only a header', () => {
+      expect(() => RosterImport.parse([['dorsal', 'nombre']], CATEGORIES)).toThrow(
+        expect.objectContaining({ code: 'BUSINESS_RULE' }),
+      )
+    })
+  })
+
+  describe('plan', () => {
+    it('splits rows into creates, updates and unchanged, and lists missing participants', () => {
+      const { rows } = RosterImport.parse(
+        [
+          ['dorsal', 'nombre', 'categoria'],
+          ['1', 'Eva Ruiz', 'Master A'],
+          ['2', 'Juan Díaz (corrected)', ''],
+          ['3', 'New Rider', ''],
+        ],
+        CATEGORIES,
+      )
+      const current = [
+        existing('1', 'Eva Ruiz', 2),
+        existing('2', 'Juan Díaz'),
+        existing('9', 'Gone'),
+      ]
+
+      const plan = RosterImport.plan(rows, current)
+
+      expect(plan.unchanged.map((r) => r.bib)).toEqual(['1'])
+      expect(plan.updates.map((u) => u.participant.bib)).toEqual(['2'])
+      expect(plan.creates.map((r) => r.bib)).toEqual(['3'])
+      expect(plan.missing.map((p) => p.bib)).toEqual(['9'])
+      expect(plan.actions.get(4)).toBe('create')
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import { AppException } from '@shared/domain'
+import type { Participant, ParticipantData } from '../entities'
+
+/** Upper bound for one import; the largest races we cover have a few thousand riders. */
+export const MAX_ROSTER_ROWS = 20_000
+
+export const BIB_PATTERN = /^\d{1,10}$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+?\d{6,15}$/
+
+type RosterColumn =
+  | 'bib'
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'category'
+  | 'team'
+
+/** Accepted header names per column, after `normalizeHeader`. Spanish first: most rosters are. */
+const HEADER_ALIASES: Record<RosterColumn, string[]> = {
+  bib: ['dorsal', 'numero', 'nro', 'bib', 'bibnumber', 'number'],
+  fullName: ['nombrecompleto', 'nombre', 'participante', 'fullname', 'name', 'participant'],
+  firstName: ['nombres', 'firstname'],
+  lastName: ['apellidos', 'apellido', 'lastname', 'surname'],
+  email: ['correo', 'correoelectronico', 'email', 'mail'],
+  phone: ['telefono', 'celular', 'movil', 'whatsapp', 'phone', 'mobile'],
+  category: ['categoria', 'category'],
+  team: ['equipo', 'club', 'team'],
+}
+
+export type RosterField = 'bib' | 'fullName' | 'email' | 'phone' | 'category' | 'team'
+
+export type RosterErrorCode =
+  | 'required'
+  | 'invalid_bib'
+  | 'duplicate_bib'
+  | 'invalid_email'
+  | 'invalid_phone'
+  | 'unknown_category'
+  | 'too_long'
+
+export interface RosterRowError {
+  /** 1-based row number as shown by a spreadsheet (the header is row 1). */
+  row: number
+  field: RosterField
+  code: RosterErrorCode
+  value: string
+}
+
+export interface RosterRow extends ParticipantData {
+  row: number
+  bib: string
+  categoryName: string | null
+}
+
+export type RosterAction = 'create' | 'update' | 'unchanged'
+
+export interface RosterPlan {
+  creates: RosterRow[]
+  updates: Array<{ participant: Participant; row: RosterRow }>
+  unchanged: RosterRow[]
+  /** Existing participants missing from the file; only removed when replacing the roster. */
+  missing: Participant[]
+  actions: Map<number, RosterAction>
+}
+
+export const normalizeHeader = (header: string): string =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+
+const normalizeName = (value: string): string => value.trim().replace(/\s+/g, ' ')
+
+export const RosterImport = {
+  /**
+   * Validates a roster table (header row first) against the event's categories.
+   * Rows with any error are left out of `rows`; every problem is reported in `errors`.
+   */
+  parse(
+    table: readonly string[][],
+    categories: ReadonlyArray<{ id: number; name: string }>,
+  ): { rows: RosterRow[]; errors: RosterRowError[] } {
+    const [header, ...body] = table
+    if (!header || body.length === 0) throw AppException.businessRule('participant.roster_empty')
+    if (body.length > MAX_ROSTER_ROWS) {
+      throw AppException.businessRule('participant.roster_too_large', false, {
+        max: MAX_ROSTER_ROWS,
+      })
+    }
+
+    const columns = RosterImport.mapColumns(header)
+    if (columns.bib === undefined || (columns.fullName ?? columns.firstName) === undefined) {
+      throw AppException.businessRule('participant.roster_missing_columns')
+    }
+
+    const categoryByName = new Map(categories.map((c) => [normalizeHeader(c.name), c]))
+    const seenBibs = new Set<string>()
+    const rows: RosterRow[] = []
+    const errors: RosterRowError[] = []
+
+    body.forEach((cells, index) => {
+      if (cells.every((c) => c.trim() === '')) return
+      const row = index + 2
+      const cell = (column: RosterColumn): string => {
+        const at = columns[column]
+        return at === undefined ? '' : (cells[at] ?? '').trim()
+      }
+      const rowErrors: RosterRowError[] = []
+      const fail = (field: RosterField, code: RosterErrorCode, value: string) =>
+        rowErrors.push({ row, field, code, value })
+
+      const bib = cell('bib')
+      if (!bib) fail('bib', 'required', bib)
+      else if (!BIB_PATTERN.test(bib)) fail('bib', 'invalid_bib', bib)
+      else if (seenBibs.has(bib)) fail('bib', 'duplicate_bib', bib)
+      else seenBibs.add(bib)
+
+      const fullName = normalizeName(cell('fullName') || `${cell('firstName')} ${cell('lastName')}`)
+      if (!fullName) fail('fullName', 'required', fullName)
+      else if (fullName.length > 200) fail('fullName', 'too_long', fullName)
+
+      const email = cell('email').toLowerCase()
+      if (email && (email.length > 255 || !EMAIL_PATTERN.test(email))) {
+        fail('email', 'invalid_email', email)
+      }
+
+      const rawPhone = cell('phone')
+      const phone = rawPhone.replace(/[\s().-]/g, '')
+      if (phone && !PHONE_PATTERN.test(phone)) fail('phone', 'invalid_phone', rawPhone)
+
+      const categoryName = cell('category')
+      const category = categoryName ? categoryByName.get(normalizeHeader(categoryName)) : undefined
+      if (categoryName && !category) fail('category', 'unknown_category', categoryName)
+
+      const team = normalizeName(cell('team'))
+      if (team.length > 150) fail('team', 'too_long', team)
+
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors)
+        return
+      }
+      rows.push({
+        row,
+        bib,
+        fullName,
+        email: email || null,
+        phone: phone || null,
+        participantCategoryId: category?.id ?? null,
+        categoryName: category?.name ?? null,
+        team: team || null,
+      })
+    })
+
+    return { rows, errors }
+  },
+
+  /** Maps each known column to its index in the header row; the first matching header wins. */
+  mapColumns(header: readonly string[]): Partial<Record<RosterColumn, number>> {
+    const columns: Partial<Record<RosterColumn, number>> = {}
+    const normalized = header.map(normalizeHeader)
+    for (const [column, aliases] of Object.entries(HEADER_ALIASES) as Array<
+      [RosterColumn, string[]]
+    >) {
+      const at = normalized.findIndex((h) => aliases.includes(h))
+      if (at !== -1) columns[column] = at
+    }
+    return columns
+  },
+
+  /** Compares valid rows with the event's current roster, matching on bib. */
+  plan(rows: readonly RosterRow[], existing: readonly Participant[]): RosterPlan {
+    const byBib = new Map(existing.map((p) => [p.bib, p]))
+    const plan: RosterPlan = {
+      creates: [],
+      updates: [],
+      unchanged: [],
+      missing: [],
+      actions: new Map(),
+    }
+
+    for (const row of rows) {
+      const participant = byBib.get(row.bib)
+      if (!participant) {
+        plan.creates.push(row)
+        plan.actions.set(row.row, 'create')
+      } else if (participant.differsFrom(row)) {
+        plan.updates.push({ participant, row })
+        plan.actions.set(row.row, 'update')
+      } else {
+        plan.unchanged.push(row)
+        plan.actions.set(row.row, 'unchanged')
+      }
+      byBib.delete(row.bib)
+    }
+    plan.missing = [...byBib.values()]
+    return plan
+  },
+}
@@ -0,0 +1,99 @@
+import { TimeReference, TimingImport } from './timing-import.service'
+
+const options = { raceStart: '2026-03-14T07:00:00-05:00', timeReference: TimeReference.TIME_OF_DAY }
+
+describe('TimingImport', () => {
+  describe('parse', () => {
+    it('reads the long layout with one row per bib and checkpoint', () => {
+      const { splits, checkpoints, errors } = TimingImport.parse(
+        [
+          ['Dorsal', 'Punto de control', 'Hora'],
+          ['142', 'KM 12', '07:48:10.5'],
+          ['142', 'Meta', '09:02:00'],
+          ['7', 'km 12', '07:51:00'],
+        ],
+        options,
+      )
+
+      expect(errors).toEqual([])
+      expect(checkpoints).toEqual(['KM 12', 'Meta'])
+      expect(splits).toEqual([
+        { row: 2, bib: '142', checkpoint: 'KM 12', passedAt: new Date('2026-03-14T12:48:10.500Z') },
+        { row: 3, bib: '142', checkpoint: 'Meta', passedAt: new Date('2026-03-14T14:02:00.000Z') },
+        { row: 4, bib: '7', checkpoint: 'KM 12', passedAt: new Date('2026-03-14T12:51:00.000Z') },
+      ])
+    })
+
+    it('reads the wide layout with one time column per checkpoint and skips empty cells', () => {
+      const { splits, checkpoints } = TimingImport.parse(
+        [
+          ['Bib', 'Name', 'Split 1', 'Finish'],
+          ['142', 'Ana Pérez', '0:48:10', '2:02:00'],
+          ['7', 'Luis Mora', '0:51:00', ''],
+        ],
+        { ...options, timeReference: TimeReference.ELAPSED },
+      )
+
+      expect(checkpoints).toEqual(['Split 1', 'Finish'])
+      expect(splits.map((s) => [s.bib, s.checkpoint, s.passedAt.toISOString()])).toEqual([
+        ['142', 'Split 1', '2026-03-14T12:48:10.000Z'],
+        ['142', 'Finish', '2026-03-14T14:02:00.000Z'],
+        ['7', 'Split 1', '2026-03-14T12:51:00.000Z'],
+      ])
+    })
+
+    it('reports bad bibs, bad times and repeated splits with their row', () => {
+      const { splits, errors } = TimingImport.parse(
+        [
+          ['Bib', 'Checkpoint', 'Time'],
+          ['A-1', 'KM 12', '07:48:10'],
+          ['142', 'KM 12', '7h48'],
+          ['7', 'KM 12', '07:51:00'],
+          ['7', 'KM 12', '07:52:00'],
+        ],
+        options,
+      )
+
+      expect(splits).toHaveLength(1)
+      expect(errors).toEqual([
+        { row: 2, column: 'Bib', code: 'invalid_bib', value: 'A-1' },
+        { row: 3, column: 'Time', code: 'invalid_time', value: '7h48' },
+        { row: 5, column: 'Time', code: 'duplicate_split', value: '7' },
+      ])
+    })
+
+    it('throws when there is no bib column', () => {
+      expect(() =>
+        TimingImport.parse(
+          [
+            ['Name', 'Time'],
+            ['Ana', '07:48:10'],
+          ],
+          options,
+        ),
+      ).toThrow(expect.objectContaining({ code: 'BUSINESS_RULE' }))
+    })
+  })
+
+  describe('timeParser', () => {
+    it('keeps explicit offsets and takes the race start offset otherwise', () => {
+      const toDate = TimingImport.timeParser(options)
+
+      expect(toDate('2026-03-14T08:00:00Z')).toEqual(new Date('2026-03-14T08:00:00.000Z'))
+      expect(toDate('2026-03-14 08:00:00')).toEqual(new Date('2026-03-14T13:00:00.000Z'))
+    })
+
+    it('moves clock times well before the start to the next day', () => {
+      const toDate = TimingImport.timeParser({ ...options, raceStart: '2026-03-14T22:00:00-05:00' })
+
+      expect(toDate('00:30:00')).toEqual(new Date('2026-03-15T05:30:00.000Z'))
+      expect(toDate('21:30:00')).toEqual(new Date('2026-03-15T02:30:00.000Z'))
+    })
+
+    it('rejects a race start without a UTC offset', () => {
+      expect(() =>
+        TimingImport.timeParser({ ...options, raceStart: '2026-03-14T07:00:00' }),
+      ).toThrow(expect.objectContaining({ code: 'BUSINESS_RULE' }))
+    })
+  })
+})
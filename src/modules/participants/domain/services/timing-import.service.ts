@@ -0,0 +1,223 @@
+import { AppException } from '@shared/domain'
+import { BIB_PATTERN, normalizeHeader, RosterImport } from './roster-import.service'
+
+/** Long exports list one row per passing, so they run to bibs × checkpoints rows. */
+export const MAX_TIMING_ROWS = 200_000
+
+export const TimeReference = {
+  /** Clock time of the passing, on the race start's date and UTC offset */
+  TIME_OF_DAY: 'time_of_day',
+  /** Time elapsed since the race start (gun time) */
+  ELAPSED: 'elapsed',
+} as const
+
+export type TimeReferenceType = (typeof TimeReference)[keyof typeof TimeReference]
+
+export type TimingErrorCode = 'required' | 'invalid_bib' | 'invalid_time' | 'duplicate_split'
+
+export interface TimingRowError {
+  /** 1-based row number as shown by a spreadsheet (the header is row 1). */
+  row: number
+  /** Header of the offending column. */
+  column: string
+  code: TimingErrorCode
+  value: string
+}
+
+export interface TimingSplitRow {
+  row: number
+  bib: string
+  checkpoint: string
+  passedAt: Date
+}
+
+export interface TimingImportOptions {
+  /** ISO 8601 date-time with a UTC offset, e.g. `2026-03-14T07:00:00-05:00`. */
+  raceStart: string
+  timeReference: TimeReferenceType
+}
+
+/** Header aliases of the long layout: one row per bib and checkpoint. */
+const CHECKPOINT_ALIASES = [
+  'puntodecontrol',
+  'puntocontrol',
+  'control',
+  'checkpoint',
+  'split',
+  'ubicacion',
+  'location',
+  'lector',
+  'reader',
+  'timingpoint',
+]
+const TIME_ALIASES = [
+  'hora',
+  'horadepaso',
+  'tiempo',
+  'time',
+  'timestamp',
+  'passingtime',
+  'chiptime',
+]
+
+const DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,3})\d*)?)?(Z|[+-]\d{2}:?\d{2})?$/
+const CLOCK_PATTERN = /^(\d{1,3}):(\d{2}):(\d{2})(?:[.,](\d{1,3})\d*)?$/
+const OFFSET_PATTERN = /(Z|([+-])(\d{2}):?(\d{2}))$/
+
+/** A clock time this long before the start is taken as the next day (races past midnight). */
+const ROLLOVER_MARGIN_MS = 60 * 60 * 1000
+
+export const TimingImport = {
+  /**
+   * Reads split times from a timing export (header row first). Two layouts are accepted:
+   * long, with a checkpoint column and a time column, and wide, with one time column per
+   * checkpoint. In the wide layout any column holding a time is a checkpoint and an empty
+   * cell means the rider has no split there. Rows with errors are left out of `splits`.
+   */
+  parse(
+    table: readonly string[][],
+    options: TimingImportOptions,
+  ): { splits: TimingSplitRow[]; checkpoints: string[]; errors: TimingRowError[] } {
+    const [header, ...body] = table
+    if (!header || body.length === 0) throw AppException.businessRule('participant.timing_empty')
+    if (body.length > MAX_TIMING_ROWS) {
+      throw AppException.businessRule('participant.timing_too_large', false, {
+        max: MAX_TIMING_ROWS,
+      })
+    }
+
+    const bibColumn = RosterImport.mapColumns(header).bib
+    if (bibColumn === undefined)
+      throw AppException.businessRule('participant.timing_missing_columns')
+
+    const toDate = TimingImport.timeParser(options)
+    const normalized = header.map(normalizeHeader)
+    const checkpointColumn = normalized.findIndex((h) => CHECKPOINT_ALIASES.includes(h))
+    const timeColumn = normalized.findIndex((h) => TIME_ALIASES.includes(h))
+    const long = checkpointColumn !== -1 && timeColumn !== -1
+
+    const timeColumns = long
+      ? []
+      : header.flatMap((name, at) =>
+          at !== bibColumn &&
+          name.trim() &&
+          body.some((cells) => toDate((cells[at] ?? '').trim()) !== null)
+            ? [at]
+            : [],
+        )
+    if (!long && timeColumns.length === 0) {
+      throw AppException.businessRule('participant.timing_missing_columns')
+    }
+
+    const splits: TimingSplitRow[] = []
+    const errors: TimingRowError[] = []
+    const checkpoints = new Map<string, string>()
+    const seen = new Set<string>()
+
+    body.forEach((cells, index) => {
+      if (cells.every((c) => c.trim() === '')) return
+      const row = index + 2
+      const cell = (at: number): string => (cells[at] ?? '').trim()
+
+      const bib = cell(bibColumn)
+      if (!bib || !BIB_PATTERN.test(bib)) {
+        errors.push({
+          row,
+          column: header[bibColumn],
+          code: bib ? 'invalid_bib' : 'required',
+          value: bib,
+        })
+        return
+      }
+
+      const passings = long
+        ? [{ checkpoint: cell(checkpointColumn), column: timeColumn, value: cell(timeColumn) }]
+        : timeColumns
+            .map((at) => ({ checkpoint: header[at].trim(), column: at, value: cell(at) }))
+            .filter((p) => p.value !== '')
+
+      for (const { checkpoint, column, value } of passings) {
+        if (!checkpoint) {
+          errors.push({
+            row,
+            column: header[checkpointColumn],
+            code: 'required',
+            value: checkpoint,
+          })
+          continue
+        }
+        const passedAt = toDate(value)
+        if (!passedAt) {
+          errors.push({
+            row,
+            column: header[column],
+            code: value ? 'invalid_time' : 'required',
+            value,
+          })
+          continue
+        }
+        const key = normalizeHeader(checkpoint)
+        if (seen.has(`${key}:${bib}`)) {
+          errors.push({ row, column: header[column], code: 'duplicate_split', value: bib })
+          continue
+        }
+        seen.add(`${key}:${bib}`)
+        if (!checkpoints.has(key)) checkpoints.set(key, checkpoint)
+        splits.push({ row, bib, checkpoint: checkpoints.get(key) ?? checkpoint, passedAt })
+      }
+    })
+
+    return { splits, checkpoints: [...checkpoints.values()], errors }
+  },
+
+  /**
+   * Builds the converter from a cell to an instant. Full date-times without an offset and
+   * clock times take the race start's offset; elapsed times are added to the race start.
+   */
+  timeParser(options: TimingImportOptions): (value: string) => Date | null {
+    const start = new Date(options.raceStart)
+    const offset = options.raceStart.match(OFFSET_PATTERN)
+    if (Number.isNaN(start.getTime()) || !offset) {
+      throw AppException.businessRule('participant.timing_invalid_race_start')
+    }
+    const offsetMs = offsetToMs(offset[0])
+    const localStart = new Date(start.getTime() + offsetMs)
+
+    return (value: string): Date | null => {
+      const dateTime = value.match(DATE_TIME_PATTERN)
+      if (dateTime) {
+        const [, y, mo, d, h, mi, s = '0', ms = '0', zone] = dateTime
+        const local = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, +ms.padEnd(3, '0'))
+        const result = local - (zone ? offsetToMs(zone) : offsetMs)
+        return Number.isNaN(result) || +h > 23 || +mi > 59 || +s > 59 ? null : new Date(result)
+      }
+
+      const clock = value.match(CLOCK_PATTERN)
+      if (!clock) return null
+      const [, h, mi, s, ms = '0'] = clock
+      if (+mi > 59 || +s > 59) return null
+      const clockMs = ((+h * 60 + +mi) * 60 + +s) * 1000 + +ms.padEnd(3, '0')
+
+      if (options.timeReference === TimeReference.ELAPSED) {
+        return new Date(start.getTime() + clockMs)
+      }
+      if (+h > 23) return null
+      const midnight = Date.UTC(
+        localStart.getUTCFullYear(),
+        localStart.getUTCMonth(),
+        localStart.getUTCDate(),
+      )
+      let passedAt = midnight + clockMs - offsetMs
+      if (passedAt < start.getTime() - ROLLOVER_MARGIN_MS) passedAt += 24 * 60 * 60 * 1000
+      return new Date(passedAt)
+    }
+  },
+}
+
+function offsetToMs(zone: string): number {
+  if (zone === 'Z') return 0
+  const [, sign, hours, minutes] = zone.match(/([+-])(\d{2}):?(\d{2})/) ?? []
+  const ms = (Number(hours) * 60 + Number(minutes)) * 60 * 1000
+  return sign === '-' ? -ms : ms
+}
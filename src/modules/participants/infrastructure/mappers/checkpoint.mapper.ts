@@ -0,0 +1,24 @@
+import type { Prisma, Checkpoint as PrismaCheckpoint } from '@generated/prisma/client'
+import { Checkpoint } from '../../domain/entities'
+
+export function toPersistence(entity: Checkpoint): Prisma.CheckpointUncheckedCreateInput {
+  return {
+    id: entity.id,
+    event_id: entity.eventId,
+    name: entity.name,
+    tolerance_seconds: entity.toleranceSeconds,
+    created_at: entity.createdAt,
+    updated_at: entity.updatedAt,
+  }
+}
+
+export function toEntity(record: PrismaCheckpoint): Checkpoint {
+  return Checkpoint.fromPersistence({
+    id: record.id,
+    eventId: record.event_id,
+    name: record.name,
+    toleranceSeconds: record.tolerance_seconds,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  })
+}
@@ -0,0 +1,65 @@
+import type { Prisma, Participant as PrismaParticipant } from '@generated/prisma/client'
+import type { ParticipantProjection } from '../../application/projections'
+import { Participant } from '../../domain/entities'
+
+export const participantListSelectConfig = {
+  id: true,
+  bib: true,
+  full_name: true,
+  email: true,
+  phone: true,
+  participant_category_id: true,
+  team: true,
+  updated_at: true,
+  category: { select: { name: true } },
+} satisfies Prisma.ParticipantSelect
+
+export type ParticipantListSelect = Prisma.ParticipantGetPayload<{
+  select: typeof participantListSelectConfig
+}>
+
+export function toPersistence(entity: Participant): Prisma.ParticipantUncheckedCreateInput {
+  return {
+    id: entity.id,
+    event_id: entity.eventId,
+    bib: entity.bib,
+    full_name: entity.fullName,
+    email: entity.email,
+    phone: entity.phone,
+    participant_category_id: entity.participantCategoryId,
+    team: entity.team,
+    created_at: entity.createdAt,
+    updated_at: entity.updatedAt,
+    imported_by_id: entity.importedById,
+  }
+}
+
+export function toEntity(record: PrismaParticipant): Participant {
+  return Participant.fromPersistence({
+    id: record.id,
+    eventId: record.event_id,
+    bib: record.bib,
+    fullName: record.full_name,
+    email: record.email,
+    phone: record.phone,
+    participantCategoryId: record.participant_category_id,
+    team: record.team,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+    importedById: record.imported_by_id,
+  })
+}
+
+export function toProjection(record: ParticipantListSelect): ParticipantProjection {
+  return {
+    id: record.id,
+    bib: record.bib,
+    fullName: record.full_name,
+    email: record.email,
+    phone: record.phone,
+    categoryId: record.participant_category_id,
+    categoryName: record.category?.name ?? null,
+    team: record.team,
+    updatedAt: record.updated_at,
+  }
+}
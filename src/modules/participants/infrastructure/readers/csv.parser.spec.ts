@@ -0,0 +1,35 @@
+import { parseCsv } from './csv.parser'
+
+describe('parseCsv', () => {
+  it('parses comma-separated rows with CRLF line endings', () => {
+    expect(parseCsv('dorsal,nombre\r\n142,Ana\r\n')).toEqual([
+      ['dorsal', 'nombre'],
+      ['142', 'Ana'],
+    ])
+  })
+
+  it('detects semicolons from the header line', () => {
+    expect(parseCsv('dorsal;nombre;equipo\n7;Mora, Luis;Club')).toEqual([
+      ['dorsal', 'nombre', 'equipo'],
+      ['7', 'Mora, Luis', 'Club'],
+    ])
+  })
+
+  it('handles quoted fields with delimiters, newlines and escaped quotes', () => {
+    expect(parseCsv('a,b\n"x, y","say ""hi""\nthere"')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ])
+  })
+
+  it('strips the UTF-8 BOM Excel adds', () => {
+    expect(parseCsv('\uFEFFdorsal,nombre\n1,Eva')[0][0]).toBe('dorsal')
+  })
+
+  it('keeps empty trailing cells', () => {
+    expect(parseCsv('a,b,c\n1,,')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', ''],
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+const DELIMITERS = [',', ';', '\t'] as const
+
+/**
+ * Parses RFC 4180 CSV into rows of raw cell strings. The delimiter is guessed from the
+ * header line: spreadsheets set to Spanish locales export with `;`.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const delimiter = detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+function detectDelimiter(input: string): string {
+  const end = input.search(/\r?\n/)
+  const header = end === -1 ? input : input.slice(0, end)
+  let best: string = DELIMITERS[0]
+  let bestCount = 0
+  for (const d of DELIMITERS) {
+    const count = header.split(d).length - 1
+    if (count > bestCount) {
+      best = d
+      bestCount = count
+    }
+  }
+  return best
+}
@@ -0,0 +1,3 @@
+export { parseCsv } from './csv.parser'
+export { StorageRosterFileReader } from './storage-roster-file.reader'
+export { parseXlsx } from './xlsx.parser'
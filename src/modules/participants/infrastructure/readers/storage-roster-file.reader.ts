@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { IRosterFileReader } from '@participants/domain/ports'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { parseCsv } from './csv.parser'
+import { parseXlsx } from './xlsx.parser'
+
+/** Rosters are a few hundred KiB at most; anything far larger is not a start list. */
+const MAX_ROSTER_BYTES = 10 * 1024 * 1024
+const DOWNLOAD_URL_EXPIRY_SECONDS = 300
+
+/** Downloads an uploaded roster from storage and parses it by file extension. */
+@Injectable()
+export class StorageRosterFileReader implements IRosterFileReader {
+  constructor(@Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter) {}
+
+  async read(objectKey: string): Promise<string[][]> {
+    const extension = objectKey.slice(objectKey.lastIndexOf('.') + 1).toLowerCase()
+    if (extension !== 'csv' && extension !== 'xlsx') {
+      throw AppException.businessRule('participant.roster_unsupported_format')
+    }
+
+    const url = await this.storage.getPresignedDownloadUrl({
+      key: objectKey,
+      expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS,
+    })
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw AppException.externalService(
+        'BackblazeB2',
+        new Error(`Failed to read ${objectKey}: ${response.status} ${response.statusText}`),
+      )
+    }
+    const buffer = Buffer.from(await response.arrayBuffer())
+    if (buffer.length > MAX_ROSTER_BYTES) {
+      throw AppException.businessRule('participant.roster_file_too_large')
+    }
+
+    return extension === 'xlsx' ? parseXlsx(buffer) : parseCsv(decodeText(buffer))
+  }
+}
+
+/** CSVs saved by Excel on Windows are often Latin-1; fall back to it when UTF-8 fails. */
+function decodeText(buffer: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    return buffer.toString('latin1')
+  }
+}
@@ -0,0 +1,101 @@
+import { deflateRawSync } from 'node:zlib'
+import { parseXlsx } from './xlsx.parser'
+
+/** Builds a minimal ZIP archive; entries are deflated unless `stored` lists them. */
+function zip(files: Record<string, string>, stored: string[] = []): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name)
+    const raw = Buffer.from(content)
+    const method = stored.includes(name) ? 0 : 8
+    const data = method === 0 ? raw : deflateRawSync(raw)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += local.length + nameBytes.length + data.length
+  }
+  const directory = Buffer.concat(centrals)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(Object.keys(files).length, 8)
+  eocd.writeUInt16LE(Object.keys(files).length, 10)
+  eocd.writeUInt32LE(directory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, eocd])
+}
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets><sheet name="Inscritos" sheetId="1" r:id="rId3"/></sheets>
+</workbook>`
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships>
+  <Relationship Id="rId1" Type="styles" Target="styles.xml"/>
+  <Relationship Target="worksheets/roster.xml" Id="rId3" Type="worksheet"/>
+</Relationships>`
+
+const SHARED = `<sst><si><t>Dorsal</t></si><si><t>Nombre</t></si><si><r><t>Ana </t></r><r><t>P&amp;érez</t></r></si></sst>`
+
+const SHEET = `<worksheet><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+  <row r="2"><c r="A2"><v>142</v></c><c r="B2" t="s"><v>2</v></c></row>
+  <row r="4"><c r="A4"><v>7</v></c><c r="C4" t="inlineStr"><is><t>Club &lt;Ruta&gt;</t></is></c></row>
+</sheetData></worksheet>`
+
+describe('parseXlsx', () => {
+  it('reads the first sheet through the workbook relationships', () => {
+    const rows = parseXlsx(
+      zip({
+        'xl/workbook.xml': WORKBOOK,
+        'xl/_rels/workbook.xml.rels': RELS,
+        'xl/sharedStrings.xml': SHARED,
+        'xl/worksheets/roster.xml': SHEET,
+      }),
+    )
+
+    expect(rows).toEqual([
+      ['Dorsal', 'Nombre'],
+      ['142', 'Ana P&érez'],
+      [],
+      ['7', '', 'Club <Ruta>'],
+    ])
+  })
+
+  it('falls back to sheet1 and reads stored entries', () => {
+    const rows = parseXlsx(
+      zip(
+        {
+          'xl/worksheets/sheet1.xml':
+            '<worksheet><sheetData><row><c t="inlineStr"><is><t>1</t></is></c></row></sheetData></worksheet>',
+        },
+        ['xl/worksheets/sheet1.xml'],
+      ),
+    )
+
+    expect(rows).toEqual([['1']])
+  })
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => parseXlsx(Buffer.from('dorsal,nombre\n1,Eva'))).toThrow(
+      expect.objectContaining({ code: 'BUSINESS_RULE' }),
+    )
+  })
+})
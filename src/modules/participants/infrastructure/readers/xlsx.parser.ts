@@ -0,0 +1,154 @@
+import { inflateRawSync } from 'node:zlib'
+import { AppException } from '@shared/domain'
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_SIGNATURE = 0x02014b50
+const LOCAL_SIGNATURE = 0x04034b50
+const DEFAULT_SHEET = 'xl/worksheets/sheet1.xml'
+
+type ZipEntry = { method: number; compressedSize: number; localOffset: number }
+
+/**
+ * Reads the first worksheet of an XLSX workbook as rows of cell strings.
+ * Only what a roster needs is supported: shared, inline and plain values; no formulas
+ * are evaluated (their cached value is used) and number formats are ignored.
+ */
+export function parseXlsx(buffer: Buffer): string[][] {
+  const entries = readZipDirectory(buffer)
+  const readText = (name: string): string | null => {
+    const entry = entries.get(name)
+    return entry ? readZipEntry(buffer, entry).toString('utf8') : null
+  }
+
+  const sharedStrings = parseSharedStrings(readText('xl/sharedStrings.xml') ?? '')
+  const sheetXml = readText(firstSheetPath(readText)) ?? readText(DEFAULT_SHEET)
+  if (sheetXml === null) throw AppException.businessRule('participant.roster_unreadable')
+
+  const rows: string[][] = []
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+  for (const rowMatch of sheetXml.matchAll(rowPattern)) {
+    const rowRef = attribute(rowMatch[1], 'r')
+    const rowIndex = rowRef ? Number(rowRef) - 1 : rows.length
+    const cells: string[] = []
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(cellPattern)) {
+      const ref = attribute(cellMatch[1], 'r')
+      const column = ref ? columnIndex(ref) : cells.length
+      cells[column] = cellValue(attribute(cellMatch[1], 't'), cellMatch[2] ?? '', sharedStrings)
+    }
+    rows[rowIndex] = Array.from(cells, (c) => c ?? '')
+  }
+  return Array.from(rows, (r) => r ?? [])
+}
+
+function readZipDirectory(buffer: Buffer): Map<string, ZipEntry> {
+  let eocd = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65_557); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) throw AppException.businessRule('participant.roster_unreadable')
+
+  const entries = new Map<string, ZipEntry>()
+  const count = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) break
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localOffset: buffer.readUInt32LE(offset + 42),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+function readZipEntry(buffer: Buffer, entry: ZipEntry): Buffer {
+  const at = entry.localOffset
+  if (buffer.readUInt32LE(at) !== LOCAL_SIGNATURE) {
+    throw AppException.businessRule('participant.roster_unreadable')
+  }
+  const start = at + 30 + buffer.readUInt16LE(at + 26) + buffer.readUInt16LE(at + 28)
+  const data = buffer.subarray(start, start + entry.compressedSize)
+  if (entry.method === 0) return data
+  if (entry.method === 8) return inflateRawSync(data)
+  throw AppException.businessRule('participant.roster_unreadable')
+}
+
+/** Resolves the first `<sheet>` of the workbook through its relationship target. */
+function firstSheetPath(readText: (name: string) => string | null): string {
+  const workbook = readText('xl/workbook.xml') ?? ''
+  const sheet = workbook.match(/<sheet\b([^>]*)\/?>/)
+  const relId = sheet ? attribute(sheet[1], 'r:id') : null
+  if (!relId) return DEFAULT_SHEET
+
+  const rels = readText('xl/_rels/workbook.xml.rels') ?? ''
+  for (const rel of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (attribute(rel[1], 'Id') !== relId) continue
+    const target = attribute(rel[1], 'Target') ?? ''
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+  }
+  return DEFAULT_SHEET
+}
+
+function parseSharedStrings(xml: string): string[] {
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), (m) => textRuns(m[1]))
+}
+
+function cellValue(type: string | null, inner: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') return textRuns(inner)
+  const value = decodeXml(inner.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '')
+  if (type === 's') return sharedStrings[Number(value)] ?? ''
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE'
+  return value
+}
+
+/** Concatenates the `<t>` runs of a string item, skipping phonetic hints. */
+function textRuns(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+  return Array.from(withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (m) =>
+    decodeXml(m[1]),
+  ).join('')
+}
+
+function attribute(attrs: string, name: string): string | null {
+  const escaped = name.replace(':', '\\:')
+  return attrs.match(new RegExp(`(?:^|\\s)${escaped}="([^"]*)"`))?.[1] ?? null
+}
+
+/** "A1" → 0, "AB7" → 27. */
+function columnIndex(ref: string): number {
+  let index = 0
+  for (const ch of ref.replace(/\d+$/, '')) index = index * 26 + (ch.charCodeAt(0) - 64)
+  return index - 1
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity) {
+      case 'lt':
+        return '<'
+      case 'gt':
+        return '>'
+      case 'amp':
+        return '&'
+      case 'quot':
+        return '"'
+      case 'apos':
+        return "'"
+      default:
+        return String.fromCodePoint(
+          entity[1] === 'x' || entity[1] === 'X'
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number(entity.slice(1)),
+        )
+    }
+  })
+}
@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common'
+import type { CheckpointProjection } from '@participants/application/projections'
+import type { Checkpoint } from '@participants/domain/entities'
+import type { ICheckpointRepository, TimingSplitData } from '@participants/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as CheckpointMapper from '../mappers/checkpoint.mapper'
+
+@Injectable()
+export class CheckpointRepository implements ICheckpointRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findById(id: string): Promise<Checkpoint | null> {
+    const record = await this.prisma.checkpoint.findUnique({ where: { id } })
+    return record ? CheckpointMapper.toEntity(record) : null
+  }
+
+  async findByEvent(eventId: string): Promise<Checkpoint[]> {
+    const records = await this.prisma.checkpoint.findMany({
+      where: { event_id: eventId },
+      orderBy: { name: 'asc' },
+    })
+    return records.map(CheckpointMapper.toEntity)
+  }
+
+  async existsByName(eventId: string, name: string, excludeId?: string): Promise<boolean> {
+    const count = await this.prisma.checkpoint.count({
+      where: {
+        event_id: eventId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    })
+    return count > 0
+  }
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    const data = CheckpointMapper.toPersistence(checkpoint)
+    await this.prisma.checkpoint.upsert({
+      where: { id: checkpoint.id },
+      create: data,
+      update: data,
+    })
+  }
+
+  async getCheckpointsList(eventId: string): Promise<CheckpointProjection[]> {
+    const [records, ranges] = await Promise.all([
+      this.prisma.checkpoint.findMany({
+        where: { event_id: eventId },
+        select: {
+          id: true,
+          name: true,
+          tolerance_seconds: true,
+          _count: { select: { splits: true, photos: true } },
+        },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.timingSplit.groupBy({
+        by: ['checkpoint_id'],
+        where: { checkpoint: { event_id: eventId } },
+        _min: { passed_at: true },
+        _max: { passed_at: true },
+      }),
+    ])
+    const rangeByCheckpoint = new Map(ranges.map((r) => [r.checkpoint_id, r]))
+
+    return records
+      .map((record) => {
+        const range = rangeByCheckpoint.get(record.id)
+        return {
+          id: record.id,
+          name: record.name,
+          toleranceSeconds: record.tolerance_seconds,
+          splitsCount: record._count.splits,
+          photosCount: record._count.photos,
+          firstPassingAt: range?._min.passed_at ?? null,
+          lastPassingAt: range?._max.passed_at ?? null,
+        }
+      })
+      .sort(
+        (a, b) =>
+          (a.firstPassingAt?.getTime() ?? Number.POSITIVE_INFINITY) -
+            (b.firstPassingAt?.getTime() ?? Number.POSITIVE_INFINITY) ||
+          a.name.localeCompare(b.name),
+      )
+  }
+
+  async replaceSplits(
+    created: Checkpoint[],
+    checkpointIds: string[],
+    splits: TimingSplitData[],
+    importedById: string,
+  ): Promise<void> {
+    const importedAt = new Date()
+    await this.prisma.$transaction([
+      this.prisma.checkpoint.createMany({ data: created.map(CheckpointMapper.toPersistence) }),
+      this.prisma.timingSplit.deleteMany({ where: { checkpoint_id: { in: checkpointIds } } }),
+      this.prisma.timingSplit.createMany({
+        data: splits.map((split) => ({
+          checkpoint_id: split.checkpointId,
+          bib: split.bib,
+          passed_at: split.passedAt,
+          imported_at: importedAt,
+          imported_by_id: importedById,
+        })),
+      }),
+    ])
+  }
+}
@@ -0,0 +1,169 @@
+import type { Prisma } from '@generated/prisma/client'
+import { Injectable } from '@nestjs/common'
+import type {
+  ParticipantProjection,
+  ParticipantSummaryProjection,
+} from '@participants/application/projections'
+import type { Participant } from '@participants/domain/entities'
+import type { EventBibRegistry, IParticipantReadRepository } from '@participants/domain/ports'
+import { PaginatedResult, type Pagination } from '@shared/application'
+import { PrismaService } from '@shared/infrastructure'
+import * as ParticipantMapper from '../mappers/participant.mapper'
+
+@Injectable()
+export class ParticipantReadRepository implements IParticipantReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findByEvent(eventId: string): Promise<Participant[]> {
+    const records = await this.prisma.participant.findMany({ where: { event_id: eventId } })
+    return records.map(ParticipantMapper.toEntity)
+  }
+
+  async findBibRegistry(eventId: string): Promise<EventBibRegistry> {
+    const [participants, event] = await Promise.all([
+      this.prisma.participant.findMany({ where: { event_id: eventId }, select: { bib: true } }),
+      this.prisma.event.findUnique({
+        where: { id: eventId },
+        select: { bib_range_min: true, bib_range_max: true },
+      }),
+    ])
+    const min = event?.bib_range_min ?? null
+    const max = event?.bib_range_max ?? null
+    return {
+      startList: participants.length > 0 ? new Set(participants.map((p) => p.bib)) : null,
+      range: min !== null && max !== null ? { min, max } : null,
+    }
+  }
+
+  async findEventCategories(eventId: string): Promise<Array<{ id: number; name: string }>> {
+    return this.prisma.participantCategory.findMany({
+      where: { event_type: { events: { some: { id: eventId } } } },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    })
+  }
+
+  async getParticipantsList(
+    eventId: string,
+    search: string | null,
+    pagination: Pagination,
+  ): Promise<PaginatedResult<ParticipantProjection>> {
+    const where: Prisma.ParticipantWhereInput = { event_id: eventId }
+    if (search) {
+      where.OR = [
+        { bib: { startsWith: search } },
+        { full_name: { contains: search, mode: 'insensitive' } },
+        { team: { contains: search, mode: 'insensitive' } },
+      ]
+    }
+
+    const [records, total] = await Promise.all([
+      this.prisma.participant.findMany({
+        where,
+        select: ParticipantMapper.participantListSelectConfig,
+        orderBy: { bib: 'asc' },
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      this.prisma.participant.count({ where }),
+    ])
+
+    return new PaginatedResult(records.map(ParticipantMapper.toProjection), total, pagination)
+  }
+
+  async findSummaryByBib(
+    eventId: string,
+    bib: string,
+  ): Promise<ParticipantSummaryProjection | null> {
+    const record = await this.prisma.participant.findUnique({
+      where: { event_id_bib: { event_id: eventId, bib } },
+      select: { bib: true, full_name: true, team: true, category: { select: { name: true } } },
+    })
+    if (!record) return null
+    return {
+      bib: record.bib,
+      fullName: record.full_name,
+      categoryName: record.category?.name ?? null,
+      team: record.team,
+    }
+  }
+
+  /**
+   * Resolves each bib's effective digits (latest correction wins, same rule as search)
+   * and joins them to the event roster. Unreviewed AI readings are not trusted here.
+   */
+  async findSummariesByPhotoIds(
+    photoIds: string[],
+  ): Promise<Map<string, ParticipantSummaryProjection[]>> {
+    const byPhoto = new Map<string, ParticipantSummaryProjection[]>()
+    if (photoIds.length === 0) return byPhoto
+
+    const rows = await this.prisma.$queryRaw<
+      Array<{
+        photo_id: string
+        bib: string
+        full_name: string
+        category_name: string | null
+        team: string | null
+      }>
+    >`
+      SELECT DISTINCT pb.photo_id, pt.bib, pt.full_name, pc.name AS category_name, pt.team
+      FROM photo_bibs pb
+      JOIN photos p ON p.id = pb.photo_id
+      LEFT JOIN LATERAL (
+        SELECT new_value AS corrected_value, TRUE AS has_correction
+        FROM corrections
+        WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) latest ON TRUE
+      JOIN participants pt
+        ON pt.event_id = p.event_id
+       AND pt.bib = (CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pb.digits END)
+      LEFT JOIN participant_categories pc ON pc.id = pt.participant_category_id
+      WHERE pb.deleted_at IS NULL
+        AND pb.photo_id = ANY(${photoIds}::uuid[])
+        AND (pb.source = 'reviewer' OR latest.has_correction OR p.reviewed_at IS NOT NULL)
+      ORDER BY pt.bib
+    `
+
+    for (const r of rows) {
+      const list = byPhoto.get(r.photo_id) ?? []
+      list.push({
+        bib: r.bib,
+        fullName: r.full_name,
+        categoryName: r.category_name,
+        team: r.team,
+      })
+      byPhoto.set(r.photo_id, list)
+    }
+    return byPhoto
+  }
+
+  async findPhotoIdsByParticipant(eventId: string): Promise<Map<string, string[]>> {
+    const rows = await this.prisma.$queryRaw<Array<{ participant_id: string; photo_id: string }>>`
+      SELECT DISTINCT pt.id AS participant_id, p.id AS photo_id
+      FROM photo_bibs pb
+      JOIN photos p ON p.id = pb.photo_id
+      LEFT JOIN LATERAL (
+        SELECT new_value AS corrected_value, TRUE AS has_correction
+        FROM corrections
+        WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) latest ON TRUE
+      JOIN participants pt
+        ON pt.event_id = p.event_id
+       AND pt.bib = (CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pb.digits END)
+      WHERE pb.deleted_at IS NULL
+        AND p.event_id = ${eventId}::uuid
+        AND (pb.source = 'reviewer' OR latest.has_correction OR p.reviewed_at IS NOT NULL)
+    `
+
+    const byParticipant = new Map<string, string[]>()
+    for (const r of rows) {
+      const list = byParticipant.get(r.participant_id) ?? []
+      list.push(r.photo_id)
+      byParticipant.set(r.participant_id, list)
+    }
+    return byParticipant
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common'
+import type { Participant } from '@participants/domain/entities'
+import type { BibRange, IParticipantWriteRepository } from '@participants/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as ParticipantMapper from '../mappers/participant.mapper'
+
+@Injectable()
+export class ParticipantWriteRepository implements IParticipantWriteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Applies a whole roster import atomically, so a failed import leaves the old roster intact. */
+  async applyImport(participants: Participant[], removeIds: string[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.participant.deleteMany({ where: { id: { in: removeIds } } }),
+      ...participants.map((participant) => {
+        const data = ParticipantMapper.toPersistence(participant)
+        return this.prisma.participant.upsert({
+          where: { id: participant.id },
+          create: data,
+          update: data,
+        })
+      }),
+    ])
+  }
+
+  async setBibRange(eventId: string, range: BibRange | null): Promise<void> {
+    await this.prisma.event.update({
+      where: { id: eventId },
+      data: { bib_range_min: range?.min ?? null, bib_range_max: range?.max ?? null },
+    })
+  }
+}
@@ -0,0 +1,48 @@
+import { forwardRef, Module } from '@nestjs/common'
+import { CqrsModule } from '@nestjs/cqrs'
+import { EventsModule } from '../events/events.module'
+import { CreateCheckpointHandler } from './application/commands/create-checkpoint/create-checkpoint.handler'
+import { GenerateRosterUploadUrlHandler } from './application/commands/generate-roster-upload-url/generate-roster-upload-url.handler'
+import { ImportRosterHandler } from './application/commands/import-roster/import-roster.handler'
+import { ImportTimingHandler } from './application/commands/import-timing/import-timing.handler'
+import { SetBibRangeHandler } from './application/commands/set-bib-range/set-bib-range.handler'
+import { UpdateCheckpointHandler } from './application/commands/update-checkpoint/update-checkpoint.handler'
+import { GetCheckpointsHandler } from './application/queries/get-checkpoints/get-checkpoints.handler'
+import { GetParticipantsHandler } from './application/queries/get-participants/get-participants.handler'
+import {
+  CHECKPOINT_REPOSITORY,
+  PARTICIPANT_READ_REPOSITORY,
+  PARTICIPANT_WRITE_REPOSITORY,
+  ROSTER_FILE_READER,
+} from './domain/ports'
+import { StorageRosterFileReader } from './infrastructure/readers'
+import { CheckpointRepository } from './infrastructure/repositories/checkpoint.repository'
+import { ParticipantReadRepository } from './infrastructure/repositories/participant-read.repository'
+import { ParticipantWriteRepository } from './infrastructure/repositories/participant-write.repository'
+import { CheckpointsController } from './presentation/controllers/checkpoints.controller'
+import { ParticipantsController } from './presentation/controllers/participants.controller'
+
+const CommandHandlers = [
+  GenerateRosterUploadUrlHandler,
+  ImportRosterHandler,
+  CreateCheckpointHandler,
+  UpdateCheckpointHandler,
+  ImportTimingHandler,
+  SetBibRangeHandler,
+]
+const QueryHandlers = [GetParticipantsHandler, GetCheckpointsHandler]
+
+@Module({
+  imports: [CqrsModule, forwardRef(() => EventsModule)],
+  controllers: [ParticipantsController, CheckpointsController],
+  providers: [
+    ...CommandHandlers,
+    ...QueryHandlers,
+    { provide: PARTICIPANT_READ_REPOSITORY, useClass: ParticipantReadRepository },
+    { provide: PARTICIPANT_WRITE_REPOSITORY, useClass: ParticipantWriteRepository },
+    { provide: ROSTER_FILE_READER, useClass: StorageRosterFileReader },
+    { provide: CHECKPOINT_REPOSITORY, useClass: CheckpointRepository },
+  ],
+  exports: [PARTICIPANT_READ_REPOSITORY, CHECKPOINT_REPOSITORY],
+})
+export class ParticipantsModule {}
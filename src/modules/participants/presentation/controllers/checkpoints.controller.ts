@@ -0,0 +1,131 @@
+import { Body, Controller, Get, HttpCode, Param, Patch, Post } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  CreateCheckpointCommand,
+  CreateCheckpointDto,
+  GenerateRosterUploadUrlCommand,
+  GenerateRosterUploadUrlDto,
+  ImportTimingCommand,
+  ImportTimingDto,
+  UpdateCheckpointCommand,
+  UpdateCheckpointDto,
+} from '@participants/application/commands'
+import {
+  CheckpointProjection,
+  RosterUploadUrlProjection,
+  TimingImportProjection,
+} from '@participants/application/projections'
+import { GetCheckpointsQuery } from '@participants/application/queries'
+import { TimeReference } from '@participants/domain/services/timing-import.service'
+import { AuditContext, EntityIdProjection } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Participants')
+@ApiBearerAuth()
+@Controller()
+export class CheckpointsController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  /** Lists the event's timing points, ordered by their first passing. */
+  @Roles('admin', 'operator')
+  @Get('events/:eventId/checkpoints')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List the checkpoints of an event' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Checkpoints with split and photo counts',
+    type: CheckpointProjection,
+    isArray: true,
+  })
+  async findAll(@Param('eventId') eventId: string) {
+    return this.queryBus.execute(new GetCheckpointsQuery(eventId))
+  }
+
+  @Roles('admin')
+  @Post('events/:eventId/checkpoints')
+  @SuccessMessage('success.CREATED', { entity: 'entities.checkpoint' })
+  @ApiOperation({ summary: 'Create a checkpoint' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({ status: 201, description: 'Checkpoint created', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Invalid or duplicate name' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async create(@Param('eventId') eventId: string, @Body() dto: CreateCheckpointDto) {
+    return this.commandBus.execute(
+      new CreateCheckpointCommand(eventId, dto.name, dto.toleranceSeconds),
+    )
+  }
+
+  @Roles('admin')
+  @Patch('checkpoints/:id')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.checkpoint' })
+  @ApiOperation({ summary: 'Rename a checkpoint or change its time tolerance' })
+  @ApiParam({ name: 'id', description: 'Checkpoint UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({ status: 200, description: 'Checkpoint updated', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Invalid or duplicate name' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Checkpoint not found' })
+  async update(@Param('id') id: string, @Body() dto: UpdateCheckpointDto) {
+    return this.commandBus.execute(new UpdateCheckpointCommand(id, dto.name, dto.toleranceSeconds))
+  }
+
+  /** Generates a presigned URL to upload a CSV or XLSX timing export. */
+  @Roles('admin')
+  @Post('events/:eventId/timing/upload-url')
+  @SuccessMessage('success.CREATED', { entity: 'entities.presigned_url' })
+  @ApiOperation({ summary: 'Generate a presigned URL for a timing results upload' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Presigned URL generated',
+    type: RosterUploadUrlProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Invalid content type' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async generateTimingUploadUrl(
+    @Param('eventId') eventId: string,
+    @Body() dto: GenerateRosterUploadUrlDto,
+  ) {
+    return this.commandBus.execute(
+      new GenerateRosterUploadUrlCommand(eventId, dto.fileName, dto.contentType, 'timing'),
+    )
+  }
+
+  /** Validates an uploaded timing export and, unless it is a dry run, stores its splits. */
+  @Roles('admin')
+  @Post('events/:eventId/timing/import')
+  @HttpCode(200)
+  @SuccessMessage('success.UPDATED', { entity: 'entities.timing_split' })
+  @ApiOperation({ summary: 'Import (or preview) uploaded timing results' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Splits per checkpoint, unknown bibs and per-row errors',
+    type: TimingImportProjection,
+  })
+  @ApiEnvelopeErrorResponse({
+    status: 422,
+    description: 'Unreadable file, missing columns or rows with errors',
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async importTiming(
+    @Param('eventId') eventId: string,
+    @Body() dto: ImportTimingDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new ImportTimingCommand(
+        eventId,
+        dto.objectKey,
+        dto.raceStart,
+        dto.timeReference ?? TimeReference.TIME_OF_DAY,
+        dto.dryRun ?? false,
+        new AuditContext(user.userId),
+      ),
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  GenerateRosterUploadUrlCommand,
+  GenerateRosterUploadUrlDto,
+  ImportRosterCommand,
+  ImportRosterDto,
+  SetBibRangeCommand,
+  SetBibRangeDto,
+} from '@participants/application/commands'
+import {
+  ParticipantProjection,
+  RosterImportProjection,
+  RosterUploadUrlProjection,
+} from '@participants/application/projections'
+import { GetParticipantsDto, GetParticipantsQuery } from '@participants/application/queries'
+import { AuditContext, Pagination } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Participants')
+@ApiBearerAuth()
+@Controller('events/:eventId/participants')
+export class ParticipantsController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  /** Lists the event start list ordered by bib. */
+  @Roles('admin', 'operator')
+  @Get()
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List the participants of an event' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Paginated participant list',
+    type: ParticipantProjection,
+    isArray: true,
+  })
+  async findAll(@Param('eventId') eventId: string, @Query() dto: GetParticipantsDto) {
+    const pagination = new Pagination(dto.page ?? 1, dto.limit ?? 20)
+    return this.queryBus.execute(new GetParticipantsQuery(eventId, pagination, dto.search))
+  }
+
+  /** Generates a presigned URL to upload a CSV or XLSX start list. */
+  @Roles('admin')
+  @Post('upload-url')
+  @SuccessMessage('success.CREATED', { entity: 'entities.presigned_url' })
+  @ApiOperation({ summary: 'Generate a presigned URL for a start-list upload' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Presigned URL generated',
+    type: RosterUploadUrlProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Invalid content type' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async generateUploadUrl(
+    @Param('eventId') eventId: string,
+    @Body() dto: GenerateRosterUploadUrlDto,
+  ) {
+    return this.commandBus.execute(
+      new GenerateRosterUploadUrlCommand(eventId, dto.fileName, dto.contentType),
+    )
+  }
+
+  /** Validates an uploaded start list and, unless it is a dry run, applies it. */
+  @Roles('admin')
+  @Post('import')
+  @HttpCode(200)
+  @SuccessMessage('success.UPDATED', { entity: 'entities.participant' })
+  @ApiOperation({ summary: 'Import (or preview) an uploaded start list' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Per-row preview with validation errors and the resulting changes',
+    type: RosterImportProjection,
+  })
+  @ApiEnvelopeErrorResponse({
+    status: 400,
+    description: 'Unreadable file, missing columns or rows with errors',
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async importRoster(
+    @Param('eventId') eventId: string,
+    @Body() dto: ImportRosterDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new ImportRosterCommand(
+        eventId,
+        dto.objectKey,
+        dto.dryRun ?? false,
+        dto.replaceExisting ?? false,
+        new AuditContext(user.userId),
+      ),
+    )
+  }
+
+  /**
+   * Sets the bibs the event hands out. Bib readings are checked against it when the
+   * event has no start list.
+   */
+  @Roles('admin')
+  @Put('bib-range')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.bib_range' })
+  @ApiOperation({ summary: 'Set the bib range of an event' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Lowest bib above the highest' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async setBibRange(@Param('eventId') eventId: string, @Body() dto: SetBibRangeDto) {
+    return this.commandBus.execute(new SetBibRangeCommand(eventId, { min: dto.min, max: dto.max }))
+  }
+
+  @Roles('admin')
+  @Delete('bib-range')
+  @SuccessMessage('success.DELETED', { entity: 'entities.bib_range' })
+  @ApiOperation({ summary: 'Clear the bib range of an event' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async clearBibRange(@Param('eventId') eventId: string) {
+    return this.commandBus.execute(new SetBibRangeCommand(eventId, null))
+  }
+}
@@ -0,0 +1,3 @@
+export class AbortUploadSessionCommand {
+  constructor(public readonly sessionId: string) {}
+}
@@ -0,0 +1,51 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IUploadSessionReadRepository,
+  type IUploadSessionWriteRepository,
+  UPLOAD_SESSION_READ_REPOSITORY,
+  UPLOAD_SESSION_WRITE_REPOSITORY,
+} from '@photos/domain/ports'
+import { UploadSessionItemStatus } from '@photos/domain/value-objects/upload-session-status.vo'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { AbortUploadSessionCommand } from './abort-upload-session.command'
+
+@CommandHandler(AbortUploadSessionCommand)
+export class AbortUploadSessionHandler implements ICommandHandler<AbortUploadSessionCommand> {
+  private readonly logger = new Logger(AbortUploadSessionHandler.name)
+
+  constructor(
+    @Inject(UPLOAD_SESSION_READ_REPOSITORY)
+    private readonly sessionReadRepo: IUploadSessionReadRepository,
+    @Inject(UPLOAD_SESSION_WRITE_REPOSITORY)
+    private readonly sessionWriteRepo: IUploadSessionWriteRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  /**
+   * Aborts the session and the multipart uploads of its in-flight files.
+   * Photos already confirmed stay; storage aborts are best-effort.
+   */
+  async execute(command: AbortUploadSessionCommand): Promise<EntityIdProjection> {
+    const session = await this.sessionReadRepo.findById(command.sessionId)
+    if (!session) throw AppException.notFound('UploadSession', command.sessionId)
+    session.abort()
+
+    const outstanding = await this.sessionReadRepo.findOutstandingItems(session.id)
+    for (const item of outstanding) {
+      if (item.status === UploadSessionItemStatus.UPLOADING) {
+        await this.storage.abortMultipartUpload(item.multipartRef()).catch((err) => {
+          this.logger.warn(`Failed to abort multipart upload for ${item.objectKey}`, err)
+        })
+      }
+      item.abort()
+    }
+
+    await this.sessionWriteRepo.saveItems(outstanding)
+    await this.sessionWriteRepo.save(session)
+
+    return { id: session.id }
+  }
+}
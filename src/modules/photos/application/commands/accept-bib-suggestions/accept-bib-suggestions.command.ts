@@ -0,0 +1,6 @@
+export class AcceptBibSuggestionsCommand {
+  constructor(
+    public readonly photoIds: string[],
+    public readonly reviewerId: string,
+  ) {}
+}
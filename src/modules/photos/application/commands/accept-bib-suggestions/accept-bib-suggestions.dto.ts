@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsUUID } from 'class-validator'
+
+export class AcceptBibSuggestionsDto {
+  @ApiProperty({
+    description: 'Photo UUIDs whose burst bib suggestions are accepted',
+    type: [String],
+  })
+  @IsArray()
+  @IsUUID(undefined, { each: true })
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  photoIds: string[]
+}
@@ -0,0 +1,38 @@
+import type { CommandBus } from '@nestjs/cqrs'
+import { AttachPhotoToBibPackagesCommand } from '@orders/application/commands'
+import { AcceptBibSuggestionsCommand } from './accept-bib-suggestions.command'
+import { AcceptBibSuggestionsHandler } from './accept-bib-suggestions.handler'
+
+describe('AcceptBibSuggestionsHandler', () => {
+  let handler: AcceptBibSuggestionsHandler
+  let burstRepo: { acceptSuggestions: jest.Mock }
+  let commandBus: { execute: jest.Mock }
+
+  beforeEach(() => {
+    burstRepo = { acceptSuggestions: jest.fn().mockResolvedValue(['p-1', 'p-3']) }
+    commandBus = { execute: jest.fn().mockResolvedValue(0) }
+    handler = new AcceptBibSuggestionsHandler(
+      burstRepo as never,
+      commandBus as unknown as CommandBus,
+    )
+  })
+
+  it('accepts the suggestions and attaches the photos that had any to bib packages', async () => {
+    const result = await handler.execute(
+      new AcceptBibSuggestionsCommand(['p-1', 'p-2', 'p-3'], 'r-1'),
+    )
+
+    expect(burstRepo.acceptSuggestions).toHaveBeenCalledWith(['p-1', 'p-2', 'p-3'], 'r-1')
+    expect(result).toEqual({ accepted: 2 })
+    expect(commandBus.execute).toHaveBeenCalledTimes(2)
+    expect(commandBus.execute).toHaveBeenCalledWith(new AttachPhotoToBibPackagesCommand('p-3'))
+  })
+
+  it('still accepts when attaching to bib packages fails', async () => {
+    commandBus.execute.mockRejectedValue(new Error('orders down'))
+
+    await expect(handler.execute(new AcceptBibSuggestionsCommand(['p-1'], 'r-1'))).resolves.toEqual(
+      { accepted: 2 },
+    )
+  })
+})
@@ -0,0 +1,45 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AttachPhotoToBibPackagesCommand } from '@orders/application/commands'
+import type { AcceptedSuggestionsProjection } from '@photos/application/projections'
+import { type IPhotoBurstRepository, PHOTO_BURST_REPOSITORY } from '@photos/domain/ports'
+import { AcceptBibSuggestionsCommand } from './accept-bib-suggestions.command'
+
+@CommandHandler(AcceptBibSuggestionsCommand)
+export class AcceptBibSuggestionsHandler implements ICommandHandler<AcceptBibSuggestionsCommand> {
+  private readonly logger = new Logger('ReviewAudit')
+
+  constructor(
+    @Inject(PHOTO_BURST_REPOSITORY) private readonly burstRepo: IPhotoBurstRepository,
+    private readonly commandBus: CommandBus,
+  ) {}
+
+  /**
+   * Turns the burst bib suggestions of the photos into reviewer bibs. Suggestions the
+   * reviewer does not want are deleted one by one beforehand, like any other bib.
+   */
+  async execute(cmd: AcceptBibSuggestionsCommand): Promise<AcceptedSuggestionsProjection> {
+    const accepted = await this.burstRepo.acceptSuggestions(cmd.photoIds, cmd.reviewerId)
+
+    this.logger.log({
+      event: 'photo_bib_suggestions_accepted',
+      reviewer_id: cmd.reviewerId,
+      photo_ids: accepted,
+    })
+
+    // Accepted bibs may match bib packages bought earlier
+    for (const photoId of accepted) {
+      await this.commandBus
+        .execute(new AttachPhotoToBibPackagesCommand(photoId))
+        .catch((err: unknown) => {
+          this.logger.warn({
+            event: 'bib_package_attach_failed',
+            photo_id: photoId,
+            error: String(err),
+          })
+        })
+    }
+
+    return { accepted: accepted.length }
+  }
+}
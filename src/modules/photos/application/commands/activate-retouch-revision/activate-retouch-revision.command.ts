@@ -0,0 +1,6 @@
+export class ActivateRetouchRevisionCommand {
+  constructor(
+    public readonly photoId: string,
+    public readonly revisionId: string,
+  ) {}
+}
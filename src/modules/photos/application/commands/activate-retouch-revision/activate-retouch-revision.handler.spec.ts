@@ -0,0 +1,48 @@
+import type { RetouchRevisionActivator } from '@photos/application/services/retouch-revision-activator.service'
+import type { IPhotoReadRepository, IRetouchRevisionRepository } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { ActivateRetouchRevisionCommand } from './activate-retouch-revision.command'
+import { ActivateRetouchRevisionHandler } from './activate-retouch-revision.handler'
+
+describe('ActivateRetouchRevisionHandler', () => {
+  const photo = { id: 'photo-1' }
+  let photoReadRepo: jest.Mocked<IPhotoReadRepository>
+  let revisionRepo: jest.Mocked<IRetouchRevisionRepository>
+  let activator: { activate: jest.Mock }
+  let handler: ActivateRetouchRevisionHandler
+
+  beforeEach(() => {
+    photoReadRepo = {
+      findById: jest.fn().mockResolvedValue(photo),
+    } as unknown as jest.Mocked<IPhotoReadRepository>
+    revisionRepo = {
+      findById: jest.fn().mockResolvedValue({ id: 'rev-1', photoId: 'photo-1' }),
+      listByPhoto: jest.fn().mockResolvedValue([{ id: 'rev-1', active: true }]),
+    } as unknown as jest.Mocked<IRetouchRevisionRepository>
+    activator = { activate: jest.fn().mockResolvedValue(undefined) }
+    handler = new ActivateRetouchRevisionHandler(
+      photoReadRepo,
+      revisionRepo,
+      activator as unknown as RetouchRevisionActivator,
+    )
+  })
+
+  it('activates the revision and returns the photo revisions', async () => {
+    const result = await handler.execute(new ActivateRetouchRevisionCommand('photo-1', 'rev-1'))
+
+    expect(activator.activate).toHaveBeenCalledWith(photo, { id: 'rev-1', photoId: 'photo-1' })
+    expect(result).toEqual([{ id: 'rev-1', active: true }])
+  })
+
+  it('throws NOT_FOUND for a revision of another photo', async () => {
+    revisionRepo.findById.mockResolvedValue({ id: 'rev-9', photoId: 'photo-2' } as never)
+
+    const error = await handler
+      .execute(new ActivateRetouchRevisionCommand('photo-1', 'rev-9'))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('NOT_FOUND')
+    expect(activator.activate).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,37 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { RetouchRevisionProjection } from '@photos/application/projections'
+import { RetouchRevisionActivator } from '@photos/application/services/retouch-revision-activator.service'
+import {
+  type IPhotoReadRepository,
+  type IRetouchRevisionRepository,
+  PHOTO_READ_REPOSITORY,
+  RETOUCH_REVISION_REPOSITORY,
+} from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { ActivateRetouchRevisionCommand } from './activate-retouch-revision.command'
+
+@CommandHandler(ActivateRetouchRevisionCommand)
+export class ActivateRetouchRevisionHandler
+  implements ICommandHandler<ActivateRetouchRevisionCommand>
+{
+  constructor(
+    @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
+    @Inject(RETOUCH_REVISION_REPOSITORY) private readonly revisionRepo: IRetouchRevisionRepository,
+    private readonly activator: RetouchRevisionActivator,
+  ) {}
+
+  /** Serves an earlier (or later) revision again, e.g. to undo a bad re-edit. */
+  async execute(command: ActivateRetouchRevisionCommand): Promise<RetouchRevisionProjection[]> {
+    const photo = await this.photoReadRepo.findById(command.photoId)
+    if (!photo) throw AppException.notFound('Photo', command.photoId)
+
+    const revision = await this.revisionRepo.findById(command.revisionId)
+    if (!revision || revision.photoId !== photo.id) {
+      throw AppException.notFound('RetouchRevision', command.revisionId)
+    }
+
+    await this.activator.activate(photo, revision)
+    return this.revisionRepo.listByPhoto(photo.id)
+  }
+}
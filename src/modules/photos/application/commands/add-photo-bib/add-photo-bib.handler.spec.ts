@@ -1,4 +1,5 @@
 import { BibReadingStatus } from '@generated/prisma/client'
+import type { CommandBus } from '@nestjs/cqrs'
 import { Photo } from '@photos/domain/entities'
 import { AppException } from '@shared/domain'
 import { AddPhotoBibCommand } from './add-photo-bib.command'
@@ -30,11 +31,13 @@ describe('AddPhotoBibHandler', () => {
   let handler: AddPhotoBibHandler
   let photoReadRepo: any
   let bibRepo: any
+  let commandBus: { execute: jest.Mock }
 
   beforeEach(() => {
     photoReadRepo = { findById: jest.fn() }
     bibRepo = { findById: jest.fn(), save: jest.fn() }
-    handler = new AddPhotoBibHandler(photoReadRepo, bibRepo)
+    commandBus = { execute: jest.fn().mockResolvedValue(0) }
+    handler = new AddPhotoBibHandler(photoReadRepo, bibRepo, commandBus as unknown as CommandBus)
   })
 
   it('throws when photo missing', async () => {
@@ -75,4 +78,17 @@ describe('AddPhotoBibHandler', () => {
     expect(photo.status).toBe(initialStatus)
     expect(photo.reviewedAt).toBe(initialReviewedAt)
   })
+
+  it('attaches the photo to matching bib packages without failing the edit', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto('processed', null))
+    bibRepo.save.mockImplementation((b: unknown) => Promise.resolve(b))
+    commandBus.execute.mockRejectedValue(new Error('db down'))
+
+    const result = await handler.execute(
+      new AddPhotoBibCommand('p-1', '42', BibReadingStatus.read, 'r-1'),
+    )
+
+    expect(result.photoId).toBe('p-1')
+    expect(commandBus.execute).toHaveBeenCalledWith(expect.objectContaining({ photoId: 'p-1' }))
+  })
 })
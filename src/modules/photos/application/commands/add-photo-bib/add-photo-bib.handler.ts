@@ -1,6 +1,7 @@
 import { PhotoBib } from '@classifications/domain/entities'
 import { Inject, Logger } from '@nestjs/common'
-import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AttachPhotoToBibPackagesCommand } from '@orders/application/commands'
 import {
   type IPhotoBibWriteRepository,
   type IPhotoReadRepository,
@@ -17,6 +18,7 @@ export class AddPhotoBibHandler implements ICommandHandler<AddPhotoBibCommand> {
   constructor(
     @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
     @Inject(PHOTO_BIB_WRITE_REPOSITORY) private readonly bibRepo: IPhotoBibWriteRepository,
+    private readonly commandBus: CommandBus,
   ) {}
 
   async execute(cmd: AddPhotoBibCommand): Promise<{ bibId: string; photoId: string }> {
@@ -46,6 +48,17 @@ export class AddPhotoBibHandler implements ICommandHandler<AddPhotoBibCommand> {
       payload: { digits: bib.digits, status: bib.status },
     })
 
+    // A new bib may match a bib package bought earlier
+    await this.commandBus
+      .execute(new AttachPhotoToBibPackagesCommand(cmd.photoId))
+      .catch((err: unknown) => {
+        this.logger.warn({
+          event: 'bib_package_attach_failed',
+          photo_id: cmd.photoId,
+          error: String(err),
+        })
+      })
+
     return { bibId: bib.id, photoId: cmd.photoId }
   }
 }
@@ -4,5 +4,7 @@ export class ApplyBibCorrectionCommand {
     public readonly bibId: string,
     public readonly newValue: string,
     public readonly reviewerId: string,
+    /** Version of the bib or color shown in the photo detail when the reviewer read it; null skips the check */
+    public readonly expectedVersion: number | null,
   ) {}
 }
@@ -1,9 +1,18 @@
-import { ApiProperty } from '@nestjs/swagger'
-import { IsString, Matches } from 'class-validator'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { IsInt, IsOptional, IsString, Matches, Min } from 'class-validator'
 
 export class ApplyBibCorrectionDto {
   @ApiProperty({ description: 'New digits value', example: '42' })
   @IsString()
   @Matches(/^[0-9]{1,6}$/)
   newValue!: string
+
+  @ApiPropertyOptional({
+    description:
+      'Version shown in the photo detail when the reviewer read it. When sent, the correction is refused if the bib changed since.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number
 }
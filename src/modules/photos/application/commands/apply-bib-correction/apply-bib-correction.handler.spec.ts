@@ -1,4 +1,5 @@
 import { CorrectionTargetType } from '@generated/prisma/client'
+import type { CommandBus } from '@nestjs/cqrs'
 import { Photo } from '@photos/domain/entities'
 import { AppException } from '@shared/domain'
 import { ApplyBibCorrectionCommand } from './apply-bib-correction.command'
@@ -31,6 +32,7 @@ describe('ApplyBibCorrectionHandler', () => {
   let photoReadRepo: any
   let bibRepo: any
   let correctionRepo: any
+  let commandBus: { execute: jest.Mock }
 
   beforeEach(() => {
     photoReadRepo = { findById: jest.fn() }
@@ -40,20 +42,26 @@ describe('ApplyBibCorrectionHandler', () => {
       findLatestForTarget: jest.fn(),
       findLatestByTargets: jest.fn(),
     }
-    handler = new ApplyBibCorrectionHandler(photoReadRepo, bibRepo, correctionRepo)
+    commandBus = { execute: jest.fn().mockResolvedValue(0) }
+    handler = new ApplyBibCorrectionHandler(
+      photoReadRepo,
+      bibRepo,
+      correctionRepo,
+      commandBus as unknown as CommandBus,
+    )
   })
 
   it('throws when photo missing', async () => {
     photoReadRepo.findById.mockResolvedValue(null)
     await expect(
-      handler.execute(new ApplyBibCorrectionCommand('p-x', 'b-1', '42', 'r-1')),
+      handler.execute(new ApplyBibCorrectionCommand('p-x', 'b-1', '42', 'r-1', 3)),
     ).rejects.toBeInstanceOf(AppException)
   })
 
   it('throws when status=processing', async () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto('processing'))
     await expect(
-      handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1')),
+      handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1', 3)),
     ).rejects.toBeInstanceOf(AppException)
   })
 
@@ -61,7 +69,7 @@ describe('ApplyBibCorrectionHandler', () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto())
     bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'OTHER', digits: '20' })
     await expect(
-      handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1')),
+      handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1', 3)),
     ).rejects.toBeInstanceOf(AppException)
   })
 
@@ -69,7 +77,7 @@ describe('ApplyBibCorrectionHandler', () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto())
     bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'p-1', digits: '20' })
     await expect(
-      handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', 'abc', 'r-1')),
+      handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', 'abc', 'r-1', 3)),
     ).rejects.toBeInstanceOf(AppException)
   })
 
@@ -79,7 +87,9 @@ describe('ApplyBibCorrectionHandler', () => {
     bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'p-1', digits: '42' })
     correctionRepo.findLatestForTarget.mockResolvedValue(null)
 
-    const result = await handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1'))
+    const result = await handler.execute(
+      new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1', 3),
+    )
     expect(result).toEqual({ changed: false })
     expect(correctionRepo.appendCorrection).not.toHaveBeenCalled()
     expect(photo.status).toBe('processed')
@@ -91,19 +101,24 @@ describe('ApplyBibCorrectionHandler', () => {
     photoReadRepo.findById.mockResolvedValue(photo)
     bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'p-1', digits: '20' })
     correctionRepo.findLatestForTarget.mockResolvedValue(null)
-    correctionRepo.appendCorrection.mockResolvedValue({ id: 'c-1' })
+    correctionRepo.appendCorrection.mockResolvedValue({ applied: true, correction: { id: 'c-1' } })
 
-    const result = await handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1'))
+    const result = await handler.execute(
+      new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1', 3),
+    )
     expect(result).toEqual({ changed: true, correctionId: 'c-1' })
-    expect(correctionRepo.appendCorrection).toHaveBeenCalledWith({
-      photoId: 'p-1',
-      targetType: CorrectionTargetType.photo_bib,
-      targetId: 'b-1',
-      field: 'digits',
-      oldValue: '20',
-      newValue: '42',
-      reviewerId: 'r-1',
-    })
+    expect(correctionRepo.appendCorrection).toHaveBeenCalledWith(
+      {
+        photoId: 'p-1',
+        targetType: CorrectionTargetType.photo_bib,
+        targetId: 'b-1',
+        field: 'digits',
+        oldValue: '20',
+        newValue: '42',
+        reviewerId: 'r-1',
+      },
+      3,
+    )
   })
 
   it('uses latest correction newValue as effective when present', async () => {
@@ -116,11 +131,38 @@ describe('ApplyBibCorrectionHandler', () => {
       correctedAt: new Date(),
       reviewerId: 'r-1',
     })
-    correctionRepo.appendCorrection.mockResolvedValue({ id: 'c-new' })
+    correctionRepo.appendCorrection.mockResolvedValue({
+      applied: true,
+      correction: { id: 'c-new' },
+    })
 
-    await handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1'))
+    await handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1', 3))
     expect(correctionRepo.appendCorrection).toHaveBeenCalledWith(
       expect.objectContaining({ oldValue: '30', newValue: '42' }),
+      3,
     )
   })
+
+  it('refuses the correction while another reviewer leases the photo', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto())
+    bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'p-1', digits: '20' })
+    correctionRepo.findLatestForTarget.mockResolvedValue(null)
+    correctionRepo.appendCorrection.mockResolvedValue({ applied: false, reason: 'photo_leased' })
+
+    await expect(
+      handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1', 3)),
+    ).rejects.toMatchObject({ messageKey: 'review_session.photo_leased_by_other' })
+    expect(commandBus.execute).not.toHaveBeenCalled()
+  })
+
+  it('refuses the correction when the bib changed since it was read', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto())
+    bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'p-1', digits: '20' })
+    correctionRepo.findLatestForTarget.mockResolvedValue(null)
+    correctionRepo.appendCorrection.mockResolvedValue({ applied: false, reason: 'stale' })
+
+    await expect(
+      handler.execute(new ApplyBibCorrectionCommand('p-1', 'b-1', '42', 'r-1', 3)),
+    ).rejects.toMatchObject({ messageKey: 'review_session.stale_edit' })
+  })
 })
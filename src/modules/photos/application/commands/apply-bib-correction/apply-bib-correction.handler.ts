@@ -1,6 +1,7 @@
 import { CorrectionTargetType } from '@generated/prisma/client'
 import { Inject, Logger } from '@nestjs/common'
-import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AttachPhotoToBibPackagesCommand } from '@orders/application/commands'
 import {
   CORRECTION_REPOSITORY,
   type ICorrectionRepository,
@@ -20,6 +21,7 @@ export class ApplyBibCorrectionHandler implements ICommandHandler<ApplyBibCorrec
     @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
     @Inject(PHOTO_BIB_WRITE_REPOSITORY) private readonly bibRepo: IPhotoBibWriteRepository,
     @Inject(CORRECTION_REPOSITORY) private readonly correctionRepo: ICorrectionRepository,
+    private readonly commandBus: CommandBus,
   ) {}
 
   async execute(
@@ -62,15 +64,26 @@ export class ApplyBibCorrectionHandler implements ICommandHandler<ApplyBibCorrec
       return { changed: false }
     }
 
-    const correction = await this.correctionRepo.appendCorrection({
-      photoId: cmd.photoId,
-      targetType: CorrectionTargetType.photo_bib,
-      targetId: cmd.bibId,
-      field: 'digits',
-      oldValue: effective,
-      newValue: cmd.newValue,
-      reviewerId: cmd.reviewerId,
-    })
+    const result = await this.correctionRepo.appendCorrection(
+      {
+        photoId: cmd.photoId,
+        targetType: CorrectionTargetType.photo_bib,
+        targetId: cmd.bibId,
+        field: 'digits',
+        oldValue: effective,
+        newValue: cmd.newValue,
+        reviewerId: cmd.reviewerId,
+      },
+      cmd.expectedVersion,
+    )
+    if (!result.applied) {
+      throw AppException.conflict(
+        result.reason === 'photo_leased'
+          ? 'review_session.photo_leased_by_other'
+          : 'review_session.stale_edit',
+      )
+    }
+    const { correction } = result
 
     this.logger.log({
       event: 'photo_correction_applied',
@@ -84,6 +97,17 @@ export class ApplyBibCorrectionHandler implements ICommandHandler<ApplyBibCorrec
       is_no_op: false,
       correction_id: correction.id,
     })
+    // The corrected digits may match a bib package bought earlier
+    await this.commandBus
+      .execute(new AttachPhotoToBibPackagesCommand(cmd.photoId))
+      .catch((err: unknown) => {
+        this.logger.warn({
+          event: 'bib_package_attach_failed',
+          photo_id: cmd.photoId,
+          error: String(err),
+        })
+      })
+
     return { changed: true, correctionId: correction.id }
   }
 }
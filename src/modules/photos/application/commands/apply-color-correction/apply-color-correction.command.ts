@@ -7,5 +7,7 @@ export class ApplyColorCorrectionCommand {
     public readonly field: ColorCorrectionField,
     public readonly newValue: string | null,
     public readonly reviewerId: string,
+    /** Version of the bib or color shown in the photo detail when the reviewer read it; null skips the check */
+    public readonly expectedVersion: number | null,
   ) {}
 }
@@ -1,6 +1,6 @@
-import { ApiProperty } from '@nestjs/swagger'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 import { COLOR_PALETTE } from '@shared/constants/color-palette'
-import { IsIn, IsString, ValidateIf } from 'class-validator'
+import { IsIn, IsInt, IsOptional, IsString, Min, ValidateIf } from 'class-validator'
 
 const FIELDS = ['primary_color', 'secondary_color'] as const
 
@@ -14,4 +14,13 @@ export class ApplyColorCorrectionDto {
   @IsString()
   @IsIn(COLOR_PALETTE as readonly string[])
   newValue!: string | null
+
+  @ApiPropertyOptional({
+    description:
+      'Version shown in the photo detail when the reviewer read it. When sent, the correction is refused if the color changed since.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number
 }
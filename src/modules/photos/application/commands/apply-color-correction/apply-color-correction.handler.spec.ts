@@ -47,7 +47,7 @@ describe('ApplyColorCorrectionHandler', () => {
     photoReadRepo.findById.mockResolvedValue(null)
     await expect(
       handler.execute(
-        new ApplyColorCorrectionCommand('p-x', 'c-1', 'primary_color', 'rojo', 'r-1'),
+        new ApplyColorCorrectionCommand('p-x', 'c-1', 'primary_color', 'rojo', 'r-1', 2),
       ),
     ).rejects.toBeInstanceOf(AppException)
   })
@@ -56,7 +56,7 @@ describe('ApplyColorCorrectionHandler', () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto('processing'))
     await expect(
       handler.execute(
-        new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'rojo', 'r-1'),
+        new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'rojo', 'r-1', 2),
       ),
     ).rejects.toBeInstanceOf(AppException)
   })
@@ -71,7 +71,7 @@ describe('ApplyColorCorrectionHandler', () => {
     })
     await expect(
       handler.execute(
-        new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'azul', 'r-1'),
+        new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'azul', 'r-1', 2),
       ),
     ).rejects.toBeInstanceOf(AppException)
   })
@@ -86,21 +86,27 @@ describe('ApplyColorCorrectionHandler', () => {
       secondaryColor: null,
     })
     correctionRepo.findLatestForTarget.mockResolvedValue(null)
-    correctionRepo.appendCorrection.mockResolvedValue({ id: 'corr-1' })
+    correctionRepo.appendCorrection.mockResolvedValue({
+      applied: true,
+      correction: { id: 'corr-1' },
+    })
 
     const result = await handler.execute(
-      new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'azul', 'r-1'),
+      new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'azul', 'r-1', 2),
     )
     expect(result).toEqual({ changed: true, correctionId: 'corr-1' })
-    expect(correctionRepo.appendCorrection).toHaveBeenCalledWith({
-      photoId: 'p-1',
-      targetType: CorrectionTargetType.photo_color,
-      targetId: 'c-1',
-      field: 'primary_color',
-      oldValue: 'rojo',
-      newValue: 'azul',
-      reviewerId: 'r-1',
-    })
+    expect(correctionRepo.appendCorrection).toHaveBeenCalledWith(
+      {
+        photoId: 'p-1',
+        targetType: CorrectionTargetType.photo_color,
+        targetId: 'c-1',
+        field: 'primary_color',
+        oldValue: 'rojo',
+        newValue: 'azul',
+        reviewerId: 'r-1',
+      },
+      2,
+    )
   })
 
   it('applies secondary_color correction with null (removal)', async () => {
@@ -113,10 +119,13 @@ describe('ApplyColorCorrectionHandler', () => {
       secondaryColor: 'azul',
     })
     correctionRepo.findLatestForTarget.mockResolvedValue(null)
-    correctionRepo.appendCorrection.mockResolvedValue({ id: 'corr-2' })
+    correctionRepo.appendCorrection.mockResolvedValue({
+      applied: true,
+      correction: { id: 'corr-2' },
+    })
 
     const result = await handler.execute(
-      new ApplyColorCorrectionCommand('p-1', 'c-1', 'secondary_color', null, 'r-1'),
+      new ApplyColorCorrectionCommand('p-1', 'c-1', 'secondary_color', null, 'r-1', 2),
     )
     expect(result).toEqual({ changed: true, correctionId: 'corr-2' })
     expect(correctionRepo.appendCorrection).toHaveBeenCalledWith(
@@ -125,6 +134,7 @@ describe('ApplyColorCorrectionHandler', () => {
         oldValue: 'azul',
         newValue: null,
       }),
+      2,
     )
   })
 
@@ -140,7 +150,7 @@ describe('ApplyColorCorrectionHandler', () => {
     correctionRepo.findLatestForTarget.mockResolvedValue(null)
 
     const result = await handler.execute(
-      new ApplyColorCorrectionCommand('p-1', 'c-1', 'secondary_color', null, 'r-1'),
+      new ApplyColorCorrectionCommand('p-1', 'c-1', 'secondary_color', null, 'r-1', 2),
     )
     expect(result).toEqual({ changed: false })
     expect(correctionRepo.appendCorrection).not.toHaveBeenCalled()
@@ -163,13 +173,35 @@ describe('ApplyColorCorrectionHandler', () => {
       correctedAt: new Date(),
       reviewerId: 'r-1',
     })
-    correctionRepo.appendCorrection.mockResolvedValue({ id: 'c-new' })
+    correctionRepo.appendCorrection.mockResolvedValue({
+      applied: true,
+      correction: { id: 'c-new' },
+    })
 
     await handler.execute(
-      new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'azul', 'r-1'),
+      new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'azul', 'r-1', 2),
     )
     expect(correctionRepo.appendCorrection).toHaveBeenCalledWith(
       expect.objectContaining({ oldValue: 'verde', newValue: 'azul' }),
+      2,
     )
   })
+
+  it('refuses the correction when the color changed since it was read', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto())
+    colorRepo.findById.mockResolvedValue({
+      id: 'c-1',
+      photoId: 'p-1',
+      primaryColor: 'rojo',
+      secondaryColor: null,
+    })
+    correctionRepo.findLatestForTarget.mockResolvedValue(null)
+    correctionRepo.appendCorrection.mockResolvedValue({ applied: false, reason: 'stale' })
+
+    await expect(
+      handler.execute(
+        new ApplyColorCorrectionCommand('p-1', 'c-1', 'primary_color', 'azul', 'r-1', 2),
+      ),
+    ).rejects.toMatchObject({ messageKey: 'review_session.stale_edit' })
+  })
 })
@@ -60,15 +60,26 @@ export class ApplyColorCorrectionHandler implements ICommandHandler<ApplyColorCo
       return { changed: false }
     }
 
-    const correction = await this.correctionRepo.appendCorrection({
-      photoId: cmd.photoId,
-      targetType: CorrectionTargetType.photo_color,
-      targetId: cmd.colorId,
-      field: cmd.field,
-      oldValue: effective,
-      newValue: cmd.newValue,
-      reviewerId: cmd.reviewerId,
-    })
+    const result = await this.correctionRepo.appendCorrection(
+      {
+        photoId: cmd.photoId,
+        targetType: CorrectionTargetType.photo_color,
+        targetId: cmd.colorId,
+        field: cmd.field,
+        oldValue: effective,
+        newValue: cmd.newValue,
+        reviewerId: cmd.reviewerId,
+      },
+      cmd.expectedVersion,
+    )
+    if (!result.applied) {
+      throw AppException.conflict(
+        result.reason === 'photo_leased'
+          ? 'review_session.photo_leased_by_other'
+          : 'review_session.stale_edit',
+      )
+    }
+    const { correction } = result
 
     this.logger.log({
       event: 'photo_correction_applied',
@@ -0,0 +1,7 @@
+export class BulkAssignCheckpointCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly photoIds: string[],
+    public readonly checkpointId: string | null,
+  ) {}
+}
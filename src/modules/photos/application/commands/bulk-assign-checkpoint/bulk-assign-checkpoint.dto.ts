@@ -0,0 +1,19 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsOptional, IsUUID } from 'class-validator'
+
+export class BulkAssignCheckpointDto {
+  @ApiProperty({ description: 'Photo UUIDs to update', type: [String] })
+  @IsArray()
+  @IsUUID(undefined, { each: true })
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  photoIds: string[]
+
+  @ApiPropertyOptional({
+    description: 'Checkpoint UUID to assign, or null to unassign',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  checkpointId?: string | null
+}
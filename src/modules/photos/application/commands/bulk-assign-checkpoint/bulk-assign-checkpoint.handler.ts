@@ -0,0 +1,32 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { CHECKPOINT_REPOSITORY, type ICheckpointRepository } from '@participants/domain/ports'
+import type { BulkCheckpointResultProjection } from '@photos/application/projections'
+import { type IPhotoWriteRepository, PHOTO_WRITE_REPOSITORY } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { BulkAssignCheckpointCommand } from './bulk-assign-checkpoint.command'
+
+@CommandHandler(BulkAssignCheckpointCommand)
+export class BulkAssignCheckpointHandler implements ICommandHandler<BulkAssignCheckpointCommand> {
+  constructor(
+    @Inject(PHOTO_WRITE_REPOSITORY) private readonly writeRepo: IPhotoWriteRepository,
+    @Inject(CHECKPOINT_REPOSITORY) private readonly checkpointRepo: ICheckpointRepository,
+  ) {}
+
+  /** Re-tags photos of the event, e.g. a batch uploaded before its checkpoint was known. */
+  async execute(command: BulkAssignCheckpointCommand): Promise<BulkCheckpointResultProjection> {
+    if (command.checkpointId) {
+      const checkpoint = await this.checkpointRepo.findById(command.checkpointId)
+      if (!checkpoint || checkpoint.eventId !== command.eventId) {
+        throw AppException.notFound('entities.checkpoint', command.checkpointId)
+      }
+    }
+
+    const updated = await this.writeRepo.bulkUpdateCheckpoint(
+      command.eventId,
+      command.photoIds,
+      command.checkpointId,
+    )
+    return { updated }
+  }
+}
@@ -0,0 +1,6 @@
+export class CloseReviewSessionCommand {
+  constructor(
+    public readonly sessionId: string,
+    public readonly reviewerId: string,
+  ) {}
+}
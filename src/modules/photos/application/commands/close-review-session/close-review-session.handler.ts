@@ -0,0 +1,32 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { type IReviewSessionRepository, REVIEW_SESSION_REPOSITORY } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { CloseReviewSessionCommand } from './close-review-session.command'
+
+@CommandHandler(CloseReviewSessionCommand)
+export class CloseReviewSessionHandler implements ICommandHandler<CloseReviewSessionCommand> {
+  private readonly logger = new Logger('ReviewAudit')
+
+  constructor(
+    @Inject(REVIEW_SESSION_REPOSITORY) private readonly sessionRepo: IReviewSessionRepository,
+  ) {}
+
+  async execute(cmd: CloseReviewSessionCommand): Promise<{ id: string }> {
+    const session = await this.sessionRepo.findById(cmd.sessionId)
+    if (!session) throw AppException.notFound('ReviewSession', cmd.sessionId)
+    session.assertUsableBy(cmd.reviewerId)
+
+    session.close()
+    await this.sessionRepo.save(session)
+    await this.sessionRepo.release(session.id)
+
+    this.logger.log({
+      event: 'review_session_closed',
+      review_session_id: session.id,
+      reviewer_id: cmd.reviewerId,
+    })
+
+    return { id: session.id }
+  }
+}
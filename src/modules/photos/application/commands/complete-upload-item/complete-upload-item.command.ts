@@ -0,0 +1,9 @@
+import type { AuditContext } from '@shared/application'
+
+export class CompleteUploadItemCommand {
+  constructor(
+    public readonly sessionId: string,
+    public readonly itemId: string,
+    public readonly audit: AuditContext,
+  ) {}
+}
@@ -0,0 +1,182 @@
+import type { CommandBus } from '@nestjs/cqrs'
+import { UploadSession, UploadSessionItem } from '@photos/domain/entities'
+import { UploadSessionStatus } from '@photos/domain/value-objects/upload-session-status.vo'
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { ConfirmPhotoBatchCommand } from '../confirm-photo-batch/confirm-photo-batch.command'
+import { CompleteUploadItemCommand } from './complete-upload-item.command'
+import { CompleteUploadItemHandler } from './complete-upload-item.handler'
+
+describe('CompleteUploadItemHandler', () => {
+  let handler: CompleteUploadItemHandler
+  let session: UploadSession
+  let item: UploadSessionItem
+  let sessionReadRepo: {
+    findById: jest.Mock
+    findItem: jest.Mock
+    countOutstandingItems: jest.Mock
+    hasPhoto: jest.Mock
+  }
+  let sessionWriteRepo: {
+    save: jest.Mock
+    saveItem: jest.Mock
+    claimItem: jest.Mock
+    releaseItem: jest.Mock
+  }
+  let storage: { listUploadedParts: jest.Mock; completeMultipartUpload: jest.Mock }
+  let commandBus: { execute: jest.Mock }
+
+  const audit = new AuditContext('user-1')
+
+  beforeEach(() => {
+    session = UploadSession.create({ eventId: 'event-1', photoCategoryId: 2 })
+    item = UploadSessionItem.create({
+      sessionId: session.id,
+      fileName: 'IMG_0001.jpg',
+      fileSize: session.partSize + 1,
+      contentType: 'image/jpeg',
+      objectKey: 'events/event-1/photos/uuid-IMG_0001.jpg',
+      partSize: session.partSize,
+      isDuplicate: false,
+    })
+    item.start('upload-1')
+
+    sessionReadRepo = {
+      findById: jest.fn().mockResolvedValue(session),
+      findItem: jest.fn().mockResolvedValue(item),
+      countOutstandingItems: jest.fn().mockResolvedValue(3),
+      hasPhoto: jest.fn().mockResolvedValue(false),
+    }
+    sessionWriteRepo = {
+      save: jest.fn(),
+      saveItem: jest.fn(),
+      claimItem: jest.fn().mockResolvedValue(true),
+      releaseItem: jest.fn(),
+    }
+    storage = {
+      listUploadedParts: jest.fn().mockResolvedValue([]),
+      completeMultipartUpload: jest.fn().mockResolvedValue(undefined),
+    }
+    commandBus = { execute: jest.fn().mockResolvedValue({ confirmed: 1 }) }
+
+    handler = new CompleteUploadItemHandler(
+      sessionReadRepo as never,
+      sessionWriteRepo as never,
+      storage as never,
+      commandBus as unknown as CommandBus,
+    )
+  })
+
+  it('assembles the file and confirms it through ConfirmPhotoBatch', async () => {
+    item.recordPart(1, '"a"')
+    item.recordPart(2, '"b"')
+
+    const result = await handler.execute(new CompleteUploadItemCommand(session.id, item.id, audit))
+
+    expect(storage.listUploadedParts).not.toHaveBeenCalled()
+    expect(storage.completeMultipartUpload).toHaveBeenCalledWith({
+      key: item.objectKey,
+      uploadId: 'upload-1',
+      parts: [
+        { partNumber: 1, etag: '"a"' },
+        { partNumber: 2, etag: '"b"' },
+      ],
+    })
+    const confirm = commandBus.execute.mock.calls[0][0]
+    expect(confirm).toBeInstanceOf(ConfirmPhotoBatchCommand)
+    expect(confirm.photos).toEqual([
+      expect.objectContaining({ fileName: 'IMG_0001.jpg', objectKey: item.objectKey }),
+    ])
+    expect(confirm.photoCategoryId).toBe(2)
+    expect(result.status).toBe('completed')
+    expect(sessionWriteRepo.save).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the storage listing when a part acknowledgement was lost', async () => {
+    item.recordPart(1, '"a"')
+    storage.listUploadedParts.mockResolvedValueOnce([
+      { partNumber: 1, etag: '"a"' },
+      { partNumber: 2, etag: '"b"' },
+    ])
+
+    await handler.execute(new CompleteUploadItemCommand(session.id, item.id, audit))
+
+    expect(storage.listUploadedParts).toHaveBeenCalledTimes(1)
+    expect(storage.completeMultipartUpload).toHaveBeenCalled()
+  })
+
+  it('throws without touching storage when parts are still missing', async () => {
+    const error = await handler
+      .execute(new CompleteUploadItemCommand(session.id, item.id, audit))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+    expect(storage.completeMultipartUpload).not.toHaveBeenCalled()
+    expect(commandBus.execute).not.toHaveBeenCalled()
+    expect(sessionWriteRepo.releaseItem).toHaveBeenCalledWith(item.id)
+  })
+
+  it('saves the assembled state before confirming the photo', async () => {
+    item.recordPart(1, '"a"')
+    item.recordPart(2, '"b"')
+    const saved: string[] = []
+    sessionWriteRepo.saveItem.mockImplementation(async (i: UploadSessionItem) => {
+      saved.push(i.status)
+    })
+    commandBus.execute.mockRejectedValueOnce(new Error('queue down'))
+
+    await expect(
+      handler.execute(new CompleteUploadItemCommand(session.id, item.id, audit)),
+    ).rejects.toThrow('queue down')
+
+    expect(saved).toEqual(['assembled'])
+    expect(sessionWriteRepo.releaseItem).toHaveBeenCalledWith(item.id)
+  })
+
+  it('skips the storage completion when retrying an assembled file', async () => {
+    item.recordPart(1, '"a"')
+    item.recordPart(2, '"b"')
+    item.assemble()
+
+    const result = await handler.execute(new CompleteUploadItemCommand(session.id, item.id, audit))
+
+    expect(storage.completeMultipartUpload).not.toHaveBeenCalled()
+    expect(commandBus.execute).toHaveBeenCalledTimes(1)
+    expect(result.status).toBe('completed')
+  })
+
+  it('does not confirm the photo twice when it already exists', async () => {
+    item.recordPart(1, '"a"')
+    item.recordPart(2, '"b"')
+    item.assemble()
+    sessionReadRepo.hasPhoto.mockResolvedValueOnce(true)
+
+    const result = await handler.execute(new CompleteUploadItemCommand(session.id, item.id, audit))
+
+    expect(commandBus.execute).not.toHaveBeenCalled()
+    expect(result.status).toBe('completed')
+  })
+
+  it('rejects while another request is completing the file', async () => {
+    sessionWriteRepo.claimItem.mockResolvedValueOnce(false)
+
+    await expect(
+      handler.execute(new CompleteUploadItemCommand(session.id, item.id, audit)),
+    ).rejects.toMatchObject({ messageKey: 'upload_session.item_completing' })
+    expect(storage.completeMultipartUpload).not.toHaveBeenCalled()
+    expect(sessionWriteRepo.releaseItem).not.toHaveBeenCalled()
+  })
+
+  it('closes the session when the last file completes', async () => {
+    item.recordPart(1, '"a"')
+    item.recordPart(2, '"b"')
+    sessionReadRepo.countOutstandingItems.mockResolvedValueOnce(0)
+
+    await handler.execute(new CompleteUploadItemCommand(session.id, item.id, audit))
+
+    expect(sessionWriteRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ status: UploadSessionStatus.COMPLETED }),
+    )
+  })
+})
@@ -0,0 +1,118 @@
+import { Inject } from '@nestjs/common'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type {
+  ConfirmBatchProjection,
+  UploadSessionItemProjection,
+} from '@photos/application/projections'
+import type { UploadSession, UploadSessionItem } from '@photos/domain/entities'
+import {
+  type IUploadSessionReadRepository,
+  type IUploadSessionWriteRepository,
+  UPLOAD_SESSION_READ_REPOSITORY,
+  UPLOAD_SESSION_WRITE_REPOSITORY,
+} from '@photos/domain/ports'
+import { UploadSessionItemStatus } from '@photos/domain/value-objects/upload-session-status.vo'
+import * as UploadSessionMapper from '@photos/infrastructure/mappers/upload-session.mapper'
+import type { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { ConfirmPhotoBatchCommand } from '../confirm-photo-batch/confirm-photo-batch.command'
+import { CompleteUploadItemCommand } from './complete-upload-item.command'
+
+/** How long a completing request holds the item before a retry may take over. */
+const COMPLETION_CLAIM_MS = 5 * 60 * 1000
+
+@CommandHandler(CompleteUploadItemCommand)
+export class CompleteUploadItemHandler implements ICommandHandler<CompleteUploadItemCommand> {
+  constructor(
+    @Inject(UPLOAD_SESSION_READ_REPOSITORY)
+    private readonly sessionReadRepo: IUploadSessionReadRepository,
+    @Inject(UPLOAD_SESSION_WRITE_REPOSITORY)
+    private readonly sessionWriteRepo: IUploadSessionWriteRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+    private readonly commandBus: CommandBus,
+  ) {}
+
+  /**
+   * Assembles the file on B2 and confirms it as a photo through ConfirmPhotoBatch,
+   * so KV registration and processing jobs match single-PUT uploads.
+   * Closes the session once nothing is outstanding.
+   *
+   * One request at a time holds the item. The assembled state is saved before the
+   * photo is confirmed, so a retry after a failure skips the storage completion, and
+   * a photo already confirmed from the object is not confirmed twice.
+   */
+  async execute(command: CompleteUploadItemCommand): Promise<UploadSessionItemProjection> {
+    const session = await this.sessionReadRepo.findById(command.sessionId)
+    if (!session) throw AppException.notFound('UploadSession', command.sessionId)
+    session.assertOpen()
+
+    const found = await this.sessionReadRepo.findItem(command.sessionId, command.itemId)
+    if (!found) throw AppException.notFound('UploadSessionItem', command.itemId)
+    if (found.status === UploadSessionItemStatus.COMPLETED) {
+      return UploadSessionMapper.toItemProjection(found)
+    }
+
+    const claimed = await this.sessionWriteRepo.claimItem(
+      found.id,
+      new Date(Date.now() + COMPLETION_CLAIM_MS),
+    )
+    if (!claimed) throw AppException.conflict('upload_session.item_completing')
+
+    try {
+      // Re-read under the claim: the previous holder may have moved the item on
+      const item = await this.sessionReadRepo.findItem(command.sessionId, command.itemId)
+      if (!item) throw AppException.notFound('UploadSessionItem', command.itemId)
+      await this.completeItem(session, item, command.audit)
+
+      if ((await this.sessionReadRepo.countOutstandingItems(session.id)) === 0) {
+        session.complete()
+        await this.sessionWriteRepo.save(session)
+      }
+      return UploadSessionMapper.toItemProjection(item)
+    } finally {
+      await this.sessionWriteRepo.releaseItem(found.id)
+    }
+  }
+
+  private async completeItem(
+    session: UploadSession,
+    item: UploadSessionItem,
+    audit: AuditContext,
+  ): Promise<void> {
+    if (item.status === UploadSessionItemStatus.COMPLETED) return
+
+    if (item.status !== UploadSessionItemStatus.ASSEMBLED) {
+      const ref = item.multipartRef()
+      // Parts whose acknowledgement got lost are still on B2; trust its listing over ours.
+      if (item.missingParts().length > 0) {
+        item.syncParts(await this.storage.listUploadedParts(ref))
+      }
+      item.assemble()
+
+      await this.storage.completeMultipartUpload({ ...ref, parts: item.completedParts })
+      await this.sessionWriteRepo.saveItem(item)
+    }
+    item.complete()
+
+    if (!(await this.sessionReadRepo.hasPhoto(item.objectKey))) {
+      await this.commandBus.execute<ConfirmPhotoBatchCommand, ConfirmBatchProjection>(
+        new ConfirmPhotoBatchCommand(
+          session.eventId,
+          [
+            {
+              fileName: item.fileName,
+              fileSize: Number(item.fileSize),
+              objectKey: item.objectKey,
+              contentType: item.contentType,
+            },
+          ],
+          audit,
+          session.photoCategoryId,
+          session.checkpointId,
+        ),
+      )
+    }
+    await this.sessionWriteRepo.saveItem(item)
+  }
+}
@@ -13,5 +13,6 @@ export class ConfirmPhotoBatchCommand {
     public readonly photos: PhotoBatchItem[],
     public readonly audit?: AuditContext,
     public readonly photoCategoryId?: number | null,
+    public readonly checkpointId?: string | null,
   ) {}
 }
@@ -9,6 +9,7 @@ import {
   IsNumber,
   IsOptional,
   IsString,
+  IsUUID,
   MaxLength,
   Min,
   ValidateNested,
@@ -57,4 +58,12 @@ export class ConfirmPhotoBatchDto {
   @IsInt()
   @Min(1)
   photoCategoryId?: number
+
+  @ApiPropertyOptional({
+    description: 'Checkpoint the photographer shot at, assigned to all photos in this batch',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  checkpointId?: string
 }
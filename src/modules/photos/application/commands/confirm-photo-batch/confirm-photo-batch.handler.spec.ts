@@ -13,6 +13,8 @@ describe('ConfirmPhotoBatchHandler', () => {
   let kvStorage: { writeBulk: jest.Mock }
   let embeddingQueue: { add: jest.Mock; addBulk: jest.Mock }
   let classificationQueue: { add: jest.Mock; addBulk: jest.Mock }
+  let exifQueue: { add: jest.Mock; addBulk: jest.Mock }
+  let checkpointRepo: { findById: jest.Mock }
 
   const eventId = '550e8400-e29b-41d4-a716-446655440000'
 
@@ -65,15 +67,20 @@ describe('ConfirmPhotoBatchHandler', () => {
 
     photoWriteRepo = {
       save: jest.fn(),
+      saveProcessingStatus: jest.fn(),
+      saveReviewed: jest.fn(),
       saveMany: jest.fn(),
       delete: jest.fn(),
       bulkUpdateCategory: jest.fn(),
+      bulkUpdateCheckpoint: jest.fn(),
       setRequiresRetouch: jest.fn().mockResolvedValue(undefined),
     } as jest.Mocked<IPhotoWriteRepository>
 
     kvStorage = { writeBulk: jest.fn().mockResolvedValue(undefined) }
     embeddingQueue = { add: jest.fn(), addBulk: jest.fn() }
     classificationQueue = { add: jest.fn(), addBulk: jest.fn() }
+    exifQueue = { add: jest.fn(), addBulk: jest.fn() }
+    checkpointRepo = { findById: jest.fn() }
 
     handler = new ConfirmPhotoBatchHandler(
       eventReadRepo,
@@ -81,6 +88,8 @@ describe('ConfirmPhotoBatchHandler', () => {
       kvStorage as any,
       embeddingQueue as unknown as import('bullmq').Queue,
       classificationQueue as unknown as import('bullmq').Queue,
+      exifQueue as unknown as import('bullmq').Queue,
+      checkpointRepo as never,
     )
   })
 
@@ -160,6 +169,49 @@ describe('ConfirmPhotoBatchHandler', () => {
     )
   })
 
+  it('should enqueue EXIF extraction for each confirmed photo', async () => {
+    eventReadRepo.findById.mockResolvedValueOnce(existingEvent)
+    photoWriteRepo.saveMany.mockResolvedValueOnce(1)
+
+    await handler.execute(new ConfirmPhotoBatchCommand(eventId, [validBatchItem]))
+
+    expect(exifQueue.addBulk).toHaveBeenCalledWith([
+      expect.objectContaining({
+        name: 'extract-exif',
+        data: { photoId: expect.any(String) },
+      }),
+    ])
+  })
+
+  it('should tag every photo with the checkpoint of the batch', async () => {
+    eventReadRepo.findById.mockResolvedValueOnce(existingEvent)
+    checkpointRepo.findById.mockResolvedValueOnce({ id: 'checkpoint-1', eventId })
+    photoWriteRepo.saveMany.mockResolvedValueOnce(1)
+
+    await handler.execute(
+      new ConfirmPhotoBatchCommand(eventId, [validBatchItem], undefined, null, 'checkpoint-1'),
+    )
+
+    expect(photoWriteRepo.saveMany).toHaveBeenCalledWith([
+      expect.objectContaining({ checkpointId: 'checkpoint-1' }),
+    ])
+  })
+
+  it('should throw NOT_FOUND when the checkpoint belongs to another event', async () => {
+    eventReadRepo.findById.mockResolvedValueOnce(existingEvent)
+    checkpointRepo.findById.mockResolvedValueOnce({ id: 'checkpoint-1', eventId: 'other-event' })
+
+    const error = await handler
+      .execute(
+        new ConfirmPhotoBatchCommand(eventId, [validBatchItem], undefined, null, 'checkpoint-1'),
+      )
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('NOT_FOUND')
+    expect(photoWriteRepo.saveMany).not.toHaveBeenCalled()
+  })
+
   it('should return confirmed: 0 when all photos are duplicates', async () => {
     eventReadRepo.findById.mockResolvedValueOnce(existingEvent)
     photoWriteRepo.saveMany.mockResolvedValueOnce(0)
@@ -2,6 +2,7 @@ import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain
 import { InjectQueue } from '@nestjs/bullmq'
 import { Inject, Logger } from '@nestjs/common'
 import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { CHECKPOINT_REPOSITORY, type ICheckpointRepository } from '@participants/domain/ports'
 import { Photo } from '@photos/domain/entities'
 import { type IPhotoWriteRepository, PHOTO_WRITE_REPOSITORY } from '@photos/domain/ports'
 import { type IKvStorageAdapter, KV_STORAGE_ADAPTER } from '@shared/cloudflare/domain/ports'
@@ -20,6 +21,8 @@ export class ConfirmPhotoBatchHandler implements ICommandHandler<ConfirmPhotoBat
     @Inject(KV_STORAGE_ADAPTER) private readonly kvStorage: IKvStorageAdapter,
     @InjectQueue('embedding-generation') private readonly embeddingQueue: Queue,
     @InjectQueue('photo-classification') private readonly classificationQueue: Queue,
+    @InjectQueue('exif-extraction') private readonly exifQueue: Queue,
+    @Inject(CHECKPOINT_REPOSITORY) private readonly checkpointRepo: ICheckpointRepository,
   ) {}
 
   /** Validates event, checks objectKey prefixes, and batch-inserts photo metadata. */
@@ -34,6 +37,13 @@ export class ConfirmPhotoBatchHandler implements ICommandHandler<ConfirmPhotoBat
       }
     }
 
+    if (command.checkpointId) {
+      const checkpoint = await this.checkpointRepo.findById(command.checkpointId)
+      if (!checkpoint || checkpoint.eventId !== command.eventId) {
+        throw AppException.notFound('entities.checkpoint', command.checkpointId)
+      }
+    }
+
     const photos = command.photos.map((item) => {
       const photo = Photo.create({
         eventId: command.eventId,
@@ -42,6 +52,7 @@ export class ConfirmPhotoBatchHandler implements ICommandHandler<ConfirmPhotoBat
         fileSize: BigInt(item.fileSize),
         mimeType: item.contentType,
         photoCategoryId: command.photoCategoryId ?? null,
+        checkpointId: command.checkpointId ?? null,
       })
       if (command.audit) photo.setCreatedBy(command.audit.userId)
       return photo
@@ -79,6 +90,14 @@ export class ConfirmPhotoBatchHandler implements ICommandHandler<ConfirmPhotoBat
     )
     this.logger.log(`Enqueued ${photos.length} photo classification jobs`)
 
+    await this.exifQueue.addBulk(
+      photos.map((photo) => ({
+        name: 'extract-exif',
+        data: { photoId: photo.id },
+        opts: { attempts: 3, backoff: { type: 'exponential', delay: 2000 } },
+      })),
+    )
+
     return { confirmed }
   }
 }
@@ -4,5 +4,6 @@ export class ConfirmRetouchedUploadCommand {
     public readonly objectKey: string,
     public readonly fileSize: number,
     public readonly retouchedById: string,
+    public readonly note: string | null = null,
   ) {}
 }
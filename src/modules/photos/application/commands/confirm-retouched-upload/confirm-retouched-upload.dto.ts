@@ -1,5 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger'
-import { IsNotEmpty, IsNumber, IsString, MaxLength, Min } from 'class-validator'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { IsNotEmpty, IsNumber, IsOptional, IsString, MaxLength, Min } from 'class-validator'
 
 export class ConfirmRetouchedUploadDto {
   @ApiProperty({
@@ -15,4 +15,13 @@ export class ConfirmRetouchedUploadDto {
   @IsNumber()
   @Min(1)
   fileSize: number
+
+  @ApiPropertyOptional({
+    description: 'What changed in this revision',
+    example: 'Removed the spectator behind the rider',
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  note?: string
 }
@@ -1,19 +1,21 @@
-import type { IOrderReadRepository } from '@orders/domain/ports'
+import { RetouchRequest } from '@orders/domain/entities'
+import type { IOrderReadRepository, IRetouchRequestRepository } from '@orders/domain/ports'
+import type { RetouchRevisionActivator } from '@photos/application/services/retouch-revision-activator.service'
 import { Photo } from '@photos/domain/entities'
-import type { IPhotoReadRepository, IPhotoWriteRepository } from '@photos/domain/ports'
-import type { IKvStorageAdapter } from '@shared/cloudflare/domain/ports'
+import type { IPhotoReadRepository, IRetouchRevisionRepository } from '@photos/domain/ports'
 import { AppException } from '@shared/domain'
-import type { IStorageAdapter } from '@shared/storage/domain/ports/storage-adapter.port'
 import { ConfirmRetouchedUploadCommand } from './confirm-retouched-upload.command'
 import { ConfirmRetouchedUploadHandler } from './confirm-retouched-upload.handler'
 
 describe('ConfirmRetouchedUploadHandler', () => {
   let handler: ConfirmRetouchedUploadHandler
   let photoReadRepo: jest.Mocked<IPhotoReadRepository>
-  let photoWriteRepo: jest.Mocked<IPhotoWriteRepository>
-  let storageAdapter: jest.Mocked<IStorageAdapter>
-  let orderReadRepo: jest.Mocked<Pick<IOrderReadRepository, 'findOrdersFullyRetouchedByPhoto'>>
-  let kvStorage: jest.Mocked<IKvStorageAdapter>
+  let revisionRepo: jest.Mocked<IRetouchRevisionRepository>
+  let activator: { activate: jest.Mock }
+  let orderReadRepo: jest.Mocked<
+    Pick<IOrderReadRepository, 'findOrdersFullyRetouchedByPhoto' | 'isRetouchClaimedByOther'>
+  >
+  let retouchRequestRepo: jest.Mocked<IRetouchRequestRepository>
   let eventEmitter: { emit: jest.Mock }
 
   const eventId = '550e8400-e29b-41d4-a716-446655440000'
@@ -49,6 +51,8 @@ describe('ConfirmRetouchedUploadHandler', () => {
       getPhotoDetailBySlug: jest.fn(),
       getPhotoViewBySlug: jest.fn(),
       searchPhotos: jest.fn(),
+      findSearchHits: jest.fn(),
+      getPhotoListByIds: jest.fn(),
       getTotalFileSizeByEvent: jest.fn(),
       getTotalFileSizesByEventIds: jest.fn(),
       getClassifiedCountByEvent: jest.fn(),
@@ -59,44 +63,42 @@ describe('ConfirmRetouchedUploadHandler', () => {
       sumAllFileSize: jest.fn(),
       countByIds: jest.fn(),
       findSimilar: jest.fn(),
+      findDetectionById: jest.fn(),
+      findSimilarByDetection: jest.fn(),
       countByIdsAndEvent: jest.fn(),
       getReviewQueue: jest.fn(),
       getReviewQueueByEventIds: jest.fn(),
     } as jest.Mocked<IPhotoReadRepository>
 
-    photoWriteRepo = {
+    revisionRepo = {
+      findById: jest.fn(),
+      findActiveByPhoto: jest.fn(),
+      nextRevisionNumber: jest.fn().mockResolvedValue(1),
+      listByPhoto: jest.fn(),
+      activate: jest.fn(),
       save: jest.fn(),
-      saveMany: jest.fn(),
-      delete: jest.fn(),
-      bulkUpdateCategory: jest.fn(),
-      setRequiresRetouch: jest.fn().mockResolvedValue(undefined),
-    } as jest.Mocked<IPhotoWriteRepository>
-
-    storageAdapter = {
-      upload: jest.fn(),
-      getPresignedUrl: jest.fn(),
-      getPresignedDownloadUrl: jest.fn(),
-      getPublicUrl: jest.fn(),
-      delete: jest.fn(),
-    } as jest.Mocked<IStorageAdapter>
+    } as jest.Mocked<IRetouchRevisionRepository>
+
+    activator = { activate: jest.fn().mockResolvedValue(undefined) }
 
     orderReadRepo = {
       findOrdersFullyRetouchedByPhoto: jest.fn().mockResolvedValue([]),
-    } as jest.Mocked<Pick<IOrderReadRepository, 'findOrdersFullyRetouchedByPhoto'>>
+      isRetouchClaimedByOther: jest.fn().mockResolvedValue(false),
+    }
+
+    retouchRequestRepo = {
+      findOpenByPhoto: jest.fn().mockResolvedValue([]),
+      save: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IRetouchRequestRepository>
 
-    kvStorage = {
-      write: jest.fn().mockResolvedValue(undefined),
-      writeBulk: jest.fn(),
-      delete: jest.fn().mockResolvedValue(undefined),
-    } as jest.Mocked<IKvStorageAdapter>
     eventEmitter = { emit: jest.fn() }
 
     handler = new ConfirmRetouchedUploadHandler(
       photoReadRepo,
-      photoWriteRepo,
-      storageAdapter,
-      kvStorage,
+      revisionRepo,
+      activator as unknown as RetouchRevisionActivator,
       orderReadRepo as unknown as jest.Mocked<IOrderReadRepository>,
+      retouchRequestRepo,
       eventEmitter as any,
     )
   })
@@ -116,6 +118,28 @@ describe('ConfirmRetouchedUploadHandler', () => {
     expect(error.code).toBe('NOT_FOUND')
   })
 
+  it('rejects while another operator holds the retouch claim', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(createPhoto())
+    orderReadRepo.isRetouchClaimedByOther.mockResolvedValueOnce(true)
+
+    const command = new ConfirmRetouchedUploadCommand(
+      'photo-001',
+      `events/${eventId}/retouched/uuid-file.jpg`,
+      5000,
+      'operator-001',
+    )
+
+    await expect(handler.execute(command)).rejects.toMatchObject({
+      messageKey: 'photo.retouch_claimed_by_other',
+    })
+    expect(orderReadRepo.isRetouchClaimedByOther).toHaveBeenCalledWith(
+      'photo-001',
+      'operator-001',
+      expect.any(Date),
+    )
+    expect(activator.activate).not.toHaveBeenCalled()
+  })
+
   it('should throw BUSINESS_RULE when object key prefix is invalid', async () => {
     photoReadRepo.findById.mockResolvedValueOnce(createPhoto())
 
@@ -131,10 +155,9 @@ describe('ConfirmRetouchedUploadHandler', () => {
     expect(error.code).toBe('BUSINESS_RULE')
   })
 
-  it('should confirm first retouched upload without deleting old file', async () => {
+  it('should activate the upload as the first revision', async () => {
     const photo = createPhoto()
     photoReadRepo.findById.mockResolvedValueOnce(photo)
-    photoWriteRepo.save.mockResolvedValueOnce(photo)
 
     const objectKey = `events/${eventId}/retouched/uuid-retouched.jpg`
     const command = new ConfirmRetouchedUploadCommand('photo-001', objectKey, 5000, 'operator-001')
@@ -142,50 +165,91 @@ describe('ConfirmRetouchedUploadHandler', () => {
     const result = await handler.execute(command)
 
     expect(result).toEqual({ confirmed: true })
-    expect(storageAdapter.delete).not.toHaveBeenCalled()
-    expect(photoWriteRepo.save).toHaveBeenCalledWith(
+    expect(activator.activate).toHaveBeenCalledWith(
+      photo,
       expect.objectContaining({
-        retouchedStorageKey: objectKey,
-        retouchedFileSize: 5000n,
+        photoId: 'photo-001',
+        revision: 1,
+        storageKey: objectKey,
+        fileSize: 5000n,
+        note: null,
+        createdById: 'operator-001',
+        supersededAt: null,
       }),
     )
   })
 
-  it('should delete old retouched file when replacing', async () => {
+  it('should add a new revision with its note instead of replacing the previous one', async () => {
     const oldKey = `events/${eventId}/retouched/old-uuid-retouched.jpg`
     const photo = createPhoto(oldKey)
     photoReadRepo.findById.mockResolvedValueOnce(photo)
-    photoWriteRepo.save.mockResolvedValueOnce(photo)
+    revisionRepo.nextRevisionNumber.mockResolvedValueOnce(3)
 
     const newKey = `events/${eventId}/retouched/new-uuid-retouched.jpg`
-    const command = new ConfirmRetouchedUploadCommand('photo-001', newKey, 6000, 'operator-001')
+    const command = new ConfirmRetouchedUploadCommand(
+      'photo-001',
+      newKey,
+      6000,
+      'operator-001',
+      'Warmer skin tones',
+    )
 
-    const result = await handler.execute(command)
+    await handler.execute(command)
 
-    expect(result).toEqual({ confirmed: true })
-    expect(storageAdapter.delete).toHaveBeenCalledWith(oldKey)
-    expect(photoWriteRepo.save).toHaveBeenCalledWith(
-      expect.objectContaining({
-        retouchedStorageKey: newKey,
-        retouchedFileSize: 6000n,
-      }),
-    )
+    const [, revision] = activator.activate.mock.calls[0]
+    expect(revision).toMatchObject({ revision: 3, storageKey: newKey, note: 'Warmer skin tones' })
+    expect(revision.publicSlug).toEqual(expect.any(String))
   })
 
-  it('should still confirm even if old file deletion fails', async () => {
-    const oldKey = `events/${eventId}/retouched/old-uuid.jpg`
-    const photo = createPhoto(oldKey)
-    photoReadRepo.findById.mockResolvedValueOnce(photo)
-    photoWriteRepo.save.mockResolvedValueOnce(photo)
-    storageAdapter.delete.mockRejectedValueOnce(new Error('S3 delete failed'))
+  it('should notify orders whose photos are now all retouched', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(createPhoto())
+    orderReadRepo.findOrdersFullyRetouchedByPhoto.mockResolvedValueOnce([
+      {
+        orderId: 'order-1',
+        eventId,
+        eventName: 'Vuelta',
+        customerName: 'Ana',
+        photoCount: 2,
+      },
+    ] as never)
 
-    const newKey = `events/${eventId}/retouched/new-uuid.jpg`
-    const command = new ConfirmRetouchedUploadCommand('photo-001', newKey, 4000, 'operator-001')
+    const command = new ConfirmRetouchedUploadCommand(
+      'photo-001',
+      `events/${eventId}/retouched/uuid.jpg`,
+      4000,
+      'operator-001',
+    )
+    await handler.execute(command)
 
-    const result = await handler.execute(command)
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ orderId: 'order-1', photoCount: 2 }),
+    )
+  })
 
-    expect(result).toEqual({ confirmed: true })
-    expect(storageAdapter.delete).toHaveBeenCalledWith(oldKey)
-    expect(photoWriteRepo.save).toHaveBeenCalled()
+  it('should send open customer retouch requests for approval with the new revision', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(createPhoto())
+    const request = RetouchRequest.create({
+      orderItemId: 'item-1',
+      orderId: 'order-1',
+      photoId: 'photo-001',
+      instructions: 'Quitar al espectador',
+      price: null,
+    })
+    retouchRequestRepo.findOpenByPhoto.mockResolvedValueOnce([request])
+
+    await handler.execute(
+      new ConfirmRetouchedUploadCommand(
+        'photo-001',
+        `events/${eventId}/retouched/uuid.jpg`,
+        4000,
+        'operator-001',
+      ),
+    )
+
+    const [, revision] = activator.activate.mock.calls[0]
+    expect(retouchRequestRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'awaiting_approval', retouchRevisionId: revision.id }),
+    )
   })
 })
@@ -5,16 +5,21 @@ import {
   NotificationEvent,
   type OrderRetouchCompletedPayload,
 } from '@notifications/application/services/notification-events'
-import { type IOrderReadRepository, ORDER_READ_REPOSITORY } from '@orders/domain/ports'
+import {
+  type IOrderReadRepository,
+  type IRetouchRequestRepository,
+  ORDER_READ_REPOSITORY,
+  RETOUCH_REQUEST_REPOSITORY,
+} from '@orders/domain/ports'
+import { RetouchRevisionActivator } from '@photos/application/services/retouch-revision-activator.service'
+import { RetouchRevision } from '@photos/domain/entities'
 import {
   type IPhotoReadRepository,
-  type IPhotoWriteRepository,
+  type IRetouchRevisionRepository,
   PHOTO_READ_REPOSITORY,
-  PHOTO_WRITE_REPOSITORY,
+  RETOUCH_REVISION_REPOSITORY,
 } from '@photos/domain/ports'
-import { type IKvStorageAdapter, KV_STORAGE_ADAPTER } from '@shared/cloudflare/domain/ports'
 import { AppException } from '@shared/domain'
-import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
 import { nanoid } from 'nanoid'
 import { ConfirmRetouchedUploadCommand } from './confirm-retouched-upload.command'
 
@@ -26,53 +31,47 @@ export class ConfirmRetouchedUploadHandler
 
   constructor(
     @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
-    @Inject(PHOTO_WRITE_REPOSITORY) private readonly photoWriteRepo: IPhotoWriteRepository,
-    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
-    @Inject(KV_STORAGE_ADAPTER) private readonly kv: IKvStorageAdapter,
+    @Inject(RETOUCH_REVISION_REPOSITORY) private readonly revisionRepo: IRetouchRevisionRepository,
+    private readonly activator: RetouchRevisionActivator,
     @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
+    @Inject(RETOUCH_REQUEST_REPOSITORY)
+    private readonly retouchRequestRepo: IRetouchRequestRepository,
     private readonly eventEmitter: EventEmitter2,
   ) {}
 
+  /** Refused while another operator holds a claim on the photo's retouch. */
   async execute(command: ConfirmRetouchedUploadCommand): Promise<{ confirmed: boolean }> {
     const photo = await this.photoReadRepo.findById(command.photoId)
     if (!photo) throw AppException.notFound('Photo', command.photoId)
+    if (
+      await this.orderReadRepo.isRetouchClaimedByOther(photo.id, command.retouchedById, new Date())
+    ) {
+      throw AppException.conflict('photo.retouch_claimed_by_other')
+    }
 
     const expectedPrefix = `events/${photo.eventId}/retouched/`
     if (!command.objectKey.startsWith(expectedPrefix)) {
       throw AppException.businessRule('photo.invalid_object_key_prefix')
     }
 
-    // Clean up old retouched file and its KV slug
-    if (photo.retouchedStorageKey) {
-      try {
-        await this.storage.delete(photo.retouchedStorageKey)
-      } catch (error) {
-        this.logger.warn(`Failed to delete old retouched file: ${photo.retouchedStorageKey}`, error)
-      }
-    }
-    if (photo.retouchedPublicSlug) {
-      this.kv.delete(photo.retouchedPublicSlug).catch((error) => {
-        this.logger.warn(
-          `Failed to delete old retouched KV slug: ${photo.retouchedPublicSlug}`,
-          error,
-        )
-      })
-    }
-
-    // Generate slug and register in KV
-    const retouchedSlug = nanoid()
-    photo.setRetouched(
-      command.objectKey,
-      retouchedSlug,
-      BigInt(command.fileSize),
-      command.retouchedById,
-    )
-    await this.photoWriteRepo.save(photo)
-
-    // Register slug → storage key in KV (fire-and-forget)
-    this.kv.write(retouchedSlug, command.objectKey).catch((err: unknown) => {
-      this.logger.error(`Failed to register retouched KV slug: ${retouchedSlug}`, err)
+    // The file it replaces is kept as an earlier revision until the retention job purges it
+    const revision = RetouchRevision.create({
+      photoId: photo.id,
+      revision: await this.revisionRepo.nextRevisionNumber(photo.id),
+      storageKey: command.objectKey,
+      publicSlug: nanoid(),
+      fileSize: BigInt(command.fileSize),
+      note: command.note,
+      createdById: command.retouchedById,
     })
+    await this.activator.activate(photo, revision)
+
+    // Customer retouch requests on the photo now wait for the customer's approval
+    const openRequests = await this.retouchRequestRepo.findOpenByPhoto(photo.id)
+    for (const request of openRequests) {
+      request.submitForApproval(revision.id)
+      await this.retouchRequestRepo.save(request)
+    }
 
     const completedOrders = await this.orderReadRepo.findOrdersFullyRetouchedByPhoto(
       command.photoId,
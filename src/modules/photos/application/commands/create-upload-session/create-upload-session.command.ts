@@ -0,0 +1,17 @@
+import type { AuditContext } from '@shared/application'
+
+export interface UploadSessionFile {
+  fileName: string
+  fileSize: number
+  contentType: string
+}
+
+export class CreateUploadSessionCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly files: UploadSessionFile[],
+    public readonly audit: AuditContext,
+    public readonly photoCategoryId: number | null = null,
+    public readonly checkpointId: string | null = null,
+  ) {}
+}
@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator'
+
+const ALLOWED_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const
+
+export class UploadSessionFileDto {
+  @ApiProperty({ description: 'Original file name', example: 'IMG_0001.jpg' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  fileName: string
+
+  @ApiProperty({ description: 'File size in bytes', example: 18874368 })
+  @IsNumber()
+  @Min(1)
+  fileSize: number
+
+  @ApiProperty({
+    description: 'MIME type of the file',
+    example: 'image/jpeg',
+    enum: ALLOWED_CONTENT_TYPES,
+  })
+  @IsString()
+  @IsIn(ALLOWED_CONTENT_TYPES)
+  contentType: string
+}
+
+export class CreateUploadSessionDto {
+  @ApiProperty({ description: 'Every file the batch will upload', type: [UploadSessionFileDto] })
+  @ValidateNested({ each: true })
+  @Type(() => UploadSessionFileDto)
+  @ArrayMinSize(1)
+  @ArrayMaxSize(5000)
+  files: UploadSessionFileDto[]
+
+  @ApiPropertyOptional({
+    description: 'Photo category ID to assign to every photo of the session',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  photoCategoryId?: number
+
+  @ApiPropertyOptional({
+    description: 'Checkpoint the photographer shot at, stamped on every photo of the session',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  checkpointId?: string
+}
@@ -0,0 +1,65 @@
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { CreateUploadSessionCommand } from './create-upload-session.command'
+import { CreateUploadSessionHandler } from './create-upload-session.handler'
+
+describe('CreateUploadSessionHandler', () => {
+  let handler: CreateUploadSessionHandler
+  let eventReadRepo: { findById: jest.Mock }
+  let sessionReadRepo: { findUploadedFileNames: jest.Mock }
+  let sessionWriteRepo: { create: jest.Mock }
+
+  const eventId = '550e8400-e29b-41d4-a716-446655440000'
+  const audit = new AuditContext('user-1')
+  const file = (fileName: string) => ({ fileName, fileSize: 5_000_000, contentType: 'image/jpeg' })
+
+  beforeEach(() => {
+    eventReadRepo = { findById: jest.fn().mockResolvedValue({ id: eventId }) }
+    sessionReadRepo = { findUploadedFileNames: jest.fn().mockResolvedValue([]) }
+    sessionWriteRepo = { create: jest.fn().mockResolvedValue(undefined) }
+    handler = new CreateUploadSessionHandler(
+      eventReadRepo as never,
+      sessionReadRepo as never,
+      sessionWriteRepo as never,
+      { findById: jest.fn() } as never,
+    )
+  })
+
+  it('throws NOT_FOUND when the event does not exist', async () => {
+    eventReadRepo.findById.mockResolvedValueOnce(null)
+
+    const error = await handler
+      .execute(new CreateUploadSessionCommand(eventId, [file('a.jpg')], audit))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('NOT_FOUND')
+  })
+
+  it('rejects a batch that repeats a file name', async () => {
+    const error = await handler
+      .execute(new CreateUploadSessionCommand(eventId, [file('a.jpg'), file('a.jpg')], audit))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+    expect(sessionWriteRepo.create).not.toHaveBeenCalled()
+  })
+
+  it('registers every file and marks those already uploaded as duplicates', async () => {
+    sessionReadRepo.findUploadedFileNames.mockResolvedValueOnce(['b.jpg'])
+
+    const result = await handler.execute(
+      new CreateUploadSessionCommand(eventId, [file('a.jpg'), file('b.jpg')], audit),
+    )
+
+    expect(sessionWriteRepo.create).toHaveBeenCalledTimes(1)
+    expect(result.totalItems).toBe(2)
+    expect(result.duplicateItems).toBe(1)
+    expect(result.items.find((i) => i.fileName === 'a.jpg')).toMatchObject({
+      status: 'pending',
+      missingParts: [1],
+    })
+    expect(result.items[0].objectKey.startsWith(`events/${eventId}/photos/`)).toBe(true)
+  })
+})
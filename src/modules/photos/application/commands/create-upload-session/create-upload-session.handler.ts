@@ -0,0 +1,75 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { CHECKPOINT_REPOSITORY, type ICheckpointRepository } from '@participants/domain/ports'
+import type { UploadSessionProjection } from '@photos/application/projections'
+import { UploadSession, UploadSessionItem } from '@photos/domain/entities'
+import {
+  type IUploadSessionReadRepository,
+  type IUploadSessionWriteRepository,
+  UPLOAD_SESSION_READ_REPOSITORY,
+  UPLOAD_SESSION_WRITE_REPOSITORY,
+} from '@photos/domain/ports'
+import * as UploadSessionMapper from '@photos/infrastructure/mappers/upload-session.mapper'
+import { AppException } from '@shared/domain'
+import { CreateUploadSessionCommand } from './create-upload-session.command'
+
+@CommandHandler(CreateUploadSessionCommand)
+export class CreateUploadSessionHandler implements ICommandHandler<CreateUploadSessionCommand> {
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(UPLOAD_SESSION_READ_REPOSITORY)
+    private readonly sessionReadRepo: IUploadSessionReadRepository,
+    @Inject(UPLOAD_SESSION_WRITE_REPOSITORY)
+    private readonly sessionWriteRepo: IUploadSessionWriteRepository,
+    @Inject(CHECKPOINT_REPOSITORY) private readonly checkpointRepo: ICheckpointRepository,
+  ) {}
+
+  /**
+   * Registers every file of the batch up front. Files the event already has are
+   * marked duplicate; multipart uploads are only opened when the first part is requested.
+   */
+  async execute(command: CreateUploadSessionCommand): Promise<UploadSessionProjection> {
+    const event = await this.eventReadRepo.findById(command.eventId)
+    if (!event) throw AppException.notFound('Event', command.eventId)
+
+    if (command.checkpointId) {
+      const checkpoint = await this.checkpointRepo.findById(command.checkpointId)
+      if (!checkpoint || checkpoint.eventId !== command.eventId) {
+        throw AppException.notFound('entities.checkpoint', command.checkpointId)
+      }
+    }
+
+    const fileNames = command.files.map((f) => f.fileName)
+    if (new Set(fileNames).size !== fileNames.length) {
+      throw AppException.businessRule('upload_session.duplicate_file_names')
+    }
+
+    const uploaded = new Set(
+      await this.sessionReadRepo.findUploadedFileNames(command.eventId, fileNames),
+    )
+
+    const session = UploadSession.create({
+      eventId: command.eventId,
+      photoCategoryId: command.photoCategoryId,
+      checkpointId: command.checkpointId,
+      createdById: command.audit.userId,
+    })
+    const items = command.files.map((file) => {
+      const sanitizedFileName = file.fileName.replace(/[^a-zA-Z0-9._-]/g, '_')
+      return UploadSessionItem.create({
+        sessionId: session.id,
+        fileName: file.fileName,
+        fileSize: file.fileSize,
+        contentType: file.contentType,
+        objectKey: `events/${command.eventId}/photos/${crypto.randomUUID()}-${sanitizedFileName}`,
+        partSize: session.partSize,
+        isDuplicate: uploaded.has(file.fileName),
+      })
+    })
+
+    await this.sessionWriteRepo.create(session, items)
+
+    return UploadSessionMapper.toSessionProjection(session, items)
+  }
+}
@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import { IsInt, IsOptional, Min } from 'class-validator'
+
+export class DeletePhotoBibDto {
+  @ApiPropertyOptional({
+    description:
+      'Version shown in the photo detail when the reviewer read it. When sent, the deletion is refused if the bib changed since.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  version?: number
+}
@@ -45,12 +45,12 @@ describe('DeletePhotoBibHandler', () => {
   it('happy path: returns { bibId, photoId }, calls softDelete, emits audit log', async () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto())
     bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'p-1', digits: '42' })
-    bibRepo.softDelete.mockResolvedValue(undefined)
+    bibRepo.softDelete.mockResolvedValue({ applied: true })
 
-    const result = await handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1'))
+    const result = await handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1', 4))
 
     expect(result).toEqual({ bibId: 'b-1', photoId: 'p-1' })
-    expect(bibRepo.softDelete).toHaveBeenCalledWith('b-1', 'r-1')
+    expect(bibRepo.softDelete).toHaveBeenCalledWith('p-1', 'b-1', 'r-1', 4)
     expect(loggerSpy).toHaveBeenCalledWith(
       expect.objectContaining({
         event: 'photo_attribute_soft_deleted',
@@ -66,7 +66,7 @@ describe('DeletePhotoBibHandler', () => {
   it('throws when photo missing', async () => {
     photoReadRepo.findById.mockResolvedValue(null)
     await expect(
-      handler.execute(new DeletePhotoBibCommand('p-x', 'b-1', 'r-1')),
+      handler.execute(new DeletePhotoBibCommand('p-x', 'b-1', 'r-1', 4)),
     ).rejects.toBeInstanceOf(AppException)
     expect(bibRepo.softDelete).not.toHaveBeenCalled()
   })
@@ -74,7 +74,7 @@ describe('DeletePhotoBibHandler', () => {
   it('throws when status=processing', async () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto('processing'))
     await expect(
-      handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1')),
+      handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1', 4)),
     ).rejects.toBeInstanceOf(AppException)
     expect(bibRepo.softDelete).not.toHaveBeenCalled()
   })
@@ -83,7 +83,7 @@ describe('DeletePhotoBibHandler', () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto())
     bibRepo.findById.mockResolvedValue(null)
     await expect(
-      handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1')),
+      handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1', 4)),
     ).rejects.toBeInstanceOf(AppException)
     expect(bibRepo.softDelete).not.toHaveBeenCalled()
   })
@@ -92,8 +92,27 @@ describe('DeletePhotoBibHandler', () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto())
     bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'OTHER', digits: '42' })
     await expect(
-      handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1')),
+      handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1', 4)),
     ).rejects.toBeInstanceOf(AppException)
     expect(bibRepo.softDelete).not.toHaveBeenCalled()
   })
+
+  it('refuses the deletion while another reviewer leases the photo', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto())
+    bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'p-1', digits: '42' })
+    bibRepo.softDelete.mockResolvedValue({ applied: false, reason: 'photo_leased' })
+    await expect(
+      handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1', 4)),
+    ).rejects.toMatchObject({ messageKey: 'review_session.photo_leased_by_other' })
+    expect(loggerSpy).not.toHaveBeenCalled()
+  })
+
+  it('refuses the deletion when the bib changed since it was read', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto())
+    bibRepo.findById.mockResolvedValue({ id: 'b-1', photoId: 'p-1', digits: '42' })
+    bibRepo.softDelete.mockResolvedValue({ applied: false, reason: 'stale' })
+    await expect(
+      handler.execute(new DeletePhotoBibCommand('p-1', 'b-1', 'r-1', 4)),
+    ).rejects.toMatchObject({ messageKey: 'review_session.stale_edit' })
+  })
 })
@@ -30,7 +30,19 @@ export class DeletePhotoBibHandler implements ICommandHandler<DeletePhotoBibComm
       throw AppException.notFound('PhotoBib', cmd.bibId)
     }
 
-    await this.bibRepo.softDelete(cmd.bibId, cmd.reviewerId)
+    const result = await this.bibRepo.softDelete(
+      cmd.photoId,
+      cmd.bibId,
+      cmd.reviewerId,
+      cmd.expectedVersion,
+    )
+    if (!result.applied) {
+      throw AppException.conflict(
+        result.reason === 'photo_leased'
+          ? 'review_session.photo_leased_by_other'
+          : 'review_session.stale_edit',
+      )
+    }
 
     this.logger.log({
       event: 'photo_attribute_soft_deleted',
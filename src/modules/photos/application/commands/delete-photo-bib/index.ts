@@ -1,2 +1,3 @@
 export * from './delete-photo-bib.command'
+export * from './delete-photo-bib.dto'
 export * from './delete-photo-bib.handler'
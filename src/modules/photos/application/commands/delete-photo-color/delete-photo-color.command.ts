@@ -3,5 +3,7 @@ export class DeletePhotoColorCommand {
     public readonly photoId: string,
     public readonly colorId: string,
     public readonly reviewerId: string,
+    /** Version of the bib or color shown in the photo detail when the reviewer read it; null skips the check */
+    public readonly expectedVersion: number | null,
   ) {}
 }
@@ -54,12 +54,12 @@ describe('DeletePhotoColorHandler', () => {
   it('happy path: returns { colorId, photoId }, calls softDelete, emits audit log with region', async () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto())
     colorRepo.findById.mockResolvedValue(buildColor({ region: 'jersey' }))
-    colorRepo.softDelete.mockResolvedValue(undefined)
+    colorRepo.softDelete.mockResolvedValue({ applied: true })
 
-    const result = await handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1'))
+    const result = await handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1', 4))
 
     expect(result).toEqual({ colorId: 'c-1', photoId: 'p-1' })
-    expect(colorRepo.softDelete).toHaveBeenCalledWith('c-1', 'r-1')
+    expect(colorRepo.softDelete).toHaveBeenCalledWith('p-1', 'c-1', 'r-1', 4)
     expect(loggerSpy).toHaveBeenCalledWith(
       expect.objectContaining({
         event: 'photo_attribute_soft_deleted',
@@ -75,7 +75,7 @@ describe('DeletePhotoColorHandler', () => {
   it('throws when photo missing', async () => {
     photoReadRepo.findById.mockResolvedValue(null)
     await expect(
-      handler.execute(new DeletePhotoColorCommand('p-x', 'c-1', 'r-1')),
+      handler.execute(new DeletePhotoColorCommand('p-x', 'c-1', 'r-1', 4)),
     ).rejects.toBeInstanceOf(AppException)
     expect(colorRepo.softDelete).not.toHaveBeenCalled()
   })
@@ -83,7 +83,7 @@ describe('DeletePhotoColorHandler', () => {
   it('throws when status=processing', async () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto('processing'))
     await expect(
-      handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1')),
+      handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1', 4)),
     ).rejects.toBeInstanceOf(AppException)
     expect(colorRepo.softDelete).not.toHaveBeenCalled()
   })
@@ -92,7 +92,7 @@ describe('DeletePhotoColorHandler', () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto())
     colorRepo.findById.mockResolvedValue(null)
     await expect(
-      handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1')),
+      handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1', 4)),
     ).rejects.toBeInstanceOf(AppException)
     expect(colorRepo.softDelete).not.toHaveBeenCalled()
   })
@@ -101,8 +101,27 @@ describe('DeletePhotoColorHandler', () => {
     photoReadRepo.findById.mockResolvedValue(buildPhoto())
     colorRepo.findById.mockResolvedValue(buildColor({ photoId: 'OTHER' }))
     await expect(
-      handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1')),
+      handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1', 4)),
     ).rejects.toBeInstanceOf(AppException)
     expect(colorRepo.softDelete).not.toHaveBeenCalled()
   })
+
+  it('refuses the deletion while another reviewer leases the photo', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto())
+    colorRepo.findById.mockResolvedValue(buildColor())
+    colorRepo.softDelete.mockResolvedValue({ applied: false, reason: 'photo_leased' })
+    await expect(
+      handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1', 4)),
+    ).rejects.toMatchObject({ messageKey: 'review_session.photo_leased_by_other' })
+    expect(loggerSpy).not.toHaveBeenCalled()
+  })
+
+  it('refuses the deletion when the color changed since it was read', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto())
+    colorRepo.findById.mockResolvedValue(buildColor())
+    colorRepo.softDelete.mockResolvedValue({ applied: false, reason: 'stale' })
+    await expect(
+      handler.execute(new DeletePhotoColorCommand('p-1', 'c-1', 'r-1', 4)),
+    ).rejects.toMatchObject({ messageKey: 'review_session.stale_edit' })
+  })
 })
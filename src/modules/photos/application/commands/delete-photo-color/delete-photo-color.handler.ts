@@ -30,7 +30,19 @@ export class DeletePhotoColorHandler implements ICommandHandler<DeletePhotoColor
       throw AppException.notFound('PhotoColor', cmd.colorId)
     }
 
-    await this.colorRepo.softDelete(cmd.colorId, cmd.reviewerId)
+    const result = await this.colorRepo.softDelete(
+      cmd.photoId,
+      cmd.colorId,
+      cmd.reviewerId,
+      cmd.expectedVersion,
+    )
+    if (!result.applied) {
+      throw AppException.conflict(
+        result.reason === 'photo_leased'
+          ? 'review_session.photo_leased_by_other'
+          : 'review_session.stale_edit',
+      )
+    }
 
     this.logger.log({
       event: 'photo_attribute_soft_deleted',
@@ -1,2 +1,3 @@
 export * from './delete-photo-color.command'
+export * from './delete-photo-color.dto'
 export * from './delete-photo-color.handler'
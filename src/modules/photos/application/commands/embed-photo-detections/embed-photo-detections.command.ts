@@ -0,0 +1,3 @@
+export class EmbedPhotoDetectionsCommand {
+  constructor(public readonly photoId: string) {}
+}
@@ -0,0 +1,99 @@
+import { Photo } from '@photos/domain/entities'
+import { AppException } from '@shared/domain'
+import { EmbedPhotoDetectionsCommand } from './embed-photo-detections.command'
+import { EmbedPhotoDetectionsHandler } from './embed-photo-detections.handler'
+
+describe('EmbedPhotoDetectionsHandler', () => {
+  let handler: EmbedPhotoDetectionsHandler
+  let photo: Photo
+  let photoReadRepo: { findById: jest.Mock }
+  let detectionEmbeddingRepo: { findRiderDetections: jest.Mock; replaceForPhoto: jest.Mock }
+  let embeddingAdapter: { generateImageEmbedding: jest.Mock }
+  let cdn: { internalCropUrl: jest.Mock }
+  let fetchSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    photo = Photo.create({
+      eventId: 'event-1',
+      filename: 'IMG_0001.jpg',
+      storageKey: 'events/event-1/photos/IMG_0001.jpg',
+      fileSize: BigInt(1024),
+      mimeType: 'image/jpeg',
+    })
+    photoReadRepo = { findById: jest.fn().mockResolvedValue(photo) }
+    detectionEmbeddingRepo = {
+      findRiderDetections: jest.fn().mockResolvedValue([]),
+      replaceForPhoto: jest.fn(),
+    }
+    embeddingAdapter = {
+      generateImageEmbedding: jest
+        .fn()
+        .mockResolvedValue({ embedding: [0.1, 0.2], totalTokens: 5 }),
+    }
+    cdn = { internalCropUrl: jest.fn().mockReturnValue('https://cdn.test/internal/crop/x.jpg') }
+    fetchSpy = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => new Response(Buffer.from('jpeg')))
+
+    handler = new EmbedPhotoDetectionsHandler(
+      photoReadRepo as never,
+      detectionEmbeddingRepo as never,
+      embeddingAdapter as never,
+      cdn as never,
+    )
+  })
+
+  afterEach(() => fetchSpy.mockRestore())
+
+  it('embeds each rider crop and replaces the photo embeddings', async () => {
+    detectionEmbeddingRepo.findRiderDetections.mockResolvedValueOnce([
+      { id: 'det-1', className: 'person', bbox: [0.1, 0.1, 0.4, 0.9], confidence: 0.9 },
+      { id: 'det-2', className: 'bicycle', bbox: [0.1, 0.5, 0.5, 0.95], confidence: 0.8 },
+    ])
+
+    await handler.execute(new EmbedPhotoDetectionsCommand(photo.id))
+
+    expect(cdn.internalCropUrl).toHaveBeenCalledWith(photo.publicSlug, [0.1, 0.1, 0.4, 0.9])
+    expect(embeddingAdapter.generateImageEmbedding).toHaveBeenCalledWith(
+      expect.stringMatching(/^data:image\/jpeg;base64,/),
+    )
+    expect(detectionEmbeddingRepo.replaceForPhoto).toHaveBeenCalledWith(
+      { id: photo.id, eventId: 'event-1' },
+      [
+        { detectionId: 'det-1', className: 'person', embedding: [0.1, 0.2] },
+        { detectionId: 'det-2', className: 'bicycle', embedding: [0.1, 0.2] },
+      ],
+    )
+  })
+
+  it('skips crops too small to identify a rider', async () => {
+    detectionEmbeddingRepo.findRiderDetections.mockResolvedValueOnce([
+      { id: 'det-1', className: 'person', bbox: [0.5, 0.5, 0.52, 0.53], confidence: 0.9 },
+    ])
+
+    await handler.execute(new EmbedPhotoDetectionsCommand(photo.id))
+
+    expect(fetchSpy).not.toHaveBeenCalled()
+    expect(detectionEmbeddingRepo.replaceForPhoto).toHaveBeenCalledWith(expect.anything(), [])
+  })
+
+  it('fails the job when the CDN cannot serve a crop', async () => {
+    detectionEmbeddingRepo.findRiderDetections.mockResolvedValueOnce([
+      { id: 'det-1', className: 'person', bbox: [0.1, 0.1, 0.4, 0.9], confidence: 0.9 },
+    ])
+    fetchSpy.mockResolvedValueOnce(new Response(null, { status: 502 }))
+
+    await expect(handler.execute(new EmbedPhotoDetectionsCommand(photo.id))).rejects.toThrow(
+      'Failed to fetch crop from CDN',
+    )
+    expect(detectionEmbeddingRepo.replaceForPhoto).not.toHaveBeenCalled()
+  })
+
+  it('throws NOT_FOUND when the photo does not exist', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(null)
+
+    await expect(handler.execute(new EmbedPhotoDetectionsCommand('missing'))).rejects.toThrow(
+      AppException,
+    )
+  })
+})
@@ -0,0 +1,68 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type DetectionEmbedding,
+  type IPhotoDetectionEmbeddingRepository,
+  type IPhotoReadRepository,
+  PHOTO_DETECTION_EMBEDDING_REPOSITORY,
+  PHOTO_READ_REPOSITORY,
+} from '@photos/domain/ports'
+import { CdnUrlBuilder } from '@shared/cloudflare/infrastructure'
+import { AppException } from '@shared/domain'
+import { EMBEDDING_ADAPTER, type IEmbeddingAdapter } from '@shared/embeddings'
+import { EmbedPhotoDetectionsCommand } from './embed-photo-detections.command'
+
+/** Crops smaller than this share of the frame are background riders, too small to tell apart. */
+const MIN_CROP_AREA = 0.005
+/** A peloton can hold dozens of riders; only the most confident ones are embedded. */
+const MAX_DETECTIONS_PER_PHOTO = 12
+
+@CommandHandler(EmbedPhotoDetectionsCommand)
+export class EmbedPhotoDetectionsHandler implements ICommandHandler<EmbedPhotoDetectionsCommand> {
+  private readonly logger = new Logger(EmbedPhotoDetectionsHandler.name)
+
+  constructor(
+    @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
+    @Inject(PHOTO_DETECTION_EMBEDDING_REPOSITORY)
+    private readonly detectionEmbeddingRepo: IPhotoDetectionEmbeddingRepository,
+    @Inject(EMBEDDING_ADAPTER) private readonly embeddingAdapter: IEmbeddingAdapter,
+    private readonly cdn: CdnUrlBuilder,
+  ) {}
+
+  /**
+   * Embeds each person and bicycle crop of the latest classification on its own, so
+   * "similar photos" can follow one rider instead of matching the whole frame.
+   */
+  async execute(command: EmbedPhotoDetectionsCommand): Promise<void> {
+    const photo = await this.photoReadRepo.findById(command.photoId)
+    if (!photo) throw AppException.notFound('Photo', command.photoId)
+
+    const detections = (await this.detectionEmbeddingRepo.findRiderDetections(photo.id))
+      .filter(({ bbox: [x1, y1, x2, y2] }) => (x2 - x1) * (y2 - y1) >= MIN_CROP_AREA)
+      .slice(0, MAX_DETECTIONS_PER_PHOTO)
+
+    const embeddings: DetectionEmbedding[] = []
+    for (const detection of detections) {
+      const response = await fetch(this.cdn.internalCropUrl(photo.publicSlug, detection.bbox))
+      if (!response.ok) {
+        throw new Error(`Failed to fetch crop from CDN: ${response.status} ${response.statusText}`)
+      }
+
+      const buffer = Buffer.from(await response.arrayBuffer())
+      const result = await this.embeddingAdapter.generateImageEmbedding(
+        `data:image/jpeg;base64,${buffer.toString('base64')}`,
+      )
+      embeddings.push({
+        detectionId: detection.id,
+        className: detection.className,
+        embedding: result.embedding,
+      })
+    }
+
+    await this.detectionEmbeddingRepo.replaceForPhoto(
+      { id: photo.id, eventId: photo.eventId },
+      embeddings,
+    )
+    this.logger.log(`Embedded ${embeddings.length} detection(s) of photo ${photo.id}`)
+  }
+}
@@ -0,0 +1,3 @@
+export class EmbedPhotoFacesCommand {
+  constructor(public readonly photoId: string) {}
+}
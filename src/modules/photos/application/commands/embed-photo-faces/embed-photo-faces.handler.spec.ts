@@ -0,0 +1,83 @@
+import { Photo } from '@photos/domain/entities'
+import { AppException } from '@shared/domain'
+import { EmbedPhotoFacesCommand } from './embed-photo-faces.command'
+import { EmbedPhotoFacesHandler } from './embed-photo-faces.handler'
+
+describe('EmbedPhotoFacesHandler', () => {
+  let handler: EmbedPhotoFacesHandler
+  let photo: Photo
+  let photoReadRepo: { findById: jest.Mock }
+  let faceRepo: { findPersonDetections: jest.Mock; replaceForPhoto: jest.Mock }
+  let storage: { getPresignedDownloadUrl: jest.Mock }
+  let faceAdapter: { embedFaces: jest.Mock }
+
+  beforeEach(() => {
+    photo = Photo.create({
+      eventId: 'event-1',
+      filename: 'IMG_0001.jpg',
+      storageKey: 'events/event-1/photos/IMG_0001.jpg',
+      fileSize: BigInt(1024),
+      mimeType: 'image/jpeg',
+    })
+    photoReadRepo = { findById: jest.fn().mockResolvedValue(photo) }
+    faceRepo = { findPersonDetections: jest.fn().mockResolvedValue([]), replaceForPhoto: jest.fn() }
+    storage = { getPresignedDownloadUrl: jest.fn().mockResolvedValue('https://b2/photo?sig') }
+    faceAdapter = { embedFaces: jest.fn().mockResolvedValue([]) }
+
+    handler = new EmbedPhotoFacesHandler(
+      photoReadRepo as never,
+      faceRepo as never,
+      storage as never,
+      faceAdapter as never,
+    )
+  })
+
+  it('searches the rider detections and ties each face to its detection', async () => {
+    faceRepo.findPersonDetections.mockResolvedValueOnce([
+      { id: 'det-1', bbox: [0.1, 0.1, 0.4, 0.9] },
+      { id: 'det-2', bbox: [0.5, 0.1, 0.8, 0.9] },
+    ])
+    faceAdapter.embedFaces.mockResolvedValueOnce([
+      { regionIndex: 1, bbox: [0.6, 0.1, 0.7, 0.3], confidence: 0.92, embedding: [1, 0] },
+      { regionIndex: 0, bbox: [0.2, 0.1, 0.3, 0.3], confidence: 0.3, embedding: [0, 1] },
+    ])
+
+    await handler.execute(new EmbedPhotoFacesCommand(photo.id))
+
+    expect(faceAdapter.embedFaces).toHaveBeenCalledWith({
+      imageUrl: 'https://b2/photo?sig',
+      regions: [
+        [0.1, 0.1, 0.4, 0.9],
+        [0.5, 0.1, 0.8, 0.9],
+      ],
+    })
+    expect(faceRepo.replaceForPhoto).toHaveBeenCalledWith({ id: photo.id, eventId: 'event-1' }, [
+      { detectionId: 'det-2', bbox: [0.6, 0.1, 0.7, 0.3], confidence: 0.92, embedding: [1, 0] },
+    ])
+  })
+
+  it('searches the whole frame when the detector found no rider', async () => {
+    faceAdapter.embedFaces.mockResolvedValueOnce([
+      { regionIndex: null, bbox: [0.4, 0.2, 0.6, 0.5], confidence: 0.8, embedding: [1, 0] },
+    ])
+
+    await handler.execute(new EmbedPhotoFacesCommand(photo.id))
+
+    expect(faceAdapter.embedFaces).toHaveBeenCalledWith({
+      imageUrl: 'https://b2/photo?sig',
+      regions: undefined,
+    })
+    expect(faceRepo.replaceForPhoto).toHaveBeenCalledWith(expect.anything(), [
+      expect.objectContaining({ detectionId: null }),
+    ])
+  })
+
+  it('throws NOT_FOUND when the photo does not exist', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(null)
+
+    await expect(handler.execute(new EmbedPhotoFacesCommand('missing'))).rejects.toThrow(
+      AppException,
+    )
+    expect(faceAdapter.embedFaces).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,61 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  type IPhotoFaceEmbeddingRepository,
+  type IPhotoReadRepository,
+  PHOTO_FACE_EMBEDDING_REPOSITORY,
+  PHOTO_READ_REPOSITORY,
+} from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { FACE_EMBEDDING_ADAPTER, type IFaceEmbeddingAdapter } from '@shared/embeddings'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { EmbedPhotoFacesCommand } from './embed-photo-faces.command'
+
+/** Faces below this confidence are too small or blurred to be told apart reliably. */
+const MIN_FACE_CONFIDENCE = 0.6
+
+@CommandHandler(EmbedPhotoFacesCommand)
+export class EmbedPhotoFacesHandler implements ICommandHandler<EmbedPhotoFacesCommand> {
+  private readonly logger = new Logger(EmbedPhotoFacesHandler.name)
+
+  constructor(
+    @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
+    @Inject(PHOTO_FACE_EMBEDDING_REPOSITORY)
+    private readonly faceRepo: IPhotoFaceEmbeddingRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+    @Inject(FACE_EMBEDDING_ADAPTER) private readonly faceAdapter: IFaceEmbeddingAdapter,
+  ) {}
+
+  /**
+   * Embeds the faces of the original photo for selfie search. Faces are looked for inside the
+   * rider detections of the latest classification, so each one is tied to its person crop;
+   * photos where the detector found no rider are searched whole.
+   */
+  async execute(command: EmbedPhotoFacesCommand): Promise<void> {
+    const photo = await this.photoReadRepo.findById(command.photoId)
+    if (!photo) throw AppException.notFound('Photo', command.photoId)
+
+    const detections = await this.faceRepo.findPersonDetections(photo.id)
+    const imageUrl = await this.storage.getPresignedDownloadUrl({
+      key: photo.storageKey,
+      expiresIn: 900,
+    })
+
+    const faces = await this.faceAdapter.embedFaces({
+      imageUrl,
+      regions: detections.length > 0 ? detections.map((d) => d.bbox) : undefined,
+    })
+
+    const kept = faces
+      .filter((face) => face.confidence >= MIN_FACE_CONFIDENCE)
+      .map((face) => ({
+        detectionId: face.regionIndex === null ? null : (detections[face.regionIndex]?.id ?? null),
+        bbox: face.bbox,
+        confidence: face.confidence,
+        embedding: face.embedding,
+      }))
+
+    await this.faceRepo.replaceForPhoto({ id: photo.id, eventId: photo.eventId }, kept)
+    this.logger.log(`Embedded ${kept.length} face(s) of photo ${photo.id}`)
+  }
+}
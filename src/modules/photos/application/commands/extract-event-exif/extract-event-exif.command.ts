@@ -0,0 +1,3 @@
+export class ExtractEventExifCommand {
+  constructor(public readonly eventId: string) {}
+}
@@ -0,0 +1,40 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { InjectQueue } from '@nestjs/bullmq'
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { ExifExtractionProjection } from '@photos/application/projections'
+import { type IPhotoExifRepository, PHOTO_EXIF_REPOSITORY } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import type { Queue } from 'bullmq'
+import { ExtractEventExifCommand } from './extract-event-exif.command'
+
+@CommandHandler(ExtractEventExifCommand)
+export class ExtractEventExifHandler implements ICommandHandler<ExtractEventExifCommand> {
+  private readonly logger = new Logger(ExtractEventExifHandler.name)
+
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(PHOTO_EXIF_REPOSITORY) private readonly exifRepo: IPhotoExifRepository,
+    @InjectQueue('exif-extraction') private readonly exifQueue: Queue,
+  ) {}
+
+  /** Queues extraction for the event's photos that have no EXIF yet (uploads from before the job existed). */
+  async execute(command: ExtractEventExifCommand): Promise<ExifExtractionProjection> {
+    const event = await this.eventReadRepo.findById(command.eventId)
+    if (!event) throw AppException.notFound('Event', command.eventId)
+
+    const photoIds = await this.exifRepo.findPhotoIdsWithoutExif(command.eventId)
+    if (photoIds.length > 0) {
+      await this.exifQueue.addBulk(
+        photoIds.map((photoId) => ({
+          name: 'extract-exif',
+          data: { photoId },
+          opts: { attempts: 3, backoff: { type: 'exponential', delay: 2000 } },
+        })),
+      )
+    }
+    this.logger.log(`Enqueued ${photoIds.length} EXIF extraction jobs for event ${command.eventId}`)
+
+    return { enqueued: photoIds.length }
+  }
+}
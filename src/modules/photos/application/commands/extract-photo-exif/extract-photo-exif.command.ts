@@ -0,0 +1,3 @@
+export class ExtractPhotoExifCommand {
+  constructor(public readonly photoId: string) {}
+}
@@ -0,0 +1,97 @@
+import { CameraClockOffset, Photo, type PhotoExif } from '@photos/domain/entities'
+import type { PhotoMetadata } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { ExtractPhotoExifCommand } from './extract-photo-exif.command'
+import { ExtractPhotoExifHandler } from './extract-photo-exif.handler'
+
+const metadata: PhotoMetadata = {
+  capturedAt: new Date('2026-03-14T08:30:00.000Z'),
+  cameraMake: 'Canon',
+  cameraModel: 'Canon EOS R6',
+  cameraSerial: '0320',
+  lensModel: 'RF70-200mm F2.8 L IS USM',
+  orientation: 1,
+  gpsLatitude: -0.18,
+  gpsLongitude: -78.47,
+  gpsAltitude: 2850,
+  width: 6000,
+  height: 4000,
+}
+
+describe('ExtractPhotoExifHandler', () => {
+  let handler: ExtractPhotoExifHandler
+  let photo: Photo
+  let photoReadRepo: { findById: jest.Mock }
+  let exifRepo: { save: jest.Mock }
+  let offsetRepo: { findByCamera: jest.Mock }
+  let metadataReader: { read: jest.Mock }
+
+  beforeEach(() => {
+    photo = Photo.create({
+      eventId: 'event-1',
+      filename: 'IMG_0001.jpg',
+      storageKey: 'events/event-1/photos/IMG_0001.jpg',
+      fileSize: BigInt(1024),
+      mimeType: 'image/jpeg',
+    })
+    photoReadRepo = { findById: jest.fn().mockResolvedValue(photo) }
+    exifRepo = { save: jest.fn() }
+    offsetRepo = { findByCamera: jest.fn().mockResolvedValue(null) }
+    metadataReader = { read: jest.fn().mockResolvedValue(metadata) }
+
+    handler = new ExtractPhotoExifHandler(
+      photoReadRepo as never,
+      exifRepo as never,
+      offsetRepo as never,
+      metadataReader as never,
+    )
+  })
+
+  it('saves the EXIF and stamps the photo with the camera time and size', async () => {
+    await handler.execute(new ExtractPhotoExifCommand(photo.id))
+
+    expect(metadataReader.read).toHaveBeenCalledWith(photo.storageKey)
+    const [exif, stamp] = exifRepo.save.mock.calls[0] as [PhotoExif, unknown]
+    expect(exif.cameraBody).toBe('Canon EOS R6 #0320')
+    expect(exif.originalCapturedAt).toEqual(metadata.capturedAt)
+    expect(stamp).toEqual({ capturedAt: metadata.capturedAt, width: 6000, height: 4000 })
+  })
+
+  it("applies the event's clock offset for the camera body", async () => {
+    offsetRepo.findByCamera.mockResolvedValueOnce(
+      CameraClockOffset.create({
+        eventId: 'event-1',
+        cameraBody: 'Canon EOS R6 #0320',
+        offsetSeconds: -3600,
+      }),
+    )
+
+    await handler.execute(new ExtractPhotoExifCommand(photo.id))
+
+    expect(offsetRepo.findByCamera).toHaveBeenCalledWith('event-1', 'Canon EOS R6 #0320')
+    expect(exifRepo.save).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ capturedAt: new Date('2026-03-14T07:30:00.000Z') }),
+    )
+  })
+
+  it('records an empty EXIF row when the file has no readable metadata', async () => {
+    metadataReader.read.mockResolvedValueOnce(null)
+
+    await handler.execute(new ExtractPhotoExifCommand(photo.id))
+
+    expect(offsetRepo.findByCamera).not.toHaveBeenCalled()
+    const [exif, stamp] = exifRepo.save.mock.calls[0] as [PhotoExif, unknown]
+    expect(exif.cameraBody).toBeNull()
+    expect(stamp).toEqual({ capturedAt: null, width: null, height: null })
+  })
+
+  it('throws NOT_FOUND when the photo does not exist', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(null)
+
+    await expect(handler.execute(new ExtractPhotoExifCommand('missing'))).rejects.toThrow(
+      AppException,
+    )
+    expect(metadataReader.read).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,64 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { PhotoExif } from '@photos/domain/entities'
+import {
+  CAMERA_CLOCK_OFFSET_REPOSITORY,
+  type ICameraClockOffsetRepository,
+  type IPhotoExifRepository,
+  type IPhotoMetadataReader,
+  type IPhotoReadRepository,
+  PHOTO_EXIF_REPOSITORY,
+  PHOTO_METADATA_READER,
+  PHOTO_READ_REPOSITORY,
+  type PhotoMetadata,
+} from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { ExtractPhotoExifCommand } from './extract-photo-exif.command'
+
+const EMPTY_METADATA: PhotoMetadata = {
+  capturedAt: null,
+  cameraMake: null,
+  cameraModel: null,
+  cameraSerial: null,
+  lensModel: null,
+  orientation: null,
+  gpsLatitude: null,
+  gpsLongitude: null,
+  gpsAltitude: null,
+  width: null,
+  height: null,
+}
+
+@CommandHandler(ExtractPhotoExifCommand)
+export class ExtractPhotoExifHandler implements ICommandHandler<ExtractPhotoExifCommand> {
+  constructor(
+    @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
+    @Inject(PHOTO_EXIF_REPOSITORY) private readonly exifRepo: IPhotoExifRepository,
+    @Inject(CAMERA_CLOCK_OFFSET_REPOSITORY)
+    private readonly offsetRepo: ICameraClockOffsetRepository,
+    @Inject(PHOTO_METADATA_READER) private readonly metadataReader: IPhotoMetadataReader,
+  ) {}
+
+  /**
+   * Reads EXIF from the stored original and stamps the photo with the capture time,
+   * corrected by the event's clock offset for that camera body. Files without readable
+   * metadata still get an (empty) EXIF row so backfills skip them.
+   */
+  async execute(command: ExtractPhotoExifCommand): Promise<void> {
+    const photo = await this.photoReadRepo.findById(command.photoId)
+    if (!photo) throw AppException.notFound('Photo', command.photoId)
+
+    const metadata = (await this.metadataReader.read(photo.storageKey)) ?? EMPTY_METADATA
+    const exif = PhotoExif.create({ photoId: photo.id, eventId: photo.eventId, metadata })
+
+    const offset = exif.cameraBody
+      ? await this.offsetRepo.findByCamera(photo.eventId, exif.cameraBody)
+      : null
+
+    await this.exifRepo.save(exif, {
+      capturedAt: exif.capturedAt(offset?.offsetSeconds ?? 0) ?? photo.capturedAt,
+      width: metadata.width,
+      height: metadata.height,
+    })
+  }
+}
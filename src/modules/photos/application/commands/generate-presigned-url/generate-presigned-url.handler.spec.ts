@@ -58,6 +58,8 @@ describe('GeneratePresignedUrlHandler', () => {
       getPhotoDetailBySlug: jest.fn(),
       getPhotoViewBySlug: jest.fn(),
       searchPhotos: jest.fn(),
+      findSearchHits: jest.fn(),
+      getPhotoListByIds: jest.fn(),
       getTotalFileSizeByEvent: jest.fn(),
       getTotalFileSizesByEventIds: jest.fn(),
       getClassifiedCountByEvent: jest.fn(),
@@ -68,6 +70,8 @@ describe('GeneratePresignedUrlHandler', () => {
       sumAllFileSize: jest.fn(),
       countByIds: jest.fn(),
       findSimilar: jest.fn(),
+      findDetectionById: jest.fn(),
+      findSimilarByDetection: jest.fn(),
       countByIdsAndEvent: jest.fn(),
       getReviewQueue: jest.fn(),
       getReviewQueueByEventIds: jest.fn(),
@@ -79,6 +83,11 @@ describe('GeneratePresignedUrlHandler', () => {
       getPresignedDownloadUrl: jest.fn(),
       getPublicUrl: jest.fn(),
       delete: jest.fn(),
+      createMultipartUpload: jest.fn(),
+      getPresignedPartUrl: jest.fn(),
+      listUploadedParts: jest.fn(),
+      completeMultipartUpload: jest.fn(),
+      abortMultipartUpload: jest.fn(),
     } as jest.Mocked<IStorageAdapter>
 
     handler = new GeneratePresignedUrlHandler(eventReadRepo, photoReadRepo, storageAdapter)
@@ -3,5 +3,6 @@ export class GenerateRetouchedPresignedUrlCommand {
     public readonly photoId: string,
     public readonly fileName: string,
     public readonly contentType: string,
+    public readonly requestedById: string,
   ) {}
 }
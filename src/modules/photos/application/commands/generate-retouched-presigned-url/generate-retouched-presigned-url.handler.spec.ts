@@ -1,3 +1,4 @@
+import type { IOrderReadRepository } from '@orders/domain/ports'
 import { Photo } from '@photos/domain/entities'
 import type { IPhotoReadRepository } from '@photos/domain/ports'
 import { AppException } from '@shared/domain'
@@ -9,6 +10,7 @@ describe('GenerateRetouchedPresignedUrlHandler', () => {
   let handler: GenerateRetouchedPresignedUrlHandler
   let photoReadRepo: jest.Mocked<IPhotoReadRepository>
   let storageAdapter: jest.Mocked<IStorageAdapter>
+  let orderReadRepo: jest.Mocked<Pick<IOrderReadRepository, 'isRetouchClaimedByOther'>>
 
   const existingPhoto = Photo.create({
     eventId: '550e8400-e29b-41d4-a716-446655440000',
@@ -27,6 +29,8 @@ describe('GenerateRetouchedPresignedUrlHandler', () => {
       getPhotoDetailBySlug: jest.fn(),
       getPhotoViewBySlug: jest.fn(),
       searchPhotos: jest.fn(),
+      findSearchHits: jest.fn(),
+      getPhotoListByIds: jest.fn(),
       getTotalFileSizeByEvent: jest.fn(),
       getTotalFileSizesByEventIds: jest.fn(),
       getClassifiedCountByEvent: jest.fn(),
@@ -37,6 +41,8 @@ describe('GenerateRetouchedPresignedUrlHandler', () => {
       sumAllFileSize: jest.fn(),
       countByIds: jest.fn(),
       findSimilar: jest.fn(),
+      findDetectionById: jest.fn(),
+      findSimilarByDetection: jest.fn(),
       countByIdsAndEvent: jest.fn(),
       getReviewQueue: jest.fn(),
       getReviewQueueByEventIds: jest.fn(),
@@ -48,9 +54,20 @@ describe('GenerateRetouchedPresignedUrlHandler', () => {
       getPresignedDownloadUrl: jest.fn(),
       getPublicUrl: jest.fn(),
       delete: jest.fn(),
+      createMultipartUpload: jest.fn(),
+      getPresignedPartUrl: jest.fn(),
+      listUploadedParts: jest.fn(),
+      completeMultipartUpload: jest.fn(),
+      abortMultipartUpload: jest.fn(),
     } as jest.Mocked<IStorageAdapter>
 
-    handler = new GenerateRetouchedPresignedUrlHandler(photoReadRepo, storageAdapter)
+    orderReadRepo = { isRetouchClaimedByOther: jest.fn().mockResolvedValue(false) }
+
+    handler = new GenerateRetouchedPresignedUrlHandler(
+      photoReadRepo,
+      storageAdapter,
+      orderReadRepo as unknown as jest.Mocked<IOrderReadRepository>,
+    )
   })
 
   it('should throw NOT_FOUND when photo does not exist', async () => {
@@ -60,6 +77,7 @@ describe('GenerateRetouchedPresignedUrlHandler', () => {
       'non-existent-id',
       'retouched.jpg',
       'image/jpeg',
+      'operator-1',
     )
 
     const error = await handler.execute(command).catch((e) => e)
@@ -79,6 +97,7 @@ describe('GenerateRetouchedPresignedUrlHandler', () => {
       existingPhoto.id,
       'retouched.jpg',
       'image/jpeg',
+      'operator-1',
     )
 
     const result = await handler.execute(command)
@@ -105,6 +124,7 @@ describe('GenerateRetouchedPresignedUrlHandler', () => {
       existingPhoto.id,
       'file with spaces!@#.jpg',
       'image/jpeg',
+      'operator-1',
     )
 
     await handler.execute(command)
@@ -112,4 +132,26 @@ describe('GenerateRetouchedPresignedUrlHandler', () => {
     const calledKey = storageAdapter.getPresignedUrl.mock.calls[0][0].key
     expect(calledKey).toContain('file_with_spaces___.jpg')
   })
+
+  it('rejects while another operator holds the retouch claim', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(existingPhoto)
+    orderReadRepo.isRetouchClaimedByOther.mockResolvedValueOnce(true)
+
+    const command = new GenerateRetouchedPresignedUrlCommand(
+      existingPhoto.id,
+      'retouched.jpg',
+      'image/jpeg',
+      'operator-1',
+    )
+
+    await expect(handler.execute(command)).rejects.toMatchObject({
+      messageKey: 'photo.retouch_claimed_by_other',
+    })
+    expect(orderReadRepo.isRetouchClaimedByOther).toHaveBeenCalledWith(
+      existingPhoto.id,
+      'operator-1',
+      expect.any(Date),
+    )
+    expect(storageAdapter.getPresignedUrl).not.toHaveBeenCalled()
+  })
 })
@@ -1,5 +1,6 @@
 import { Inject } from '@nestjs/common'
 import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { type IOrderReadRepository, ORDER_READ_REPOSITORY } from '@orders/domain/ports'
 import { PresignedUrlProjection } from '@photos/application/projections'
 import { type IPhotoReadRepository, PHOTO_READ_REPOSITORY } from '@photos/domain/ports'
 import { AppException } from '@shared/domain'
@@ -15,11 +16,18 @@ export class GenerateRetouchedPresignedUrlHandler
   constructor(
     @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
     @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+    @Inject(ORDER_READ_REPOSITORY) private readonly orderReadRepo: IOrderReadRepository,
   ) {}
 
+  /** Refused while another operator holds a claim on the photo's retouch. */
   async execute(command: GenerateRetouchedPresignedUrlCommand): Promise<PresignedUrlProjection> {
     const photo = await this.photoReadRepo.findById(command.photoId)
     if (!photo) throw AppException.notFound('Photo', command.photoId)
+    if (
+      await this.orderReadRepo.isRetouchClaimedByOther(photo.id, command.requestedById, new Date())
+    ) {
+      throw AppException.conflict('photo.retouch_claimed_by_other')
+    }
 
     const sanitizedFileName = command.fileName.replace(/[^a-zA-Z0-9._-]/g, '_')
     const objectKey = `events/${photo.eventId}/retouched/${crypto.randomUUID()}-${sanitizedFileName}`
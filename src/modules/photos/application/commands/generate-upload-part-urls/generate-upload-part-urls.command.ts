@@ -0,0 +1,8 @@
+export class GenerateUploadPartUrlsCommand {
+  constructor(
+    public readonly sessionId: string,
+    public readonly itemId: string,
+    /** Parts to presign; null presigns the missing ones. */
+    public readonly partNumbers: number[] | null = null,
+  ) {}
+}
@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsInt, IsOptional, Min } from 'class-validator'
+
+export class GenerateUploadPartUrlsDto {
+  @ApiPropertyOptional({
+    description: 'Part numbers to presign. Omit to presign the parts still missing.',
+    example: [1, 2, 3],
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  partNumbers?: number[]
+}
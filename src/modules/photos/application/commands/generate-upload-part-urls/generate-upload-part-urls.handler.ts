@@ -0,0 +1,66 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { UploadPartUrlsProjection } from '@photos/application/projections'
+import {
+  type IUploadSessionReadRepository,
+  type IUploadSessionWriteRepository,
+  UPLOAD_SESSION_READ_REPOSITORY,
+  UPLOAD_SESSION_WRITE_REPOSITORY,
+} from '@photos/domain/ports'
+import { UploadSessionItemStatus } from '@photos/domain/value-objects/upload-session-status.vo'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { GenerateUploadPartUrlsCommand } from './generate-upload-part-urls.command'
+
+/** Generous on purpose: an 8 MiB part can take minutes on congested venue Wi-Fi. */
+const PART_URL_EXPIRY_SECONDS = 3600
+const MAX_PARTS_PER_REQUEST = 100
+
+@CommandHandler(GenerateUploadPartUrlsCommand)
+export class GenerateUploadPartUrlsHandler
+  implements ICommandHandler<GenerateUploadPartUrlsCommand>
+{
+  constructor(
+    @Inject(UPLOAD_SESSION_READ_REPOSITORY)
+    private readonly sessionReadRepo: IUploadSessionReadRepository,
+    @Inject(UPLOAD_SESSION_WRITE_REPOSITORY)
+    private readonly sessionWriteRepo: IUploadSessionWriteRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  /** Opens the multipart upload on first use, then presigns the requested parts. */
+  async execute(command: GenerateUploadPartUrlsCommand): Promise<UploadPartUrlsProjection> {
+    const session = await this.sessionReadRepo.findById(command.sessionId)
+    if (!session) throw AppException.notFound('UploadSession', command.sessionId)
+    session.assertOpen()
+
+    const item = await this.sessionReadRepo.findItem(command.sessionId, command.itemId)
+    if (!item) throw AppException.notFound('UploadSessionItem', command.itemId)
+
+    if (item.status === UploadSessionItemStatus.PENDING) {
+      const uploadId = await this.storage.createMultipartUpload({
+        key: item.objectKey,
+        contentType: item.contentType,
+      })
+      item.start(uploadId)
+      await this.sessionWriteRepo.saveItem(item)
+    }
+    const ref = item.multipartRef()
+
+    const partNumbers = command.partNumbers ?? item.missingParts().slice(0, MAX_PARTS_PER_REQUEST)
+    item.assertPartNumbers(partNumbers)
+
+    const parts = await Promise.all(
+      partNumbers.map(async (partNumber) => ({
+        partNumber,
+        url: await this.storage.getPresignedPartUrl({
+          ...ref,
+          partNumber,
+          expiresIn: PART_URL_EXPIRY_SECONDS,
+        }),
+      })),
+    )
+
+    return { itemId: item.id, objectKey: item.objectKey, expiresIn: PART_URL_EXPIRY_SECONDS, parts }
+  }
+}
@@ -1,3 +1,8 @@
+export { AbortUploadSessionCommand } from './abort-upload-session/abort-upload-session.command'
+export { AcceptBibSuggestionsCommand } from './accept-bib-suggestions/accept-bib-suggestions.command'
+export { AcceptBibSuggestionsDto } from './accept-bib-suggestions/accept-bib-suggestions.dto'
+export { AcceptBibSuggestionsHandler } from './accept-bib-suggestions/accept-bib-suggestions.handler'
+export { ActivateRetouchRevisionCommand } from './activate-retouch-revision/activate-retouch-revision.command'
 export { AddPhotoBibCommand } from './add-photo-bib/add-photo-bib.command'
 export { AddPhotoBibDto } from './add-photo-bib/add-photo-bib.dto'
 export { AddPhotoBibHandler } from './add-photo-bib/add-photo-bib.handler'
@@ -15,18 +20,47 @@ export { ApplyColorCorrectionDto } from './apply-color-correction/apply-color-co
 export { ApplyColorCorrectionHandler } from './apply-color-correction/apply-color-correction.handler'
 export { BulkAssignCategoryCommand } from './bulk-assign-category/bulk-assign-category.command'
 export { BulkAssignCategoryDto } from './bulk-assign-category/bulk-assign-category.dto'
+export { BulkAssignCheckpointCommand } from './bulk-assign-checkpoint/bulk-assign-checkpoint.command'
+export { BulkAssignCheckpointDto } from './bulk-assign-checkpoint/bulk-assign-checkpoint.dto'
+export { CloseReviewSessionCommand } from './close-review-session/close-review-session.command'
+export { CompleteUploadItemCommand } from './complete-upload-item/complete-upload-item.command'
 export { ConfirmPhotoBatchCommand } from './confirm-photo-batch/confirm-photo-batch.command'
 export { ConfirmPhotoBatchDto } from './confirm-photo-batch/confirm-photo-batch.dto'
 export { ConfirmRetouchedUploadCommand } from './confirm-retouched-upload/confirm-retouched-upload.command'
 export { ConfirmRetouchedUploadDto } from './confirm-retouched-upload/confirm-retouched-upload.dto'
+export {
+  CreateUploadSessionCommand,
+  type UploadSessionFile,
+} from './create-upload-session/create-upload-session.command'
+export { CreateUploadSessionDto } from './create-upload-session/create-upload-session.dto'
 export * from './delete-photo-bib'
 export * from './delete-photo-color'
+export { EmbedPhotoDetectionsCommand } from './embed-photo-detections/embed-photo-detections.command'
+export { EmbedPhotoFacesCommand } from './embed-photo-faces/embed-photo-faces.command'
+export { ExtractEventExifCommand } from './extract-event-exif/extract-event-exif.command'
+export { ExtractPhotoExifCommand } from './extract-photo-exif/extract-photo-exif.command'
 export { GeneratePresignedUrlCommand } from './generate-presigned-url/generate-presigned-url.command'
 export { GeneratePresignedUrlDto } from './generate-presigned-url/generate-presigned-url.dto'
 export { GenerateRetouchedPresignedUrlCommand } from './generate-retouched-presigned-url/generate-retouched-presigned-url.command'
 export { GenerateRetouchedPresignedUrlDto } from './generate-retouched-presigned-url/generate-retouched-presigned-url.dto'
+export { GenerateUploadPartUrlsCommand } from './generate-upload-part-urls/generate-upload-part-urls.command'
+export { GenerateUploadPartUrlsDto } from './generate-upload-part-urls/generate-upload-part-urls.dto'
 export { MarkPhotoReviewedCommand } from './mark-photo-reviewed/mark-photo-reviewed.command'
 export { MarkPhotoReviewedHandler } from './mark-photo-reviewed/mark-photo-reviewed.handler'
+export { OpenReviewSessionCommand } from './open-review-session/open-review-session.command'
+export { OpenReviewSessionDto } from './open-review-session/open-review-session.dto'
+export { PropagateBurstBibsCommand } from './propagate-burst-bibs/propagate-burst-bibs.command'
+export { RecordUploadPartCommand } from './record-upload-part/record-upload-part.command'
+export { RecordUploadPartDto } from './record-upload-part/record-upload-part.dto'
+export { RenewReviewSessionCommand } from './renew-review-session/renew-review-session.command'
+export { ResumeUploadSessionCommand } from './resume-upload-session/resume-upload-session.command'
+export { SetCameraClockOffsetCommand } from './set-camera-clock-offset/set-camera-clock-offset.command'
+export { SetCameraClockOffsetDto } from './set-camera-clock-offset/set-camera-clock-offset.dto'
 export { SetPhotoRetouchFlagCommand } from './set-photo-retouch-flag/set-photo-retouch-flag.command'
 export { SetPhotoRetouchFlagDto } from './set-photo-retouch-flag/set-photo-retouch-flag.dto'
 export { SetPhotoRetouchFlagHandler } from './set-photo-retouch-flag/set-photo-retouch-flag.handler'
+export {
+  type PhotoReviewEdits,
+  SubmitPhotoReviewCommand,
+} from './submit-photo-review/submit-photo-review.command'
+export { SubmitPhotoReviewDto } from './submit-photo-review/submit-photo-review.dto'
@@ -32,7 +32,7 @@ describe('MarkPhotoReviewedHandler', () => {
 
   beforeEach(() => {
     photoReadRepo = { findById: jest.fn() }
-    photoWriteRepo = { save: jest.fn() }
+    photoWriteRepo = { saveReviewed: jest.fn().mockResolvedValue(true) }
     handler = new MarkPhotoReviewedHandler(photoReadRepo, photoWriteRepo)
   })
 
@@ -54,22 +54,30 @@ describe('MarkPhotoReviewedHandler', () => {
     const prev = new Date('2024-01-01')
     const photo = buildPhoto('reviewed', prev)
     photoReadRepo.findById.mockResolvedValue(photo)
-    photoWriteRepo.save.mockResolvedValue(photo)
 
     const result = await handler.execute(new MarkPhotoReviewedCommand('p-1', 'r-1'))
     expect(result.photoId).toBe('p-1')
     expect(result.reviewedAt).toBeInstanceOf(Date)
-    expect(photoWriteRepo.save).toHaveBeenCalled()
+    expect(photoWriteRepo.saveReviewed).toHaveBeenCalledWith(photo)
   })
 
   it('happy path marks photo reviewed and saves', async () => {
     const photo = buildPhoto()
     photoReadRepo.findById.mockResolvedValue(photo)
-    photoWriteRepo.save.mockResolvedValue(photo)
 
     const result = await handler.execute(new MarkPhotoReviewedCommand('p-1', 'r-1'))
     expect(photo.status).toBe('reviewed')
     expect(photo.reviewedAt).toBeInstanceOf(Date)
+    expect(photo.reviewedById).toBe('r-1')
     expect(result.photoId).toBe('p-1')
   })
+
+  it('throws conflict while another reviewer leases the photo', async () => {
+    photoReadRepo.findById.mockResolvedValue(buildPhoto())
+    photoWriteRepo.saveReviewed.mockResolvedValue(false)
+
+    await expect(handler.execute(new MarkPhotoReviewedCommand('p-1', 'r-1'))).rejects.toMatchObject(
+      { messageKey: 'review_session.photo_leased_by_other' },
+    )
+  })
 })
@@ -26,8 +26,10 @@ export class MarkPhotoReviewedHandler implements ICommandHandler<MarkPhotoReview
     }
 
     const wasAlreadyReviewed = photo.reviewedAt !== null
-    photo.markReviewed()
-    await this.photoWriteRepo.save(photo)
+    photo.markReviewed(cmd.reviewerId)
+    if (!(await this.photoWriteRepo.saveReviewed(photo))) {
+      throw AppException.conflict('review_session.photo_leased_by_other')
+    }
 
     this.logger.log({
       event: 'photo_marked_reviewed',
@@ -0,0 +1,7 @@
+export class OpenReviewSessionCommand {
+  constructor(
+    public readonly eventSlug: string,
+    public readonly reviewerId: string,
+    public readonly size: number,
+  ) {}
+}
@@ -0,0 +1,18 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { MAX_REVIEW_SESSION_PHOTOS } from '@photos/domain/entities'
+import { Type } from 'class-transformer'
+import { IsInt, IsOptional, Max, Min } from 'class-validator'
+
+export class OpenReviewSessionDto {
+  @ApiPropertyOptional({
+    description: 'Unreviewed photos to reserve for the session',
+    default: 20,
+    maximum: MAX_REVIEW_SESSION_PHOTOS,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_REVIEW_SESSION_PHOTOS)
+  size?: number
+}
@@ -0,0 +1,54 @@
+import type { ConfigService } from '@nestjs/config'
+import { OpenReviewSessionCommand } from './open-review-session.command'
+import { OpenReviewSessionHandler } from './open-review-session.handler'
+
+describe('OpenReviewSessionHandler', () => {
+  let handler: OpenReviewSessionHandler
+  let eventReadRepo: { getEventDetailBySlug: jest.Mock }
+  let sessionRepo: { open: jest.Mock; save: jest.Mock }
+
+  beforeEach(() => {
+    eventReadRepo = { getEventDetailBySlug: jest.fn().mockResolvedValue({ id: 'e-1' }) }
+    sessionRepo = { open: jest.fn(), save: jest.fn() }
+    const config = { get: jest.fn().mockReturnValue(15) } as unknown as ConfigService
+    handler = new OpenReviewSessionHandler(eventReadRepo as never, sessionRepo as never, config)
+  })
+
+  it('leases the next photos of the event to the reviewer', async () => {
+    sessionRepo.open.mockResolvedValue(['p-1', 'p-2'])
+
+    const result = await handler.execute(new OpenReviewSessionCommand('giro-2026', 'r-1', 20))
+
+    const [session, limit] = sessionRepo.open.mock.calls[0]
+    expect(session).toMatchObject({ eventId: 'e-1', reviewerId: 'r-1', closedAt: null })
+    expect(limit).toBe(20)
+    expect(session.leaseExpiresAt.getTime() - session.createdAt.getTime()).toBe(15 * 60 * 1000)
+    expect(result).toEqual({
+      id: session.id,
+      eventId: 'e-1',
+      leaseExpiresAt: session.leaseExpiresAt,
+      photoIds: ['p-1', 'p-2'],
+    })
+    expect(sessionRepo.save).not.toHaveBeenCalled()
+  })
+
+  it('closes the session again when no photo is free', async () => {
+    sessionRepo.open.mockResolvedValue([])
+
+    await expect(
+      handler.execute(new OpenReviewSessionCommand('giro-2026', 'r-1', 20)),
+    ).rejects.toMatchObject({ messageKey: 'review_session.nothing_to_review' })
+    expect(sessionRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ closedAt: expect.any(Date) }),
+    )
+  })
+
+  it('throws when the event does not exist', async () => {
+    eventReadRepo.getEventDetailBySlug.mockResolvedValue(null)
+
+    await expect(
+      handler.execute(new OpenReviewSessionCommand('nope', 'r-1', 20)),
+    ).rejects.toMatchObject({ messageKey: 'errors.NOT_FOUND' })
+    expect(sessionRepo.open).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,55 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { ReviewSessionProjection } from '@photos/application/projections'
+import { ReviewSession } from '@photos/domain/entities'
+import { type IReviewSessionRepository, REVIEW_SESSION_REPOSITORY } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { OpenReviewSessionCommand } from './open-review-session.command'
+
+@CommandHandler(OpenReviewSessionCommand)
+export class OpenReviewSessionHandler implements ICommandHandler<OpenReviewSessionCommand> {
+  private readonly logger = new Logger('ReviewAudit')
+  private readonly leaseMinutes: number
+
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(REVIEW_SESSION_REPOSITORY) private readonly sessionRepo: IReviewSessionRepository,
+    config: ConfigService,
+  ) {
+    this.leaseMinutes = config.get<number>('review.leaseMinutes', 10)
+  }
+
+  async execute(cmd: OpenReviewSessionCommand): Promise<ReviewSessionProjection> {
+    const event = await this.eventReadRepo.getEventDetailBySlug(cmd.eventSlug)
+    if (!event) throw AppException.notFound('Event', cmd.eventSlug)
+
+    const session = ReviewSession.create({
+      eventId: event.id,
+      reviewerId: cmd.reviewerId,
+      leaseMinutes: this.leaseMinutes,
+    })
+    const photoIds = await this.sessionRepo.open(session, cmd.size)
+    if (photoIds.length === 0) {
+      session.close()
+      await this.sessionRepo.save(session)
+      throw AppException.businessRule('review_session.nothing_to_review')
+    }
+
+    this.logger.log({
+      event: 'review_session_opened',
+      review_session_id: session.id,
+      event_id: event.id,
+      reviewer_id: cmd.reviewerId,
+      photos_count: photoIds.length,
+    })
+
+    return {
+      id: session.id,
+      eventId: session.eventId,
+      leaseExpiresAt: session.leaseExpiresAt,
+      photoIds,
+    }
+  }
+}
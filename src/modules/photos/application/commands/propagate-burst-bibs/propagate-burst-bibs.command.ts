@@ -0,0 +1,3 @@
+export class PropagateBurstBibsCommand {
+  constructor(public readonly photoId: string) {}
+}
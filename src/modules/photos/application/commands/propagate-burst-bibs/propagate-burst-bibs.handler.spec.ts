@@ -0,0 +1,68 @@
+import type { BurstBib, BurstFrame } from '@photos/domain/ports'
+import { PropagateBurstBibsCommand } from './propagate-burst-bibs.command'
+import { PropagateBurstBibsHandler } from './propagate-burst-bibs.handler'
+
+const frame = (
+  photoId: string,
+  second: number,
+  similarityToPrevious: number | null,
+): BurstFrame => ({
+  photoId,
+  capturedAt: new Date(Date.UTC(2026, 9, 4, 9, 0, second)),
+  similarityToPrevious,
+  classified: true,
+  reviewed: false,
+})
+
+const bib: BurstBib = {
+  id: 'bib-1',
+  photoId: 'p-1',
+  digits: '142',
+  source: 'ai',
+  confidence: 0.9,
+  status: 'read',
+  rejectionReason: null,
+  corrected: false,
+  deleted: false,
+  cropPath: null,
+}
+
+describe('PropagateBurstBibsHandler', () => {
+  let handler: PropagateBurstBibsHandler
+  let burstRepo: { findFrames: jest.Mock; findBibs: jest.Mock; saveBurst: jest.Mock }
+
+  beforeEach(() => {
+    burstRepo = {
+      findFrames: jest.fn(),
+      findBibs: jest.fn().mockResolvedValue([bib]),
+      saveBurst: jest.fn(),
+    }
+    handler = new PropagateBurstBibsHandler(burstRepo as never)
+  })
+
+  it('saves the burst holding the photo, named after its first frame, with its suggestions', async () => {
+    burstRepo.findFrames.mockResolvedValue([
+      frame('p-0', 0, null),
+      frame('p-1', 10, 0.9),
+      frame('p-2', 11, 0.95),
+    ])
+
+    await handler.execute(new PropagateBurstBibsCommand('p-2'))
+
+    expect(burstRepo.findBibs).toHaveBeenCalledWith(['p-1', 'p-2'])
+    expect(burstRepo.saveBurst).toHaveBeenCalledWith(
+      'p-1',
+      ['p-1', 'p-2'],
+      [expect.objectContaining({ photoId: 'p-2', digits: '142', fromBibId: 'bib-1' })],
+    )
+  })
+
+  it('leaves a photo shot alone untouched', async () => {
+    burstRepo.findFrames.mockResolvedValue([frame('p-1', 0, null), frame('p-2', 1, 0.3)])
+
+    await handler.execute(new PropagateBurstBibsCommand('p-1'))
+
+    expect(burstRepo.findBibs).not.toHaveBeenCalled()
+    expect(burstRepo.saveBurst).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,38 @@
+import { Inject, Logger } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { type IPhotoBurstRepository, PHOTO_BURST_REPOSITORY } from '@photos/domain/ports'
+import { BurstPropagation } from '@photos/domain/services/burst-propagation.service'
+import { PropagateBurstBibsCommand } from './propagate-burst-bibs.command'
+
+/** Frames this far either side of the photo are looked at; bursts rarely last longer. */
+const BURST_WINDOW_SECONDS = 30
+
+@CommandHandler(PropagateBurstBibsCommand)
+export class PropagateBurstBibsHandler implements ICommandHandler<PropagateBurstBibsCommand> {
+  private readonly logger = new Logger(PropagateBurstBibsHandler.name)
+
+  constructor(@Inject(PHOTO_BURST_REPOSITORY) private readonly burstRepo: IPhotoBurstRepository) {}
+
+  /**
+   * Finds the burst the photo was shot in and suggests the bibs read confidently in one
+   * frame to the others. A photo shot alone is left untouched. Suggestions are stored as
+   * `burst` bibs for a reviewer to accept; they are not matched to bib packages until then.
+   */
+  async execute(command: PropagateBurstBibsCommand): Promise<void> {
+    const frames = await this.burstRepo.findFrames(command.photoId, BURST_WINDOW_SECONDS)
+    const burst = BurstPropagation.group(frames).find((candidate) =>
+      candidate.some((frame) => frame.photoId === command.photoId),
+    )
+    if (!burst || burst.length < 2) return
+
+    const photoIds = burst.map((frame) => frame.photoId)
+    const bibs = await this.burstRepo.findBibs(photoIds)
+    const suggestions = BurstPropagation.suggest(burst, bibs)
+
+    // The burst is named after its first frame, so every frame of it agrees on the id
+    await this.burstRepo.saveBurst(photoIds[0], photoIds, suggestions)
+    this.logger.log(
+      `Burst ${photoIds[0]}: ${burst.length} frames, ${suggestions.length} bib suggestion(s)`,
+    )
+  }
+}
@@ -0,0 +1,3 @@
+export class PurgeRetouchRevisionCommand {
+  constructor(public readonly revisionId: string) {}
+}
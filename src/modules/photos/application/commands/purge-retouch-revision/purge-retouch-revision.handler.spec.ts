@@ -0,0 +1,80 @@
+import { RetouchRevision } from '@photos/domain/entities'
+import type { IRetouchRevisionRepository } from '@photos/domain/ports'
+import type { IStorageAdapter } from '@shared/storage/domain/ports'
+import { PurgeRetouchRevisionCommand } from './purge-retouch-revision.command'
+import { PurgeRetouchRevisionHandler } from './purge-retouch-revision.handler'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const revision = (supersededAt: Date | null, purgedAt: Date | null = null) =>
+  RetouchRevision.fromPersistence({
+    id: 'rev-1',
+    photoId: 'photo-1',
+    revision: 1,
+    storageKey: 'events/event-1/retouched/v1.jpg',
+    publicSlug: 'slug-v1',
+    fileSize: 3000n,
+    note: null,
+    createdById: 'operator-1',
+    createdAt: new Date('2026-09-01T00:00:00Z'),
+    supersededAt,
+    purgedAt,
+  })
+
+describe('PurgeRetouchRevisionHandler', () => {
+  let revisionRepo: jest.Mocked<IRetouchRevisionRepository>
+  let storage: jest.Mocked<IStorageAdapter>
+  let handler: PurgeRetouchRevisionHandler
+
+  beforeEach(() => {
+    revisionRepo = {
+      findById: jest.fn(),
+      save: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IRetouchRevisionRepository>
+    storage = {
+      delete: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IStorageAdapter>
+    handler = new PurgeRetouchRevisionHandler(revisionRepo, storage, { get: () => 30 } as never)
+  })
+
+  it('deletes the file of a revision superseded for the whole retention window', async () => {
+    const old = revision(new Date(Date.now() - 31 * DAY_MS))
+    revisionRepo.findById.mockResolvedValue(old)
+
+    await handler.execute(new PurgeRetouchRevisionCommand('rev-1'))
+
+    expect(storage.delete).toHaveBeenCalledWith('events/event-1/retouched/v1.jpg')
+    expect(revisionRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ purgedAt: expect.any(Date) }),
+    )
+  })
+
+  it('keeps a revision that was rolled back to', async () => {
+    revisionRepo.findById.mockResolvedValue(revision(null))
+
+    await handler.execute(new PurgeRetouchRevisionCommand('rev-1'))
+
+    expect(storage.delete).not.toHaveBeenCalled()
+    expect(revisionRepo.save).not.toHaveBeenCalled()
+  })
+
+  it('waits for the later purge when the revision was superseded again since', async () => {
+    revisionRepo.findById.mockResolvedValue(revision(new Date(Date.now() - 2 * DAY_MS)))
+
+    await handler.execute(new PurgeRetouchRevisionCommand('rev-1'))
+
+    expect(storage.delete).not.toHaveBeenCalled()
+  })
+
+  it('ignores missing or already purged revisions', async () => {
+    revisionRepo.findById.mockResolvedValueOnce(null)
+    await handler.execute(new PurgeRetouchRevisionCommand('rev-1'))
+
+    revisionRepo.findById.mockResolvedValueOnce(
+      revision(new Date(Date.now() - 40 * DAY_MS), new Date()),
+    )
+    await handler.execute(new PurgeRetouchRevisionCommand('rev-1'))
+
+    expect(storage.delete).not.toHaveBeenCalled()
+  })
+})
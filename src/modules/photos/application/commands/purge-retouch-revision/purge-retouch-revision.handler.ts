@@ -0,0 +1,35 @@
+import { Inject, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { type IRetouchRevisionRepository, RETOUCH_REVISION_REPOSITORY } from '@photos/domain/ports'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { PurgeRetouchRevisionCommand } from './purge-retouch-revision.command'
+
+@CommandHandler(PurgeRetouchRevisionCommand)
+export class PurgeRetouchRevisionHandler implements ICommandHandler<PurgeRetouchRevisionCommand> {
+  private readonly logger = new Logger(PurgeRetouchRevisionHandler.name)
+  private readonly retentionDays: number
+
+  constructor(
+    @Inject(RETOUCH_REVISION_REPOSITORY) private readonly revisionRepo: IRetouchRevisionRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+    config: ConfigService,
+  ) {
+    this.retentionDays = config.get<number>('retouch.revisionRetentionDays', 30)
+  }
+
+  /**
+   * Deletes the file of a revision superseded for the whole retention window. A revision that
+   * was rolled back to in the meantime is left alone; if it is replaced again, that replacement
+   * schedules its own purge.
+   */
+  async execute(command: PurgeRetouchRevisionCommand): Promise<void> {
+    const revision = await this.revisionRepo.findById(command.revisionId)
+    if (!revision?.isDueForPurge(this.retentionDays)) return
+
+    await this.storage.delete(revision.storageKey)
+    revision.purge()
+    await this.revisionRepo.save(revision)
+    this.logger.log(`Purged retouch revision ${revision.revision} of photo ${revision.photoId}`)
+  }
+}
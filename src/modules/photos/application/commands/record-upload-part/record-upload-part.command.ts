@@ -0,0 +1,8 @@
+export class RecordUploadPartCommand {
+  constructor(
+    public readonly sessionId: string,
+    public readonly itemId: string,
+    public readonly partNumber: number,
+    public readonly etag: string,
+  ) {}
+}
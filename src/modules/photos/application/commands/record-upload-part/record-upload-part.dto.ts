@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+export class RecordUploadPartDto {
+  @ApiProperty({
+    description: 'ETag header returned by B2 for the part PUT',
+    example: '"a54357aff0632cce46d942af68356b38"',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  etag: string
+}
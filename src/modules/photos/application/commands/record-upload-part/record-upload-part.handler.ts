@@ -0,0 +1,37 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { UploadSessionItemProjection } from '@photos/application/projections'
+import {
+  type IUploadSessionReadRepository,
+  type IUploadSessionWriteRepository,
+  UPLOAD_SESSION_READ_REPOSITORY,
+  UPLOAD_SESSION_WRITE_REPOSITORY,
+} from '@photos/domain/ports'
+import * as UploadSessionMapper from '@photos/infrastructure/mappers/upload-session.mapper'
+import { AppException } from '@shared/domain'
+import { RecordUploadPartCommand } from './record-upload-part.command'
+
+@CommandHandler(RecordUploadPartCommand)
+export class RecordUploadPartHandler implements ICommandHandler<RecordUploadPartCommand> {
+  constructor(
+    @Inject(UPLOAD_SESSION_READ_REPOSITORY)
+    private readonly sessionReadRepo: IUploadSessionReadRepository,
+    @Inject(UPLOAD_SESSION_WRITE_REPOSITORY)
+    private readonly sessionWriteRepo: IUploadSessionWriteRepository,
+  ) {}
+
+  /** Records a part the client uploaded so a resumed session skips it. */
+  async execute(command: RecordUploadPartCommand): Promise<UploadSessionItemProjection> {
+    const session = await this.sessionReadRepo.findById(command.sessionId)
+    if (!session) throw AppException.notFound('UploadSession', command.sessionId)
+    session.assertOpen()
+
+    const item = await this.sessionReadRepo.findItem(command.sessionId, command.itemId)
+    if (!item) throw AppException.notFound('UploadSessionItem', command.itemId)
+
+    item.recordPart(command.partNumber, command.etag)
+    await this.sessionWriteRepo.saveItem(item)
+
+    return UploadSessionMapper.toItemProjection(item)
+  }
+}
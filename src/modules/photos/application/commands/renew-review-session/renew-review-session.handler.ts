@@ -0,0 +1,36 @@
+import { Inject } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { ReviewSessionProjection } from '@photos/application/projections'
+import { type IReviewSessionRepository, REVIEW_SESSION_REPOSITORY } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { RenewReviewSessionCommand } from './renew-review-session.command'
+
+@CommandHandler(RenewReviewSessionCommand)
+export class RenewReviewSessionHandler implements ICommandHandler<RenewReviewSessionCommand> {
+  private readonly leaseMinutes: number
+
+  constructor(
+    @Inject(REVIEW_SESSION_REPOSITORY) private readonly sessionRepo: IReviewSessionRepository,
+    config: ConfigService,
+  ) {
+    this.leaseMinutes = config.get<number>('review.leaseMinutes', 10)
+  }
+
+  async execute(cmd: RenewReviewSessionCommand): Promise<ReviewSessionProjection> {
+    const session = await this.sessionRepo.findById(cmd.sessionId)
+    if (!session) throw AppException.notFound('ReviewSession', cmd.sessionId)
+    session.assertUsableBy(cmd.reviewerId)
+
+    session.renew(this.leaseMinutes)
+    await this.sessionRepo.save(session)
+
+    // Photos another session took while the lease had run out are no longer listed
+    return {
+      id: session.id,
+      eventId: session.eventId,
+      leaseExpiresAt: session.leaseExpiresAt,
+      photoIds: await this.sessionRepo.findLeasedPhotoIds(session.id),
+    }
+  }
+}
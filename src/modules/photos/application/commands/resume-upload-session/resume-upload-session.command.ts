@@ -0,0 +1,3 @@
+export class ResumeUploadSessionCommand {
+  constructor(public readonly sessionId: string) {}
+}
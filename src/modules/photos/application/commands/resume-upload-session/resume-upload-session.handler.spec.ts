@@ -0,0 +1,61 @@
+import { UploadSession, UploadSessionItem } from '@photos/domain/entities'
+import { AppException } from '@shared/domain'
+import { ResumeUploadSessionCommand } from './resume-upload-session.command'
+import { ResumeUploadSessionHandler } from './resume-upload-session.handler'
+
+describe('ResumeUploadSessionHandler', () => {
+  let handler: ResumeUploadSessionHandler
+  let session: UploadSession
+  let sessionReadRepo: { findById: jest.Mock; findItems: jest.Mock }
+  let sessionWriteRepo: { saveItems: jest.Mock }
+  let storage: { listUploadedParts: jest.Mock }
+
+  const buildItem = (fileName: string) =>
+    UploadSessionItem.create({
+      sessionId: session.id,
+      fileName,
+      fileSize: session.partSize * 3,
+      contentType: 'image/jpeg',
+      objectKey: `events/event-1/photos/uuid-${fileName}`,
+      partSize: session.partSize,
+      isDuplicate: false,
+    })
+
+  beforeEach(() => {
+    session = UploadSession.create({ eventId: 'event-1' })
+    sessionReadRepo = { findById: jest.fn().mockResolvedValue(session), findItems: jest.fn() }
+    sessionWriteRepo = { saveItems: jest.fn() }
+    storage = { listUploadedParts: jest.fn() }
+    handler = new ResumeUploadSessionHandler(
+      sessionReadRepo as never,
+      sessionWriteRepo as never,
+      storage as never,
+    )
+  })
+
+  it('reconciles in-flight files with the parts stored on B2', async () => {
+    const inFlight = buildItem('a.jpg')
+    inFlight.start('upload-1')
+    const notStarted = buildItem('b.jpg')
+    sessionReadRepo.findItems.mockResolvedValueOnce([inFlight, notStarted])
+    storage.listUploadedParts.mockResolvedValueOnce([
+      { partNumber: 1, etag: '"a"' },
+      { partNumber: 2, etag: '"b"' },
+    ])
+
+    const result = await handler.execute(new ResumeUploadSessionCommand(session.id))
+
+    expect(storage.listUploadedParts).toHaveBeenCalledTimes(1)
+    expect(sessionWriteRepo.saveItems).toHaveBeenCalledWith([inFlight])
+    expect(result.items.map((i) => i.missingParts)).toEqual([[3], [1, 2, 3]])
+  })
+
+  it('refuses to resume an aborted session', async () => {
+    session.abort()
+
+    const error = await handler.execute(new ResumeUploadSessionCommand(session.id)).catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.code).toBe('BUSINESS_RULE')
+  })
+})
@@ -0,0 +1,45 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { UploadSessionProjection } from '@photos/application/projections'
+import {
+  type IUploadSessionReadRepository,
+  type IUploadSessionWriteRepository,
+  UPLOAD_SESSION_READ_REPOSITORY,
+  UPLOAD_SESSION_WRITE_REPOSITORY,
+} from '@photos/domain/ports'
+import { UploadSessionItemStatus } from '@photos/domain/value-objects/upload-session-status.vo'
+import * as UploadSessionMapper from '@photos/infrastructure/mappers/upload-session.mapper'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { ResumeUploadSessionCommand } from './resume-upload-session.command'
+
+@CommandHandler(ResumeUploadSessionCommand)
+export class ResumeUploadSessionHandler implements ICommandHandler<ResumeUploadSessionCommand> {
+  constructor(
+    @Inject(UPLOAD_SESSION_READ_REPOSITORY)
+    private readonly sessionReadRepo: IUploadSessionReadRepository,
+    @Inject(UPLOAD_SESSION_WRITE_REPOSITORY)
+    private readonly sessionWriteRepo: IUploadSessionWriteRepository,
+    @Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter,
+  ) {}
+
+  /**
+   * Reconciles every in-flight file with the parts B2 actually stored, then returns
+   * the full session state so the uploader only sends what is still missing.
+   */
+  async execute(command: ResumeUploadSessionCommand): Promise<UploadSessionProjection> {
+    const session = await this.sessionReadRepo.findById(command.sessionId)
+    if (!session) throw AppException.notFound('UploadSession', command.sessionId)
+    session.assertOpen()
+
+    const items = await this.sessionReadRepo.findItems(session.id)
+    const inFlight = items.filter((i) => i.status === UploadSessionItemStatus.UPLOADING)
+
+    for (const item of inFlight) {
+      item.syncParts(await this.storage.listUploadedParts(item.multipartRef()))
+    }
+    await this.sessionWriteRepo.saveItems(inFlight)
+
+    return UploadSessionMapper.toSessionProjection(session, items)
+  }
+}
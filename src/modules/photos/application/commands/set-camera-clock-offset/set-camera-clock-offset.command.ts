@@ -0,0 +1,10 @@
+import type { AuditContext } from '@shared/application'
+
+export class SetCameraClockOffsetCommand {
+  constructor(
+    public readonly eventId: string,
+    public readonly cameraBody: string,
+    public readonly offsetSeconds: number,
+    public readonly audit: AuditContext,
+  ) {}
+}
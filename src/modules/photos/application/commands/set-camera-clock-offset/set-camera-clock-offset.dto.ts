@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsInt, IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+export class SetCameraClockOffsetDto {
+  @ApiProperty({
+    description: 'Camera body as listed by GET /events/:eventId/cameras',
+    example: 'Canon EOS R6 #032021001234',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(250)
+  cameraBody: string
+
+  @ApiProperty({
+    description: 'Seconds to add to the camera clock (negative when the camera runs ahead)',
+    example: -3600,
+  })
+  @IsInt()
+  offsetSeconds: number
+}
@@ -0,0 +1,70 @@
+import { CameraClockOffset } from '@photos/domain/entities'
+import { AuditContext } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { SetCameraClockOffsetCommand } from './set-camera-clock-offset.command'
+import { SetCameraClockOffsetHandler } from './set-camera-clock-offset.handler'
+
+describe('SetCameraClockOffsetHandler', () => {
+  let handler: SetCameraClockOffsetHandler
+  let eventReadRepo: { findById: jest.Mock }
+  let offsetRepo: { findByCamera: jest.Mock; save: jest.Mock }
+  let exifRepo: { restampCapturedAt: jest.Mock }
+
+  const audit = new AuditContext('admin-1')
+  const body = 'Canon EOS R6 #0320'
+
+  beforeEach(() => {
+    eventReadRepo = { findById: jest.fn().mockResolvedValue({ id: 'event-1' }) }
+    offsetRepo = { findByCamera: jest.fn().mockResolvedValue(null), save: jest.fn() }
+    exifRepo = { restampCapturedAt: jest.fn().mockResolvedValue(120) }
+
+    handler = new SetCameraClockOffsetHandler(
+      eventReadRepo as never,
+      offsetRepo as never,
+      exifRepo as never,
+    )
+  })
+
+  it('creates the offset and re-stamps the photos of the body', async () => {
+    const result = await handler.execute(
+      new SetCameraClockOffsetCommand('event-1', body, -3600, audit),
+    )
+
+    const saved = offsetRepo.save.mock.calls[0][0] as CameraClockOffset
+    expect(saved.offsetSeconds).toBe(-3600)
+    expect(saved.updatedById).toBe('admin-1')
+    expect(exifRepo.restampCapturedAt).toHaveBeenCalledWith('event-1', body, -3600)
+    expect(result).toEqual({ cameraBody: body, offsetSeconds: -3600, restampedPhotos: 120 })
+  })
+
+  it('replaces an existing offset instead of adding to it', async () => {
+    const existing = CameraClockOffset.create({
+      eventId: 'event-1',
+      cameraBody: body,
+      offsetSeconds: 600,
+    })
+    offsetRepo.findByCamera.mockResolvedValueOnce(existing)
+
+    await handler.execute(new SetCameraClockOffsetCommand('event-1', body, 900, audit))
+
+    expect(offsetRepo.save).toHaveBeenCalledWith(existing)
+    expect(existing.offsetSeconds).toBe(900)
+    expect(exifRepo.restampCapturedAt).toHaveBeenCalledWith('event-1', body, 900)
+  })
+
+  it('rejects offsets beyond seven days without touching photos', async () => {
+    await expect(
+      handler.execute(new SetCameraClockOffsetCommand('event-1', body, 8 * 24 * 3600, audit)),
+    ).rejects.toThrow(AppException)
+    expect(offsetRepo.save).not.toHaveBeenCalled()
+    expect(exifRepo.restampCapturedAt).not.toHaveBeenCalled()
+  })
+
+  it('throws NOT_FOUND when the event does not exist', async () => {
+    eventReadRepo.findById.mockResolvedValueOnce(null)
+
+    await expect(
+      handler.execute(new SetCameraClockOffsetCommand('missing', body, 60, audit)),
+    ).rejects.toThrow(AppException)
+  })
+})
@@ -0,0 +1,52 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import type { CameraClockOffsetProjection } from '@photos/application/projections'
+import { CameraClockOffset } from '@photos/domain/entities'
+import {
+  CAMERA_CLOCK_OFFSET_REPOSITORY,
+  type ICameraClockOffsetRepository,
+  type IPhotoExifRepository,
+  PHOTO_EXIF_REPOSITORY,
+} from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { SetCameraClockOffsetCommand } from './set-camera-clock-offset.command'
+
+@CommandHandler(SetCameraClockOffsetCommand)
+export class SetCameraClockOffsetHandler implements ICommandHandler<SetCameraClockOffsetCommand> {
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(CAMERA_CLOCK_OFFSET_REPOSITORY)
+    private readonly offsetRepo: ICameraClockOffsetRepository,
+    @Inject(PHOTO_EXIF_REPOSITORY) private readonly exifRepo: IPhotoExifRepository,
+  ) {}
+
+  /**
+   * Stores the offset for the camera body and re-stamps every photo it took in the event.
+   * The offset replaces the previous one; it is always applied to the original camera time.
+   */
+  async execute(command: SetCameraClockOffsetCommand): Promise<CameraClockOffsetProjection> {
+    const event = await this.eventReadRepo.findById(command.eventId)
+    if (!event) throw AppException.notFound('Event', command.eventId)
+
+    const existing = await this.offsetRepo.findByCamera(command.eventId, command.cameraBody)
+    const offset =
+      existing ??
+      CameraClockOffset.create({
+        eventId: command.eventId,
+        cameraBody: command.cameraBody,
+        offsetSeconds: command.offsetSeconds,
+        updatedById: command.audit.userId,
+      })
+    if (existing) offset.changeOffset(command.offsetSeconds, command.audit.userId)
+
+    await this.offsetRepo.save(offset)
+    const restampedPhotos = await this.exifRepo.restampCapturedAt(
+      command.eventId,
+      command.cameraBody,
+      offset.offsetSeconds,
+    )
+
+    return { cameraBody: offset.cameraBody, offsetSeconds: offset.offsetSeconds, restampedPhotos }
+  }
+}
@@ -0,0 +1,35 @@
+import type { BibReadingStatus, ColorRegion } from '@generated/prisma/client'
+
+/** A bib or color as the reviewer read it, identified with the version they saw. */
+export interface ReviewedTarget {
+  id: string
+  version: number
+}
+
+export interface ReviewBibEdit extends ReviewedTarget {
+  digits: string
+}
+
+/** An omitted color is left as is; a null secondary color clears it. */
+export interface ReviewColorEdit extends ReviewedTarget {
+  primaryColor?: string
+  secondaryColor?: string | null
+}
+
+export interface PhotoReviewEdits {
+  bibEdits: ReviewBibEdit[]
+  bibDeletions: ReviewedTarget[]
+  newBibs: Array<{ digits: string; status?: BibReadingStatus }>
+  colorEdits: ReviewColorEdit[]
+  colorDeletions: ReviewedTarget[]
+  newColors: Array<{ region: ColorRegion; primaryColor: string; secondaryColor: string | null }>
+}
+
+export class SubmitPhotoReviewCommand {
+  constructor(
+    public readonly sessionId: string,
+    public readonly photoId: string,
+    public readonly reviewerId: string,
+    public readonly edits: PhotoReviewEdits,
+  ) {}
+}
@@ -0,0 +1,98 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { COLOR_PALETTE } from '@shared/constants/color-palette'
+import { Type } from 'class-transformer'
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator'
+import { AddPhotoBibDto } from '../add-photo-bib/add-photo-bib.dto'
+import { AddPhotoColorDto } from '../add-photo-color/add-photo-color.dto'
+
+export class ReviewedTargetDto {
+  @ApiProperty({ description: 'PhotoBib or PhotoColor UUID' })
+  @IsUUID()
+  id!: string
+
+  @ApiProperty({ description: 'Version shown in the photo detail when the reviewer read it' })
+  @IsInt()
+  @Min(1)
+  version!: number
+}
+
+export class ReviewBibEditDto extends ReviewedTargetDto {
+  @ApiProperty({ example: '42' })
+  @IsString()
+  @Matches(/^[0-9]{1,6}$/)
+  digits!: string
+}
+
+export class ReviewColorEditDto extends ReviewedTargetDto {
+  @ApiPropertyOptional({ enum: COLOR_PALETTE, description: 'Omit to keep the current color' })
+  @IsOptional()
+  @IsString()
+  @IsIn(COLOR_PALETTE as readonly string[])
+  primaryColor?: string
+
+  @ApiPropertyOptional({
+    enum: COLOR_PALETTE,
+    nullable: true,
+    description: 'Omit to keep the current color, null to clear it',
+  })
+  @IsOptional()
+  @ValidateIf((o) => o.secondaryColor !== null)
+  @IsString()
+  @IsIn(COLOR_PALETTE as readonly string[])
+  secondaryColor?: string | null
+}
+
+export class SubmitPhotoReviewDto {
+  @ApiPropertyOptional({ type: [ReviewBibEditDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewBibEditDto)
+  bibEdits?: ReviewBibEditDto[]
+
+  @ApiPropertyOptional({ type: [ReviewedTargetDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewedTargetDto)
+  bibDeletions?: ReviewedTargetDto[]
+
+  @ApiPropertyOptional({ type: [AddPhotoBibDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AddPhotoBibDto)
+  newBibs?: AddPhotoBibDto[]
+
+  @ApiPropertyOptional({ type: [ReviewColorEditDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewColorEditDto)
+  colorEdits?: ReviewColorEditDto[]
+
+  @ApiPropertyOptional({ type: [ReviewedTargetDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReviewedTargetDto)
+  colorDeletions?: ReviewedTargetDto[]
+
+  @ApiPropertyOptional({ type: [AddPhotoColorDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AddPhotoColorDto)
+  newColors?: AddPhotoColorDto[]
+}
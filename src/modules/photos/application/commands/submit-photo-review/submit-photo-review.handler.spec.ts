@@ -0,0 +1,215 @@
+import type { ConfigService } from '@nestjs/config'
+import type { CommandBus } from '@nestjs/cqrs'
+import { AttachPhotoToBibPackagesCommand } from '@orders/application/commands'
+import { Photo, ReviewSession } from '@photos/domain/entities'
+import { PhotoStatus } from '@photos/domain/value-objects/photo-status.vo'
+import { type PhotoReviewEdits, SubmitPhotoReviewCommand } from './submit-photo-review.command'
+import { SubmitPhotoReviewHandler } from './submit-photo-review.handler'
+
+const photo = () =>
+  Photo.fromPersistence({
+    id: 'p-1',
+    eventId: 'e-1',
+    filename: 'a.jpg',
+    storageKey: 'k',
+    fileSize: 1n,
+    mimeType: 'image/jpeg',
+    width: 10,
+    height: 10,
+    status: PhotoStatus.PROCESSED,
+    capturedAt: null,
+    uploadedAt: new Date(),
+    processedAt: new Date(),
+    reviewedAt: null,
+    publicSlug: 's',
+    retouchedStorageKey: null,
+    retouchedPublicSlug: null,
+    retouchedFileSize: null,
+    retouchedAt: null,
+  })
+
+const session = (closedAt: Date | null = null) =>
+  ReviewSession.fromPersistence({
+    id: 's-1',
+    eventId: 'e-1',
+    reviewerId: 'r-1',
+    leaseExpiresAt: new Date(Date.now() + 60_000),
+    createdAt: new Date(),
+    closedAt,
+  })
+
+const edits = (overrides: Partial<PhotoReviewEdits> = {}): PhotoReviewEdits => ({
+  bibEdits: [],
+  bibDeletions: [],
+  newBibs: [],
+  colorEdits: [],
+  colorDeletions: [],
+  newColors: [],
+  ...overrides,
+})
+
+describe('SubmitPhotoReviewHandler', () => {
+  let handler: SubmitPhotoReviewHandler
+  let sessionRepo: Record<string, jest.Mock>
+  let photoReadRepo: { findById: jest.Mock }
+  let correctionRepo: { findLatestByTargets: jest.Mock }
+  let commandBus: { execute: jest.Mock }
+
+  beforeEach(() => {
+    sessionRepo = {
+      findById: jest.fn().mockResolvedValue(session()),
+      findTargets: jest.fn().mockResolvedValue({
+        bibs: [{ id: 'b-1', version: 3, digits: '20' }],
+        colors: [
+          {
+            id: 'c-1',
+            version: 1,
+            region: 'helmet',
+            primaryColor: 'rojo',
+            secondaryColor: null,
+          },
+        ],
+      }),
+      applyReview: jest.fn().mockResolvedValue({ applied: true }),
+      findLeasedPhotoIds: jest.fn().mockResolvedValue(['p-2']),
+    }
+    photoReadRepo = { findById: jest.fn().mockResolvedValue(photo()) }
+    correctionRepo = { findLatestByTargets: jest.fn().mockResolvedValue(new Map()) }
+    commandBus = { execute: jest.fn().mockResolvedValue(0) }
+    const config = { get: jest.fn().mockReturnValue(10) } as unknown as ConfigService
+    handler = new SubmitPhotoReviewHandler(
+      sessionRepo as never,
+      photoReadRepo as never,
+      correctionRepo as never,
+      commandBus as unknown as CommandBus,
+      config,
+    )
+  })
+
+  it('applies the edits, the review and the lease renewal as one batch', async () => {
+    correctionRepo.findLatestByTargets.mockResolvedValue(
+      new Map([['photo_color:c-1:primary_color', { newValue: 'azul' }]]),
+    )
+
+    const result = await handler.execute(
+      new SubmitPhotoReviewCommand(
+        's-1',
+        'p-1',
+        'r-1',
+        edits({
+          bibEdits: [{ id: 'b-1', version: 3, digits: '42' }],
+          colorEdits: [{ id: 'c-1', version: 1, primaryColor: 'azul', secondaryColor: 'blanco' }],
+          newBibs: [{ digits: '7' }],
+        }),
+      ),
+    )
+
+    const batch = sessionRepo.applyReview.mock.calls[0][0]
+    expect(batch.expected).toEqual([
+      { targetType: 'photo_bib', targetId: 'b-1', version: 3 },
+      { targetType: 'photo_color', targetId: 'c-1', version: 1 },
+    ])
+    // The primary color already reads azul after an earlier correction
+    expect(batch.corrections).toEqual([
+      expect.objectContaining({ targetId: 'b-1', field: 'digits', oldValue: '20', newValue: '42' }),
+      expect.objectContaining({
+        targetId: 'c-1',
+        field: 'secondary_color',
+        oldValue: null,
+        newValue: 'blanco',
+      }),
+    ])
+    expect(batch.newBibs).toHaveLength(1)
+    expect(batch.newBibs[0]).toMatchObject({ digits: '7', photoId: 'p-1', createdById: 'r-1' })
+    expect(batch.session.leaseExpiresAt.getTime()).toBeGreaterThan(Date.now() + 9 * 60_000)
+    expect(result).toMatchObject({
+      photoId: 'p-1',
+      correctionsCount: 2,
+      addedBibIds: [batch.newBibs[0].id],
+      remainingPhotoIds: ['p-2'],
+    })
+    expect(commandBus.execute).toHaveBeenCalledWith(new AttachPhotoToBibPackagesCommand('p-1'))
+  })
+
+  it('reports the stale targets and writes nothing else', async () => {
+    const stale = [
+      { targetType: 'photo_bib', targetId: 'b-1', expectedVersion: 2, currentVersion: 3 },
+    ]
+    sessionRepo.applyReview.mockResolvedValue({ applied: false, reason: 'stale', stale })
+
+    await expect(
+      handler.execute(
+        new SubmitPhotoReviewCommand(
+          's-1',
+          'p-1',
+          'r-1',
+          edits({ bibEdits: [{ id: 'b-1', version: 2, digits: '42' }] }),
+        ),
+      ),
+    ).rejects.toMatchObject({ messageKey: 'review_session.stale_edit', context: { stale } })
+    expect(commandBus.execute).not.toHaveBeenCalled()
+  })
+
+  it('refuses a photo no longer leased to the session', async () => {
+    sessionRepo.applyReview.mockResolvedValue({ applied: false, reason: 'photo_not_leased' })
+
+    await expect(
+      handler.execute(new SubmitPhotoReviewCommand('s-1', 'p-1', 'r-1', edits())),
+    ).rejects.toMatchObject({ messageKey: 'review_session.photo_not_leased' })
+  })
+
+  it('refuses a target edited twice in one batch', async () => {
+    await expect(
+      handler.execute(
+        new SubmitPhotoReviewCommand(
+          's-1',
+          'p-1',
+          'r-1',
+          edits({
+            bibEdits: [{ id: 'b-1', version: 3, digits: '42' }],
+            bibDeletions: [{ id: 'b-1', version: 3 }],
+          }),
+        ),
+      ),
+    ).rejects.toMatchObject({ messageKey: 'review_session.duplicate_target' })
+    expect(sessionRepo.applyReview).not.toHaveBeenCalled()
+  })
+
+  it('throws when a bib is not on the photo', async () => {
+    await expect(
+      handler.execute(
+        new SubmitPhotoReviewCommand(
+          's-1',
+          'p-1',
+          'r-1',
+          edits({ bibDeletions: [{ id: 'b-other', version: 1 }] }),
+        ),
+      ),
+    ).rejects.toMatchObject({ messageKey: 'errors.NOT_FOUND' })
+    expect(sessionRepo.applyReview).not.toHaveBeenCalled()
+  })
+
+  it('refuses a closed session', async () => {
+    sessionRepo.findById.mockResolvedValue(session(new Date()))
+
+    await expect(
+      handler.execute(new SubmitPhotoReviewCommand('s-1', 'p-1', 'r-1', edits())),
+    ).rejects.toMatchObject({ messageKey: 'review_session.closed' })
+  })
+
+  it('keeps a no-op edit version-checked without a correction', async () => {
+    await handler.execute(
+      new SubmitPhotoReviewCommand(
+        's-1',
+        'p-1',
+        'r-1',
+        edits({ bibEdits: [{ id: 'b-1', version: 3, digits: '20' }] }),
+      ),
+    )
+
+    const batch = sessionRepo.applyReview.mock.calls[0][0]
+    expect(batch.expected).toHaveLength(1)
+    expect(batch.corrections).toEqual([])
+    expect(commandBus.execute).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,246 @@
+import { PhotoBib, PhotoColor } from '@classifications/domain/entities'
+import { CorrectionTargetType } from '@generated/prisma/client'
+import { Inject, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { CommandBus, CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { AttachPhotoToBibPackagesCommand } from '@orders/application/commands'
+import type { PhotoReviewResultProjection } from '@photos/application/projections'
+import {
+  CORRECTION_REPOSITORY,
+  type IAppendCorrectionInput,
+  type ICorrectionRepository,
+  type IPhotoReadRepository,
+  type IReviewSessionRepository,
+  PHOTO_READ_REPOSITORY,
+  REVIEW_SESSION_REPOSITORY,
+  type ReviewTargetVersion,
+} from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { SubmitPhotoReviewCommand } from './submit-photo-review.command'
+
+/**
+ * Applies a reviewer's bib and color edits to one photo of their session and marks it reviewed,
+ * all at once. Every edited or deleted bib and color carries the version the reviewer saw; if
+ * another reviewer changed one since, nothing is written and the stale targets are reported.
+ */
+@CommandHandler(SubmitPhotoReviewCommand)
+export class SubmitPhotoReviewHandler implements ICommandHandler<SubmitPhotoReviewCommand> {
+  private readonly logger = new Logger('ReviewAudit')
+  private readonly leaseMinutes: number
+
+  constructor(
+    @Inject(REVIEW_SESSION_REPOSITORY) private readonly sessionRepo: IReviewSessionRepository,
+    @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
+    @Inject(CORRECTION_REPOSITORY) private readonly correctionRepo: ICorrectionRepository,
+    private readonly commandBus: CommandBus,
+    config: ConfigService,
+  ) {
+    this.leaseMinutes = config.get<number>('review.leaseMinutes', 10)
+  }
+
+  async execute(cmd: SubmitPhotoReviewCommand): Promise<PhotoReviewResultProjection> {
+    const { edits } = cmd
+    const session = await this.sessionRepo.findById(cmd.sessionId)
+    if (!session) throw AppException.notFound('ReviewSession', cmd.sessionId)
+    session.assertUsableBy(cmd.reviewerId)
+
+    const touched = [
+      ...edits.bibEdits,
+      ...edits.bibDeletions,
+      ...edits.colorEdits,
+      ...edits.colorDeletions,
+    ].map((t) => t.id)
+    const duplicate = touched.find((id, i) => touched.indexOf(id) !== i)
+    if (duplicate) {
+      throw AppException.businessRule('review_session.duplicate_target', false, {
+        targetId: duplicate,
+      })
+    }
+    for (const bib of [...edits.bibEdits, ...edits.newBibs]) {
+      if (!/^[0-9]{1,6}$/.test(bib.digits)) {
+        throw AppException.businessRule('correction.invalid_digits')
+      }
+    }
+
+    const photo = await this.photoReadRepo.findById(cmd.photoId)
+    if (!photo) throw AppException.notFound('Photo', cmd.photoId)
+
+    const targets = await this.sessionRepo.findTargets(cmd.photoId)
+    const bibs = new Map(targets.bibs.map((b) => [b.id, b]))
+    const colors = new Map(targets.colors.map((c) => [c.id, c]))
+    for (const t of [...edits.bibEdits, ...edits.bibDeletions]) {
+      if (!bibs.has(t.id)) throw AppException.notFound('PhotoBib', t.id)
+    }
+    for (const t of [...edits.colorEdits, ...edits.colorDeletions]) {
+      if (!colors.has(t.id)) throw AppException.notFound('PhotoColor', t.id)
+    }
+
+    const latest = await this.correctionRepo.findLatestByTargets([
+      ...edits.bibEdits.map((e) => ({
+        targetType: CorrectionTargetType.photo_bib,
+        targetId: e.id,
+      })),
+      ...edits.colorEdits.map((e) => ({
+        targetType: CorrectionTargetType.photo_color,
+        targetId: e.id,
+      })),
+    ])
+    const corrections: IAppendCorrectionInput[] = []
+    const audit: Array<Record<string, unknown>> = []
+    const correct = (
+      targetType: CorrectionTargetType,
+      targetId: string,
+      field: string,
+      original: string | null,
+      newValue: string | null,
+    ) => {
+      const effective = latest.get(`${targetType}:${targetId}:${field}`)?.newValue ?? original
+      const isNoOp = newValue === effective
+      if (!isNoOp) {
+        corrections.push({
+          photoId: cmd.photoId,
+          targetType,
+          targetId,
+          field,
+          oldValue: effective,
+          newValue,
+          reviewerId: cmd.reviewerId,
+        })
+      }
+      audit.push({
+        event: 'photo_correction_applied',
+        target_type: targetType,
+        target_id: targetId,
+        field,
+        old_value: effective,
+        new_value: newValue,
+        is_no_op: isNoOp,
+      })
+    }
+    for (const e of edits.bibEdits) {
+      const bib = bibs.get(e.id)
+      correct(CorrectionTargetType.photo_bib, e.id, 'digits', bib?.digits ?? null, e.digits)
+    }
+    for (const e of edits.colorEdits) {
+      const color = colors.get(e.id)
+      if (e.primaryColor !== undefined) {
+        const original = color?.primaryColor ?? null
+        correct(CorrectionTargetType.photo_color, e.id, 'primary_color', original, e.primaryColor)
+      }
+      if (e.secondaryColor !== undefined) {
+        const original = color?.secondaryColor ?? null
+        correct(
+          CorrectionTargetType.photo_color,
+          e.id,
+          'secondary_color',
+          original,
+          e.secondaryColor,
+        )
+      }
+    }
+
+    const expected: ReviewTargetVersion[] = [
+      ...[...edits.bibEdits, ...edits.bibDeletions].map((t) => ({
+        targetType: CorrectionTargetType.photo_bib,
+        targetId: t.id,
+        version: t.version,
+      })),
+      ...[...edits.colorEdits, ...edits.colorDeletions].map((t) => ({
+        targetType: CorrectionTargetType.photo_color,
+        targetId: t.id,
+        version: t.version,
+      })),
+    ]
+    const newBibs = edits.newBibs.map((b) =>
+      PhotoBib.createManual({
+        photoId: cmd.photoId,
+        digits: b.digits,
+        status: b.status,
+        reviewerId: cmd.reviewerId,
+      }),
+    )
+    const newColors = edits.newColors.map((c) =>
+      PhotoColor.createManual({
+        photoId: cmd.photoId,
+        region: c.region,
+        primaryColor: c.primaryColor,
+        secondaryColor: c.secondaryColor,
+        reviewerId: cmd.reviewerId,
+      }),
+    )
+
+    session.renew(this.leaseMinutes)
+    const reviewedAt = new Date()
+    const result = await this.sessionRepo.applyReview({
+      session,
+      photoId: cmd.photoId,
+      reviewerId: cmd.reviewerId,
+      expected,
+      corrections,
+      deletions: [
+        ...edits.bibDeletions.map((d) => ({
+          targetType: CorrectionTargetType.photo_bib,
+          targetId: d.id,
+        })),
+        ...edits.colorDeletions.map((d) => ({
+          targetType: CorrectionTargetType.photo_color,
+          targetId: d.id,
+        })),
+      ],
+      newBibs,
+      newColors,
+      reviewedAt,
+    })
+    if (!result.applied && result.reason === 'photo_not_leased') {
+      throw AppException.conflict('review_session.photo_not_leased', { photoId: cmd.photoId })
+    }
+    if (!result.applied) {
+      throw AppException.conflict('review_session.stale_edit', { stale: result.stale })
+    }
+
+    for (const entry of audit) {
+      this.logger.log({
+        ...entry,
+        photo_id: cmd.photoId,
+        reviewer_id: cmd.reviewerId,
+        review_session_id: session.id,
+      })
+    }
+    this.logger.log({
+      event: 'photo_marked_reviewed',
+      photo_id: cmd.photoId,
+      reviewer_id: cmd.reviewerId,
+      review_session_id: session.id,
+      was_already_reviewed: photo.reviewedAt !== null,
+      deleted_bib_ids: edits.bibDeletions.map((d) => d.id),
+      deleted_color_ids: edits.colorDeletions.map((d) => d.id),
+      added_bib_ids: newBibs.map((b) => b.id),
+      added_color_ids: newColors.map((c) => c.id),
+    })
+
+    const bibsChanged =
+      newBibs.length > 0 || corrections.some((c) => c.targetType === CorrectionTargetType.photo_bib)
+    if (bibsChanged) {
+      // The reviewed digits may match a bib package bought earlier
+      await this.commandBus
+        .execute(new AttachPhotoToBibPackagesCommand(cmd.photoId))
+        .catch((err: unknown) => {
+          this.logger.warn({
+            event: 'bib_package_attach_failed',
+            photo_id: cmd.photoId,
+            error: String(err),
+          })
+        })
+    }
+
+    return {
+      photoId: cmd.photoId,
+      reviewedAt,
+      correctionsCount: corrections.length,
+      addedBibIds: newBibs.map((b) => b.id),
+      addedColorIds: newColors.map((c) => c.id),
+      leaseExpiresAt: session.leaseExpiresAt,
+      remainingPhotoIds: await this.sessionRepo.findLeasedPhotoIds(session.id),
+    }
+  }
+}
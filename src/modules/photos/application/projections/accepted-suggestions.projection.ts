@@ -0,0 +1,5 @@
+/** Result of accepting the burst bib suggestions of photos. */
+export class AcceptedSuggestionsProjection {
+  /** Number of photos whose suggestions became reviewer bibs */
+  accepted: number
+}
@@ -0,0 +1,5 @@
+/** Result of tagging photos with a checkpoint. */
+export class BulkCheckpointResultProjection {
+  /** Number of photos updated */
+  updated: number
+}
@@ -0,0 +1,16 @@
+/** A camera body seen in an event's EXIF, with its clock offset. */
+export class CameraBodyProjection {
+  /** Derived key: "Make Model #serial" (serial omitted when the camera does not record it) */
+  cameraBody: string
+  cameraMake: string | null
+  cameraModel: string | null
+  cameraSerial: string | null
+  /** Number of photos taken with this body */
+  photoCount: number
+  /** Earliest camera timestamp, before the offset */
+  firstCapturedAt: Date | null
+  /** Latest camera timestamp, before the offset */
+  lastCapturedAt: Date | null
+  /** Seconds added to this body's timestamps (0 when no offset was set) */
+  offsetSeconds: number
+}
@@ -0,0 +1,14 @@
+/** Result of queueing EXIF extraction for an event's photos. */
+export class ExifExtractionProjection {
+  /** Number of photos queued (those without EXIF yet) */
+  enqueued: number
+}
+
+/** Result of setting a camera body's clock offset. */
+export class CameraClockOffsetProjection {
+  cameraBody: string
+  /** Seconds now added to the body's camera timestamps */
+  offsetSeconds: number
+  /** Photos whose capture time was re-stamped */
+  restampedPhotos: number
+}
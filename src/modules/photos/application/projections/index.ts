@@ -1,12 +1,37 @@
+export { AcceptedSuggestionsProjection } from './accepted-suggestions.projection'
+export { BulkCheckpointResultProjection } from './bulk-checkpoint-result.projection'
+export { CameraBodyProjection } from './camera-body.projection'
 export { ConfirmBatchProjection } from './confirm-batch.projection'
 export { DownloadUrlProjection } from './download-url.projection'
+export {
+  CameraClockOffsetProjection,
+  ExifExtractionProjection,
+} from './exif-extraction.projection'
 export {
   PendingRetouchOrderProjection,
   PendingRetouchPhotoProjection,
 } from './pending-retouch.projection'
 export { PhotoDetailProjection } from './photo-detail.projection'
 export { PhotoListProjection } from './photo-list.projection'
+export {
+  MatchedAttributeProjection,
+  PhotoSearchResultProjection,
+  RankedPhotoSearchResultProjection,
+} from './photo-search-result.projection'
 export { PhotoViewProjection } from './photo-view.projection'
 export { PresignedUrlProjection } from './presigned-url.projection'
+export { ResumePointProjection } from './resume-point.projection'
+export { RetouchRevisionProjection } from './retouch-revision.projection'
 export { ReviewQueueItemProjection } from './review-queue-item.projection'
+export {
+  PhotoReviewResultProjection,
+  ReviewSessionProjection,
+} from './review-session.projection'
 export { SimilarPhotoProjection } from './similar-photo.projection'
+export {
+  UploadPartUrlProjection,
+  UploadPartUrlsProjection,
+  UploadSessionItemProjection,
+  UploadSessionProgressProjection,
+  UploadSessionProjection,
+} from './upload-session.projection'
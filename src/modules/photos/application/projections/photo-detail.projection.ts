@@ -1,8 +1,18 @@
 import type { AttributeSource, BibReadingStatus, ColorRegion } from '@generated/prisma/client'
 
+export class BibReadingProjection {
+  /** Digits as read by OCR; empty or partial when it abstained */
+  digits: string
+  status: BibReadingStatus | null
+  /** Confidence in [0,1] */
+  confidence: number | null
+}
+
 export class BibAttributeProjection {
   /** PhotoBib UUID */
   id: string
+  /** Bumped by every reviewer edit; send it back with a review session edit */
+  version: number
   /** Detected/corrected bib digits (raw AI value for now; effective resolution lands in Spec C) */
   digits: string
   /** Original digits as read by AI before any corrections. */
@@ -15,15 +25,21 @@ export class BibAttributeProjection {
   status: BibReadingStatus | null
   /** Confidence in [0,1] */
   confidence: number | null
+  /** Why the AI bib is doubtful, e.g. not_on_start_list; null when it is not */
+  rejectionReason: string | null
   /** ai (pipeline) | reviewer (manual; available once Spec C lands) */
   source: AttributeSource
   /** Pre-signed download URL (TTL 3600s); null when no crop persisted or signing failed */
   cropUrl: string | null
+  /** Raw OCR readings this bib was reconciled from; empty for reviewer bibs */
+  readings: BibReadingProjection[]
 }
 
 export class ColorAttributeProjection {
   /** PhotoColor UUID */
   id: string
+  /** Bumped by every reviewer edit; send it back with a review session edit */
+  version: number
   /** Body region the color was sampled from */
   region: ColorRegion
   /** Primary color name (Spanish palette) */
@@ -45,6 +61,17 @@ export class ColorAttributeProjection {
   cropUrl: string | null
 }
 
+export class RiderDetectionProjection {
+  /** PhotoDetection UUID; pass it as detectionId to find photos of the same rider */
+  detectionId: string
+  /** Detector class (person, cyclist or bicycle) */
+  className: string
+  /** Normalized [x1, y1, x2, y2] box in the frame */
+  bbox: number[]
+  /** Confidence in [0,1] */
+  confidence: number
+}
+
 export class PhotoDetailProjection {
   /** Photo UUID */
   id: string
@@ -88,4 +115,6 @@ export class PhotoDetailProjection {
   bibs: BibAttributeProjection[]
   /** AI- and reviewer-generated color attributes for this photo */
   colors: ColorAttributeProjection[]
+  /** Person and bicycle crops with an embedding, usable for rider similarity */
+  riders: RiderDetectionProjection[]
 }
@@ -0,0 +1,32 @@
+import type { AttributeSource, ColorRegion } from '@generated/prisma/client'
+import { ParticipantSummaryProjection } from '@participants/application/projections'
+import { PhotoListProjection } from './photo-list.projection'
+
+export class PhotoSearchResultProjection extends PhotoListProjection {
+  /** Participants wearing the photo's confirmed bibs (empty when none is confirmed) */
+  participants: ParticipantSummaryProjection[]
+}
+
+export class MatchedAttributeProjection {
+  /** bib | color */
+  kind: 'bib' | 'color'
+  /** What was searched for: bib digits or palette color name */
+  requested: string
+  /** Value found on the photo, after reviewer corrections */
+  value: string
+  /** Body region of a color match; null for bibs */
+  region: ColorRegion | null
+  /** reviewer when a reviewer entered or corrected the attribute, else ai */
+  source: AttributeSource
+  /** AI confidence in [0,1]; null when unknown */
+  confidence: number | null
+  /** What this attribute added to the score */
+  weight: number
+}
+
+export class RankedPhotoSearchResultProjection extends PhotoSearchResultProjection {
+  /** Sum of the weights of the matched attributes; results come highest first */
+  score: number
+  /** Requested attributes found on the photo, so the UI can explain the hit */
+  matchedAttributes: MatchedAttributeProjection[]
+}
@@ -0,0 +1,11 @@
+import type { UploadSessionProgressProjection } from './upload-session.projection'
+
+/** Where the classification workspace should reopen. */
+export class ResumePointProjection {
+  /** First photo not yet reviewed (null when every photo is reviewed) */
+  photoId: string | null
+  /** Page of the photo list holding that photo */
+  page: number
+  /** Open upload session of the event, so the workspace knows more photos are still arriving */
+  uploadSession: UploadSessionProgressProjection | null
+}
@@ -0,0 +1,21 @@
+/** A retouched file uploaded for a photo. */
+export class RetouchRevisionProjection {
+  id: string
+  /** 1 for the photo's first retouch, one more with every upload */
+  revision: number
+  /** File size in bytes */
+  fileSize: number
+  /** What the operator changed, as they described it */
+  note: string | null
+  /** Operator who uploaded it (null once their account is gone) */
+  createdById: string | null
+  /** Their full name, or email when they have no name */
+  createdByName: string | null
+  createdAt: Date
+  /** The revision deliveries serve; only one per photo */
+  active: boolean
+  /** When another revision replaced it */
+  supersededAt: Date | null
+  /** When the retention job deleted its file; a purged revision cannot be made active */
+  purgedAt: Date | null
+}
@@ -28,4 +28,23 @@ export class ReviewQueueItemProjection {
 
   @ApiProperty()
   colorsCount: number
+
+  @ApiProperty({
+    type: [String],
+    description: 'AI bib readings with no timing split near the capture time (likely OCR errors)',
+  })
+  implausibleBibs: string[]
+
+  @ApiProperty({
+    type: [String],
+    description: 'Bibs suggested from other frames of the burst, awaiting a reviewer',
+  })
+  suggestedBibs: string[]
+
+  @ApiProperty({
+    nullable: true,
+    type: String,
+    description: 'Burst the photo was shot in; null when shot alone',
+  })
+  burstId: string | null
 }
@@ -0,0 +1,25 @@
+export class ReviewSessionProjection {
+  /** Session UUID */
+  id: string
+  /** Event the photos belong to */
+  eventId: string
+  /** The photos stay reserved for the reviewer until then; every review renews it */
+  leaseExpiresAt: Date
+  /** Unreviewed photos the session holds, in review queue order */
+  photoIds: string[]
+}
+
+export class PhotoReviewResultProjection {
+  /** Photo UUID */
+  photoId: string
+  reviewedAt: Date
+  /** Corrections written for the edited bibs and colors */
+  correctionsCount: number
+  /** Bibs and colors added by the review */
+  addedBibIds: string[]
+  addedColorIds: string[]
+  /** The session's lease, renewed by the review */
+  leaseExpiresAt: Date
+  /** Photos the session still holds, in review queue order */
+  remainingPhotoIds: string[]
+}
@@ -0,0 +1,70 @@
+import type {
+  UploadSessionItemStatusType,
+  UploadSessionStatusType,
+} from '@photos/domain/value-objects/upload-session-status.vo'
+
+export class UploadSessionItemProjection {
+  /** Item UUID */
+  id: string
+  /** Original file name */
+  fileName: string
+  /** File size in bytes */
+  fileSize: number
+  /** Storage key the file is assembled under */
+  objectKey: string
+  /** Upload state of the file */
+  status: UploadSessionItemStatusType
+  /** Number of parts the file is split into */
+  totalParts: number
+  /** Part numbers (1-based) still to be uploaded */
+  missingParts: number[]
+}
+
+export class UploadSessionProjection {
+  /** Session UUID */
+  id: string
+  /** Event the photos are uploaded to */
+  eventId: string
+  /** Session state */
+  status: UploadSessionStatusType
+  /** Size in bytes of every part except the last one of each file */
+  partSize: number
+  /** Number of files announced for the session */
+  totalItems: number
+  /** Files assembled and confirmed as photos */
+  completedItems: number
+  /** Files skipped because the event already had them */
+  duplicateItems: number
+  /** Per-file upload state */
+  items: UploadSessionItemProjection[]
+}
+
+export class UploadPartUrlProjection {
+  /** 1-based part number */
+  partNumber: number
+  /** Presigned URL for a direct PUT of the part to B2 */
+  url: string
+}
+
+export class UploadPartUrlsProjection {
+  /** Item UUID */
+  itemId: string
+  /** Storage key the file is assembled under */
+  objectKey: string
+  /** Expiration time of the URLs in seconds */
+  expiresIn: number
+  /** One presigned URL per requested part */
+  parts: UploadPartUrlProjection[]
+}
+
+/** Summary of an event's open upload session, shown next to the classification resume point. */
+export class UploadSessionProgressProjection {
+  /** Session UUID */
+  sessionId: string
+  /** Number of files announced for the session */
+  totalItems: number
+  /** Files still pending or uploading */
+  outstandingItems: number
+  /** When the session was started */
+  createdAt: Date
+}
@@ -37,6 +37,8 @@ describe('FindSimilarPhotosHandler', () => {
     photoReadRepo = {
       findById: jest.fn(),
       findSimilar: jest.fn(),
+      findDetectionById: jest.fn(),
+      findSimilarByDetection: jest.fn(),
     } as unknown as jest.Mocked<IPhotoReadRepository>
 
     handler = new FindSimilarPhotosHandler(photoReadRepo)
@@ -99,4 +101,25 @@ describe('FindSimilarPhotosHandler', () => {
     })
     expect(photoReadRepo.findSimilar).toHaveBeenCalledWith(photoId, eventId, 5)
   })
+
+  it('should match the rider crop when a detection is given', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(existingPhoto)
+    photoReadRepo.findDetectionById.mockResolvedValueOnce({ id: 'det-1', photoId })
+    photoReadRepo.findSimilarByDetection.mockResolvedValueOnce([])
+
+    await handler.execute(new FindSimilarPhotosQuery(photoId, 5, 'det-1'))
+
+    expect(photoReadRepo.findSimilarByDetection).toHaveBeenCalledWith('det-1', eventId, 5)
+    expect(photoReadRepo.findSimilar).not.toHaveBeenCalled()
+  })
+
+  it('should throw 404 when the detection belongs to another photo', async () => {
+    photoReadRepo.findById.mockResolvedValueOnce(existingPhoto)
+    photoReadRepo.findDetectionById.mockResolvedValueOnce({ id: 'det-1', photoId: 'other-photo' })
+
+    await expect(handler.execute(new FindSimilarPhotosQuery(photoId, 10, 'det-1'))).rejects.toThrow(
+      'errors.NOT_FOUND',
+    )
+    expect(photoReadRepo.findSimilarByDetection).not.toHaveBeenCalled()
+  })
 })
@@ -15,6 +15,14 @@ export class FindSimilarPhotosHandler implements IQueryHandler<FindSimilarPhotos
     const photo = await this.photoReadRepo.findById(query.photoId)
     if (!photo) throw AppException.notFound('Photo', query.photoId)
 
+    if (query.detectionId) {
+      const detection = await this.photoReadRepo.findDetectionById(query.detectionId)
+      if (!detection || detection.photoId !== photo.id) {
+        throw AppException.notFound('entities.photo_detection', query.detectionId)
+      }
+      return this.photoReadRepo.findSimilarByDetection(detection.id, photo.eventId, query.limit)
+    }
+
     return this.photoReadRepo.findSimilar(query.photoId, photo.eventId, query.limit)
   }
 }
@@ -2,5 +2,7 @@ export class FindSimilarPhotosQuery {
   constructor(
     public readonly photoId: string,
     public readonly limit: number = 10,
+    /** When set, matches this rider's crop instead of the whole frame. */
+    public readonly detectionId?: string,
   ) {}
 }
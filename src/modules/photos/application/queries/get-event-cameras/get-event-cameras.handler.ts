@@ -0,0 +1,23 @@
+import { EVENT_READ_REPOSITORY, type IEventReadRepository } from '@events/domain/ports'
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { CameraBodyProjection } from '@photos/application/projections'
+import { type IPhotoExifRepository, PHOTO_EXIF_REPOSITORY } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { GetEventCamerasQuery } from './get-event-cameras.query'
+
+@QueryHandler(GetEventCamerasQuery)
+export class GetEventCamerasHandler implements IQueryHandler<GetEventCamerasQuery> {
+  constructor(
+    @Inject(EVENT_READ_REPOSITORY) private readonly eventReadRepo: IEventReadRepository,
+    @Inject(PHOTO_EXIF_REPOSITORY) private readonly exifRepo: IPhotoExifRepository,
+  ) {}
+
+  /** Lists the camera bodies found in the event's EXIF with their clock offsets. */
+  async execute(query: GetEventCamerasQuery): Promise<CameraBodyProjection[]> {
+    const event = await this.eventReadRepo.findById(query.eventId)
+    if (!event) throw AppException.notFound('Event', query.eventId)
+
+    return this.exifRepo.getEventCameras(query.eventId)
+  }
+}
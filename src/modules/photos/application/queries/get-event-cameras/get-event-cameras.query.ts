@@ -0,0 +1,3 @@
+export class GetEventCamerasQuery {
+  constructor(public readonly eventId: string) {}
+}
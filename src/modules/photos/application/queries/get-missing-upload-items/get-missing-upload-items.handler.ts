@@ -0,0 +1,27 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { UploadSessionItemProjection } from '@photos/application/projections'
+import {
+  type IUploadSessionReadRepository,
+  UPLOAD_SESSION_READ_REPOSITORY,
+} from '@photos/domain/ports'
+import * as UploadSessionMapper from '@photos/infrastructure/mappers/upload-session.mapper'
+import { AppException } from '@shared/domain'
+import { GetMissingUploadItemsQuery } from './get-missing-upload-items.query'
+
+@QueryHandler(GetMissingUploadItemsQuery)
+export class GetMissingUploadItemsHandler implements IQueryHandler<GetMissingUploadItemsQuery> {
+  constructor(
+    @Inject(UPLOAD_SESSION_READ_REPOSITORY)
+    private readonly sessionReadRepo: IUploadSessionReadRepository,
+  ) {}
+
+  /** Lists the files still pending or uploading, with the parts each one is missing. */
+  async execute(query: GetMissingUploadItemsQuery): Promise<UploadSessionItemProjection[]> {
+    const session = await this.sessionReadRepo.findById(query.sessionId)
+    if (!session) throw AppException.notFound('UploadSession', query.sessionId)
+
+    const items = await this.sessionReadRepo.findOutstandingItems(session.id)
+    return items.map(UploadSessionMapper.toItemProjection)
+  }
+}
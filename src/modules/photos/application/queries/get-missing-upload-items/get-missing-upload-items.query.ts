@@ -0,0 +1,3 @@
+export class GetMissingUploadItemsQuery {
+  constructor(public readonly sessionId: string) {}
+}
@@ -29,6 +29,7 @@ describe('GetPhotoDetailHandler', () => {
     retouchedAt: null,
     bibs: [],
     colors: [],
+    riders: [],
   }
 
   beforeEach(() => {
@@ -40,6 +41,8 @@ describe('GetPhotoDetailHandler', () => {
       getPhotoDetailBySlug: jest.fn(),
       getPhotoViewBySlug: jest.fn(),
       searchPhotos: jest.fn(),
+      findSearchHits: jest.fn(),
+      getPhotoListByIds: jest.fn(),
       getTotalFileSizeByEvent: jest.fn(),
       getTotalFileSizesByEventIds: jest.fn(),
       getClassifiedCountByEvent: jest.fn(),
@@ -50,6 +53,8 @@ describe('GetPhotoDetailHandler', () => {
       sumAllFileSize: jest.fn(),
       countByIds: jest.fn(),
       findSimilar: jest.fn(),
+      findDetectionById: jest.fn(),
+      findSimilarByDetection: jest.fn(),
       countByIdsAndEvent: jest.fn(),
       getReviewQueue: jest.fn(),
       getReviewQueueByEventIds: jest.fn(),
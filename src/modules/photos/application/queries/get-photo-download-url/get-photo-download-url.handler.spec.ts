@@ -45,6 +45,8 @@ describe('GetPhotoDownloadUrlHandler', () => {
       getPhotoDetailBySlug: jest.fn(),
       getPhotoViewBySlug: jest.fn(),
       searchPhotos: jest.fn(),
+      findSearchHits: jest.fn(),
+      getPhotoListByIds: jest.fn(),
       getTotalFileSizeByEvent: jest.fn(),
       getTotalFileSizesByEventIds: jest.fn(),
       getClassifiedCountByEvent: jest.fn(),
@@ -55,6 +57,8 @@ describe('GetPhotoDownloadUrlHandler', () => {
       sumAllFileSize: jest.fn(),
       countByIds: jest.fn(),
       findSimilar: jest.fn(),
+      findDetectionById: jest.fn(),
+      findSimilarByDetection: jest.fn(),
       countByIdsAndEvent: jest.fn(),
       getReviewQueue: jest.fn(),
       getReviewQueueByEventIds: jest.fn(),
@@ -66,6 +70,11 @@ describe('GetPhotoDownloadUrlHandler', () => {
       getPresignedDownloadUrl: jest.fn(),
       getPublicUrl: jest.fn(),
       delete: jest.fn(),
+      createMultipartUpload: jest.fn(),
+      getPresignedPartUrl: jest.fn(),
+      listUploadedParts: jest.fn(),
+      completeMultipartUpload: jest.fn(),
+      abortMultipartUpload: jest.fn(),
     } as jest.Mocked<IStorageAdapter>
 
     handler = new GetPhotoDownloadUrlHandler(photoReadRepo, storageAdapter)
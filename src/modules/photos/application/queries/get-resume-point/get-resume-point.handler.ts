@@ -1,13 +1,28 @@
 import { Inject } from '@nestjs/common'
 import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
-import { type IPhotoReadRepository, PHOTO_READ_REPOSITORY } from '@photos/domain/ports'
+import type { ResumePointProjection } from '@photos/application/projections'
+import {
+  type IPhotoReadRepository,
+  type IUploadSessionReadRepository,
+  PHOTO_READ_REPOSITORY,
+  UPLOAD_SESSION_READ_REPOSITORY,
+} from '@photos/domain/ports'
 import { GetResumePointQuery } from './get-resume-point.query'
 
 @QueryHandler(GetResumePointQuery)
 export class GetResumePointHandler implements IQueryHandler<GetResumePointQuery> {
-  constructor(@Inject(PHOTO_READ_REPOSITORY) private readonly readRepo: IPhotoReadRepository) {}
+  constructor(
+    @Inject(PHOTO_READ_REPOSITORY) private readonly readRepo: IPhotoReadRepository,
+    @Inject(UPLOAD_SESSION_READ_REPOSITORY)
+    private readonly sessionReadRepo: IUploadSessionReadRepository,
+  ) {}
 
-  async execute(query: GetResumePointQuery): Promise<{ photoId: string | null; page: number }> {
-    return this.readRepo.getResumePoint(query.eventId, query.limit)
+  /** Adds the event's open upload session, since photos past the resume point may still arrive. */
+  async execute(query: GetResumePointQuery): Promise<ResumePointProjection> {
+    const [resumePoint, uploadSession] = await Promise.all([
+      this.readRepo.getResumePoint(query.eventId, query.limit),
+      this.sessionReadRepo.getOpenSessionProgress(query.eventId),
+    ])
+    return { ...resumePoint, uploadSession }
   }
 }
@@ -0,0 +1,27 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import type { RetouchRevisionProjection } from '@photos/application/projections'
+import {
+  type IPhotoReadRepository,
+  type IRetouchRevisionRepository,
+  PHOTO_READ_REPOSITORY,
+  RETOUCH_REVISION_REPOSITORY,
+} from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { GetRetouchRevisionsQuery } from './get-retouch-revisions.query'
+
+@QueryHandler(GetRetouchRevisionsQuery)
+export class GetRetouchRevisionsHandler implements IQueryHandler<GetRetouchRevisionsQuery> {
+  constructor(
+    @Inject(PHOTO_READ_REPOSITORY) private readonly photoReadRepo: IPhotoReadRepository,
+    @Inject(RETOUCH_REVISION_REPOSITORY) private readonly revisionRepo: IRetouchRevisionRepository,
+  ) {}
+
+  /** Lists every retouched file uploaded for the photo, newest first. */
+  async execute(query: GetRetouchRevisionsQuery): Promise<RetouchRevisionProjection[]> {
+    const photo = await this.photoReadRepo.findById(query.photoId)
+    if (!photo) throw AppException.notFound('Photo', query.photoId)
+
+    return this.revisionRepo.listByPhoto(query.photoId)
+  }
+}
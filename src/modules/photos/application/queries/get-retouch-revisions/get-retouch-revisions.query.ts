@@ -0,0 +1,3 @@
+export class GetRetouchRevisionsQuery {
+  constructor(public readonly photoId: string) {}
+}
@@ -1,7 +1,8 @@
 import { ApiPropertyOptional } from '@nestjs/swagger'
 import { REVIEW_QUEUE_STATUS_FILTERS, type ReviewQueueStatusFilter } from '@photos/domain/ports'
 import { PaginationQueryDto } from '@shared/application'
-import { IsIn, IsOptional } from 'class-validator'
+import { Transform } from 'class-transformer'
+import { IsBoolean, IsIn, IsOptional } from 'class-validator'
 
 export class GetReviewQueueDto extends PaginationQueryDto {
   @ApiPropertyOptional({
@@ -11,4 +12,22 @@ export class GetReviewQueueDto extends PaginationQueryDto {
   @IsOptional()
   @IsIn(REVIEW_QUEUE_STATUS_FILTERS)
   status?: ReviewQueueStatusFilter
+
+  @ApiPropertyOptional({
+    description: 'Only photos with a bib reading the timing data contradicts',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  timingFlagged?: boolean
+
+  @ApiPropertyOptional({
+    description: 'Only photos with bibs suggested from other frames of their burst',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  suggested?: boolean
 }
@@ -33,6 +33,8 @@ describe('GetReviewQueueHandler', () => {
     expect(readRepo.getReviewQueue).toHaveBeenCalledWith({
       eventSlug: 'e-1',
       status: 'pending',
+      timingFlagged: false,
+      suggested: false,
       limit: 50,
       offset: 0,
     })
@@ -58,6 +60,9 @@ describe('GetReviewQueueHandler', () => {
           minBibConfidence: 0.5,
           bibsCount: 1,
           colorsCount: 0,
+          implausibleBibs: ['142'],
+          suggestedBibs: [],
+          burstId: null,
         },
         {
           id: 'p-2',
@@ -68,6 +73,9 @@ describe('GetReviewQueueHandler', () => {
           minBibConfidence: null,
           bibsCount: 0,
           colorsCount: 0,
+          implausibleBibs: [],
+          suggestedBibs: [],
+          burstId: null,
         },
       ],
       total: 2,
@@ -92,6 +100,66 @@ describe('GetReviewQueueHandler', () => {
     expect(readRepo.getReviewQueue).toHaveBeenCalledWith(expect.objectContaining({ status: 'all' }))
   })
 
+  it('passes the timing flag filter and returns the implausible bibs', async () => {
+    readRepo.getReviewQueue.mockResolvedValue({
+      items: [
+        {
+          id: 'p-1',
+          publicSlug: 's-1',
+          filename: 'a.jpg',
+          status: 'processed' as PhotoStatus,
+          reviewedAt: null,
+          minBibConfidence: 0.91,
+          bibsCount: 2,
+          colorsCount: 0,
+          implausibleBibs: ['171'],
+          suggestedBibs: [],
+          burstId: null,
+        },
+      ],
+      total: 1,
+    })
+
+    const result = await handler.execute(
+      new GetReviewQueueQuery('e-1', new Pagination(1, 50), 'pending', true),
+    )
+
+    expect(readRepo.getReviewQueue).toHaveBeenCalledWith(
+      expect.objectContaining({ timingFlagged: true }),
+    )
+    expect(result.items[0].implausibleBibs).toEqual(['171'])
+  })
+
+  it('passes the suggestion filter and returns the suggested bibs with the burst', async () => {
+    readRepo.getReviewQueue.mockResolvedValue({
+      items: [
+        {
+          id: 'p-2',
+          publicSlug: 's-2',
+          filename: 'b.jpg',
+          status: 'processed' as PhotoStatus,
+          reviewedAt: null,
+          minBibConfidence: 0.86,
+          bibsCount: 1,
+          colorsCount: 0,
+          implausibleBibs: [],
+          suggestedBibs: ['142'],
+          burstId: 'p-1',
+        },
+      ],
+      total: 1,
+    })
+
+    const result = await handler.execute(
+      new GetReviewQueueQuery('e-1', new Pagination(1, 50), 'pending', false, true),
+    )
+
+    expect(readRepo.getReviewQueue).toHaveBeenCalledWith(
+      expect.objectContaining({ suggested: true }),
+    )
+    expect(result.items[0]).toMatchObject({ suggestedBibs: ['142'], burstId: 'p-1' })
+  })
+
   it('passes through status="reviewed" when explicitly set', async () => {
     readRepo.getReviewQueue.mockResolvedValue({ items: [], total: 0 })
     await handler.execute(new GetReviewQueueQuery('e-1', new Pagination(1, 50), 'reviewed'))
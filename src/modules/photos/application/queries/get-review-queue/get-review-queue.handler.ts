@@ -17,6 +17,8 @@ export class GetReviewQueueHandler implements IQueryHandler<GetReviewQueueQuery>
     const { items, total } = await this.readRepo.getReviewQueue({
       eventSlug: query.eventSlug,
       status: query.status,
+      timingFlagged: query.timingFlagged,
+      suggested: query.suggested,
       limit: query.pagination.take,
       offset: query.pagination.skip,
     })
@@ -31,6 +33,9 @@ export class GetReviewQueueHandler implements IQueryHandler<GetReviewQueueQuery>
       minBibConfidence: item.minBibConfidence,
       bibsCount: item.bibsCount,
       colorsCount: item.colorsCount,
+      implausibleBibs: item.implausibleBibs,
+      suggestedBibs: item.suggestedBibs,
+      burstId: item.burstId,
     }))
 
     return new PaginatedResult(mapped, total, query.pagination)
@@ -6,5 +6,7 @@ export class GetReviewQueueQuery {
     public readonly eventSlug: string,
     public readonly pagination: Pagination,
     public readonly status: ReviewQueueStatusFilter,
+    public readonly timingFlagged = false,
+    public readonly suggested = false,
   ) {}
 }
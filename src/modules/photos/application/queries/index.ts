@@ -1,11 +1,16 @@
 export { FindSimilarPhotosQuery } from './find-similar-photos/find-similar-photos.query'
+export { GetEventCamerasQuery } from './get-event-cameras/get-event-cameras.query'
+export { GetMissingUploadItemsQuery } from './get-missing-upload-items/get-missing-upload-items.query'
 export { GetPendingRetouchQuery } from './get-pending-retouch/get-pending-retouch.query'
 export { GetPhotoDetailQuery } from './get-photo-detail/get-photo-detail.query'
 export { GetPhotoDetailBySlugQuery } from './get-photo-detail-by-slug/get-photo-detail-by-slug.query'
 export { GetPhotoDownloadUrlQuery } from './get-photo-download-url/get-photo-download-url.query'
 export { GetPhotosListDto } from './get-photos-list/get-photos-list.dto'
 export { GetPhotosListQuery } from './get-photos-list/get-photos-list.query'
+export { GetRetouchRevisionsQuery } from './get-retouch-revisions/get-retouch-revisions.query'
 export { GetReviewQueueDto } from './get-review-queue/get-review-queue.dto'
 export { GetReviewQueueQuery } from './get-review-queue/get-review-queue.query'
 export { SearchPhotosDto } from './search-photos/search-photos.dto'
 export { type SearchPhotosFilters, SearchPhotosQuery } from './search-photos/search-photos.query'
+export { SearchPhotosRankedDto } from './search-photos-ranked/search-photos-ranked.dto'
+export { SearchPhotosRankedQuery } from './search-photos-ranked/search-photos-ranked.query'
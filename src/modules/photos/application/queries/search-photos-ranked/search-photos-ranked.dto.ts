@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { IsOptional, IsString, MaxLength } from 'class-validator'
+import { SearchPhotosDto } from '../search-photos/search-photos.dto'
+
+export class SearchPhotosRankedDto extends SearchPhotosDto {
+  @ApiPropertyOptional({
+    description:
+      'Free text read into bibs and colors, in English or Spanish. "14" is an exact bib, "14x" a bib starting with 14; a color takes the region next to it ("red helmet", "casco rojo").',
+    example: 'red helmet blue jersey 14x',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  q?: string
+}
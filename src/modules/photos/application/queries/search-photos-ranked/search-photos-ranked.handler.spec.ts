@@ -0,0 +1,125 @@
+import { Pagination } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { SearchPhotosRankedHandler } from './search-photos-ranked.handler'
+import { SearchPhotosRankedQuery } from './search-photos-ranked.query'
+
+const listItem = (id: string) => ({
+  id,
+  publicSlug: `slug-${id}`,
+  filename: `${id}.jpg`,
+  thumbnailUrl: `https://cdn.test/${id}`,
+  status: 'processed',
+  uploadedAt: new Date('2026-03-14T10:00:00Z'),
+  reviewedAt: null,
+})
+
+describe('SearchPhotosRankedHandler', () => {
+  let handler: SearchPhotosRankedHandler
+  let readRepo: { findSearchHits: jest.Mock; getPhotoListByIds: jest.Mock }
+  let participantReadRepo: { findSummariesByPhotoIds: jest.Mock }
+
+  beforeEach(() => {
+    readRepo = {
+      findSearchHits: jest.fn().mockResolvedValue([]),
+      getPhotoListByIds: jest.fn(async (ids: string[]) => ids.map(listItem)),
+    }
+    participantReadRepo = { findSummariesByPhotoIds: jest.fn().mockResolvedValue(new Map()) }
+    handler = new SearchPhotosRankedHandler(readRepo as never, participantReadRepo as never)
+  })
+
+  it('merges free text with structured filters and ranks the hits', async () => {
+    readRepo.findSearchHits.mockResolvedValueOnce([
+      {
+        termIndex: 0,
+        photoId: 'p-1',
+        value: 'azul',
+        region: 'cyclist_clothes',
+        source: 'ai',
+        confidence: 0.6,
+        corrected: false,
+      },
+      {
+        termIndex: 1,
+        photoId: 'p-2',
+        value: '142',
+        region: null,
+        source: 'ai',
+        confidence: 0.5,
+        corrected: true,
+      },
+    ])
+
+    const result = await handler.execute(
+      new SearchPhotosRankedQuery(
+        '14x',
+        { eventId: 'e-1', clothingColor: 'Blue' },
+        new Pagination(1, 20),
+      ),
+    )
+
+    expect(readRepo.findSearchHits).toHaveBeenCalledWith(
+      [
+        { kind: 'color', color: 'azul', region: 'cyclist_clothes' },
+        { kind: 'bib', digits: '14', match: 'starts' },
+      ],
+      expect.objectContaining({ eventId: 'e-1' }),
+    )
+    expect(result.total).toBe(2)
+    expect(result.items.map((i) => i.id)).toEqual(['p-2', 'p-1'])
+    expect(result.items[0]).toMatchObject({
+      score: 1.5,
+      participants: [],
+      matchedAttributes: [
+        {
+          kind: 'bib',
+          requested: '14',
+          value: '142',
+          region: null,
+          source: 'reviewer',
+          confidence: 0.5,
+          weight: 1.5,
+        },
+      ],
+    })
+  })
+
+  it('loads only the requested page', async () => {
+    readRepo.findSearchHits.mockResolvedValueOnce(
+      ['p-1', 'p-2', 'p-3'].map((photoId, i) => ({
+        termIndex: 0,
+        photoId,
+        value: '14',
+        region: null,
+        source: 'ai',
+        confidence: 0.9 - i / 10,
+        corrected: false,
+      })),
+    )
+
+    const result = await handler.execute(
+      new SearchPhotosRankedQuery('14', { eventId: 'e-1' }, new Pagination(2, 2)),
+    )
+
+    expect(readRepo.getPhotoListByIds).toHaveBeenCalledWith(['p-3'])
+    expect(result.total).toBe(3)
+  })
+
+  it('rejects a search with nothing to rank by', async () => {
+    const error = await handler
+      .execute(new SearchPhotosRankedQuery('the and', { eventId: 'e-1' }, new Pagination(1, 20)))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AppException)
+    expect(error.messageKey).toBe('photo.search_terms_required')
+    expect(readRepo.findSearchHits).not.toHaveBeenCalled()
+  })
+
+  it('rejects a search without an event', async () => {
+    const error = await handler
+      .execute(new SearchPhotosRankedQuery('14', {}, new Pagination(1, 20)))
+      .catch((e) => e)
+
+    expect(error.messageKey).toBe('photo.search_event_required')
+    expect(readRepo.findSearchHits).not.toHaveBeenCalled()
+  })
+})
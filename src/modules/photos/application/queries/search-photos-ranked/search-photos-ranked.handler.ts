@@ -0,0 +1,93 @@
+import type { ColorRegion } from '@generated/prisma/client'
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
+import type { RankedPhotoSearchResultProjection } from '@photos/application/projections'
+import { type IPhotoReadRepository, PHOTO_READ_REPOSITORY } from '@photos/domain/ports'
+import { PhotoSearch, type SearchTerm } from '@photos/domain/services/photo-search.service'
+import { PaginatedResult } from '@shared/application'
+import { AppException } from '@shared/domain'
+import type { SearchPhotosFilters } from '../search-photos/search-photos.query'
+import { SearchPhotosRankedQuery } from './search-photos-ranked.query'
+
+@QueryHandler(SearchPhotosRankedQuery)
+export class SearchPhotosRankedHandler implements IQueryHandler<SearchPhotosRankedQuery> {
+  constructor(
+    @Inject(PHOTO_READ_REPOSITORY) private readonly readRepo: IPhotoReadRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
+  ) {}
+
+  /**
+   * Ranks photos by the requested bibs and colors they carry instead of requiring all of
+   * them. Event, status and dates still narrow the search as hard filters. Every matching
+   * row is ranked in memory, so the search is bounded to one event.
+   */
+  async execute(
+    query: SearchPhotosRankedQuery,
+  ): Promise<PaginatedResult<RankedPhotoSearchResultProjection>> {
+    if (!query.filters.eventId) throw AppException.businessRule('photo.search_event_required')
+
+    const parsed = query.text ? PhotoSearch.parse(query.text).terms : []
+    const terms = PhotoSearch.dedupe([...structuredTerms(query.filters), ...parsed])
+    if (terms.length === 0) throw AppException.businessRule('photo.search_terms_required')
+
+    const hits = await this.readRepo.findSearchHits(terms, query.filters)
+    const ranked = PhotoSearch.rank(terms, hits)
+    const { skip, take } = query.pagination
+    const page = ranked.slice(skip, skip + take)
+
+    const photoIds = page.map((r) => r.photoId)
+    const [photos, participants] = await Promise.all([
+      this.readRepo.getPhotoListByIds(photoIds),
+      this.participantReadRepo.findSummariesByPhotoIds(photoIds),
+    ])
+    const photoById = new Map(photos.map((p) => [p.id, p]))
+
+    const items = page.flatMap((result) => {
+      const photo = photoById.get(result.photoId)
+      if (!photo) return []
+      return [
+        {
+          ...photo,
+          participants: participants.get(photo.id) ?? [],
+          score: result.score,
+          matchedAttributes: result.matches.map(({ term, hit, weight }) => ({
+            kind: term.kind,
+            requested: term.kind === 'bib' ? term.digits : term.color,
+            value: hit.value,
+            region: hit.region,
+            source: hit.corrected ? 'reviewer' : hit.source,
+            confidence: hit.confidence,
+            weight,
+          })),
+        },
+      ]
+    })
+
+    return new PaginatedResult(items, ranked.length, query.pagination)
+  }
+}
+
+/** Terms from the structured bib and color filters, each color list split on commas. */
+function structuredTerms(filters: SearchPhotosFilters): SearchTerm[] {
+  const terms: SearchTerm[] = []
+  if (filters.plateNumber) {
+    terms.push({ kind: 'bib', digits: filters.plateNumber, match: filters.bibMatch ?? 'exact' })
+  }
+  const colors: Array<[string | undefined, ColorRegion]> = [
+    [filters.helmetColor, 'helmet'],
+    [filters.clothingColor, 'cyclist_clothes'],
+    [filters.bikeColor, 'bicycle'],
+  ]
+  for (const [list, region] of colors) {
+    for (const name of list?.split(',') ?? []) {
+      if (name.trim())
+        terms.push({ kind: 'color', color: PhotoSearch.canonicalColor(name), region })
+    }
+  }
+  return terms
+}
@@ -0,0 +1,11 @@
+import type { Pagination } from '@shared/application'
+import type { SearchPhotosFilters } from '../search-photos/search-photos.query'
+
+export class SearchPhotosRankedQuery {
+  constructor(
+    /** Free text parsed into bib and color terms, added to the structured ones in `filters`. */
+    public readonly text: string | undefined,
+    public readonly filters: SearchPhotosFilters,
+    public readonly pagination: Pagination,
+  ) {}
+}
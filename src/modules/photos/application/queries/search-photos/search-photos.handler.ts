@@ -1,16 +1,32 @@
 import { Inject } from '@nestjs/common'
 import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
-import { PhotoListProjection } from '@photos/application/projections'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
+import type { PhotoSearchResultProjection } from '@photos/application/projections'
 import { type IPhotoReadRepository, PHOTO_READ_REPOSITORY } from '@photos/domain/ports'
-import type { PaginatedResult } from '@shared/application'
+import { PaginatedResult } from '@shared/application'
 import { SearchPhotosQuery } from './search-photos.query'
 
 @QueryHandler(SearchPhotosQuery)
 export class SearchPhotosHandler implements IQueryHandler<SearchPhotosQuery> {
-  constructor(@Inject(PHOTO_READ_REPOSITORY) private readonly readRepo: IPhotoReadRepository) {}
+  constructor(
+    @Inject(PHOTO_READ_REPOSITORY) private readonly readRepo: IPhotoReadRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
+  ) {}
 
-  /** Searches photos across events with multi-criteria filtering. */
-  async execute(query: SearchPhotosQuery): Promise<PaginatedResult<PhotoListProjection>> {
-    return this.readRepo.searchPhotos(query.filters, query.pagination)
+  /** Searches photos across events and attaches the participants of their confirmed bibs. */
+  async execute(query: SearchPhotosQuery): Promise<PaginatedResult<PhotoSearchResultProjection>> {
+    const result = await this.readRepo.searchPhotos(query.filters, query.pagination)
+    const participants = await this.participantReadRepo.findSummariesByPhotoIds(
+      result.items.map((photo) => photo.id),
+    )
+    return new PaginatedResult(
+      result.items.map((photo) => ({ ...photo, participants: participants.get(photo.id) ?? [] })),
+      result.total,
+      result.pagination,
+    )
   }
 }
@@ -0,0 +1,123 @@
+import { Photo, RetouchRevision } from '@photos/domain/entities'
+import type { IRetouchRevisionRepository } from '@photos/domain/ports'
+import type { IKvStorageAdapter } from '@shared/cloudflare/domain/ports'
+import { RetouchRevisionActivator } from './retouch-revision-activator.service'
+
+const photo = () =>
+  Photo.fromPersistence({
+    id: 'photo-1',
+    eventId: 'event-1',
+    filename: 'a.jpg',
+    storageKey: 'events/event-1/photos/a.jpg',
+    fileSize: 2048n,
+    mimeType: 'image/jpeg',
+    width: 1920,
+    height: 1080,
+    status: 'processed',
+    capturedAt: null,
+    uploadedAt: new Date(),
+    processedAt: new Date(),
+    reviewedAt: null,
+    publicSlug: 'slug',
+    retouchedStorageKey: 'events/event-1/retouched/v1.jpg',
+    retouchedPublicSlug: 'slug-v1',
+    retouchedFileSize: 3000n,
+    retouchedAt: new Date(),
+  })
+
+const revision = (n: number, overrides: Partial<RetouchRevision> = {}) =>
+  RetouchRevision.fromPersistence({
+    id: `rev-${n}`,
+    photoId: 'photo-1',
+    revision: n,
+    storageKey: `events/event-1/retouched/v${n}.jpg`,
+    publicSlug: `slug-v${n}`,
+    fileSize: BigInt(3000 + n),
+    note: null,
+    createdById: `operator-${n}`,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    supersededAt: null,
+    purgedAt: null,
+    ...overrides,
+  })
+
+describe('RetouchRevisionActivator', () => {
+  let revisionRepo: jest.Mocked<IRetouchRevisionRepository>
+  let kv: jest.Mocked<IKvStorageAdapter>
+  let queue: { add: jest.Mock }
+  let activator: RetouchRevisionActivator
+
+  beforeEach(() => {
+    revisionRepo = {
+      findActiveByPhoto: jest.fn().mockResolvedValue(null),
+      activate: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IRetouchRevisionRepository>
+    kv = {
+      write: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IKvStorageAdapter>
+    queue = { add: jest.fn().mockResolvedValue(undefined) }
+    activator = new RetouchRevisionActivator(
+      revisionRepo,
+      kv,
+      queue as never,
+      {
+        get: () => 30,
+      } as never,
+    )
+  })
+
+  it('supersedes the active revision, keeps its file and schedules its purge', async () => {
+    const current = revision(1)
+    const next = revision(2)
+    const target = photo()
+    revisionRepo.findActiveByPhoto.mockResolvedValue(current)
+
+    await activator.activate(target, next)
+
+    expect(current.supersededAt).toBeInstanceOf(Date)
+    expect(revisionRepo.activate).toHaveBeenCalledWith(target, next, current)
+    expect(target.retouchedStorageKey).toBe(next.storageKey)
+    expect(target.retouchedPublicSlug).toBe('slug-v2')
+    expect(target.retouchedById).toBe('operator-2')
+    expect(kv.delete).toHaveBeenCalledWith('slug-v1')
+    expect(kv.write).toHaveBeenCalledWith('slug-v2', next.storageKey)
+    expect(queue.add).toHaveBeenCalledWith(
+      'purge-retouch-revision',
+      { revisionId: 'rev-1' },
+      expect.objectContaining({ delay: 30 * 24 * 60 * 60 * 1000 }),
+    )
+  })
+
+  it('rolls back to a superseded revision', async () => {
+    const current = revision(2)
+    const earlier = revision(1, { supersededAt: new Date('2026-10-02T00:00:00Z') })
+    revisionRepo.findActiveByPhoto.mockResolvedValue(current)
+
+    await activator.activate(photo(), earlier)
+
+    expect(earlier.isActive).toBe(true)
+    expect(current.isActive).toBe(false)
+    expect(revisionRepo.activate).toHaveBeenCalledWith(expect.any(Photo), earlier, current)
+  })
+
+  it('does nothing when the revision is already active', async () => {
+    const current = revision(1)
+    revisionRepo.findActiveByPhoto.mockResolvedValue(current)
+
+    await activator.activate(photo(), current)
+
+    expect(revisionRepo.activate).not.toHaveBeenCalled()
+    expect(queue.add).not.toHaveBeenCalled()
+  })
+
+  it('refuses a purged revision', async () => {
+    revisionRepo.findActiveByPhoto.mockResolvedValue(revision(2))
+    const purged = revision(1, { supersededAt: new Date(), purgedAt: new Date() })
+
+    await expect(activator.activate(photo(), purged)).rejects.toMatchObject({
+      messageKey: 'photo.retouch_revision_purged',
+    })
+    expect(revisionRepo.activate).not.toHaveBeenCalled()
+  })
+})
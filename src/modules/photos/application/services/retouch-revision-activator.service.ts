@@ -0,0 +1,69 @@
+import { InjectQueue } from '@nestjs/bullmq'
+import { Inject, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import type { Photo, RetouchRevision } from '@photos/domain/entities'
+import { type IRetouchRevisionRepository, RETOUCH_REVISION_REPOSITORY } from '@photos/domain/ports'
+import { type IKvStorageAdapter, KV_STORAGE_ADAPTER } from '@shared/cloudflare/domain/ports'
+import type { Queue } from 'bullmq'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Switches which retouched file of a photo is served. Used both for a fresh upload and for
+ * rolling back to an earlier revision.
+ */
+@Injectable()
+export class RetouchRevisionActivator {
+  private readonly logger = new Logger(RetouchRevisionActivator.name)
+  private readonly retentionDays: number
+
+  constructor(
+    @Inject(RETOUCH_REVISION_REPOSITORY) private readonly revisionRepo: IRetouchRevisionRepository,
+    @Inject(KV_STORAGE_ADAPTER) private readonly kv: IKvStorageAdapter,
+    @InjectQueue('retouch-retention') private readonly retentionQueue: Queue,
+    config: ConfigService,
+  ) {
+    this.retentionDays = config.get<number>('retouch.revisionRetentionDays', 30)
+  }
+
+  /**
+   * Makes the revision the photo's retouched file. The revision it replaces keeps its file
+   * until the retention window runs out, so it can still be rolled back to; its purge is
+   * scheduled here. Only the active revision's slug resolves in KV.
+   */
+  async activate(photo: Photo, revision: RetouchRevision): Promise<void> {
+    const current = await this.revisionRepo.findActiveByPhoto(photo.id)
+    if (current?.id === revision.id) return
+
+    current?.supersede()
+    revision.activate()
+    photo.setRetouched(
+      revision.storageKey,
+      revision.publicSlug,
+      revision.fileSize,
+      revision.createdById,
+    )
+    await this.revisionRepo.activate(photo, revision, current)
+
+    if (current) {
+      this.kv.delete(current.publicSlug).catch((error) => {
+        this.logger.warn(`Failed to delete old retouched KV slug: ${current.publicSlug}`, error)
+      })
+    }
+    this.kv.write(revision.publicSlug, revision.storageKey).catch((err: unknown) => {
+      this.logger.error(`Failed to register retouched KV slug: ${revision.publicSlug}`, err)
+    })
+
+    if (current) {
+      await this.retentionQueue.add(
+        'purge-retouch-revision',
+        { revisionId: current.id },
+        {
+          delay: this.retentionDays * DAY_MS,
+          attempts: 3,
+          backoff: { type: 'exponential', delay: 60_000 },
+        },
+      )
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { AppException } from '@shared/domain'
+
+/** A camera clock more than a week off is a typo, not drift or a missed time zone change. */
+export const MAX_CLOCK_OFFSET_SECONDS = 7 * 24 * 60 * 60
+
+export class CameraClockOffset {
+  constructor(
+    public readonly id: string,
+    public readonly eventId: string,
+    public readonly cameraBody: string,
+    public offsetSeconds: number,
+    public updatedAt: Date,
+    public updatedById: string | null,
+  ) {}
+
+  /**
+   * Factory method for a new clock offset.
+   * A positive offset moves the camera's timestamps forward.
+   */
+  static create(data: {
+    eventId: string
+    cameraBody: string
+    offsetSeconds: number
+    updatedById?: string | null
+  }): CameraClockOffset {
+    CameraClockOffset.validateOffset(data.offsetSeconds)
+    return new CameraClockOffset(
+      crypto.randomUUID(),
+      data.eventId,
+      data.cameraBody,
+      data.offsetSeconds,
+      new Date(),
+      data.updatedById ?? null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    eventId: string
+    cameraBody: string
+    offsetSeconds: number
+    updatedAt: Date
+    updatedById: string | null
+  }): CameraClockOffset {
+    return new CameraClockOffset(
+      data.id,
+      data.eventId,
+      data.cameraBody,
+      data.offsetSeconds,
+      data.updatedAt,
+      data.updatedById,
+    )
+  }
+
+  changeOffset(offsetSeconds: number, updatedById: string | null): void {
+    CameraClockOffset.validateOffset(offsetSeconds)
+    this.offsetSeconds = offsetSeconds
+    this.updatedById = updatedById
+    this.updatedAt = new Date()
+  }
+
+  private static validateOffset(offsetSeconds: number): void {
+    if (!Number.isInteger(offsetSeconds) || Math.abs(offsetSeconds) > MAX_CLOCK_OFFSET_SECONDS) {
+      throw AppException.businessRule('photo.invalid_clock_offset')
+    }
+  }
+}
@@ -1 +1,7 @@
+export { CameraClockOffset, MAX_CLOCK_OFFSET_SECONDS } from './camera-clock-offset.entity'
 export { Photo } from './photo.entity'
+export { PhotoExif } from './photo-exif.entity'
+export { RetouchRevision } from './retouch-revision.entity'
+export { MAX_REVIEW_SESSION_PHOTOS, ReviewSession } from './review-session.entity'
+export { UPLOAD_PART_SIZE_BYTES, UploadSession } from './upload-session.entity'
+export { UploadSessionItem } from './upload-session-item.entity'
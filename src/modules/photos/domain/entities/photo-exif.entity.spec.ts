@@ -0,0 +1,37 @@
+import { PhotoExif } from './photo-exif.entity'
+
+describe('PhotoExif.cameraBodyOf', () => {
+  it('does not repeat a make the model already starts with', () => {
+    expect(PhotoExif.cameraBodyOf('Canon', 'Canon EOS R6', '0320')).toBe('Canon EOS R6 #0320')
+  })
+
+  it('prefixes the make when the model lacks it', () => {
+    expect(PhotoExif.cameraBodyOf('SONY', 'ILCE-7M4', null)).toBe('SONY ILCE-7M4')
+  })
+
+  it('returns null without a model', () => {
+    expect(PhotoExif.cameraBodyOf('Canon', null, '0320')).toBeNull()
+  })
+})
+
+describe('PhotoExif.capturedAt', () => {
+  const exif = PhotoExif.fromPersistence({
+    photoId: 'photo-1',
+    eventId: 'event-1',
+    cameraMake: 'Canon',
+    cameraModel: 'Canon EOS R6',
+    cameraSerial: null,
+    cameraBody: 'Canon EOS R6',
+    lensModel: null,
+    orientation: null,
+    gpsLatitude: null,
+    gpsLongitude: null,
+    gpsAltitude: null,
+    originalCapturedAt: new Date('2026-03-14T08:30:00.000Z'),
+    extractedAt: new Date(),
+  })
+
+  it('applies the offset to the original camera time', () => {
+    expect(exif.capturedAt(90)).toEqual(new Date('2026-03-14T08:31:30.000Z'))
+  })
+})
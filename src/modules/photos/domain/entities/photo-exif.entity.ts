@@ -0,0 +1,100 @@
+import type { PhotoMetadata } from '../ports/photo-metadata-reader.port'
+
+export class PhotoExif {
+  constructor(
+    public readonly photoId: string,
+    public readonly eventId: string,
+    public readonly cameraMake: string | null,
+    public readonly cameraModel: string | null,
+    public readonly cameraSerial: string | null,
+    public readonly cameraBody: string | null,
+    public readonly lensModel: string | null,
+    public readonly orientation: number | null,
+    public readonly gpsLatitude: number | null,
+    public readonly gpsLongitude: number | null,
+    public readonly gpsAltitude: number | null,
+    public readonly originalCapturedAt: Date | null,
+    public readonly extractedAt: Date,
+  ) {}
+
+  /**
+   * Factory method for the EXIF read from a photo's original.
+   * The camera body is derived so clock offsets can be keyed on it.
+   */
+  static create(data: { photoId: string; eventId: string; metadata: PhotoMetadata }): PhotoExif {
+    const m = data.metadata
+    return new PhotoExif(
+      data.photoId,
+      data.eventId,
+      m.cameraMake,
+      m.cameraModel,
+      m.cameraSerial,
+      PhotoExif.cameraBodyOf(m.cameraMake, m.cameraModel, m.cameraSerial),
+      m.lensModel,
+      m.orientation,
+      m.gpsLatitude,
+      m.gpsLongitude,
+      m.gpsAltitude,
+      m.capturedAt,
+      new Date(),
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    photoId: string
+    eventId: string
+    cameraMake: string | null
+    cameraModel: string | null
+    cameraSerial: string | null
+    cameraBody: string | null
+    lensModel: string | null
+    orientation: number | null
+    gpsLatitude: number | null
+    gpsLongitude: number | null
+    gpsAltitude: number | null
+    originalCapturedAt: Date | null
+    extractedAt: Date
+  }): PhotoExif {
+    return new PhotoExif(
+      data.photoId,
+      data.eventId,
+      data.cameraMake,
+      data.cameraModel,
+      data.cameraSerial,
+      data.cameraBody,
+      data.lensModel,
+      data.orientation,
+      data.gpsLatitude,
+      data.gpsLongitude,
+      data.gpsAltitude,
+      data.originalCapturedAt,
+      data.extractedAt,
+    )
+  }
+
+  /**
+   * Identifies one physical camera as "Make Model #serial". Without a serial, two bodies of
+   * the same model share a key, which is the best EXIF allows. Null when the model is unknown.
+   */
+  static cameraBodyOf(
+    make: string | null,
+    model: string | null,
+    serial: string | null,
+  ): string | null {
+    if (!model) return null
+    // Most vendors already repeat the make in the model ("Canon EOS R6").
+    const name =
+      make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model
+    return serial ? `${name} #${serial}` : name
+  }
+
+  /** Capture time with the camera's clock offset applied; null when the camera recorded none. */
+  capturedAt(offsetSeconds: number): Date | null {
+    if (!this.originalCapturedAt) return null
+    return new Date(this.originalCapturedAt.getTime() + offsetSeconds * 1000)
+  }
+}
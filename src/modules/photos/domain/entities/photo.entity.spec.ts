@@ -119,11 +119,12 @@ describe('Photo Entity', () => {
   })
 
   describe('markReviewed', () => {
-    it('should set status to reviewed and reviewedAt', () => {
+    it('should set status to reviewed, reviewedAt and the reviewer', () => {
       const photo = Photo.create(validData)
-      photo.markReviewed()
+      photo.markReviewed('reviewer-1')
       expect(photo.status).toBe('reviewed')
       expect(photo.reviewedAt).toBeInstanceOf(Date)
+      expect(photo.reviewedById).toBe('reviewer-1')
     })
   })
 
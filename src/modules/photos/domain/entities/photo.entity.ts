@@ -30,12 +30,14 @@ export class Photo {
     public readonly uploadedAt: Date,
     public processedAt: Date | null,
     public reviewedAt: Date | null,
+    public reviewedById: string | null,
     public retouchedStorageKey: string | null,
     public retouchedPublicSlug: string | null,
     public retouchedFileSize: bigint | null,
     public retouchedAt: Date | null,
     public retouchedById: string | null,
     public photoCategoryId: number | null,
+    public checkpointId: string | null = null,
   ) {}
 
   static create(data: {
@@ -48,6 +50,7 @@ export class Photo {
     height?: number | null
     capturedAt?: Date | null
     photoCategoryId?: number | null
+    checkpointId?: string | null
   }): Photo {
     Photo.validateFilename(data.filename)
     Photo.validateMimeType(data.mimeType)
@@ -73,7 +76,9 @@ export class Photo {
       null,
       null,
       null,
+      null,
       data.photoCategoryId ?? null,
+      data.checkpointId ?? null,
     )
   }
 
@@ -93,16 +98,18 @@ export class Photo {
     this.processedAt = new Date()
   }
 
-  markReviewed(): void {
+  /** Records who reviewed the photo last; payroll counts each photo for that reviewer. */
+  markReviewed(reviewerId: string | null): void {
     this.status = PhotoStatus.REVIEWED
     this.reviewedAt = new Date()
+    this.reviewedById = reviewerId
   }
 
   setRetouched(
     storageKey: string,
     publicSlug: string,
     fileSize: bigint,
-    retouchedById: string,
+    retouchedById: string | null,
   ): void {
     this.retouchedStorageKey = storageKey
     this.retouchedPublicSlug = publicSlug
@@ -152,12 +159,14 @@ export class Photo {
     uploadedAt: Date
     processedAt: Date | null
     reviewedAt: Date | null
+    reviewedById?: string | null
     retouchedStorageKey: string | null
     retouchedPublicSlug: string | null
     retouchedFileSize: bigint | null
     retouchedAt: Date | null
     retouchedById?: string | null
     photoCategoryId?: number | null
+    checkpointId?: string | null
   }): Photo {
     return new Photo(
       data.id,
@@ -174,12 +183,14 @@ export class Photo {
       data.uploadedAt,
       data.processedAt,
       data.reviewedAt,
+      data.reviewedById ?? null,
       data.retouchedStorageKey,
       data.retouchedPublicSlug,
       data.retouchedFileSize,
       data.retouchedAt,
       data.retouchedById ?? null,
       data.photoCategoryId ?? null,
+      data.checkpointId ?? null,
     )
   }
 }
@@ -0,0 +1,105 @@
+import { AppException } from '@shared/domain'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * One retouched file uploaded for a photo. At most one revision of a photo is active; the
+ * others were superseded and keep their file until the retention window runs out.
+ */
+export class RetouchRevision {
+  constructor(
+    public readonly id: string,
+    public readonly photoId: string,
+    public readonly revision: number,
+    public readonly storageKey: string,
+    public readonly publicSlug: string,
+    public readonly fileSize: bigint,
+    public readonly note: string | null,
+    public readonly createdById: string | null,
+    public readonly createdAt: Date,
+    public supersededAt: Date | null,
+    public purgedAt: Date | null,
+  ) {}
+
+  /** Factory method for a freshly uploaded revision. It is active until another replaces it. */
+  static create(data: {
+    photoId: string
+    revision: number
+    storageKey: string
+    publicSlug: string
+    fileSize: bigint
+    note?: string | null
+    createdById: string
+  }): RetouchRevision {
+    return new RetouchRevision(
+      crypto.randomUUID(),
+      data.photoId,
+      data.revision,
+      data.storageKey,
+      data.publicSlug,
+      data.fileSize,
+      data.note ?? null,
+      data.createdById,
+      new Date(),
+      null,
+      null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    photoId: string
+    revision: number
+    storageKey: string
+    publicSlug: string
+    fileSize: bigint
+    note: string | null
+    createdById: string | null
+    createdAt: Date
+    supersededAt: Date | null
+    purgedAt: Date | null
+  }): RetouchRevision {
+    return new RetouchRevision(
+      data.id,
+      data.photoId,
+      data.revision,
+      data.storageKey,
+      data.publicSlug,
+      data.fileSize,
+      data.note,
+      data.createdById,
+      data.createdAt,
+      data.supersededAt,
+      data.purgedAt,
+    )
+  }
+
+  get isActive(): boolean {
+    return this.supersededAt === null && this.purgedAt === null
+  }
+
+  /** Makes the revision current again; a purged one has no file left to serve. */
+  activate(): void {
+    if (this.purgedAt) throw AppException.businessRule('photo.retouch_revision_purged')
+    this.supersededAt = null
+  }
+
+  supersede(): void {
+    this.supersededAt ??= new Date()
+  }
+
+  /** Superseded for longer than the retention window, and not purged yet. */
+  isDueForPurge(retentionDays: number, now = new Date()): boolean {
+    if (!this.supersededAt || this.purgedAt) return false
+    return now.getTime() - this.supersededAt.getTime() >= retentionDays * DAY_MS
+  }
+
+  /** Records that the file is gone; the revision stays in the history. */
+  purge(): void {
+    this.purgedAt ??= new Date()
+  }
+}
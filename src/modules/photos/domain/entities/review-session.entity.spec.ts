@@ -0,0 +1,73 @@
+import { AppException } from '@shared/domain'
+import { ReviewSession } from './review-session.entity'
+
+const MINUTE_MS = 60 * 1000
+
+const thrown = (fn: () => void): unknown => {
+  try {
+    fn()
+  } catch (e) {
+    return e
+  }
+  return null
+}
+
+describe('ReviewSession', () => {
+  it('starts open with a lease of the configured length', () => {
+    const session = ReviewSession.create({ eventId: 'e-1', reviewerId: 'r-1', leaseMinutes: 10 })
+    expect(session.closedAt).toBeNull()
+    expect(session.leaseExpiresAt.getTime() - session.createdAt.getTime()).toBe(10 * MINUTE_MS)
+    expect(session.isActive(new Date())).toBe(true)
+  })
+
+  it('is inactive once the lease runs out or it is closed', () => {
+    const session = ReviewSession.create({ eventId: 'e-1', reviewerId: 'r-1', leaseMinutes: 10 })
+    expect(session.isActive(new Date(Date.now() + 11 * MINUTE_MS))).toBe(false)
+
+    session.close()
+    expect(session.isActive(new Date())).toBe(false)
+  })
+
+  it('renews an expired lease from now', () => {
+    const session = ReviewSession.fromPersistence({
+      id: 's-1',
+      eventId: 'e-1',
+      reviewerId: 'r-1',
+      leaseExpiresAt: new Date('2026-01-01T10:00:00Z'),
+      createdAt: new Date('2026-01-01T09:50:00Z'),
+      closedAt: null,
+    })
+    session.renew(10)
+    expect(session.leaseExpiresAt.getTime()).toBeGreaterThan(Date.now() + 9 * MINUTE_MS)
+  })
+
+  it('keeps the first closing time', () => {
+    const session = ReviewSession.create({ eventId: 'e-1', reviewerId: 'r-1', leaseMinutes: 10 })
+    session.close()
+    const closedAt = session.closedAt
+    session.close()
+    expect(session.closedAt).toBe(closedAt)
+  })
+
+  describe('assertUsableBy', () => {
+    it('refuses another reviewer', () => {
+      const session = ReviewSession.create({ eventId: 'e-1', reviewerId: 'r-1', leaseMinutes: 10 })
+      const error = thrown(() => session.assertUsableBy('r-2'))
+      expect(error).toBeInstanceOf(AppException)
+      expect(error).toMatchObject({ messageKey: 'review_session.not_owner' })
+    })
+
+    it('refuses a closed session', () => {
+      const session = ReviewSession.create({ eventId: 'e-1', reviewerId: 'r-1', leaseMinutes: 10 })
+      session.close()
+      const error = thrown(() => session.assertUsableBy('r-1'))
+      expect(error).toBeInstanceOf(AppException)
+      expect(error).toMatchObject({ messageKey: 'review_session.closed' })
+    })
+
+    it('lets the owner work in an open session', () => {
+      const session = ReviewSession.create({ eventId: 'e-1', reviewerId: 'r-1', leaseMinutes: 10 })
+      expect(() => session.assertUsableBy('r-1')).not.toThrow()
+    })
+  })
+})
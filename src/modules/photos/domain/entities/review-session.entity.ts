@@ -0,0 +1,84 @@
+import { AppException } from '@shared/domain'
+
+const MINUTE_MS = 60 * 1000
+
+/** Most photos one session may hold at a time. */
+export const MAX_REVIEW_SESSION_PHOTOS = 50
+
+/**
+ * A reviewer working through an event's unreviewed photos. The photos handed to the session
+ * are reserved for its reviewer until the lease runs out; each review renews it.
+ */
+export class ReviewSession {
+  constructor(
+    public readonly id: string,
+    public readonly eventId: string,
+    public readonly reviewerId: string,
+    public leaseExpiresAt: Date,
+    public readonly createdAt: Date,
+    public closedAt: Date | null,
+  ) {}
+
+  /** Factory method for a new session; its lease starts now. */
+  static create(data: {
+    eventId: string
+    reviewerId: string
+    leaseMinutes: number
+  }): ReviewSession {
+    const now = new Date()
+    return new ReviewSession(
+      crypto.randomUUID(),
+      data.eventId,
+      data.reviewerId,
+      new Date(now.getTime() + data.leaseMinutes * MINUTE_MS),
+      now,
+      null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    eventId: string
+    reviewerId: string
+    leaseExpiresAt: Date
+    createdAt: Date
+    closedAt: Date | null
+  }): ReviewSession {
+    return new ReviewSession(
+      data.id,
+      data.eventId,
+      data.reviewerId,
+      data.leaseExpiresAt,
+      data.createdAt,
+      data.closedAt,
+    )
+  }
+
+  isActive(now: Date): boolean {
+    return this.closedAt === null && now < this.leaseExpiresAt
+  }
+
+  /** Only the reviewer who opened the session may work in it, and only until it closes. */
+  assertUsableBy(reviewerId: string): void {
+    if (this.reviewerId !== reviewerId) {
+      throw AppException.forbidden('review_session.not_owner')
+    }
+    if (this.closedAt !== null) {
+      throw AppException.conflict('review_session.closed')
+    }
+  }
+
+  /** Extends the lease from now. A session whose lease ran out can be renewed while open. */
+  renew(leaseMinutes: number): void {
+    this.leaseExpiresAt = new Date(Date.now() + leaseMinutes * MINUTE_MS)
+  }
+
+  close(): void {
+    if (this.closedAt !== null) return
+    this.closedAt = new Date()
+  }
+}
@@ -0,0 +1,123 @@
+import { AppException } from '@shared/domain'
+import { UploadSessionItemStatus } from '../value-objects/upload-session-status.vo'
+import { UploadSessionItem } from './upload-session-item.entity'
+
+const MiB = 1024 * 1024
+
+const buildItem = (fileSize = 20 * MiB) =>
+  UploadSessionItem.create({
+    sessionId: 'session-1',
+    fileName: 'IMG_0001.jpg',
+    fileSize,
+    contentType: 'image/jpeg',
+    objectKey: 'events/e1/photos/uuid-IMG_0001.jpg',
+    partSize: 8 * MiB,
+    isDuplicate: false,
+  })
+
+describe('UploadSessionItem.create', () => {
+  it('splits the file into parts of the session part size (20 MiB → 3 parts)', () => {
+    const item = buildItem()
+
+    expect(item.totalParts).toBe(3)
+    expect(item.status).toBe(UploadSessionItemStatus.PENDING)
+    expect(item.missingParts()).toEqual([1, 2, 3])
+  })
+
+  it('starts files the event already has as duplicates', () => {
+    const item = UploadSessionItem.create({
+      sessionId: 'session-1',
+      fileName: 'IMG_0001.jpg',
+      fileSize: MiB,
+      contentType: 'image/jpeg',
+      objectKey: 'events/e1/photos/uuid-IMG_0001.jpg',
+      partSize: 8 * MiB,
+      isDuplicate: true,
+    })
+
+    expect(item.status).toBe(UploadSessionItemStatus.DUPLICATE)
+    expect(item.isOutstanding).toBe(false)
+  })
+})
+
+describe('UploadSessionItem parts', () => {
+  it('tracks recorded parts and replaces a re-uploaded part', () => {
+    const item = buildItem()
+    item.start('upload-1')
+
+    item.recordPart(2, '"b"')
+    item.recordPart(2, '"b2"')
+
+    expect(item.completedParts).toEqual([{ partNumber: 2, etag: '"b2"' }])
+    expect(item.missingParts()).toEqual([1, 3])
+  })
+
+  it('rejects parts outside 1..totalParts', () => {
+    const item = buildItem()
+    item.start('upload-1')
+
+    expect(() => item.recordPart(4, '"x"')).toThrow(AppException)
+  })
+
+  it('rejects parts before the multipart upload is opened', () => {
+    const item = buildItem()
+
+    expect(() => item.recordPart(1, '"a"')).toThrow(AppException)
+  })
+
+  it('trusts the storage listing when syncing parts', () => {
+    const item = buildItem()
+    item.start('upload-1')
+    item.recordPart(1, '"a"')
+
+    item.syncParts([
+      { partNumber: 3, etag: '"c"' },
+      { partNumber: 1, etag: '"a"' },
+    ])
+
+    expect(item.missingParts()).toEqual([2])
+  })
+})
+
+describe('UploadSessionItem.assemble', () => {
+  it('throws while parts are missing', () => {
+    const item = buildItem()
+    item.start('upload-1')
+    item.recordPart(1, '"a"')
+
+    expect(() => item.assemble()).toThrow(AppException)
+  })
+
+  it('accepts uploading → assembled once every part is stored', () => {
+    const item = buildItem(MiB)
+    item.start('upload-1')
+    item.recordPart(1, '"a"')
+
+    item.assemble()
+
+    expect(item.status).toBe(UploadSessionItemStatus.ASSEMBLED)
+    expect(item.isOutstanding).toBe(true)
+  })
+})
+
+describe('UploadSessionItem.complete', () => {
+  it('throws until the file is assembled', () => {
+    const item = buildItem(MiB)
+    item.start('upload-1')
+    item.recordPart(1, '"a"')
+
+    expect(() => item.complete()).toThrow(AppException)
+  })
+
+  it('accepts assembled → completed', () => {
+    const item = buildItem(MiB)
+    item.start('upload-1')
+    item.recordPart(1, '"a"')
+    item.assemble()
+
+    item.complete()
+
+    expect(item.status).toBe(UploadSessionItemStatus.COMPLETED)
+    expect(item.completedAt).toBeInstanceOf(Date)
+  })
+})
@@ -0,0 +1,178 @@
+import { AppException } from '@shared/domain'
+import type { UploadedPart } from '@shared/storage/domain/ports'
+import {
+  UploadSessionItemStatus,
+  type UploadSessionItemStatusType,
+} from '../value-objects/upload-session-status.vo'
+
+/** S3 caps a multipart upload at 10,000 parts. */
+const MAX_PARTS = 10_000
+
+export class UploadSessionItem {
+  constructor(
+    public readonly id: string,
+    public readonly sessionId: string,
+    public readonly fileName: string,
+    public readonly fileSize: bigint,
+    public readonly contentType: string,
+    public readonly objectKey: string,
+    public uploadId: string | null,
+    public readonly totalParts: number,
+    public completedParts: UploadedPart[],
+    public status: UploadSessionItemStatusType,
+    public completedAt: Date | null,
+  ) {}
+
+  /**
+   * Factory method for a file announced when the session is created.
+   * Files already uploaded to the event start as duplicates and are never transferred.
+   */
+  static create(data: {
+    sessionId: string
+    fileName: string
+    fileSize: number
+    contentType: string
+    objectKey: string
+    partSize: number
+    isDuplicate: boolean
+  }): UploadSessionItem {
+    const totalParts = Math.max(1, Math.ceil(data.fileSize / data.partSize))
+    if (totalParts > MAX_PARTS) throw AppException.businessRule('upload_session.file_too_large')
+
+    return new UploadSessionItem(
+      crypto.randomUUID(),
+      data.sessionId,
+      data.fileName,
+      BigInt(data.fileSize),
+      data.contentType,
+      data.objectKey,
+      null,
+      totalParts,
+      [],
+      data.isDuplicate ? UploadSessionItemStatus.DUPLICATE : UploadSessionItemStatus.PENDING,
+      null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    sessionId: string
+    fileName: string
+    fileSize: bigint
+    contentType: string
+    objectKey: string
+    uploadId: string | null
+    totalParts: number
+    completedParts: UploadedPart[]
+    status: UploadSessionItemStatusType
+    completedAt: Date | null
+  }): UploadSessionItem {
+    return new UploadSessionItem(
+      data.id,
+      data.sessionId,
+      data.fileName,
+      data.fileSize,
+      data.contentType,
+      data.objectKey,
+      data.uploadId,
+      data.totalParts,
+      data.completedParts,
+      data.status,
+      data.completedAt,
+    )
+  }
+
+  /** Whether the item still needs bytes or a confirmation from the client. */
+  get isOutstanding(): boolean {
+    return (
+      this.status === UploadSessionItemStatus.PENDING ||
+      this.status === UploadSessionItemStatus.UPLOADING ||
+      this.status === UploadSessionItemStatus.ASSEMBLED
+    )
+  }
+
+  /** Part numbers (1-based) not yet stored by the provider. */
+  missingParts(): number[] {
+    const done = new Set(this.completedParts.map((p) => p.partNumber))
+    const missing: number[] = []
+    for (let n = 1; n <= this.totalParts; n++) {
+      if (!done.has(n)) missing.push(n)
+    }
+    return missing
+  }
+
+  /** Records the multipart upload opened for this file: pending → uploading. */
+  start(uploadId: string): void {
+    if (this.status !== UploadSessionItemStatus.PENDING) {
+      throw AppException.businessRule('upload_session.item_not_pending')
+    }
+    this.uploadId = uploadId
+    this.status = UploadSessionItemStatus.UPLOADING
+  }
+
+  /** Storage reference of the open multipart upload. Throws unless the item is uploading. */
+  multipartRef(): { key: string; uploadId: string } {
+    if (this.status !== UploadSessionItemStatus.UPLOADING || !this.uploadId) {
+      throw AppException.businessRule('upload_session.item_not_uploading')
+    }
+    return { key: this.objectKey, uploadId: this.uploadId }
+  }
+
+  /** Throws when a part number falls outside 1..totalParts. */
+  assertPartNumbers(partNumbers: number[]): void {
+    for (const n of partNumbers) {
+      if (!Number.isInteger(n) || n < 1 || n > this.totalParts) {
+        throw AppException.businessRule('upload_session.invalid_part_number')
+      }
+    }
+  }
+
+  /** Records a part the client finished uploading. Re-uploading a part replaces its ETag. */
+  recordPart(partNumber: number, etag: string): void {
+    this.multipartRef()
+    this.assertPartNumbers([partNumber])
+    this.completedParts = [
+      ...this.completedParts.filter((p) => p.partNumber !== partNumber),
+      { partNumber, etag },
+    ].sort((a, b) => a.partNumber - b.partNumber)
+  }
+
+  /**
+   * Replaces the recorded parts with what the provider actually stored.
+   * Covers parts whose acknowledgement was lost when the connection dropped.
+   */
+  syncParts(stored: UploadedPart[]): void {
+    this.multipartRef()
+    this.completedParts = stored
+      .filter((p) => p.partNumber >= 1 && p.partNumber <= this.totalParts)
+      .sort((a, b) => a.partNumber - b.partNumber)
+  }
+
+  /** Marks the parts as assembled into one object on storage: uploading → assembled. */
+  assemble(): void {
+    this.multipartRef()
+    if (this.missingParts().length > 0) {
+      throw AppException.businessRule('upload_session.parts_missing')
+    }
+    this.status = UploadSessionItemStatus.ASSEMBLED
+  }
+
+  /** Marks the assembled file as confirmed as a photo: assembled → completed. */
+  complete(): void {
+    if (this.status !== UploadSessionItemStatus.ASSEMBLED) {
+      throw AppException.businessRule('upload_session.item_not_assembled')
+    }
+    this.status = UploadSessionItemStatus.COMPLETED
+    this.completedAt = new Date()
+  }
+
+  /** Drops an outstanding item when its session is aborted. */
+  abort(): void {
+    if (!this.isOutstanding) return
+    this.status = UploadSessionItemStatus.ABORTED
+  }
+}
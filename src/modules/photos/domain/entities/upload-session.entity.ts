@@ -0,0 +1,106 @@
+import { AppException } from '@shared/domain'
+import {
+  UploadSessionStatus,
+  type UploadSessionStatusType,
+} from '../value-objects/upload-session-status.vo'
+
+/** 8 MiB: above the S3 5 MiB minimum, small enough to retry cheaply over venue Wi-Fi. */
+export const UPLOAD_PART_SIZE_BYTES = 8 * 1024 * 1024
+
+export class UploadSession {
+  constructor(
+    public readonly id: string,
+    public readonly eventId: string,
+    public status: UploadSessionStatusType,
+    public readonly partSize: number,
+    public readonly photoCategoryId: number | null,
+    public readonly createdAt: Date,
+    public updatedAt: Date,
+    public completedAt: Date | null,
+    public abortedAt: Date | null,
+    public readonly createdById: string | null,
+    /** Checkpoint the photographer shot at; stamped on every photo of the session. */
+    public readonly checkpointId: string | null = null,
+  ) {}
+
+  /**
+   * Factory method for a new upload session.
+   * Sessions start open with the default part size.
+   */
+  static create(data: {
+    eventId: string
+    photoCategoryId?: number | null
+    checkpointId?: string | null
+    createdById?: string | null
+  }): UploadSession {
+    const now = new Date()
+    return new UploadSession(
+      crypto.randomUUID(),
+      data.eventId,
+      UploadSessionStatus.OPEN,
+      UPLOAD_PART_SIZE_BYTES,
+      data.photoCategoryId ?? null,
+      now,
+      now,
+      null,
+      null,
+      data.createdById ?? null,
+      data.checkpointId ?? null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    eventId: string
+    status: UploadSessionStatusType
+    partSize: number
+    photoCategoryId: number | null
+    createdAt: Date
+    updatedAt: Date
+    completedAt: Date | null
+    abortedAt: Date | null
+    createdById: string | null
+    checkpointId?: string | null
+  }): UploadSession {
+    return new UploadSession(
+      data.id,
+      data.eventId,
+      data.status,
+      data.partSize,
+      data.photoCategoryId,
+      data.createdAt,
+      data.updatedAt,
+      data.completedAt,
+      data.abortedAt,
+      data.createdById,
+      data.checkpointId ?? null,
+    )
+  }
+
+  /** Throws unless files can still be uploaded into this session. */
+  assertOpen(): void {
+    if (this.status !== UploadSessionStatus.OPEN) {
+      throw AppException.businessRule('upload_session.not_open')
+    }
+  }
+
+  /** Closes the session once every item is completed or skipped: open → completed. */
+  complete(): void {
+    this.assertOpen()
+    this.status = UploadSessionStatus.COMPLETED
+    this.completedAt = new Date()
+    this.updatedAt = this.completedAt
+  }
+
+  /** Abandons the session: open → aborted. Photos already confirmed are kept. */
+  abort(): void {
+    this.assertOpen()
+    this.status = UploadSessionStatus.ABORTED
+    this.abortedAt = new Date()
+    this.updatedAt = this.abortedAt
+  }
+}
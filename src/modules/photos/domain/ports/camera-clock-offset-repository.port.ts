@@ -0,0 +1,8 @@
+import type { CameraClockOffset } from '../entities'
+
+export interface ICameraClockOffsetRepository {
+  findByCamera(eventId: string, cameraBody: string): Promise<CameraClockOffset | null>
+  save(offset: CameraClockOffset): Promise<void>
+}
+
+export const CAMERA_CLOCK_OFFSET_REPOSITORY = Symbol('CAMERA_CLOCK_OFFSET_REPOSITORY')
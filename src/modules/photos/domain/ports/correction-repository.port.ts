@@ -18,8 +18,22 @@ export interface IAppendCorrectionInput {
   reviewerId: string
 }
 
+/**
+ * Why a single bib or color write was refused: another reviewer's active session leases the
+ * photo, or the target was deleted, or changed since the version the caller read (when given).
+ */
+export type TargetWriteRefusal = { applied: false; reason: 'photo_leased' | 'stale' }
+
 export interface ICorrectionRepository {
-  appendCorrection(input: IAppendCorrectionInput): Promise<Correction>
+  /**
+   * Records the correction and bumps the target's version, after locking the photo and the
+   * target. A null `expectedVersion` checks only the lease. Nothing is written when the write
+   * is refused.
+   */
+  appendCorrection(
+    input: IAppendCorrectionInput,
+    expectedVersion: number | null,
+  ): Promise<{ applied: true; correction: Correction } | TargetWriteRefusal>
   findLatestByTargets(
     targets: Array<{ targetType: CorrectionTargetType; targetId: string }>,
   ): Promise<Map<string, ILatestCorrection>>
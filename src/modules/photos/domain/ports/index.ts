@@ -1,12 +1,46 @@
+export {
+  CAMERA_CLOCK_OFFSET_REPOSITORY,
+  type ICameraClockOffsetRepository,
+} from './camera-clock-offset-repository.port'
 export * from './correction-repository.port'
 export {
   type IPhotoBibWriteRepository,
   PHOTO_BIB_WRITE_REPOSITORY,
 } from './photo-bib-write-repository.port'
+export {
+  type BibSuggestion,
+  type BurstBib,
+  type BurstFrame,
+  type IPhotoBurstRepository,
+  PHOTO_BURST_REPOSITORY,
+} from './photo-burst-repository.port'
 export {
   type IPhotoColorWriteRepository,
   PHOTO_COLOR_WRITE_REPOSITORY,
 } from './photo-color-write-repository.port'
+export {
+  type DetectionEmbedding,
+  type IPhotoDetectionEmbeddingRepository,
+  PHOTO_DETECTION_EMBEDDING_REPOSITORY,
+  RIDER_DETECTION_CLASSES,
+  type RiderDetection,
+} from './photo-detection-embedding-repository.port'
+export {
+  type IPhotoExifRepository,
+  PHOTO_EXIF_REPOSITORY,
+} from './photo-exif-repository.port'
+export {
+  type IPhotoFaceEmbeddingRepository,
+  PERSON_DETECTION_CLASSES,
+  type PersonDetection,
+  PHOTO_FACE_EMBEDDING_REPOSITORY,
+  type PhotoFace,
+} from './photo-face-embedding-repository.port'
+export {
+  type IPhotoMetadataReader,
+  PHOTO_METADATA_READER,
+  type PhotoMetadata,
+} from './photo-metadata-reader.port'
 export {
   type IPhotoReadRepository,
   PHOTO_READ_REPOSITORY,
@@ -19,3 +53,25 @@ export {
   type IPhotoWriteRepository,
   PHOTO_WRITE_REPOSITORY,
 } from './photo-write-repository.port'
+export {
+  type IRetouchRevisionRepository,
+  RETOUCH_REVISION_REPOSITORY,
+} from './retouch-revision-repository.port'
+export {
+  type IReviewSessionRepository,
+  REVIEW_SESSION_REPOSITORY,
+  type ReviewBatch,
+  type ReviewBatchResult,
+  type ReviewBibRow,
+  type ReviewColorRow,
+  type ReviewTargetVersion,
+  type StaleReviewTarget,
+} from './review-session-repository.port'
+export {
+  type IUploadSessionReadRepository,
+  UPLOAD_SESSION_READ_REPOSITORY,
+} from './upload-session-read-repository.port'
+export {
+  type IUploadSessionWriteRepository,
+  UPLOAD_SESSION_WRITE_REPOSITORY,
+} from './upload-session-write-repository.port'
@@ -1,9 +1,16 @@
 import type { PhotoBib } from '@classifications/domain/entities'
+import type { TargetWriteRefusal } from './correction-repository.port'
 
 export interface IPhotoBibWriteRepository {
   findById(bibId: string): Promise<{ id: string; photoId: string; digits: string } | null>
   save(bib: PhotoBib): Promise<PhotoBib>
-  softDelete(bibId: string, reviewerId: string): Promise<void>
+  /** Stamps the deletion and bumps the version, refused like `ICorrectionRepository.appendCorrection`. */
+  softDelete(
+    photoId: string,
+    bibId: string,
+    reviewerId: string,
+    expectedVersion: number | null,
+  ): Promise<{ applied: true } | TargetWriteRefusal>
 }
 
 export const PHOTO_BIB_WRITE_REPOSITORY = Symbol('PHOTO_BIB_WRITE_REPOSITORY')
@@ -0,0 +1,63 @@
+import type { AttributeSource, BibReadingStatus } from '@generated/prisma/client'
+
+/** A photo shot by the same camera body around another one, in capture order. */
+export interface BurstFrame {
+  photoId: string
+  capturedAt: Date
+  /** Cosine similarity of the whole-photo embedding to the frame before; null when either has none. */
+  similarityToPrevious: number | null
+  /** Classification finished, so the frame's own bibs are known. */
+  classified: boolean
+  /** A reviewer signed the photo off; its bibs are final. */
+  reviewed: boolean
+}
+
+/** A bib of a burst frame, live or soft-deleted, with its effective digits. */
+export interface BurstBib {
+  id: string
+  photoId: string
+  /** Effective digits after the latest correction. */
+  digits: string
+  source: AttributeSource
+  confidence: number | null
+  status: BibReadingStatus | null
+  rejectionReason: string | null
+  /** A reviewer corrected the AI reading. */
+  corrected: boolean
+  /** Soft-deleted: for a suggestion, the reviewer turned it down. */
+  deleted: boolean
+  cropPath: string | null
+}
+
+/** A bib read in one frame of a burst, suggested for another frame of it. */
+export interface BibSuggestion {
+  photoId: string
+  digits: string
+  confidence: number
+  fromBibId: string
+  cropPath: string | null
+}
+
+export interface IPhotoBurstRepository {
+  /**
+   * Photos of the same camera body and event captured within `windowSeconds` of the photo,
+   * the photo included, in capture order. Empty when the photo has no capture time or
+   * camera body.
+   */
+  findFrames(photoId: string, windowSeconds: number): Promise<BurstFrame[]>
+  findBibs(photoIds: string[]): Promise<BurstBib[]>
+  /**
+   * Tags the photos with the burst and makes `suggestions` the live burst bibs of them:
+   * missing ones are created, live ones no longer suggested are dropped. Suggestions a
+   * reviewer turned down stay deleted. A photo never holds two live suggestions of the
+   * same digits, even when two jobs save the same burst at once.
+   */
+  saveBurst(burstId: string, photoIds: string[], suggestions: BibSuggestion[]): Promise<void>
+  /**
+   * Turns the live burst suggestions of the photos into reviewer bibs. Returns the ids of
+   * the photos that had any.
+   */
+  acceptSuggestions(photoIds: string[], reviewerId: string): Promise<string[]>
+}
+
+export const PHOTO_BURST_REPOSITORY = Symbol('PHOTO_BURST_REPOSITORY')
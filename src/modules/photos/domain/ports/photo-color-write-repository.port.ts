@@ -1,5 +1,6 @@
 import type { PhotoColor } from '@classifications/domain/entities'
 import type { ColorRegion } from '@generated/prisma/client'
+import type { TargetWriteRefusal } from './correction-repository.port'
 
 export interface IPhotoColorWriteRepository {
   findById(colorId: string): Promise<{
@@ -10,7 +11,13 @@ export interface IPhotoColorWriteRepository {
     secondaryColor: string | null
   } | null>
   save(color: PhotoColor): Promise<PhotoColor>
-  softDelete(colorId: string, reviewerId: string): Promise<void>
+  /** Stamps the deletion and bumps the version, refused like `ICorrectionRepository.appendCorrection`. */
+  softDelete(
+    photoId: string,
+    colorId: string,
+    reviewerId: string,
+    expectedVersion: number | null,
+  ): Promise<{ applied: true } | TargetWriteRefusal>
 }
 
 export const PHOTO_COLOR_WRITE_REPOSITORY = Symbol('PHOTO_COLOR_WRITE_REPOSITORY')
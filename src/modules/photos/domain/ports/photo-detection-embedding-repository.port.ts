@@ -0,0 +1,31 @@
+import type { FaceBbox } from '@shared/embeddings'
+import { PERSON_DETECTION_CLASSES } from './photo-face-embedding-repository.port'
+
+/** Detector classes embedded one by one, so similarity can follow a rider and their bike. */
+export const RIDER_DETECTION_CLASSES = [...PERSON_DETECTION_CLASSES, 'bicycle'] as const
+
+/** A person or bicycle detection of the photo's latest classification. */
+export interface RiderDetection {
+  id: string
+  className: string
+  bbox: FaceBbox
+  confidence: number
+}
+
+export interface DetectionEmbedding {
+  detectionId: string
+  className: string
+  embedding: number[]
+}
+
+export interface IPhotoDetectionEmbeddingRepository {
+  /** Rider detections of the latest completed classification, most confident first. */
+  findRiderDetections(photoId: string): Promise<RiderDetection[]>
+  /** Replaces every detection embedding of the photo, so re-running the job never duplicates them. */
+  replaceForPhoto(
+    photo: { id: string; eventId: string },
+    embeddings: DetectionEmbedding[],
+  ): Promise<void>
+}
+
+export const PHOTO_DETECTION_EMBEDDING_REPOSITORY = Symbol('PHOTO_DETECTION_EMBEDDING_REPOSITORY')
@@ -0,0 +1,21 @@
+import type { CameraBodyProjection } from '@photos/application/projections'
+import type { PhotoExif } from '../entities'
+
+export interface IPhotoExifRepository {
+  /**
+   * Upserts the EXIF row and, in the same transaction, stamps the photo with the corrected
+   * capture time and (when known) its pixel size.
+   */
+  save(
+    exif: PhotoExif,
+    photo: { capturedAt: Date | null; width: number | null; height: number | null },
+  ): Promise<void>
+  /** Camera bodies of the event with photo counts and their current clock offset. */
+  getEventCameras(eventId: string): Promise<CameraBodyProjection[]>
+  /** Re-stamps `captured_at` of every photo of the body; returns how many photos changed. */
+  restampCapturedAt(eventId: string, cameraBody: string, offsetSeconds: number): Promise<number>
+  /** IDs of the event's photos that have no EXIF row yet. */
+  findPhotoIdsWithoutExif(eventId: string): Promise<string[]>
+}
+
+export const PHOTO_EXIF_REPOSITORY = Symbol('PHOTO_EXIF_REPOSITORY')
@@ -0,0 +1,27 @@
+import type { FaceBbox } from '@shared/embeddings'
+
+/** Detector classes whose crops show a whole rider, face included. */
+export const PERSON_DETECTION_CLASSES = ['person', 'cyclist'] as const
+
+/** A rider detection of the photo's latest classification; faces are searched inside it. */
+export interface PersonDetection {
+  id: string
+  bbox: FaceBbox
+}
+
+export interface PhotoFace {
+  /** Detection the face was found in; null when the whole frame was searched. */
+  detectionId: string | null
+  bbox: FaceBbox
+  confidence: number
+  embedding: number[]
+}
+
+export interface IPhotoFaceEmbeddingRepository {
+  /** Person and cyclist detections of the latest completed classification of the photo. */
+  findPersonDetections(photoId: string): Promise<PersonDetection[]>
+  /** Replaces every face of the photo, so re-running the job never duplicates them. */
+  replaceForPhoto(photo: { id: string; eventId: string }, faces: PhotoFace[]): Promise<void>
+}
+
+export const PHOTO_FACE_EMBEDDING_REPOSITORY = Symbol('PHOTO_FACE_EMBEDDING_REPOSITORY')
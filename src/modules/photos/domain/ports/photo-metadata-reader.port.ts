@@ -0,0 +1,23 @@
+/** Metadata read from the stored original. Every field is null when the file lacks it. */
+export type PhotoMetadata = {
+  /** DateTimeOriginal as recorded by the camera clock, before any offset correction. */
+  capturedAt: Date | null
+  cameraMake: string | null
+  cameraModel: string | null
+  cameraSerial: string | null
+  lensModel: string | null
+  /** EXIF orientation (1–8). */
+  orientation: number | null
+  gpsLatitude: number | null
+  gpsLongitude: number | null
+  gpsAltitude: number | null
+  width: number | null
+  height: number | null
+}
+
+export interface IPhotoMetadataReader {
+  /** Reads metadata from the original at `storageKey`; null when the format is not supported. */
+  read(storageKey: string): Promise<PhotoMetadata | null>
+}
+
+export const PHOTO_METADATA_READER = Symbol('PHOTO_METADATA_READER')
@@ -8,6 +8,7 @@ import type {
 import type { SearchPhotosFilters } from '@photos/application/queries'
 import type { PaginatedResult, Pagination } from '@shared/application'
 import type { Photo } from '../entities'
+import type { AttributeHit, SearchTerm } from '../services/photo-search.service'
 
 export interface ReviewQueueRepoItem {
   id: string
@@ -18,6 +19,11 @@ export interface ReviewQueueRepoItem {
   minBibConfidence: number | null
   bibsCount: number
   colorsCount: number
+  /** AI-read bibs with no timing split near the capture time at the photo's checkpoint */
+  implausibleBibs: string[]
+  /** Bibs suggested from other frames of the burst, awaiting a reviewer */
+  suggestedBibs: string[]
+  burstId: string | null
 }
 
 export interface ReviewQueueByEventsRepoItem extends ReviewQueueRepoItem {
@@ -43,6 +49,8 @@ export interface IPhotoReadRepository {
     filters: SearchPhotosFilters,
     pagination: Pagination,
   ): Promise<PaginatedResult<PhotoListProjection>>
+  findSearchHits(terms: SearchTerm[], filters: SearchPhotosFilters): Promise<AttributeHit[]>
+  getPhotoListByIds(ids: string[]): Promise<PhotoListProjection[]>
   getTotalFileSizeByEvent(eventId: string): Promise<number>
   getTotalFileSizesByEventIds(eventIds: string[]): Promise<Map<string, number>>
   getClassifiedCountByEvent(eventId: string): Promise<number>
@@ -54,18 +62,29 @@ export interface IPhotoReadRepository {
   countByIds(ids: string[]): Promise<number>
   countByIdsAndEvent(photoIds: string[], eventId: string): Promise<number>
   findSimilar(photoId: string, eventId: string, limit: number): Promise<SimilarPhotoProjection[]>
+  findDetectionById(detectionId: string): Promise<{ id: string; photoId: string } | null>
+  /** Photos whose rider crops are nearest to the detection's crop, best match per photo. */
+  findSimilarByDetection(
+    detectionId: string,
+    eventId: string,
+    limit: number,
+  ): Promise<SimilarPhotoProjection[]>
   getPhotoViewBySlug(slug: string): Promise<PhotoViewProjection | null>
   countAll(): Promise<number>
   sumAllFileSize(): Promise<number>
   getReviewQueue(params: {
     eventSlug: string
     status: ReviewQueueStatusFilter
+    timingFlagged?: boolean
+    suggested?: boolean
     limit: number
     offset: number
   }): Promise<{ items: ReviewQueueRepoItem[]; total: number }>
   getReviewQueueByEventIds(params: {
     eventIds: string[]
     status: ReviewQueueStatusFilter
+    timingFlagged?: boolean
+    suggested?: boolean
     limit: number
     offset: number
   }): Promise<{ items: ReviewQueueByEventsRepoItem[]; total: number }>
@@ -2,9 +2,24 @@ import type { Photo } from '../entities'
 
 export interface IPhotoWriteRepository {
   save(photo: Photo): Promise<Photo>
+  /**
+   * Writes only the processing status, `processed_at`, and the size where it is still unknown,
+   * so a concurrent EXIF stamp or camera offset restamp of the same photo is kept.
+   */
+  saveProcessingStatus(photo: Photo): Promise<void>
+  /**
+   * Writes the review stamp under a lock on the photo. Returns false, writing nothing, when
+   * another reviewer's active review session leases the photo.
+   */
+  saveReviewed(photo: Photo): Promise<boolean>
   saveMany(photos: Photo[]): Promise<number>
   delete(id: string): Promise<void>
   bulkUpdateCategory(photoIds: string[], photoCategoryId: number | null): Promise<number>
+  bulkUpdateCheckpoint(
+    eventId: string,
+    photoIds: string[],
+    checkpointId: string | null,
+  ): Promise<number>
   setRequiresRetouch(photoId: string, value: boolean): Promise<void>
 }
 
@@ -0,0 +1,23 @@
+import type { RetouchRevisionProjection } from '@photos/application/projections'
+import type { Photo, RetouchRevision } from '../entities'
+
+export interface IRetouchRevisionRepository {
+  findById(id: string): Promise<RetouchRevision | null>
+  findActiveByPhoto(photoId: string): Promise<RetouchRevision | null>
+  /** Number the next revision of the photo gets; 1 for its first. */
+  nextRevisionNumber(photoId: string): Promise<number>
+  /** Every revision of the photo with its author, newest first. */
+  listByPhoto(photoId: string): Promise<RetouchRevisionProjection[]>
+  /**
+   * Saves the revision as the photo's active one, the revision it replaces (if any) and the
+   * photo in one transaction.
+   */
+  activate(
+    photo: Photo,
+    revision: RetouchRevision,
+    superseded: RetouchRevision | null,
+  ): Promise<void>
+  save(revision: RetouchRevision): Promise<void>
+}
+
+export const RETOUCH_REVISION_REPOSITORY = Symbol('RETOUCH_REVISION_REPOSITORY')
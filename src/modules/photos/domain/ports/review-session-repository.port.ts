@@ -0,0 +1,79 @@
+import type { PhotoBib, PhotoColor } from '@classifications/domain/entities'
+import type { ColorRegion, CorrectionTargetType } from '@generated/prisma/client'
+import type { ReviewSession } from '../entities'
+import type { IAppendCorrectionInput } from './correction-repository.port'
+
+/** A bib or color together with the version the reviewer edited. */
+export interface ReviewTargetVersion {
+  targetType: CorrectionTargetType
+  targetId: string
+  version: number
+}
+
+export interface ReviewBibRow {
+  id: string
+  version: number
+  digits: string
+}
+
+export interface ReviewColorRow {
+  id: string
+  version: number
+  region: ColorRegion
+  primaryColor: string
+  secondaryColor: string | null
+}
+
+/** Everything one review of a photo changes; written together or not at all. */
+export interface ReviewBatch {
+  session: ReviewSession
+  photoId: string
+  reviewerId: string
+  /** Every bib and color the batch edits or deletes, with the version it was read at */
+  expected: ReviewTargetVersion[]
+  corrections: IAppendCorrectionInput[]
+  deletions: Array<{ targetType: CorrectionTargetType; targetId: string }>
+  newBibs: PhotoBib[]
+  newColors: PhotoColor[]
+  reviewedAt: Date
+}
+
+/** A target whose version moved on since the reviewer read it; null version when deleted. */
+export interface StaleReviewTarget {
+  targetType: CorrectionTargetType
+  targetId: string
+  expectedVersion: number
+  currentVersion: number | null
+}
+
+export type ReviewBatchResult =
+  | { applied: true }
+  | { applied: false; reason: 'photo_not_leased' }
+  | { applied: false; reason: 'stale'; stale: StaleReviewTarget[] }
+
+export interface IReviewSessionRepository {
+  /**
+   * Stores the session and leases it up to `limit` unreviewed photos of its event, in review
+   * queue order, skipping photos held by another active session. The reviewer's other open
+   * sessions on the event are closed and their photos released. Returns the leased photo ids.
+   */
+  open(session: ReviewSession, limit: number): Promise<string[]>
+  findById(id: string): Promise<ReviewSession | null>
+  save(session: ReviewSession): Promise<void>
+  /** Unreviewed photos the session still holds, in review queue order. */
+  findLeasedPhotoIds(sessionId: string): Promise<string[]>
+  /** Hands the session's unreviewed photos back to the queue. */
+  release(sessionId: string): Promise<void>
+  /**
+   * Bibs and colors of the photo with their current versions. Soft-deleted ones are included so
+   * that an edit of one deleted meanwhile is refused as stale rather than as unknown.
+   */
+  findTargets(photoId: string): Promise<{ bibs: ReviewBibRow[]; colors: ReviewColorRow[] }>
+  /**
+   * Applies the batch in one transaction after locking the photo and every edited target.
+   * Nothing is written when the photo is no longer leased to the session or a version is stale.
+   */
+  applyReview(batch: ReviewBatch): Promise<ReviewBatchResult>
+}
+
+export const REVIEW_SESSION_REPOSITORY = Symbol('REVIEW_SESSION_REPOSITORY')
@@ -0,0 +1,19 @@
+import type { UploadSessionProgressProjection } from '@photos/application/projections'
+import type { UploadSession, UploadSessionItem } from '../entities'
+
+export interface IUploadSessionReadRepository {
+  findById(id: string): Promise<UploadSession | null>
+  findItem(sessionId: string, itemId: string): Promise<UploadSessionItem | null>
+  findItems(sessionId: string): Promise<UploadSessionItem[]>
+  /** Items still pending, uploading or assembled, ordered by file name. */
+  findOutstandingItems(sessionId: string): Promise<UploadSessionItem[]>
+  countOutstandingItems(sessionId: string): Promise<number>
+  /** Whether a photo was already confirmed from the stored object. */
+  hasPhoto(objectKey: string): Promise<boolean>
+  /** Returns the subset of `fileNames` that already exist as photos of the event. */
+  findUploadedFileNames(eventId: string, fileNames: string[]): Promise<string[]>
+  /** Progress of the most recently created open session of the event, if any. */
+  getOpenSessionProgress(eventId: string): Promise<UploadSessionProgressProjection | null>
+}
+
+export const UPLOAD_SESSION_READ_REPOSITORY = Symbol('UPLOAD_SESSION_READ_REPOSITORY')
@@ -0,0 +1,17 @@
+import type { UploadSession, UploadSessionItem } from '../entities'
+
+export interface IUploadSessionWriteRepository {
+  /** Inserts a new session together with all its items in one transaction. */
+  create(session: UploadSession, items: UploadSessionItem[]): Promise<void>
+  save(session: UploadSession): Promise<void>
+  saveItem(item: UploadSessionItem): Promise<void>
+  saveItems(items: UploadSessionItem[]): Promise<void>
+  /**
+   * Claims the item for completion until `until`. Returns false while another request
+   * holds an unexpired claim on it.
+   */
+  claimItem(itemId: string, until: Date): Promise<boolean>
+  releaseItem(itemId: string): Promise<void>
+}
+
+export const UPLOAD_SESSION_WRITE_REPOSITORY = Symbol('UPLOAD_SESSION_WRITE_REPOSITORY')
@@ -0,0 +1,130 @@
+import type { BurstBib, BurstFrame } from '../ports'
+import { BurstPropagation } from './burst-propagation.service'
+
+const frame = (
+  photoId: string,
+  second: number,
+  similarityToPrevious: number | null,
+  overrides: Partial<BurstFrame> = {},
+): BurstFrame => ({
+  photoId,
+  capturedAt: new Date(Date.UTC(2026, 9, 4, 9, 0, second)),
+  similarityToPrevious,
+  classified: true,
+  reviewed: false,
+  ...overrides,
+})
+
+const bib = (photoId: string, digits: string, overrides: Partial<BurstBib> = {}): BurstBib => ({
+  id: `${photoId}-${digits}`,
+  photoId,
+  digits,
+  source: 'ai',
+  confidence: 0.95,
+  status: 'read',
+  rejectionReason: null,
+  corrected: false,
+  deleted: false,
+  cropPath: null,
+  ...overrides,
+})
+
+describe('BurstPropagation', () => {
+  describe('group', () => {
+    it('splits on long gaps and on frames that do not look alike', () => {
+      const bursts = BurstPropagation.group([
+        frame('a', 0, null),
+        frame('b', 1, 0.93),
+        frame('c', 2, 0.91),
+        frame('d', 6, 0.95),
+        frame('e', 7, 0.4),
+        frame('f', 8, null),
+      ])
+
+      expect(bursts.map((b) => b.map((f) => f.photoId))).toEqual([
+        ['a', 'b', 'c'],
+        ['d'],
+        ['e'],
+        ['f'],
+      ])
+    })
+  })
+
+  describe('suggest', () => {
+    const burst = [frame('a', 0, null), frame('b', 1, 0.9), frame('c', 2, 0.95)]
+
+    it('copies a confident read to the other frames, discounted by the weakest link', () => {
+      const suggestions = BurstPropagation.suggest(burst, [
+        bib('a', '142', { cropPath: 'crops/bibs/0.jpg' }),
+      ])
+
+      expect(suggestions).toEqual([
+        {
+          photoId: 'b',
+          digits: '142',
+          confidence: 0.855,
+          fromBibId: 'a-142',
+          cropPath: 'crops/bibs/0.jpg',
+        },
+        {
+          photoId: 'c',
+          digits: '142',
+          confidence: 0.855,
+          fromBibId: 'a-142',
+          cropPath: 'crops/bibs/0.jpg',
+        },
+      ])
+    })
+
+    it('trusts reviewer and corrected bibs fully and ignores weak, rejected or suggested ones', () => {
+      const suggestions = BurstPropagation.suggest(burst, [
+        bib('a', '7', { source: 'reviewer', confidence: null }),
+        bib('a', '8', { confidence: 0.6, corrected: true }),
+        bib('a', '9', { confidence: 0.7 }),
+        bib('a', '10', { rejectionReason: 'outside_bib_range' }),
+        bib('b', '11', { source: 'burst' }),
+      ])
+
+      expect(suggestions.map((s) => [s.photoId, s.digits, s.confidence])).toEqual([
+        ['b', '7', 0.9],
+        ['b', '8', 0.9],
+        ['c', '7', 0.9],
+        ['c', '8', 0.9],
+      ])
+    })
+
+    it('skips frames already holding the digits, turned down there, reviewed or unclassified', () => {
+      const suggestions = BurstPropagation.suggest(
+        [
+          ...burst,
+          frame('d', 3, 0.9, { reviewed: true }),
+          frame('e', 4, 0.9, { classified: false }),
+        ],
+        [
+          bib('a', '142'),
+          bib('b', '142', { confidence: 0.4 }),
+          bib('c', '142', { source: 'burst', deleted: true }),
+        ],
+      )
+
+      expect(suggestions.map((s) => s.photoId)).toEqual([])
+    })
+
+    it('keeps suggesting live suggestions and takes the best source per frame', () => {
+      const suggestions = BurstPropagation.suggest(burst, [
+        bib('a', '142', { confidence: 0.9 }),
+        bib('c', '142', { id: 'best' }),
+        bib('b', '142', { source: 'burst' }),
+      ])
+
+      expect(suggestions).toEqual([
+        expect.objectContaining({
+          photoId: 'b',
+          digits: '142',
+          fromBibId: 'best',
+          confidence: 0.903,
+        }),
+      ])
+    })
+  })
+})
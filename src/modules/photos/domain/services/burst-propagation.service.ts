@@ -0,0 +1,90 @@
+import type { BibSuggestion, BurstBib, BurstFrame } from '../ports'
+
+/** Frames further apart than this are different bursts. */
+export const MAX_BURST_GAP_SECONDS = 2
+/** Consecutive frames less alike than this are different scenes, even when shot back to back. */
+export const MIN_BURST_SIMILARITY = 0.8
+/** AI reads below this are not trusted enough to be copied to other frames. */
+export const MIN_SOURCE_CONFIDENCE = 0.85
+
+const round = (value: number): number => Math.round(value * 1000) / 1000
+
+/** A bib another frame can take: typed or corrected by a reviewer, or confidently read. */
+const isSource = (bib: BurstBib): boolean =>
+  !bib.deleted &&
+  bib.source !== 'burst' &&
+  bib.status !== 'abstained' &&
+  bib.digits !== '' &&
+  (bib.source === 'reviewer' ||
+    bib.corrected ||
+    (bib.confidence !== null &&
+      bib.confidence >= MIN_SOURCE_CONFIDENCE &&
+      bib.rejectionReason === null))
+
+const sourceWeight = (bib: BurstBib): number =>
+  bib.source === 'reviewer' || bib.corrected ? 1 : (bib.confidence ?? 0)
+
+export const BurstPropagation = {
+  /**
+   * Splits frames in capture order into bursts: a new burst starts after a gap longer
+   * than {@link MAX_BURST_GAP_SECONDS} or when the frame does not look like the one before.
+   */
+  group(frames: BurstFrame[]): BurstFrame[][] {
+    const bursts: BurstFrame[][] = []
+    let previous: BurstFrame | null = null
+    for (const frame of frames) {
+      const continues =
+        previous !== null &&
+        frame.capturedAt.getTime() - previous.capturedAt.getTime() <=
+          MAX_BURST_GAP_SECONDS * 1000 &&
+        frame.similarityToPrevious !== null &&
+        frame.similarityToPrevious >= MIN_BURST_SIMILARITY
+      if (continues) bursts[bursts.length - 1].push(frame)
+      else bursts.push([frame])
+      previous = frame
+    }
+    return bursts
+  },
+
+  /**
+   * Suggests each source bib of the burst to the other classified, unreviewed frames.
+   * A frame is skipped for digits it already has from the AI or a reviewer, or that a
+   * reviewer turned down there. The confidence is the source's (1 for reviewer bibs)
+   * times the lowest similarity between the two frames; the best source wins per frame.
+   */
+  suggest(burst: BurstFrame[], bibs: BurstBib[]): BibSuggestion[] {
+    const position = new Map(burst.map((frame, i) => [frame.photoId, i]))
+    const similarity = (from: number, to: number): number => {
+      const [start, end] = from < to ? [from, to] : [to, from]
+      return Math.min(...burst.slice(start + 1, end + 1).map((f) => f.similarityToPrevious ?? 0))
+    }
+
+    const sources = bibs.filter(isSource)
+    const suggestions = new Map<string, BibSuggestion>()
+    for (const [index, frame] of burst.entries()) {
+      if (!frame.classified || frame.reviewed) continue
+      const own = bibs.filter((b) => b.photoId === frame.photoId)
+      const known = new Set(
+        own.filter((b) => b.deleted || b.source !== 'burst').map((b) => b.digits),
+      )
+
+      for (const source of sources) {
+        const from = position.get(source.photoId)
+        if (from === undefined || from === index || known.has(source.digits)) continue
+
+        const confidence = round(sourceWeight(source) * similarity(from, index))
+        const key = `${frame.photoId}:${source.digits}`
+        const current = suggestions.get(key)
+        if (current && current.confidence >= confidence) continue
+        suggestions.set(key, {
+          photoId: frame.photoId,
+          digits: source.digits,
+          confidence,
+          fromBibId: source.id,
+          cropPath: source.cropPath,
+        })
+      }
+    }
+    return [...suggestions.values()]
+  },
+}
@@ -0,0 +1,91 @@
+import { type AttributeHit, PhotoSearch, REVIEWER_WEIGHT } from './photo-search.service'
+
+const hit = (overrides: Partial<AttributeHit>): AttributeHit => ({
+  termIndex: 0,
+  photoId: 'p-1',
+  value: '14',
+  region: null,
+  source: 'ai',
+  confidence: 0.9,
+  corrected: false,
+  ...overrides,
+})
+
+describe('PhotoSearch', () => {
+  describe('parse', () => {
+    it('reads colors with the region after them and a bib prefix', () => {
+      const { terms, ignored } = PhotoSearch.parse('red helmet blue jersey 14x')
+
+      expect(terms).toEqual([
+        { kind: 'color', color: 'rojo', region: 'helmet' },
+        { kind: 'color', color: 'azul', region: 'cyclist_clothes' },
+        { kind: 'bib', digits: '14', match: 'starts' },
+      ])
+      expect(ignored).toEqual([])
+    })
+
+    it('reads Spanish order, accents and filler words', () => {
+      const { terms } = PhotoSearch.parse('Casco ROJO con camiseta azul y bici Marrón, dorsal 142')
+
+      expect(terms).toEqual([
+        { kind: 'color', color: 'rojo', region: 'helmet' },
+        { kind: 'color', color: 'azul', region: 'cyclist_clothes' },
+        { kind: 'color', color: 'marron', region: 'bicycle' },
+        { kind: 'bib', digits: '142', match: 'exact' },
+      ])
+    })
+
+    it('leaves a color without region open to any region and reports unknown words', () => {
+      const { terms, ignored } = PhotoSearch.parse('black x42 sunglasses helmet')
+
+      expect(terms).toEqual([
+        { kind: 'color', color: 'negro', region: null },
+        { kind: 'bib', digits: '42', match: 'contains' },
+      ])
+      expect(ignored).toEqual(['sunglasses', 'helmet'])
+    })
+
+    it('drops repeated terms', () => {
+      expect(PhotoSearch.parse('14 14 red red').terms).toHaveLength(2)
+    })
+  })
+
+  describe('rank', () => {
+    const terms = PhotoSearch.parse('14 red helmet').terms
+
+    it('scores photos by matched attributes weighted by confidence', () => {
+      const ranked = PhotoSearch.rank(terms, [
+        hit({ photoId: 'p-1', termIndex: 0, confidence: 0.9 }),
+        hit({ photoId: 'p-2', termIndex: 0, confidence: 0.8 }),
+        hit({ photoId: 'p-2', termIndex: 1, value: 'rojo', region: 'helmet', confidence: 0.7 }),
+      ])
+
+      expect(ranked.map((r) => [r.photoId, r.score])).toEqual([
+        ['p-2', 1.5],
+        ['p-1', 0.9],
+      ])
+      expect(ranked[0].matches.map((m) => m.term.kind)).toEqual(['bib', 'color'])
+    })
+
+    it('puts reviewer and corrected attributes above any AI reading', () => {
+      const ranked = PhotoSearch.rank(terms, [
+        hit({ photoId: 'p-ai', confidence: 1 }),
+        hit({ photoId: 'p-reviewer', source: 'reviewer', confidence: null }),
+        hit({ photoId: 'p-corrected', confidence: 0.2, corrected: true }),
+      ])
+
+      expect(ranked.map((r) => r.photoId)).toEqual(['p-corrected', 'p-reviewer', 'p-ai'])
+      expect(ranked[0].score).toBe(REVIEWER_WEIGHT)
+    })
+
+    it('counts each term once with its best hit', () => {
+      const [result] = PhotoSearch.rank(terms, [
+        hit({ confidence: 0.4 }),
+        hit({ confidence: 0.8, value: '14' }),
+      ])
+
+      expect(result.score).toBe(0.8)
+      expect(result.matches).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,199 @@
+import type { AttributeSource, ColorRegion } from '@generated/prisma/client'
+
+export type BibMatch = 'exact' | 'starts' | 'contains'
+
+export type SearchTerm =
+  | { kind: 'bib'; digits: string; match: BibMatch }
+  /** A null region matches the color on the helmet, the clothes or the bike. */
+  | { kind: 'color'; color: string; region: ColorRegion | null }
+
+/** One attribute of a photo that satisfies a search term, with its effective value. */
+export interface AttributeHit {
+  /** Index of the satisfied term in the searched terms. */
+  termIndex: number
+  photoId: string
+  /** Effective value after the latest correction. */
+  value: string
+  region: ColorRegion | null
+  source: AttributeSource
+  confidence: number | null
+  /** A reviewer corrected the AI reading. */
+  corrected: boolean
+}
+
+export interface RankedPhoto {
+  photoId: string
+  score: number
+  /** Best hit per satisfied term, in term order. */
+  matches: Array<{ term: SearchTerm; hit: AttributeHit; weight: number }>
+}
+
+/** Typed or corrected by a reviewer: always above the most confident AI reading. */
+export const REVIEWER_WEIGHT = 1.5
+/** AI readings stored without a confidence. */
+const UNKNOWN_CONFIDENCE_WEIGHT = 0.5
+
+/** Spanish palette names, as stored, with the other spellings accepted for each. */
+const COLOR_SYNONYMS: Record<string, string[]> = {
+  rojo: ['roja', 'red'],
+  naranja: ['orange'],
+  amarillo: ['amarilla', 'yellow'],
+  verde: ['green'],
+  azul: ['blue'],
+  celeste: ['cyan'],
+  morado: ['morada', 'purple', 'violet'],
+  rosa: ['rosado', 'rosada', 'pink'],
+  fucsia: ['magenta', 'fuchsia'],
+  marron: ['cafe', 'brown'],
+  negro: ['negra', 'black'],
+  gris: ['gray', 'grey'],
+  blanco: ['blanca', 'white'],
+  dorado: ['dorada', 'gold'],
+  plateado: ['plateada', 'silver'],
+}
+
+const REGION_SYNONYMS: Record<ColorRegion, string[]> = {
+  helmet: ['helmet', 'casco'],
+  cyclist_clothes: [
+    'jersey',
+    'shirt',
+    'kit',
+    'clothes',
+    'clothing',
+    'camiseta',
+    'camisa',
+    'ropa',
+    'maillot',
+    'uniforme',
+    'tricota',
+  ],
+  bicycle: ['bike', 'bicycle', 'bici', 'bicicleta', 'cuadro', 'frame'],
+}
+
+const COLOR_WORDS = new Map(
+  Object.entries(COLOR_SYNONYMS).flatMap(([color, words]) =>
+    [color, ...words].map((word) => [word, color] as const),
+  ),
+)
+
+const REGION_WORDS = new Map(
+  (Object.entries(REGION_SYNONYMS) as Array<[ColorRegion, string[]]>).flatMap(([region, words]) =>
+    words.map((word) => [word, region] as const),
+  ),
+)
+
+/** English and Spanish words that carry no attribute ("casco rojo con dorsal 14"). */
+const FILLER_WORDS = new Set(
+  'a and with the in on of bib number no y con de del el la en un una dorsal numero nro'.split(' '),
+)
+
+/** `14` exact, `14x` / `14*` starting with 14, `x14x` containing 14. */
+const BIB_TOKEN = /^#?([x*?]*)(\d{1,10})([x*?]*)$/
+
+const normalizeToken = (token: string): string =>
+  token
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+
+export const PhotoSearch = {
+  /**
+   * Reads bibs and colors out of a free-text query such as "red helmet blue jersey 14x"
+   * or "casco rojo camiseta azul 14x". A color takes the region word right before it
+   * (Spanish order) or, failing that, right after it (English order); a color with no
+   * region matches any. Words that are neither are returned in `ignored`.
+   */
+  parse(text: string): { terms: SearchTerm[]; ignored: string[] } {
+    const tokens = text
+      .split(/[\s,;]+/)
+      .map(normalizeToken)
+      .filter((t) => t && !FILLER_WORDS.has(t))
+
+    const terms: SearchTerm[] = []
+    const ignored: string[] = []
+    const consumed = new Set<number>()
+
+    tokens.forEach((token, i) => {
+      if (consumed.has(i)) return
+
+      const bib = BIB_TOKEN.exec(token)
+      if (bib) {
+        const [, leading, digits, trailing] = bib
+        const match: BibMatch = leading ? 'contains' : trailing ? 'starts' : 'exact'
+        terms.push({ kind: 'bib', digits, match })
+        return
+      }
+
+      const color = COLOR_WORDS.get(token)
+      if (color) {
+        const before = i > 0 && !consumed.has(i - 1) ? REGION_WORDS.get(tokens[i - 1]) : undefined
+        const after = REGION_WORDS.get(tokens[i + 1] ?? '')
+        if (!before && after) consumed.add(i + 1)
+        terms.push({ kind: 'color', color, region: before ?? after ?? null })
+        consumed.add(i)
+        return
+      }
+
+      // A region word is kept for the color after it; alone it says nothing
+      if (REGION_WORDS.has(token)) {
+        if (!COLOR_WORDS.has(tokens[i + 1] ?? '')) ignored.push(token)
+        return
+      }
+      ignored.push(token)
+    })
+
+    return { terms: PhotoSearch.dedupe(terms), ignored }
+  },
+
+  /** Palette name for any accepted spelling ("Red", "roja"); unknown names pass through. */
+  canonicalColor(name: string): string {
+    const token = normalizeToken(name.trim())
+    return COLOR_WORDS.get(token) ?? token
+  },
+
+  dedupe(terms: SearchTerm[]): SearchTerm[] {
+    const seen = new Set<string>()
+    return terms.filter((term) => {
+      const key = JSON.stringify(term)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  },
+
+  /** Reviewer attributes outrank AI ones; AI ones count for their confidence. */
+  weight(hit: Pick<AttributeHit, 'source' | 'confidence' | 'corrected'>): number {
+    if (hit.source === 'reviewer' || hit.corrected) return REVIEWER_WEIGHT
+    return hit.confidence ?? UNKNOWN_CONFIDENCE_WEIGHT
+  },
+
+  /**
+   * Scores each photo by the terms it satisfies, each counted once with the weight of
+   * its best hit. Higher scores first; ties go to the photo satisfying more terms.
+   */
+  rank(terms: SearchTerm[], hits: AttributeHit[]): RankedPhoto[] {
+    const byPhoto = new Map<string, Map<number, { hit: AttributeHit; weight: number }>>()
+    for (const hit of hits) {
+      const best = byPhoto.get(hit.photoId) ?? new Map()
+      const weight = PhotoSearch.weight(hit)
+      const current = best.get(hit.termIndex)
+      if (!current || weight > current.weight) best.set(hit.termIndex, { hit, weight })
+      byPhoto.set(hit.photoId, best)
+    }
+
+    return [...byPhoto.entries()]
+      .map(([photoId, best]) => {
+        const matches = [...best.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([termIndex, { hit, weight }]) => ({ term: terms[termIndex], hit, weight }))
+        const score = matches.reduce((sum, m) => sum + m.weight, 0)
+        return { photoId, score: Math.round(score * 1000) / 1000, matches }
+      })
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.matches.length - a.matches.length ||
+          a.photoId.localeCompare(b.photoId),
+      )
+  },
+}
@@ -0,0 +1,19 @@
+export const UploadSessionStatus = {
+  OPEN: 'open',
+  COMPLETED: 'completed',
+  ABORTED: 'aborted',
+} as const
+
+export type UploadSessionStatusType = (typeof UploadSessionStatus)[keyof typeof UploadSessionStatus]
+
+export const UploadSessionItemStatus = {
+  PENDING: 'pending',
+  UPLOADING: 'uploading',
+  ASSEMBLED: 'assembled',
+  COMPLETED: 'completed',
+  DUPLICATE: 'duplicate',
+  ABORTED: 'aborted',
+} as const
+
+export type UploadSessionItemStatusType =
+  (typeof UploadSessionItemStatus)[keyof typeof UploadSessionItemStatus]
@@ -0,0 +1,70 @@
+import type {
+  Prisma,
+  CameraClockOffset as PrismaCameraClockOffset,
+  PhotoExif as PrismaPhotoExif,
+} from '@generated/prisma/client'
+import { CameraClockOffset, PhotoExif } from '@photos/domain/entities'
+
+/** Converts an EXIF entity to a Prisma unchecked create input. */
+export function toPersistence(entity: PhotoExif): Prisma.PhotoExifUncheckedCreateInput {
+  return {
+    photo_id: entity.photoId,
+    event_id: entity.eventId,
+    camera_make: entity.cameraMake,
+    camera_model: entity.cameraModel,
+    camera_serial: entity.cameraSerial,
+    camera_body: entity.cameraBody,
+    lens_model: entity.lensModel,
+    orientation: entity.orientation,
+    gps_latitude: entity.gpsLatitude,
+    gps_longitude: entity.gpsLongitude,
+    gps_altitude: entity.gpsAltitude,
+    original_captured_at: entity.originalCapturedAt,
+    extracted_at: entity.extractedAt,
+  }
+}
+
+/** Reconstitutes an EXIF entity from a Prisma record. */
+export function toEntity(record: PrismaPhotoExif): PhotoExif {
+  return PhotoExif.fromPersistence({
+    photoId: record.photo_id,
+    eventId: record.event_id,
+    cameraMake: record.camera_make,
+    cameraModel: record.camera_model,
+    cameraSerial: record.camera_serial,
+    cameraBody: record.camera_body,
+    lensModel: record.lens_model,
+    orientation: record.orientation,
+    gpsLatitude: record.gps_latitude,
+    gpsLongitude: record.gps_longitude,
+    gpsAltitude: record.gps_altitude,
+    originalCapturedAt: record.original_captured_at,
+    extractedAt: record.extracted_at,
+  })
+}
+
+/** Converts a clock offset entity to a Prisma unchecked create input. */
+export function offsetToPersistence(
+  entity: CameraClockOffset,
+): Prisma.CameraClockOffsetUncheckedCreateInput {
+  return {
+    id: entity.id,
+    event_id: entity.eventId,
+    camera_body: entity.cameraBody,
+    offset_seconds: entity.offsetSeconds,
+    updated_at: entity.updatedAt,
+    updated_by_id: entity.updatedById,
+  }
+}
+
+/** Reconstitutes a clock offset entity from a Prisma record. */
+export function offsetToEntity(record: PrismaCameraClockOffset): CameraClockOffset {
+  return CameraClockOffset.fromPersistence({
+    id: record.id,
+    eventId: record.event_id,
+    cameraBody: record.camera_body,
+    offsetSeconds: record.offset_seconds,
+    updatedAt: record.updated_at,
+    updatedById: record.updated_by_id,
+  })
+}
@@ -31,6 +31,7 @@ const buildRecord = (overrides: Partial<PhotoDetailSelect> = {}): PhotoDetailSel
     reviewed_at: null,
     bibs: [],
     colors: [],
+    rider_embeddings: [],
     ...overrides,
   }) as unknown as PhotoDetailSelect
 
@@ -44,6 +45,11 @@ const buildStorage = (): jest.Mocked<IStorageAdapter> => ({
   getPresignedDownloadUrl: jest.fn(async ({ key }) => `https://signed/${key}?sig=x`),
   getPublicUrl: jest.fn(),
   delete: jest.fn(),
+  createMultipartUpload: jest.fn(),
+  getPresignedPartUrl: jest.fn(),
+  listUploadedParts: jest.fn(),
+  completeMultipartUpload: jest.fn(),
+  abortMultipartUpload: jest.fn(),
 })
 
 const buildCorrectionRepo = (
@@ -63,6 +69,22 @@ describe('toDetailProjection', () => {
     expect(storage.getPresignedDownloadUrl).not.toHaveBeenCalled()
   })
 
+  it('lists the embedded rider detections for similarity lookups', async () => {
+    const record = buildRecord({
+      rider_embeddings: [
+        {
+          detection_id: 'd1',
+          class_name: 'person',
+          detection: { bbox: [0.1, 0.2, 0.4, 0.9], confidence: '0.870' },
+        },
+      ] as unknown as PhotoDetailSelect['rider_embeddings'],
+    })
+    const result = await toDetailProjection(record, cdn, buildStorage(), buildCorrectionRepo())
+    expect(result.riders).toEqual([
+      { detectionId: 'd1', className: 'person', bbox: [0.1, 0.2, 0.4, 0.9], confidence: 0.87 },
+    ])
+  })
+
   it('signs cropUrl for each bib with crop_path', async () => {
     const storage = buildStorage()
     const record = buildRecord({
@@ -74,6 +96,10 @@ describe('toDetailProjection', () => {
           status: BibReadingStatus.read,
           confidence: new Prisma.Decimal(0.95),
           crop_path: 'events/e/photos/p/crops/bibs/0.jpg',
+          readings: [
+            { digits: '20', status: BibReadingStatus.read, confidence: new Prisma.Decimal(0.95) },
+            { digits: '2', status: BibReadingStatus.read, confidence: null },
+          ],
         },
       ] as unknown as PhotoDetailSelect['bibs'],
     })
@@ -81,6 +107,10 @@ describe('toDetailProjection', () => {
     expect(result.bibs[0].cropUrl).toContain('events/e/photos/p/crops/bibs/0.jpg')
     expect(result.bibs[0].cropUrl).toContain('sig=x')
     expect(result.bibs[0].confidence).toBe(0.95)
+    expect(result.bibs[0].readings).toEqual([
+      { digits: '20', status: BibReadingStatus.read, confidence: 0.95 },
+      { digits: '2', status: BibReadingStatus.read, confidence: null },
+    ])
   })
 
   it('returns null cropUrl when bib has null crop_path', async () => {
@@ -94,6 +124,7 @@ describe('toDetailProjection', () => {
           status: BibReadingStatus.read,
           confidence: null,
           crop_path: null,
+          readings: [],
         },
       ] as unknown as PhotoDetailSelect['bibs'],
     })
@@ -117,6 +148,7 @@ describe('toDetailProjection', () => {
           status: null,
           confidence: null,
           crop_path: 'fails/0.jpg',
+          readings: [],
         },
         {
           id: 'b2',
@@ -125,6 +157,7 @@ describe('toDetailProjection', () => {
           status: null,
           confidence: null,
           crop_path: 'ok/0.jpg',
+          readings: [],
         },
       ] as unknown as PhotoDetailSelect['bibs'],
     })
@@ -166,6 +199,7 @@ describe('toDetailProjection', () => {
           status: null,
           confidence: null,
           crop_path: dupPath,
+          readings: [],
         },
       ] as unknown as PhotoDetailSelect['bibs'],
       colors: [
@@ -209,6 +243,7 @@ describe('toDetailProjection', () => {
             status: BibReadingStatus.read,
             confidence: new Prisma.Decimal(0.95),
             crop_path: null,
+            readings: [],
           },
         ] as unknown as PhotoDetailSelect['bibs'],
       })
@@ -235,6 +270,7 @@ describe('toDetailProjection', () => {
             status: BibReadingStatus.read,
             confidence: null,
             crop_path: null,
+            readings: [],
           },
         ] as unknown as PhotoDetailSelect['bibs'],
       })
@@ -45,11 +45,17 @@ export const photoDetailSelectConfig = {
     where: { deleted_at: null },
     select: {
       id: true,
+      version: true,
       source: true,
       digits: true,
       status: true,
       confidence: true,
+      rejection_reason: true,
       crop_path: true,
+      readings: {
+        select: { digits: true, status: true, confidence: true },
+        orderBy: { created_at: 'asc' as const },
+      },
     },
     orderBy: { created_at: 'asc' as const },
   },
@@ -57,6 +63,7 @@ export const photoDetailSelectConfig = {
     where: { deleted_at: null },
     select: {
       id: true,
+      version: true,
       source: true,
       region: true,
       primary_color: true,
@@ -66,6 +73,14 @@ export const photoDetailSelectConfig = {
     },
     orderBy: { created_at: 'asc' as const },
   },
+  rider_embeddings: {
+    select: {
+      detection_id: true,
+      class_name: true,
+      detection: { select: { bbox: true, confidence: true } },
+    },
+    orderBy: { created_at: 'asc' as const },
+  },
 } satisfies Prisma.PhotoSelect
 
 export type PhotoDetailSelect = Prisma.PhotoGetPayload<{ select: typeof photoDetailSelectConfig }>
@@ -108,8 +123,10 @@ export function toPersistence(entity: Photo): Prisma.PhotoUncheckedCreateInput {
     uploaded_at: entity.uploadedAt,
     processed_at: entity.processedAt,
     reviewed_at: entity.reviewedAt,
+    reviewed_by_id: entity.reviewedById,
     created_by_id: entity.createdById,
     photo_category_id: entity.photoCategoryId,
+    checkpoint_id: entity.checkpointId,
   }
 }
 
@@ -130,12 +147,14 @@ export function toEntity(record: PrismaPhoto): Photo {
     uploadedAt: record.uploaded_at,
     processedAt: record.processed_at,
     reviewedAt: record.reviewed_at,
+    reviewedById: record.reviewed_by_id,
     retouchedStorageKey: record.retouched_storage_key,
     retouchedPublicSlug: record.retouched_public_slug,
     retouchedFileSize: record.retouched_file_size,
     retouchedAt: record.retouched_at,
     retouchedById: record.retouched_by_id,
     photoCategoryId: record.photo_category_id,
+    checkpointId: record.checkpoint_id,
   })
 }
 
@@ -218,14 +237,21 @@ export async function toDetailProjection(
       const c = corrections.get(`photo_bib:${b.id}:digits`)
       return {
         id: b.id,
+        version: b.version,
         digits: c?.newValue ?? b.digits,
         digitsOriginal: b.digits,
         wasCorrected: !!c,
         correctedAt: c?.correctedAt ?? null,
         status: b.status,
         confidence: b.confidence === null ? null : Number(b.confidence),
+        rejectionReason: b.rejection_reason,
         source: b.source,
         cropUrl: b.crop_path ? (signedByPath.get(b.crop_path) ?? null) : null,
+        readings: b.readings.map((r) => ({
+          digits: r.digits,
+          status: r.status,
+          confidence: r.confidence === null ? null : Number(r.confidence),
+        })),
       }
     }),
     colors: record.colors.map((c) => {
@@ -233,6 +259,7 @@ export async function toDetailProjection(
       const cs = corrections.get(`photo_color:${c.id}:secondary_color`)
       return {
         id: c.id,
+        version: c.version,
         region: c.region,
         primaryColor: (cp?.newValue ?? c.primary_color) as string,
         primaryColorOriginal: c.primary_color,
@@ -245,6 +272,12 @@ export async function toDetailProjection(
         cropUrl: c.crop_path ? (signedByPath.get(c.crop_path) ?? null) : null,
       }
     }),
+    riders: record.rider_embeddings.map((r) => ({
+      detectionId: r.detection_id,
+      className: r.class_name,
+      bbox: r.detection.bbox as number[],
+      confidence: Number(r.detection.confidence),
+    })),
   }
 }
 
@@ -0,0 +1,41 @@
+import type {
+  Prisma,
+  PhotoRetouchRevision as PrismaPhotoRetouchRevision,
+} from '@generated/prisma/client'
+import { RetouchRevision } from '@photos/domain/entities'
+
+/** Converts a retouch revision entity to a Prisma unchecked create input. */
+export function toPersistence(
+  entity: RetouchRevision,
+): Prisma.PhotoRetouchRevisionUncheckedCreateInput {
+  return {
+    id: entity.id,
+    photo_id: entity.photoId,
+    revision: entity.revision,
+    storage_key: entity.storageKey,
+    public_slug: entity.publicSlug,
+    file_size: entity.fileSize,
+    note: entity.note,
+    created_by_id: entity.createdById,
+    created_at: entity.createdAt,
+    superseded_at: entity.supersededAt,
+    purged_at: entity.purgedAt,
+  }
+}
+
+/** Reconstitutes a retouch revision entity from a Prisma record. */
+export function toEntity(record: PrismaPhotoRetouchRevision): RetouchRevision {
+  return RetouchRevision.fromPersistence({
+    id: record.id,
+    photoId: record.photo_id,
+    revision: record.revision,
+    storageKey: record.storage_key,
+    publicSlug: record.public_slug,
+    fileSize: record.file_size,
+    note: record.note,
+    createdById: record.created_by_id,
+    createdAt: record.created_at,
+    supersededAt: record.superseded_at,
+    purgedAt: record.purged_at,
+  })
+}
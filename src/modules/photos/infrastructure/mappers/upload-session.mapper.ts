@@ -0,0 +1,112 @@
+import type {
+  Prisma,
+  UploadSession as PrismaUploadSession,
+  UploadSessionItem as PrismaUploadSessionItem,
+} from '@generated/prisma/client'
+import type {
+  UploadSessionItemProjection,
+  UploadSessionProjection,
+} from '@photos/application/projections'
+import { UploadSession, UploadSessionItem } from '@photos/domain/entities'
+import { UploadSessionItemStatus } from '@photos/domain/value-objects/upload-session-status.vo'
+import type { UploadedPart } from '@shared/storage/domain/ports'
+
+/** Converts a session entity to a Prisma unchecked create input. */
+export function toPersistence(entity: UploadSession): Prisma.UploadSessionUncheckedCreateInput {
+  return {
+    id: entity.id,
+    event_id: entity.eventId,
+    status: entity.status,
+    part_size: entity.partSize,
+    photo_category_id: entity.photoCategoryId,
+    created_at: entity.createdAt,
+    updated_at: entity.updatedAt,
+    completed_at: entity.completedAt,
+    aborted_at: entity.abortedAt,
+    created_by_id: entity.createdById,
+    checkpoint_id: entity.checkpointId,
+  }
+}
+
+/** Reconstitutes a session entity from a Prisma record. */
+export function toEntity(record: PrismaUploadSession): UploadSession {
+  return UploadSession.fromPersistence({
+    id: record.id,
+    eventId: record.event_id,
+    status: record.status,
+    partSize: record.part_size,
+    photoCategoryId: record.photo_category_id,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+    completedAt: record.completed_at,
+    abortedAt: record.aborted_at,
+    createdById: record.created_by_id,
+    checkpointId: record.checkpoint_id,
+  })
+}
+
+/** Converts an item entity to a Prisma unchecked create input. */
+export function itemToPersistence(
+  entity: UploadSessionItem,
+): Prisma.UploadSessionItemUncheckedCreateInput {
+  return {
+    id: entity.id,
+    session_id: entity.sessionId,
+    file_name: entity.fileName,
+    file_size: entity.fileSize,
+    content_type: entity.contentType,
+    object_key: entity.objectKey,
+    upload_id: entity.uploadId,
+    total_parts: entity.totalParts,
+    completed_parts: entity.completedParts as unknown as Prisma.InputJsonValue,
+    status: entity.status,
+    completed_at: entity.completedAt,
+  }
+}
+
+/** Reconstitutes an item entity from a Prisma record. */
+export function itemToEntity(record: PrismaUploadSessionItem): UploadSessionItem {
+  return UploadSessionItem.fromPersistence({
+    id: record.id,
+    sessionId: record.session_id,
+    fileName: record.file_name,
+    fileSize: record.file_size,
+    contentType: record.content_type,
+    objectKey: record.object_key,
+    uploadId: record.upload_id,
+    totalParts: record.total_parts,
+    completedParts: record.completed_parts as unknown as UploadedPart[],
+    status: record.status,
+    completedAt: record.completed_at,
+  })
+}
+
+/** Maps an item entity to the per-file state returned to the uploader. */
+export function toItemProjection(item: UploadSessionItem): UploadSessionItemProjection {
+  return {
+    id: item.id,
+    fileName: item.fileName,
+    fileSize: Number(item.fileSize),
+    objectKey: item.objectKey,
+    status: item.status,
+    totalParts: item.totalParts,
+    missingParts: item.isOutstanding ? item.missingParts() : [],
+  }
+}
+
+/** Maps a session and its items to the full state returned when starting or resuming. */
+export function toSessionProjection(
+  session: UploadSession,
+  items: UploadSessionItem[],
+): UploadSessionProjection {
+  return {
+    id: session.id,
+    eventId: session.eventId,
+    status: session.status,
+    partSize: session.partSize,
+    totalItems: items.length,
+    completedItems: items.filter((i) => i.status === UploadSessionItemStatus.COMPLETED).length,
+    duplicateItems: items.filter((i) => i.status === UploadSessionItemStatus.DUPLICATE).length,
+    items: items.map(toItemProjection),
+  }
+}
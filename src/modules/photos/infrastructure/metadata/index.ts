@@ -0,0 +1,2 @@
+export { parseJpegMetadata } from './jpeg-metadata.parser'
+export { StoragePhotoMetadataReader } from './storage-photo-metadata.reader'
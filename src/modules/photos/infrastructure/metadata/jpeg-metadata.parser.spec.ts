@@ -0,0 +1,190 @@
+import { parseJpegMetadata } from './jpeg-metadata.parser'
+
+type Entry = { tag: number; type: number; count: number; data: Buffer }
+
+const ascii = (tag: number, value: string): Entry => ({
+  tag,
+  type: 2,
+  count: value.length + 1,
+  data: Buffer.from(`${value}\0`, 'latin1'),
+})
+const short = (tag: number, value: number): Entry => {
+  const data = Buffer.alloc(2)
+  data.writeUInt16LE(value)
+  return { tag, type: 3, count: 1, data }
+}
+const long = (tag: number, value: number): Entry => {
+  const data = Buffer.alloc(4)
+  data.writeUInt32LE(value)
+  return { tag, type: 4, count: 1, data }
+}
+const byte = (tag: number, value: number): Entry => ({
+  tag,
+  type: 1,
+  count: 1,
+  data: Buffer.from([value]),
+})
+const rational = (tag: number, pairs: Array<[number, number]>): Entry => {
+  const data = Buffer.alloc(pairs.length * 8)
+  pairs.forEach(([num, den], i) => {
+    data.writeUInt32LE(num, i * 8)
+    data.writeUInt32LE(den, i * 8 + 4)
+  })
+  return { tag, type: 5, count: pairs.length, data }
+}
+
+/** Builds a little-endian TIFF block: IFD0, then the Exif and GPS IFDs it points to. */
+function buildTiff(ifd0: Entry[], exif: Entry[], gps: Entry[]): Buffer {
+  const ifds = [ifd0, exif, gps]
+  const ifdOffsets: number[] = []
+  let offset = 8
+  for (const ifd of ifds) {
+    ifdOffsets.push(offset)
+    offset += 2 + ifd.length * 12 + 4
+  }
+  ifd0.push(long(0x8769, ifdOffsets[1]), long(0x8825, ifdOffsets[2]))
+  ifdOffsets[1] += 24
+  ifdOffsets[2] += 24
+  ifd0[ifd0.length - 2] = long(0x8769, ifdOffsets[1])
+  ifd0[ifd0.length - 1] = long(0x8825, ifdOffsets[2])
+  offset += 24
+
+  const header = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00])
+  const blocks: Buffer[] = [header]
+  const data: Buffer[] = []
+  let dataOffset = offset
+  for (const ifd of ifds) {
+    const block = Buffer.alloc(2 + ifd.length * 12 + 4)
+    block.writeUInt16LE(ifd.length)
+    ifd.forEach((entry, i) => {
+      const at = 2 + i * 12
+      block.writeUInt16LE(entry.tag, at)
+      block.writeUInt16LE(entry.type, at + 2)
+      block.writeUInt32LE(entry.count, at + 4)
+      if (entry.data.length <= 4) {
+        entry.data.copy(block, at + 8)
+      } else {
+        block.writeUInt32LE(dataOffset, at + 8)
+        data.push(entry.data)
+        dataOffset += entry.data.length
+      }
+    })
+    blocks.push(block)
+  }
+  return Buffer.concat([...blocks, ...data])
+}
+
+function buildJpeg(tiff: Buffer | null, width: number, height: number): Buffer {
+  const segments: Buffer[] = [Buffer.from([0xff, 0xd8])]
+  if (tiff) {
+    const app1 = Buffer.alloc(4)
+    app1.writeUInt16BE(0xffe1)
+    app1.writeUInt16BE(2 + 6 + tiff.length, 2)
+    segments.push(app1, Buffer.from('Exif\0\0', 'latin1'), tiff)
+  }
+  const sof = Buffer.alloc(19)
+  sof.writeUInt16BE(0xffc0)
+  sof.writeUInt16BE(17, 2)
+  sof[4] = 8
+  sof.writeUInt16BE(height, 5)
+  sof.writeUInt16BE(width, 7)
+  sof[9] = 3
+  segments.push(sof, Buffer.from([0xff, 0xda, 0x00, 0x02]))
+  return Buffer.concat(segments)
+}
+
+describe('parseJpegMetadata', () => {
+  it('reads camera body, lens, capture time and GPS from EXIF and size from the frame header', () => {
+    const tiff = buildTiff(
+      [ascii(0x010f, 'Canon'), ascii(0x0110, 'Canon EOS R6'), short(0x0112, 6)],
+      [
+        ascii(0x9003, '2026:03:14 08:30:15'),
+        ascii(0x9011, '-05:00'),
+        ascii(0x9291, '25'),
+        ascii(0xa431, '032021001234'),
+        ascii(0xa434, 'RF70-200mm F2.8 L IS USM'),
+      ],
+      [
+        ascii(0x0001, 'S'),
+        rational(0x0002, [
+          [0, 1],
+          [10, 1],
+          [3000, 100],
+        ]),
+        ascii(0x0003, 'W'),
+        rational(0x0004, [
+          [78, 1],
+          [30, 1],
+          [0, 1],
+        ]),
+        byte(0x0005, 0),
+        rational(0x0006, [[28500, 10]]),
+      ],
+    )
+
+    const metadata = parseJpegMetadata(buildJpeg(tiff, 6000, 4000))
+
+    expect(metadata).toEqual({
+      capturedAt: new Date('2026-03-14T13:30:15.250Z'),
+      cameraMake: 'Canon',
+      cameraModel: 'Canon EOS R6',
+      cameraSerial: '032021001234',
+      lensModel: 'RF70-200mm F2.8 L IS USM',
+      orientation: 6,
+      gpsLatitude: -(10 / 60 + 30 / 3600),
+      gpsLongitude: -78.5,
+      gpsAltitude: 2850,
+      width: 6000,
+      height: 4000,
+    })
+  })
+
+  it('takes the camera time as UTC when no offset is recorded', () => {
+    const tiff = buildTiff([ascii(0x010f, 'SONY')], [ascii(0x9003, '2026:03:14 08:30:15')], [])
+
+    const metadata = parseJpegMetadata(buildJpeg(tiff, 100, 50))
+
+    expect(metadata?.capturedAt).toEqual(new Date('2026-03-14T08:30:15.000Z'))
+    expect(metadata?.gpsLatitude).toBeNull()
+  })
+
+  it('returns only dimensions for a JPEG without EXIF', () => {
+    const metadata = parseJpegMetadata(buildJpeg(null, 1920, 1080))
+
+    expect(metadata).toMatchObject({
+      capturedAt: null,
+      cameraMake: null,
+      width: 1920,
+      height: 1080,
+    })
+  })
+
+  it('skips SHORT and LONG values whose offset points past the EXIF block', () => {
+    // Too large to sit inline, so the 4 value bytes are read as an offset into the block
+    const outOfRange = (tag: number, type: number): Entry => {
+      const data = Buffer.alloc(4)
+      data.writeUInt32LE(0x00ffff00)
+      return { tag, type, count: 3, data }
+    }
+    const tiff = buildTiff(
+      [ascii(0x010f, 'Canon'), outOfRange(0x0112, 3)],
+      [outOfRange(0xa002, 4), outOfRange(0xa003, 3)],
+      [],
+    )
+
+    const metadata = parseJpegMetadata(buildJpeg(tiff, 640, 480))
+
+    expect(metadata).toMatchObject({
+      cameraMake: 'Canon',
+      orientation: null,
+      width: 640,
+      height: 480,
+    })
+  })
+
+  it('returns null for non-JPEG files', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+    expect(parseJpegMetadata(png)).toBeNull()
+  })
+})
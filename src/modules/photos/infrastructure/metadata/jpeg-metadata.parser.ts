@@ -0,0 +1,210 @@
+import type { PhotoMetadata } from '@photos/domain/ports'
+
+// IFD0
+const TAG_MAKE = 0x010f
+const TAG_MODEL = 0x0110
+const TAG_ORIENTATION = 0x0112
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+// Exif IFD
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011
+const TAG_SUBSEC_TIME_ORIGINAL = 0x9291
+const TAG_PIXEL_X = 0xa002
+const TAG_PIXEL_Y = 0xa003
+const TAG_BODY_SERIAL = 0xa431
+const TAG_LENS_MODEL = 0xa434
+// GPS IFD
+const TAG_GPS_LAT_REF = 0x0001
+const TAG_GPS_LAT = 0x0002
+const TAG_GPS_LON_REF = 0x0003
+const TAG_GPS_LON = 0x0004
+const TAG_GPS_ALT_REF = 0x0005
+const TAG_GPS_ALT = 0x0006
+
+/** Byte size of each TIFF field type (BYTE, ASCII, SHORT, LONG, RATIONAL, …). */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+/** SOF markers carrying frame dimensions (C4 DHT, C8 JPG and CC DAC are not frames). */
+const SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+])
+
+type IfdEntry = { type: number; count: number; valueOffset: number }
+
+/**
+ * Reads EXIF (APP1) and frame dimensions (SOFn) from the head of a JPEG file.
+ * Returns null when the buffer is not a JPEG. Malformed or truncated segments
+ * are skipped, leaving the affected fields null.
+ */
+export function parseJpegMetadata(buffer: Buffer): PhotoMetadata | null {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null
+
+  const metadata = emptyMetadata()
+  let pos = 2
+  while (pos + 4 <= buffer.length) {
+    if (buffer[pos] !== 0xff) break
+    const marker = buffer[pos + 1]
+    if (marker === 0xff) {
+      pos++
+      continue
+    }
+    // Start of scan: image data follows, no more metadata
+    if (marker === 0xda || marker === 0xd9) break
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      pos += 2
+      continue
+    }
+
+    const length = buffer.readUInt16BE(pos + 2)
+    const segmentStart = pos + 4
+    const segmentEnd = Math.min(pos + 2 + length, buffer.length)
+
+    if (
+      marker === 0xe1 &&
+      buffer.toString('latin1', segmentStart, segmentStart + 6) === 'Exif\0\0'
+    ) {
+      readExif(buffer.subarray(segmentStart + 6, segmentEnd), metadata)
+    } else if (SOF_MARKERS.has(marker) && segmentStart + 5 <= buffer.length) {
+      metadata.height = buffer.readUInt16BE(segmentStart + 1)
+      metadata.width = buffer.readUInt16BE(segmentStart + 3)
+    }
+
+    pos += 2 + length
+  }
+  return metadata
+}
+
+function emptyMetadata(): PhotoMetadata {
+  return {
+    capturedAt: null,
+    cameraMake: null,
+    cameraModel: null,
+    cameraSerial: null,
+    lensModel: null,
+    orientation: null,
+    gpsLatitude: null,
+    gpsLongitude: null,
+    gpsAltitude: null,
+    width: null,
+    height: null,
+  }
+}
+
+function readExif(tiff: Buffer, metadata: PhotoMetadata): void {
+  if (tiff.length < 8) return
+  const order = tiff.toString('latin1', 0, 2)
+  if (order !== 'II' && order !== 'MM') return
+  const le = order === 'II'
+  const u16 = (o: number) => (le ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o))
+  const u32 = (o: number) => (le ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o))
+  const i32 = (o: number) => (le ? tiff.readInt32LE(o) : tiff.readInt32BE(o))
+
+  const readIfd = (offset: number): Map<number, IfdEntry> => {
+    const entries = new Map<number, IfdEntry>()
+    if (offset + 2 > tiff.length) return entries
+    const count = u16(offset)
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12
+      if (at + 12 > tiff.length) break
+      const type = u16(at + 2)
+      const n = u32(at + 4)
+      const size = (TYPE_SIZES[type] ?? 0) * n
+      entries.set(u16(at), { type, count: n, valueOffset: size <= 4 ? at + 8 : u32(at + 8) })
+    }
+    return entries
+  }
+
+  const ascii = (entry: IfdEntry | undefined): string | null => {
+    if (!entry || entry.type !== 2) return null
+    const end = entry.valueOffset + entry.count
+    if (end > tiff.length) return null
+    const value = tiff.toString('latin1', entry.valueOffset, end).replace(/\0.*$/s, '').trim()
+    return value || null
+  }
+
+  const integer = (entry: IfdEntry | undefined): number | null => {
+    if (!entry || (entry.type !== 3 && entry.type !== 4)) return null
+    if (entry.valueOffset + TYPE_SIZES[entry.type] > tiff.length) return null
+    return entry.type === 3 ? u16(entry.valueOffset) : u32(entry.valueOffset)
+  }
+
+  const rationals = (entry: IfdEntry | undefined): number[] | null => {
+    if (!entry || (entry.type !== 5 && entry.type !== 10)) return null
+    if (entry.valueOffset + entry.count * 8 > tiff.length) return null
+    const values: number[] = []
+    for (let i = 0; i < entry.count; i++) {
+      const at = entry.valueOffset + i * 8
+      const num = entry.type === 5 ? u32(at) : i32(at)
+      const den = entry.type === 5 ? u32(at + 4) : i32(at + 4)
+      if (den === 0) return null
+      values.push(num / den)
+    }
+    return values
+  }
+
+  const ifd0 = readIfd(u32(4))
+  metadata.cameraMake = ascii(ifd0.get(TAG_MAKE))
+  metadata.cameraModel = ascii(ifd0.get(TAG_MODEL))
+  metadata.orientation = integer(ifd0.get(TAG_ORIENTATION))
+
+  const exifPointer = integer(ifd0.get(TAG_EXIF_IFD))
+  if (exifPointer !== null) {
+    const exif = readIfd(exifPointer)
+    metadata.capturedAt = parseExifDate(
+      ascii(exif.get(TAG_DATE_TIME_ORIGINAL)),
+      ascii(exif.get(TAG_SUBSEC_TIME_ORIGINAL)),
+      ascii(exif.get(TAG_OFFSET_TIME_ORIGINAL)),
+    )
+    metadata.cameraSerial = ascii(exif.get(TAG_BODY_SERIAL))
+    metadata.lensModel = ascii(exif.get(TAG_LENS_MODEL))
+    // The SOF frame header is authoritative; EXIF pixel dimensions only fill gaps
+    metadata.width ??= integer(exif.get(TAG_PIXEL_X))
+    metadata.height ??= integer(exif.get(TAG_PIXEL_Y))
+  }
+
+  const gpsPointer = integer(ifd0.get(TAG_GPS_IFD))
+  if (gpsPointer !== null) {
+    const gps = readIfd(gpsPointer)
+    const lat = toDegrees(rationals(gps.get(TAG_GPS_LAT)))
+    const lon = toDegrees(rationals(gps.get(TAG_GPS_LON)))
+    if (lat !== null && lon !== null) {
+      metadata.gpsLatitude = ascii(gps.get(TAG_GPS_LAT_REF)) === 'S' ? -lat : lat
+      metadata.gpsLongitude = ascii(gps.get(TAG_GPS_LON_REF)) === 'W' ? -lon : lon
+    }
+    const alt = rationals(gps.get(TAG_GPS_ALT))
+    if (alt) {
+      const below = gps.get(TAG_GPS_ALT_REF)
+      metadata.gpsAltitude = below && tiff[below.valueOffset] === 1 ? -alt[0] : alt[0]
+    }
+  }
+}
+
+function toDegrees(dms: number[] | null): number | null {
+  if (!dms || dms.length < 3) return null
+  return dms[0] + dms[1] / 60 + dms[2] / 3600
+}
+
+/**
+ * Parses `YYYY:MM:DD HH:MM:SS`. Without an OffsetTimeOriginal the camera time is
+ * taken as UTC; the per-camera clock offset absorbs any timezone mismatch.
+ */
+function parseExifDate(
+  value: string | null,
+  subSec: string | null,
+  offset: string | null,
+): Date | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/)
+  if (!match) return null
+  const [, y, mo, d, h, mi, s] = match.map(Number)
+  const ms = subSec && /^\d+$/.test(subSec) ? Math.round(Number(`0.${subSec}`) * 1000) : 0
+  let time = Date.UTC(y, mo - 1, d, h, mi, s, ms)
+  if (Number.isNaN(time) || y === 0) return null
+
+  const tz = offset?.match(/^([+-])(\d{2}):(\d{2})$/)
+  if (tz) {
+    const minutes = Number(tz[2]) * 60 + Number(tz[3])
+    time -= (tz[1] === '+' ? 1 : -1) * minutes * 60_000
+  }
+  return new Date(time)
+}
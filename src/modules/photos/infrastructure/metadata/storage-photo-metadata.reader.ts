@@ -0,0 +1,33 @@
+import { Inject, Injectable } from '@nestjs/common'
+import type { IPhotoMetadataReader, PhotoMetadata } from '@photos/domain/ports'
+import { AppException } from '@shared/domain'
+import { type IStorageAdapter, STORAGE_ADAPTER } from '@shared/storage/domain/ports'
+import { parseJpegMetadata } from './jpeg-metadata.parser'
+
+/** EXIF lives in APP1 (≤ 64 KiB); the rest covers ICC/MPF segments ahead of the frame header. */
+const HEAD_BYTES = 256 * 1024
+const DOWNLOAD_URL_EXPIRY_SECONDS = 300
+
+/**
+ * Reads metadata from the stored original with a ranged GET of its first bytes,
+ * so multi-megabyte photos are never downloaded whole. Only JPEG is parsed.
+ */
+@Injectable()
+export class StoragePhotoMetadataReader implements IPhotoMetadataReader {
+  constructor(@Inject(STORAGE_ADAPTER) private readonly storage: IStorageAdapter) {}
+
+  async read(storageKey: string): Promise<PhotoMetadata | null> {
+    const url = await this.storage.getPresignedDownloadUrl({
+      key: storageKey,
+      expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS,
+    })
+    const response = await fetch(url, { headers: { Range: `bytes=0-${HEAD_BYTES - 1}` } })
+    if (!response.ok) {
+      throw AppException.externalService(
+        'BackblazeB2',
+        new Error(`Failed to read ${storageKey}: ${response.status} ${response.statusText}`),
+      )
+    }
+    return parseJpegMetadata(Buffer.from(await response.arrayBuffer()))
+  }
+}
@@ -0,0 +1,30 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq'
+import { Logger } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { PropagateBurstBibsCommand } from '@photos/application/commands/propagate-burst-bibs/propagate-burst-bibs.command'
+import type { Job } from 'bullmq'
+
+export interface BurstPropagationJobData {
+  photoId: string
+}
+
+/** One at a time: neighbouring frames of a burst would otherwise race on the same suggestions. */
+@Processor('burst-propagation', { concurrency: 1 })
+export class BurstPropagationProcessor extends WorkerHost {
+  private readonly logger = new Logger(BurstPropagationProcessor.name)
+
+  constructor(private readonly commandBus: CommandBus) {
+    super()
+  }
+
+  async process(job: Job<BurstPropagationJobData>): Promise<void> {
+    const { photoId } = job.data
+    try {
+      await this.commandBus.execute(new PropagateBurstBibsCommand(photoId))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.logger.error(`✘ Burst ${photoId}: ${message}`)
+      throw error
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq'
 import { Inject, Logger } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { EmbedPhotoDetectionsCommand } from '@photos/application/commands/embed-photo-detections/embed-photo-detections.command'
 import { type IPhotoReadRepository, PHOTO_READ_REPOSITORY } from '@photos/domain/ports'
 import { CdnUrlBuilder } from '@shared/cloudflare/infrastructure'
 import { EMBEDDING_ADAPTER, type IEmbeddingAdapter } from '@shared/embeddings'
@@ -24,12 +26,26 @@ export class EmbeddingGenerationProcessor extends WorkerHost {
     @Inject(EMBEDDING_ADAPTER) private readonly embeddingAdapter: IEmbeddingAdapter,
     private readonly prisma: PrismaService,
     private readonly cdn: CdnUrlBuilder,
+    private readonly commandBus: CommandBus,
   ) {
     super()
   }
 
   async process(job: Job<EmbeddingGenerationJobData>): Promise<void> {
     const { photoId } = job.data
+
+    // Per-rider crops, enqueued once classification has produced the detections
+    if (job.name === 'generate-detection-embeddings') {
+      try {
+        await this.commandBus.execute(new EmbedPhotoDetectionsCommand(photoId))
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        this.logger.error(`✘ Detections ${photoId}: ${message}`)
+        throw error
+      }
+      return
+    }
+
     this.logger.log(`Generating embedding for photo ${photoId}`)
 
     try {
@@ -0,0 +1,34 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq'
+import { Logger } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { ExtractPhotoExifCommand } from '@photos/application/commands/extract-photo-exif/extract-photo-exif.command'
+import type { Job } from 'bullmq'
+
+export interface ExifExtractionJobData {
+  photoId: string
+}
+
+const EXIF_EXTRACTION_CONCURRENCY = Number.parseInt(
+  process.env.EXIF_EXTRACTION_CONCURRENCY ?? '5',
+  10,
+)
+
+@Processor('exif-extraction', { concurrency: EXIF_EXTRACTION_CONCURRENCY })
+export class ExifExtractionProcessor extends WorkerHost {
+  private readonly logger = new Logger(ExifExtractionProcessor.name)
+
+  constructor(private readonly commandBus: CommandBus) {
+    super()
+  }
+
+  async process(job: Job<ExifExtractionJobData>): Promise<void> {
+    const { photoId } = job.data
+    try {
+      await this.commandBus.execute(new ExtractPhotoExifCommand(photoId))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.logger.error(`✘ EXIF ${photoId}: ${message}`)
+      throw error
+    }
+  }
+}
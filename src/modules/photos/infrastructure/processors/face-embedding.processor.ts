@@ -0,0 +1,34 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq'
+import { Logger } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { EmbedPhotoFacesCommand } from '@photos/application/commands/embed-photo-faces/embed-photo-faces.command'
+import type { Job } from 'bullmq'
+
+export interface FaceEmbeddingJobData {
+  photoId: string
+}
+
+const FACE_EMBEDDING_CONCURRENCY = Number.parseInt(
+  process.env.FACE_EMBEDDING_CONCURRENCY ?? '3',
+  10,
+)
+
+@Processor('face-embedding', { concurrency: FACE_EMBEDDING_CONCURRENCY })
+export class FaceEmbeddingProcessor extends WorkerHost {
+  private readonly logger = new Logger(FaceEmbeddingProcessor.name)
+
+  constructor(private readonly commandBus: CommandBus) {
+    super()
+  }
+
+  async process(job: Job<FaceEmbeddingJobData>): Promise<void> {
+    const { photoId } = job.data
+    try {
+      await this.commandBus.execute(new EmbedPhotoFacesCommand(photoId))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.logger.error(`✘ Faces ${photoId}: ${message}`)
+      throw error
+    }
+  }
+}
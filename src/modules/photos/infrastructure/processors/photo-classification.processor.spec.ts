@@ -1,3 +1,4 @@
+import { getQueueToken } from '@nestjs/bullmq'
 import { CommandBus } from '@nestjs/cqrs'
 import { Test } from '@nestjs/testing'
 import { PhotoClassificationProcessor } from './photo-classification.processor'
@@ -5,11 +6,20 @@ import { PhotoClassificationProcessor } from './photo-classification.processor'
 describe('PhotoClassificationProcessor', () => {
   let processor: PhotoClassificationProcessor
   const commandBus = { execute: jest.fn() }
+  const faceEmbeddingQueue = { add: jest.fn() }
+  const embeddingQueue = { add: jest.fn() }
+  const burstQueue = { add: jest.fn() }
 
   beforeEach(async () => {
     jest.clearAllMocks()
     const m = await Test.createTestingModule({
-      providers: [PhotoClassificationProcessor, { provide: CommandBus, useValue: commandBus }],
+      providers: [
+        PhotoClassificationProcessor,
+        { provide: CommandBus, useValue: commandBus },
+        { provide: getQueueToken('face-embedding'), useValue: faceEmbeddingQueue },
+        { provide: getQueueToken('embedding-generation'), useValue: embeddingQueue },
+        { provide: getQueueToken('burst-propagation'), useValue: burstQueue },
+      ],
     }).compile()
     processor = m.get(PhotoClassificationProcessor)
   })
@@ -20,10 +30,43 @@ describe('PhotoClassificationProcessor', () => {
     expect(commandBus.execute).toHaveBeenCalledTimes(1)
   })
 
+  it('queues face embedding once the photo is classified', async () => {
+    commandBus.execute.mockResolvedValue(undefined)
+    await processor.process({ data: { photoId: 'p-1' }, attemptsMade: 0 } as never)
+    expect(faceEmbeddingQueue.add).toHaveBeenCalledWith(
+      'embed-faces',
+      { photoId: 'p-1' },
+      expect.objectContaining({ attempts: 3 }),
+    )
+  })
+
+  it('queues rider crop embeddings once the photo is classified', async () => {
+    commandBus.execute.mockResolvedValue(undefined)
+    await processor.process({ data: { photoId: 'p-1' }, attemptsMade: 0 } as never)
+    expect(embeddingQueue.add).toHaveBeenCalledWith(
+      'generate-detection-embeddings',
+      { photoId: 'p-1' },
+      expect.objectContaining({ attempts: 3 }),
+    )
+  })
+
+  it('queues delayed burst propagation once the photo is classified', async () => {
+    commandBus.execute.mockResolvedValue(undefined)
+    await processor.process({ data: { photoId: 'p-1' }, attemptsMade: 0 } as never)
+    expect(burstQueue.add).toHaveBeenCalledWith(
+      'propagate-burst-bibs',
+      { photoId: 'p-1' },
+      expect.objectContaining({ delay: expect.any(Number) }),
+    )
+  })
+
   it('rethrows when command fails (BullMQ retry)', async () => {
     commandBus.execute.mockRejectedValue(new Error('network'))
     await expect(
       processor.process({ data: { photoId: 'p-1' }, attemptsMade: 0 } as any),
     ).rejects.toThrow('network')
+    expect(faceEmbeddingQueue.add).not.toHaveBeenCalled()
+    expect(embeddingQueue.add).not.toHaveBeenCalled()
+    expect(burstQueue.add).not.toHaveBeenCalled()
   })
 })
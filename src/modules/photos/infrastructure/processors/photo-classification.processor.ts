@@ -1,8 +1,8 @@
 import { ProcessPhotoClassificationCommand } from '@classifications/application/commands/process-photo-classification/process-photo-classification.command'
-import { Processor, WorkerHost } from '@nestjs/bullmq'
+import { InjectQueue, Processor, WorkerHost } from '@nestjs/bullmq'
 import { Logger } from '@nestjs/common'
 import { CommandBus } from '@nestjs/cqrs'
-import type { Job } from 'bullmq'
+import type { Job, Queue } from 'bullmq'
 
 export interface PhotoClassificationJobData {
   photoId: string
@@ -13,11 +13,18 @@ const CLASSIFICATION_CONCURRENCY = Number.parseInt(
   10,
 )
 
+const BURST_PROPAGATION_DELAY_MS = 60_000
+
 @Processor('photo-classification', { concurrency: CLASSIFICATION_CONCURRENCY })
 export class PhotoClassificationProcessor extends WorkerHost {
   private readonly logger = new Logger(PhotoClassificationProcessor.name)
 
-  constructor(private readonly commandBus: CommandBus) {
+  constructor(
+    private readonly commandBus: CommandBus,
+    @InjectQueue('face-embedding') private readonly faceEmbeddingQueue: Queue,
+    @InjectQueue('embedding-generation') private readonly embeddingQueue: Queue,
+    @InjectQueue('burst-propagation') private readonly burstQueue: Queue,
+  ) {
     super()
   }
 
@@ -31,5 +38,27 @@ export class PhotoClassificationProcessor extends WorkerHost {
       this.logger.error(`✘ ${photoId}: ${message}`)
       throw error
     }
+
+    // Faces and rider crops come from the detections, so they wait for the classification
+    await this.faceEmbeddingQueue.add(
+      'embed-faces',
+      { photoId },
+      { attempts: 3, backoff: { type: 'exponential', delay: 5000 } },
+    )
+    await this.embeddingQueue.add(
+      'generate-detection-embeddings',
+      { photoId },
+      { attempts: 3, backoff: { type: 'exponential', delay: 5000 } },
+    )
+    // Delayed so the neighbouring frames of the burst are classified and embedded too
+    await this.burstQueue.add(
+      'propagate-burst-bibs',
+      { photoId },
+      {
+        delay: BURST_PROPAGATION_DELAY_MS,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+      },
+    )
   }
 }
@@ -0,0 +1,30 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq'
+import { Logger } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { PurgeRetouchRevisionCommand } from '@photos/application/commands/purge-retouch-revision/purge-retouch-revision.command'
+import type { Job } from 'bullmq'
+
+export interface RetouchRetentionJobData {
+  revisionId: string
+}
+
+/** Runs the delayed purge scheduled when a retouch revision is replaced. */
+@Processor('retouch-retention')
+export class RetouchRetentionProcessor extends WorkerHost {
+  private readonly logger = new Logger(RetouchRetentionProcessor.name)
+
+  constructor(private readonly commandBus: CommandBus) {
+    super()
+  }
+
+  async process(job: Job<RetouchRetentionJobData>): Promise<void> {
+    const { revisionId } = job.data
+    try {
+      await this.commandBus.execute(new PurgeRetouchRevisionCommand(revisionId))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.logger.error(`✘ Retouch revision purge ${revisionId}: ${message}`)
+      throw error
+    }
+  }
+}
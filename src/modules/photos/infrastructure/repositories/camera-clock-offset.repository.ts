@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common'
+import type { CameraClockOffset } from '@photos/domain/entities'
+import type { ICameraClockOffsetRepository } from '@photos/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as PhotoExifMapper from '../mappers/photo-exif.mapper'
+
+@Injectable()
+export class CameraClockOffsetRepository implements ICameraClockOffsetRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findByCamera(eventId: string, cameraBody: string): Promise<CameraClockOffset | null> {
+    const record = await this.prisma.cameraClockOffset.findUnique({
+      where: { event_id_camera_body: { event_id: eventId, camera_body: cameraBody } },
+    })
+    return record ? PhotoExifMapper.offsetToEntity(record) : null
+  }
+
+  /** Persists the offset (create or update). */
+  async save(offset: CameraClockOffset): Promise<void> {
+    const data = PhotoExifMapper.offsetToPersistence(offset)
+    await this.prisma.cameraClockOffset.upsert({
+      where: { id: offset.id },
+      create: data,
+      update: data,
+    })
+  }
+}
@@ -12,12 +12,20 @@ describe('CorrectionRepository', () => {
         create: jest.fn(),
         findFirst: jest.fn(),
       },
+      photoBib: { update: jest.fn() },
+      photoColor: { update: jest.fn() },
       $queryRaw: jest.fn(),
     }
+    prisma.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(prisma))
     repo = new CorrectionRepository(prisma as PrismaService)
   })
 
   describe('appendCorrection', () => {
+    const unleased = () =>
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ lease_holder: null }])
+        .mockResolvedValueOnce([{ version: 1 }])
+
     it('creates a row with all fields mapped', async () => {
       const created = {
         id: 'c-1',
@@ -31,16 +39,20 @@ describe('CorrectionRepository', () => {
         corrected_at: new Date(),
         reason: null,
       }
+      unleased()
       prisma.correction.create.mockResolvedValue(created)
-      const result = await repo.appendCorrection({
-        photoId: 'p-1',
-        targetType: CorrectionTargetType.photo_bib,
-        targetId: 't-1',
-        field: 'digits',
-        oldValue: '20',
-        newValue: '42',
-        reviewerId: 'r-1',
-      })
+      const result = await repo.appendCorrection(
+        {
+          photoId: 'p-1',
+          targetType: CorrectionTargetType.photo_bib,
+          targetId: 't-1',
+          field: 'digits',
+          oldValue: '20',
+          newValue: '42',
+          reviewerId: 'r-1',
+        },
+        1,
+      )
       expect(prisma.correction.create).toHaveBeenCalledWith({
         data: {
           photo_id: 'p-1',
@@ -52,7 +64,69 @@ describe('CorrectionRepository', () => {
           reviewer_id: 'r-1',
         },
       })
-      expect(result).toBe(created)
+      expect(result).toEqual({ applied: true, correction: created })
+      expect(prisma.photoBib.update).toHaveBeenCalledWith({
+        where: { id: 't-1' },
+        data: { version: { increment: 1 } },
+      })
+      expect(prisma.photoColor.update).not.toHaveBeenCalled()
+    })
+
+    it('bumps the version of a corrected color', async () => {
+      unleased()
+      prisma.correction.create.mockResolvedValue({ id: 'c-2' })
+      await repo.appendCorrection(
+        {
+          photoId: 'p-1',
+          targetType: CorrectionTargetType.photo_color,
+          targetId: 'col-1',
+          field: 'primary_color',
+          oldValue: 'red',
+          newValue: 'blue',
+          reviewerId: 'r-1',
+        },
+        1,
+      )
+      expect(prisma.photoColor.update).toHaveBeenCalledWith({
+        where: { id: 'col-1' },
+        data: { version: { increment: 1 } },
+      })
+      expect(prisma.photoBib.update).not.toHaveBeenCalled()
+    })
+
+    const input = {
+      photoId: 'p-1',
+      targetType: CorrectionTargetType.photo_bib,
+      targetId: 't-1',
+      field: 'digits',
+      oldValue: '20',
+      newValue: '42',
+      reviewerId: 'r-1',
+    }
+
+    it("refuses while another reviewer's session leases the photo", async () => {
+      prisma.$queryRaw.mockResolvedValueOnce([{ lease_holder: 'r-2' }])
+      expect(await repo.appendCorrection(input, 1)).toEqual({
+        applied: false,
+        reason: 'photo_leased',
+      })
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1)
+      expect(prisma.correction.create).not.toHaveBeenCalled()
+    })
+
+    it('lets the reviewer holding the lease correct the photo', async () => {
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ lease_holder: 'r-1' }])
+        .mockResolvedValueOnce([{ version: 1 }])
+      prisma.correction.create.mockResolvedValue({ id: 'c-3' })
+      expect(await repo.appendCorrection(input, 1)).toMatchObject({ applied: true })
+    })
+
+    it('refuses a stale or deleted target without writing', async () => {
+      prisma.$queryRaw.mockResolvedValueOnce([{ lease_holder: null }]).mockResolvedValueOnce([])
+      expect(await repo.appendCorrection(input, 1)).toEqual({ applied: false, reason: 'stale' })
+      expect(prisma.correction.create).not.toHaveBeenCalled()
+      expect(prisma.photoBib.update).not.toHaveBeenCalled()
     })
   })
 
@@ -4,24 +4,41 @@ import {
   type IAppendCorrectionInput,
   type ICorrectionRepository,
   type ILatestCorrection,
+  type TargetWriteRefusal,
 } from '@photos/domain/ports'
 import { PrismaService } from '@shared/infrastructure'
+import { lockReviewTarget } from './review-target-lock'
 
 @Injectable()
 export class CorrectionRepository implements ICorrectionRepository {
   constructor(private readonly prisma: PrismaService) {}
 
-  async appendCorrection(input: IAppendCorrectionInput): Promise<Correction> {
-    return this.prisma.correction.create({
-      data: {
-        photo_id: input.photoId,
-        target_type: input.targetType,
-        target_id: input.targetId,
-        field: input.field,
-        old_value: input.oldValue,
-        new_value: input.newValue,
-        reviewer_id: input.reviewerId,
-      },
+  async appendCorrection(
+    input: IAppendCorrectionInput,
+    expectedVersion: number | null,
+  ): Promise<{ applied: true; correction: Correction } | TargetWriteRefusal> {
+    return this.prisma.$transaction(async (tx) => {
+      const refusal = await lockReviewTarget(tx, { ...input, expectedVersion })
+      if (refusal) return refusal
+
+      const correction = await tx.correction.create({
+        data: {
+          photo_id: input.photoId,
+          target_type: input.targetType,
+          target_id: input.targetId,
+          field: input.field,
+          old_value: input.oldValue,
+          new_value: input.newValue,
+          reviewer_id: input.reviewerId,
+        },
+      })
+      const bump = { where: { id: input.targetId }, data: { version: { increment: 1 } } }
+      if (input.targetType === CorrectionTargetType.photo_bib) {
+        await tx.photoBib.update(bump)
+      } else {
+        await tx.photoColor.update(bump)
+      }
+      return { applied: true, correction } as const
     })
   }
 
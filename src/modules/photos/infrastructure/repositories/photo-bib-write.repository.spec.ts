@@ -14,7 +14,9 @@ describe('PhotoBibWriteRepository', () => {
         create: jest.fn(),
         update: jest.fn(),
       },
+      $queryRaw: jest.fn(),
     }
+    prisma.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(prisma))
     repo = new PhotoBibWriteRepository(prisma)
   })
 
@@ -37,19 +39,50 @@ describe('PhotoBibWriteRepository', () => {
   })
 
   it('softDelete stamps deleted_at and deleted_by_id without removing the row', async () => {
+    prisma.$queryRaw
+      .mockResolvedValueOnce([{ lease_holder: null }])
+      .mockResolvedValueOnce([{ version: 2 }])
     prisma.photoBib.update.mockResolvedValue({ id: 'b-1' })
-    await repo.softDelete('b-1', 'r-1')
+    expect(await repo.softDelete('p-1', 'b-1', 'r-1', 2)).toEqual({ applied: true })
     expect(prisma.photoBib.update).toHaveBeenCalledWith({
       where: { id: 'b-1' },
       data: expect.objectContaining({
         deleted_at: expect.any(Date),
         deleted_by_id: 'r-1',
+        version: { increment: 1 },
       }),
     })
-    // The row still exists (update, not delete) and remains queryable by id.
     expect(prisma.photoBib.findUnique).not.toHaveBeenCalled()
   })
 
+  it('softDelete refuses a stale version without writing', async () => {
+    prisma.$queryRaw
+      .mockResolvedValueOnce([{ lease_holder: null }])
+      .mockResolvedValueOnce([{ version: 3 }])
+    expect(await repo.softDelete('p-1', 'b-1', 'r-1', 2)).toEqual({
+      applied: false,
+      reason: 'stale',
+    })
+    expect(prisma.photoBib.update).not.toHaveBeenCalled()
+  })
+
+  it('softDelete without a version checks only the lease', async () => {
+    prisma.$queryRaw
+      .mockResolvedValueOnce([{ lease_holder: 'r-1' }])
+      .mockResolvedValueOnce([{ version: 7 }])
+    prisma.photoBib.update.mockResolvedValue({ id: 'b-1' })
+    expect(await repo.softDelete('p-1', 'b-1', 'r-1', null)).toEqual({ applied: true })
+  })
+
+  it('softDelete without a version is refused while another reviewer leases the photo', async () => {
+    prisma.$queryRaw.mockResolvedValueOnce([{ lease_holder: 'r-2' }])
+    expect(await repo.softDelete('p-1', 'b-1', 'r-1', null)).toEqual({
+      applied: false,
+      reason: 'photo_leased',
+    })
+    expect(prisma.photoBib.update).not.toHaveBeenCalled()
+  })
+
   it('photoDetailSelectConfig excludes soft-deleted bibs from the detail include', () => {
     expect(photoDetailSelectConfig.bibs.where).toEqual({ deleted_at: null })
   })
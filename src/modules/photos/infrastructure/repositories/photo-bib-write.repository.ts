@@ -1,7 +1,9 @@
 import type { PhotoBib } from '@classifications/domain/entities'
+import { CorrectionTargetType } from '@generated/prisma/client'
 import { Injectable } from '@nestjs/common'
-import { type IPhotoBibWriteRepository } from '@photos/domain/ports'
+import { type IPhotoBibWriteRepository, type TargetWriteRefusal } from '@photos/domain/ports'
 import { PrismaService } from '@shared/infrastructure'
+import { lockReviewTarget } from './review-target-lock'
 
 @Injectable()
 export class PhotoBibWriteRepository implements IPhotoBibWriteRepository {
@@ -38,10 +40,26 @@ export class PhotoBibWriteRepository implements IPhotoBibWriteRepository {
     return bib
   }
 
-  async softDelete(bibId: string, reviewerId: string): Promise<void> {
-    await this.prisma.photoBib.update({
-      where: { id: bibId },
-      data: { deleted_at: new Date(), deleted_by_id: reviewerId },
+  async softDelete(
+    photoId: string,
+    bibId: string,
+    reviewerId: string,
+    expectedVersion: number | null,
+  ): Promise<{ applied: true } | TargetWriteRefusal> {
+    return this.prisma.$transaction(async (tx) => {
+      const refusal = await lockReviewTarget(tx, {
+        photoId,
+        targetType: CorrectionTargetType.photo_bib,
+        targetId: bibId,
+        reviewerId,
+        expectedVersion,
+      })
+      if (refusal) return refusal
+      await tx.photoBib.update({
+        where: { id: bibId },
+        data: { deleted_at: new Date(), deleted_by_id: reviewerId, version: { increment: 1 } },
+      })
+      return { applied: true } as const
     })
   }
 }
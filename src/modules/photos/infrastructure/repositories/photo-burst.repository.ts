@@ -0,0 +1,156 @@
+import { type AttributeSource, type BibReadingStatus, Prisma } from '@generated/prisma/client'
+import { Injectable } from '@nestjs/common'
+import type {
+  BibSuggestion,
+  BurstBib,
+  BurstFrame,
+  IPhotoBurstRepository,
+} from '@photos/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+
+interface FrameRow {
+  photo_id: string
+  captured_at: Date
+  similarity_to_previous: number | null
+  classified: boolean
+  reviewed: boolean
+}
+
+interface BibRow {
+  id: string
+  photo_id: string
+  digits: string
+  source: AttributeSource
+  confidence: Prisma.Decimal | null
+  status: BibReadingStatus | null
+  rejection_reason: string | null
+  corrected: boolean
+  deleted: boolean
+  crop_path: string | null
+}
+
+@Injectable()
+export class PhotoBurstRepository implements IPhotoBurstRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Similarity comes from the pgvector cosine distance to the previous frame's embedding. */
+  async findFrames(photoId: string, windowSeconds: number): Promise<BurstFrame[]> {
+    const rows = await this.prisma.$queryRaw<FrameRow[]>(Prisma.sql`
+      WITH anchor AS (
+        SELECT p.captured_at, e.event_id, e.camera_body
+        FROM photos p
+        JOIN photo_exif e ON e.photo_id = p.id
+        WHERE p.id = ${photoId}::uuid
+          AND p.captured_at IS NOT NULL
+          AND e.camera_body IS NOT NULL
+      )
+      SELECT p.id AS photo_id, p.captured_at,
+        (1 - (p.embedding <=> LAG(p.embedding) OVER (ORDER BY p.captured_at, p.id)))::float8
+          AS similarity_to_previous,
+        p.status IN ('processed', 'reviewed') AS classified,
+        p.reviewed_at IS NOT NULL AS reviewed
+      FROM photos p
+      JOIN photo_exif e ON e.photo_id = p.id
+      JOIN anchor a ON e.event_id = a.event_id AND e.camera_body = a.camera_body
+      WHERE p.captured_at BETWEEN a.captured_at - make_interval(secs => ${windowSeconds})
+                              AND a.captured_at + make_interval(secs => ${windowSeconds})
+      ORDER BY p.captured_at, p.id
+    `)
+    return rows.map((row) => ({
+      photoId: row.photo_id,
+      capturedAt: row.captured_at,
+      similarityToPrevious: row.similarity_to_previous,
+      classified: row.classified,
+      reviewed: row.reviewed,
+    }))
+  }
+
+  async findBibs(photoIds: string[]): Promise<BurstBib[]> {
+    if (photoIds.length === 0) return []
+    const rows = await this.prisma.$queryRaw<BibRow[]>(Prisma.sql`
+      SELECT pb.id, pb.photo_id, eff.value AS digits, pb.source, pb.confidence, pb.status,
+        pb.rejection_reason, eff.corrected, pb.deleted_at IS NOT NULL AS deleted, pb.crop_path
+      FROM photo_bibs pb
+      LEFT JOIN LATERAL (
+        SELECT new_value AS corrected_value, TRUE AS has_correction
+        FROM corrections
+        WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) latest ON TRUE
+      CROSS JOIN LATERAL (
+        SELECT CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pb.digits END AS value,
+          COALESCE(latest.has_correction, FALSE) AS corrected
+      ) eff
+      WHERE pb.photo_id = ANY(${photoIds}::uuid[])
+      ORDER BY pb.created_at
+    `)
+    return rows.map((row) => ({
+      id: row.id,
+      photoId: row.photo_id,
+      digits: row.digits,
+      source: row.source,
+      confidence: row.confidence !== null ? Number(row.confidence) : null,
+      status: row.status,
+      rejectionReason: row.rejection_reason,
+      corrected: row.corrected,
+      deleted: row.deleted,
+      cropPath: row.crop_path,
+    }))
+  }
+
+  async saveBurst(
+    burstId: string,
+    photoIds: string[],
+    suggestions: BibSuggestion[],
+  ): Promise<void> {
+    const live = await this.prisma.photoBib.findMany({
+      where: { photo_id: { in: photoIds }, source: 'burst', deleted_at: null },
+      select: { id: true, photo_id: true, digits: true },
+    })
+    const key = (photoId: string, digits: string) => `${photoId}:${digits}`
+    const suggested = new Set(suggestions.map((s) => key(s.photoId, s.digits)))
+
+    await this.prisma.$transaction([
+      this.prisma.photo.updateMany({
+        where: { id: { in: photoIds } },
+        data: { burst_id: burstId },
+      }),
+      this.prisma.photoBib.deleteMany({
+        where: {
+          id: {
+            in: live.filter((b) => !suggested.has(key(b.photo_id, b.digits))).map((b) => b.id),
+          },
+        },
+      }),
+      // The unique (photo_id, digits) index on live burst bibs turns a suggestion already
+      // there, even one a concurrent job just wrote, into a no-op
+      this.prisma.photoBib.createMany({
+        data: suggestions.map((s) => ({
+          photo_id: s.photoId,
+          source: 'burst' as const,
+          digits: s.digits,
+          confidence: s.confidence,
+          status: 'read' as const,
+          crop_path: s.cropPath,
+          propagated_from_id: s.fromBibId,
+        })),
+        skipDuplicates: true,
+      }),
+    ])
+  }
+
+  /** The bib keeps where it was propagated from; only its source and author change. */
+  async acceptSuggestions(photoIds: string[], reviewerId: string): Promise<string[]> {
+    const rows = await this.prisma.photoBib.findMany({
+      where: { photo_id: { in: photoIds }, source: 'burst', deleted_at: null },
+      select: { id: true, photo_id: true },
+    })
+    if (rows.length === 0) return []
+
+    await this.prisma.photoBib.updateMany({
+      where: { id: { in: rows.map((r) => r.id) } },
+      data: { source: 'reviewer', created_by_id: reviewerId, version: { increment: 1 } },
+    })
+    return [...new Set(rows.map((r) => r.photo_id))]
+  }
+}
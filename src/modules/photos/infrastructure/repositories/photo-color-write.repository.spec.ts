@@ -14,7 +14,9 @@ describe('PhotoColorWriteRepository', () => {
         create: jest.fn(),
         update: jest.fn(),
       },
+      $queryRaw: jest.fn(),
     }
+    prisma.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(prisma))
     repo = new PhotoColorWriteRepository(prisma)
   })
 
@@ -41,18 +43,33 @@ describe('PhotoColorWriteRepository', () => {
   })
 
   it('softDelete stamps deleted_at and deleted_by_id without removing the row', async () => {
+    prisma.$queryRaw
+      .mockResolvedValueOnce([{ lease_holder: null }])
+      .mockResolvedValueOnce([{ version: 2 }])
     prisma.photoColor.update.mockResolvedValue({ id: 'c-1' })
-    await repo.softDelete('c-1', 'r-1')
+    expect(await repo.softDelete('p-1', 'c-1', 'r-1', 2)).toEqual({ applied: true })
     expect(prisma.photoColor.update).toHaveBeenCalledWith({
       where: { id: 'c-1' },
       data: expect.objectContaining({
         deleted_at: expect.any(Date),
         deleted_by_id: 'r-1',
+        version: { increment: 1 },
       }),
     })
     expect(prisma.photoColor.findUnique).not.toHaveBeenCalled()
   })
 
+  it('softDelete refuses a stale version without writing', async () => {
+    prisma.$queryRaw
+      .mockResolvedValueOnce([{ lease_holder: null }])
+      .mockResolvedValueOnce([{ version: 3 }])
+    expect(await repo.softDelete('p-1', 'c-1', 'r-1', 2)).toEqual({
+      applied: false,
+      reason: 'stale',
+    })
+    expect(prisma.photoColor.update).not.toHaveBeenCalled()
+  })
+
   it('photoDetailSelectConfig excludes soft-deleted colors from the detail include', () => {
     expect(photoDetailSelectConfig.colors.where).toEqual({ deleted_at: null })
   })
@@ -1,8 +1,9 @@
 import type { PhotoColor } from '@classifications/domain/entities'
-import type { ColorRegion } from '@generated/prisma/client'
+import { type ColorRegion, CorrectionTargetType } from '@generated/prisma/client'
 import { Injectable } from '@nestjs/common'
-import { type IPhotoColorWriteRepository } from '@photos/domain/ports'
+import { type IPhotoColorWriteRepository, type TargetWriteRefusal } from '@photos/domain/ports'
 import { PrismaService } from '@shared/infrastructure'
+import { lockReviewTarget } from './review-target-lock'
 
 @Injectable()
 export class PhotoColorWriteRepository implements IPhotoColorWriteRepository {
@@ -57,10 +58,26 @@ export class PhotoColorWriteRepository implements IPhotoColorWriteRepository {
     return color
   }
 
-  async softDelete(colorId: string, reviewerId: string): Promise<void> {
-    await this.prisma.photoColor.update({
-      where: { id: colorId },
-      data: { deleted_at: new Date(), deleted_by_id: reviewerId },
+  async softDelete(
+    photoId: string,
+    colorId: string,
+    reviewerId: string,
+    expectedVersion: number | null,
+  ): Promise<{ applied: true } | TargetWriteRefusal> {
+    return this.prisma.$transaction(async (tx) => {
+      const refusal = await lockReviewTarget(tx, {
+        photoId,
+        targetType: CorrectionTargetType.photo_color,
+        targetId: colorId,
+        reviewerId,
+        expectedVersion,
+      })
+      if (refusal) return refusal
+      await tx.photoColor.update({
+        where: { id: colorId },
+        data: { deleted_at: new Date(), deleted_by_id: reviewerId, version: { increment: 1 } },
+      })
+      return { applied: true } as const
     })
   }
 }
@@ -0,0 +1,58 @@
+import * as crypto from 'node:crypto'
+import { Injectable } from '@nestjs/common'
+import {
+  type DetectionEmbedding,
+  type IPhotoDetectionEmbeddingRepository,
+  RIDER_DETECTION_CLASSES,
+  type RiderDetection,
+} from '@photos/domain/ports'
+import type { FaceBbox } from '@shared/embeddings'
+import { PrismaService } from '@shared/infrastructure'
+
+@Injectable()
+export class PhotoDetectionEmbeddingRepository implements IPhotoDetectionEmbeddingRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findRiderDetections(photoId: string): Promise<RiderDetection[]> {
+    const latest = await this.prisma.photoProcessing.findFirst({
+      where: { photo_id: photoId, status: 'completed' },
+      orderBy: { started_at: 'desc' },
+      select: { id: true },
+    })
+    if (!latest) return []
+
+    const detections = await this.prisma.photoDetection.findMany({
+      where: {
+        photo_processing_id: latest.id,
+        class_name: { in: [...RIDER_DETECTION_CLASSES] },
+      },
+      select: { id: true, class_name: true, bbox: true, confidence: true },
+      orderBy: { confidence: 'desc' },
+    })
+    return detections.map((d) => ({
+      id: d.id,
+      className: d.class_name,
+      bbox: d.bbox as FaceBbox,
+      confidence: Number(d.confidence),
+    }))
+  }
+
+  /** The vector column is not mapped by Prisma, so rows are inserted with raw SQL. */
+  async replaceForPhoto(
+    photo: { id: string; eventId: string },
+    embeddings: DetectionEmbedding[],
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.photoDetectionEmbedding.deleteMany({ where: { photo_id: photo.id } }),
+      ...embeddings.map(
+        (item) => this.prisma.$executeRaw`
+          INSERT INTO photo_detection_embeddings
+            (id, detection_id, photo_id, event_id, class_name, embedding)
+          VALUES (
+            ${crypto.randomUUID()}::uuid, ${item.detectionId}::uuid, ${photo.id}::uuid,
+            ${photo.eventId}::uuid, ${item.className}, ${`[${item.embedding.join(',')}]`}::vector
+          )`,
+      ),
+    ])
+  }
+}
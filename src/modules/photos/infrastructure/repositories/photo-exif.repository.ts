@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common'
+import type { CameraBodyProjection } from '@photos/application/projections'
+import type { PhotoExif } from '@photos/domain/entities'
+import type { IPhotoExifRepository } from '@photos/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as PhotoExifMapper from '../mappers/photo-exif.mapper'
+
+@Injectable()
+export class PhotoExifRepository implements IPhotoExifRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Saves the EXIF row and stamps the photo atomically, so the two never disagree. */
+  async save(
+    exif: PhotoExif,
+    photo: { capturedAt: Date | null; width: number | null; height: number | null },
+  ): Promise<void> {
+    const data = PhotoExifMapper.toPersistence(exif)
+    await this.prisma.$transaction([
+      this.prisma.photoExif.upsert({
+        where: { photo_id: exif.photoId },
+        create: data,
+        update: data,
+      }),
+      this.prisma.photo.update({
+        where: { id: exif.photoId },
+        data: {
+          captured_at: photo.capturedAt,
+          ...(photo.width !== null && { width: photo.width }),
+          ...(photo.height !== null && { height: photo.height }),
+        },
+      }),
+    ])
+  }
+
+  /** Groups the event's EXIF rows by camera body; photos with no camera model are left out. */
+  async getEventCameras(eventId: string): Promise<CameraBodyProjection[]> {
+    const [groups, offsets] = await Promise.all([
+      this.prisma.photoExif.groupBy({
+        by: ['camera_body', 'camera_make', 'camera_model', 'camera_serial'],
+        where: { event_id: eventId, camera_body: { not: null } },
+        _count: { _all: true },
+        _min: { original_captured_at: true },
+        _max: { original_captured_at: true },
+        orderBy: { camera_body: 'asc' },
+      }),
+      this.prisma.cameraClockOffset.findMany({ where: { event_id: eventId } }),
+    ])
+    const offsetByBody = new Map(offsets.map((o) => [o.camera_body, o.offset_seconds]))
+
+    return groups.flatMap((g) =>
+      g.camera_body === null
+        ? []
+        : [
+            {
+              cameraBody: g.camera_body,
+              cameraMake: g.camera_make,
+              cameraModel: g.camera_model,
+              cameraSerial: g.camera_serial,
+              photoCount: g._count._all,
+              firstCapturedAt: g._min.original_captured_at,
+              lastCapturedAt: g._max.original_captured_at,
+              offsetSeconds: offsetByBody.get(g.camera_body) ?? 0,
+            },
+          ],
+    )
+  }
+
+  /**
+   * Recomputes `captured_at` from the untouched camera timestamp in one statement,
+   * so applying an offset twice never shifts the photos twice.
+   */
+  async restampCapturedAt(
+    eventId: string,
+    cameraBody: string,
+    offsetSeconds: number,
+  ): Promise<number> {
+    return this.prisma.$executeRaw`
+      UPDATE photos p
+      SET captured_at = e.original_captured_at + make_interval(secs => ${offsetSeconds}::int)
+      FROM photo_exif e
+      WHERE e.photo_id = p.id
+        AND e.event_id = ${eventId}::uuid
+        AND e.camera_body = ${cameraBody}
+        AND e.original_captured_at IS NOT NULL
+    `
+  }
+
+  async findPhotoIdsWithoutExif(eventId: string): Promise<string[]> {
+    const records = await this.prisma.photo.findMany({
+      where: { event_id: eventId, exif: null },
+      select: { id: true },
+      orderBy: { uploaded_at: 'asc' },
+    })
+    return records.map((r) => r.id)
+  }
+}
@@ -0,0 +1,51 @@
+import * as crypto from 'node:crypto'
+import { Injectable } from '@nestjs/common'
+import {
+  type IPhotoFaceEmbeddingRepository,
+  PERSON_DETECTION_CLASSES,
+  type PersonDetection,
+  type PhotoFace,
+} from '@photos/domain/ports'
+import type { FaceBbox } from '@shared/embeddings'
+import { PrismaService } from '@shared/infrastructure'
+
+@Injectable()
+export class PhotoFaceEmbeddingRepository implements IPhotoFaceEmbeddingRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findPersonDetections(photoId: string): Promise<PersonDetection[]> {
+    const latest = await this.prisma.photoProcessing.findFirst({
+      where: { photo_id: photoId, status: 'completed' },
+      orderBy: { started_at: 'desc' },
+      select: { id: true },
+    })
+    if (!latest) return []
+
+    const detections = await this.prisma.photoDetection.findMany({
+      where: {
+        photo_processing_id: latest.id,
+        class_name: { in: [...PERSON_DETECTION_CLASSES] },
+      },
+      select: { id: true, bbox: true },
+      orderBy: { confidence: 'desc' },
+    })
+    return detections.map((d) => ({ id: d.id, bbox: d.bbox as FaceBbox }))
+  }
+
+  /** The vector column is not mapped by Prisma, so rows are inserted with raw SQL. */
+  async replaceForPhoto(photo: { id: string; eventId: string }, faces: PhotoFace[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.photoFaceEmbedding.deleteMany({ where: { photo_id: photo.id } }),
+      ...faces.map(
+        (face) => this.prisma.$executeRaw`
+          INSERT INTO photo_face_embeddings
+            (id, photo_id, event_id, detection_id, bbox, confidence, embedding)
+          VALUES (
+            ${crypto.randomUUID()}::uuid, ${photo.id}::uuid, ${photo.eventId}::uuid,
+            ${face.detectionId}::uuid, ${JSON.stringify(face.bbox)}::jsonb, ${face.confidence},
+            ${`[${face.embedding.join(',')}]`}::vector
+          )`,
+      ),
+    ])
+  }
+}
@@ -90,3 +90,68 @@ describe('PhotoReadRepository.searchPhotos (correction-aware filters)', () => {
     expect(prisma.$queryRaw).toHaveBeenCalledTimes(2)
   })
 })
+
+describe('PhotoReadRepository.findSearchHits', () => {
+  it('runs one query per term and tags each hit with its term', async () => {
+    const prisma = {
+      $queryRaw: jest
+        .fn()
+        .mockResolvedValueOnce([
+          {
+            photo_id: 'p-1',
+            value: '142',
+            region: null,
+            source: 'ai',
+            confidence: '0.910',
+            corrected: false,
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            photo_id: 'p-1',
+            value: 'rojo',
+            region: 'helmet',
+            source: 'reviewer',
+            confidence: null,
+            corrected: false,
+          },
+        ]),
+    }
+    const repo = new PhotoReadRepository(
+      prisma as unknown as PrismaService,
+      {} as CdnUrlBuilder,
+      {} as IStorageAdapter,
+      {} as ICorrectionRepository,
+    )
+
+    const hits = await repo.findSearchHits(
+      [
+        { kind: 'bib', digits: '14', match: 'starts' },
+        { kind: 'color', color: 'rojo', region: 'helmet' },
+      ],
+      { eventId: 'e-1' },
+    )
+
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(2)
+    expect(hits).toEqual([
+      {
+        termIndex: 0,
+        photoId: 'p-1',
+        value: '142',
+        region: null,
+        source: 'ai',
+        confidence: 0.91,
+        corrected: false,
+      },
+      {
+        termIndex: 1,
+        photoId: 'p-1',
+        value: 'rojo',
+        region: 'helmet',
+        source: 'reviewer',
+        confidence: null,
+        corrected: false,
+      },
+    ])
+  })
+})
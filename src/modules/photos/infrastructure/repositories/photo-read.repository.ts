@@ -1,4 +1,9 @@
-import { PhotoStatus, Prisma } from '@generated/prisma/client'
+import {
+  type AttributeSource,
+  type ColorRegion,
+  PhotoStatus,
+  Prisma,
+} from '@generated/prisma/client'
 import { Inject, Injectable } from '@nestjs/common'
 import type {
   PhotoDetailProjection,
@@ -14,6 +19,7 @@ import {
   type IPhotoReadRepository,
   type ReviewQueueStatusFilter,
 } from '@photos/domain/ports'
+import type { AttributeHit, SearchTerm } from '@photos/domain/services/photo-search.service'
 
 import { PaginatedResult, type Pagination } from '@shared/application'
 import { CdnUrlBuilder } from '@shared/cloudflare/infrastructure'
@@ -24,6 +30,9 @@ import {
 } from '@shared/storage/domain/ports/storage-adapter.port'
 import * as PhotoMapper from '../mappers/photo.mapper'
 
+/** Nearest rider crops fetched per returned photo, since one photo can hold several matches. */
+const DETECTION_CANDIDATES_PER_PHOTO = 4
+
 const ES_TO_EN_COLOR: Record<string, string> = {
   rojo: 'red',
   naranja: 'orange',
@@ -171,6 +180,46 @@ export class PhotoReadRepository implements IPhotoReadRepository {
     )
   }
 
+  /**
+   * Bib and color rows satisfying each term, read with their latest correction and limited
+   * to photos within the non-attribute filters. Ranking is left to the caller.
+   */
+  async findSearchHits(terms: SearchTerm[], filters: SearchPhotosFilters): Promise<AttributeHit[]> {
+    const scope = searchScopeSql(filters)
+    const perTerm = await Promise.all(
+      terms.map((term) =>
+        term.kind === 'bib' ? this.findBibHits(term, scope) : this.findColorHits(term, scope),
+      ),
+    )
+
+    return perTerm.flatMap((rows, termIndex) =>
+      rows.map((row) => ({
+        termIndex,
+        photoId: row.photo_id,
+        value: row.value,
+        region: row.region,
+        source: row.source,
+        confidence: row.confidence === null ? null : Number(row.confidence),
+        corrected: row.corrected,
+      })),
+    )
+  }
+
+  /** List projections of the given photos, in the order of the ids. */
+  async getPhotoListByIds(ids: string[]): Promise<PhotoListProjection[]> {
+    if (ids.length === 0) return []
+
+    const photos = await this.prisma.photo.findMany({
+      where: { id: { in: ids } },
+      select: PhotoMapper.photoListSelectConfig,
+    })
+    const byId = new Map(photos.map((p) => [p.id, p]))
+    return ids.flatMap((id) => {
+      const photo = byId.get(id)
+      return photo ? [PhotoMapper.toListProjection(photo, this.cdn)] : []
+    })
+  }
+
   /** Returns the total file size (in bytes) for a single event's photos. */
   async getTotalFileSizeByEvent(eventId: string): Promise<number> {
     const result = await this.prisma.photo.aggregate({
@@ -322,10 +371,68 @@ export class PhotoReadRepository implements IPhotoReadRepository {
     }))
   }
 
+  async findDetectionById(detectionId: string): Promise<{ id: string; photoId: string } | null> {
+    const detection = await this.prisma.photoDetection.findUnique({
+      where: { id: detectionId },
+      select: { id: true, photo_id: true },
+    })
+    return detection ? { id: detection.id, photoId: detection.photo_id } : null
+  }
+
+  /**
+   * kNN over the rider crop embeddings. A photo holding several close riders would fill the
+   * page on its own, so the nearest crops are over-fetched and reduced to one row per photo.
+   */
+  async findSimilarByDetection(
+    detectionId: string,
+    eventId: string,
+    limit: number,
+  ): Promise<SimilarPhotoProjection[]> {
+    const rows = await this.prisma.$queryRaw<
+      Array<{
+        id: string
+        filename: string
+        public_slug: string
+        similarity: number
+        has_classifications: boolean
+      }>
+    >`
+      WITH source AS (
+        SELECT photo_id, embedding FROM photo_detection_embeddings
+        WHERE detection_id = ${detectionId}::uuid
+      ),
+      nearest AS (
+        SELECT e.photo_id, 1 - (e.embedding <=> (SELECT embedding FROM source)) AS similarity
+        FROM photo_detection_embeddings e
+        WHERE e.event_id = ${eventId}::uuid
+          AND e.photo_id != (SELECT photo_id FROM source)
+        ORDER BY e.embedding <=> (SELECT embedding FROM source)
+        LIMIT ${limit * DETECTION_CANDIDATES_PER_PHOTO}
+      )
+      SELECT p.id, p.filename, p.public_slug, MAX(n.similarity) AS similarity,
+        EXISTS(SELECT 1 FROM photo_bibs pb WHERE pb.photo_id = p.id AND pb.deleted_at IS NULL) AS has_classifications
+      FROM nearest n
+      JOIN photos p ON p.id = n.photo_id
+      GROUP BY p.id
+      ORDER BY similarity DESC
+      LIMIT ${limit}`
+
+    return rows.map((row) => ({
+      id: row.id,
+      filename: row.filename,
+      publicSlug: row.public_slug,
+      thumbnailUrl: this.cdn.internalUrl(row.public_slug, 'thumb'),
+      similarity: Number(row.similarity),
+      hasClassifications: row.has_classifications,
+    }))
+  }
+
   /** Retrieves the review queue for an event with bib/color counts and min bib confidence. */
   async getReviewQueue(params: {
     eventSlug: string
     status: ReviewQueueStatusFilter
+    timingFlagged?: boolean
+    suggested?: boolean
     limit: number
     offset: number
   }): Promise<{
@@ -338,11 +445,20 @@ export class PhotoReadRepository implements IPhotoReadRepository {
       minBibConfidence: number | null
       bibsCount: number
       colorsCount: number
+      implausibleBibs: string[]
+      suggestedBibs: string[]
+      burstId: string | null
     }>
     total: number
   }> {
     const { eventSlug, status, limit, offset } = params
     const reviewedFilter = reviewedAtFilter(status)
+    const flaggedFilter = params.timingFlagged
+      ? Prisma.sql`AND cardinality(${IMPLAUSIBLE_BIBS_SQL}) > 0`
+      : Prisma.empty
+    const suggestedFilter = params.suggested
+      ? Prisma.sql`AND cardinality(${SUGGESTED_BIBS_SQL}) > 0`
+      : Prisma.empty
 
     type Row = {
       id: string
@@ -353,18 +469,25 @@ export class PhotoReadRepository implements IPhotoReadRepository {
       min_bib_confidence: number | string | null
       bibs_count: bigint
       colors_count: bigint
+      implausible_bibs: string[]
+      suggested_bibs: string[]
+      burst_id: string | null
     }
 
     const items = await this.prisma.$queryRaw<Row[]>`
-      SELECT p.id, p.public_slug, p.filename, p.status, p.reviewed_at,
+      SELECT p.id, p.public_slug, p.filename, p.status, p.reviewed_at, p.burst_id,
              (SELECT MIN(confidence) FROM photo_bibs WHERE photo_id = p.id AND deleted_at IS NULL) AS min_bib_confidence,
              (SELECT COUNT(*)::bigint FROM photo_bibs WHERE photo_id = p.id AND deleted_at IS NULL) AS bibs_count,
-             (SELECT COUNT(*)::bigint FROM photo_colors WHERE photo_id = p.id AND deleted_at IS NULL) AS colors_count
+             (SELECT COUNT(*)::bigint FROM photo_colors WHERE photo_id = p.id AND deleted_at IS NULL) AS colors_count,
+             ${IMPLAUSIBLE_BIBS_SQL} AS implausible_bibs,
+             ${SUGGESTED_BIBS_SQL} AS suggested_bibs
       FROM photos p
       INNER JOIN events e ON e.id = p.event_id
       WHERE e.slug = ${eventSlug}
         AND p.status IN ('processed'::photo_status, 'reviewed'::photo_status, 'failed'::photo_status)
         ${reviewedFilter}
+        ${flaggedFilter}
+        ${suggestedFilter}
       ORDER BY (SELECT MIN(confidence) FROM photo_bibs WHERE photo_id = p.id AND deleted_at IS NULL) ASC NULLS FIRST,
                p.uploaded_at ASC
       LIMIT ${limit} OFFSET ${offset}
@@ -377,6 +500,8 @@ export class PhotoReadRepository implements IPhotoReadRepository {
       WHERE e.slug = ${eventSlug}
         AND p.status IN ('processed'::photo_status, 'reviewed'::photo_status, 'failed'::photo_status)
         ${reviewedFilter}
+        ${flaggedFilter}
+        ${suggestedFilter}
     `
 
     return {
@@ -389,6 +514,9 @@ export class PhotoReadRepository implements IPhotoReadRepository {
         minBibConfidence: r.min_bib_confidence === null ? null : Number(r.min_bib_confidence),
         bibsCount: Number(r.bibs_count),
         colorsCount: Number(r.colors_count),
+        implausibleBibs: r.implausible_bibs,
+        suggestedBibs: r.suggested_bibs,
+        burstId: r.burst_id,
       })),
       total: Number(totalRow[0]?.count ?? 0),
     }
@@ -397,11 +525,19 @@ export class PhotoReadRepository implements IPhotoReadRepository {
   async getReviewQueueByEventIds(params: {
     eventIds: string[]
     status: ReviewQueueStatusFilter
+    timingFlagged?: boolean
+    suggested?: boolean
     limit: number
     offset: number
   }) {
     const { eventIds, status, limit, offset } = params
     const reviewedFilter = reviewedAtFilter(status)
+    const flaggedFilter = params.timingFlagged
+      ? Prisma.sql`AND cardinality(${IMPLAUSIBLE_BIBS_SQL}) > 0`
+      : Prisma.empty
+    const suggestedFilter = params.suggested
+      ? Prisma.sql`AND cardinality(${SUGGESTED_BIBS_SQL}) > 0`
+      : Prisma.empty
 
     if (eventIds.length === 0) return { items: [], total: 0 }
 
@@ -414,19 +550,26 @@ export class PhotoReadRepository implements IPhotoReadRepository {
       min_bib_confidence: number | string | null
       bibs_count: bigint
       colors_count: bigint
+      implausible_bibs: string[]
+      suggested_bibs: string[]
+      burst_id: string | null
       event_id: string
     }
 
     const items = await this.prisma.$queryRaw<Row[]>`
-      SELECT p.id, p.public_slug, p.filename, p.status, p.reviewed_at,
+      SELECT p.id, p.public_slug, p.filename, p.status, p.reviewed_at, p.burst_id,
              p.event_id,
              (SELECT MIN(confidence) FROM photo_bibs WHERE photo_id = p.id AND deleted_at IS NULL) AS min_bib_confidence,
              (SELECT COUNT(*)::bigint FROM photo_bibs WHERE photo_id = p.id AND deleted_at IS NULL) AS bibs_count,
-             (SELECT COUNT(*)::bigint FROM photo_colors WHERE photo_id = p.id AND deleted_at IS NULL) AS colors_count
+             (SELECT COUNT(*)::bigint FROM photo_colors WHERE photo_id = p.id AND deleted_at IS NULL) AS colors_count,
+             ${IMPLAUSIBLE_BIBS_SQL} AS implausible_bibs,
+             ${SUGGESTED_BIBS_SQL} AS suggested_bibs
       FROM photos p
       WHERE p.event_id = ANY(${eventIds}::uuid[])
         AND p.status IN ('processed'::photo_status, 'reviewed'::photo_status, 'failed'::photo_status)
         ${reviewedFilter}
+        ${flaggedFilter}
+        ${suggestedFilter}
       ORDER BY (SELECT MIN(confidence) FROM photo_bibs WHERE photo_id = p.id AND deleted_at IS NULL) ASC NULLS FIRST,
                p.uploaded_at ASC
       LIMIT ${limit} OFFSET ${offset}
@@ -438,6 +581,8 @@ export class PhotoReadRepository implements IPhotoReadRepository {
       WHERE p.event_id = ANY(${eventIds}::uuid[])
         AND p.status IN ('processed'::photo_status, 'reviewed'::photo_status, 'failed'::photo_status)
         ${reviewedFilter}
+        ${flaggedFilter}
+        ${suggestedFilter}
     `
 
     return {
@@ -450,6 +595,9 @@ export class PhotoReadRepository implements IPhotoReadRepository {
         minBibConfidence: r.min_bib_confidence != null ? Number(r.min_bib_confidence) : null,
         bibsCount: Number(r.bibs_count),
         colorsCount: Number(r.colors_count),
+        implausibleBibs: r.implausible_bibs,
+        suggestedBibs: r.suggested_bibs,
+        burstId: r.burst_id,
         eventId: r.event_id,
       })),
       total: Number(totalRow[0].count),
@@ -566,6 +714,65 @@ export class PhotoReadRepository implements IPhotoReadRepository {
     return new Set(rows.map((r) => r.photo_id))
   }
 
+  private async findBibHits(
+    term: Extract<SearchTerm, { kind: 'bib' }>,
+    scope: Prisma.Sql,
+  ): Promise<SearchHitRow[]> {
+    const condition =
+      term.match === 'exact'
+        ? Prisma.sql`= ${term.digits}`
+        : Prisma.sql`LIKE ${term.match === 'starts' ? `${term.digits}%` : `%${term.digits}%`}`
+
+    return this.prisma.$queryRaw<SearchHitRow[]>(Prisma.sql`
+      SELECT pb.photo_id, eff.value, NULL AS region, pb.source, pb.confidence, eff.corrected
+      FROM photo_bibs pb
+      JOIN photos p ON p.id = pb.photo_id
+      LEFT JOIN LATERAL (
+        SELECT new_value AS corrected_value, TRUE AS has_correction
+        FROM corrections
+        WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) latest ON TRUE
+      CROSS JOIN LATERAL (
+        SELECT CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pb.digits END AS value,
+          COALESCE(latest.has_correction, FALSE) AS corrected
+      ) eff
+      WHERE pb.deleted_at IS NULL
+        AND eff.value ${condition}
+        ${scope}
+    `)
+  }
+
+  private async findColorHits(
+    term: Extract<SearchTerm, { kind: 'color' }>,
+    scope: Prisma.Sql,
+  ): Promise<SearchHitRow[]> {
+    const variants = expandColorVariants([term.color])
+    const region = term.region
+      ? Prisma.sql`AND pc.region = ${term.region}::"ColorRegion"`
+      : Prisma.empty
+
+    return this.prisma.$queryRaw<SearchHitRow[]>(Prisma.sql`
+      SELECT pc.photo_id, eff.value, pc.region::text AS region, pc.source, pc.confidence, eff.corrected
+      FROM photo_colors pc
+      JOIN photos p ON p.id = pc.photo_id
+      LEFT JOIN LATERAL (
+        SELECT new_value AS corrected_value, TRUE AS has_correction
+        FROM corrections
+        WHERE target_type = 'photo_color' AND target_id = pc.id AND field = 'primary_color'
+        ORDER BY corrected_at DESC LIMIT 1
+      ) latest ON TRUE
+      CROSS JOIN LATERAL (
+        SELECT CASE WHEN latest.has_correction THEN latest.corrected_value ELSE pc.primary_color END AS value,
+          COALESCE(latest.has_correction, FALSE) AS corrected
+      ) eff
+      WHERE pc.deleted_at IS NULL
+        ${region}
+        AND LOWER(eff.value) = ANY(${variants}::text[])
+        ${scope}
+    `)
+  }
+
   /** Builds a Prisma where clause from search filters (non-attribute filters only). */
   private buildSearchWhere(filters: SearchPhotosFilters): Prisma.PhotoWhereInput {
     const where: Prisma.PhotoWhereInput = {}
@@ -573,16 +780,79 @@ export class PhotoReadRepository implements IPhotoReadRepository {
     if (filters.eventId) where.event_id = filters.eventId
     if (filters.status) where.status = filters.status as Prisma.EnumPhotoStatusFilter
 
+    // Capture time comes from EXIF; photos without it fall back to when they were uploaded.
     if (filters.fromDate || filters.toDate) {
-      where.uploaded_at = {}
-      if (filters.fromDate) where.uploaded_at.gte = filters.fromDate
-      if (filters.toDate) where.uploaded_at.lte = filters.toDate
+      const range: Prisma.DateTimeFilter = {}
+      if (filters.fromDate) range.gte = filters.fromDate
+      if (filters.toDate) range.lte = filters.toDate
+      where.OR = [{ captured_at: range }, { captured_at: null, uploaded_at: range }]
     }
 
     return where
   }
 }
 
+interface SearchHitRow {
+  photo_id: string
+  value: string
+  region: ColorRegion | null
+  source: AttributeSource
+  confidence: Prisma.Decimal | null
+  corrected: boolean
+}
+
+/** The non-attribute search filters as SQL over the `p` (photos) alias, for ranked search. */
+function searchScopeSql(filters: SearchPhotosFilters): Prisma.Sql {
+  const conditions: Prisma.Sql[] = []
+  if (filters.eventId) conditions.push(Prisma.sql`p.event_id = ${filters.eventId}::uuid`)
+  if (filters.status) conditions.push(Prisma.sql`p.status::text = ${filters.status}`)
+  // Same fallback as buildSearchWhere: photos without EXIF time use their upload time
+  if (filters.fromDate) {
+    conditions.push(Prisma.sql`COALESCE(p.captured_at, p.uploaded_at) >= ${filters.fromDate}`)
+  }
+  if (filters.toDate) {
+    conditions.push(Prisma.sql`COALESCE(p.captured_at, p.uploaded_at) <= ${filters.toDate}`)
+  }
+  return conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty
+}
+
+/**
+ * AI-read or burst-suggested bibs of the photo that the timing data contradicts: its checkpoint has splits,
+ * but none for that bib within the checkpoint tolerance of the capture time. Bibs a
+ * reviewer typed or corrected, and photos already reviewed, are never flagged.
+ */
+const IMPLAUSIBLE_BIBS_SQL = Prisma.sql`COALESCE((
+  SELECT array_agg(DISTINCT pb.digits ORDER BY pb.digits)
+  FROM photo_bibs pb
+  JOIN checkpoints c ON c.id = p.checkpoint_id
+  WHERE pb.photo_id = p.id
+    AND pb.deleted_at IS NULL
+    AND pb.source IN ('ai', 'burst')
+    AND p.captured_at IS NOT NULL
+    AND p.reviewed_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM corrections
+      WHERE target_type = 'photo_bib' AND target_id = pb.id AND field = 'digits'
+    )
+    AND EXISTS (SELECT 1 FROM timing_splits ts WHERE ts.checkpoint_id = c.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM timing_splits ts
+      WHERE ts.checkpoint_id = c.id
+        AND ts.bib = pb.digits
+        AND p.captured_at BETWEEN ts.passed_at - make_interval(secs => c.tolerance_seconds)
+                              AND ts.passed_at + make_interval(secs => c.tolerance_seconds)
+    )
+), '{}')`
+
+/** Bibs suggested from other frames of the photo's burst, awaiting a reviewer. */
+const SUGGESTED_BIBS_SQL = Prisma.sql`COALESCE((
+  SELECT array_agg(DISTINCT pb.digits ORDER BY pb.digits)
+  FROM photo_bibs pb
+  WHERE pb.photo_id = p.id
+    AND pb.deleted_at IS NULL
+    AND pb.source = 'burst'
+), '{}')`
+
 function reviewedAtFilter(status: ReviewQueueStatusFilter): Prisma.Sql {
   if (status === 'pending') return Prisma.sql`AND p.reviewed_at IS NULL`
   if (status === 'reviewed') return Prisma.sql`AND p.reviewed_at IS NOT NULL`
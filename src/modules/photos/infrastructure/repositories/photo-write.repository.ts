@@ -3,6 +3,7 @@ import type { Photo } from '@photos/domain/entities'
 import type { IPhotoWriteRepository } from '@photos/domain/ports'
 import { PrismaService } from '@shared/infrastructure'
 import * as PhotoMapper from '../mappers/photo.mapper'
+import { lockPhotoForReviewer } from './review-target-lock'
 
 @Injectable()
 export class PhotoWriteRepository implements IPhotoWriteRepository {
@@ -21,6 +22,34 @@ export class PhotoWriteRepository implements IPhotoWriteRepository {
     return PhotoMapper.toEntity(saved)
   }
 
+  /** Classification only owns the status; EXIF extraction owns `captured_at` and the size. */
+  async saveProcessingStatus(photo: Photo): Promise<void> {
+    await this.prisma.$executeRaw`
+      UPDATE photos
+      SET status = ${photo.status}::photo_status,
+          processed_at = ${photo.processedAt},
+          width = COALESCE(width, ${photo.width}::int),
+          height = COALESCE(height, ${photo.height}::int)
+      WHERE id = ${photo.id}::uuid
+    `
+  }
+
+  /** Refused while another reviewer's active session holds the photo, like a single correction. */
+  async saveReviewed(photo: Photo): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => {
+      if (!(await lockPhotoForReviewer(tx, photo.id, photo.reviewedById))) return false
+      await tx.photo.update({
+        where: { id: photo.id },
+        data: {
+          status: photo.status,
+          reviewed_at: photo.reviewedAt,
+          reviewed_by_id: photo.reviewedById,
+        },
+      })
+      return true
+    })
+  }
+
   /** Batch-inserts photos, silently skipping duplicates by storage_key. Returns count of created records. */
   async saveMany(photos: Photo[]): Promise<number> {
     const data = photos.map(PhotoMapper.toPersistence)
@@ -45,6 +74,19 @@ export class PhotoWriteRepository implements IPhotoWriteRepository {
     return result.count
   }
 
+  /** Only photos of the checkpoint's event are touched; ids from other events are ignored. */
+  async bulkUpdateCheckpoint(
+    eventId: string,
+    photoIds: string[],
+    checkpointId: string | null,
+  ): Promise<number> {
+    const result = await this.prisma.photo.updateMany({
+      where: { id: { in: photoIds }, event_id: eventId },
+      data: { checkpoint_id: checkpointId },
+    })
+    return result.count
+  }
+
   /** Flips the requires_retouch flag on a single photo (admin re-mark / dismiss). */
   async setRequiresRetouch(photoId: string, value: boolean): Promise<void> {
     await this.prisma.photo.update({
@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common'
+import type { RetouchRevisionProjection } from '@photos/application/projections'
+import type { Photo, RetouchRevision } from '@photos/domain/entities'
+import type { IRetouchRevisionRepository } from '@photos/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as PhotoMapper from '../mappers/photo.mapper'
+import * as RetouchRevisionMapper from '../mappers/retouch-revision.mapper'
+
+@Injectable()
+export class RetouchRevisionRepository implements IRetouchRevisionRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findById(id: string): Promise<RetouchRevision | null> {
+    const record = await this.prisma.photoRetouchRevision.findUnique({ where: { id } })
+    return record ? RetouchRevisionMapper.toEntity(record) : null
+  }
+
+  async findActiveByPhoto(photoId: string): Promise<RetouchRevision | null> {
+    const record = await this.prisma.photoRetouchRevision.findFirst({
+      where: { photo_id: photoId, superseded_at: null, purged_at: null },
+    })
+    return record ? RetouchRevisionMapper.toEntity(record) : null
+  }
+
+  async nextRevisionNumber(photoId: string): Promise<number> {
+    const { _max } = await this.prisma.photoRetouchRevision.aggregate({
+      where: { photo_id: photoId },
+      _max: { revision: true },
+    })
+    return (_max.revision ?? 0) + 1
+  }
+
+  async listByPhoto(photoId: string): Promise<RetouchRevisionProjection[]> {
+    const records = await this.prisma.photoRetouchRevision.findMany({
+      where: { photo_id: photoId },
+      include: { created_by: { select: { email: true, first_name: true, last_name: true } } },
+      orderBy: { revision: 'desc' },
+    })
+    return records.map((record) => {
+      const author = record.created_by
+      const name = author ? [author.first_name, author.last_name].filter(Boolean).join(' ') : ''
+      return {
+        id: record.id,
+        revision: record.revision,
+        fileSize: Number(record.file_size),
+        note: record.note,
+        createdById: record.created_by_id,
+        createdByName: name || author?.email || null,
+        createdAt: record.created_at,
+        active: record.superseded_at === null && record.purged_at === null,
+        supersededAt: record.superseded_at,
+        purgedAt: record.purged_at,
+      }
+    })
+  }
+
+  async activate(
+    photo: Photo,
+    revision: RetouchRevision,
+    superseded: RetouchRevision | null,
+  ): Promise<void> {
+    const photoData = PhotoMapper.toPersistence(photo)
+    const revisionData = RetouchRevisionMapper.toPersistence(revision)
+    await this.prisma.$transaction(async (tx) => {
+      if (superseded) {
+        await tx.photoRetouchRevision.update({
+          where: { id: superseded.id },
+          data: { superseded_at: superseded.supersededAt },
+        })
+      }
+      await tx.photoRetouchRevision.upsert({
+        where: { id: revision.id },
+        create: revisionData,
+        update: revisionData,
+      })
+      await tx.photo.update({ where: { id: photo.id }, data: photoData })
+    })
+  }
+
+  async save(revision: RetouchRevision): Promise<void> {
+    const data = RetouchRevisionMapper.toPersistence(revision)
+    await this.prisma.photoRetouchRevision.upsert({
+      where: { id: revision.id },
+      create: data,
+      update: data,
+    })
+  }
+}
@@ -0,0 +1,269 @@
+import { CorrectionTargetType, Prisma } from '@generated/prisma/client'
+import { Injectable } from '@nestjs/common'
+import { ReviewSession } from '@photos/domain/entities'
+import type {
+  IReviewSessionRepository,
+  ReviewBatch,
+  ReviewBatchResult,
+  ReviewBibRow,
+  ReviewColorRow,
+  StaleReviewTarget,
+} from '@photos/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+
+/** Same order as the review queue: least confident bibs first, then upload order. */
+const REVIEW_ORDER_SQL = Prisma.sql`
+  (SELECT MIN(confidence) FROM photo_bibs WHERE photo_id = p.id AND deleted_at IS NULL) ASC NULLS FIRST,
+  p.uploaded_at ASC`
+
+@Injectable()
+export class ReviewSessionRepository implements IReviewSessionRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async open(session: ReviewSession, limit: number): Promise<string[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const previous = await tx.reviewSession.findMany({
+        where: { event_id: session.eventId, reviewer_id: session.reviewerId, closed_at: null },
+        select: { id: true },
+      })
+      if (previous.length > 0) {
+        const ids = previous.map((s) => s.id)
+        await tx.reviewSession.updateMany({
+          where: { id: { in: ids } },
+          data: { closed_at: session.createdAt },
+        })
+        await tx.photo.updateMany({
+          where: { review_session_id: { in: ids }, reviewed_at: null },
+          data: { review_session_id: null },
+        })
+      }
+
+      await tx.reviewSession.create({
+        data: {
+          id: session.id,
+          event_id: session.eventId,
+          reviewer_id: session.reviewerId,
+          lease_expires_at: session.leaseExpiresAt,
+          created_at: session.createdAt,
+          closed_at: session.closedAt,
+        },
+      })
+
+      // SKIP LOCKED lets two reviewers opening sessions at once walk past each other's picks
+      const picked = await tx.$queryRaw<Array<{ id: string }>>`
+        SELECT p.id
+        FROM photos p
+        WHERE p.event_id = ${session.eventId}::uuid
+          AND p.status IN ('processed'::photo_status, 'reviewed'::photo_status, 'failed'::photo_status)
+          AND p.reviewed_at IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM review_sessions rs
+            WHERE rs.id = p.review_session_id
+              AND rs.closed_at IS NULL
+              AND rs.lease_expires_at > ${session.createdAt}
+          )
+        ORDER BY ${REVIEW_ORDER_SQL}
+        LIMIT ${limit}
+        FOR UPDATE OF p SKIP LOCKED
+      `
+      const photoIds = picked.map((r) => r.id)
+      if (photoIds.length > 0) {
+        await tx.photo.updateMany({
+          where: { id: { in: photoIds } },
+          data: { review_session_id: session.id },
+        })
+      }
+      return photoIds
+    })
+  }
+
+  async findById(id: string): Promise<ReviewSession | null> {
+    const row = await this.prisma.reviewSession.findUnique({ where: { id } })
+    if (!row) return null
+    return ReviewSession.fromPersistence({
+      id: row.id,
+      eventId: row.event_id,
+      reviewerId: row.reviewer_id,
+      leaseExpiresAt: row.lease_expires_at,
+      createdAt: row.created_at,
+      closedAt: row.closed_at,
+    })
+  }
+
+  async save(session: ReviewSession): Promise<void> {
+    await this.prisma.reviewSession.update({
+      where: { id: session.id },
+      data: { lease_expires_at: session.leaseExpiresAt, closed_at: session.closedAt },
+    })
+  }
+
+  async findLeasedPhotoIds(sessionId: string): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT p.id
+      FROM photos p
+      WHERE p.review_session_id = ${sessionId}::uuid
+        AND p.reviewed_at IS NULL
+      ORDER BY ${REVIEW_ORDER_SQL}
+    `
+    return rows.map((r) => r.id)
+  }
+
+  async release(sessionId: string): Promise<void> {
+    await this.prisma.photo.updateMany({
+      where: { review_session_id: sessionId, reviewed_at: null },
+      data: { review_session_id: null },
+    })
+  }
+
+  async findTargets(photoId: string): Promise<{ bibs: ReviewBibRow[]; colors: ReviewColorRow[] }> {
+    const [bibs, colors] = await Promise.all([
+      this.prisma.photoBib.findMany({
+        where: { photo_id: photoId },
+        select: { id: true, version: true, digits: true },
+      }),
+      this.prisma.photoColor.findMany({
+        where: { photo_id: photoId },
+        select: {
+          id: true,
+          version: true,
+          region: true,
+          primary_color: true,
+          secondary_color: true,
+        },
+      }),
+    ])
+    return {
+      bibs,
+      colors: colors.map((c) => ({
+        id: c.id,
+        version: c.version,
+        region: c.region,
+        primaryColor: c.primary_color,
+        secondaryColor: c.secondary_color,
+      })),
+    }
+  }
+
+  async applyReview(batch: ReviewBatch): Promise<ReviewBatchResult> {
+    return this.prisma.$transaction(async (tx) => {
+      const [photo] = await tx.$queryRaw<Array<{ review_session_id: string | null }>>`
+        SELECT review_session_id FROM photos WHERE id = ${batch.photoId}::uuid FOR UPDATE
+      `
+      if (photo?.review_session_id !== batch.session.id) {
+        return { applied: false, reason: 'photo_not_leased' }
+      }
+
+      const bibIds = idsOf(batch.expected, CorrectionTargetType.photo_bib)
+      const colorIds = idsOf(batch.expected, CorrectionTargetType.photo_color)
+      const current = new Map<string, number>()
+      if (bibIds.length > 0) {
+        const rows = await tx.$queryRaw<Array<{ id: string; version: number }>>`
+          SELECT id, version FROM photo_bibs
+          WHERE id = ANY(${bibIds}::uuid[]) AND deleted_at IS NULL
+          FOR UPDATE
+        `
+        for (const r of rows) current.set(`photo_bib:${r.id}`, r.version)
+      }
+      if (colorIds.length > 0) {
+        const rows = await tx.$queryRaw<Array<{ id: string; version: number }>>`
+          SELECT id, version FROM photo_colors
+          WHERE id = ANY(${colorIds}::uuid[]) AND deleted_at IS NULL
+          FOR UPDATE
+        `
+        for (const r of rows) current.set(`photo_color:${r.id}`, r.version)
+      }
+
+      const stale: StaleReviewTarget[] = []
+      for (const e of batch.expected) {
+        const version = current.get(`${e.targetType}:${e.targetId}`) ?? null
+        if (version !== e.version) {
+          stale.push({
+            targetType: e.targetType,
+            targetId: e.targetId,
+            expectedVersion: e.version,
+            currentVersion: version,
+          })
+        }
+      }
+      if (stale.length > 0) return { applied: false, reason: 'stale', stale }
+
+      if (batch.corrections.length > 0) {
+        await tx.correction.createMany({
+          data: batch.corrections.map((c) => ({
+            photo_id: c.photoId,
+            target_type: c.targetType,
+            target_id: c.targetId,
+            field: c.field,
+            old_value: c.oldValue,
+            new_value: c.newValue,
+            reviewer_id: c.reviewerId,
+          })),
+        })
+      }
+      // A no-op edit is version-checked but keeps its version
+      const corrected = new Set(batch.corrections.map((c) => c.targetId))
+      const deleted = new Set(batch.deletions.map((d) => d.targetId))
+      const deletion = { deleted_at: batch.reviewedAt, deleted_by_id: batch.reviewerId }
+      await tx.photoBib.updateMany({
+        where: { id: { in: bibIds.filter((id) => corrected.has(id) && !deleted.has(id)) } },
+        data: { version: { increment: 1 } },
+      })
+      await tx.photoBib.updateMany({
+        where: { id: { in: bibIds.filter((id) => deleted.has(id)) } },
+        data: { ...deletion, version: { increment: 1 } },
+      })
+      await tx.photoColor.updateMany({
+        where: { id: { in: colorIds.filter((id) => corrected.has(id) && !deleted.has(id)) } },
+        data: { version: { increment: 1 } },
+      })
+      await tx.photoColor.updateMany({
+        where: { id: { in: colorIds.filter((id) => deleted.has(id)) } },
+        data: { ...deletion, version: { increment: 1 } },
+      })
+
+      if (batch.newBibs.length > 0) {
+        await tx.photoBib.createMany({
+          data: batch.newBibs.map((b) => ({
+            id: b.id,
+            photo_id: b.photoId,
+            source: b.source,
+            digits: b.digits,
+            status: b.status,
+            created_by_id: b.createdById,
+          })),
+        })
+      }
+      if (batch.newColors.length > 0) {
+        await tx.photoColor.createMany({
+          data: batch.newColors.map((c) => ({
+            id: c.id,
+            photo_id: c.photoId,
+            source: c.source,
+            region: c.region,
+            primary_color: c.primaryColor,
+            secondary_color: c.secondaryColor,
+            created_by_id: c.createdById,
+          })),
+        })
+      }
+
+      await tx.photo.update({
+        where: { id: batch.photoId },
+        data: {
+          status: 'reviewed',
+          reviewed_at: batch.reviewedAt,
+          reviewed_by_id: batch.reviewerId,
+        },
+      })
+      await tx.reviewSession.update({
+        where: { id: batch.session.id },
+        data: { lease_expires_at: batch.session.leaseExpiresAt },
+      })
+      return { applied: true }
+    })
+  }
+}
+
+function idsOf(targets: ReviewBatch['expected'], targetType: CorrectionTargetType): string[] {
+  return targets.filter((t) => t.targetType === targetType).map((t) => t.targetId)
+}
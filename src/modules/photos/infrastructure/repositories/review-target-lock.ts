@@ -0,0 +1,65 @@
+import { CorrectionTargetType, type Prisma } from '@generated/prisma/client'
+import type { TargetWriteRefusal } from '@photos/domain/ports'
+
+export interface LockedReviewTarget {
+  photoId: string
+  targetType: CorrectionTargetType
+  targetId: string
+  reviewerId: string
+  /** Null when the caller did not send a version: only the lease is checked. */
+  expectedVersion: number | null
+}
+
+/**
+ * Locks the photo row. Returns false when another reviewer's active session leases the photo,
+ * the same lease check a review batch gets from holding the session.
+ */
+export async function lockPhotoForReviewer(
+  tx: Prisma.TransactionClient,
+  photoId: string,
+  reviewerId: string | null,
+): Promise<boolean> {
+  const [photo] = await tx.$queryRaw<Array<{ lease_holder: string | null }>>`
+    SELECT rs.reviewer_id AS lease_holder
+    FROM photos p
+    LEFT JOIN review_sessions rs
+      ON rs.id = p.review_session_id
+      AND rs.closed_at IS NULL
+      AND rs.lease_expires_at > ${new Date()}
+    WHERE p.id = ${photoId}::uuid
+    FOR UPDATE OF p
+  `
+  return !photo?.lease_holder || photo.lease_holder === reviewerId
+}
+
+/**
+ * Locks the photo, then the bib or color, in the same order as a review batch. Returns the
+ * refusal when another reviewer's active session leases the photo, the target is gone or its
+ * version moved.
+ */
+export async function lockReviewTarget(
+  tx: Prisma.TransactionClient,
+  target: LockedReviewTarget,
+): Promise<TargetWriteRefusal | null> {
+  if (!(await lockPhotoForReviewer(tx, target.photoId, target.reviewerId))) {
+    return { applied: false, reason: 'photo_leased' }
+  }
+
+  const [row] =
+    target.targetType === CorrectionTargetType.photo_bib
+      ? await tx.$queryRaw<Array<{ version: number }>>`
+          SELECT version FROM photo_bibs
+          WHERE id = ${target.targetId}::uuid AND deleted_at IS NULL
+          FOR UPDATE
+        `
+      : await tx.$queryRaw<Array<{ version: number }>>`
+          SELECT version FROM photo_colors
+          WHERE id = ${target.targetId}::uuid AND deleted_at IS NULL
+          FOR UPDATE
+        `
+  if (!row) return { applied: false, reason: 'stale' }
+  if (target.expectedVersion !== null && row.version !== target.expectedVersion) {
+    return { applied: false, reason: 'stale' }
+  }
+  return null
+}
@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common'
+import type { UploadSessionProgressProjection } from '@photos/application/projections'
+import type { UploadSession, UploadSessionItem } from '@photos/domain/entities'
+import type { IUploadSessionReadRepository } from '@photos/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as UploadSessionMapper from '../mappers/upload-session.mapper'
+
+const OUTSTANDING_STATUSES = ['pending' as const, 'uploading' as const, 'assembled' as const]
+
+@Injectable()
+export class UploadSessionReadRepository implements IUploadSessionReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Finds a session by ID, without its items. */
+  async findById(id: string): Promise<UploadSession | null> {
+    const record = await this.prisma.uploadSession.findUnique({ where: { id } })
+    return record ? UploadSessionMapper.toEntity(record) : null
+  }
+
+  /** Finds an item, scoped to its session so IDs from another session are rejected. */
+  async findItem(sessionId: string, itemId: string): Promise<UploadSessionItem | null> {
+    const record = await this.prisma.uploadSessionItem.findFirst({
+      where: { id: itemId, session_id: sessionId },
+    })
+    return record ? UploadSessionMapper.itemToEntity(record) : null
+  }
+
+  /** Lists every item of a session ordered by file name. */
+  async findItems(sessionId: string): Promise<UploadSessionItem[]> {
+    const records = await this.prisma.uploadSessionItem.findMany({
+      where: { session_id: sessionId },
+      orderBy: { file_name: 'asc' },
+    })
+    return records.map(UploadSessionMapper.itemToEntity)
+  }
+
+  /** Lists items still pending, uploading or assembled, ordered by file name. */
+  async findOutstandingItems(sessionId: string): Promise<UploadSessionItem[]> {
+    const records = await this.prisma.uploadSessionItem.findMany({
+      where: { session_id: sessionId, status: { in: OUTSTANDING_STATUSES } },
+      orderBy: { file_name: 'asc' },
+    })
+    return records.map(UploadSessionMapper.itemToEntity)
+  }
+
+  /** Counts items still pending, uploading or assembled. */
+  async countOutstandingItems(sessionId: string): Promise<number> {
+    return this.prisma.uploadSessionItem.count({
+      where: { session_id: sessionId, status: { in: OUTSTANDING_STATUSES } },
+    })
+  }
+
+  /** Whether a photo was already confirmed from the stored object. */
+  async hasPhoto(objectKey: string): Promise<boolean> {
+    const count = await this.prisma.photo.count({ where: { storage_key: objectKey } })
+    return count > 0
+  }
+
+  /** Returns the subset of `fileNames` that already exist as photos of the event. */
+  async findUploadedFileNames(eventId: string, fileNames: string[]): Promise<string[]> {
+    if (fileNames.length === 0) return []
+    const photos = await this.prisma.photo.findMany({
+      where: { event_id: eventId, filename: { in: fileNames } },
+      select: { filename: true },
+    })
+    return photos.map((p) => p.filename)
+  }
+
+  /** Progress of the most recently created open session of the event, if any. */
+  async getOpenSessionProgress(eventId: string): Promise<UploadSessionProgressProjection | null> {
+    const session = await this.prisma.uploadSession.findFirst({
+      where: { event_id: eventId, status: 'open' },
+      orderBy: { created_at: 'desc' },
+      select: { id: true, created_at: true, _count: { select: { items: true } } },
+    })
+    if (!session) return null
+
+    const outstandingItems = await this.countOutstandingItems(session.id)
+    return {
+      sessionId: session.id,
+      totalItems: session._count.items,
+      outstandingItems,
+      createdAt: session.created_at,
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common'
+import type { UploadSession, UploadSessionItem } from '@photos/domain/entities'
+import type { IUploadSessionWriteRepository } from '@photos/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as UploadSessionMapper from '../mappers/upload-session.mapper'
+
+@Injectable()
+export class UploadSessionWriteRepository implements IUploadSessionWriteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Inserts the session and its items atomically so a session never exists half-announced. */
+  async create(session: UploadSession, items: UploadSessionItem[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.uploadSession.create({ data: UploadSessionMapper.toPersistence(session) }),
+      this.prisma.uploadSessionItem.createMany({
+        data: items.map(UploadSessionMapper.itemToPersistence),
+      }),
+    ])
+  }
+
+  /** Persists the session row (create or update). Items are saved separately. */
+  async save(session: UploadSession): Promise<void> {
+    const data = UploadSessionMapper.toPersistence(session)
+    await this.prisma.uploadSession.upsert({
+      where: { id: session.id },
+      create: data,
+      update: data,
+    })
+  }
+
+  /** Persists a single item (create or update). */
+  async saveItem(item: UploadSessionItem): Promise<void> {
+    const data = UploadSessionMapper.itemToPersistence(item)
+    await this.prisma.uploadSessionItem.upsert({
+      where: { id: item.id },
+      create: data,
+      update: data,
+    })
+  }
+
+  /** Persists several items in one transaction. */
+  async saveItems(items: UploadSessionItem[]): Promise<void> {
+    if (items.length === 0) return
+    await this.prisma.$transaction(
+      items.map((item) => {
+        const data = UploadSessionMapper.itemToPersistence(item)
+        return this.prisma.uploadSessionItem.upsert({
+          where: { id: item.id },
+          create: data,
+          update: data,
+        })
+      }),
+    )
+  }
+
+  /** Sets the claim only when no other request holds an unexpired one. */
+  async claimItem(itemId: string, until: Date): Promise<boolean> {
+    const result = await this.prisma.uploadSessionItem.updateMany({
+      where: {
+        id: itemId,
+        OR: [{ claimed_until: null }, { claimed_until: { lte: new Date() } }],
+      },
+      data: { claimed_until: until },
+    })
+    return result.count > 0
+  }
+
+  async releaseItem(itemId: string): Promise<void> {
+    await this.prisma.uploadSessionItem.update({
+      where: { id: itemId },
+      data: { claimed_until: null },
+    })
+  }
+}
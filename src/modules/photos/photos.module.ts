@@ -2,21 +2,43 @@ import { BullModule } from '@nestjs/bullmq'
 import { forwardRef, Module } from '@nestjs/common'
 import { CqrsModule } from '@nestjs/cqrs'
 import { OrdersModule } from '@orders/orders.module'
+import { AbortUploadSessionHandler } from '@photos/application/commands/abort-upload-session/abort-upload-session.handler'
+import { AcceptBibSuggestionsHandler } from '@photos/application/commands/accept-bib-suggestions/accept-bib-suggestions.handler'
+import { ActivateRetouchRevisionHandler } from '@photos/application/commands/activate-retouch-revision/activate-retouch-revision.handler'
 import { AddPhotoBibHandler } from '@photos/application/commands/add-photo-bib/add-photo-bib.handler'
 import { AddPhotoColorHandler } from '@photos/application/commands/add-photo-color/add-photo-color.handler'
 import { ApplyBibCorrectionHandler } from '@photos/application/commands/apply-bib-correction/apply-bib-correction.handler'
 import { ApplyColorCorrectionHandler } from '@photos/application/commands/apply-color-correction/apply-color-correction.handler'
 import { BulkAssignCategoryHandler } from '@photos/application/commands/bulk-assign-category/bulk-assign-category.handler'
+import { BulkAssignCheckpointHandler } from '@photos/application/commands/bulk-assign-checkpoint/bulk-assign-checkpoint.handler'
+import { CloseReviewSessionHandler } from '@photos/application/commands/close-review-session/close-review-session.handler'
+import { CompleteUploadItemHandler } from '@photos/application/commands/complete-upload-item/complete-upload-item.handler'
 import { ConfirmPhotoBatchHandler } from '@photos/application/commands/confirm-photo-batch/confirm-photo-batch.handler'
 import { ConfirmRetouchedUploadHandler } from '@photos/application/commands/confirm-retouched-upload/confirm-retouched-upload.handler'
+import { CreateUploadSessionHandler } from '@photos/application/commands/create-upload-session/create-upload-session.handler'
 import { DeletePhotoBibHandler } from '@photos/application/commands/delete-photo-bib/delete-photo-bib.handler'
 import { DeletePhotoColorHandler } from '@photos/application/commands/delete-photo-color/delete-photo-color.handler'
+import { EmbedPhotoDetectionsHandler } from '@photos/application/commands/embed-photo-detections/embed-photo-detections.handler'
+import { EmbedPhotoFacesHandler } from '@photos/application/commands/embed-photo-faces/embed-photo-faces.handler'
+import { ExtractEventExifHandler } from '@photos/application/commands/extract-event-exif/extract-event-exif.handler'
+import { ExtractPhotoExifHandler } from '@photos/application/commands/extract-photo-exif/extract-photo-exif.handler'
 import { GeneratePresignedUrlHandler } from '@photos/application/commands/generate-presigned-url/generate-presigned-url.handler'
 import { GenerateRetouchedPresignedUrlHandler } from '@photos/application/commands/generate-retouched-presigned-url/generate-retouched-presigned-url.handler'
+import { GenerateUploadPartUrlsHandler } from '@photos/application/commands/generate-upload-part-urls/generate-upload-part-urls.handler'
 import { MarkPhotoReviewedHandler } from '@photos/application/commands/mark-photo-reviewed/mark-photo-reviewed.handler'
+import { OpenReviewSessionHandler } from '@photos/application/commands/open-review-session/open-review-session.handler'
+import { PropagateBurstBibsHandler } from '@photos/application/commands/propagate-burst-bibs/propagate-burst-bibs.handler'
+import { PurgeRetouchRevisionHandler } from '@photos/application/commands/purge-retouch-revision/purge-retouch-revision.handler'
+import { RecordUploadPartHandler } from '@photos/application/commands/record-upload-part/record-upload-part.handler'
+import { RenewReviewSessionHandler } from '@photos/application/commands/renew-review-session/renew-review-session.handler'
+import { ResumeUploadSessionHandler } from '@photos/application/commands/resume-upload-session/resume-upload-session.handler'
+import { SetCameraClockOffsetHandler } from '@photos/application/commands/set-camera-clock-offset/set-camera-clock-offset.handler'
 import { SetPhotoRetouchFlagHandler } from '@photos/application/commands/set-photo-retouch-flag/set-photo-retouch-flag.handler'
+import { SubmitPhotoReviewHandler } from '@photos/application/commands/submit-photo-review/submit-photo-review.handler'
 import { FindSimilarPhotosHandler } from '@photos/application/queries/find-similar-photos/find-similar-photos.handler'
 import { GetDownloadManifestHandler } from '@photos/application/queries/get-download-manifest/get-download-manifest.handler'
+import { GetEventCamerasHandler } from '@photos/application/queries/get-event-cameras/get-event-cameras.handler'
+import { GetMissingUploadItemsHandler } from '@photos/application/queries/get-missing-upload-items/get-missing-upload-items.handler'
 import { GetPendingRetouchHandler } from '@photos/application/queries/get-pending-retouch/get-pending-retouch.handler'
 import { GetPhotoDetailHandler } from '@photos/application/queries/get-photo-detail/get-photo-detail.handler'
 import { GetPhotoDetailBySlugHandler } from '@photos/application/queries/get-photo-detail-by-slug/get-photo-detail-by-slug.handler'
@@ -24,74 +46,160 @@ import { GetPhotoDownloadUrlHandler } from '@photos/application/queries/get-phot
 import { GetPhotoViewHandler } from '@photos/application/queries/get-photo-view/get-photo-view.handler'
 import { GetPhotosListHandler } from '@photos/application/queries/get-photos-list/get-photos-list.handler'
 import { GetResumePointHandler } from '@photos/application/queries/get-resume-point/get-resume-point.handler'
+import { GetRetouchRevisionsHandler } from '@photos/application/queries/get-retouch-revisions/get-retouch-revisions.handler'
 import { GetReviewQueueHandler } from '@photos/application/queries/get-review-queue/get-review-queue.handler'
 import { SearchPhotosHandler } from '@photos/application/queries/search-photos/search-photos.handler'
+import { SearchPhotosRankedHandler } from '@photos/application/queries/search-photos-ranked/search-photos-ranked.handler'
+import { RetouchRevisionActivator } from '@photos/application/services/retouch-revision-activator.service'
 import {
+  CAMERA_CLOCK_OFFSET_REPOSITORY,
   CORRECTION_REPOSITORY,
   PHOTO_BIB_WRITE_REPOSITORY,
+  PHOTO_BURST_REPOSITORY,
   PHOTO_COLOR_WRITE_REPOSITORY,
+  PHOTO_DETECTION_EMBEDDING_REPOSITORY,
+  PHOTO_EXIF_REPOSITORY,
+  PHOTO_FACE_EMBEDDING_REPOSITORY,
+  PHOTO_METADATA_READER,
   PHOTO_READ_REPOSITORY,
   PHOTO_WRITE_REPOSITORY,
+  RETOUCH_REVISION_REPOSITORY,
+  REVIEW_SESSION_REPOSITORY,
+  UPLOAD_SESSION_READ_REPOSITORY,
+  UPLOAD_SESSION_WRITE_REPOSITORY,
 } from '@photos/domain/ports'
+import { StoragePhotoMetadataReader } from '@photos/infrastructure/metadata'
+import { BurstPropagationProcessor } from '@photos/infrastructure/processors/burst-propagation.processor'
 import { EmbeddingGenerationProcessor } from '@photos/infrastructure/processors/embedding-generation.processor'
+import { ExifExtractionProcessor } from '@photos/infrastructure/processors/exif-extraction.processor'
+import { FaceEmbeddingProcessor } from '@photos/infrastructure/processors/face-embedding.processor'
 import { PhotoClassificationProcessor } from '@photos/infrastructure/processors/photo-classification.processor'
+import { RetouchRetentionProcessor } from '@photos/infrastructure/processors/retouch-retention.processor'
+import { CameraClockOffsetRepository } from '@photos/infrastructure/repositories/camera-clock-offset.repository'
 import { CorrectionRepository } from '@photos/infrastructure/repositories/correction.repository'
 import { PhotoBibWriteRepository } from '@photos/infrastructure/repositories/photo-bib-write.repository'
+import { PhotoBurstRepository } from '@photos/infrastructure/repositories/photo-burst.repository'
 import { PhotoColorWriteRepository } from '@photos/infrastructure/repositories/photo-color-write.repository'
+import { PhotoDetectionEmbeddingRepository } from '@photos/infrastructure/repositories/photo-detection-embedding.repository'
+import { PhotoExifRepository } from '@photos/infrastructure/repositories/photo-exif.repository'
+import { PhotoFaceEmbeddingRepository } from '@photos/infrastructure/repositories/photo-face-embedding.repository'
 import { PhotoReadRepository } from '@photos/infrastructure/repositories/photo-read.repository'
 import { PhotoWriteRepository } from '@photos/infrastructure/repositories/photo-write.repository'
+import { RetouchRevisionRepository } from '@photos/infrastructure/repositories/retouch-revision.repository'
+import { ReviewSessionRepository } from '@photos/infrastructure/repositories/review-session.repository'
+import { UploadSessionReadRepository } from '@photos/infrastructure/repositories/upload-session-read.repository'
+import { UploadSessionWriteRepository } from '@photos/infrastructure/repositories/upload-session-write.repository'
+import { CamerasController } from '@photos/presentation/controllers/cameras.controller'
 import { PhotosController } from '@photos/presentation/controllers/photos.controller'
+import { ReviewSessionsController } from '@photos/presentation/controllers/review-sessions.controller'
+import { UploadSessionsController } from '@photos/presentation/controllers/upload-sessions.controller'
 import { ClassificationsModule } from '../classifications/classifications.module'
 import { EventsModule } from '../events/events.module'
+import { ParticipantsModule } from '../participants/participants.module'
 
 const CommandHandlers = [
+  AbortUploadSessionHandler,
+  AcceptBibSuggestionsHandler,
+  ActivateRetouchRevisionHandler,
   AddPhotoBibHandler,
   AddPhotoColorHandler,
   ApplyBibCorrectionHandler,
   ApplyColorCorrectionHandler,
   BulkAssignCategoryHandler,
+  BulkAssignCheckpointHandler,
+  CloseReviewSessionHandler,
+  CompleteUploadItemHandler,
   ConfirmPhotoBatchHandler,
   ConfirmRetouchedUploadHandler,
+  CreateUploadSessionHandler,
   DeletePhotoBibHandler,
   DeletePhotoColorHandler,
+  EmbedPhotoDetectionsHandler,
+  EmbedPhotoFacesHandler,
+  ExtractEventExifHandler,
+  ExtractPhotoExifHandler,
   GeneratePresignedUrlHandler,
   GenerateRetouchedPresignedUrlHandler,
+  GenerateUploadPartUrlsHandler,
   MarkPhotoReviewedHandler,
+  OpenReviewSessionHandler,
+  PropagateBurstBibsHandler,
+  PurgeRetouchRevisionHandler,
+  RecordUploadPartHandler,
+  RenewReviewSessionHandler,
+  ResumeUploadSessionHandler,
+  SetCameraClockOffsetHandler,
   SetPhotoRetouchFlagHandler,
+  SubmitPhotoReviewHandler,
 ]
 const QueryHandlers = [
   FindSimilarPhotosHandler,
+  GetEventCamerasHandler,
+  GetMissingUploadItemsHandler,
   GetPhotosListHandler,
   GetPhotoDetailHandler,
   GetPhotoDetailBySlugHandler,
   GetPhotoDownloadUrlHandler,
   GetPhotoViewHandler,
   GetResumePointHandler,
+  GetRetouchRevisionsHandler,
   GetReviewQueueHandler,
   GetDownloadManifestHandler,
   SearchPhotosHandler,
+  SearchPhotosRankedHandler,
   GetPendingRetouchHandler,
 ]
 
 @Module({
   imports: [
     CqrsModule,
-    BullModule.registerQueue({ name: 'embedding-generation' }, { name: 'photo-classification' }),
+    BullModule.registerQueue(
+      { name: 'embedding-generation' },
+      { name: 'photo-classification' },
+      { name: 'exif-extraction' },
+      { name: 'face-embedding' },
+      { name: 'burst-propagation' },
+      { name: 'retouch-retention' },
+    ),
     forwardRef(() => EventsModule),
     forwardRef(() => OrdersModule),
     forwardRef(() => ClassificationsModule),
+    ParticipantsModule,
+  ],
+  controllers: [
+    PhotosController,
+    UploadSessionsController,
+    CamerasController,
+    ReviewSessionsController,
   ],
-  controllers: [PhotosController],
   providers: [
     ...CommandHandlers,
     ...QueryHandlers,
+    BurstPropagationProcessor,
     EmbeddingGenerationProcessor,
+    ExifExtractionProcessor,
+    FaceEmbeddingProcessor,
     PhotoClassificationProcessor,
+    RetouchRetentionProcessor,
+    RetouchRevisionActivator,
     { provide: PHOTO_READ_REPOSITORY, useClass: PhotoReadRepository },
     { provide: PHOTO_WRITE_REPOSITORY, useClass: PhotoWriteRepository },
     { provide: CORRECTION_REPOSITORY, useClass: CorrectionRepository },
     { provide: PHOTO_BIB_WRITE_REPOSITORY, useClass: PhotoBibWriteRepository },
+    { provide: PHOTO_BURST_REPOSITORY, useClass: PhotoBurstRepository },
     { provide: PHOTO_COLOR_WRITE_REPOSITORY, useClass: PhotoColorWriteRepository },
+    { provide: RETOUCH_REVISION_REPOSITORY, useClass: RetouchRevisionRepository },
+    { provide: REVIEW_SESSION_REPOSITORY, useClass: ReviewSessionRepository },
+    { provide: UPLOAD_SESSION_READ_REPOSITORY, useClass: UploadSessionReadRepository },
+    { provide: UPLOAD_SESSION_WRITE_REPOSITORY, useClass: UploadSessionWriteRepository },
+    { provide: PHOTO_EXIF_REPOSITORY, useClass: PhotoExifRepository },
+    { provide: CAMERA_CLOCK_OFFSET_REPOSITORY, useClass: CameraClockOffsetRepository },
+    { provide: PHOTO_METADATA_READER, useClass: StoragePhotoMetadataReader },
+    { provide: PHOTO_FACE_EMBEDDING_REPOSITORY, useClass: PhotoFaceEmbeddingRepository },
+    {
+      provide: PHOTO_DETECTION_EMBEDDING_REPOSITORY,
+      useClass: PhotoDetectionEmbeddingRepository,
+    },
   ],
   exports: [
     PHOTO_READ_REPOSITORY,
@@ -0,0 +1,88 @@
+import { Body, Controller, Get, HttpCode, Param, Post, Put } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  ExtractEventExifCommand,
+  SetCameraClockOffsetCommand,
+  SetCameraClockOffsetDto,
+} from '@photos/application/commands'
+import {
+  CameraBodyProjection,
+  CameraClockOffsetProjection,
+  ExifExtractionProjection,
+} from '@photos/application/projections'
+import { GetEventCamerasQuery } from '@photos/application/queries'
+import { AuditContext } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Photos')
+@ApiBearerAuth()
+@Controller('events/:eventId')
+export class CamerasController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  @Roles('admin', 'operator')
+  @Get('cameras')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List the camera bodies found in the event photos EXIF' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Camera bodies with photo counts and clock offsets',
+    type: CameraBodyProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async getCameras(@Param('eventId') eventId: string) {
+    return this.queryBus.execute(new GetEventCamerasQuery(eventId))
+  }
+
+  /** Sets the clock offset of one camera body and re-stamps its photos' capture time. */
+  @Roles('admin')
+  @Put('cameras/clock-offset')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.camera_clock_offset' })
+  @ApiOperation({ summary: 'Set a camera clock offset and re-stamp its photos' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Offset saved and photos re-stamped',
+    type: CameraClockOffsetProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Offset out of range' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async setClockOffset(
+    @Param('eventId') eventId: string,
+    @Body() dto: SetCameraClockOffsetDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new SetCameraClockOffsetCommand(
+        eventId,
+        dto.cameraBody,
+        dto.offsetSeconds,
+        new AuditContext(user.userId),
+      ),
+    )
+  }
+
+  /** Queues EXIF extraction for photos uploaded before it ran automatically. */
+  @Roles('admin')
+  @Post('photos/exif/extract')
+  @HttpCode(202)
+  @SuccessMessage('success.CREATED', { entity: 'entities.exif_extraction' })
+  @ApiOperation({ summary: 'Extract EXIF for event photos that have none yet' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 202,
+    description: 'Extraction jobs queued',
+    type: ExifExtractionProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async extractExif(@Param('eventId') eventId: string) {
+    return this.commandBus.execute(new ExtractEventExifCommand(eventId))
+  }
+}
@@ -3,6 +3,9 @@ import { CommandBus, QueryBus } from '@nestjs/cqrs'
 import { ApiBearerAuth, ApiOperation, ApiParam, ApiQuery, ApiTags } from '@nestjs/swagger'
 import { BulkCategoryResultProjection } from '@photo-categories/application/projections'
 import {
+  AcceptBibSuggestionsCommand,
+  AcceptBibSuggestionsDto,
+  ActivateRetouchRevisionCommand,
   AddPhotoBibCommand,
   AddPhotoBibDto,
   AddPhotoColorCommand,
@@ -13,12 +16,16 @@ import {
   ApplyColorCorrectionDto,
   BulkAssignCategoryCommand,
   BulkAssignCategoryDto,
+  BulkAssignCheckpointCommand,
+  BulkAssignCheckpointDto,
   ConfirmPhotoBatchCommand,
   ConfirmPhotoBatchDto,
   ConfirmRetouchedUploadCommand,
   ConfirmRetouchedUploadDto,
   DeletePhotoBibCommand,
+  DeletePhotoBibDto,
   DeletePhotoColorCommand,
+  DeletePhotoColorDto,
   GeneratePresignedUrlCommand,
   GeneratePresignedUrlDto,
   GenerateRetouchedPresignedUrlCommand,
@@ -28,13 +35,18 @@ import {
   SetPhotoRetouchFlagDto,
 } from '@photos/application/commands'
 import {
+  AcceptedSuggestionsProjection,
+  BulkCheckpointResultProjection,
   ConfirmBatchProjection,
   DownloadUrlProjection,
   PendingRetouchOrderProjection,
   PhotoDetailProjection,
   PhotoListProjection,
+  PhotoSearchResultProjection,
   PhotoViewProjection,
   PresignedUrlProjection,
+  RankedPhotoSearchResultProjection,
+  RetouchRevisionProjection,
   ReviewQueueItemProjection,
   SimilarPhotoProjection,
 } from '@photos/application/projections'
@@ -46,10 +58,13 @@ import {
   GetPhotoDownloadUrlQuery,
   GetPhotosListDto,
   GetPhotosListQuery,
+  GetRetouchRevisionsQuery,
   GetReviewQueueDto,
   GetReviewQueueQuery,
   SearchPhotosDto,
   SearchPhotosQuery,
+  SearchPhotosRankedDto,
+  SearchPhotosRankedQuery,
 } from '@photos/application/queries'
 import { GetDownloadManifestQuery } from '@photos/application/queries/get-download-manifest/get-download-manifest.query'
 import { GetPhotoViewQuery } from '@photos/application/queries/get-photo-view/get-photo-view.query'
@@ -110,8 +125,8 @@ export class PhotosController {
   @ApiOperation({ summary: 'Search photos with multi-criteria filters' })
   @ApiEnvelopeResponse({
     status: 200,
-    description: 'Search results',
-    type: PhotoListProjection,
+    description: 'Search results with the participants linked through confirmed bibs',
+    type: PhotoSearchResultProjection,
     isArray: true,
   })
   async search(@Query() dto: SearchPhotosDto) {
@@ -121,6 +136,29 @@ export class PhotosController {
     return this.queryBus.execute(query)
   }
 
+  /**
+   * Ranks photos by how many of the requested bibs and colors they carry, weighted by
+   * confidence, with reviewer attributes above AI ones. Accepts free text in `q`.
+   */
+  @Get('photos/search/ranked')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'Search photos ranked by matching bibs and colors' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Photos ranked by score, each with the attributes that matched',
+    type: RankedPhotoSearchResultProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({
+    status: 422,
+    description: 'No event, or no bib or color to search for',
+  })
+  async searchRanked(@Query() dto: SearchPhotosRankedDto) {
+    const pagination = new Pagination(dto.page ?? 1, dto.limit ?? 20)
+    const { page, limit, q, ...filters } = dto
+    return this.queryBus.execute(new SearchPhotosRankedQuery(q, filters, pagination))
+  }
+
   /** Returns paid orders with photos pending retouching, ordered FIFO. */
   @Roles('admin', 'operator')
   @Get('photos/pending-retouch')
@@ -136,21 +174,33 @@ export class PhotosController {
     return this.queryBus.execute(new GetPendingRetouchQuery())
   }
 
-  /** Finds visually similar photos within the same event using vector embeddings. */
+  /**
+   * Finds visually similar photos within the same event using vector embeddings.
+   * With a detectionId, matches that rider's crop instead of the whole frame.
+   */
   @Get('photos/:id/similar')
   @SuccessMessage('success.LIST')
   @ApiOperation({ summary: 'Find visually similar photos within the same event' })
   @ApiParam({ name: 'id', description: 'Photo UUID', format: 'uuid' })
   @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({
+    name: 'detectionId',
+    required: false,
+    description: 'Person or bicycle detection of this photo to match instead of the whole frame',
+  })
   @ApiEnvelopeResponse({
     status: 200,
     description: 'Similar photos found',
     type: SimilarPhotoProjection,
     isArray: true,
   })
-  @ApiEnvelopeErrorResponse({ status: 404, description: 'Photo not found' })
-  async findSimilar(@Param('id') id: string, @Query('limit') limit?: number) {
-    const query = new FindSimilarPhotosQuery(id, limit ? Number(limit) : 10)
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Photo or detection not found' })
+  async findSimilar(
+    @Param('id') id: string,
+    @Query('limit') limit?: number,
+    @Query('detectionId') detectionId?: string,
+  ) {
+    const query = new FindSimilarPhotosQuery(id, limit ? Number(limit) : 10, detectionId)
     return this.queryBus.execute(query)
   }
 
@@ -198,6 +248,10 @@ export class PhotosController {
     type: EntityIdProjection,
   })
   @ApiEnvelopeErrorResponse({ status: 404, description: 'Photo or bib not found' })
+  @ApiEnvelopeErrorResponse({
+    status: 409,
+    description: 'Another reviewer leases the photo or the bib changed since it was read',
+  })
   @ApiEnvelopeErrorResponse({ status: 422, description: 'Photo is being processed' })
   async applyBibCorrection(
     @Param('photoId') photoId: string,
@@ -206,7 +260,13 @@ export class PhotosController {
     @CurrentUser() user: ICurrentUser,
   ) {
     return this.commandBus.execute(
-      new ApplyBibCorrectionCommand(photoId, bibId, body.newValue, user.userId),
+      new ApplyBibCorrectionCommand(
+        photoId,
+        bibId,
+        body.newValue,
+        user.userId,
+        body.version ?? null,
+      ),
     )
   }
 
@@ -222,6 +282,10 @@ export class PhotosController {
     description: 'Correction applied (or no-op if value unchanged)',
     type: EntityIdProjection,
   })
+  @ApiEnvelopeErrorResponse({
+    status: 409,
+    description: 'Another reviewer leases the photo or the color changed since it was read',
+  })
   @ApiEnvelopeErrorResponse({ status: 422, description: 'Photo is being processed' })
   async applyColorCorrection(
     @Param('photoId') photoId: string,
@@ -230,7 +294,14 @@ export class PhotosController {
     @CurrentUser() user: ICurrentUser,
   ) {
     return this.commandBus.execute(
-      new ApplyColorCorrectionCommand(photoId, colorId, body.field, body.newValue, user.userId),
+      new ApplyColorCorrectionCommand(
+        photoId,
+        colorId,
+        body.field,
+        body.newValue,
+        user.userId,
+        body.version ?? null,
+      ),
     )
   }
 
@@ -246,11 +317,30 @@ export class PhotosController {
     description: 'Photo marked reviewed',
     type: EntityIdProjection,
   })
+  @ApiEnvelopeErrorResponse({ status: 409, description: 'Another reviewer leases the photo' })
   @ApiEnvelopeErrorResponse({ status: 422, description: 'Photo is being processed' })
   async markPhotoReviewed(@Param('photoId') photoId: string, @CurrentUser() user: ICurrentUser) {
     return this.commandBus.execute(new MarkPhotoReviewedCommand(photoId, user.userId))
   }
 
+  /** Accepts the bibs suggested from other frames of the burst, for many photos at once. */
+  @Roles('admin', 'operator')
+  @Post('photos/bib-suggestions/accept')
+  @HttpCode(200)
+  @SuccessMessage('success.UPDATED', { entity: 'entities.photo' })
+  @ApiOperation({ summary: 'Accept burst bib suggestions in bulk' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Suggestions accepted as reviewer bibs',
+    type: AcceptedSuggestionsProjection,
+  })
+  async acceptBibSuggestions(
+    @Body() dto: AcceptBibSuggestionsDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(new AcceptBibSuggestionsCommand(dto.photoIds, user.userId))
+  }
+
   /** Add a manual reviewer-sourced bib to a photo (admin/operator). */
   @Roles('admin', 'operator')
   @Post('photos/:photoId/bibs')
@@ -277,12 +367,19 @@ export class PhotosController {
   @ApiParam({ name: 'photoId', format: 'uuid' })
   @ApiParam({ name: 'bibId', format: 'uuid' })
   @ApiEnvelopeResponse({ status: 200, description: 'Bib soft-deleted', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({
+    status: 409,
+    description: 'Another reviewer leases the photo or the bib changed since it was read',
+  })
   async deletePhotoBib(
     @Param('photoId') photoId: string,
     @Param('bibId') bibId: string,
+    @Query() dto: DeletePhotoBibDto,
     @CurrentUser() user: ICurrentUser,
   ) {
-    return this.commandBus.execute(new DeletePhotoBibCommand(photoId, bibId, user.userId))
+    return this.commandBus.execute(
+      new DeletePhotoBibCommand(photoId, bibId, user.userId, dto.version ?? null),
+    )
   }
 
   /** Add a manual reviewer-sourced color to a photo (admin/operator). */
@@ -321,12 +418,19 @@ export class PhotosController {
   @ApiParam({ name: 'photoId', format: 'uuid' })
   @ApiParam({ name: 'colorId', format: 'uuid' })
   @ApiEnvelopeResponse({ status: 200, description: 'Color soft-deleted', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({
+    status: 409,
+    description: 'Another reviewer leases the photo or the color changed since it was read',
+  })
   async deletePhotoColor(
     @Param('photoId') photoId: string,
     @Param('colorId') colorId: string,
+    @Query() dto: DeletePhotoColorDto,
     @CurrentUser() user: ICurrentUser,
   ) {
-    return this.commandBus.execute(new DeletePhotoColorCommand(photoId, colorId, user.userId))
+    return this.commandBus.execute(
+      new DeletePhotoColorCommand(photoId, colorId, user.userId, dto.version ?? null),
+    )
   }
 
   /** Paginated review queue for an event, ordered by min(bib confidence) ASC NULLS FIRST (admin/operator). */
@@ -344,7 +448,15 @@ export class PhotosController {
   async getReviewQueue(@Param('eventSlug') eventSlug: string, @Query() dto: GetReviewQueueDto) {
     const pagination = new Pagination(dto.page ?? 1, dto.limit ?? 50)
     const status = dto.status ?? 'all'
-    return this.queryBus.execute(new GetReviewQueueQuery(eventSlug, pagination, status))
+    return this.queryBus.execute(
+      new GetReviewQueueQuery(
+        eventSlug,
+        pagination,
+        status,
+        dto.timingFlagged ?? false,
+        dto.suggested ?? false,
+      ),
+    )
   }
 
   /** Retrieves a single photo's full detail (used by workspace). */
@@ -415,6 +527,7 @@ export class PhotosController {
       })),
       new AuditContext(user.userId),
       dto.photoCategoryId ?? null,
+      dto.checkpointId ?? null,
     )
     return this.commandBus.execute(command)
   }
@@ -431,15 +544,22 @@ export class PhotosController {
     type: PresignedUrlProjection,
   })
   @ApiEnvelopeErrorResponse({ status: 404, description: 'Photo not found' })
+  @ApiEnvelopeErrorResponse({ status: 409, description: 'Another operator holds the retouch' })
   async generateRetouchedPresignedUrl(
     @Param('id') id: string,
     @Body() dto: GenerateRetouchedPresignedUrlDto,
+    @CurrentUser() user: ICurrentUser,
   ) {
-    const command = new GenerateRetouchedPresignedUrlCommand(id, dto.fileName, dto.contentType)
+    const command = new GenerateRetouchedPresignedUrlCommand(
+      id,
+      dto.fileName,
+      dto.contentType,
+      user.userId,
+    )
     return this.commandBus.execute(command)
   }
 
-  /** Confirms a retouched photo upload. Replaces previous retouched if exists. */
+  /** Confirms a retouched photo upload as the photo's new active revision. */
   @Roles('admin', 'operator')
   @Post('photos/:id/retouched/confirm')
   @SuccessMessage('success.UPDATED', { entity: 'entities.photo' })
@@ -452,15 +572,58 @@ export class PhotosController {
   })
   @ApiEnvelopeErrorResponse({ status: 400, description: 'Invalid object key prefix' })
   @ApiEnvelopeErrorResponse({ status: 404, description: 'Photo not found' })
+  @ApiEnvelopeErrorResponse({ status: 409, description: 'Another operator holds the retouch' })
   async confirmRetouchedUpload(
     @Param('id') id: string,
     @Body() dto: ConfirmRetouchedUploadDto,
     @CurrentUser() user: ICurrentUser,
   ) {
-    const command = new ConfirmRetouchedUploadCommand(id, dto.objectKey, dto.fileSize, user.userId)
+    const command = new ConfirmRetouchedUploadCommand(
+      id,
+      dto.objectKey,
+      dto.fileSize,
+      user.userId,
+      dto.note ?? null,
+    )
     return this.commandBus.execute(command)
   }
 
+  /** Lists every retouched file uploaded for the photo. */
+  @Roles('admin', 'operator')
+  @Get('photos/:id/retouched/revisions')
+  @SuccessMessage('success.FETCHED', { entity: 'entities.retouch_revision' })
+  @ApiOperation({ summary: 'List the retouch revisions of a photo, newest first' })
+  @ApiParam({ name: 'id', description: 'Photo UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Retouch revisions retrieved',
+    type: RetouchRevisionProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Photo not found' })
+  async getRetouchRevisions(@Param('id') id: string) {
+    return this.queryBus.execute(new GetRetouchRevisionsQuery(id))
+  }
+
+  /** Serves an earlier retouch revision again, e.g. to roll back a bad re-edit. */
+  @Roles('admin', 'operator')
+  @Post('photos/:id/retouched/revisions/:revisionId/activate')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.retouch_revision' })
+  @ApiOperation({ summary: 'Make a retouch revision the one deliveries serve' })
+  @ApiParam({ name: 'id', description: 'Photo UUID', format: 'uuid' })
+  @ApiParam({ name: 'revisionId', description: 'Retouch revision UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Revision activated; the photo revisions are returned',
+    type: RetouchRevisionProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Photo or revision not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'The revision file was already purged' })
+  async activateRetouchRevision(@Param('id') id: string, @Param('revisionId') revisionId: string) {
+    return this.commandBus.execute(new ActivateRetouchRevisionCommand(id, revisionId))
+  }
+
   /** Returns a download URL for the original or retouched photo. */
   @Roles('admin', 'operator')
   @Get('photos/:id/download')
@@ -493,6 +656,26 @@ export class PhotosController {
     return this.commandBus.execute(command)
   }
 
+  /** Tags photos with the checkpoint they were shot at, or clears the tag. */
+  @Roles('admin', 'operator')
+  @Patch('events/:eventId/photos/checkpoint')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.photo' })
+  @ApiOperation({ summary: 'Bulk assign or remove the checkpoint of event photos' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Photos updated',
+    type: BulkCheckpointResultProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Checkpoint not found in this event' })
+  async bulkAssignCheckpoint(
+    @Param('eventId') eventId: string,
+    @Body() dto: BulkAssignCheckpointDto,
+  ) {
+    const command = new BulkAssignCheckpointCommand(eventId, dto.photoIds, dto.checkpointId ?? null)
+    return this.commandBus.execute(command)
+  }
+
   /** Sets the requires_retouch flag on a photo. Used to flag a photo
    *  back into the retouch queue or dismiss a wrongly-flagged photo. */
   @Roles('admin', 'operator')
@@ -0,0 +1,130 @@
+import { Body, Controller, Delete, HttpCode, Param, Post } from '@nestjs/common'
+import { CommandBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  CloseReviewSessionCommand,
+  OpenReviewSessionCommand,
+  OpenReviewSessionDto,
+  RenewReviewSessionCommand,
+  SubmitPhotoReviewCommand,
+  SubmitPhotoReviewDto,
+} from '@photos/application/commands'
+import {
+  PhotoReviewResultProjection,
+  ReviewSessionProjection,
+} from '@photos/application/projections'
+import { EntityIdProjection } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+const DEFAULT_SESSION_SIZE = 20
+
+/**
+ * Keyboard-driven review: a session reserves the next unreviewed photos of an event for one
+ * reviewer, who then submits each photo's edits and the review itself in a single request.
+ */
+@ApiTags('Photos')
+@ApiBearerAuth()
+@Roles('admin', 'operator')
+@Controller()
+export class ReviewSessionsController {
+  constructor(private readonly commandBus: CommandBus) {}
+
+  /** Reserves the next unreviewed photos, in review queue order, closing the reviewer's previous session on the event. */
+  @Post('events/:eventSlug/review-sessions')
+  @SuccessMessage('success.CREATED', { entity: 'entities.review_session' })
+  @ApiOperation({ summary: 'Open a review session on the next unreviewed photos' })
+  @ApiParam({ name: 'eventSlug', description: 'Event public slug' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Review session opened',
+    type: ReviewSessionProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'No unreviewed photo is free' })
+  async open(
+    @Param('eventSlug') eventSlug: string,
+    @Body() dto: OpenReviewSessionDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new OpenReviewSessionCommand(eventSlug, user.userId, dto.size ?? DEFAULT_SESSION_SIZE),
+    )
+  }
+
+  /** Extends the lease; photos taken by another session after it ran out are not listed. */
+  @Post('review-sessions/:sessionId/renew')
+  @HttpCode(200)
+  @SuccessMessage('success.UPDATED', { entity: 'entities.review_session' })
+  @ApiOperation({ summary: 'Renew the lease of a review session' })
+  @ApiParam({ name: 'sessionId', description: 'Review session UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Lease renewed',
+    type: ReviewSessionProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 403, description: 'Session belongs to another reviewer' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Review session not found' })
+  @ApiEnvelopeErrorResponse({ status: 409, description: 'Session is closed' })
+  async renew(@Param('sessionId') sessionId: string, @CurrentUser() user: ICurrentUser) {
+    return this.commandBus.execute(new RenewReviewSessionCommand(sessionId, user.userId))
+  }
+
+  /** Applies the bib and color edits and marks the photo reviewed, all or nothing. */
+  @Post('review-sessions/:sessionId/photos/:photoId/review')
+  @HttpCode(200)
+  @SuccessMessage('success.UPDATED', { entity: 'entities.photo' })
+  @ApiOperation({ summary: 'Submit the edits of a photo and mark it reviewed' })
+  @ApiParam({ name: 'sessionId', description: 'Review session UUID', format: 'uuid' })
+  @ApiParam({ name: 'photoId', description: 'Photo UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Photo reviewed',
+    type: PhotoReviewResultProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 403, description: 'Session belongs to another reviewer' })
+  @ApiEnvelopeErrorResponse({
+    status: 404,
+    description: 'Review session, photo, bib or color not found',
+  })
+  @ApiEnvelopeErrorResponse({
+    status: 409,
+    description: 'Session closed, photo not leased to it, or an edited bib or color is stale',
+  })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'A bib or color is edited twice' })
+  async submit(
+    @Param('sessionId') sessionId: string,
+    @Param('photoId') photoId: string,
+    @Body() dto: SubmitPhotoReviewDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new SubmitPhotoReviewCommand(sessionId, photoId, user.userId, {
+        bibEdits: dto.bibEdits ?? [],
+        bibDeletions: dto.bibDeletions ?? [],
+        newBibs: dto.newBibs ?? [],
+        colorEdits: dto.colorEdits ?? [],
+        colorDeletions: dto.colorDeletions ?? [],
+        newColors: (dto.newColors ?? []).map((c) => ({
+          region: c.region,
+          primaryColor: c.primaryColor,
+          secondaryColor: c.secondaryColor ?? null,
+        })),
+      }),
+    )
+  }
+
+  /** Closes the session and hands its unreviewed photos back to the queue. */
+  @Delete('review-sessions/:sessionId')
+  @HttpCode(200)
+  @SuccessMessage('success.DELETED', { entity: 'entities.review_session' })
+  @ApiOperation({ summary: 'Close a review session' })
+  @ApiParam({ name: 'sessionId', description: 'Review session UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({ status: 200, description: 'Session closed', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({ status: 403, description: 'Session belongs to another reviewer' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Review session not found' })
+  @ApiEnvelopeErrorResponse({ status: 409, description: 'Session is already closed' })
+  async close(@Param('sessionId') sessionId: string, @CurrentUser() user: ICurrentUser) {
+    return this.commandBus.execute(new CloseReviewSessionCommand(sessionId, user.userId))
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+} from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import {
+  AbortUploadSessionCommand,
+  CompleteUploadItemCommand,
+  CreateUploadSessionCommand,
+  CreateUploadSessionDto,
+  GenerateUploadPartUrlsCommand,
+  GenerateUploadPartUrlsDto,
+  RecordUploadPartCommand,
+  RecordUploadPartDto,
+  ResumeUploadSessionCommand,
+} from '@photos/application/commands'
+import {
+  UploadPartUrlsProjection,
+  UploadSessionItemProjection,
+  UploadSessionProjection,
+} from '@photos/application/projections'
+import { GetMissingUploadItemsQuery } from '@photos/application/queries'
+import { AuditContext, EntityIdProjection } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+@ApiTags('Photos')
+@ApiBearerAuth()
+@Roles('admin', 'operator')
+@Controller()
+export class UploadSessionsController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  /** Starts a resumable upload session announcing every file of the batch. */
+  @Post('events/:eventId/upload-sessions')
+  @SuccessMessage('success.CREATED', { entity: 'entities.upload_session' })
+  @ApiOperation({ summary: 'Start a resumable multipart upload session' })
+  @ApiParam({ name: 'eventId', description: 'Event UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Upload session created',
+    type: UploadSessionProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Duplicate file names or file too large' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Event not found' })
+  async create(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreateUploadSessionDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new CreateUploadSessionCommand(
+      eventId,
+      dto.files.map((f) => ({
+        fileName: f.fileName,
+        fileSize: f.fileSize,
+        contentType: f.contentType,
+      })),
+      new AuditContext(user.userId),
+      dto.photoCategoryId ?? null,
+      dto.checkpointId ?? null,
+    )
+    return this.commandBus.execute(command)
+  }
+
+  /** Reconciles in-flight files with B2 and returns the full session state. */
+  @Post('upload-sessions/:sessionId/resume')
+  @HttpCode(200)
+  @SuccessMessage('success.FETCHED', { entity: 'entities.upload_session' })
+  @ApiOperation({ summary: 'Resume an upload session after a dropped connection' })
+  @ApiParam({ name: 'sessionId', description: 'Upload session UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Session state reconciled with storage',
+    type: UploadSessionProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Session is not open' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Upload session not found' })
+  async resume(@Param('sessionId') sessionId: string) {
+    return this.commandBus.execute(new ResumeUploadSessionCommand(sessionId))
+  }
+
+  /** Lists files still pending or uploading, with their missing parts. */
+  @Get('upload-sessions/:sessionId/missing')
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List files of an upload session that are not done yet' })
+  @ApiParam({ name: 'sessionId', description: 'Upload session UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Outstanding files',
+    type: UploadSessionItemProjection,
+    isArray: true,
+  })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Upload session not found' })
+  async getMissing(@Param('sessionId') sessionId: string) {
+    return this.queryBus.execute(new GetMissingUploadItemsQuery(sessionId))
+  }
+
+  /** Presigns part uploads for one file, opening its multipart upload on first use. */
+  @Post('upload-sessions/:sessionId/items/:itemId/part-urls')
+  @SuccessMessage('success.CREATED', { entity: 'entities.presigned_url' })
+  @ApiOperation({ summary: 'Generate presigned URLs for file parts' })
+  @ApiParam({ name: 'sessionId', description: 'Upload session UUID', format: 'uuid' })
+  @ApiParam({ name: 'itemId', description: 'Upload session item UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 201,
+    description: 'Part URLs generated',
+    type: UploadPartUrlsProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Session not open or invalid part' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Session or item not found' })
+  async generatePartUrls(
+    @Param('sessionId') sessionId: string,
+    @Param('itemId') itemId: string,
+    @Body() dto: GenerateUploadPartUrlsDto,
+  ) {
+    const command = new GenerateUploadPartUrlsCommand(sessionId, itemId, dto.partNumbers ?? null)
+    return this.commandBus.execute(command)
+  }
+
+  /** Records a part the client uploaded, with the ETag B2 returned. */
+  @Put('upload-sessions/:sessionId/items/:itemId/parts/:partNumber')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.upload_session' })
+  @ApiOperation({ summary: 'Record an uploaded part' })
+  @ApiParam({ name: 'sessionId', description: 'Upload session UUID', format: 'uuid' })
+  @ApiParam({ name: 'itemId', description: 'Upload session item UUID', format: 'uuid' })
+  @ApiParam({ name: 'partNumber', description: '1-based part number', type: Number })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Part recorded',
+    type: UploadSessionItemProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Item not uploading or invalid part' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Session or item not found' })
+  async recordPart(
+    @Param('sessionId') sessionId: string,
+    @Param('itemId') itemId: string,
+    @Param('partNumber', ParseIntPipe) partNumber: number,
+    @Body() dto: RecordUploadPartDto,
+  ) {
+    const command = new RecordUploadPartCommand(sessionId, itemId, partNumber, dto.etag)
+    return this.commandBus.execute(command)
+  }
+
+  /** Assembles a fully uploaded file and confirms it as a photo. */
+  @Post('upload-sessions/:sessionId/items/:itemId/complete')
+  @HttpCode(200)
+  @SuccessMessage('success.CREATED', { entity: 'entities.photo' })
+  @ApiOperation({ summary: 'Complete a file upload and confirm the photo' })
+  @ApiParam({ name: 'sessionId', description: 'Upload session UUID', format: 'uuid' })
+  @ApiParam({ name: 'itemId', description: 'Upload session item UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'File assembled and photo confirmed',
+    type: UploadSessionItemProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Parts missing or session not open' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Session or item not found' })
+  async completeItem(
+    @Param('sessionId') sessionId: string,
+    @Param('itemId') itemId: string,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    const command = new CompleteUploadItemCommand(sessionId, itemId, new AuditContext(user.userId))
+    return this.commandBus.execute(command)
+  }
+
+  /** Aborts the session and discards the parts of unfinished files. */
+  @Delete('upload-sessions/:sessionId')
+  @HttpCode(200)
+  @SuccessMessage('success.DELETED', { entity: 'entities.upload_session' })
+  @ApiOperation({ summary: 'Abort an upload session' })
+  @ApiParam({ name: 'sessionId', description: 'Upload session UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({ status: 200, description: 'Session aborted', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({ status: 400, description: 'Session is not open' })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Upload session not found' })
+  async abort(@Param('sessionId') sessionId: string) {
+    return this.commandBus.execute(new AbortUploadSessionCommand(sessionId))
+  }
+}
@@ -1,8 +1,12 @@
+import { ParticipantSummaryProjection } from '@participants/application/projections'
+
 export class PreviewPhotoProjection {
   /** Photo UUID */
   id: string
   /** Watermarked photo URL (via Cloudflare Worker) */
   url: string
+  /** Participants wearing the photo's confirmed bibs */
+  participants: ParticipantSummaryProjection[]
 }
 
 export class PreviewDataProjection {
@@ -1,5 +1,9 @@
 import { HttpStatus, Inject } from '@nestjs/common'
 import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import {
+  type IParticipantReadRepository,
+  PARTICIPANT_READ_REPOSITORY,
+} from '@participants/domain/ports'
 import type { PreviewDataProjection } from '@previews/application/projections'
 import {
   type IPreviewLinkReadRepository,
@@ -16,6 +20,8 @@ export class GetPreviewByTokenHandler implements IQueryHandler<GetPreviewByToken
   constructor(
     @Inject(PREVIEW_LINK_READ_REPOSITORY) private readonly readRepo: IPreviewLinkReadRepository,
     @Inject(PREVIEW_LINK_WRITE_REPOSITORY) private readonly writeRepo: IPreviewLinkWriteRepository,
+    @Inject(PARTICIPANT_READ_REPOSITORY)
+    private readonly participantReadRepo: IParticipantReadRepository,
     private readonly cdn: CdnUrlBuilder,
   ) {}
 
@@ -35,11 +41,16 @@ export class GetPreviewByTokenHandler implements IQueryHandler<GetPreviewByToken
     const data = await this.readRepo.getPreviewData(query.token)
     if (!data) throw AppException.notFound('entities.preview_link', query.token)
 
+    const participants = await this.participantReadRepo.findSummariesByPhotoIds(
+      data.photos.map((photo) => photo.id),
+    )
+
     // Build gallery URLs from slugs (watermarked by Worker).
     // Note: the repo returns the slug in `photo.url` — a small legacy quirk.
     data.photos = data.photos.map((photo) => ({
       id: photo.id,
       url: this.cdn.galleryUrl(photo.url),
+      participants: participants.get(photo.id) ?? [],
     }))
 
     return data
@@ -90,6 +90,7 @@ export function toPreviewDataProjection(record: PreviewDataSelect): PreviewDataP
     photos: record.photos.map((plp) => ({
       id: plp.photo.id,
       url: plp.photo.public_slug,
+      participants: [],
     })),
   }
 }
@@ -10,13 +10,19 @@ import { PreviewLinkReadRepository } from '@previews/infrastructure/repositories
 import { PreviewLinkWriteRepository } from '@previews/infrastructure/repositories/preview-link-write.repository'
 import { PreviewLinksController } from '@previews/presentation/controllers/preview-links.controller'
 import { PreviewPublicController } from '@previews/presentation/controllers/preview-public.controller'
+import { ParticipantsModule } from '../participants/participants.module'
 import { PhotosModule } from '../photos/photos.module'
 
 const CommandHandlers = [CreatePreviewLinkHandler]
 const QueryHandlers = [GetPreviewByTokenHandler, GetPreviewLinksListHandler]
 
 @Module({
-  imports: [CqrsModule, forwardRef(() => EventsModule), forwardRef(() => PhotosModule)],
+  imports: [
+    CqrsModule,
+    forwardRef(() => EventsModule),
+    forwardRef(() => PhotosModule),
+    ParticipantsModule,
+  ],
   controllers: [PreviewLinksController, PreviewPublicController],
   providers: [
     ...CommandHandlers,
@@ -7,8 +7,8 @@ import {
 import { ClearEventPricingConfigCommand } from './clear-event-pricing-config.command'
 
 /**
- * Clears per-event pricing override. DORMANT: see SetEventPricingConfigHandler.
- * Kept ready for future bucket-aware checkout.
+ * Clears per-event pricing override. The event falls back to the default
+ * tiers (and the default bucket at checkout).
  */
 @CommandHandler(ClearEventPricingConfigCommand)
 export class ClearEventPricingConfigHandler
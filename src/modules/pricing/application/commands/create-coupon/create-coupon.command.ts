@@ -0,0 +1,19 @@
+import type { CouponTypeValue } from '@pricing/domain/value-objects'
+import type { AuditContext } from '@shared/application'
+
+export class CreateCouponCommand {
+  constructor(
+    public readonly data: {
+      code: string
+      type: CouponTypeValue
+      value: number
+      currency: string | null
+      eventId: string | null
+      startsAt: Date | null
+      endsAt: Date | null
+      maxUses: number | null
+      maxUsesPerCustomer: number | null
+    },
+    public readonly audit?: AuditContext,
+  ) {}
+}
@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { CouponType, type CouponTypeValue } from '@pricing/domain/value-objects'
+import { Type } from 'class-transformer'
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Min,
+} from 'class-validator'
+
+export class CreateCouponDto {
+  @ApiProperty({ description: 'Code customers enter (stored upper-case)', example: 'VUELTA26' })
+  @IsString()
+  @Length(3, 40)
+  code: string
+
+  @ApiProperty({ description: 'Discount type', enum: Object.values(CouponType) })
+  @IsIn(Object.values(CouponType))
+  type: CouponTypeValue
+
+  @ApiProperty({
+    description: 'Percentage (0-100], fixed amount in `currency`, or number of free photos',
+    example: 20,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  value: number
+
+  @ApiPropertyOptional({ description: 'Currency, required for fixed_amount', example: 'USD' })
+  @IsString()
+  @Length(3, 3)
+  @IsOptional()
+  currency?: string
+
+  @ApiPropertyOptional({ description: 'Limit the coupon to a single event' })
+  @IsUUID('4')
+  @IsOptional()
+  eventId?: string
+
+  @ApiPropertyOptional({
+    description: 'Start of the validity window',
+    example: '2026-06-01T00:00:00.000Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  startsAt?: Date
+
+  @ApiPropertyOptional({
+    description: 'End of the validity window',
+    example: '2026-06-30T23:59:59.000Z',
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  endsAt?: Date
+
+  @ApiPropertyOptional({ description: 'Total redemption limit', example: 200 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxUses?: number
+
+  @ApiPropertyOptional({ description: 'Redemption limit per customer', example: 1 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxUsesPerCustomer?: number
+}
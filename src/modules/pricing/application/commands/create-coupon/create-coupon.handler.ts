@@ -0,0 +1,25 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { Coupon } from '@pricing/domain/entities'
+import { COUPON_WRITE_REPOSITORY, type ICouponWriteRepository } from '@pricing/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { CreateCouponCommand } from './create-coupon.command'
+
+@CommandHandler(CreateCouponCommand)
+export class CreateCouponHandler implements ICommandHandler<CreateCouponCommand> {
+  constructor(
+    @Inject(COUPON_WRITE_REPOSITORY) private readonly writeRepo: ICouponWriteRepository,
+  ) {}
+
+  /** Creates a coupon. A duplicate code surfaces as a conflict (unique index). */
+  async execute(command: CreateCouponCommand): Promise<EntityIdProjection> {
+    const coupon = Coupon.create({
+      ...command.data,
+      createdById: command.audit?.userId ?? null,
+    })
+
+    const saved = await this.writeRepo.save(coupon)
+
+    return { id: saved.id }
+  }
+}
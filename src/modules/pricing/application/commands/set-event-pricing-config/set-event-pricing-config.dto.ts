@@ -25,6 +25,18 @@ class PricingTierDto {
   pricePerPhoto!: number
 }
 
+class BibPackageDto {
+  @IsNumber()
+  @Min(0.01)
+  price!: number
+}
+
+class RetouchAddOnDto {
+  @IsNumber()
+  @Min(0.01)
+  price!: number
+}
+
 export class SetEventPricingConfigDto {
   @IsString()
   @Length(3, 3)
@@ -34,4 +46,14 @@ export class SetEventPricingConfigDto {
   @ValidateNested({ each: true })
   @Type(() => PricingTierDto)
   tiers!: PricingTierDto[]
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BibPackageDto)
+  bibPackage?: BibPackageDto | null
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RetouchAddOnDto)
+  retouchAddOn?: RetouchAddOnDto | null
 }
@@ -4,30 +4,42 @@ import {
   EVENT_PRICING_WRITE_REPOSITORY,
   type IEventPricingWriteRepository,
 } from '@pricing/domain/ports'
+import { BibPackage } from '@pricing/domain/value-objects/bib-package.vo'
 import { PricingTier } from '@pricing/domain/value-objects/pricing-tier.vo'
+import { RetouchAddOn } from '@pricing/domain/value-objects/retouch-add-on.vo'
+import { ExchangeRateService } from '../../services/exchange-rate.service'
 import { SetEventPricingConfigCommand } from './set-event-pricing-config.command'
 
 /**
- * Persists per-event pricing override. DORMANT: the checkout flow does not
- * yet read this value — it uses DEFAULT_PRICING_TIERS at the cart level.
- * Kept ready for future bucket-aware checkout.
+ * Persists per-event pricing override. Picked up by EventPricingResolver, so
+ * cart checkout prices this event in its own bucket from the next order on.
+ * The currency must have an exchange rate so its orders show up in revenue reports.
  */
 @CommandHandler(SetEventPricingConfigCommand)
 export class SetEventPricingConfigHandler implements ICommandHandler<SetEventPricingConfigCommand> {
   constructor(
     @Inject(EVENT_PRICING_WRITE_REPOSITORY)
     private readonly repo: IEventPricingWriteRepository,
+    private readonly exchangeRates: ExchangeRateService,
   ) {}
 
   async execute(cmd: SetEventPricingConfigCommand): Promise<void> {
+    const currency = cmd.config.currency.toUpperCase()
     const tiers = cmd.config.tiers.map((t) => ({
       minQty: t.minQty,
       maxQty: t.maxQty ?? null,
       pricePerPhoto: t.pricePerPhoto,
     }))
     tiers.forEach((t) => {
-      PricingTier.create(t)
+      PricingTier.create({ ...t, currency })
     })
-    await this.repo.upsertConfig(cmd.eventId, { currency: cmd.config.currency, tiers })
+    await this.exchangeRates.assertConvertible(currency)
+    const bibPackage = cmd.config.bibPackage
+      ? BibPackage.create(cmd.config.bibPackage).toJSON()
+      : null
+    const retouchAddOn = cmd.config.retouchAddOn
+      ? RetouchAddOn.create(cmd.config.retouchAddOn).toJSON()
+      : null
+    await this.repo.upsertConfig(cmd.eventId, { currency, tiers, bibPackage, retouchAddOn })
   }
 }
@@ -0,0 +1,9 @@
+import type { AuditContext } from '@shared/application'
+
+export class SetExchangeRateCommand {
+  constructor(
+    public readonly currency: string,
+    public readonly rate: number,
+    public readonly audit?: AuditContext,
+  ) {}
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNumber, IsPositive } from 'class-validator'
+
+export class SetExchangeRateDto {
+  @ApiProperty({
+    description: 'Units of the base currency per 1 unit of this currency',
+    example: 0.0545,
+  })
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsPositive()
+  rate!: number
+}
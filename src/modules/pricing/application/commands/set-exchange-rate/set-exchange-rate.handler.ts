@@ -0,0 +1,43 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import { ExchangeRate } from '@pricing/domain/entities'
+import {
+  EXCHANGE_RATE_READ_REPOSITORY,
+  EXCHANGE_RATE_WRITE_REPOSITORY,
+  type IExchangeRateReadRepository,
+  type IExchangeRateWriteRepository,
+} from '@pricing/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { ExchangeRateService } from '../../services/exchange-rate.service'
+import { SetExchangeRateCommand } from './set-exchange-rate.command'
+
+@CommandHandler(SetExchangeRateCommand)
+export class SetExchangeRateHandler implements ICommandHandler<SetExchangeRateCommand> {
+  constructor(
+    @Inject(EXCHANGE_RATE_READ_REPOSITORY) private readonly readRepo: IExchangeRateReadRepository,
+    @Inject(EXCHANGE_RATE_WRITE_REPOSITORY)
+    private readonly writeRepo: IExchangeRateWriteRepository,
+    private readonly exchangeRates: ExchangeRateService,
+  ) {}
+
+  /** Creates or replaces the rate from `currency` to the base currency. */
+  async execute(command: SetExchangeRateCommand): Promise<EntityIdProjection> {
+    const baseCurrency = this.exchangeRates.baseCurrency
+    const updatedById = command.audit?.userId ?? null
+
+    const existing = await this.readRepo.findByCurrency(baseCurrency, command.currency)
+    const rate =
+      existing ??
+      ExchangeRate.create({
+        baseCurrency,
+        currency: command.currency,
+        rate: command.rate,
+        updatedById,
+      })
+    if (existing) existing.updateRate(command.rate, updatedById)
+
+    const saved = await this.writeRepo.save(rate)
+
+    return { id: saved.id }
+  }
+}
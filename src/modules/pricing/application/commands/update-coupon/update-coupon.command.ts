@@ -0,0 +1,18 @@
+import type { AuditContext } from '@shared/application'
+
+export class UpdateCouponCommand {
+  constructor(
+    public readonly id: string,
+    public readonly data: {
+      value?: number
+      currency?: string | null
+      eventId?: string | null
+      startsAt?: Date | null
+      endsAt?: Date | null
+      maxUses?: number | null
+      maxUsesPerCustomer?: number | null
+      isActive?: boolean
+    },
+    public readonly audit?: AuditContext,
+  ) {}
+}
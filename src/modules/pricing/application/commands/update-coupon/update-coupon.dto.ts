@@ -0,0 +1,71 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import {
+  IsBoolean,
+  IsDate,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Min,
+} from 'class-validator'
+
+/** Code and type are immutable; create a new coupon to change them. */
+export class UpdateCouponDto {
+  @ApiPropertyOptional({ description: 'Discount value for the coupon type', example: 15 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  value?: number
+
+  @ApiPropertyOptional({ description: 'Currency (null to clear)', example: 'USD', nullable: true })
+  @IsString()
+  @Length(3, 3)
+  @IsOptional()
+  currency?: string | null
+
+  @ApiPropertyOptional({ description: 'Event scope (null = any event)', nullable: true })
+  @IsUUID('4')
+  @IsOptional()
+  eventId?: string | null
+
+  @ApiPropertyOptional({
+    description: 'Start of the validity window (null to clear)',
+    nullable: true,
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  startsAt?: Date | null
+
+  @ApiPropertyOptional({
+    description: 'End of the validity window (null to clear)',
+    nullable: true,
+  })
+  @IsDate()
+  @Type(() => Date)
+  @IsOptional()
+  endsAt?: Date | null
+
+  @ApiPropertyOptional({ description: 'Total redemption limit (null = unlimited)', nullable: true })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxUses?: number | null
+
+  @ApiPropertyOptional({
+    description: 'Redemption limit per customer (null = unlimited)',
+    nullable: true,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxUsesPerCustomer?: number | null
+
+  @ApiPropertyOptional({ description: 'Set false to deactivate the coupon' })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean
+}
@@ -0,0 +1,30 @@
+import { Inject } from '@nestjs/common'
+import { CommandHandler, type ICommandHandler } from '@nestjs/cqrs'
+import {
+  COUPON_READ_REPOSITORY,
+  COUPON_WRITE_REPOSITORY,
+  type ICouponReadRepository,
+  type ICouponWriteRepository,
+} from '@pricing/domain/ports'
+import type { EntityIdProjection } from '@shared/application'
+import { AppException } from '@shared/domain'
+import { UpdateCouponCommand } from './update-coupon.command'
+
+@CommandHandler(UpdateCouponCommand)
+export class UpdateCouponHandler implements ICommandHandler<UpdateCouponCommand> {
+  constructor(
+    @Inject(COUPON_READ_REPOSITORY) private readonly readRepo: ICouponReadRepository,
+    @Inject(COUPON_WRITE_REPOSITORY) private readonly writeRepo: ICouponWriteRepository,
+  ) {}
+
+  /** Loads a coupon, applies updates, and persists it. Past redemptions are untouched. */
+  async execute(command: UpdateCouponCommand): Promise<EntityIdProjection> {
+    const coupon = await this.readRepo.findById(command.id)
+    if (!coupon) throw AppException.notFound('entities.coupon', command.id)
+
+    coupon.update(command.data)
+    await this.writeRepo.save(coupon)
+
+    return { id: coupon.id }
+  }
+}
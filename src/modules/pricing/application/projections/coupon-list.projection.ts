@@ -0,0 +1,30 @@
+export class CouponListProjection {
+  /** Coupon UUID */
+  id: string
+  /** Upper-case code customers enter at checkout */
+  code: string
+  /** percentage | fixed_amount | free_photos */
+  type: string
+  /** Percentage (0-100], amount in `currency`, or number of free photos */
+  value: number
+  /** Currency of a fixed-amount coupon (null for the other types) */
+  currency: string | null
+  /** Event the coupon is limited to (null = any event) */
+  eventId: string | null
+  /** Event name when scoped to an event */
+  eventName: string | null
+  /** Start of the validity window (null = no lower bound) */
+  startsAt: Date | null
+  /** End of the validity window (null = no upper bound) */
+  endsAt: Date | null
+  /** Total redemption limit (null = unlimited) */
+  maxUses: number | null
+  /** Redemption limit per customer (null = unlimited) */
+  maxUsesPerCustomer: number | null
+  /** Redemptions backing a non-cancelled order */
+  uses: number
+  /** Whether the coupon can currently be redeemed */
+  isActive: boolean
+  /** When the coupon was created */
+  createdAt: Date
+}
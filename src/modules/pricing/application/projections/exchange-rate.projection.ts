@@ -0,0 +1,14 @@
+export class ExchangeRateProjection {
+  /** Exchange rate UUID */
+  id: string
+  /** Currency the rate converts to (the configured base currency) */
+  baseCurrency: string
+  /** Currency the rate converts from */
+  currency: string
+  /** Units of `baseCurrency` per 1 unit of `currency` */
+  rate: number
+  /** When the rate was last changed */
+  updatedAt: Date
+  /** Admin who last changed the rate */
+  updatedById: string | null
+}
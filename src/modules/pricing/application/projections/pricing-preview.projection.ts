@@ -2,6 +2,7 @@ export interface PricingTierProjection {
   minQty: number
   maxQty: number | null
   pricePerPhoto: number
+  currency: string
 }
 
 export interface PricingPreviewProjection {
@@ -12,4 +13,13 @@ export interface PricingPreviewProjection {
   tier: PricingTierProjection
   nextTier: PricingTierProjection | null
   photosToNextTier: number | null
+  /** Normalized coupon code applied to the preview, or null. */
+  couponCode: string | null
+  discountAmount: number
+  /** subtotal - discountAmount */
+  total: number
+  /** Flat price for all photos of one bib, when the event sells bib packages. */
+  bibPackagePrice: number | null
+  /** Price of one retouch request, or null when the event does not charge for them. */
+  retouchAddOnPrice: number | null
 }
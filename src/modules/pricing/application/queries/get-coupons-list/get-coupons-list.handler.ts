@@ -0,0 +1,15 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import { COUPON_READ_REPOSITORY, type ICouponReadRepository } from '@pricing/domain/ports'
+import type { PaginatedResult } from '@shared/application'
+import type { CouponListProjection } from '../../projections/coupon-list.projection'
+import { GetCouponsListQuery } from './get-coupons-list.query'
+
+@QueryHandler(GetCouponsListQuery)
+export class GetCouponsListHandler implements IQueryHandler<GetCouponsListQuery> {
+  constructor(@Inject(COUPON_READ_REPOSITORY) private readonly readRepo: ICouponReadRepository) {}
+
+  async execute(query: GetCouponsListQuery): Promise<PaginatedResult<CouponListProjection>> {
+    return this.readRepo.getList(query.pagination)
+  }
+}
@@ -0,0 +1,5 @@
+import type { Pagination } from '@shared/application'
+
+export class GetCouponsListQuery {
+  constructor(public readonly pagination: Pagination) {}
+}
@@ -0,0 +1,22 @@
+import { Inject } from '@nestjs/common'
+import { type IQueryHandler, QueryHandler } from '@nestjs/cqrs'
+import {
+  EXCHANGE_RATE_READ_REPOSITORY,
+  type IExchangeRateReadRepository,
+} from '@pricing/domain/ports'
+import type { ExchangeRateProjection } from '../../projections/exchange-rate.projection'
+import { ExchangeRateService } from '../../services/exchange-rate.service'
+import { GetExchangeRatesQuery } from './get-exchange-rates.query'
+
+@QueryHandler(GetExchangeRatesQuery)
+export class GetExchangeRatesHandler implements IQueryHandler<GetExchangeRatesQuery> {
+  constructor(
+    @Inject(EXCHANGE_RATE_READ_REPOSITORY) private readonly readRepo: IExchangeRateReadRepository,
+    private readonly exchangeRates: ExchangeRateService,
+  ) {}
+
+  /** Rates against the current base currency; rates entered for a previous base are hidden. */
+  async execute(_query: GetExchangeRatesQuery): Promise<ExchangeRateProjection[]> {
+    return this.readRepo.getList(this.exchangeRates.baseCurrency)
+  }
+}
@@ -1,9 +1,18 @@
 import { Type } from 'class-transformer'
-import { IsInt, Min } from 'class-validator'
+import { IsInt, IsOptional, IsString, IsUUID, Length, Min } from 'class-validator'
 
 export class GetPricingPreviewDto {
   @Type(() => Number)
   @IsInt()
   @Min(1)
   photoCount!: number
+
+  @IsOptional()
+  @IsUUID('4')
+  eventId?: string
+
+  @IsOptional()
+  @IsString()
+  @Length(3, 40)
+  couponCode?: string
 }
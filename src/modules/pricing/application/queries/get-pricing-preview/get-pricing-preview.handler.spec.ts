@@ -1,13 +1,27 @@
 import { Test } from '@nestjs/testing'
+import { Coupon } from '@pricing/domain/entities'
+import { BibPackage } from '@pricing/domain/value-objects/bib-package.vo'
+import { PricingTier } from '@pricing/domain/value-objects/pricing-tier.vo'
+import { RetouchAddOn } from '@pricing/domain/value-objects/retouch-add-on.vo'
+import { CouponService } from '../../services/coupon.service'
+import { EventPricingResolver } from '../../services/event-pricing-resolver.service'
 import { GetPricingPreviewHandler } from './get-pricing-preview.handler'
 import { GetPricingPreviewQuery } from './get-pricing-preview.query'
 
 describe('GetPricingPreviewHandler', () => {
   let handler: GetPricingPreviewHandler
+  let resolver: { resolve: jest.Mock }
+  let coupons: { quote: jest.Mock }
 
   beforeEach(async () => {
+    resolver = { resolve: jest.fn() }
+    coupons = { quote: jest.fn() }
     const mod = await Test.createTestingModule({
-      providers: [GetPricingPreviewHandler],
+      providers: [
+        GetPricingPreviewHandler,
+        { provide: EventPricingResolver, useValue: resolver },
+        { provide: CouponService, useValue: coupons },
+      ],
     }).compile()
     handler = mod.get(GetPricingPreviewHandler)
   })
@@ -17,9 +31,12 @@ describe('GetPricingPreviewHandler', () => {
     expect(r.unitPrice).toBe(2.5)
     expect(r.subtotal).toBe(17.5)
     expect(r.currency).toBe('USD')
-    expect(r.tier).toEqual({ minQty: 7, maxQty: 9, pricePerPhoto: 2.5 })
-    expect(r.nextTier).toEqual({ minQty: 10, maxQty: null, pricePerPhoto: 2 })
+    expect(r.tier).toEqual({ minQty: 7, maxQty: 9, pricePerPhoto: 2.5, currency: 'USD' })
+    expect(r.nextTier).toEqual({ minQty: 10, maxQty: null, pricePerPhoto: 2, currency: 'USD' })
     expect(r.photosToNextTier).toBe(3)
+    expect(r.discountAmount).toBe(0)
+    expect(r.total).toBe(17.5)
+    expect(resolver.resolve).not.toHaveBeenCalled()
   })
 
   it('returns preview for 11 photos → $2 × 11 = $22 (top tier, no upgrade hint)', async () => {
@@ -29,4 +46,34 @@ describe('GetPricingPreviewHandler', () => {
     expect(r.nextTier).toBeNull()
     expect(r.photosToNextTier).toBeNull()
   })
+
+  it('prices with the event config when an eventId is given', async () => {
+    resolver.resolve.mockResolvedValue({
+      tiers: [PricingTier.create({ minQty: 1, maxQty: null, pricePerPhoto: 5, currency: 'USD' })],
+      currency: 'EUR',
+      bibPackage: BibPackage.create({ price: 30 }),
+      retouchAddOn: RetouchAddOn.create({ price: 4 }),
+      source: 'event',
+    })
+
+    const r = await handler.execute(new GetPricingPreviewQuery(3, 'e1'))
+    expect(r.subtotal).toBe(15)
+    expect(r.currency).toBe('EUR')
+    expect(r.bibPackagePrice).toBe(30)
+    expect(r.retouchAddOnPrice).toBe(4)
+  })
+
+  it('applies a valid coupon and reports the total after discount', async () => {
+    const coupon = Coupon.create({ code: 'VUELTA26', type: 'percentage', value: 20 })
+    coupons.quote.mockResolvedValue({ coupon, amounts: [3.5], total: 3.5 })
+
+    const r = await handler.execute(new GetPricingPreviewQuery(7, null, 'vuelta26'))
+    expect(coupons.quote).toHaveBeenCalledWith('vuelta26', null, [
+      { eventId: null, quantity: 7, unitPrice: 2.5, currency: 'USD' },
+    ])
+    expect(r.couponCode).toBe('VUELTA26')
+    expect(r.subtotal).toBe(17.5)
+    expect(r.discountAmount).toBe(3.5)
+    expect(r.total).toBe(14)
+  })
 })
@@ -5,21 +5,57 @@ import {
   DEFAULT_PRICING_TIERS,
 } from '@pricing/infrastructure/config/default-pricing-tiers'
 import type { PricingPreviewProjection } from '../../projections/pricing-preview.projection'
+import { CouponService } from '../../services/coupon.service'
+import { EventPricingResolver } from '../../services/event-pricing-resolver.service'
 import { GetPricingPreviewQuery } from './get-pricing-preview.query'
 
 @QueryHandler(GetPricingPreviewQuery)
 export class GetPricingPreviewHandler implements IQueryHandler<GetPricingPreviewQuery> {
+  constructor(
+    private readonly resolver: EventPricingResolver,
+    private readonly coupons: CouponService,
+  ) {}
+
   async execute(query: GetPricingPreviewQuery): Promise<PricingPreviewProjection> {
-    const calc = PricingCalculator.calculate(query.photoCount, DEFAULT_PRICING_TIERS)
+    const { tiers, currency, bibPackage, retouchAddOn } = query.eventId
+      ? await this.resolver.resolve(query.eventId)
+      : {
+          tiers: DEFAULT_PRICING_TIERS,
+          currency: DEFAULT_CURRENCY,
+          bibPackage: null,
+          retouchAddOn: null,
+        }
+
+    const base = PricingCalculator.calculate(query.photoCount, tiers)
+
+    // Anonymous quote: per-customer limits are only enforced at checkout.
+    const quote = query.couponCode
+      ? await this.coupons.quote(query.couponCode, null, [
+          {
+            eventId: query.eventId,
+            quantity: base.quantity,
+            unitPrice: base.unitPrice,
+            currency,
+          },
+        ])
+      : null
+    const calc = quote
+      ? PricingCalculator.calculate(query.photoCount, tiers, quote.coupon.toDiscountRule())
+      : base
 
     return {
       quantity: calc.quantity,
       unitPrice: calc.unitPrice,
       subtotal: calc.subtotal,
-      currency: DEFAULT_CURRENCY,
+      currency,
       tier: calc.tier.toJSON(),
       nextTier: calc.nextTier ? calc.nextTier.toJSON() : null,
       photosToNextTier: calc.photosToNextTier,
+      couponCode: quote ? quote.coupon.code : null,
+      discountAmount: calc.discountAmount,
+      total: calc.total,
+      bibPackagePrice: bibPackage ? bibPackage.price : null,
+      retouchAddOnPrice: retouchAddOn ? retouchAddOn.price : null,
     }
   }
 }
@@ -1,3 +1,8 @@
 export class GetPricingPreviewQuery {
-  constructor(public readonly photoCount: number) {}
+  constructor(
+    public readonly photoCount: number,
+    /** Prices with the event's own config when set; defaults otherwise. */
+    public readonly eventId: string | null = null,
+    public readonly couponCode: string | null = null,
+  ) {}
 }
@@ -0,0 +1,88 @@
+import { Test } from '@nestjs/testing'
+import { PricingTier } from '@pricing/domain/value-objects/pricing-tier.vo'
+import { DEFAULT_PRICING_TIERS } from '@pricing/infrastructure/config/default-pricing-tiers'
+import { BucketPricingService, pricingConfigKey } from './bucket-pricing.service'
+import { EventPricingResolver, type ResolvedPricing } from './event-pricing-resolver.service'
+
+const DEFAULTS: ResolvedPricing = {
+  tiers: DEFAULT_PRICING_TIERS,
+  currency: 'USD',
+  bibPackage: null,
+  retouchAddOn: null,
+  source: 'default',
+}
+const FLAT_FIVE: ResolvedPricing = {
+  tiers: [PricingTier.create({ minQty: 1, maxQty: null, pricePerPhoto: 5, currency: 'USD' })],
+  currency: 'USD',
+  bibPackage: null,
+  retouchAddOn: null,
+  source: 'event',
+}
+
+describe('BucketPricingService', () => {
+  let service: BucketPricingService
+  let resolver: { resolve: jest.Mock }
+
+  beforeEach(async () => {
+    resolver = { resolve: jest.fn() }
+    const module = await Test.createTestingModule({
+      providers: [BucketPricingService, { provide: EventPricingResolver, useValue: resolver }],
+    }).compile()
+    service = module.get(BucketPricingService)
+  })
+
+  it('keeps default-priced events in one bucket (1 + 10 photos → 11 in the top tier)', async () => {
+    resolver.resolve.mockResolvedValue(DEFAULTS)
+
+    const r = await service.price([
+      { eventId: 'e1', quantity: 1 },
+      { eventId: 'e2', quantity: 10 },
+    ])
+
+    expect(r.buckets).toHaveLength(1)
+    expect(r.buckets[0].eventIds).toEqual(['e1', 'e2'])
+    expect(r.buckets[0].calculation.unitPrice).toBe(2)
+    expect(r.total).toBe(22)
+    expect(r.currency).toBe('USD')
+  })
+
+  it('prices an event with its own config in a separate bucket and sums the totals', async () => {
+    resolver.resolve.mockImplementation(async (id: string) =>
+      id === 'custom' ? FLAT_FIVE : DEFAULTS,
+    )
+
+    const r = await service.price([
+      { eventId: 'e1', quantity: 3 },
+      { eventId: 'custom', quantity: 2 },
+    ])
+
+    expect(r.buckets).toHaveLength(2)
+    const custom = r.buckets.find((b) => b.eventIds.includes('custom'))
+    expect(custom?.calculation.subtotal).toBe(10)
+    expect(r.total).toBe(19)
+  })
+
+  it('reports a null currency when buckets mix currencies', async () => {
+    resolver.resolve.mockImplementation(async (id: string) =>
+      id === 'eur' ? { ...FLAT_FIVE, currency: 'EUR' } : DEFAULTS,
+    )
+
+    const r = await service.price([
+      { eventId: 'e1', quantity: 1 },
+      { eventId: 'eur', quantity: 1 },
+    ])
+
+    expect(r.buckets).toHaveLength(2)
+    expect(r.currency).toBeNull()
+  })
+})
+
+describe('pricingConfigKey', () => {
+  it('ignores tier order', () => {
+    const a = [
+      PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: 4, currency: 'USD' }),
+      PricingTier.create({ minQty: 3, maxQty: null, pricePerPhoto: 3, currency: 'USD' }),
+    ]
+    expect(pricingConfigKey('USD', a)).toBe(pricingConfigKey('usd', [...a].reverse()))
+  })
+})
@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common'
+import {
+  type PricingCalculation,
+  PricingCalculator,
+} from '@pricing/domain/services/pricing-calculator.service'
+import type { PricingTier } from '@pricing/domain/value-objects/pricing-tier.vo'
+import { EventPricingResolver } from './event-pricing-resolver.service'
+
+export interface BucketPricingLine {
+  eventId: string
+  quantity: number
+}
+
+export interface PricedBucket {
+  /** Identity of the resolved config (currency + tiers). Equal configs share a bucket. */
+  key: string
+  currency: string
+  tiers: readonly PricingTier[]
+  eventIds: string[]
+  calculation: PricingCalculation
+}
+
+export interface BucketPricingResult {
+  buckets: PricedBucket[]
+  /** Sum of bucket subtotals. */
+  total: number
+  /** Common currency of every bucket, or null when the buckets mix currencies. */
+  currency: string | null
+}
+
+/**
+ * Prices a multi-event purchase by grouping events into buckets keyed by the
+ * pricing config each one resolves to, then running PricingCalculator once
+ * per bucket and summing the bucket subtotals.
+ *
+ * Events sharing a config (including every event on the defaults) stay in one
+ * bucket, so 1 + 10 photos across two default-priced events are still billed
+ * as 11 photos in the top tier.
+ */
+@Injectable()
+export class BucketPricingService {
+  constructor(private readonly resolver: EventPricingResolver) {}
+
+  async price(lines: BucketPricingLine[]): Promise<BucketPricingResult> {
+    const grouped = new Map<
+      string,
+      { currency: string; tiers: readonly PricingTier[]; eventIds: string[]; quantity: number }
+    >()
+
+    for (const line of lines) {
+      const resolved = await this.resolver.resolve(line.eventId)
+      const key = pricingConfigKey(resolved.currency, resolved.tiers)
+      const bucket = grouped.get(key)
+      if (bucket) {
+        bucket.eventIds.push(line.eventId)
+        bucket.quantity += line.quantity
+      } else {
+        grouped.set(key, {
+          currency: resolved.currency,
+          tiers: resolved.tiers,
+          eventIds: [line.eventId],
+          quantity: line.quantity,
+        })
+      }
+    }
+
+    const buckets: PricedBucket[] = Array.from(grouped, ([key, b]) => ({
+      key,
+      currency: b.currency,
+      tiers: b.tiers,
+      eventIds: b.eventIds,
+      calculation: PricingCalculator.calculate(b.quantity, b.tiers),
+    }))
+
+    const total =
+      Math.round(buckets.reduce((sum, b) => sum + b.calculation.subtotal, 0) * 100) / 100
+    const currencies = new Set(buckets.map((b) => b.currency))
+    const currency = currencies.size === 1 ? buckets[0].currency : null
+
+    return { buckets, total, currency }
+  }
+}
+
+/** Stable identity for a (currency, tiers) pair, independent of tier order. */
+export function pricingConfigKey(currency: string, tiers: readonly PricingTier[]): string {
+  const sorted = [...tiers]
+    .sort((a, b) => a.minQty - b.minQty)
+    .map((t) => `${t.minQty}-${t.maxQty ?? '*'}@${t.pricePerPhoto}`)
+  return `${currency.toUpperCase()}|${sorted.join(',')}`
+}
@@ -0,0 +1,80 @@
+import { Coupon } from '@pricing/domain/entities'
+import { type CouponLine, CouponService } from './coupon.service'
+
+const LINES: CouponLine[] = [
+  { eventId: 'e1', quantity: 3, unitPrice: 4, currency: 'USD' },
+  { eventId: 'e2', quantity: 2, unitPrice: 4, currency: 'USD' },
+]
+
+describe('CouponService', () => {
+  let service: CouponService
+  let readRepo: { findByCode: jest.Mock; countUses: jest.Mock }
+
+  beforeEach(() => {
+    readRepo = {
+      findByCode: jest.fn(),
+      countUses: jest.fn().mockResolvedValue({ total: 0, customerUses: 0 }),
+    }
+    service = new CouponService(readRepo as never)
+  })
+
+  it('looks the code up normalized and discounts every applicable line', async () => {
+    readRepo.findByCode.mockResolvedValue(
+      Coupon.create({ code: 'VUELTA26', type: 'percentage', value: 25 }),
+    )
+
+    const quote = await service.quote(' vuelta26 ', 'u1', LINES)
+
+    expect(readRepo.findByCode).toHaveBeenCalledWith('VUELTA26')
+    expect(quote.amounts).toEqual([3, 2])
+    expect(quote.total).toBe(5)
+  })
+
+  it('leaves lines of other events undiscounted for an event-scoped coupon', async () => {
+    readRepo.findByCode.mockResolvedValue(
+      Coupon.create({ code: 'ONLYE2', type: 'free_photos', value: 1, eventId: 'e2' }),
+    )
+
+    const quote = await service.quote('ONLYE2', 'u1', LINES)
+
+    expect(quote.amounts).toEqual([null, 4])
+  })
+
+  it('rejects an unknown code', async () => {
+    readRepo.findByCode.mockResolvedValue(null)
+
+    await expect(service.quote('NOPE', 'u1', LINES)).rejects.toThrow('coupon.invalid_code')
+  })
+
+  it('rejects a coupon that applies to none of the lines', async () => {
+    readRepo.findByCode.mockResolvedValue(
+      Coupon.create({ code: 'OTHER', type: 'percentage', value: 10, eventId: 'e9' }),
+    )
+
+    await expect(service.quote('OTHER', 'u1', LINES)).rejects.toThrow('coupon.not_applicable')
+  })
+
+  it('rejects once the customer reached the per-customer limit', async () => {
+    readRepo.findByCode.mockResolvedValue(
+      Coupon.create({ code: 'ONCE', type: 'percentage', value: 10, maxUsesPerCustomer: 1 }),
+    )
+    readRepo.countUses.mockResolvedValue({ total: 3, customerUses: 1 })
+
+    await expect(service.quote('ONCE', 'u1', LINES)).rejects.toThrow(
+      'coupon.customer_usage_limit_reached',
+    )
+  })
+
+  it('builds a redemption of the quoted total for the customer', async () => {
+    const coupon = Coupon.create({ code: 'VUELTA26', type: 'percentage', value: 25 })
+    readRepo.findByCode.mockResolvedValue(coupon)
+    const quote = await service.quote('VUELTA26', 'u1', LINES)
+
+    expect(service.redemptionFor(quote, 'u1')).toEqual({
+      id: expect.any(String),
+      coupon,
+      userId: 'u1',
+      discountAmount: 5,
+    })
+  })
+})
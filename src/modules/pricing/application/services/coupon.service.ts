@@ -0,0 +1,70 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { Coupon } from '@pricing/domain/entities'
+import { COUPON_READ_REPOSITORY, type ICouponReadRepository } from '@pricing/domain/ports'
+import { PricingCalculator } from '@pricing/domain/services/pricing-calculator.service'
+import type { CouponRedemption } from '@pricing/domain/value-objects'
+import { AppException } from '@shared/domain'
+
+export interface CouponLine {
+  /** Null for quotes not tied to an event (e.g. the public price preview). */
+  eventId: string | null
+  quantity: number
+  unitPrice: number
+  currency: string
+}
+
+export interface CouponQuote {
+  coupon: Coupon
+  /** Discount per input line (same order); null where the coupon does not apply. */
+  amounts: (number | null)[]
+  /** Sum of `amounts`. */
+  total: number
+}
+
+/**
+ * Validates a customer-entered coupon code against priced lines. `quote` is
+ * read-only and safe for previews; `redemptionFor` turns a quote into the
+ * redemption the order repository writes together with the discounted orders,
+ * re-checking the usage limits under a row lock in that same transaction.
+ */
+@Injectable()
+export class CouponService {
+  constructor(@Inject(COUPON_READ_REPOSITORY) private readonly readRepo: ICouponReadRepository) {}
+
+  async quote(code: string, userId: string | null, lines: CouponLine[]): Promise<CouponQuote> {
+    const coupon = await this.readRepo.findByCode(Coupon.normalizeCode(code))
+    if (!coupon) throw AppException.businessRule('coupon.invalid_code')
+
+    coupon.assertRedeemable()
+
+    const eligible = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => coupon.appliesTo(line.eventId, line.currency))
+    if (eligible.length === 0) throw AppException.businessRule('coupon.not_applicable')
+
+    const uses = await this.readRepo.countUses(coupon.id, userId)
+    coupon.assertWithinLimits(uses.total, uses.customerUses)
+
+    const allocated = PricingCalculator.allocateDiscount(
+      eligible.map((e) => e.line),
+      coupon.toDiscountRule(),
+    )
+    const amounts: (number | null)[] = lines.map(() => null)
+    eligible.forEach((e, k) => {
+      amounts[e.index] = allocated[k]
+    })
+    const total = Math.round(allocated.reduce((sum, a) => sum + a, 0) * 100) / 100
+
+    return { coupon, amounts, total }
+  }
+
+  /** Builds the redemption of a quote for `userId`; its id goes on the discounted orders. */
+  redemptionFor(quote: CouponQuote, userId: string): CouponRedemption {
+    return {
+      id: crypto.randomUUID(),
+      coupon: quote.coupon,
+      userId,
+      discountAmount: quote.total,
+    }
+  }
+}
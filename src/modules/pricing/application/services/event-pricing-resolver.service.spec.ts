@@ -45,4 +45,31 @@ describe('EventPricingResolver', () => {
     const r = await resolver.resolve('event-uuid')
     expect(r.source).toBe('default')
   })
+
+  it('returns the bib package when the event config offers one', async () => {
+    repo.findConfigByEventId.mockResolvedValue({
+      currency: 'USD',
+      tiers: [{ minQty: 1, maxQty: null, pricePerPhoto: 5 }],
+      bibPackage: { price: 25 },
+    })
+    const r = await resolver.resolve('event-uuid')
+    expect(r.bibPackage?.price).toBe(25)
+  })
+
+  it('has no bib package on the defaults', async () => {
+    repo.findConfigByEventId.mockResolvedValue(null)
+    const r = await resolver.resolve('event-uuid')
+    expect(r.bibPackage).toBeNull()
+    expect(r.retouchAddOn).toBeNull()
+  })
+
+  it('returns the retouch add-on price when the event charges for retouch requests', async () => {
+    repo.findConfigByEventId.mockResolvedValue({
+      currency: 'USD',
+      tiers: [{ minQty: 1, maxQty: null, pricePerPhoto: 5 }],
+      retouchAddOn: { price: 3.499 },
+    })
+    const r = await resolver.resolve('event-uuid')
+    expect(r.retouchAddOn?.price).toBe(3.5)
+  })
 })
@@ -3,7 +3,9 @@ import {
   EVENT_PRICING_READ_REPOSITORY,
   type IEventPricingReadRepository,
 } from '@pricing/domain/ports'
+import { BibPackage } from '@pricing/domain/value-objects/bib-package.vo'
 import { PricingTier } from '@pricing/domain/value-objects/pricing-tier.vo'
+import { RetouchAddOn } from '@pricing/domain/value-objects/retouch-add-on.vo'
 import {
   DEFAULT_CURRENCY,
   DEFAULT_PRICING_TIERS,
@@ -12,6 +14,10 @@ import {
 export interface ResolvedPricing {
   tiers: readonly PricingTier[]
   currency: string
+  /** Null unless the event config offers a bib package. */
+  bibPackage: BibPackage | null
+  /** Null when retouch requests are free for the event. */
+  retouchAddOn: RetouchAddOn | null
   source: 'event' | 'default'
 }
 
@@ -19,14 +25,8 @@ export interface ResolvedPricing {
  * Resolves the pricing tiers and currency for a single event, falling back to
  * the system defaults when no per-event override is configured.
  *
- * STATUS: currently unused in the checkout flow. The cart applies pricing at
- * the cart level (sum across events) using DEFAULT_PRICING_TIERS directly —
- * see CheckoutCartHandler. This resolver is kept ready for when per-event
- * pricing overrides go live (bucket logic in checkout). Do not delete: the
- * admin endpoints already write `Event.pricing_config`, and this resolver
- * is the read path that future code will plug into.
- *
- * Linked follow-up: bucket-aware checkout when overrides are introduced.
+ * Read path for `Event.pricing_config`. Multi-event purchases go through
+ * BucketPricingService, which groups events by the config resolved here.
  */
 @Injectable()
 export class EventPricingResolver {
@@ -45,16 +45,20 @@ export class EventPricingResolver {
       if (!Array.isArray(config.tiers) || config.tiers.length === 0) {
         throw new Error('empty tiers')
       }
+      const currency = (config.currency || DEFAULT_CURRENCY).toUpperCase()
       const tiers = config.tiers.map((t) =>
         PricingTier.create({
           minQty: t.minQty,
           maxQty: t.maxQty,
           pricePerPhoto: t.pricePerPhoto,
+          currency,
         }),
       )
       return {
         tiers,
-        currency: config.currency || DEFAULT_CURRENCY,
+        currency,
+        bibPackage: config.bibPackage ? BibPackage.create(config.bibPackage) : null,
+        retouchAddOn: config.retouchAddOn ? RetouchAddOn.create(config.retouchAddOn) : null,
         source: 'event',
       }
     } catch (err) {
@@ -66,6 +70,12 @@ export class EventPricingResolver {
   }
 
   private defaultResolved(): ResolvedPricing {
-    return { tiers: DEFAULT_PRICING_TIERS, currency: DEFAULT_CURRENCY, source: 'default' }
+    return {
+      tiers: DEFAULT_PRICING_TIERS,
+      currency: DEFAULT_CURRENCY,
+      bibPackage: null,
+      retouchAddOn: null,
+      source: 'default',
+    }
   }
 }
@@ -0,0 +1,33 @@
+import { ExchangeRate } from '@pricing/domain/entities'
+import { AppException } from '@shared/domain'
+import { ExchangeRateService } from './exchange-rate.service'
+
+describe('ExchangeRateService', () => {
+  let repo: { findByCurrency: jest.Mock; getList: jest.Mock }
+  let service: ExchangeRateService
+
+  beforeEach(() => {
+    repo = { findByCurrency: jest.fn().mockResolvedValue(null), getList: jest.fn() }
+    const config = { get: jest.fn().mockReturnValue('USD') }
+    service = new ExchangeRateService(repo as never, config as never)
+  })
+
+  it('snapshots a rate of 1 for the base currency without a lookup', async () => {
+    await expect(service.snapshot('usd')).resolves.toEqual({ baseCurrency: 'USD', rate: 1 })
+    expect(repo.findByCurrency).not.toHaveBeenCalled()
+  })
+
+  it('snapshots the configured rate of another currency', async () => {
+    repo.findByCurrency.mockResolvedValue(
+      ExchangeRate.create({ baseCurrency: 'USD', currency: 'MXN', rate: 0.0545 }),
+    )
+
+    await expect(service.snapshot('MXN')).resolves.toEqual({ baseCurrency: 'USD', rate: 0.0545 })
+    expect(repo.findByCurrency).toHaveBeenCalledWith('USD', 'MXN')
+  })
+
+  it('returns null, and refuses the currency, when no rate is configured', async () => {
+    await expect(service.snapshot('COP')).resolves.toBeNull()
+    await expect(service.assertConvertible('COP')).rejects.toThrow(AppException)
+  })
+})
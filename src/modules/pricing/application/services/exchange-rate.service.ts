@@ -0,0 +1,42 @@
+import { Inject, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+  EXCHANGE_RATE_READ_REPOSITORY,
+  type IExchangeRateReadRepository,
+} from '@pricing/domain/ports'
+import type { FxSnapshot } from '@pricing/domain/value-objects'
+import { AppException } from '@shared/domain'
+
+/**
+ * Read path for the admin-maintained `exchange_rates` table. Order creation
+ * snapshots the current rate so revenue reports never move when a rate changes.
+ */
+@Injectable()
+export class ExchangeRateService {
+  /** Currency revenue is reported in (`BASE_CURRENCY`, USD by default). */
+  readonly baseCurrency: string
+
+  constructor(
+    @Inject(EXCHANGE_RATE_READ_REPOSITORY)
+    private readonly repo: IExchangeRateReadRepository,
+    configService: ConfigService,
+  ) {
+    this.baseCurrency = configService.get<string>('pricing.baseCurrency', 'USD')
+  }
+
+  /** Rate to store on a new order priced in `currency`; null when none is configured. */
+  async snapshot(currency: string): Promise<FxSnapshot | null> {
+    if (currency.toUpperCase() === this.baseCurrency) {
+      return { baseCurrency: this.baseCurrency, rate: 1 }
+    }
+    const rate = await this.repo.findByCurrency(this.baseCurrency, currency)
+    return rate ? rate.toSnapshot() : null
+  }
+
+  /** Throws unless amounts in `currency` can be converted to the base currency. */
+  async assertConvertible(currency: string): Promise<void> {
+    if (!(await this.snapshot(currency))) {
+      throw AppException.businessRule('pricing.exchange_rate_missing')
+    }
+  }
+}
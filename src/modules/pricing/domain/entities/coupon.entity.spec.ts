@@ -0,0 +1,119 @@
+import { AppException } from '@shared/domain'
+import { Coupon } from './coupon.entity'
+
+describe('Coupon Entity', () => {
+  describe('create', () => {
+    it('should normalize the code and start active', () => {
+      const coupon = Coupon.create({ code: ' vuelta26 ', type: 'percentage', value: 20 })
+
+      expect(coupon.code).toBe('VUELTA26')
+      expect(coupon.isActive).toBe(true)
+      expect(coupon.currency).toBeNull()
+    })
+
+    it('should reject codes with invalid characters', () => {
+      expect(() => Coupon.create({ code: 'no spaces', type: 'percentage', value: 10 })).toThrow(
+        AppException,
+      )
+    })
+
+    it('should reject a percentage above 100', () => {
+      expect(() => Coupon.create({ code: 'BIG', type: 'percentage', value: 120 })).toThrow(
+        'coupon.invalid_value',
+      )
+    })
+
+    it('should require a currency for fixed-amount coupons', () => {
+      expect(() => Coupon.create({ code: 'FIVE', type: 'fixed_amount', value: 5 })).toThrow(
+        'coupon.currency_required',
+      )
+    })
+
+    it('should require a whole number of free photos', () => {
+      expect(() => Coupon.create({ code: 'FREE', type: 'free_photos', value: 1.5 })).toThrow(
+        'coupon.invalid_value',
+      )
+    })
+
+    it('should reject an end date before the start date', () => {
+      expect(() =>
+        Coupon.create({
+          code: 'WINDOW',
+          type: 'percentage',
+          value: 10,
+          startsAt: new Date('2026-06-17'),
+          endsAt: new Date('2026-06-15'),
+        }),
+      ).toThrow('coupon.invalid_date_range')
+    })
+  })
+
+  describe('assertRedeemable', () => {
+    const coupon = Coupon.create({
+      code: 'EXPO',
+      type: 'percentage',
+      value: 10,
+      startsAt: new Date('2026-06-01'),
+      endsAt: new Date('2026-06-30'),
+    })
+
+    it('should pass inside the validity window', () => {
+      expect(() => coupon.assertRedeemable(new Date('2026-06-15'))).not.toThrow()
+    })
+
+    it('should reject before the start and after the end', () => {
+      expect(() => coupon.assertRedeemable(new Date('2026-05-31'))).toThrow('coupon.not_started')
+      expect(() => coupon.assertRedeemable(new Date('2026-07-01'))).toThrow('coupon.expired')
+    })
+
+    it('should reject a deactivated coupon', () => {
+      const inactive = Coupon.create({ code: 'OFF', type: 'percentage', value: 10 })
+      inactive.update({ isActive: false })
+
+      expect(() => inactive.assertRedeemable()).toThrow('coupon.inactive')
+    })
+  })
+
+  describe('appliesTo', () => {
+    it('should only apply to its event when scoped', () => {
+      const coupon = Coupon.create({ code: 'ONE', type: 'percentage', value: 10, eventId: 'e1' })
+
+      expect(coupon.appliesTo('e1', 'USD')).toBe(true)
+      expect(coupon.appliesTo('e2', 'USD')).toBe(false)
+    })
+
+    it('should only apply fixed amounts in the coupon currency', () => {
+      const coupon = Coupon.create({
+        code: 'FIVE',
+        type: 'fixed_amount',
+        value: 5,
+        currency: 'usd',
+      })
+
+      expect(coupon.appliesTo('e1', 'USD')).toBe(true)
+      expect(coupon.appliesTo('e1', 'EUR')).toBe(false)
+    })
+  })
+
+  describe('assertWithinLimits', () => {
+    const coupon = Coupon.create({
+      code: 'LIMITED',
+      type: 'percentage',
+      value: 10,
+      maxUses: 100,
+      maxUsesPerCustomer: 1,
+    })
+
+    it('should reject once the total limit is reached', () => {
+      expect(() => coupon.assertWithinLimits(100, 0)).toThrow('coupon.usage_limit_reached')
+    })
+
+    it('should reject a customer who already used it', () => {
+      expect(() => coupon.assertWithinLimits(5, 1)).toThrow('coupon.customer_usage_limit_reached')
+    })
+
+    it('should skip the per-customer check for anonymous quotes', () => {
+      expect(() => coupon.assertWithinLimits(5, null)).not.toThrow()
+    })
+  })
+})
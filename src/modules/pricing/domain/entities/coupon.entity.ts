@@ -0,0 +1,214 @@
+import { AppException } from '@shared/domain'
+import type { DiscountRule } from '../services/pricing-calculator.service'
+import { CouponType, type CouponTypeValue } from '../value-objects/coupon-type.vo'
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,40}$/
+
+export class Coupon {
+  constructor(
+    public readonly id: string,
+    public readonly code: string,
+    public readonly type: CouponTypeValue,
+    public value: number,
+    public currency: string | null,
+    public eventId: string | null,
+    public startsAt: Date | null,
+    public endsAt: Date | null,
+    public maxUses: number | null,
+    public maxUsesPerCustomer: number | null,
+    public isActive: boolean,
+    public readonly createdAt: Date,
+    public updatedAt: Date,
+    public readonly createdById: string | null,
+  ) {}
+
+  /**
+   * Factory method for creating a new coupon.
+   * The code is normalized to upper case; coupons start active.
+   */
+  static create(data: {
+    code: string
+    type: CouponTypeValue
+    value: number
+    currency?: string | null
+    eventId?: string | null
+    startsAt?: Date | null
+    endsAt?: Date | null
+    maxUses?: number | null
+    maxUsesPerCustomer?: number | null
+    createdById?: string | null
+  }): Coupon {
+    const code = Coupon.normalizeCode(data.code)
+    if (!CODE_PATTERN.test(code)) throw AppException.businessRule('coupon.invalid_code_format')
+
+    const currency = data.currency ? data.currency.toUpperCase() : null
+    Coupon.validateValue(data.type, data.value, currency)
+    Coupon.validateWindow(data.startsAt ?? null, data.endsAt ?? null)
+    Coupon.validateLimits(data.maxUses ?? null, data.maxUsesPerCustomer ?? null)
+
+    const now = new Date()
+    return new Coupon(
+      crypto.randomUUID(),
+      code,
+      data.type,
+      data.value,
+      currency,
+      data.eventId ?? null,
+      data.startsAt ?? null,
+      data.endsAt ?? null,
+      data.maxUses ?? null,
+      data.maxUsesPerCustomer ?? null,
+      true,
+      now,
+      now,
+      data.createdById ?? null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    code: string
+    type: CouponTypeValue
+    value: number
+    currency: string | null
+    eventId: string | null
+    startsAt: Date | null
+    endsAt: Date | null
+    maxUses: number | null
+    maxUsesPerCustomer: number | null
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+    createdById: string | null
+  }): Coupon {
+    return new Coupon(
+      data.id,
+      data.code,
+      data.type,
+      data.value,
+      data.currency,
+      data.eventId,
+      data.startsAt,
+      data.endsAt,
+      data.maxUses,
+      data.maxUsesPerCustomer,
+      data.isActive,
+      data.createdAt,
+      data.updatedAt,
+      data.createdById,
+    )
+  }
+
+  /** Trims and upper-cases a customer-entered code so lookups are case-insensitive. */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase()
+  }
+
+  /** Applies a partial update. Code and type are immutable once created. */
+  update(data: {
+    value?: number
+    currency?: string | null
+    eventId?: string | null
+    startsAt?: Date | null
+    endsAt?: Date | null
+    maxUses?: number | null
+    maxUsesPerCustomer?: number | null
+    isActive?: boolean
+  }): void {
+    const value = data.value ?? this.value
+    const currency =
+      data.currency !== undefined ? (data.currency?.toUpperCase() ?? null) : this.currency
+    const startsAt = data.startsAt !== undefined ? data.startsAt : this.startsAt
+    const endsAt = data.endsAt !== undefined ? data.endsAt : this.endsAt
+    const maxUses = data.maxUses !== undefined ? data.maxUses : this.maxUses
+    const maxUsesPerCustomer =
+      data.maxUsesPerCustomer !== undefined ? data.maxUsesPerCustomer : this.maxUsesPerCustomer
+
+    Coupon.validateValue(this.type, value, currency)
+    Coupon.validateWindow(startsAt, endsAt)
+    Coupon.validateLimits(maxUses, maxUsesPerCustomer)
+
+    this.value = value
+    this.currency = currency
+    if (data.eventId !== undefined) this.eventId = data.eventId
+    this.startsAt = startsAt
+    this.endsAt = endsAt
+    this.maxUses = maxUses
+    this.maxUsesPerCustomer = maxUsesPerCustomer
+    if (data.isActive !== undefined) this.isActive = data.isActive
+    this.updatedAt = new Date()
+  }
+
+  /** Throws unless the coupon is active and `now` falls inside its validity window. */
+  assertRedeemable(now: Date = new Date()): void {
+    if (!this.isActive) throw AppException.businessRule('coupon.inactive')
+    if (this.startsAt && now < this.startsAt) throw AppException.businessRule('coupon.not_started')
+    if (this.endsAt && now > this.endsAt) throw AppException.businessRule('coupon.expired')
+  }
+
+  /** Whether the coupon discounts a line of `eventId` priced in `currency`. */
+  appliesTo(eventId: string | null, currency: string): boolean {
+    if (this.eventId !== null && this.eventId !== eventId) return false
+    if (this.type === CouponType.FIXED_AMOUNT && this.currency !== currency.toUpperCase()) {
+      return false
+    }
+    return true
+  }
+
+  /** Throws when the recorded uses already reach the total or per-customer limit. */
+  assertWithinLimits(totalUses: number, customerUses: number | null): void {
+    if (this.maxUses !== null && totalUses >= this.maxUses) {
+      throw AppException.businessRule('coupon.usage_limit_reached')
+    }
+    if (
+      this.maxUsesPerCustomer !== null &&
+      customerUses !== null &&
+      customerUses >= this.maxUsesPerCustomer
+    ) {
+      throw AppException.businessRule('coupon.customer_usage_limit_reached')
+    }
+  }
+
+  toDiscountRule(): DiscountRule {
+    return { type: this.type, value: this.value }
+  }
+
+  private static validateValue(type: CouponTypeValue, value: number, currency: string | null) {
+    switch (type) {
+      case CouponType.PERCENTAGE:
+        if (!(value > 0 && value <= 100)) throw AppException.businessRule('coupon.invalid_value')
+        break
+      case CouponType.FIXED_AMOUNT:
+        if (!(value > 0)) throw AppException.businessRule('coupon.invalid_value')
+        if (!currency) throw AppException.businessRule('coupon.currency_required')
+        break
+      case CouponType.FREE_PHOTOS:
+        if (!Number.isInteger(value) || value < 1) {
+          throw AppException.businessRule('coupon.invalid_value')
+        }
+        break
+    }
+  }
+
+  private static validateWindow(startsAt: Date | null, endsAt: Date | null): void {
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      throw AppException.businessRule('coupon.invalid_date_range')
+    }
+  }
+
+  private static validateLimits(maxUses: number | null, maxUsesPerCustomer: number | null): void {
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      throw AppException.businessRule('coupon.invalid_usage_limit')
+    }
+    if (
+      maxUsesPerCustomer !== null &&
+      (!Number.isInteger(maxUsesPerCustomer) || maxUsesPerCustomer < 1)
+    ) {
+      throw AppException.businessRule('coupon.invalid_usage_limit')
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { AppException } from '@shared/domain'
+import type { FxSnapshot } from '../value-objects/fx-snapshot'
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/
+
+/**
+ * Admin-maintained conversion rate: 1 unit of `currency` = `rate` units of
+ * `baseCurrency`. Orders copy the current rate at creation (see FxSnapshot).
+ */
+export class ExchangeRate {
+  constructor(
+    public readonly id: string,
+    public readonly baseCurrency: string,
+    public readonly currency: string,
+    public rate: number,
+    public updatedAt: Date,
+    public updatedById: string | null,
+  ) {}
+
+  /**
+   * Factory method for creating a new exchange rate.
+   * Currency codes are normalized to upper case.
+   */
+  static create(data: {
+    baseCurrency: string
+    currency: string
+    rate: number
+    updatedById?: string | null
+  }): ExchangeRate {
+    const baseCurrency = data.baseCurrency.toUpperCase()
+    const currency = data.currency.toUpperCase()
+    if (!CURRENCY_PATTERN.test(currency))
+      throw AppException.businessRule('pricing.invalid_currency')
+    if (currency === baseCurrency) throw AppException.businessRule('pricing.exchange_rate_is_base')
+    ExchangeRate.validateRate(data.rate)
+
+    return new ExchangeRate(
+      crypto.randomUUID(),
+      baseCurrency,
+      currency,
+      data.rate,
+      new Date(),
+      data.updatedById ?? null,
+    )
+  }
+
+  /**
+   * Reconstitutes an entity from persistence data.
+   * No validations are applied – the data is trusted.
+   */
+  static fromPersistence(data: {
+    id: string
+    baseCurrency: string
+    currency: string
+    rate: number
+    updatedAt: Date
+    updatedById: string | null
+  }): ExchangeRate {
+    return new ExchangeRate(
+      data.id,
+      data.baseCurrency,
+      data.currency,
+      data.rate,
+      data.updatedAt,
+      data.updatedById,
+    )
+  }
+
+  /** Replaces the rate. Orders created before keep the rate they snapshotted. */
+  updateRate(rate: number, updatedById: string | null): void {
+    ExchangeRate.validateRate(rate)
+    this.rate = rate
+    this.updatedAt = new Date()
+    this.updatedById = updatedById
+  }
+
+  toSnapshot(): FxSnapshot {
+    return { baseCurrency: this.baseCurrency, rate: this.rate }
+  }
+
+  private static validateRate(rate: number): void {
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw AppException.businessRule('pricing.invalid_exchange_rate')
+    }
+  }
+}
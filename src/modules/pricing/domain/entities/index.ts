@@ -0,0 +1,2 @@
+export { Coupon } from './coupon.entity'
+export { ExchangeRate } from './exchange-rate.entity'
@@ -0,0 +1,20 @@
+import type { CouponListProjection } from '@pricing/application/projections/coupon-list.projection'
+import type { PaginatedResult, Pagination } from '@shared/application'
+import type { Coupon } from '../entities'
+
+export const COUPON_READ_REPOSITORY = Symbol('COUPON_READ_REPOSITORY')
+
+export interface ICouponReadRepository {
+  findById(id: string): Promise<Coupon | null>
+  /** Looks up by normalized (upper-case) code. */
+  findByCode(code: string): Promise<Coupon | null>
+  getList(pagination: Pagination): Promise<PaginatedResult<CouponListProjection>>
+  /**
+   * Counts redemptions that still back a live order. `userId` null skips the
+   * per-customer count and returns `customerUses: null`.
+   */
+  countUses(
+    couponId: string,
+    userId: string | null,
+  ): Promise<{ total: number; customerUses: number | null }>
+}
@@ -0,0 +1,7 @@
+import type { Coupon } from '../entities'
+
+export const COUPON_WRITE_REPOSITORY = Symbol('COUPON_WRITE_REPOSITORY')
+
+export interface ICouponWriteRepository {
+  save(coupon: Coupon): Promise<Coupon>
+}
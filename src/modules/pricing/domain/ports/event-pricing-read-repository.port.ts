@@ -3,6 +3,10 @@ export const EVENT_PRICING_READ_REPOSITORY = Symbol('EVENT_PRICING_READ_REPOSITO
 export interface RawPricingConfig {
   tiers: { minQty: number; maxQty: number | null; pricePerPhoto: number }[]
   currency: string
+  /** Flat "all photos of my bib" price; absent/null when the event does not sell packages. */
+  bibPackage?: { price: number } | null
+  /** Per-photo retouch request price; absent/null when retouch requests are free. */
+  retouchAddOn?: { price: number } | null
 }
 
 export interface IEventPricingReadRepository {
@@ -0,0 +1,10 @@
+import type { ExchangeRateProjection } from '@pricing/application/projections/exchange-rate.projection'
+import type { ExchangeRate } from '../entities'
+
+export const EXCHANGE_RATE_READ_REPOSITORY = Symbol('EXCHANGE_RATE_READ_REPOSITORY')
+
+export interface IExchangeRateReadRepository {
+  findByCurrency(baseCurrency: string, currency: string): Promise<ExchangeRate | null>
+  /** Every rate entered against `baseCurrency`, by currency code. */
+  getList(baseCurrency: string): Promise<ExchangeRateProjection[]>
+}
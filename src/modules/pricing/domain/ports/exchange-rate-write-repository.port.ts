@@ -0,0 +1,7 @@
+import type { ExchangeRate } from '../entities'
+
+export const EXCHANGE_RATE_WRITE_REPOSITORY = Symbol('EXCHANGE_RATE_WRITE_REPOSITORY')
+
+export interface IExchangeRateWriteRepository {
+  save(rate: ExchangeRate): Promise<ExchangeRate>
+}
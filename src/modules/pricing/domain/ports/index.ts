@@ -1,2 +1,6 @@
+export * from './coupon-read-repository.port'
+export * from './coupon-write-repository.port'
 export * from './event-pricing-read-repository.port'
 export * from './event-pricing-write-repository.port'
+export * from './exchange-rate-read-repository.port'
+export * from './exchange-rate-write-repository.port'
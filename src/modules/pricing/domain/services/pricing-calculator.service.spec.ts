@@ -2,10 +2,10 @@ import { PricingTier } from '../value-objects/pricing-tier.vo'
 import { PricingCalculator } from './pricing-calculator.service'
 
 const TIERS = [
-  PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: 4 }),
-  PricingTier.create({ minQty: 3, maxQty: 6, pricePerPhoto: 3 }),
-  PricingTier.create({ minQty: 7, maxQty: 9, pricePerPhoto: 2.5 }),
-  PricingTier.create({ minQty: 10, maxQty: null, pricePerPhoto: 2 }),
+  PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: 4, currency: 'USD' }),
+  PricingTier.create({ minQty: 3, maxQty: 6, pricePerPhoto: 3, currency: 'USD' }),
+  PricingTier.create({ minQty: 7, maxQty: 9, pricePerPhoto: 2.5, currency: 'USD' }),
+  PricingTier.create({ minQty: 10, maxQty: null, pricePerPhoto: 2, currency: 'USD' }),
 ]
 
 describe('PricingCalculator', () => {
@@ -50,11 +50,74 @@ describe('PricingCalculator', () => {
   })
 
   it('throws when tiers do not cover the quantity (gap)', () => {
-    const incomplete = [PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: 4 })]
+    const incomplete = [
+      PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: 4, currency: 'USD' }),
+    ]
     expect(() => PricingCalculator.calculate(5, incomplete)).toThrow()
   })
 
   it('throws when tiers list is empty', () => {
     expect(() => PricingCalculator.calculate(1, [])).toThrow()
   })
+
+  it('reports the currency shared by the tiers', () => {
+    expect(PricingCalculator.calculate(1, TIERS).currency).toBe('USD')
+  })
+
+  it('throws when tiers mix currencies', () => {
+    const mixed = [
+      PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: 4, currency: 'USD' }),
+      PricingTier.create({ minQty: 3, maxQty: null, pricePerPhoto: 60, currency: 'MXN' }),
+    ]
+    expect(() => PricingCalculator.calculate(1, mixed)).toThrow()
+  })
+})
+
+describe('PricingCalculator discounts', () => {
+  it('returns a zero discount when no rule is given', () => {
+    const r = PricingCalculator.calculate(7, TIERS)
+    expect(r.discountAmount).toBe(0)
+    expect(r.total).toBe(17.5)
+  })
+
+  it('applies a percentage discount to the subtotal', () => {
+    const r = PricingCalculator.calculate(7, TIERS, { type: 'percentage', value: 20 })
+    expect(r.subtotal).toBe(17.5)
+    expect(r.discountAmount).toBe(3.5)
+    expect(r.total).toBe(14)
+  })
+
+  it('caps a fixed amount at the subtotal', () => {
+    const r = PricingCalculator.calculate(1, TIERS, { type: 'fixed_amount', value: 10 })
+    expect(r.discountAmount).toBe(4)
+    expect(r.total).toBe(0)
+  })
+
+  it('makes free photos cost nothing at the tier unit price', () => {
+    const r = PricingCalculator.calculate(10, TIERS, { type: 'free_photos', value: 2 })
+    expect(r.discountAmount).toBe(4)
+    expect(r.total).toBe(16)
+  })
+
+  it('splits a fixed amount proportionally across lines, remainder on the last', () => {
+    const amounts = PricingCalculator.allocateDiscount(
+      [
+        { quantity: 1, unitPrice: 10 },
+        { quantity: 2, unitPrice: 10 },
+      ],
+      { type: 'fixed_amount', value: 10 },
+    )
+    expect(amounts).toEqual([3.33, 6.67])
+  })
+
+  it('gives free photos on the cheapest lines first', () => {
+    const amounts = PricingCalculator.allocateDiscount(
+      [
+        { quantity: 3, unitPrice: 4 },
+        { quantity: 2, unitPrice: 2 },
+      ],
+      { type: 'free_photos', value: 3 },
+    )
+    expect(amounts).toEqual([4, 4])
+  })
 })
@@ -1,23 +1,50 @@
 import { AppException } from '@shared/domain'
+import { CouponType, type CouponTypeValue } from '../value-objects/coupon-type.vo'
 import type { PricingTier } from '../value-objects/pricing-tier.vo'
 
 export interface PricingCalculation {
+  /** Currency shared by every tier; all amounts below are expressed in it. */
+  currency: string
   quantity: number
   unitPrice: number
   subtotal: number
   tier: PricingTier
   nextTier: PricingTier | null
   photosToNextTier: number | null
+  /** Discount taken off the subtotal (0 when no discount applies). */
+  discountAmount: number
+  /** subtotal - discountAmount. */
+  total: number
 }
 
+export interface DiscountRule {
+  type: CouponTypeValue
+  value: number
+}
+
+export interface DiscountLine {
+  quantity: number
+  unitPrice: number
+}
+
+const round2 = (n: number): number => Math.round(n * 100) / 100
+
 export const PricingCalculator = {
-  calculate(quantity: number, tiers: readonly PricingTier[]): PricingCalculation {
+  calculate(
+    quantity: number,
+    tiers: readonly PricingTier[],
+    discount: DiscountRule | null = null,
+  ): PricingCalculation {
     if (!Number.isInteger(quantity) || quantity < 1) {
       throw AppException.businessRule('pricing.invalid_quantity')
     }
     if (tiers.length === 0) {
       throw AppException.businessRule('pricing.no_tiers_configured')
     }
+    const currency = tiers[0].currency
+    if (tiers.some((t) => t.currency !== currency)) {
+      throw AppException.businessRule('pricing.mixed_tier_currencies')
+    }
 
     const sorted = [...tiers].sort((a, b) => a.minQty - b.minQty)
     const tier = sorted.find((t) => t.matches(quantity))
@@ -28,8 +55,62 @@ export const PricingCalculator = {
     const photosToNextTier = nextTier ? nextTier.minQty - quantity : null
 
     const unitPrice = tier.pricePerPhoto
-    const subtotal = Math.round(unitPrice * quantity * 100) / 100
+    const subtotal = round2(unitPrice * quantity)
+    const [discountAmount] = discount
+      ? PricingCalculator.allocateDiscount([{ quantity, unitPrice }], discount)
+      : [0]
+    const total = round2(subtotal - discountAmount)
 
-    return { quantity, unitPrice, subtotal, tier, nextTier, photosToNextTier }
+    return {
+      currency,
+      quantity,
+      unitPrice,
+      subtotal,
+      tier,
+      nextTier,
+      photosToNextTier,
+      discountAmount,
+      total,
+    }
+  },
+
+  /**
+   * Splits a discount across priced lines, returning the amount per line (same order).
+   * - percentage: each line loses `value`% of its subtotal.
+   * - fixed_amount: `value` (capped at the combined subtotal) is split proportionally
+   *   to each line's subtotal; the last line absorbs the rounding remainder.
+   * - free_photos: the `value` cheapest photos across all lines become free.
+   * A line never gets more discount than its own subtotal.
+   */
+  allocateDiscount(lines: readonly DiscountLine[], rule: DiscountRule): number[] {
+    const subtotals = lines.map((l) => round2(l.unitPrice * l.quantity))
+
+    switch (rule.type) {
+      case CouponType.PERCENTAGE:
+        return subtotals.map((s) => round2((s * Math.min(rule.value, 100)) / 100))
+
+      case CouponType.FIXED_AMOUNT: {
+        const sum = subtotals.reduce((acc, s) => acc + s, 0)
+        if (sum <= 0) return subtotals.map(() => 0)
+        const cap = round2(Math.min(rule.value, sum))
+        const amounts = subtotals.map((s) => round2((cap * s) / sum))
+        const last = amounts.length - 1
+        amounts[last] = round2(cap - amounts.slice(0, last).reduce((acc, a) => acc + a, 0))
+        return amounts.map((a, i) => Math.min(Math.max(a, 0), subtotals[i]))
+      }
+
+      case CouponType.FREE_PHOTOS: {
+        const freeCounts = lines.map(() => 0)
+        let remaining = Math.floor(rule.value)
+        const byPrice = lines.map((l, i) => ({ ...l, i })).sort((a, b) => a.unitPrice - b.unitPrice)
+        for (const line of byPrice) {
+          if (remaining <= 0) break
+          const free = Math.min(line.quantity, remaining)
+          freeCounts[line.i] = free
+          remaining -= free
+        }
+        return lines.map((l, i) => round2(l.unitPrice * freeCounts[i]))
+      }
+    }
   },
 }
@@ -0,0 +1,22 @@
+import { AppException } from '@shared/domain'
+
+/**
+ * Flat price for every current and future photo of one bib in an event.
+ * Optional part of the per-event pricing config, next to the PricingTier list.
+ */
+export class BibPackage {
+  private constructor(public readonly price: number) {
+    Object.freeze(this)
+  }
+
+  static create(data: { price: number }): BibPackage {
+    if (!(data.price > 0)) {
+      throw AppException.businessRule('pricing.invalid_bib_package_price')
+    }
+    return new BibPackage(Math.round(data.price * 100) / 100)
+  }
+
+  toJSON(): { price: number } {
+    return { price: this.price }
+  }
+}
@@ -0,0 +1,12 @@
+import type { Coupon } from '../entities'
+
+/**
+ * A use of a coupon, written in the same transaction as the orders it discounts.
+ * The id is chosen up front so the orders can reference it.
+ */
+export interface CouponRedemption {
+  id: string
+  coupon: Coupon
+  userId: string
+  discountAmount: number
+}
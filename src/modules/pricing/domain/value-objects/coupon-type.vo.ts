@@ -0,0 +1,7 @@
+export const CouponType = {
+  PERCENTAGE: 'percentage',
+  FIXED_AMOUNT: 'fixed_amount',
+  FREE_PHOTOS: 'free_photos',
+} as const
+
+export type CouponTypeValue = (typeof CouponType)[keyof typeof CouponType]
@@ -0,0 +1,10 @@
+/**
+ * Coupon discount recorded on an Order at creation time.
+ * `subtotalBeforeDiscount - amount` is the order subtotal actually charged.
+ */
+export interface DiscountSnapshot {
+  couponRedemptionId: string
+  couponCode: string
+  amount: number
+  subtotalBeforeDiscount: number
+}
@@ -0,0 +1,8 @@
+/**
+ * Exchange rate recorded on an Order at creation time:
+ * 1 unit of the order currency = `rate` units of `baseCurrency`.
+ */
+export interface FxSnapshot {
+  baseCurrency: string
+  rate: number
+}
@@ -1,2 +1,8 @@
+export * from './bib-package.vo'
+export * from './coupon-redemption.vo'
+export * from './coupon-type.vo'
+export * from './discount-snapshot'
+export * from './fx-snapshot'
 export * from './pricing-tier.vo'
 export * from './pricing-tier-snapshot'
+export * from './retouch-add-on.vo'
@@ -6,4 +6,6 @@ export interface PricingTierSnapshot {
   minQty: number
   maxQty: number | null
   pricePerPhoto: number
+  /** Absent on snapshots taken before tiers carried a currency; use Order.snap_currency. */
+  currency?: string
 }
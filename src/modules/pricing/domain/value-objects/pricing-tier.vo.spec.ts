@@ -2,19 +2,19 @@ import { PricingTier } from './pricing-tier.vo'
 
 describe('PricingTier', () => {
   it('creates a closed tier (min 1, max 2, price 4)', () => {
-    const tier = PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: 4 })
+    const tier = PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: 4, currency: 'USD' })
     expect(tier.minQty).toBe(1)
     expect(tier.maxQty).toBe(2)
     expect(tier.pricePerPhoto).toBe(4)
   })
 
   it('creates an open-ended tier (max null)', () => {
-    const tier = PricingTier.create({ minQty: 10, maxQty: null, pricePerPhoto: 2 })
+    const tier = PricingTier.create({ minQty: 10, maxQty: null, pricePerPhoto: 2, currency: 'USD' })
     expect(tier.maxQty).toBeNull()
   })
 
   it('matches a quantity inside the range', () => {
-    const tier = PricingTier.create({ minQty: 3, maxQty: 6, pricePerPhoto: 3 })
+    const tier = PricingTier.create({ minQty: 3, maxQty: 6, pricePerPhoto: 3, currency: 'USD' })
     expect(tier.matches(3)).toBe(true)
     expect(tier.matches(6)).toBe(true)
     expect(tier.matches(2)).toBe(false)
@@ -22,21 +22,35 @@ describe('PricingTier', () => {
   })
 
   it('open-ended tier matches any quantity above min', () => {
-    const tier = PricingTier.create({ minQty: 10, maxQty: null, pricePerPhoto: 2 })
+    const tier = PricingTier.create({ minQty: 10, maxQty: null, pricePerPhoto: 2, currency: 'USD' })
     expect(tier.matches(10)).toBe(true)
     expect(tier.matches(9999)).toBe(true)
     expect(tier.matches(9)).toBe(false)
   })
 
   it('rejects minQty < 1', () => {
-    expect(() => PricingTier.create({ minQty: 0, maxQty: 2, pricePerPhoto: 4 })).toThrow()
+    expect(() =>
+      PricingTier.create({ minQty: 0, maxQty: 2, pricePerPhoto: 4, currency: 'USD' }),
+    ).toThrow()
   })
 
   it('rejects maxQty < minQty', () => {
-    expect(() => PricingTier.create({ minQty: 5, maxQty: 3, pricePerPhoto: 4 })).toThrow()
+    expect(() =>
+      PricingTier.create({ minQty: 5, maxQty: 3, pricePerPhoto: 4, currency: 'USD' }),
+    ).toThrow()
+  })
+
+  it('upper-cases the currency and rejects malformed codes', () => {
+    const tier = PricingTier.create({ minQty: 1, maxQty: null, pricePerPhoto: 4, currency: 'mxn' })
+    expect(tier.currency).toBe('MXN')
+    expect(() =>
+      PricingTier.create({ minQty: 1, maxQty: null, pricePerPhoto: 4, currency: 'PESO' }),
+    ).toThrow()
   })
 
   it('rejects negative price', () => {
-    expect(() => PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: -1 })).toThrow()
+    expect(() =>
+      PricingTier.create({ minQty: 1, maxQty: 2, pricePerPhoto: -1, currency: 'USD' }),
+    ).toThrow()
   })
 })
@@ -1,10 +1,14 @@
 import { AppException } from '@shared/domain'
 
+const CURRENCY_PATTERN = /^[A-Z]{3}$/
+
 export class PricingTier {
   private constructor(
     public readonly minQty: number,
     public readonly maxQty: number | null,
     public readonly pricePerPhoto: number,
+    /** ISO 4217 code `pricePerPhoto` is expressed in (upper case). */
+    public readonly currency: string,
   ) {
     Object.freeze(this)
   }
@@ -13,6 +17,7 @@ export class PricingTier {
     minQty: number
     maxQty: number | null
     pricePerPhoto: number
+    currency: string
   }): PricingTier {
     if (!Number.isInteger(data.minQty) || data.minQty < 1) {
       throw AppException.businessRule('pricing.invalid_tier_min_qty')
@@ -23,7 +28,11 @@ export class PricingTier {
     if (data.pricePerPhoto < 0) {
       throw AppException.businessRule('pricing.invalid_tier_price')
     }
-    return new PricingTier(data.minQty, data.maxQty, data.pricePerPhoto)
+    const currency = data.currency.toUpperCase()
+    if (!CURRENCY_PATTERN.test(currency)) {
+      throw AppException.businessRule('pricing.invalid_currency')
+    }
+    return new PricingTier(data.minQty, data.maxQty, data.pricePerPhoto, currency)
   }
 
   matches(quantity: number): boolean {
@@ -32,7 +41,12 @@ export class PricingTier {
     return quantity <= this.maxQty
   }
 
-  toJSON(): { minQty: number; maxQty: number | null; pricePerPhoto: number } {
-    return { minQty: this.minQty, maxQty: this.maxQty, pricePerPhoto: this.pricePerPhoto }
+  toJSON(): { minQty: number; maxQty: number | null; pricePerPhoto: number; currency: string } {
+    return {
+      minQty: this.minQty,
+      maxQty: this.maxQty,
+      pricePerPhoto: this.pricePerPhoto,
+      currency: this.currency,
+    }
   }
 }
@@ -0,0 +1,22 @@
+import { AppException } from '@shared/domain'
+
+/**
+ * Price charged for each photo a customer sends back with retouch instructions.
+ * Optional part of the per-event pricing config; without it retouch requests are free.
+ */
+export class RetouchAddOn {
+  private constructor(public readonly price: number) {
+    Object.freeze(this)
+  }
+
+  static create(data: { price: number }): RetouchAddOn {
+    if (!(data.price > 0)) {
+      throw AppException.businessRule('pricing.invalid_retouch_add_on_price')
+    }
+    return new RetouchAddOn(Math.round(data.price * 100) / 100)
+  }
+
+  toJSON(): { price: number } {
+    return { price: this.price }
+  }
+}
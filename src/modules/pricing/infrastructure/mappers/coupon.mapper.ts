@@ -0,0 +1,83 @@
+import type { Prisma, Coupon as PrismaCoupon } from '@generated/prisma/client'
+import type { CouponListProjection } from '@pricing/application/projections/coupon-list.projection'
+import { Coupon } from '@pricing/domain/entities'
+import type { CouponTypeValue } from '@pricing/domain/value-objects'
+
+/** Converts a domain entity to a Prisma create input. */
+export function toPersistence(entity: Coupon): Prisma.CouponUncheckedCreateInput {
+  return {
+    id: entity.id,
+    code: entity.code,
+    type: entity.type,
+    value: entity.value,
+    currency: entity.currency,
+    event_id: entity.eventId,
+    starts_at: entity.startsAt,
+    ends_at: entity.endsAt,
+    max_uses: entity.maxUses,
+    max_uses_per_customer: entity.maxUsesPerCustomer,
+    is_active: entity.isActive,
+    created_at: entity.createdAt,
+    updated_at: entity.updatedAt,
+    created_by_id: entity.createdById,
+  }
+}
+
+/** Converts a Prisma record to a domain entity. */
+export function toEntity(record: PrismaCoupon): Coupon {
+  return Coupon.fromPersistence({
+    id: record.id,
+    code: record.code,
+    type: record.type as CouponTypeValue,
+    value: Number(record.value),
+    currency: record.currency,
+    eventId: record.event_id,
+    startsAt: record.starts_at,
+    endsAt: record.ends_at,
+    maxUses: record.max_uses,
+    maxUsesPerCustomer: record.max_uses_per_customer,
+    isActive: record.is_active,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+    createdById: record.created_by_id,
+  })
+}
+
+/** Maps a coupon record with its event name and live-use count to a list projection. */
+export function toListProjection(
+  record: PrismaCoupon & { event: { name: string } | null },
+  uses: number,
+): CouponListProjection {
+  return {
+    id: record.id,
+    code: record.code,
+    type: record.type,
+    value: Number(record.value),
+    currency: record.currency,
+    eventId: record.event_id,
+    eventName: record.event?.name ?? null,
+    startsAt: record.starts_at,
+    endsAt: record.ends_at,
+    maxUses: record.max_uses,
+    maxUsesPerCustomer: record.max_uses_per_customer,
+    uses,
+    isActive: record.is_active,
+    createdAt: record.created_at,
+  }
+}
+
+/**
+ * Redemptions that count towards usage limits: those still backing an order
+ * that was neither cancelled nor refunded. Redemptions are written in the same
+ * transaction as their orders, so one without orders never commits.
+ */
+export function liveRedemptionWhere(
+  couponId: string,
+  userId?: string,
+): Prisma.CouponRedemptionWhereInput {
+  return {
+    coupon_id: couponId,
+    ...(userId ? { user_id: userId } : {}),
+    orders: { some: { status: { notIn: ['cancelled', 'refunded'] } } },
+  }
+}
@@ -0,0 +1,39 @@
+import type { Prisma, ExchangeRate as PrismaExchangeRate } from '@generated/prisma/client'
+import type { ExchangeRateProjection } from '@pricing/application/projections/exchange-rate.projection'
+import { ExchangeRate } from '@pricing/domain/entities'
+
+/** Converts a domain entity to a Prisma create input. */
+export function toPersistence(entity: ExchangeRate): Prisma.ExchangeRateUncheckedCreateInput {
+  return {
+    id: entity.id,
+    base_currency: entity.baseCurrency,
+    currency: entity.currency,
+    rate: entity.rate,
+    updated_at: entity.updatedAt,
+    updated_by_id: entity.updatedById,
+  }
+}
+
+/** Converts a Prisma record to a domain entity. */
+export function toEntity(record: PrismaExchangeRate): ExchangeRate {
+  return ExchangeRate.fromPersistence({
+    id: record.id,
+    baseCurrency: record.base_currency,
+    currency: record.currency,
+    rate: Number(record.rate),
+    updatedAt: record.updated_at,
+    updatedById: record.updated_by_id,
+  })
+}
+
+/** Maps a Prisma record to the admin list projection. */
+export function toProjection(record: PrismaExchangeRate): ExchangeRateProjection {
+  return {
+    id: record.id,
+    baseCurrency: record.base_currency,
+    currency: record.currency,
+    rate: Number(record.rate),
+    updatedAt: record.updated_at,
+    updatedById: record.updated_by_id,
+  }
+}
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common'
+import type { CouponListProjection } from '@pricing/application/projections/coupon-list.projection'
+import type { Coupon } from '@pricing/domain/entities'
+import type { ICouponReadRepository } from '@pricing/domain/ports'
+import { PaginatedResult, type Pagination } from '@shared/application'
+import { PrismaService } from '@shared/infrastructure'
+import * as CouponMapper from '../mappers/coupon.mapper'
+
+@Injectable()
+export class CouponReadRepository implements ICouponReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findById(id: string): Promise<Coupon | null> {
+    const record = await this.prisma.coupon.findUnique({ where: { id } })
+    return record ? CouponMapper.toEntity(record) : null
+  }
+
+  async findByCode(code: string): Promise<Coupon | null> {
+    const record = await this.prisma.coupon.findUnique({ where: { code } })
+    return record ? CouponMapper.toEntity(record) : null
+  }
+
+  async getList(pagination: Pagination): Promise<PaginatedResult<CouponListProjection>> {
+    const [records, total] = await Promise.all([
+      this.prisma.coupon.findMany({
+        include: { event: { select: { name: true } } },
+        orderBy: { created_at: 'desc' },
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      this.prisma.coupon.count(),
+    ])
+
+    const uses = await Promise.all(
+      records.map((r) =>
+        this.prisma.couponRedemption.count({ where: CouponMapper.liveRedemptionWhere(r.id) }),
+      ),
+    )
+
+    return new PaginatedResult(
+      records.map((r, i) => CouponMapper.toListProjection(r, uses[i])),
+      total,
+      pagination,
+    )
+  }
+
+  async countUses(
+    couponId: string,
+    userId: string | null,
+  ): Promise<{ total: number; customerUses: number | null }> {
+    const [total, customerUses] = await Promise.all([
+      this.prisma.couponRedemption.count({ where: CouponMapper.liveRedemptionWhere(couponId) }),
+      userId
+        ? this.prisma.couponRedemption.count({
+            where: CouponMapper.liveRedemptionWhere(couponId, userId),
+          })
+        : Promise.resolve(null),
+    ])
+    return { total, customerUses }
+  }
+}
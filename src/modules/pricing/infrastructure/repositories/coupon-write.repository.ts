@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common'
+import type { Coupon } from '@pricing/domain/entities'
+import type { ICouponWriteRepository } from '@pricing/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as CouponMapper from '../mappers/coupon.mapper'
+
+@Injectable()
+export class CouponWriteRepository implements ICouponWriteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Persists a coupon entity (create or update). */
+  async save(coupon: Coupon): Promise<Coupon> {
+    const data = CouponMapper.toPersistence(coupon)
+
+    const saved = await this.prisma.coupon.upsert({
+      where: { id: coupon.id },
+      create: data,
+      update: data,
+    })
+
+    return CouponMapper.toEntity(saved)
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common'
+import type { ExchangeRateProjection } from '@pricing/application/projections/exchange-rate.projection'
+import type { ExchangeRate } from '@pricing/domain/entities'
+import type { IExchangeRateReadRepository } from '@pricing/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as ExchangeRateMapper from '../mappers/exchange-rate.mapper'
+
+@Injectable()
+export class ExchangeRateReadRepository implements IExchangeRateReadRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findByCurrency(baseCurrency: string, currency: string): Promise<ExchangeRate | null> {
+    const record = await this.prisma.exchangeRate.findUnique({
+      where: {
+        base_currency_currency: {
+          base_currency: baseCurrency.toUpperCase(),
+          currency: currency.toUpperCase(),
+        },
+      },
+    })
+    return record ? ExchangeRateMapper.toEntity(record) : null
+  }
+
+  async getList(baseCurrency: string): Promise<ExchangeRateProjection[]> {
+    const records = await this.prisma.exchangeRate.findMany({
+      where: { base_currency: baseCurrency.toUpperCase() },
+      orderBy: { currency: 'asc' },
+    })
+    return records.map(ExchangeRateMapper.toProjection)
+  }
+}
@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common'
+import type { ExchangeRate } from '@pricing/domain/entities'
+import type { IExchangeRateWriteRepository } from '@pricing/domain/ports'
+import { PrismaService } from '@shared/infrastructure'
+import * as ExchangeRateMapper from '../mappers/exchange-rate.mapper'
+
+@Injectable()
+export class ExchangeRateWriteRepository implements IExchangeRateWriteRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Persists an exchange rate entity (create or update). */
+  async save(rate: ExchangeRate): Promise<ExchangeRate> {
+    const data = ExchangeRateMapper.toPersistence(rate)
+
+    const saved = await this.prisma.exchangeRate.upsert({
+      where: { id: rate.id },
+      create: data,
+      update: data,
+    })
+
+    return ExchangeRateMapper.toEntity(saved)
+  }
+}
@@ -0,0 +1,84 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Patch, Post, Query } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import { CreateCouponCommand } from '@pricing/application/commands/create-coupon/create-coupon.command'
+import { CreateCouponDto } from '@pricing/application/commands/create-coupon/create-coupon.dto'
+import { UpdateCouponCommand } from '@pricing/application/commands/update-coupon/update-coupon.command'
+import { UpdateCouponDto } from '@pricing/application/commands/update-coupon/update-coupon.dto'
+import { CouponListProjection } from '@pricing/application/projections/coupon-list.projection'
+import { GetCouponsListQuery } from '@pricing/application/queries/get-coupons-list/get-coupons-list.query'
+import {
+  AuditContext,
+  EntityIdProjection,
+  Pagination,
+  PaginationQueryDto,
+} from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+/** Admin endpoints for promotional coupons redeemed at checkout. */
+@ApiTags('pricing-admin')
+@ApiBearerAuth()
+@Controller('admin/coupons')
+export class CouponsAdminController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  @Roles('admin')
+  @Get()
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List coupons with usage counts' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Paginated coupon list',
+    type: CouponListProjection,
+    isArray: true,
+  })
+  list(@Query() dto: PaginationQueryDto) {
+    const pagination = new Pagination(dto.page ?? 1, dto.limit ?? 20)
+    return this.queryBus.execute(new GetCouponsListQuery(pagination))
+  }
+
+  @Roles('admin')
+  @Post()
+  @SuccessMessage('success.CREATED', { entity: 'entities.coupon' })
+  @ApiOperation({ summary: 'Create a coupon' })
+  @ApiEnvelopeResponse({ status: 201, description: 'Coupon created', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({ status: 409, description: 'Code already exists' })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Invalid coupon rules' })
+  create(@Body() dto: CreateCouponDto, @CurrentUser() user: ICurrentUser) {
+    return this.commandBus.execute(
+      new CreateCouponCommand(
+        {
+          code: dto.code,
+          type: dto.type,
+          value: dto.value,
+          currency: dto.currency ?? null,
+          eventId: dto.eventId ?? null,
+          startsAt: dto.startsAt ?? null,
+          endsAt: dto.endsAt ?? null,
+          maxUses: dto.maxUses ?? null,
+          maxUsesPerCustomer: dto.maxUsesPerCustomer ?? null,
+        },
+        new AuditContext(user.userId),
+      ),
+    )
+  }
+
+  @Roles('admin')
+  @Patch(':id')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.coupon' })
+  @ApiOperation({ summary: 'Update or deactivate a coupon' })
+  @ApiParam({ name: 'id', description: 'Coupon UUID', format: 'uuid' })
+  @ApiEnvelopeResponse({ status: 200, description: 'Coupon updated', type: EntityIdProjection })
+  @ApiEnvelopeErrorResponse({ status: 404, description: 'Coupon not found' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateCouponDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(new UpdateCouponCommand(id, dto, new AuditContext(user.userId)))
+  }
+}
@@ -0,0 +1,59 @@
+import { Body, Controller, Get, Param, Put } from '@nestjs/common'
+import { CommandBus, QueryBus } from '@nestjs/cqrs'
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
+import { SetExchangeRateCommand } from '@pricing/application/commands/set-exchange-rate/set-exchange-rate.command'
+import { SetExchangeRateDto } from '@pricing/application/commands/set-exchange-rate/set-exchange-rate.dto'
+import { ExchangeRateProjection } from '@pricing/application/projections/exchange-rate.projection'
+import { GetExchangeRatesQuery } from '@pricing/application/queries/get-exchange-rates/get-exchange-rates.query'
+import { AuditContext, EntityIdProjection } from '@shared/application'
+import { CurrentUser, type ICurrentUser, Roles } from '@shared/auth'
+import { ApiEnvelopeErrorResponse, ApiEnvelopeResponse, SuccessMessage } from '@shared/http'
+
+/**
+ * Admin endpoints for the exchange rates to the base currency (`BASE_CURRENCY`).
+ * New orders snapshot the current rate; changing it never re-values past orders.
+ */
+@ApiTags('pricing-admin')
+@ApiBearerAuth()
+@Controller('admin/exchange-rates')
+export class ExchangeRatesAdminController {
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  @Roles('admin')
+  @Get()
+  @SuccessMessage('success.LIST')
+  @ApiOperation({ summary: 'List exchange rates to the base currency' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Exchange rates by currency',
+    type: ExchangeRateProjection,
+    isArray: true,
+  })
+  list() {
+    return this.queryBus.execute(new GetExchangeRatesQuery())
+  }
+
+  @Roles('admin')
+  @Put(':currency')
+  @SuccessMessage('success.UPDATED', { entity: 'entities.exchange_rate' })
+  @ApiOperation({ summary: 'Create or replace the exchange rate of a currency' })
+  @ApiParam({ name: 'currency', description: 'ISO 4217 code', example: 'MXN' })
+  @ApiEnvelopeResponse({
+    status: 200,
+    description: 'Exchange rate saved',
+    type: EntityIdProjection,
+  })
+  @ApiEnvelopeErrorResponse({ status: 422, description: 'Invalid currency or rate' })
+  set(
+    @Param('currency') currency: string,
+    @Body() dto: SetExchangeRateDto,
+    @CurrentUser() user: ICurrentUser,
+  ) {
+    return this.commandBus.execute(
+      new SetExchangeRateCommand(currency, dto.rate, new AuditContext(user.userId)),
+    )
+  }
+}
@@ -9,12 +9,8 @@ import { Roles } from '@shared/auth'
 /**
  * Admin endpoints for managing per-event pricing config (`Event.pricing_config`).
  *
- * STATUS: writes are functional and persisted, but the value is NOT read by
- * the checkout flow yet — checkout uses DEFAULT_PRICING_TIERS at the cart
- * level (see CheckoutCartHandler). These endpoints exist to populate the
- * column for the future bucket-aware checkout. Kept dormant on purpose.
- *
- * Linked follow-up: bucket-aware checkout when overrides go live.
+ * Cart checkout resolves each event through EventPricingResolver and prices
+ * events with distinct configs in separate buckets (see CheckoutCartHandler).
  */
 @ApiTags('pricing-admin')
 @ApiBearerAuth()
@@ -26,7 +22,12 @@ export class PricingAdminController {
   @Put(':eventId/pricing-config')
   set(@Param('eventId', ParseUUIDPipe) eventId: string, @Body() dto: SetEventPricingConfigDto) {
     return this.commandBus.execute(
-      new SetEventPricingConfigCommand(eventId, { currency: dto.currency, tiers: dto.tiers }),
+      new SetEventPricingConfigCommand(eventId, {
+        currency: dto.currency,
+        tiers: dto.tiers,
+        bibPackage: dto.bibPackage ?? null,
+        retouchAddOn: dto.retouchAddOn ?? null,
+      }),
     )
   }
 
@@ -14,7 +14,9 @@ export class PricingController {
   @Public()
   @Get('preview')
   preview(@Query() dto: GetPricingPreviewDto) {
-    return this.queryBus.execute(new GetPricingPreviewQuery(dto.photoCount))
+    return this.queryBus.execute(
+      new GetPricingPreviewQuery(dto.photoCount, dto.eventId ?? null, dto.couponCode ?? null),
+    )
   }
 
   @Public()
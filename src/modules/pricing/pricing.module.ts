@@ -2,28 +2,66 @@ import { Module } from '@nestjs/common'
 import { CqrsModule } from '@nestjs/cqrs'
 import { PrismaModule } from '@shared/infrastructure'
 import { ClearEventPricingConfigHandler } from './application/commands/clear-event-pricing-config/clear-event-pricing-config.handler'
+import { CreateCouponHandler } from './application/commands/create-coupon/create-coupon.handler'
 import { SetEventPricingConfigHandler } from './application/commands/set-event-pricing-config/set-event-pricing-config.handler'
+import { SetExchangeRateHandler } from './application/commands/set-exchange-rate/set-exchange-rate.handler'
+import { UpdateCouponHandler } from './application/commands/update-coupon/update-coupon.handler'
+import { GetCouponsListHandler } from './application/queries/get-coupons-list/get-coupons-list.handler'
+import { GetExchangeRatesHandler } from './application/queries/get-exchange-rates/get-exchange-rates.handler'
 import { GetPricingPreviewHandler } from './application/queries/get-pricing-preview/get-pricing-preview.handler'
 import { GetPricingTiersHandler } from './application/queries/get-pricing-tiers/get-pricing-tiers.handler'
+import { BucketPricingService } from './application/services/bucket-pricing.service'
+import { CouponService } from './application/services/coupon.service'
 import { EventPricingResolver } from './application/services/event-pricing-resolver.service'
-import { EVENT_PRICING_READ_REPOSITORY, EVENT_PRICING_WRITE_REPOSITORY } from './domain/ports'
+import { ExchangeRateService } from './application/services/exchange-rate.service'
+import {
+  COUPON_READ_REPOSITORY,
+  COUPON_WRITE_REPOSITORY,
+  EVENT_PRICING_READ_REPOSITORY,
+  EVENT_PRICING_WRITE_REPOSITORY,
+  EXCHANGE_RATE_READ_REPOSITORY,
+  EXCHANGE_RATE_WRITE_REPOSITORY,
+} from './domain/ports'
+import { CouponReadRepository } from './infrastructure/repositories/coupon-read.repository'
+import { CouponWriteRepository } from './infrastructure/repositories/coupon-write.repository'
 import { EventPricingReadRepository } from './infrastructure/repositories/event-pricing-read.repository'
 import { EventPricingWriteRepository } from './infrastructure/repositories/event-pricing-write.repository'
+import { ExchangeRateReadRepository } from './infrastructure/repositories/exchange-rate-read.repository'
+import { ExchangeRateWriteRepository } from './infrastructure/repositories/exchange-rate-write.repository'
+import { CouponsAdminController } from './presentation/controllers/coupons-admin.controller'
+import { ExchangeRatesAdminController } from './presentation/controllers/exchange-rates-admin.controller'
 import { PricingController } from './presentation/controllers/pricing.controller'
 import { PricingAdminController } from './presentation/controllers/pricing-admin.controller'
 
 @Module({
   imports: [CqrsModule, PrismaModule],
-  controllers: [PricingController, PricingAdminController],
+  controllers: [
+    PricingController,
+    PricingAdminController,
+    CouponsAdminController,
+    ExchangeRatesAdminController,
+  ],
   providers: [
     EventPricingResolver,
+    BucketPricingService,
+    CouponService,
+    ExchangeRateService,
     GetPricingPreviewHandler,
     GetPricingTiersHandler,
     SetEventPricingConfigHandler,
     ClearEventPricingConfigHandler,
+    CreateCouponHandler,
+    UpdateCouponHandler,
+    GetCouponsListHandler,
+    SetExchangeRateHandler,
+    GetExchangeRatesHandler,
     { provide: EVENT_PRICING_READ_REPOSITORY, useClass: EventPricingReadRepository },
     { provide: EVENT_PRICING_WRITE_REPOSITORY, useClass: EventPricingWriteRepository },
+    { provide: COUPON_READ_REPOSITORY, useClass: CouponReadRepository },
+    { provide: COUPON_WRITE_REPOSITORY, useClass: CouponWriteRepository },
+    { provide: EXCHANGE_RATE_READ_REPOSITORY, useClass: ExchangeRateReadRepository },
+    { provide: EXCHANGE_RATE_WRITE_REPOSITORY, useClass: ExchangeRateWriteRepository },
   ],
-  exports: [EventPricingResolver],
+  exports: [EventPricingResolver, BucketPricingService, CouponService, ExchangeRateService],
 })
 export class PricingModule {}
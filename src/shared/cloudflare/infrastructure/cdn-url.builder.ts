@@ -27,6 +27,16 @@ export class CdnUrlBuilder {
     return `${this.baseUrl}${pathname}${this.signUrl(pathname)}`
   }
 
+  /**
+   * HMAC-signed crop of a normalized [x1, y1, x2, y2] region, sized for embedding.
+   * The box travels in the path (per-mille) so the signature covers it.
+   */
+  internalCropUrl(slug: string, bbox: [number, number, number, number]): string {
+    const box = bbox.map((v) => Math.round(Math.min(Math.max(v, 0), 1) * 1000)).join('-')
+    const pathname = `/internal/crop/${box}/${slug}.jpg`
+    return `${this.baseUrl}${pathname}${this.signUrl(pathname)}`
+  }
+
   /** Public event asset URL with optional Worker-handled preset. */
   assetUrl(slug: string, preset?: AssetPreset): string {
     const presetSegment = preset ? `${preset}/` : ''
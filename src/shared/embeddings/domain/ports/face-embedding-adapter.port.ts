@@ -0,0 +1,29 @@
+/** Normalized [x1, y1, x2, y2] box, each coordinate in 0..1 of the image size. */
+export type FaceBbox = [number, number, number, number]
+
+/** Length of the vectors returned by the face model; matches `photo_face_embeddings.embedding`. */
+export const FACE_EMBEDDING_DIMENSIONS = 512
+
+export interface FaceEmbeddingRequest {
+  /** URL the face service downloads the image from (presigned, short-lived). */
+  imageUrl: string
+  /** Regions to look for faces in, e.g. rider detections. Omit to search the whole frame. */
+  regions?: FaceBbox[]
+}
+
+export interface DetectedFace {
+  /** Index in `regions` of the region the face was found in; null for a whole-frame search. */
+  regionIndex: number | null
+  /** Face box in the full image, normalized. */
+  bbox: FaceBbox
+  confidence: number
+  /** Unit-length vector, compared with cosine distance. */
+  embedding: number[]
+}
+
+export interface IFaceEmbeddingAdapter {
+  /** Finds the faces in an image and embeds each one. Returns an empty list when there is none. */
+  embedFaces(request: FaceEmbeddingRequest): Promise<DetectedFace[]>
+}
+
+export const FACE_EMBEDDING_ADAPTER = Symbol('FACE_EMBEDDING_ADAPTER')
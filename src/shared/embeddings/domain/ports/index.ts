@@ -3,3 +3,11 @@ export {
   type EmbeddingResult,
   type IEmbeddingAdapter,
 } from './embedding-adapter.port'
+export {
+  type DetectedFace,
+  FACE_EMBEDDING_ADAPTER,
+  FACE_EMBEDDING_DIMENSIONS,
+  type FaceBbox,
+  type FaceEmbeddingRequest,
+  type IFaceEmbeddingAdapter,
+} from './face-embedding-adapter.port'
@@ -1,10 +1,25 @@
 import { Global, Module } from '@nestjs/common'
-import { EMBEDDING_ADAPTER } from './domain/ports'
-import { VoyageAIEmbeddingAdapter } from './infrastructure/adapters'
+import { ConfigService } from '@nestjs/config'
+import { EMBEDDING_ADAPTER, FACE_EMBEDDING_ADAPTER } from './domain/ports'
+import {
+  FakeFaceEmbeddingAdapter,
+  HttpFaceEmbeddingAdapter,
+  VoyageAIEmbeddingAdapter,
+} from './infrastructure/adapters'
 
 @Global()
 @Module({
-  providers: [{ provide: EMBEDDING_ADAPTER, useClass: VoyageAIEmbeddingAdapter }],
-  exports: [EMBEDDING_ADAPTER],
+  providers: [
+    { provide: EMBEDDING_ADAPTER, useClass: VoyageAIEmbeddingAdapter },
+    {
+      provide: FACE_EMBEDDING_ADAPTER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        config.get<string>('faceEmbedding.driver') === 'fake'
+          ? new FakeFaceEmbeddingAdapter()
+          : new HttpFaceEmbeddingAdapter(config),
+    },
+  ],
+  exports: [EMBEDDING_ADAPTER, FACE_EMBEDDING_ADAPTER],
 })
 export class EmbeddingsModule {}
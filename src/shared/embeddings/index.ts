@@ -1,3 +1,17 @@
-export { EMBEDDING_ADAPTER, type EmbeddingResult, type IEmbeddingAdapter } from './domain/ports'
+export {
+  type DetectedFace,
+  EMBEDDING_ADAPTER,
+  type EmbeddingResult,
+  FACE_EMBEDDING_ADAPTER,
+  FACE_EMBEDDING_DIMENSIONS,
+  type FaceBbox,
+  type FaceEmbeddingRequest,
+  type IEmbeddingAdapter,
+  type IFaceEmbeddingAdapter,
+} from './domain/ports'
 export { EmbeddingsModule } from './embeddings.module'
-export { VoyageAIEmbeddingAdapter } from './infrastructure/adapters'
+export {
+  FakeFaceEmbeddingAdapter,
+  HttpFaceEmbeddingAdapter,
+  VoyageAIEmbeddingAdapter,
+} from './infrastructure/adapters'
@@ -0,0 +1,41 @@
+import { FACE_EMBEDDING_DIMENSIONS } from '../../domain/ports'
+import { FakeFaceEmbeddingAdapter } from './fake-face-embedding.adapter'
+
+const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0))
+
+describe('FakeFaceEmbeddingAdapter', () => {
+  const adapter = new FakeFaceEmbeddingAdapter()
+
+  it('finds one unit-length face in the whole frame when no region is given', async () => {
+    const faces = await adapter.embedFaces({ imageUrl: 'https://b2/selfies/e/1.jpg?X-Sig=abc' })
+
+    expect(faces).toHaveLength(1)
+    expect(faces[0].regionIndex).toBeNull()
+    expect(faces[0].embedding).toHaveLength(FACE_EMBEDDING_DIMENSIONS)
+    expect(norm(faces[0].embedding)).toBeCloseTo(1, 6)
+  })
+
+  it('returns the same vectors for the same image, whatever the URL signature', async () => {
+    const first = await adapter.embedFaces({ imageUrl: 'https://b2/events/e/a.jpg?X-Sig=1' })
+    const second = await adapter.embedFaces({ imageUrl: 'https://b2/events/e/a.jpg?X-Sig=2' })
+    const other = await adapter.embedFaces({ imageUrl: 'https://b2/events/e/b.jpg?X-Sig=1' })
+
+    expect(second[0].embedding).toEqual(first[0].embedding)
+    expect(other[0].embedding).not.toEqual(first[0].embedding)
+  })
+
+  it('finds one face per region, inside it', async () => {
+    const faces = await adapter.embedFaces({
+      imageUrl: 'https://b2/events/e/a.jpg',
+      regions: [
+        [0.1, 0.1, 0.3, 0.9],
+        [0.5, 0.2, 0.7, 0.8],
+      ],
+    })
+
+    expect(faces.map((f) => f.regionIndex)).toEqual([0, 1])
+    expect(faces[1].bbox[0]).toBeGreaterThanOrEqual(0.5)
+    expect(faces[1].bbox[2]).toBeLessThanOrEqual(0.7)
+    expect(faces[0].embedding).not.toEqual(faces[1].embedding)
+  })
+})
@@ -0,0 +1,59 @@
+import * as crypto from 'node:crypto'
+import { Injectable } from '@nestjs/common'
+import {
+  type DetectedFace,
+  FACE_EMBEDDING_DIMENSIONS,
+  type FaceBbox,
+  type FaceEmbeddingRequest,
+  type IFaceEmbeddingAdapter,
+} from '../../domain/ports'
+
+const WHOLE_FRAME_FACE: FaceBbox = [0.35, 0.2, 0.65, 0.6]
+
+/**
+ * Offline stand-in for the face service (`FACE_EMBEDDING_DRIVER=fake`). Finds one face per
+ * region, or one in the middle of the frame, and derives its vector from the image path and
+ * the region. The same image always yields the same vectors; nothing is downloaded.
+ */
+@Injectable()
+export class FakeFaceEmbeddingAdapter implements IFaceEmbeddingAdapter {
+  async embedFaces(request: FaceEmbeddingRequest): Promise<DetectedFace[]> {
+    const imageKey = new URL(request.imageUrl).pathname
+
+    if (!request.regions?.length) {
+      return [
+        {
+          regionIndex: null,
+          bbox: WHOLE_FRAME_FACE,
+          confidence: 0.9,
+          embedding: seededUnitVector(imageKey),
+        },
+      ]
+    }
+
+    return request.regions.map((region, regionIndex) => {
+      const [x1, y1, x2] = region
+      const width = x2 - x1
+      return {
+        regionIndex,
+        bbox: [x1 + width * 0.3, y1, x2 - width * 0.3, y1 + (region[3] - y1) * 0.25],
+        confidence: 0.9,
+        embedding: seededUnitVector(`${imageKey}#${region.join(',')}`),
+      }
+    })
+  }
+}
+
+/** Expands a SHA-256 chain of the seed into a unit-length vector. */
+function seededUnitVector(seed: string): number[] {
+  const values: number[] = []
+  let block = crypto.createHash('sha256').update(seed).digest()
+  while (values.length < FACE_EMBEDDING_DIMENSIONS) {
+    for (let i = 0; i + 1 < block.length && values.length < FACE_EMBEDDING_DIMENSIONS; i += 2) {
+      values.push(block.readUInt16BE(i) / 32767.5 - 1)
+    }
+    block = crypto.createHash('sha256').update(block).digest()
+  }
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0))
+  return values.map((v) => v / norm)
+}
@@ -0,0 +1,104 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { AppException, ErrorCode } from '@shared/domain'
+import { z } from 'zod'
+import {
+  type DetectedFace,
+  FACE_EMBEDDING_DIMENSIONS,
+  type FaceEmbeddingRequest,
+  type IFaceEmbeddingAdapter,
+} from '../../domain/ports'
+
+const BboxTuple = z.tuple([z.number(), z.number(), z.number(), z.number()])
+
+const FacesResponseSchema = z.object({
+  faces: z.array(
+    z.object({
+      region_index: z.number().int().nullable(),
+      bbox: BboxTuple,
+      confidence: z.number().min(0).max(1),
+      embedding: z.array(z.number()).length(FACE_EMBEDDING_DIMENSIONS),
+    }),
+  ),
+})
+
+/** Calls the face endpoint of the AI service, which detects faces and embeds them in one pass. */
+@Injectable()
+export class HttpFaceEmbeddingAdapter implements IFaceEmbeddingAdapter {
+  private readonly logger = new Logger(HttpFaceEmbeddingAdapter.name)
+  private readonly baseUrl: string
+  private readonly timeoutMs: number
+
+  constructor(config: ConfigService) {
+    this.baseUrl = config.getOrThrow<string>('faceEmbedding.baseUrl')
+    this.timeoutMs = config.get<number>('faceEmbedding.timeoutMs', 15_000)
+  }
+
+  async embedFaces(request: FaceEmbeddingRequest): Promise<DetectedFace[]> {
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}/faces`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image_url: request.imageUrl, regions: request.regions ?? null }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      })
+    } catch (error) {
+      const cause = error instanceof Error ? error.message : String(error)
+      this.logger.error(`Face service network failure: ${cause}`)
+      throw new AppException(
+        'face_embedding.service_unavailable',
+        HttpStatus.BAD_GATEWAY,
+        ErrorCode.EXTERNAL_SERVICE,
+        false,
+        { cause },
+      )
+    }
+
+    if (response.status >= 500) {
+      const body = await response.text().catch(() => 'no body')
+      this.logger.error(`Face service 5xx ${response.status}: ${body}`)
+      throw new AppException(
+        'face_embedding.service_unavailable',
+        HttpStatus.BAD_GATEWAY,
+        ErrorCode.EXTERNAL_SERVICE,
+        false,
+        { httpStatus: response.status, body },
+      )
+    }
+
+    if (response.status >= 400) {
+      const body = await response.text().catch(() => 'no body')
+      this.logger.error(`Face service 4xx ${response.status}: ${body}`)
+      throw new AppException(
+        'face_embedding.invalid_request',
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        ErrorCode.BUSINESS_RULE,
+        false,
+        { httpStatus: response.status, body },
+      )
+    }
+
+    const parsed = FacesResponseSchema.safeParse(await response.json().catch(() => null))
+    if (!parsed.success) {
+      const firstIssue = parsed.error.issues[0]
+      this.logger.error(
+        `Invalid face response shape: ${firstIssue?.path.join('.')}: ${firstIssue?.message}`,
+      )
+      throw new AppException(
+        'face_embedding.invalid_response_shape',
+        HttpStatus.BAD_GATEWAY,
+        ErrorCode.EXTERNAL_SERVICE,
+        false,
+        { issue: firstIssue },
+      )
+    }
+
+    return parsed.data.faces.map((face) => ({
+      regionIndex: face.region_index,
+      bbox: face.bbox,
+      confidence: face.confidence,
+      embedding: face.embedding,
+    }))
+  }
+}
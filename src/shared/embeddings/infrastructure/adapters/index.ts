@@ -1 +1,3 @@
+export { FakeFaceEmbeddingAdapter } from './fake-face-embedding.adapter'
+export { HttpFaceEmbeddingAdapter } from './http-face-embedding.adapter'
 export { VoyageAIEmbeddingAdapter } from './voyage-ai.adapter'
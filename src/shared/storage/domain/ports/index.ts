@@ -1 +1,5 @@
-export { type IStorageAdapter, STORAGE_ADAPTER } from './storage-adapter.port'
+export {
+  type IStorageAdapter,
+  STORAGE_ADAPTER,
+  type UploadedPart,
+} from './storage-adapter.port'
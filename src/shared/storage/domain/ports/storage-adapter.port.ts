@@ -36,11 +36,6 @@ export interface PresignedUrlResult {
   expiresIn: number
 }
 
-/**
- * Port interface for storage operations.
- * Abstracts the underlying storage provider (Backblaze B2, S3, etc.)
- * so it can be swapped without changing business logic.
- */
 /** Parameters required to generate a presigned download URL. */
 export interface PresignedDownloadParams {
   /** Storage key (path) of the file to download. */
@@ -51,6 +46,41 @@ export interface PresignedDownloadParams {
   expiresIn?: number
 }
 
+/** Parameters required to start a multipart upload. */
+export interface MultipartUploadParams {
+  /** Storage key (path) the assembled file will be stored under. */
+  key: string
+  /** MIME type of the file (e.g., `image/jpeg`). */
+  contentType: string
+}
+
+/** Identifies an in-progress multipart upload. */
+export interface MultipartUploadRef {
+  /** Storage key (path) of the file being uploaded. */
+  key: string
+  /** Upload ID returned by `createMultipartUpload`. */
+  uploadId: string
+}
+
+/** Parameters required to presign the upload of a single part. */
+export interface PresignedPartParams extends MultipartUploadRef {
+  /** 1-based part number (1–10000). */
+  partNumber: number
+  /** URL expiration time in seconds. */
+  expiresIn: number
+}
+
+/** A part already stored by the provider, identified by its ETag. */
+export interface UploadedPart {
+  partNumber: number
+  etag: string
+}
+
+/**
+ * Port interface for storage operations.
+ * Abstracts the underlying storage provider (Backblaze B2, S3, etc.)
+ * so it can be swapped without changing business logic.
+ */
 export interface IStorageAdapter {
   /** Uploads a file to storage and returns the storage key and public URL. */
   upload(params: UploadParams): Promise<UploadResult>
@@ -66,6 +96,21 @@ export interface IStorageAdapter {
 
   /** Deletes a file from storage by its storage key. */
   delete(key: string): Promise<void>
+
+  /** Starts a multipart upload and returns its upload ID. */
+  createMultipartUpload(params: MultipartUploadParams): Promise<string>
+
+  /** Generates a presigned URL for uploading one part of a multipart upload. */
+  getPresignedPartUrl(params: PresignedPartParams): Promise<string>
+
+  /** Lists the parts the provider has already stored for a multipart upload. */
+  listUploadedParts(params: MultipartUploadRef): Promise<UploadedPart[]>
+
+  /** Assembles the uploaded parts into the final object. */
+  completeMultipartUpload(params: MultipartUploadRef & { parts: UploadedPart[] }): Promise<void>
+
+  /** Aborts a multipart upload and discards the parts stored so far. */
+  abortMultipartUpload(params: MultipartUploadRef): Promise<void>
 }
 
 export const STORAGE_ADAPTER = Symbol('STORAGE_ADAPTER')
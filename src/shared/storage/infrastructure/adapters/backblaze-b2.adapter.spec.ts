@@ -1,4 +1,13 @@
-import { DeleteObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3'
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  ListPartsCommand,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
 import { ConfigService } from '@nestjs/config'
 import { AppException } from '@shared/domain/exceptions/app.exception'
@@ -184,4 +193,93 @@ describe('BackblazeB2Adapter', () => {
       expect(error.code).toBe('EXTERNAL_SERVICE')
     })
   })
+
+  describe('multipart uploads', () => {
+    const ref = { key: 'events/abc-123/photos/uuid-IMG_001.jpg', uploadId: 'upload-1' }
+
+    it('should start a multipart upload and return the upload ID', async () => {
+      mockSend.mockResolvedValueOnce({ UploadId: 'upload-1' })
+
+      const uploadId = await adapter.createMultipartUpload({
+        key: ref.key,
+        contentType: 'image/jpeg',
+      })
+
+      expect(uploadId).toBe('upload-1')
+      expect(CreateMultipartUploadCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: ref.key,
+        ContentType: 'image/jpeg',
+      })
+    })
+
+    it('should presign an UploadPartCommand for the requested part', async () => {
+      mockGetSignedUrl.mockResolvedValueOnce('https://signed-part-url')
+
+      const url = await adapter.getPresignedPartUrl({ ...ref, partNumber: 3, expiresIn: 3600 })
+
+      expect(url).toBe('https://signed-part-url')
+      expect(UploadPartCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: ref.key,
+        UploadId: 'upload-1',
+        PartNumber: 3,
+      })
+    })
+
+    it('should follow pagination when listing uploaded parts', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Parts: [{ PartNumber: 1, ETag: '"a"' }],
+          IsTruncated: true,
+          NextPartNumberMarker: '1',
+        })
+        .mockResolvedValueOnce({ Parts: [{ PartNumber: 2, ETag: '"b"' }], IsTruncated: false })
+
+      const parts = await adapter.listUploadedParts(ref)
+
+      expect(ListPartsCommand).toHaveBeenCalledTimes(2)
+      expect(parts).toEqual([
+        { partNumber: 1, etag: '"a"' },
+        { partNumber: 2, etag: '"b"' },
+      ])
+    })
+
+    it('should complete the upload with parts sorted by part number', async () => {
+      mockSend.mockResolvedValueOnce({})
+
+      await adapter.completeMultipartUpload({
+        ...ref,
+        parts: [
+          { partNumber: 2, etag: '"b"' },
+          { partNumber: 1, etag: '"a"' },
+        ],
+      })
+
+      expect(CompleteMultipartUploadCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: ref.key,
+        UploadId: 'upload-1',
+        MultipartUpload: {
+          Parts: [
+            { PartNumber: 1, ETag: '"a"' },
+            { PartNumber: 2, ETag: '"b"' },
+          ],
+        },
+      })
+    })
+
+    it('should throw AppException.externalService when abort fails', async () => {
+      mockSend.mockRejectedValueOnce(new Error('S3 abort failed'))
+
+      const error = await adapter.abortMultipartUpload(ref).catch((e) => e)
+      expect(AbortMultipartUploadCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: ref.key,
+        UploadId: 'upload-1',
+      })
+      expect(error).toBeInstanceOf(AppException)
+      expect(error.code).toBe('EXTERNAL_SERVICE')
+    })
+  })
 })
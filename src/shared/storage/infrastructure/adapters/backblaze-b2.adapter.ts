@@ -1,8 +1,13 @@
 import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
   DeleteObjectCommand,
   GetObjectCommand,
+  ListPartsCommand,
   PutObjectCommand,
   S3Client,
+  UploadPartCommand,
 } from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
 import { Injectable, Logger } from '@nestjs/common'
@@ -10,9 +15,13 @@ import { ConfigService } from '@nestjs/config'
 import { AppException } from '@shared/domain/exceptions/app.exception'
 import type {
   IStorageAdapter,
+  MultipartUploadParams,
+  MultipartUploadRef,
   PresignedDownloadParams,
+  PresignedPartParams,
   PresignedUrlParams,
   PresignedUrlResult,
+  UploadedPart,
   UploadParams,
   UploadResult,
 } from '../../domain/ports/storage-adapter.port'
@@ -131,4 +140,109 @@ export class BackblazeB2Adapter implements IStorageAdapter {
       throw AppException.externalService('BackblazeB2', error as Error)
     }
   }
+
+  /** Starts a multipart upload on B2 and returns its upload ID. */
+  async createMultipartUpload(params: MultipartUploadParams): Promise<string> {
+    try {
+      const result = await this.client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: params.key,
+          ContentType: params.contentType,
+        }),
+      )
+      if (!result.UploadId) throw new Error('B2 returned no UploadId')
+      return result.UploadId
+    } catch (error) {
+      this.logger.error(`Failed to start multipart upload for: ${params.key}`, error)
+      throw AppException.externalService('BackblazeB2', error as Error)
+    }
+  }
+
+  /** Generates a presigned URL for uploading a single part directly to B2. */
+  async getPresignedPartUrl(params: PresignedPartParams): Promise<string> {
+    try {
+      const command = new UploadPartCommand({
+        Bucket: this.bucketName,
+        Key: params.key,
+        UploadId: params.uploadId,
+        PartNumber: params.partNumber,
+      })
+
+      return await getSignedUrl(this.client, command, { expiresIn: params.expiresIn })
+    } catch (error) {
+      this.logger.error(
+        `Failed to generate presigned part URL for: ${params.key} (part ${params.partNumber})`,
+        error,
+      )
+      throw AppException.externalService('BackblazeB2', error as Error)
+    }
+  }
+
+  /** Lists every part B2 has stored for a multipart upload, following pagination. */
+  async listUploadedParts(params: MultipartUploadRef): Promise<UploadedPart[]> {
+    try {
+      const parts: UploadedPart[] = []
+      let marker: string | undefined
+      do {
+        const page = await this.client.send(
+          new ListPartsCommand({
+            Bucket: this.bucketName,
+            Key: params.key,
+            UploadId: params.uploadId,
+            PartNumberMarker: marker,
+          }),
+        )
+        for (const part of page.Parts ?? []) {
+          if (part.PartNumber && part.ETag) {
+            parts.push({ partNumber: part.PartNumber, etag: part.ETag })
+          }
+        }
+        marker = page.IsTruncated ? page.NextPartNumberMarker : undefined
+      } while (marker)
+      return parts
+    } catch (error) {
+      this.logger.error(`Failed to list uploaded parts for: ${params.key}`, error)
+      throw AppException.externalService('BackblazeB2', error as Error)
+    }
+  }
+
+  /** Assembles the uploaded parts into the final object on B2. */
+  async completeMultipartUpload(
+    params: MultipartUploadRef & { parts: UploadedPart[] },
+  ): Promise<void> {
+    try {
+      await this.client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: params.key,
+          UploadId: params.uploadId,
+          MultipartUpload: {
+            Parts: [...params.parts]
+              .sort((a, b) => a.partNumber - b.partNumber)
+              .map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })),
+          },
+        }),
+      )
+    } catch (error) {
+      this.logger.error(`Failed to complete multipart upload for: ${params.key}`, error)
+      throw AppException.externalService('BackblazeB2', error as Error)
+    }
+  }
+
+  /** Aborts a multipart upload so B2 discards its stored parts. */
+  async abortMultipartUpload(params: MultipartUploadRef): Promise<void> {
+    try {
+      await this.client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: params.key,
+          UploadId: params.uploadId,
+        }),
+      )
+    } catch (error) {
+      this.logger.error(`Failed to abort multipart upload for: ${params.key}`, error)
+      throw AppException.externalService('BackblazeB2', error as Error)
+    }
+  }
 }
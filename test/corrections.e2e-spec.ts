@@ -131,7 +131,7 @@ describe('Corrections endpoints (e2e)', () => {
       const res = await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
         .set('Authorization', bearer)
-        .send({ newValue: '25' })
+        .send({ newValue: '25', version: 1 })
         .expect(201)
 
       expect(res.body.data).toEqual(
@@ -162,7 +162,7 @@ describe('Corrections endpoints (e2e)', () => {
       const res = await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
         .set('Authorization', bearer)
-        .send({ newValue: '20' })
+        .send({ newValue: '20', version: 1 })
         .expect(201)
 
       expect(res.body.data).toEqual(expect.objectContaining({ changed: false }))
@@ -185,7 +185,7 @@ describe('Corrections endpoints (e2e)', () => {
       const res = await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
         .set('Authorization', bearer)
-        .send({ newValue: '25' })
+        .send({ newValue: '25', version: 1 })
         .expect(422)
 
       expect(res.body.error).toHaveProperty('code', 'BUSINESS_RULE')
@@ -199,7 +199,7 @@ describe('Corrections endpoints (e2e)', () => {
       await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoA}/bibs/${orphanBibId}/corrections`)
         .set('Authorization', bearer)
-        .send({ newValue: '25' })
+        .send({ newValue: '25', version: 1 })
         .expect(404)
     })
 
@@ -210,7 +210,7 @@ describe('Corrections endpoints (e2e)', () => {
       await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
         .set('Authorization', bearer)
-        .send({ newValue: 'ABC' })
+        .send({ newValue: 'ABC', version: 1 })
         .expect(400)
     })
 
@@ -219,7 +219,7 @@ describe('Corrections endpoints (e2e)', () => {
       const bibId = await seedBib(photoId, '20')
       await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
-        .send({ newValue: '25' })
+        .send({ newValue: '25', version: 1 })
         .expect(401)
     })
 
@@ -229,7 +229,7 @@ describe('Corrections endpoints (e2e)', () => {
       await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
         .set('Authorization', customerBearer)
-        .send({ newValue: '25' })
+        .send({ newValue: '25', version: 1 })
         .expect(403)
     })
 
@@ -240,20 +240,40 @@ describe('Corrections endpoints (e2e)', () => {
       const r1 = await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
         .set('Authorization', bearer)
-        .send({ newValue: '25' })
+        .send({ newValue: '25', version: 1 })
         .expect(201)
       expect(r1.body.data.changed).toBe(true)
 
       const r2 = await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
         .set('Authorization', bearer)
-        .send({ newValue: '25' })
+        .send({ newValue: '25', version: 2 })
         .expect(201)
       expect(r2.body.data.changed).toBe(false)
 
       const rows = await prisma.correction.findMany({ where: { target_id: bibId } })
       expect(rows).toHaveLength(1)
     })
+
+    it('correction against an outdated version → 409, nothing written', async () => {
+      const photoId = await seedProcessedPhoto()
+      const bibId = await seedBib(photoId, '20')
+
+      await request(app.getHttpServer())
+        .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
+        .set('Authorization', bearer)
+        .send({ newValue: '25', version: 1 })
+        .expect(201)
+
+      await request(app.getHttpServer())
+        .post(`/api/v1/photos/${photoId}/bibs/${bibId}/corrections`)
+        .set('Authorization', bearer)
+        .send({ newValue: '30', version: 1 })
+        .expect(409)
+
+      const rows = await prisma.correction.findMany({ where: { target_id: bibId } })
+      expect(rows).toHaveLength(1)
+    })
   })
 
   describe('POST /photos/:photoId/colors/:colorId/corrections', () => {
@@ -264,7 +284,7 @@ describe('Corrections endpoints (e2e)', () => {
       const res = await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/colors/${colorId}/corrections`)
         .set('Authorization', bearer)
-        .send({ field: 'primary_color', newValue: 'naranja' })
+        .send({ field: 'primary_color', newValue: 'naranja', version: 1 })
         .expect(201)
 
       expect(res.body.data).toEqual(
@@ -290,7 +310,7 @@ describe('Corrections endpoints (e2e)', () => {
       const res = await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/colors/${colorId}/corrections`)
         .set('Authorization', bearer)
-        .send({ field: 'secondary_color', newValue: null })
+        .send({ field: 'secondary_color', newValue: null, version: 1 })
         .expect(201)
 
       expect(res.body.data.changed).toBe(true)
@@ -312,7 +332,7 @@ describe('Corrections endpoints (e2e)', () => {
       await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoA}/colors/${colorBId}/corrections`)
         .set('Authorization', bearer)
-        .send({ field: 'primary_color', newValue: 'azul' })
+        .send({ field: 'primary_color', newValue: 'azul', version: 1 })
         .expect(404)
     })
 
@@ -323,7 +343,7 @@ describe('Corrections endpoints (e2e)', () => {
       await request(app.getHttpServer())
         .post(`/api/v1/photos/${photoId}/colors/${colorId}/corrections`)
         .set('Authorization', bearer)
-        .send({ field: 'primary_color', newValue: 'turquesa' })
+        .send({ field: 'primary_color', newValue: 'turquesa', version: 1 })
         .expect(400)
     })
   })
@@ -107,6 +107,21 @@ describe('PhotoClassificationWriteRepository (integration)', () => {
         preprocessingApplied: [],
         processingMs: 287,
         cropPath: null,
+        detectionIndex: 0,
+        readings: [
+          {
+            digits: '20',
+            confidence: 0.98,
+            confidencePerDigit: [0.99, 0.97],
+            status: BibReadingStatus.read,
+            rejectionReason: null,
+            rawOcrText: '20',
+            bboxSource: [0.1, 0.3, 0.3, 0.55],
+            preprocessingApplied: [],
+            processingMs: 287,
+            cropPath: null,
+          },
+        ],
       },
     ],
     colors: [
@@ -141,6 +156,10 @@ describe('PhotoClassificationWriteRepository (integration)', () => {
     })
     expect(bibs).toHaveLength(1)
     expect(bibs[0].source).toBe(AttributeSource.ai)
+    expect(bibs[0].detection_id).toBe(detections[0].id)
+    const readings = await prisma.photoBibReading.findMany({ where: { photo_bib_id: bibs[0].id } })
+    expect(readings).toHaveLength(1)
+    expect(readings[0].digits).toBe('20')
     const colors = await prisma.photoColor.findMany({
       where: { photo_processing_id: processingId },
     })
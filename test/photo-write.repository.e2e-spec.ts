@@ -0,0 +1,97 @@
+import type { PrismaClient } from '@generated/prisma/client'
+import { ConfigModule } from '@nestjs/config'
+import { Test } from '@nestjs/testing'
+import configuration from '../src/config/configuration'
+import { PhotoExif } from '../src/modules/photos/domain/entities'
+import * as PhotoMapper from '../src/modules/photos/infrastructure/mappers/photo.mapper'
+import { PhotoExifRepository } from '../src/modules/photos/infrastructure/repositories/photo-exif.repository'
+import { PhotoWriteRepository } from '../src/modules/photos/infrastructure/repositories/photo-write.repository'
+import { PrismaService } from '../src/shared/infrastructure/prisma/prisma.service'
+import { createPhotoFixture } from './fixtures/factories/photo.factory'
+import { createEventFixture } from './fixtures/factories/user.factory'
+
+describe('PhotoWriteRepository (integration)', () => {
+  let prisma: PrismaService
+  let photoRepo: PhotoWriteRepository
+  let exifRepo: PhotoExifRepository
+  let eventId: string
+  let photoId: string
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          envFilePath: [`.env.${process.env.NODE_ENV || 'test'}`, '.env'],
+          load: [configuration],
+          isGlobal: true,
+        }),
+      ],
+      providers: [PrismaService, PhotoWriteRepository, PhotoExifRepository],
+    }).compile()
+    prisma = moduleRef.get(PrismaService)
+    photoRepo = moduleRef.get(PhotoWriteRepository)
+    exifRepo = moduleRef.get(PhotoExifRepository)
+    await prisma.$connect()
+  })
+
+  beforeEach(async () => {
+    await prisma.$executeRawUnsafe('TRUNCATE photos, photo_exif, events RESTART IDENTITY CASCADE')
+    eventId = await createEventFixture(prisma as unknown as PrismaClient)
+    photoId = await createPhotoFixture(prisma as unknown as PrismaClient, eventId)
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  it('keeps the EXIF capture time and size when classification finishes after extraction', async () => {
+    // Classification loads the photo before the EXIF job stamps it
+    const photo = PhotoMapper.toEntity(
+      await prisma.photo.findUniqueOrThrow({ where: { id: photoId } }),
+    )
+    photo.markProcessing()
+    await photoRepo.saveProcessingStatus(photo)
+
+    const capturedAt = new Date('2026-05-10T08:15:00Z')
+    const exif = PhotoExif.create({
+      photoId,
+      eventId,
+      metadata: {
+        cameraMake: 'Canon',
+        cameraModel: 'EOS R6',
+        cameraSerial: null,
+        lensModel: null,
+        orientation: 1,
+        gpsLatitude: null,
+        gpsLongitude: null,
+        gpsAltitude: null,
+        capturedAt,
+        width: 6000,
+        height: 4000,
+      },
+    })
+    await exifRepo.save(exif, { capturedAt, width: 6000, height: 4000 })
+
+    photo.markProcessed(1500, 1000)
+    await photoRepo.saveProcessingStatus(photo)
+
+    const row = await prisma.photo.findUniqueOrThrow({ where: { id: photoId } })
+    expect(row.status).toBe('processed')
+    expect(row.processed_at).not.toBeNull()
+    expect(row.captured_at).toEqual(capturedAt)
+    expect(row.width).toBe(6000)
+    expect(row.height).toBe(4000)
+  })
+
+  it('fills in the size from classification when EXIF had none', async () => {
+    const photo = PhotoMapper.toEntity(
+      await prisma.photo.findUniqueOrThrow({ where: { id: photoId } }),
+    )
+    photo.markProcessed(1500, 1000)
+    await photoRepo.saveProcessingStatus(photo)
+
+    const row = await prisma.photo.findUniqueOrThrow({ where: { id: photoId } })
+    expect(row.width).toBe(1500)
+    expect(row.height).toBe(1000)
+  })
+})
@@ -13,6 +13,9 @@ const INTERNAL_PRESETS = {
   embedding: { width: 1600, quality: 75, fit: 'scale-down', format: 'jpeg' },
 }
 
+// Detection crops for per-rider embeddings: the trim is added per request.
+const CROP_OPTIONS = { width: 512, height: 512, quality: 80, fit: 'scale-down', format: 'jpeg' }
+
 // ─── HMAC helpers ──────────────────────────────────────────────────────────
 
 async function importHmacKey(secret) {
@@ -153,6 +156,56 @@ async function fetchWithPreset(slug, presetOptions, env) {
   return sanitizeResponse(response)
 }
 
+/**
+ * Crops a per-mille [x1, y1, x2, y2] box out of the original. cf.image trims in pixels,
+ * so the original dimensions are read first with a format=json pass.
+ */
+async function fetchCrop(slug, box, env) {
+  const objectPath = await env.IMAGE_MAP.get(slug)
+  if (!objectPath) return new Response('Not Found', { status: 404 })
+
+  const b2 = getB2Client(env)
+  const originUrl = getB2Url(env, objectPath)
+  const signedReq = await b2.sign(originUrl)
+
+  const info = await fetch(originUrl, {
+    headers: signedReq.headers,
+    cf: { image: { format: 'json', 'origin-auth': 'share-publicly' } },
+  })
+  if (!info.ok) {
+    return info.status === 404
+      ? new Response('Not Found', { status: 404 })
+      : new Response('Bad Gateway', { status: 502 })
+  }
+  const { original } = await info.json()
+
+  const [x1, y1, x2, y2] = box.map((v) => Math.min(v, 1000) / 1000)
+  if (x2 <= x1 || y2 <= y1) return new Response('Bad Request', { status: 400 })
+  const trim = {
+    left: Math.floor(x1 * original.width),
+    top: Math.floor(y1 * original.height),
+    right: Math.floor((1 - x2) * original.width),
+    bottom: Math.floor((1 - y2) * original.height),
+  }
+
+  const response = await fetch(originUrl, {
+    headers: signedReq.headers,
+    cf: {
+      image: { ...CROP_OPTIONS, trim, 'origin-auth': 'share-publicly' },
+      cacheEverything: true,
+      cacheTtl: 604800,
+    },
+  })
+
+  if (!response.ok) {
+    return response.status === 404
+      ? new Response('Not Found', { status: 404 })
+      : new Response('Bad Gateway', { status: 502 })
+  }
+
+  return sanitizeResponse(response)
+}
+
 /** Resolves slug → B2 path, signs request, applies watermark + QR + quality degradation. */
 async function fetchWatermarked(slug, env) {
   const objectPath = await env.IMAGE_MAP.get(slug)
@@ -211,6 +264,8 @@ async function fetchWatermarked(slug, env) {
 // ─── Main router ───────────────────────────────────────────────────────────
 
 const ROUTE_REGEX = /^\/(gallery|internal|assets)\/(?:([a-z0-9-]+)\/)?([a-zA-Z0-9_-]+)\.jpg$/
+const CROP_ROUTE_REGEX =
+  /^\/internal\/crop\/(\d{1,4})-(\d{1,4})-(\d{1,4})-(\d{1,4})\/([a-zA-Z0-9_-]+)\.jpg$/
 
 /**
  * Validates the Referer header to prevent hotlinking from unauthorized domains.
@@ -249,6 +304,16 @@ export default {
       return serveKvAsset(env, '_asset:watermark', 'image/png')
     }
 
+    // ── /internal/crop/{box}/ — HMAC-protected, box is part of the signed path ──
+    const cropMatch = url.pathname.match(CROP_ROUTE_REGEX)
+    if (cropMatch) {
+      const auth = await verifyHmacToken(url, env.HMAC_SECRET)
+      if (!auth.valid) return forbidden(auth.reason)
+
+      const [, x1, y1, x2, y2, slug] = cropMatch
+      return fetchCrop(slug, [x1, y1, x2, y2].map(Number), env)
+    }
+
     const match = url.pathname.match(ROUTE_REGEX)
     if (!match) return new Response('Not Found', { status: 404 })
 